@@ -235,6 +235,54 @@ describe('FormulaShiftingService', () => {
     });
   });
 
+  // ==================== SHEET-QUALIFIED REFERENCES ====================
+
+  describe('Sheet-Qualified References', () => {
+    test('Shifts the reference but not a cell-like sheet name', () => {
+      const result = FormulaShiftingService.shift(
+        '=Q1!A1+Q1',
+        { row: 0, col: 0 },
+        { row: 1, col: 1 }
+      );
+      expect(result).toBe('=Q1!B2+R2');
+    });
+
+    test('Preserves anchors inside a quoted sheet reference', () => {
+      const result = FormulaShiftingService.shift(
+        "='My Sheet'!$A$1:B2",
+        { row: 0, col: 0 },
+        { row: 1, col: 1 }
+      );
+      expect(result).toBe("='My Sheet'!$A$1:C3");
+    });
+
+    test('Keeps escaped quotes and 3-D spans intact', () => {
+      expect(FormulaShiftingService.shift("='Bob''s'!A$1", { row: 0, col: 0 }, { row: 3, col: 1 }))
+        .toBe("='Bob''s'!B$1");
+      expect(FormulaShiftingService.shift('=SUM(FY1:FY3!B2)', { row: 0, col: 0 }, { row: 1, col: 0 }))
+        .toBe('=SUM(FY1:FY3!B3)');
+    });
+
+    test('Tokenizes the prefix as a SHEET_REF', () => {
+      const tokens = FormulaShiftingService.tokenize('=Sheet2!$B$2');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0]).toMatchObject({
+        type: 'SHEET_REF',
+        sheet: 'Sheet2',
+        ref: { type: 'CELL_REF', row: 1, col: 1, rowAbs: true, colAbs: true }
+      });
+    });
+
+    test('Out-of-bounds shift becomes #REF!', () => {
+      const result = FormulaShiftingService.shift(
+        '=Sheet2!A2',
+        { row: 5, col: 5 },
+        { row: 0, col: 5 }
+      );
+      expect(result).toBe('=#REF!');
+    });
+  });
+
   // ==================== NESTED FUNCTIONS ====================
   
   describe('Nested Functions', () => {
@@ -0,0 +1,111 @@
+/**
+ * absolute-references.test.ts
+ *
+ * Absolute and mixed references ($A$1, A$1, $A1): evaluation in FormulaEngine,
+ * dependency registration, and formula fill honouring anchors, on its own
+ * and through the fill handle's applyAutoFill().
+ */
+
+import { Workbook } from '../src/workbook';
+import { Worksheet } from '../src/worksheet';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { applyAutoFill, autoFillFormulas } from '../src/fillPatterns';
+
+describe('Absolute and mixed references', () => {
+  let engine: FormulaEngine;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    ws = new Worksheet('Sheet1', 100, 26, engine as any);
+    ws.setCellValue({ row: 1, col: 1 }, 10); // A1
+    ws.setCellValue({ row: 1, col: 2 }, 20); // B1
+    ws.setCellValue({ row: 2, col: 1 }, 30); // A2
+    ws.setCellValue({ row: 2, col: 2 }, 40); // B2
+  });
+
+  const evaluate = (formula: string) =>
+    engine.evaluate(formula, { worksheet: ws, currentCell: { row: 10, col: 10 } });
+
+  describe('Evaluation', () => {
+    it('evaluates absolute and mixed cell references', () => {
+      expect(evaluate('=$A$1')).toBe(10);
+      expect(evaluate('=B$1')).toBe(20);
+      expect(evaluate('=$A2')).toBe(30);
+      expect(evaluate('=$B$2*2+A$1')).toBe(90);
+    });
+
+    it('evaluates anchored ranges', () => {
+      expect(evaluate('=SUM($A$1:$B$2)')).toBe(100);
+      expect(evaluate('=SUM($A1:B$2)')).toBe(100);
+    });
+
+    it('evaluates anchored sheet-qualified references', () => {
+      const wb = new Workbook();
+      wb.setFormulaEngine(engine as any);
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Rates');
+      s2.setCellValue({ row: 2, col: 2 }, 0.5);
+
+      expect(engine.evaluate('=Rates!$B$2*100', { worksheet: s1, currentCell: { row: 1, col: 1 } })).toBe(50);
+    });
+  });
+
+  describe('Recalculation', () => {
+    it('registers anchored precedents in the DAG', () => {
+      ws.setCellFormula({ row: 3, col: 1 }, '=$A$1+B$2');
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 3, col: 1 })).toBe(50);
+
+      ws.setCellValue({ row: 1, col: 1 }, 1);
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 3, col: 1 })).toBe(41);
+      expect(ws.getCell({ row: 3, col: 1 })?.formula).toBe('=$A$1+B$2');
+    });
+  });
+
+  describe('autoFillFormulas', () => {
+    it('shifts relative parts and keeps anchored parts fixed', () => {
+      const formulas = new Map([['0:2', '=A1*$B$1+A$1+$A1']]);
+      const filled = autoFillFormulas(
+        { r1: 0, c1: 2, r2: 0, c2: 2 },
+        { r1: 1, c1: 2, r2: 2, c2: 3 },
+        addr => formulas.get(`${addr.row}:${addr.col}`)
+      );
+
+      expect(filled.get('1:2')).toBe('=A2*$B$1+A$1+$A2');
+      expect(filled.get('2:2')).toBe('=A3*$B$1+A$1+$A3');
+      expect(filled.get('1:3')).toBe('=B2*$B$1+B$1+$A2');
+    });
+
+    it('tiles multi-cell sources and skips cells without formulas', () => {
+      const formulas = new Map([['0:0', '=$C1'], ['1:0', undefined as unknown as string]]);
+      const filled = autoFillFormulas(
+        { r1: 0, c1: 0, r2: 1, c2: 0 },
+        { r1: 2, c1: 0, r2: 5, c2: 0 },
+        addr => formulas.get(`${addr.row}:${addr.col}`)
+      );
+
+      expect(Array.from(filled.entries())).toEqual([
+        ['2:0', '=$C3'],
+        ['4:0', '=$C5'],
+      ]);
+    });
+  });
+
+  describe('applyAutoFill', () => {
+    it('enters shifted formulas and copies values into the filled cells', () => {
+      ws.setCellFormula({ row: 1, col: 3 }, '=A1*$B$1'); // C1
+      ws.setCellValue({ row: 1, col: 4 }, 'note'); // D1
+
+      applyAutoFill(ws, { r1: 1, c1: 3, r2: 1, c2: 4 }, { r1: 2, c1: 3, r2: 3, c2: 4 });
+      ws.autoRecalculate();
+
+      expect(ws.getCell({ row: 2, col: 3 })?.formula).toBe('=A2*$B$1');
+      expect(ws.getCell({ row: 3, col: 3 })?.formula).toBe('=A3*$B$1');
+      expect(ws.getCellValue({ row: 2, col: 3 })).toBe(600);
+      expect(ws.getCellValue({ row: 2, col: 4 })).toBe('note');
+      expect(ws.getCell({ row: 3, col: 4 })?.formula).toBeUndefined();
+    });
+  });
+});
@@ -436,4 +436,23 @@ describe('FormulaAutocomplete', () => {
       expect(suggestions.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Localization', () => {
+    test('suggests localized names with localized separators', () => {
+      const german = new FormulaAutocomplete(registry, 'de-DE');
+      const suggestions = german.getSuggestions('SUMM');
+
+      expect(suggestions[0].name).toBe('SUMME');
+      expect(suggestions[0].description).toBe('Adds all numbers in a range');
+      expect(suggestions[0].syntax).toContain('; ');
+    });
+
+    test('setLocale switches the suggestion language', () => {
+      autocomplete.setLocale('fr-FR');
+      expect(autocomplete.getSuggestions('RECHERCHEV')[0].name).toBe('RECHERCHEV');
+
+      autocomplete.setLocale('en-US');
+      expect(autocomplete.getSuggestions('VLOOKUP')[0].name).toBe('VLOOKUP');
+    });
+  });
 });
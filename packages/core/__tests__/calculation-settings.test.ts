@@ -0,0 +1,156 @@
+/**
+ * calculation-settings.test.ts
+ *
+ * Workbook calculation settings: manual mode keeps edits dirty until
+ * calculateNow()/calculateSheet(), and iterative calculation resolves
+ * circular references.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { CalculationController } from '../src/CalculationController';
+
+describe('Calculation settings', () => {
+  let wb: Workbook;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+  });
+
+  it('defaults to automatic with iteration off', () => {
+    expect(wb.getCalculationSettings()).toEqual({
+      mode: 'automatic',
+      iterative: false,
+      maxIterations: 100,
+      maxChange: 0.001,
+    });
+  });
+
+  it('rejects invalid iteration limits', () => {
+    expect(() => wb.setCalculationSettings({ maxIterations: 0 })).toThrow(/maxIterations/);
+    expect(() => wb.setCalculationSettings({ maxChange: -1 })).toThrow(/maxChange/);
+  });
+
+  describe('Manual mode', () => {
+    it('leaves edits dirty until calculateNow', () => {
+      const sheet = wb.addSheet('Sheet1');
+      sheet.setCellValue({ row: 1, col: 1 }, 2);
+      sheet.setCellFormula({ row: 1, col: 2 }, '=A1*10');
+      wb.recalculate();
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(20);
+
+      wb.setCalculationSettings({ mode: 'manual' });
+      sheet.setCellValue({ row: 1, col: 1 }, 3);
+
+      expect(wb.recalculate()).toBe(0);
+      expect(sheet.autoRecalculate().evaluated).toBe(0);
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(20);
+      expect(sheet.dirtyCount).toBeGreaterThan(0);
+      expect(wb.getCalculationController().needsRecalculation()).toBe(true);
+
+      expect(wb.calculateNow()).toBeGreaterThan(0);
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(30);
+      expect(wb.getCalculationController().needsRecalculation()).toBe(false);
+    });
+
+    it('calculateSheet evaluates only that sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s1.setCellValue({ row: 1, col: 1 }, 1);
+      s1.setCellFormula({ row: 1, col: 2 }, '=A1+1');
+      s2.setCellFormula({ row: 1, col: 1 }, '=Sheet1!A1*5');
+      wb.recalculate();
+
+      wb.setCalculationSettings({ mode: 'manual' });
+      s1.setCellValue({ row: 1, col: 1 }, 4);
+      wb.calculateSheet('Sheet1');
+
+      expect(s1.getCellValue({ row: 1, col: 2 })).toBe(5);
+      expect(s2.getCellValue({ row: 1, col: 1 })).toBe(5);
+      expect(s2.dirtyCount).toBeGreaterThan(0);
+      expect(wb.getCalculationController().needsRecalculation()).toBe(true);
+    });
+
+    it('catches up when switching back to automatic', () => {
+      const sheet = wb.addSheet('Sheet1');
+      sheet.setCellValue({ row: 1, col: 1 }, 1);
+      sheet.setCellFormula({ row: 1, col: 2 }, '=A1+1');
+      wb.recalculate();
+
+      wb.setCalculationSettings({ mode: 'manual' });
+      sheet.setCellValue({ row: 1, col: 1 }, 9);
+      wb.recalculate();
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(2);
+
+      wb.setCalculationSettings({ mode: 'automatic' });
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(10);
+    });
+
+    it('FormulaEngine.recalculate only records the change', () => {
+      const engine = new FormulaEngine();
+      const sheet = wb.addSheet('Sheet1');
+      wb.setCalculationSettings({ mode: 'manual' });
+
+      expect(engine.recalculate(sheet, { row: 1, col: 1 })).toEqual([]);
+      expect(wb.getCalculationController().needsRecalculation()).toBe(true);
+    });
+  });
+
+  describe('Iterative calculation', () => {
+    const setUpCycle = () => {
+      const sheet = wb.addSheet('Sheet1');
+      sheet.setCellFormula({ row: 1, col: 1 }, '=B1+1');
+      sheet.setCellFormula({ row: 1, col: 2 }, '=A1/2');
+      return sheet;
+    };
+
+    it('reports circular references when iteration is off', () => {
+      const sheet = setUpCycle();
+      expect(sheet.calculate().cycles.length).toBeGreaterThan(0);
+    });
+
+    it('converges circular references when iteration is on', () => {
+      wb.setCalculationSettings({ iterative: true, maxIterations: 100, maxChange: 0.0001 });
+      const sheet = setUpCycle();
+      wb.recalculate();
+
+      expect(sheet.getCellValue({ row: 1, col: 1 })).toBeCloseTo(2, 3);
+      expect(sheet.getCellValue({ row: 1, col: 2 })).toBeCloseTo(1, 3);
+    });
+
+    it('stops after maxIterations', () => {
+      wb.setCalculationSettings({ iterative: true, maxIterations: 1 });
+      const sheet = setUpCycle();
+      const result = sheet.calculate() as ReturnType<typeof sheet.recalcIterative>;
+
+      expect(result.iterations).toBe(1);
+      expect(result.converged).toBe(false);
+    });
+  });
+
+  describe('CalculationController', () => {
+    it('runs its target synchronously and reports completion', () => {
+      let dirty = true;
+      const controller = new CalculationController({
+        calculate: () => { dirty = false; return 3; },
+        hasDirtyCells: () => dirty,
+      });
+      const completed = jest.fn();
+      controller.on('calculationCompleted', completed);
+
+      expect(controller.calculateNow()).toBe(3);
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ scope: 'all', evaluated: 3 }));
+      expect(controller.isCalculating()).toBe(false);
+    });
+
+    it('serializes iteration settings and reads mode-only data', () => {
+      const controller = new CalculationController();
+      controller.setSettings({ iterative: true, maxIterations: 50 });
+      expect(controller.serialize()).toEqual({ mode: 'automatic', iterative: true, maxIterations: 50, maxChange: 0.001 });
+
+      controller.deserialize({ mode: 'manual' });
+      expect(controller.getSettings()).toMatchObject({ mode: 'manual', iterative: true });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * cross-sheet-references.test.ts
+ *
+ * Sheet-qualified references (Sheet2!A1, 'My Sheet'!A1:B10, Sheet1:Sheet3!B2):
+ * evaluation through the owning Workbook, dependency extraction, and
+ * cross-sheet dirty propagation + workbook recalculation.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { Worksheet } from '../src/worksheet';
+import {
+  extractReferences,
+  extractSheetReferences,
+} from '../src/utils/formula-reference-extractor';
+import { parseSheetQualifiedRef } from '../src/utils/sheet-reference';
+
+describe('Cross-sheet references', () => {
+  let wb: Workbook;
+  let engine: FormulaEngine;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    engine = new FormulaEngine();
+    wb.setFormulaEngine(engine as any);
+  });
+
+  // =========================================================================
+  // Parsing
+  // =========================================================================
+
+  describe('parseSheetQualifiedRef', () => {
+    it('parses bare, quoted and 3-D prefixes', () => {
+      expect(parseSheetQualifiedRef('Sheet2!A1')).toEqual({ sheet: 'Sheet2', ref: 'A1' });
+      expect(parseSheetQualifiedRef("'My Sheet'!a1:b10")).toEqual({ sheet: 'My Sheet', ref: 'A1:B10' });
+      expect(parseSheetQualifiedRef("'Bob''s'!C3")).toEqual({ sheet: "Bob's", ref: 'C3' });
+      expect(parseSheetQualifiedRef('Sheet1:Sheet3!B2')).toEqual({ sheet: 'Sheet1', endSheet: 'Sheet3', ref: 'B2' });
+    });
+
+    it('rejects unqualified references', () => {
+      expect(parseSheetQualifiedRef('A1')).toBeNull();
+      expect(parseSheetQualifiedRef('SUM(A1:A2)')).toBeNull();
+    });
+  });
+
+  // =========================================================================
+  // Evaluation
+  // =========================================================================
+
+  describe('Evaluation', () => {
+    it('reads a cell on another sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s2.setCellValue({ row: 1, col: 1 }, 21);
+
+      const result = engine.evaluate('=Sheet2!A1*2', { worksheet: s1, currentCell: { row: 1, col: 1 } });
+      expect(result).toBe(42);
+    });
+
+    it('resolves sheet names case-insensitively', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Data');
+      s2.setCellValue({ row: 1, col: 1 }, 7);
+
+      expect(engine.evaluate('=data!A1', { worksheet: s1, currentCell: { row: 1, col: 1 } })).toBe(7);
+    });
+
+    it('sums a range on a quoted sheet name', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('My Sheet');
+      s2.setCellValue({ row: 1, col: 1 }, 1);
+      s2.setCellValue({ row: 1, col: 2 }, 2);
+      s2.setCellValue({ row: 2, col: 1 }, 3);
+      s2.setCellValue({ row: 2, col: 2 }, 4);
+
+      const result = engine.evaluate("=SUM('My Sheet'!A1:B2)", { worksheet: s1, currentCell: { row: 6, col: 6 } });
+      expect(result).toBe(10);
+    });
+
+    it('evaluates formulas on the referenced sheet in that sheet\'s context', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s1.setCellValue({ row: 1, col: 1 }, 1000); // Sheet1!A1 must NOT be used
+      s2.setCellValue({ row: 1, col: 1 }, 5);
+      s2.setCellFormula({ row: 1, col: 2 }, '=A1+1');
+
+      expect(engine.evaluate('=Sheet2!B1', { worksheet: s1, currentCell: { row: 3, col: 3 } })).toBe(6);
+    });
+
+    it('does not report a cycle for the same address on different sheets', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s2.setCellValue({ row: 1, col: 1 }, 3);
+
+      expect(engine.evaluate('=Sheet2!A1', { worksheet: s1, currentCell: { row: 1, col: 1 } })).toBe(3);
+    });
+
+    it('sums a 3-D reference across sheets in tab order', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      const s3 = wb.addSheet('Sheet3');
+      const summary = wb.addSheet('Summary');
+      s1.setCellValue({ row: 2, col: 2 }, 1);
+      s2.setCellValue({ row: 2, col: 2 }, 10);
+      s3.setCellValue({ row: 2, col: 2 }, 100);
+      summary.setCellValue({ row: 2, col: 2 }, 1000); // outside the span
+
+      const result = engine.evaluate('=SUM(Sheet1:Sheet3!B2)', { worksheet: summary, currentCell: { row: 1, col: 1 } });
+      expect(result).toBe(111);
+    });
+
+    it('returns #REF! for a missing sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const result = engine.evaluate('=Missing!A1', { worksheet: s1, currentCell: { row: 1, col: 1 } });
+      expect(result).toBeInstanceOf(Error);
+      expect((result as Error).message).toBe('#REF!');
+    });
+
+    it('resolves only its own name on a standalone worksheet', () => {
+      const ws = new Worksheet('Solo', 10, 10, engine as any);
+      ws.setCellValue({ row: 1, col: 1 }, 9);
+
+      expect(engine.evaluate('=Solo!A1', { worksheet: ws, currentCell: { row: 2, col: 2 } })).toBe(9);
+      expect((engine.evaluate('=Other!A1', { worksheet: ws, currentCell: { row: 2, col: 2 } }) as Error).message).toBe('#REF!');
+    });
+  });
+
+  // =========================================================================
+  // Dependency extraction
+  // =========================================================================
+
+  describe('Dependency extraction', () => {
+    it('excludes sheet-qualified references from local dependencies', () => {
+      const refs = extractReferences('=Sheet2!A1+B2', { row: 1, col: 1 });
+      expect(refs).toEqual([{ row: 2, col: 2 }]);
+    });
+
+    it('extracts qualified cells, quoted ranges and 3-D spans', () => {
+      const refs = extractSheetReferences("=Sheet2!A1+SUM('My Sheet'!A1:A2)+SUM(Sheet1:Sheet3!B2)");
+      expect(refs).toHaveLength(3);
+      expect(refs[0]).toEqual({ sheet: 'Sheet2', addresses: [{ row: 1, col: 1 }] });
+      expect(refs[1]).toEqual({ sheet: 'My Sheet', addresses: [{ row: 1, col: 1 }, { row: 2, col: 1 }] });
+      expect(refs[2]).toEqual({ sheet: 'Sheet1', endSheet: 'Sheet3', addresses: [{ row: 2, col: 2 }] });
+    });
+
+    it('ignores qualified references inside string literals', () => {
+      expect(extractSheetReferences('="Sheet2!A1"')).toEqual([]);
+    });
+  });
+
+  // =========================================================================
+  // Cross-sheet recalculation
+  // =========================================================================
+
+  describe('Recalculation', () => {
+    it('marks the dependent sheet dirty when a precedent sheet changes', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s2.setCellValue({ row: 1, col: 1 }, 5);
+      s1.setCellFormula({ row: 1, col: 1 }, '=Sheet2!A1*2');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(10);
+      expect(s1.dirtyCount).toBe(0);
+
+      s2.setCellValue({ row: 1, col: 1 }, 8);
+      expect(s1.dirtyCount).toBeGreaterThan(0);
+
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(16);
+    });
+
+    it('propagates through same-sheet chains on the precedent sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s2.setCellValue({ row: 1, col: 1 }, 1);
+      s2.setCellFormula({ row: 1, col: 2 }, '=A1+1');       // Sheet2!B1
+      s1.setCellFormula({ row: 1, col: 1 }, '=Sheet2!B1*10'); // Sheet1!A1
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(20);
+
+      s2.setCellValue({ row: 1, col: 1 }, 4);
+      wb.recalculate();
+      expect(s2.getCellValue({ row: 1, col: 2 })).toBe(5);
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(50);
+    });
+
+    it('recalculates 3-D references when any sheet in the span changes', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      const summary = wb.addSheet('Summary');
+      s1.setCellValue({ row: 2, col: 2 }, 1);
+      s2.setCellValue({ row: 2, col: 2 }, 2);
+      summary.setCellFormula({ row: 1, col: 1 }, '=SUM(Sheet1:Sheet2!B2)');
+      wb.recalculate();
+      expect(summary.getCellValue({ row: 1, col: 1 })).toBe(3);
+
+      s2.setCellValue({ row: 2, col: 2 }, 20);
+      wb.recalculate();
+      expect(summary.getCellValue({ row: 1, col: 1 })).toBe(21);
+    });
+
+    it('stops tracking a cell once its formula is deleted', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s1.setCellFormula({ row: 1, col: 1 }, '=Sheet2!A1');
+      wb.recalculate();
+
+      s1.deleteCell({ row: 1, col: 1 });
+      wb.recalculate();
+      s2.setCellValue({ row: 1, col: 1 }, 1);
+      expect(s1.dirtyCount).toBe(0);
+    });
+
+    it('throws when no formula engine is set', () => {
+      const bare = new Workbook();
+      bare.addSheet('Sheet1');
+      expect(() => bare.recalculate()).toThrow(/no FormulaEngine/);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * defined-names.test.ts
+ *
+ * Defined names (NameManager) used inside formulas: evaluation with
+ * sheet-before-workbook scope precedence, DAG dependencies, recalculation on
+ * updateName, and refersTo rewriting on structural changes.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { NameManager } from '../src/NameManager';
+import { FormulaShiftingService } from '../src/FormulaShiftingService';
+import { InsertColumnCommand } from '../src/InsertColumnCommand';
+import { DeleteColumnCommand } from '../src/DeleteColumnCommand';
+import { extractNamedRanges } from '../src/utils/formula-reference-extractor';
+
+describe('Defined names in formulas', () => {
+  let wb: Workbook;
+  let engine: FormulaEngine;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    engine = new FormulaEngine();
+    wb.setFormulaEngine(engine as any);
+  });
+
+  // =========================================================================
+  // Evaluation
+  // =========================================================================
+
+  describe('Evaluation', () => {
+    it('evaluates a named range', () => {
+      const s1 = wb.addSheet('Sheet1');
+      for (let row = 1; row <= 3; row++) s1.setCellValue({ row, col: 1 }, row * 100);
+      wb.getNameManager().addName('Revenue', '=Sheet1!$A$1:$A$3');
+
+      expect(engine.evaluate('=SUM(Revenue)', { worksheet: s1, currentCell: { row: 1, col: 6 } })).toBe(600);
+    });
+
+    it('evaluates named constants and formulas, case-insensitively', () => {
+      const s1 = wb.addSheet('Sheet1');
+      s1.setCellValue({ row: 1, col: 1 }, 200);
+      const names = wb.getNameManager();
+      names.addName('TaxRate', '=0.25');
+      names.addName('Tax', '=Sheet1!A1*TaxRate');
+
+      expect(engine.evaluate('=taxrate*4', { worksheet: s1, currentCell: { row: 6, col: 6 } })).toBe(1);
+      expect(engine.evaluate('=Tax+1', { worksheet: s1, currentCell: { row: 6, col: 6 } })).toBe(51);
+    });
+
+    it('prefers a sheet-scoped name over a workbook-scoped one', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      const names = wb.getNameManager();
+      names.addName('Rate', '=1');
+      names.addName('Rate', '=2', 'Sheet2');
+
+      expect(engine.evaluate('=Rate', { worksheet: s1, currentCell: { row: 1, col: 1 } })).toBe(1);
+      expect(engine.evaluate('=Rate', { worksheet: s2, currentCell: { row: 1, col: 1 } })).toBe(2);
+    });
+
+    it('resolves unqualified references in a sheet-scoped name on its own sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const s2 = wb.addSheet('Sheet2');
+      s1.setCellValue({ row: 1, col: 1 }, 1);
+      s2.setCellValue({ row: 1, col: 1 }, 2);
+      wb.getNameManager().addName('Local', '=$A$1', 'Sheet2');
+
+      expect(engine.evaluate('=Local', { worksheet: s2, currentCell: { row: 4, col: 4 } })).toBe(2);
+    });
+
+    it('evaluates names ending in digits that are not cell references', () => {
+      const s1 = wb.addSheet('Sheet1');
+      s1.setCellValue({ row: 1, col: 1 }, 7);
+      const names = wb.getNameManager();
+      names.addName('Sales2024', '=150');
+      names.addName('Q1Total', '=40');
+      names.addName('Region10', '=Sheet1!$A$1');
+
+      expect(engine.evaluate('=Sales2024*2', { worksheet: s1, currentCell: { row: 6, col: 6 } })).toBe(300);
+      expect(engine.evaluate('=Q1Total+Region10', { worksheet: s1, currentCell: { row: 6, col: 6 } })).toBe(47);
+      expect(engine.evaluate('=XFD1+A1', { worksheet: s1, currentCell: { row: 6, col: 6 } })).toBe(7);
+    });
+
+    it('returns #NAME? for unknown names and #CIRC! for self-referencing names', () => {
+      const s1 = wb.addSheet('Sheet1');
+      wb.getNameManager().addName('Loop', '=Loop+1');
+
+      expect((engine.evaluate('=Missing', { worksheet: s1, currentCell: { row: 1, col: 1 } }) as Error).message).toBe('#NAME?');
+      expect((engine.evaluate('=Loop', { worksheet: s1, currentCell: { row: 1, col: 1 } }) as Error).message).toBe('#CIRC!');
+    });
+  });
+
+  // =========================================================================
+  // Dependencies & recalculation
+  // =========================================================================
+
+  describe('Recalculation', () => {
+    it('recalculates when a cell inside a named range changes', () => {
+      const s1 = wb.addSheet('Sheet1');
+      s1.setCellValue({ row: 1, col: 1 }, 1);
+      s1.setCellValue({ row: 2, col: 1 }, 2);
+      wb.getNameManager().addName('Data', '=Sheet1!$A$1:$A$2');
+      s1.setCellFormula({ row: 1, col: 3 }, '=SUM(Data)');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 3 })).toBe(3);
+
+      s1.setCellValue({ row: 2, col: 1 }, 10);
+      expect(s1.dirtyCount).toBeGreaterThan(0);
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 3 })).toBe(11);
+    });
+
+    it('tracks names whose range lives on another sheet', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const data = wb.addSheet('Data');
+      data.setCellValue({ row: 1, col: 1 }, 5);
+      wb.getNameManager().addName('Price', '=Data!$A$1');
+      s1.setCellFormula({ row: 1, col: 1 }, '=Price*2');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(10);
+
+      data.setCellValue({ row: 1, col: 1 }, 6);
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(12);
+    });
+
+    it('recalculates dependents when updateName changes refersTo', () => {
+      const s1 = wb.addSheet('Sheet1');
+      s1.setCellValue({ row: 1, col: 1 }, 1);
+      s1.setCellValue({ row: 2, col: 1 }, 100);
+      const names = wb.getNameManager();
+      names.addName('Target', '=Sheet1!$A$1');
+      s1.setCellFormula({ row: 1, col: 3 }, '=Target');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 3 })).toBe(1);
+
+      names.updateName('Target', 'workbook', 'Target', '=Sheet1!$A$2');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 3 })).toBe(100);
+
+      // The new precedent is tracked, the old one is not
+      s1.setCellValue({ row: 2, col: 1 }, 7);
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 3 })).toBe(7);
+    });
+
+    it('picks up a name defined after the formula', () => {
+      const s1 = wb.addSheet('Sheet1');
+      s1.setCellFormula({ row: 1, col: 1 }, '=Later*3');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe('#NAME?');
+
+      wb.getNameManager().addName('Later', '=2');
+      wb.recalculate();
+      expect(s1.getCellValue({ row: 1, col: 1 })).toBe(6);
+    });
+  });
+
+  // =========================================================================
+  // Structural changes
+  // =========================================================================
+
+  describe('Structural changes', () => {
+    it('adjusts references across inserted and deleted bands', () => {
+      const insertRow = { axis: 'row' as const, index: 3, count: 1, sheet: 'Sheet1' };
+      expect(FormulaShiftingService.adjustForStructuralChange('=Sheet1!$A$5', insertRow)).toBe('=Sheet1!$A$6');
+      expect(FormulaShiftingService.adjustForStructuralChange('=Sheet1!$A$1:$A$5', insertRow)).toBe('=Sheet1!$A$1:$A$6');
+      expect(FormulaShiftingService.adjustForStructuralChange('=Other!$A$5', insertRow)).toBe('=Other!$A$5');
+
+      const deleteCols = { axis: 'col' as const, index: 2, count: -2, sheet: 'Sheet1' };
+      expect(FormulaShiftingService.adjustForStructuralChange('=Sheet1!$B$1', deleteCols)).toBe('=#REF!');
+      expect(FormulaShiftingService.adjustForStructuralChange('=Sheet1!$A$1:$E$1', deleteCols)).toBe('=Sheet1!$A$1:$C$1');
+      expect(FormulaShiftingService.adjustForStructuralChange('=Sheet1!$C$1:$F$1', deleteCols)).toBe('=Sheet1!$B$1:$D$1');
+    });
+
+    it('rewrites refersTo only for names pointing at the changed sheet', () => {
+      const names = new NameManager();
+      names.addName('Wb', '=Sheet1!$C$1');
+      names.addName('Other', '=Sheet2!$C$1');
+      names.addName('Local', '=$C$1', 'Sheet1');
+
+      names.adjustForStructuralChange({ axis: 'col', index: 1, count: 1, sheet: 'Sheet1' });
+
+      expect(names.getName('Wb')?.refersTo).toBe('=Sheet1!$D$1');
+      expect(names.getName('Other')?.refersTo).toBe('=Sheet2!$C$1');
+      expect(names.getName('Local', 'Sheet1')?.refersTo).toBe('=$D$1');
+    });
+
+    it('keeps names on the same cells through InsertColumn/DeleteColumn commands', () => {
+      const s1 = wb.addSheet('Sheet1');
+      const names = wb.getNameManager();
+      names.addName('Total', '=Sheet1!$C$1');
+      names.addName('Gone', '=Sheet1!$B$1');
+
+      new InsertColumnCommand(s1, 1).execute();
+      expect(names.getName('Total')?.refersTo).toBe('=Sheet1!$D$1');
+      expect(names.getName('Gone')?.refersTo).toBe('=Sheet1!$C$1');
+
+      const del = new DeleteColumnCommand(s1, 3);
+      s1.setCellValue({ row: 1, col: 5 }, 2); // something to shift left
+      del.execute();
+      expect(names.getName('Total')?.refersTo).toBe('=Sheet1!$C$1');
+      expect(names.getName('Gone')?.refersTo).toBe('=#REF!');
+
+      del.undo();
+      expect(names.getName('Gone')?.refersTo).toBe('=Sheet1!$C$1');
+    });
+  });
+
+  describe('extractNamedRanges', () => {
+    it('ignores cell references, anchors, sheet prefixes and literals', () => {
+      expect(extractNamedRanges('=SUM(Revenue)+$A$1+B$2+Sheet2!C3+TRUE+"Costs"+Tax.Rate')).toEqual([
+        'REVENUE',
+        'TAX.RATE',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * excel-tables.test.ts
+ *
+ * Excel tables: the structured reference syntax, table geometry and styles
+ * (TableStore), and the Worksheet table model — structured references in
+ * formulas, auto-extension, calculated columns, totals rows, renames,
+ * convert-to-range, row/column insert and delete, and snapshot round-trips.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import {
+  findStructuredReferences,
+  formatStructuredReference,
+  renameTableColumnInFormula,
+  renameTableInFormula,
+} from '../src/utils/structured-references';
+import { resolveStructuredReference, validateTableName, type TableDefinition } from '../src/TableStore';
+import { workbookSnapshotCodec } from '../src/persistence/WorkbookSnapshotCodec';
+import type { Worksheet } from '../src/worksheet';
+
+describe('Excel tables', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+    ws = wb.addSheet('Sheet1');
+  });
+
+  const formulaAt = (sheet: Worksheet, row: number, col: number) => sheet.getCell({ row, col })?.formula;
+
+  /** Sales table at B2:D5 — Item, Qty, Price with three data rows. */
+  const addSales = (sheet: Worksheet = ws) => {
+    const rows: Array<[string, number, number]> = [['Pen', 2, 1.5], ['Pad', 3, 4], ['Ink', 1, 10]];
+    sheet.setCellValue({ row: 2, col: 2 }, 'Item');
+    sheet.setCellValue({ row: 2, col: 3 }, 'Qty');
+    sheet.setCellValue({ row: 2, col: 4 }, 'Price');
+    rows.forEach(([item, qty, price], i) => {
+      sheet.setCellValue({ row: 3 + i, col: 2 }, item);
+      sheet.setCellValue({ row: 3 + i, col: 3 }, qty);
+      sheet.setCellValue({ row: 3 + i, col: 4 }, price);
+    });
+    return sheet.addTable({ start: { row: 2, col: 2 }, end: { row: 5, col: 4 } }, { name: 'Sales' });
+  };
+
+  // =========================================================================
+  // Syntax
+  // =========================================================================
+
+  describe('Structured reference syntax', () => {
+    it('finds the supported forms and skips strings and entity fields', () => {
+      const refs = findStructuredReferences(
+        '=SUM(Sales[Qty])+[@Price]*Sales[[#Totals],[Unit Price]]+LEN("T[x]")+A1["Name"]+Sales[[Qty]:[Price]]'
+      );
+
+      expect(refs.map(ref => ref.text)).toEqual(['Sales[Qty]', '[@Price]', 'Sales[[#Totals],[Unit Price]]', 'Sales[[Qty]:[Price]]']);
+      expect(refs[1]).toMatchObject({ table: undefined, items: ['#This Row'], columns: { first: 'Price', last: 'Price' } });
+      expect(refs[2]).toMatchObject({ table: 'Sales', items: ['#Totals'], columns: { first: 'Unit Price', last: 'Unit Price' } });
+      expect(refs[3].columns).toEqual({ first: 'Qty', last: 'Price' });
+    });
+
+    it('reports bare table names only when asked to', () => {
+      const isTable = (name: string) => name.toUpperCase() === 'SALES';
+
+      expect(findStructuredReferences('=ROWS(Sales)+SALES(1)+Sheet1!Sales')).toEqual([]);
+      expect(findStructuredReferences('=ROWS(Sales)+SALES(1)+Sheet1!Sales', isTable).map(ref => ref.text)).toEqual(['Sales']);
+    });
+
+    it('formats references the way Excel writes them', () => {
+      const col = (name: string) => ({ first: name, last: name });
+
+      expect(formatStructuredReference({ table: 'T', items: [], columns: col('Amount') })).toBe('T[Amount]');
+      expect(formatStructuredReference({ table: 'T', items: [], columns: col('Unit Price') })).toBe('T[Unit Price]');
+      expect(formatStructuredReference({ table: 'T', items: [], columns: col('Q.1') })).toBe('T[[Q.1]]');
+      expect(formatStructuredReference({ items: ['#This Row'], columns: col('Unit Price') })).toBe('[@[Unit Price]]');
+      expect(formatStructuredReference({ table: 'T', items: ['#This Row'], columns: col('Qty') })).toBe('T[@Qty]');
+      expect(formatStructuredReference({ table: 'T', items: ['#Totals'] })).toBe('T[#Totals]');
+      expect(formatStructuredReference({ table: 'T', items: ['#Totals'], columns: col('Amount') })).toBe('T[[#Totals],[Amount]]');
+      expect(formatStructuredReference({ table: 'T', items: [], columns: col("It's #1") })).toBe("T[[It''s '#1]]");
+    });
+
+    it('renames tables and columns inside formulas', () => {
+      expect(renameTableInFormula('=SUM(sales[Qty])+ROWS(Sales)+"Sales[Qty]"', 'Sales', 'Orders'))
+        .toBe('=SUM(Orders[Qty])+ROWS(Orders)+"Sales[Qty]"');
+      expect(renameTableColumnInFormula('=Sales[Qty]*[@Qty]+Other[Qty]', 'Sales', 'qty', 'Units', true))
+        .toBe('=Sales[Units]*[@Units]+Other[Qty]');
+      expect(renameTableColumnInFormula('=[@Qty]', 'Sales', 'Qty', 'Unit Count'))
+        .toBe('=[@Qty]');
+    });
+
+    it('validates table names', () => {
+      expect(validateTableName('Sales_2024')).toBeNull();
+      expect(validateTableName('A1')).not.toBeNull();
+      expect(validateTableName('2024')).not.toBeNull();
+      expect(validateTableName('My Table')).not.toBeNull();
+    });
+  });
+
+  describe('TableStore geometry', () => {
+    const table: TableDefinition = {
+      name: 'T',
+      range: { start: { row: 2, col: 2 }, end: { row: 6, col: 4 } },
+      headerRow: true,
+      totalsRow: true,
+      columns: [{ name: 'A' }, { name: 'B' }, { name: 'C' }],
+      style: { name: 'TableStyleMedium2', showRowStripes: true, showColumnStripes: false, showFirstColumn: false, showLastColumn: false },
+    };
+    const resolve = (text: string, at = { row: 1, col: 1 }) =>
+      resolveStructuredReference(findStructuredReferences(text)[0], table, at);
+
+    it('resolves items and columns to ranges', () => {
+      expect(resolve('T[B]')).toEqual({ start: { row: 3, col: 3 }, end: { row: 5, col: 3 } });
+      expect(resolve('T[#All]')).toEqual(table.range);
+      expect(resolve('T[#Headers]')).toEqual({ start: { row: 2, col: 2 }, end: { row: 2, col: 4 } });
+      expect(resolve('T[[#Totals],[C]]')).toEqual({ start: { row: 6, col: 4 }, end: { row: 6, col: 4 } });
+      expect(resolve('T[[#Headers],[#Data],[A]:[B]]')).toEqual({ start: { row: 2, col: 2 }, end: { row: 5, col: 3 } });
+    });
+
+    it('resolves this-row references against the formula row', () => {
+      expect(resolve('T[@C]', { row: 4, col: 10 })).toEqual({ start: { row: 4, col: 4 }, end: { row: 4, col: 4 } });
+      expect(resolve('T[@C]', { row: 6, col: 10 })).toBe('#VALUE!');
+      expect(resolve('T[Missing]')).toBe('#REF!');
+    });
+  });
+
+  // =========================================================================
+  // Formulas
+  // =========================================================================
+
+  describe('Structured references in formulas', () => {
+    it('evaluates column, this-row and whole-table references', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+      ws.setCellFormula({ row: 2, col: 7 }, '=COUNT(Sales)');
+      ws.setCellFormula({ row: 3, col: 7 }, '=SUM(Sales[#All])');
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(6);
+      expect(ws.getCellValue({ row: 2, col: 7 })).toBe(6);
+      expect(ws.getCellValue({ row: 3, col: 7 })).toBe(21.5);
+      expect(ws.resolveStructuredReferences('=[@Qty]*[@Price]', { row: 4, col: 4 })).toBe('=C4*D4');
+      expect(ws.resolveStructuredReferences('=[@Qty]', { row: 4, col: 5 })).toBe('=#REF!');
+    });
+
+    it('recalculates when a table cell changes', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+      ws.autoRecalculate();
+
+      ws.setCellValue({ row: 3, col: 3 }, 20);
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(24);
+    });
+
+    it('resolves references to a table on another sheet', () => {
+      addSales();
+      const other = wb.addSheet('Report');
+      other.setCellFormula({ row: 1, col: 1 }, '=SUM(Sales[Price])');
+      other.autoRecalculate();
+
+      expect(other.getCellValue({ row: 1, col: 1 })).toBe(15.5);
+      expect(other.resolveStructuredReferences('=Sales[Price]', { row: 1, col: 1 })).toBe('=Sheet1!D3:D5');
+    });
+
+    it('evaluates structured references inside defined names', () => {
+      addSales();
+      wb.getNameManager().addName('Units', '=Sales[Qty]');
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Units)');
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(6);
+    });
+
+    it('returns #REF! for unknown tables and columns', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Missing])');
+      ws.setCellFormula({ row: 1, col: 8 }, '=SUM(Nowhere[Qty])');
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe('#REF!');
+      expect(ws.getCellValue({ row: 1, col: 8 })).toBe('#REF!');
+    });
+  });
+
+  // =========================================================================
+  // Table model
+  // =========================================================================
+
+  describe('Creating tables', () => {
+    it('names columns from the header row and fixes empty and duplicate headers', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 'Name');
+      ws.setCellValue({ row: 1, col: 3 }, 'Name');
+      ws.setCellValue({ row: 2, col: 1 }, 'x');
+
+      const table = ws.addTable({ start: { row: 1, col: 1 }, end: { row: 2, col: 3 } });
+
+      expect(table.name).toBe('Table1');
+      expect(table.columns.map(c => c.name)).toEqual(['Name', 'Column2', 'Name2']);
+      expect(ws.getCellValue({ row: 1, col: 2 })).toBe('Column2');
+      expect(ws.getCellValue({ row: 1, col: 3 })).toBe('Name2');
+      expect(ws.getTableAt({ row: 2, col: 2 })?.name).toBe('Table1');
+      expect(wb.findTable('table1')?.sheet).toBe(ws);
+    });
+
+    it('rejects overlaps, clashing names and ranges without data rows', () => {
+      addSales();
+      const other = wb.addSheet('Sheet2');
+      wb.getNameManager().addName('Rate', '=0.2');
+
+      expect(() => ws.addTable({ start: { row: 5, col: 4 }, end: { row: 7, col: 5 } })).toThrow(/overlap/);
+      expect(() => other.addTable({ start: { row: 1, col: 1 }, end: { row: 3, col: 1 } }, { name: 'sales' })).toThrow(/already in use/);
+      expect(() => other.addTable({ start: { row: 1, col: 1 }, end: { row: 3, col: 1 } }, { name: 'Rate' })).toThrow(/already in use/);
+      expect(() => other.addTable({ start: { row: 1, col: 1 }, end: { row: 1, col: 3 } })).toThrow(/data row/);
+    });
+
+    it('emits table-changed events', () => {
+      const events: any[] = [];
+      ws.on(e => { if (e.type === 'table-changed') events.push(e); });
+
+      addSales();
+      ws.removeTable('Sales');
+
+      expect(events[0]).toMatchObject({ name: 'Sales', before: null });
+      expect(events[events.length - 1]).toMatchObject({ name: 'Sales', after: null });
+    });
+
+    it('gives header, stripe and totals cells their table style', () => {
+      addSales();
+      ws.setTableTotalsRow('Sales', true);
+
+      const header = ws.getTableCellStyle({ row: 2, col: 2 });
+      const firstRow = ws.getTableCellStyle({ row: 3, col: 2 });
+      const secondRow = ws.getTableCellStyle({ row: 4, col: 2 });
+
+      expect(header?.bold).toBe(true);
+      expect(header?.fill).toBeDefined();
+      expect(firstRow?.fill).toBeDefined();
+      expect(secondRow?.fill).toBeUndefined();
+      expect(ws.getTableCellStyle({ row: 6, col: 2 })?.bold).toBe(true);
+      expect(ws.getTableCellStyle({ row: 10, col: 10 })).toBeUndefined();
+
+      ws.setTableStyle('Sales', { name: 'None' });
+      expect(ws.getTableCellStyle({ row: 2, col: 2 })).toBeUndefined();
+    });
+  });
+
+  describe('Auto-extension', () => {
+    it('extends the table over an entry in the row below', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+
+      ws.setCellValue({ row: 6, col: 2 }, 'Cap');
+      ws.setCellValue({ row: 6, col: 3 }, 4);
+      ws.autoRecalculate();
+
+      expect(ws.getTable('Sales')?.range.end).toEqual({ row: 6, col: 4 });
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(10);
+    });
+
+    it('adds a column for an entry to the right, named from the header', () => {
+      addSales();
+
+      ws.setCellValue({ row: 2, col: 5 }, 'Notes');
+
+      expect(ws.getTable('Sales')?.columns.map(c => c.name)).toEqual(['Item', 'Qty', 'Price', 'Notes']);
+      expect(ws.getTable('Sales')?.range.end).toEqual({ row: 5, col: 5 });
+    });
+
+    it('does not extend past a totals row', () => {
+      addSales();
+      ws.setTableTotalsRow('Sales', true);
+
+      ws.setCellValue({ row: 7, col: 2 }, 'After');
+
+      expect(ws.getTable('Sales')?.range.end.row).toBe(6);
+    });
+  });
+
+  describe('Calculated columns', () => {
+    it('fills a formula typed into an empty column and into rows added later', () => {
+      addSales();
+      ws.setCellValue({ row: 2, col: 5 }, 'Total');
+
+      ws.setCellFormula({ row: 4, col: 5 }, '=[@Qty]*[@Price]');
+      ws.autoRecalculate();
+
+      expect(ws.getTable('Sales')?.columns[3].formula).toBe('=[@Qty]*[@Price]');
+      expect(formulaAt(ws, 3, 5)).toBe('=[@Qty]*[@Price]');
+      expect(ws.getCellValue({ row: 3, col: 5 })).toBe(3);
+      expect(ws.getCellValue({ row: 5, col: 5 })).toBe(10);
+
+      ws.setCellValue({ row: 6, col: 2 }, 'Cap');
+      ws.setCellValue({ row: 6, col: 3 }, 2);
+      ws.setCellValue({ row: 6, col: 4 }, 6);
+      ws.autoRecalculate();
+      expect(formulaAt(ws, 6, 5)).toBe('=[@Qty]*[@Price]');
+      expect(ws.getCellValue({ row: 6, col: 5 })).toBe(12);
+    });
+
+    it('shifts A1 references in calculated formulas row by row', () => {
+      addSales();
+      ws.setTableColumnFormula('Sales', 'Item', '=C3*2');
+
+      expect(formulaAt(ws, 5, 2)).toBe('=C5*2');
+    });
+
+    it('leaves columns that already hold values alone', () => {
+      addSales();
+
+      ws.setCellFormula({ row: 3, col: 3 }, '=1+1');
+
+      expect(ws.getTable('Sales')?.columns[1].formula).toBeUndefined();
+      expect(ws.getCellValue({ row: 4, col: 3 })).toBe(3);
+    });
+  });
+
+  describe('Totals row', () => {
+    it('writes SUBTOTAL formulas, labels and custom formulas', () => {
+      addSales();
+      ws.setTableTotalsRow('Sales', true);
+      ws.setTableColumnTotal('Sales', 'Item', 'none', 'Total');
+      ws.setTableColumnTotal('Sales', 'Qty', 'sum');
+      ws.setTableColumnTotal('Sales', 'Price', 'custom', '=MAX(Sales[Price])*2');
+      ws.setCellFormula({ row: 1, col: 7 }, '=Sales[[#Totals],[Qty]]');
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 6, col: 2 })).toBe('Total');
+      expect(formulaAt(ws, 6, 3)).toBe('=SUBTOTAL(109,[Qty])');
+      expect(ws.getCellValue({ row: 6, col: 3 })).toBe(6);
+      expect(ws.getCellValue({ row: 6, col: 4 })).toBe(20);
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(6);
+    });
+
+    it('refuses to take a non-empty row and clears the row when hidden', () => {
+      ws.setCellValue({ row: 6, col: 4 }, 'blocked');
+      addSales();
+      expect(() => ws.setTableTotalsRow('Sales', true)).toThrow(/not empty/);
+
+      ws.deleteCell({ row: 6, col: 4 });
+      ws.setTableTotalsRow('Sales', true);
+      ws.setTableColumnTotal('Sales', 'Qty', 'count');
+      ws.setTableTotalsRow('Sales', false);
+
+      expect(ws.getCell({ row: 6, col: 3 })).toBeUndefined();
+      expect(ws.getTable('Sales')?.range.end.row).toBe(5);
+    });
+  });
+
+  describe('Renames', () => {
+    it('rewrites references when a header cell is edited', () => {
+      addSales();
+      const other = wb.addSheet('Report');
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+      other.setCellFormula({ row: 1, col: 1 }, '=AVERAGE(Sales[Qty])');
+      ws.setTableColumnFormula('Sales', 'Price', '=[@Qty]*2');
+
+      ws.setCellValue({ row: 2, col: 3 }, 'Units');
+
+      expect(formulaAt(ws, 1, 7)).toBe('=SUM(Sales[Units])');
+      expect(formulaAt(other, 1, 1)).toBe('=AVERAGE(Sales[Units])');
+      expect(formulaAt(ws, 4, 4)).toBe('=[@Units]*2');
+      expect(ws.getTable('Sales')?.columns[2].formula).toBe('=[@Units]*2');
+    });
+
+    it('renames a column through the API', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Price])');
+
+      ws.renameTableColumn('Sales', 'price', 'Unit Price');
+
+      expect(ws.getCellValue({ row: 2, col: 4 })).toBe('Unit Price');
+      expect(formulaAt(ws, 1, 7)).toBe('=SUM(Sales[Unit Price])');
+      expect(() => ws.renameTableColumn('Sales', 'Qty', 'item')).toThrow(/already has/);
+    });
+
+    it('renames a table in cells and defined names', () => {
+      addSales();
+      wb.getNameManager().addName('Units', '=Sales[Qty]');
+      ws.setCellFormula({ row: 1, col: 7 }, '=COUNT(Sales)+SUM(Sales[Qty])');
+
+      ws.renameTable('Sales', 'Orders');
+      ws.autoRecalculate();
+
+      expect(formulaAt(ws, 1, 7)).toBe('=COUNT(Orders)+SUM(Orders[Qty])');
+      expect(wb.getNameManager().getName('Units')?.refersTo).toBe('=Orders[Qty]');
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(12);
+    });
+  });
+
+  describe('Convert to range', () => {
+    it('rewrites structured references to A1 ranges', () => {
+      addSales();
+      const other = wb.addSheet('Report');
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+      other.setCellFormula({ row: 1, col: 1 }, '=SUM(Sales[#All])');
+      ws.setTableColumnFormula('Sales', 'Price', '=[@Qty]*2');
+
+      expect(ws.removeTable('Sales')).toBe(true);
+
+      expect(ws.hasTables()).toBe(false);
+      expect(formulaAt(ws, 1, 7)).toBe('=SUM(C3:C5)');
+      expect(formulaAt(other, 1, 1)).toBe('=SUM(Sheet1!B2:D5)');
+      expect(formulaAt(ws, 5, 4)).toBe('=C5*2');
+      expect(ws.getCellValue({ row: 2, col: 2 })).toBe('Item');
+    });
+  });
+
+  describe('Structural changes', () => {
+    it('grows with inserted rows and shrinks with deleted ones', () => {
+      addSales();
+      ws.setCellFormula({ row: 1, col: 7 }, '=SUM(Sales[Qty])');
+
+      ws.insertRows(4, 2);
+      expect(ws.getTable('Sales')?.range).toEqual({ start: { row: 2, col: 2 }, end: { row: 7, col: 4 } });
+
+      ws.deleteRows(3, 1);
+      ws.autoRecalculate();
+      expect(ws.getTable('Sales')?.range.end.row).toBe(6);
+      expect(formulaAt(ws, 1, 7)).toBe('=SUM(Sales[Qty])');
+      expect(ws.getCellValue({ row: 1, col: 7 })).toBe(4);
+    });
+
+    it('drops the table when its header row is deleted', () => {
+      addSales();
+      ws.deleteRows(2, 1);
+      expect(ws.hasTables()).toBe(false);
+    });
+
+    it('drops deleted columns and names inserted ones', () => {
+      addSales();
+      ws.insertCols(3, 1);
+      expect(ws.getTable('Sales')?.columns.map(c => c.name)).toEqual(['Item', 'Column2', 'Qty', 'Price']);
+      expect(ws.getCellValue({ row: 2, col: 3 })).toBe('Column2');
+
+      ws.deleteCols(4, 1);
+      expect(ws.getTable('Sales')?.columns.map(c => c.name)).toEqual(['Item', 'Column2', 'Price']);
+    });
+
+    it('restores the table on undo of a row deletion', () => {
+      addSales();
+      const deleted = ws.deleteRows(2, 4);
+      expect(ws.hasTables()).toBe(false);
+
+      ws.restoreRows(deleted);
+      expect(ws.getTable('Sales')?.range).toEqual({ start: { row: 2, col: 2 }, end: { row: 5, col: 4 } });
+    });
+  });
+
+  describe('Persistence', () => {
+    it('round-trips tables through sheet state and snapshots', () => {
+      addSales();
+      ws.setTableTotalsRow('Sales', true);
+      ws.setTableColumnTotal('Sales', 'Qty', 'sum');
+      ws.setTableStyle('Sales', { name: 'TableStyleLight9', showColumnStripes: true });
+
+      const copy = new Workbook();
+      copy.applySnapshot(workbookSnapshotCodec.decode(workbookSnapshotCodec.encode(wb.extractSnapshot())));
+
+      expect(copy.getSheet('Sheet1')!.getTable('Sales')).toEqual(ws.getTable('Sales'));
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * formula-ast.test.ts
+ *
+ * Formula compilation: lexer → parser → AST, operator precedence and
+ * associativity, the per-engine compile cache, and recalc reading precedent
+ * values from the cell store.
+ */
+
+import { Worksheet } from '../src/worksheet';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { parseFormula, tokenizeExpression, FormulaSyntaxError } from '../src/parser';
+
+describe('Formula AST', () => {
+  let engine: FormulaEngine;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    ws = new Worksheet('Sheet1', 100, 26, engine as any);
+  });
+
+  const evaluate = (formula: string) =>
+    engine.evaluate(formula, { worksheet: ws, currentCell: { row: 10, col: 10 } });
+
+  describe('Parser', () => {
+    it('builds a tree honouring precedence', () => {
+      expect(parseFormula('1+2*3')).toEqual({
+        kind: 'binary',
+        op: '+',
+        left: { kind: 'number', value: 1 },
+        right: {
+          kind: 'binary',
+          op: '*',
+          left: { kind: 'number', value: 2 },
+          right: { kind: 'number', value: 3 },
+        },
+      });
+    });
+
+    it('keeps references, names and call source text', () => {
+      const ast = parseFormula("SUM($A$1:B2, 'My Sheet'!C3, Rate)");
+      expect(ast).toMatchObject({
+        kind: 'call',
+        name: 'SUM',
+        argsText: "$A$1:B2, 'My Sheet'!C3, Rate",
+        args: [
+          { kind: 'reference', ref: '$A$1:B2', isRange: true },
+          { kind: 'reference', ref: 'C3', isRange: false, sheet: { sheet: 'My Sheet', ref: 'C3' } },
+          { kind: 'name', name: 'Rate' },
+        ],
+      });
+    });
+
+    it('does not split operators inside strings or quoted sheet names', () => {
+      const types = tokenizeExpression(`"a-b,c"&'x+y'!A1`).map(t => t.type);
+      expect(types).toEqual(['string', 'operator', 'reference', 'eof']);
+    });
+
+    it('rejects syntax it does not model', () => {
+      expect(() => parseFormula('LAMBDA(x,x+1)(2)')).toThrow(FormulaSyntaxError);
+      expect(() => parseFormula('"open')).toThrow(FormulaSyntaxError);
+      expect(() => parseFormula('1+')).toThrow(FormulaSyntaxError);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('applies Excel operator precedence and left associativity', () => {
+      expect(evaluate('=10-2-3')).toBe(5);
+      expect(evaluate('=100/10/2')).toBe(5);
+      expect(evaluate('=2+3*4')).toBe(14);
+      expect(evaluate('=2^3^2')).toBe(64);
+      expect(evaluate('=-2^2')).toBe(4);
+      expect(evaluate('=2*-3')).toBe(-6);
+      expect(evaluate('=1+1=2')).toBe(true);
+      expect(evaluate('="n"&1+2')).toBe('n3');
+      expect(evaluate('=((1+2)*(3+4))')).toBe(21);
+    });
+
+    it('evaluates strings containing operators and delimiters', () => {
+      expect(evaluate('="a-b"&"c,d"')).toBe('a-bc,d');
+      expect(evaluate('=LEN("x+y*z")')).toBe(5);
+      expect(evaluate('="say ""hi"""')).toBe('say "hi"');
+    });
+
+    it('evaluates references, array constants and lazy IF', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 4);
+      ws.setCellValue({ row: 2, col: 1 }, 6);
+
+      expect(evaluate('=SUM(A1:A2)*A1')).toBe(40);
+      expect(evaluate('=SUM({1,2;3,4})')).toBe(10);
+      expect(evaluate('=IF(A1>5,1/0,"small")')).toBe('small');
+      expect((evaluate('=#N/A') as Error).message).toBe('#N/A');
+    });
+
+    it('falls back to the string evaluator for uncompilable formulas', () => {
+      expect(engine.compile('=LAMBDA(x,x+1)(2)')).toBeNull();
+      expect(evaluate('=LAMBDA(x,x+1)(2)')).toBe(3);
+    });
+  });
+
+  describe('Compile cache', () => {
+    it('compiles each distinct formula once', () => {
+      const first = engine.compile('=A1*2+1');
+      expect(first).not.toBeNull();
+      expect(engine.compile('=A1*2+1')).toBe(first);
+      expect(engine.compile('A1*2+1')).toBe(first);
+    });
+  });
+
+  describe('Recalculation', () => {
+    it('reads precedent values from the cell store instead of re-evaluating them', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 1); // A1
+      ws.setCellFormula({ row: 1, col: 2 }, '=A1*2'); // B1
+      ws.setCellFormula({ row: 1, col: 3 }, '=B1+1'); // C1
+      ws.setCellFormula({ row: 1, col: 4 }, '=SUM(B1:C1)'); // D1
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 1, col: 4 })).toBe(5);
+
+      const spy = jest.spyOn(engine, 'evaluate');
+      ws.setCellValue({ row: 1, col: 1 }, 10);
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 1, col: 3 })).toBe(21);
+      expect(ws.getCellValue({ row: 1, col: 4 })).toBe(41);
+      // One evaluation per dirty formula, no recursion into precedents
+      expect(spy).toHaveBeenCalledTimes(3);
+      spy.mockRestore();
+    });
+
+    it('propagates stored errors from precedents', () => {
+      ws.setCellFormula({ row: 1, col: 1 }, '=1/0');
+      ws.setCellFormula({ row: 1, col: 2 }, '=A1+1');
+      ws.autoRecalculate();
+
+      expect(ws.getCellValue({ row: 1, col: 2 })).toBe('#DIV/0!');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { FormulaEngine } from '../../src/FormulaEngine';
+import { Worksheet } from '../../src/worksheet';
+import type { FormulaContext } from '../../src/types/formula-types';
+
+describe('Regular Expression Functions', () => {
+  let engine: FormulaEngine;
+  let worksheet: Worksheet;
+  let context: FormulaContext;
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    worksheet = new Worksheet('Sheet1', 100, 26);
+    context = {
+      worksheet,
+      currentCell: { row: 20, col: 5 },
+      namedLambdas: new Map(),
+    };
+  });
+
+  const evaluate = (formula: string) => {
+    return engine.evaluate(formula, context);
+  };
+
+  // ============================================================================
+  // REGEXTEST
+  // ============================================================================
+  describe('REGEXTEST', () => {
+    test('matches anywhere in the text', () => {
+      expect(evaluate('=REGEXTEST("INV-2041", "^INV-\\d{4}$")')).toBe(true);
+      expect(evaluate('=REGEXTEST("order INV-20", "\\d{4}")')).toBe(false);
+    });
+
+    test('is case-sensitive unless case_sensitivity is 1', () => {
+      expect(evaluate('=REGEXTEST("abc", "ABC")')).toBe(false);
+      expect(evaluate('=REGEXTEST("abc", "ABC", 1)')).toBe(true);
+    });
+
+    test('returns #VALUE! for invalid patterns and case modes', () => {
+      expect((evaluate('=REGEXTEST("abc", "(")') as Error).message).toBe('#VALUE!');
+      expect((evaluate('=REGEXTEST("abc", "a", 2)') as Error).message).toBe('#VALUE!');
+    });
+
+    test('broadcasts over a range', () => {
+      worksheet.setCellValue({ row: 1, col: 1 }, 'a@b.com');
+      worksheet.setCellValue({ row: 2, col: 1 }, 'not an email');
+      expect(evaluate('=REGEXTEST(A1:A2, "^\\S+@\\S+$")')).toEqual([true, false]);
+    });
+  });
+
+  // ============================================================================
+  // REGEXEXTRACT
+  // ============================================================================
+  describe('REGEXEXTRACT', () => {
+    test('returns the first match by default', () => {
+      expect(evaluate('=REGEXEXTRACT("Call 555-1234 or 555-9876", "\\d{3}-\\d{4}")')).toBe('555-1234');
+    });
+
+    test('returns all matches as a column with return_mode 1', () => {
+      expect(evaluate('=REGEXEXTRACT("a1 b22 c333", "\\d+", 1)')).toEqual([['1'], ['22'], ['333']]);
+    });
+
+    test('returns capture groups as a row with return_mode 2', () => {
+      expect(evaluate('=REGEXEXTRACT("2024-06-30", "(\\d+)-(\\d+)-(\\d+)", 2)'))
+        .toEqual([['2024', '06', '30']]);
+      expect(evaluate('=REGEXEXTRACT("ab", "(a)(x)?b", 2)')).toEqual([['a', '']]);
+    });
+
+    test('honours case_sensitivity', () => {
+      expect(evaluate('=REGEXEXTRACT("Total: USD", "usd", 0, 1)')).toBe('USD');
+    });
+
+    test('returns #N/A when nothing matches and #VALUE! for bad modes', () => {
+      expect((evaluate('=REGEXEXTRACT("abc", "\\d")') as Error).message).toBe('#N/A');
+      expect((evaluate('=REGEXEXTRACT("abc", "\\d", 1)') as Error).message).toBe('#N/A');
+      expect((evaluate('=REGEXEXTRACT("abc", "b", 2)') as Error).message).toBe('#VALUE!');
+      expect((evaluate('=REGEXEXTRACT("abc", "b", 3)') as Error).message).toBe('#VALUE!');
+    });
+  });
+
+  // ============================================================================
+  // REGEXREPLACE
+  // ============================================================================
+  describe('REGEXREPLACE', () => {
+    test('replaces every match and expands capture groups', () => {
+      expect(evaluate('=REGEXREPLACE("Doe, Jane", "(\\w+), (\\w+)", "$2 $1")')).toBe('Jane Doe');
+      expect(evaluate('=REGEXREPLACE("a  b   c", "\\s+", " ")')).toBe('a b c');
+    });
+
+    test('replaces only the requested occurrence', () => {
+      expect(evaluate('=REGEXREPLACE("a-b-c-d", "-", "+", 2)')).toBe('a-b+c-d');
+      expect(evaluate('=REGEXREPLACE("a-b-c-d", "-", "+", -1)')).toBe('a-b-c+d');
+      expect(evaluate('=REGEXREPLACE("a-b-c-d", "-", "+", 9)')).toBe('a-b-c-d');
+    });
+
+    test('keeps lookbehind context for a single occurrence', () => {
+      expect(evaluate('=REGEXREPLACE("x1 y1 x1", "(?<=x)1", "2", 2)')).toBe('x1 y1 x2');
+    });
+
+    test('honours case_sensitivity', () => {
+      expect(evaluate('=REGEXREPLACE("Foo foo", "foo", "bar")')).toBe('Foo bar');
+      expect(evaluate('=REGEXREPLACE("Foo foo", "foo", "bar", 0, 1)')).toBe('bar bar');
+    });
+
+    test('returns #VALUE! for invalid patterns and fractional occurrences', () => {
+      expect((evaluate('=REGEXREPLACE("abc", "[", "x")') as Error).message).toBe('#VALUE!');
+      expect((evaluate('=REGEXREPLACE("abc", "b", "x", 1.5)') as Error).message).toBe('#VALUE!');
+    });
+  });
+});
@@ -161,7 +161,7 @@ describe('Type Conversion Functions', () => {
       });
 
       test('formats with # (optional digit)', () => {
-        expect(evaluate('=TEXT(123.4, "0.##")')).toBe('123.40');
+        expect(evaluate('=TEXT(123.4, "0.##")')).toBe('123.4');
       });
 
       test('pads decimals with zeros', () => {
@@ -195,6 +195,24 @@ describe('Type Conversion Functions', () => {
       });
     });
 
+    describe('Excel Format Codes', () => {
+      test('formats date and time tokens', () => {
+        expect(evaluate('=TEXT(45292.5, "dddd, mmmm d, yyyy h:mm AM/PM")')).toBe('Monday, January 1, 2024 12:00 PM');
+      });
+
+      test('formats fractions', () => {
+        expect(evaluate('=TEXT(1.75, "# ?/?")')).toBe('1 3/4');
+      });
+
+      test('uses the negative section', () => {
+        expect(evaluate('=TEXT(-1234.5, "#,##0.00;(#,##0.00)")')).toBe('(1,234.50)');
+      });
+
+      test('formats numeric text as a number', () => {
+        expect(evaluate('=TEXT("12.5", "0.00")')).toBe('12.50');
+      });
+    });
+
     describe('Date Formatting', () => {
       test('formats date as dd/mm/yyyy', () => {
         // Serial date 45321 = 2024-01-15
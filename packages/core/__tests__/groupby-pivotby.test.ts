@@ -0,0 +1,172 @@
+/**
+ * Tests for the dynamic aggregation functions
+ * GROUPBY, PIVOTBY, PERCENTOF
+ */
+
+import { FormulaEngine } from '../src/FormulaEngine';
+import { SpillEngine } from '../src/SpillEngine';
+import { Worksheet } from '../src/worksheet';
+import { GROUPBY, PERCENTOF, type Aggregator } from '../src/functions/array/aggregation-functions';
+import type { FormulaContext, FormulaValue } from '../src/types/formula-types';
+
+describe('Dynamic Aggregation Functions', () => {
+  let engine: FormulaEngine;
+  let worksheet: Worksheet;
+  let context: FormulaContext;
+
+  // A1:D7 — Region | Quarter | Sales | Units
+  const data: FormulaValue[][] = [
+    ['Region', 'Quarter', 'Sales', 'Units'],
+    ['East', 'Q1', 100, 1],
+    ['West', 'Q1', 200, 2],
+    ['East', 'Q2', 150, 3],
+    ['West', 'Q2', 50, 4],
+    ['North', 'Q1', 300, 5],
+    ['East', 'Q1', 25, 6],
+  ];
+
+  const evaluate = (formula: string) => engine.evaluate(formula, context);
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    worksheet = new Worksheet('Sheet1', 100, 26);
+    context = {
+      worksheet,
+      currentCell: { row: 21, col: 11 },
+      namedLambdas: new Map(),
+    } as FormulaContext;
+
+    data.forEach((row, r) => row.forEach((value, c) => {
+      worksheet.setCellValue({ row: r + 1, col: c + 1 }, value as any);
+    }));
+  });
+
+  describe('GROUPBY', () => {
+    test('groups by one field with SUM and a grand total', () => {
+      expect(evaluate('=GROUPBY(A2:A7, C2:C7, SUM)')).toEqual([
+        ['East', 275],
+        ['North', 300],
+        ['West', 250],
+        ['Total', 825],
+      ]);
+    });
+
+    test('accepts a LAMBDA aggregator and multiple value columns', () => {
+      expect(evaluate('=GROUPBY(A2:A7, C2:D7, LAMBDA(x, MAX(x)), 0, 0)')).toEqual([
+        ['East', 150, 6],
+        ['North', 300, 5],
+        ['West', 200, 4],
+      ]);
+    });
+
+    test('shows detected headers with field_headers 3', () => {
+      expect(evaluate('=GROUPBY(A1:A7, C1:C7, COUNT, 3, 0)')).toEqual([
+        ['Region', 'Sales'],
+        ['East', 3],
+        ['North', 1],
+        ['West', 2],
+      ]);
+    });
+
+    test('adds subtotals for nested fields', () => {
+      expect(evaluate('=GROUPBY(A2:B7, C2:C7, SUM, 0, 2)')).toEqual([
+        ['East', 'Q1', 125],
+        ['East', 'Q2', 150],
+        ['East', null, 275],
+        ['North', 'Q1', 300],
+        ['North', null, 300],
+        ['West', 'Q1', 200],
+        ['West', 'Q2', 50],
+        ['West', null, 250],
+        ['Total', null, 825],
+      ]);
+    });
+
+    test('puts totals first for a negative total_depth', () => {
+      const result = evaluate('=GROUPBY(A2:A7, C2:C7, SUM, 0, -1)') as FormulaValue[][];
+      expect(result[0]).toEqual(['Total', 825]);
+    });
+
+    test('sorts by a value column, descending', () => {
+      const result = evaluate('=GROUPBY(A2:A7, C2:C7, SUM, 0, 0, -2)') as FormulaValue[][];
+      expect(result.map(r => r[0])).toEqual(['North', 'East', 'West']);
+    });
+
+    test('filters source rows', () => {
+      worksheet.setCellValue({ row: 2, col: 6 }, true);
+      worksheet.setCellValue({ row: 3, col: 6 }, false);
+      worksheet.setCellValue({ row: 4, col: 6 }, true);
+      worksheet.setCellValue({ row: 5, col: 6 }, false);
+      worksheet.setCellValue({ row: 6, col: 6 }, false);
+      worksheet.setCellValue({ row: 7, col: 6 }, true);
+      expect(evaluate('=GROUPBY(A2:A7, C2:C7, SUM, 0, 0, , F2:F7)')).toEqual([['East', 275]]);
+    });
+
+    test('uses PERCENTOF against the whole values column', () => {
+      const result = evaluate('=GROUPBY(A2:A7, C2:C7, PERCENTOF, 0, 0)') as FormulaValue[][];
+      expect(result[0][0]).toBe('East');
+      expect(result[0][1]).toBeCloseTo(275 / 825, 10);
+    });
+
+    test('returns #NAME? for an unknown function and #VALUE! for mismatched sizes', () => {
+      expect((evaluate('=GROUPBY(A2:A7, C2:C7, NOPE)') as Error).message).toBe('#NAME?');
+      expect((evaluate('=GROUPBY(A2:A7, C2:C6, SUM)') as Error).message).toBe('#VALUE!');
+    });
+
+    test('handler rejects a non-function aggregator', () => {
+      expect((GROUPBY([['a']], [[1]], 'SUM') as Error).message).toBe('#VALUE!');
+      const count: Aggregator = values => values.length;
+      expect(GROUPBY([['a'], ['a']], [[1], [2]], count as any, 0, 0)).toEqual([['a', 2]]);
+    });
+  });
+
+  describe('PIVOTBY', () => {
+    test('cross-tabulates with row and column totals', () => {
+      expect(evaluate('=PIVOTBY(A2:A7, B2:B7, C2:C7, SUM)')).toEqual([
+        [null, 'Q1', 'Q2', 'Total'],
+        ['East', 125, 150, 275],
+        ['North', 300, null, 300],
+        ['West', 200, 50, 250],
+        ['Total', 625, 200, 825],
+      ]);
+    });
+
+    test('computes shares of the grand total with relative_to 2', () => {
+      const result = evaluate('=PIVOTBY(A2:A7, B2:B7, C2:C7, PERCENTOF, 0, 0, , 0, , , 2)') as FormulaValue[][];
+      expect(result[0]).toEqual([null, 'Q1', 'Q2']);
+      expect(result[2][1]).toBeCloseTo(300 / 825, 10);
+      expect(result[2][2]).toBeNull();
+    });
+
+    test('labels value columns when there are several', () => {
+      const result = evaluate('=PIVOTBY(A1:A7, B1:B7, C1:D7, SUM, 1, 0, , 0)') as FormulaValue[][];
+      expect(result[0]).toEqual([null, 'Q1', null, 'Q2', null]);
+      expect(result[1]).toEqual([null, 'Sales', 'Units', 'Sales', 'Units']);
+      expect(result[2]).toEqual(['East', 125, 7, 150, 3]);
+    });
+  });
+
+  describe('PERCENTOF', () => {
+    test('divides the subset sum by the total sum', () => {
+      expect(evaluate('=PERCENTOF(C2:C3, C2:C7)')).toBeCloseTo(300 / 825, 10);
+      expect((PERCENTOF([1], [0]) as Error).message).toBe('#DIV/0!');
+    });
+  });
+
+  describe('Spill integration', () => {
+    test('a GROUPBY result spills as a rectangle and blocks like any array', () => {
+      const spillEngine = new SpillEngine();
+      const result = evaluate('=GROUPBY(A2:A7, C2:C7, SUM)') as FormulaValue[][];
+      const anchor = { row: 11, col: 1 };
+
+      spillEngine.applySpill(worksheet, anchor, result);
+      expect(worksheet.getCell(anchor)?.spillSource?.dimensions).toEqual([4, 2]);
+      expect(worksheet.getCellValue({ row: 14, col: 2 })).toBe(825);
+
+      spillEngine.clearSpill(worksheet, anchor);
+      worksheet.setCellValue({ row: 13, col: 2 }, 'blocker');
+      spillEngine.applySpill(worksheet, anchor, result);
+      expect(worksheet.getCellValue(anchor)).toBe('#SPILL!');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * hyperlinks.test.ts
+ *
+ * Cell hyperlinks: target parsing, the Worksheet hyperlink model and its
+ * events, HYPERLINK() formulas, undo through WorksheetPatch, sheet
+ * protection in the SDK, and snapshot round-trips.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { findHyperlinkCall, parseHyperlinkLocation, validateHyperlinkTarget } from '../src/utils/hyperlinks';
+import { invertPatch, applyPatch, PatchOps } from '../src/patch/WorksheetPatch';
+import { recordingApplyPatch } from '../src/patch/PatchRecorder';
+import { snapshotCodec } from '../src/persistence/SnapshotCodec';
+import { createSpreadsheet, ProtectedSheetOperationError, ProtectedCellError, ValidationError } from '../src/sdk/index';
+import type { SheetEvents } from '../src/types';
+import type { Worksheet } from '../src/worksheet';
+
+describe('Hyperlinks', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+    ws = wb.addSheet('Report');
+    wb.addSheet('Sources');
+  });
+
+  describe('targets', () => {
+    it('resolves workbook locations', () => {
+      expect(parseHyperlinkLocation('#Sources!b4')).toEqual({
+        sheet: 'Sources', ref: 'B4', range: { start: { row: 4, col: 2 }, end: { row: 4, col: 2 } },
+      });
+      expect(parseHyperlinkLocation("#'Q1 Data'!$C$9:$A$1")).toEqual({
+        sheet: 'Q1 Data', ref: 'C9:A1', range: { start: { row: 1, col: 1 }, end: { row: 9, col: 3 } },
+      });
+      expect(parseHyperlinkLocation('#a1')).toEqual({ ref: 'A1', range: { start: { row: 1, col: 1 }, end: { row: 1, col: 1 } } });
+      expect(parseHyperlinkLocation('#SalesTotal')).toEqual({ ref: 'SalesTotal' });
+      expect(parseHyperlinkLocation('https://example.com/#top')).toBeNull();
+    });
+
+    it('rejects empty targets and script schemes', () => {
+      expect(validateHyperlinkTarget('https://example.com')).toBeNull();
+      expect(validateHyperlinkTarget('mailto:ops@example.com')).toBeNull();
+      expect(validateHyperlinkTarget('')).toMatch(/empty/);
+      expect(validateHyperlinkTarget('#')).toMatch(/empty/);
+      expect(validateHyperlinkTarget(' JavaScript:alert(1)')).toMatch(/script scheme/);
+    });
+
+    it('splits a top-level HYPERLINK call into its arguments', () => {
+      expect(findHyperlinkCall('=HYPERLINK("#Sources!A1", "Source (1, 2)")')).toEqual({
+        location: '"#Sources!A1"',
+        friendlyName: '"Source (1, 2)"',
+      });
+      expect(findHyperlinkCall('=hyperlink(A1&"?id="&B1)')).toEqual({ location: 'A1&"?id="&B1' });
+      expect(findHyperlinkCall('=IF(A1, HYPERLINK("x"), "")')).toBeNull();
+      expect(findHyperlinkCall('=HYPERLINK("x") & "y"')).toBeNull();
+      expect(findHyperlinkCall('=SUM(A1:A3)')).toBeNull();
+    });
+  });
+
+  describe('worksheet', () => {
+    it('stores, replaces and removes a cell hyperlink with events', () => {
+      const events: Array<Extract<SheetEvents, { type: 'hyperlink-changed' }>> = [];
+      ws.on(e => { if (e.type === 'hyperlink-changed') events.push(e); });
+
+      ws.setHyperlink({ row: 2, col: 1 }, { target: 'https://example.com/invoice/17', tooltip: 'Invoice 17' });
+      ws.setHyperlink({ row: 2, col: 1 }, { target: 'mailto:billing@example.com' });
+      ws.setHyperlink({ row: 2, col: 1 }, undefined);
+      ws.setHyperlink({ row: 3, col: 1 }, undefined);
+
+      expect(ws.getHyperlink({ row: 2, col: 1 })).toBeUndefined();
+      expect(events.map(e => [e.before?.target, e.after?.target])).toEqual([
+        [undefined, 'https://example.com/invoice/17'],
+        ['https://example.com/invoice/17', 'mailto:billing@example.com'],
+        ['mailto:billing@example.com', undefined],
+      ]);
+    });
+
+    it('keeps the value and returns copies', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 'Invoice 17');
+      const link = { target: '#Sources!A1' };
+      ws.setHyperlink({ row: 1, col: 1 }, link);
+      link.target = '#Sources!Z9';
+      ws.getHyperlink({ row: 1, col: 1 })!.target = 'changed';
+
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe('Invoice 17');
+      expect(ws.getHyperlink({ row: 1, col: 1 })).toEqual({ target: '#Sources!A1' });
+      expect(ws.getAllHyperlinks()).toEqual([{ address: { row: 1, col: 1 }, hyperlink: { target: '#Sources!A1' } }]);
+    });
+
+    it('throws for invalid targets', () => {
+      expect(() => ws.setHyperlink({ row: 1, col: 1 }, { target: '  ' })).toThrow('Hyperlink target cannot be empty');
+      expect(() => ws.setHyperlink({ row: 1, col: 1 }, { target: 'javascript:void(0)' })).toThrow(/script scheme/);
+      expect(ws.getAllHyperlinks()).toEqual([]);
+    });
+
+    it('links a merged region through its anchor', () => {
+      ws.mergeCells({ start: { row: 1, col: 1 }, end: { row: 2, col: 3 } });
+      ws.setHyperlink({ row: 2, col: 2 }, { target: 'https://example.com' });
+
+      expect(ws.getAllHyperlinks()).toEqual([{ address: { row: 1, col: 1 }, hyperlink: { target: 'https://example.com' } }]);
+      expect(ws.getHyperlink({ row: 2, col: 3 })).toEqual({ target: 'https://example.com' });
+    });
+
+    it('moves with its cell when rows are inserted', () => {
+      ws.setHyperlink({ row: 3, col: 2 }, { target: '#Sources!A1' });
+      ws.insertRows(1, 2);
+
+      expect(ws.getHyperlink({ row: 3, col: 2 })).toBeUndefined();
+      expect(ws.getHyperlink({ row: 5, col: 2 })).toEqual({ target: '#Sources!A1' });
+    });
+  });
+
+  describe('HYPERLINK()', () => {
+    it('shows the friendly name, or the location without one', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 'INV-17');
+      ws.setCellFormula({ row: 1, col: 2 }, '=HYPERLINK("https://example.com/" & A1, "Open " & A1)');
+      ws.setCellFormula({ row: 1, col: 3 }, '=HYPERLINK("#Sources!B2")');
+      ws.setCellFormula({ row: 1, col: 4 }, '=HYPERLINK("#Sources!B2", E1)');
+      ws.calculate();
+
+      expect(ws.getCellValue({ row: 1, col: 2 })).toBe('Open INV-17');
+      expect(ws.getCellValue({ row: 1, col: 3 })).toBe('#Sources!B2');
+      expect(ws.getCellValue({ row: 1, col: 4 })).toBe(0);
+    });
+
+    it('makes the cell follow the evaluated link location', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 'INV-17');
+      ws.setCellFormula({ row: 1, col: 2 }, '=HYPERLINK("https://example.com/" & A1, "Open")');
+      ws.calculate();
+
+      expect(ws.getHyperlink({ row: 1, col: 2 })).toEqual({ target: 'https://example.com/INV-17' });
+      ws.setCellValue({ row: 1, col: 1 }, 'INV-18');
+      expect(ws.getHyperlink({ row: 1, col: 2 })).toEqual({ target: 'https://example.com/INV-18' });
+      // Only stored links travel as hyperlink parts
+      expect(ws.getAllHyperlinks()).toEqual([]);
+    });
+
+    it('prefers a link set on the cell and ignores unusable locations', () => {
+      ws.setCellFormula({ row: 1, col: 1 }, '=HYPERLINK("#Sources!A1")');
+      ws.setCellFormula({ row: 2, col: 1 }, '=HYPERLINK(1/0)');
+      ws.setCellFormula({ row: 3, col: 1 }, '=HYPERLINK("javascript:alert(1)")');
+      ws.calculate();
+      ws.setHyperlink({ row: 1, col: 1 }, { target: 'https://example.com' });
+
+      expect(ws.getHyperlink({ row: 1, col: 1 })).toEqual({ target: 'https://example.com' });
+      expect(ws.getHyperlink({ row: 2, col: 1 })).toBeUndefined();
+      expect(ws.getHyperlink({ row: 3, col: 1 })).toBeUndefined();
+    });
+  });
+
+  describe('patches', () => {
+    it('records an invertible setHyperlink op', () => {
+      ws.setHyperlink({ row: 1, col: 1 }, { target: '#Sources!A1' });
+      const patch = { seq: 1, ops: [PatchOps.setHyperlink(1, 1, undefined, { target: 'https://example.com', tooltip: 'Docs' })] };
+
+      const inverse = recordingApplyPatch(ws, patch);
+      expect(ws.getHyperlink({ row: 1, col: 1 })).toEqual({ target: 'https://example.com', tooltip: 'Docs' });
+      expect(inverse.ops).toEqual([{
+        op: 'setHyperlink', row: 1, col: 1,
+        before: { target: 'https://example.com', tooltip: 'Docs' },
+        after: { target: '#Sources!A1' },
+      }]);
+
+      applyPatch(ws, inverse);
+      expect(ws.getHyperlink({ row: 1, col: 1 })).toEqual({ target: '#Sources!A1' });
+      applyPatch(ws, invertPatch(inverse));
+      expect(ws.getHyperlink({ row: 1, col: 1 })?.target).toBe('https://example.com');
+    });
+
+    it('survives a snapshot round-trip', () => {
+      const sheet = createSpreadsheet('Links', { rows: 20, cols: 10 });
+      sheet.setCell(2, 2, 'Invoice');
+      sheet.setHyperlink(2, 2, { target: 'https://example.com/invoice', tooltip: 'Open invoice' });
+
+      const copy = createSpreadsheet('Copy', { rows: 20, cols: 10 });
+      copy.restore(snapshotCodec.decode(snapshotCodec.encode(sheet.snapshot())));
+      expect(copy.getHyperlink(2, 2)).toEqual({ target: 'https://example.com/invoice', tooltip: 'Open invoice' });
+    });
+  });
+
+  describe('SDK', () => {
+    it('sets and removes links with undo and redo', () => {
+      const sheet = createSpreadsheet('Links', { rows: 20, cols: 10 });
+      sheet.setHyperlink(1, 1, { target: 'mailto:ops@example.com' });
+      sheet.removeHyperlink(1, 1);
+      expect(sheet.getHyperlink(1, 1)).toBeUndefined();
+
+      sheet.undo();
+      expect(sheet.getHyperlink(1, 1)).toEqual({ target: 'mailto:ops@example.com' });
+      sheet.undo();
+      expect(sheet.getHyperlink(1, 1)).toBeUndefined();
+      sheet.redo();
+      expect(sheet.getHyperlink(1, 1)).toEqual({ target: 'mailto:ops@example.com' });
+    });
+
+    it('rejects invalid targets with ValidationError', () => {
+      const sheet = createSpreadsheet('Links', { rows: 20, cols: 10 });
+      expect(() => sheet.setHyperlink(1, 1, { target: 'data:text/html,hi' })).toThrow(ValidationError);
+      expect(sheet.canUndo).toBe(false);
+    });
+
+    it('honours allowInsertHyperlinks and locked cells on a protected sheet', () => {
+      const sheet = createSpreadsheet('Links', { rows: 20, cols: 10 });
+      sheet.unlockCell(3, 3);
+      sheet.setSheetProtection();
+      expect(() => sheet.setHyperlink(3, 3, { target: '#A1' })).toThrow(ProtectedSheetOperationError);
+
+      sheet.setSheetProtection({ allowInsertHyperlinks: true });
+      sheet.setHyperlink(3, 3, { target: '#A1' });
+      expect(sheet.getHyperlink(3, 3)).toEqual({ target: '#A1' });
+      expect(() => sheet.setHyperlink(4, 4, { target: '#A1' })).toThrow(ProtectedCellError);
+    });
+  });
+});
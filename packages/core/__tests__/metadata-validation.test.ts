@@ -77,15 +77,15 @@ const EXPECTED_TOTALS = {
   FINANCIAL: 24,     // Updated: core 19 + FVSCHEDULE, DISC, INTRATE, EFFECT, NOMINAL
   LOGICAL: 17,
   DATETIME: 20,
-  LOOKUP: 12,
-  TEXT: 34,          // Updated: 31 + FIXED, TEXTBEFORE, TEXTAFTER
-  ARRAY: 20,
+  LOOKUP: 13,        // Added: HYPERLINK
+  TEXT: 37,          // Updated: 31 + FIXED, TEXTBEFORE, TEXTAFTER, REGEX*
+  ARRAY: 23,         // Added: GROUPBY, PIVOTBY, PERCENTOF
   INFORMATION: 14,   // Updated from 15
   STATISTICAL: 94,
   ENGINEERING: 43,   // Added: all engineering functions
   EXOTIC: 10,        // Added: FORMULATEXT, SHEET, SHEETS, CUBE*
   FUNCTIONAL: 8,     // Added: LAMBDA, LET, MAP, REDUCE, etc.
-  TOTAL: 349,        // Updated: 346 + 3 text functions
+  TOTAL: 356,        // Updated: 349 + 3 dynamic aggregation + 3 regex functions + HYPERLINK
 };
 
 /**
@@ -125,7 +125,7 @@ describe('Wave 0 Day 3: Metadata Completeness Validation', () => {
     expect(TEXT_METADATA.length).toBe(EXPECTED_TOTALS.TEXT);
   });
   
-  test('1.7: Array metadata count = 20', () => {
+  test('1.7: Array metadata count = 23', () => {
     expect(ARRAY_METADATA.length).toBe(EXPECTED_TOTALS.ARRAY);
   });
   
@@ -137,7 +137,7 @@ describe('Wave 0 Day 3: Metadata Completeness Validation', () => {
     expect(STATISTICAL_METADATA.length).toBe(EXPECTED_TOTALS.STATISTICAL);
   });
   
-  test('1.10: TOTAL metadata count = 349 (100% coverage)', () => {
+  test('1.10: TOTAL metadata count = 356 (100% coverage)', () => {
     expect(ALL_METADATA.length).toBe(EXPECTED_TOTALS.TOTAL);
     console.log(`✅ ${EXPECTED_TOTALS.TOTAL} functions with complete metadata`);
   });
@@ -0,0 +1,310 @@
+/**
+ * outline-grouping.test.ts
+ *
+ * Row/column outlines: nested group levels up to Excel's limit, collapse and
+ * expand through hidden rows, level buttons, summary placement, auto-outline
+ * from SUBTOTAL formulas, structural edits, undo through SpreadsheetSDK and
+ * the Data commands, and persistence in workbook snapshots.
+ */
+
+import { Workbook } from '../src/workbook';
+import { workbookSnapshotCodec } from '../src/persistence/WorkbookSnapshotCodec';
+import { applyPatch, invertPatch } from '../src/patch/WorksheetPatch';
+import { AutoOutlineCommand, ClearOutlineCommand, GroupOutlineCommand, UngroupOutlineCommand } from '../src/commands/DataCommands';
+import { buildOutlineGroups, findSubtotalRanges } from '../src/utils/outline';
+import { createSpreadsheet, ProtectedSheetOperationError, SdkError } from '../src/sdk/index';
+import type { Worksheet } from '../src/worksheet';
+
+const hiddenRows = (ws: Worksheet) => [...ws.getHiddenRows()].sort((a, b) => a - b);
+const span = (start: number, end: number) => Array.from({ length: end - start + 1 }, (_, i) => start + i);
+
+/**
+ * Two quarters of three months with a subtotal each, and a grand total:
+ *   rows 2–4 + subtotal 5, rows 6–8 + subtotal 9, grand total 10
+ */
+function buildReport(ws: Worksheet): void {
+  ws.setCellValue({ row: 1, col: 1 }, 'Month');
+  ws.setCellValue({ row: 1, col: 2 }, 'Revenue');
+  for (const row of [2, 3, 4, 6, 7, 8]) ws.setCellValue({ row, col: 2 }, row * 100);
+  ws.setCellFormula({ row: 5, col: 2 }, '=SUBTOTAL(9,B2:B4)');
+  ws.setCellFormula({ row: 9, col: 2 }, '=SUBTOTAL(9,B6:B8)');
+  ws.setCellFormula({ row: 10, col: 2 }, '=SUBTOTAL(9,$B$2:$B$9)');
+}
+
+describe('Outline grouping', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    ws = wb.addSheet('Report');
+  });
+
+  describe('levels', () => {
+    it('nests groups and derives them from the levels', () => {
+      ws.groupRows(2, 9);
+      ws.groupRows(2, 4);
+      ws.groupRows(8, 6);
+
+      expect(span(1, 10).map(row => ws.getOutlineLevel('row', row))).toEqual([0, 2, 2, 2, 1, 2, 2, 2, 1, 0]);
+      expect(ws.getMaxOutlineLevel('row')).toBe(2);
+      expect(ws.getOutlineGroups('row')).toEqual([
+        { start: 2, end: 9, level: 1, collapsed: false },
+        { start: 2, end: 4, level: 2, collapsed: false },
+        { start: 6, end: 8, level: 2, collapsed: false },
+      ]);
+      expect(ws.getOutlineGroups('col')).toEqual([]);
+    });
+
+    it('stops at eight outline levels', () => {
+      for (let i = 0; i < 7; i++) ws.groupCols(2, 3);
+
+      expect(ws.getOutlineLevel('col', 2)).toBe(7);
+      expect(() => ws.groupCols(3, 4)).toThrow('Outlines are limited to 8 levels');
+      expect(ws.getOutlineLevel('col', 4)).toBe(0);
+    });
+
+    it('ungroups one level at a time and opens collapsed groups it touches', () => {
+      ws.groupRows(2, 9);
+      ws.groupRows(2, 4);
+      ws.collapseOutlineGroup('row', 3);
+
+      ws.ungroupRows(2, 4);
+
+      expect(ws.getOutlineGroups('row')).toEqual([{ start: 2, end: 9, level: 1, collapsed: false }]);
+      expect(hiddenRows(ws)).toEqual([]);
+    });
+
+    it('builds groups from levels with gaps', () => {
+      const groups = buildOutlineGroups(new Map([[2, 1], [3, 2], [5, 1]]), start => start === 5);
+
+      expect(groups).toEqual([
+        { start: 2, end: 3, level: 1, collapsed: false },
+        { start: 5, end: 5, level: 1, collapsed: true },
+        { start: 3, end: 3, level: 2, collapsed: false },
+      ]);
+    });
+  });
+
+  describe('collapse and expand', () => {
+    beforeEach(() => {
+      ws.groupRows(2, 9);
+      ws.groupRows(2, 4);
+      ws.groupRows(6, 8);
+    });
+
+    it('hides a collapsed group and keeps its summary row visible', () => {
+      expect(ws.collapseOutlineGroup('row', 3)).toBe(true);
+
+      expect(hiddenRows(ws)).toEqual([2, 3, 4]);
+      expect(ws.getOutlineGroups('row')[1]).toEqual({ start: 2, end: 4, level: 2, collapsed: true });
+      expect(ws.collapseOutlineGroup('row', 12)).toBe(false);
+    });
+
+    it('keeps nested collapsed groups hidden when the outer group expands', () => {
+      ws.collapseOutlineGroup('row', 7);
+      ws.collapseOutlineGroup('row', 5, 1);
+      expect(hiddenRows(ws)).toEqual(span(2, 9));
+
+      ws.expandOutlineGroup('row', 5, 1);
+
+      expect(hiddenRows(ws)).toEqual([6, 7, 8]);
+      ws.expandOutlineGroup('row', 7);
+      expect(hiddenRows(ws)).toEqual([]);
+    });
+
+    it('shows outline levels like the level buttons', () => {
+      ws.showOutlineLevel('row', 2);
+      expect(hiddenRows(ws)).toEqual([2, 3, 4, 6, 7, 8]);
+      expect(ws.getOutlineGroups('row').map(group => group.collapsed)).toEqual([false, true, true]);
+
+      ws.showOutlineLevel('row', 1);
+      expect(hiddenRows(ws)).toEqual(span(2, 9));
+
+      ws.showOutlineLevel('row', 3);
+      expect(hiddenRows(ws)).toEqual([]);
+      expect(() => ws.showOutlineLevel('row', 9)).toThrow(RangeError);
+    });
+
+    it('clears the outline and shows what it had collapsed', () => {
+      ws.showOutlineLevel('row', 1);
+      ws.clearOutline();
+
+      expect(ws.getOutlineGroups('row')).toEqual([]);
+      expect(hiddenRows(ws)).toEqual([]);
+    });
+  });
+
+  describe('auto outline', () => {
+    it('finds the ranges SUBTOTAL reads', () => {
+      expect(findSubtotalRanges('=SUBTOTAL(9,B2:B4)+SUBTOTAL(109,$C$6:C8)')).toEqual([
+        { start: { row: 2, col: 2 }, end: { row: 4, col: 2 } },
+        { start: { row: 6, col: 3 }, end: { row: 8, col: 3 } },
+      ]);
+      expect(findSubtotalRanges('=SUM(B2:B4)+SUBTOTAL(9,Other!B2:B4)&"A1:A2"')).toEqual([]);
+    });
+
+    it('groups details under their subtotals and the subtotals under the grand total', () => {
+      buildReport(ws);
+      ws.setCellFormula({ row: 2, col: 5 }, '=SUBTOTAL(9,B2:D2)');
+
+      ws.autoOutline();
+
+      expect(ws.getOutlineGroups('row')).toEqual([
+        { start: 2, end: 9, level: 1, collapsed: false },
+        { start: 2, end: 4, level: 2, collapsed: false },
+        { start: 6, end: 8, level: 2, collapsed: false },
+      ]);
+      expect(ws.getOutlineGroups('col')).toEqual([{ start: 2, end: 4, level: 1, collapsed: false }]);
+    });
+
+    it('reads totals above their detail when summary rows sit above', () => {
+      ws.setOutlineSettings({ summaryRowsBelow: false });
+      ws.setCellFormula({ row: 2, col: 2 }, '=SUBTOTAL(9,B3:B6)');
+
+      ws.autoOutline();
+
+      expect(ws.getOutlineGroups('row')).toEqual([{ start: 3, end: 6, level: 1, collapsed: false }]);
+      expect(ws.getOutlineSettings()).toEqual({ summaryRowsBelow: false, summaryColumnsRight: true });
+    });
+  });
+
+  describe('structural edits', () => {
+    beforeEach(() => {
+      ws.groupRows(2, 9);
+      ws.groupRows(6, 8);
+      ws.collapseOutlineGroup('row', 7);
+    });
+
+    it('moves groups with their rows and grows them on inserts inside', () => {
+      ws.insertRows(1, 2);
+      ws.insertRows(9, 1);
+
+      expect(ws.getOutlineGroups('row')).toEqual([
+        { start: 4, end: 12, level: 1, collapsed: false },
+        { start: 8, end: 11, level: 2, collapsed: true },
+      ]);
+    });
+
+    it('restores levels and collapsed groups when a delete is undone', () => {
+      const before = ws.getOutlineGroups('row');
+      const deleted = ws.deleteRows(6, 3);
+      expect(ws.getOutlineGroups('row')).toEqual([{ start: 2, end: 6, level: 1, collapsed: false }]);
+
+      ws.restoreRows(deleted);
+
+      expect(ws.getOutlineGroups('row')).toEqual(before);
+    });
+
+    it('copies the outline with the sheet', () => {
+      ws.setOutlineSettings({ summaryColumnsRight: false });
+      const copy = wb.duplicateSheet('Report');
+
+      expect(copy.getOutlineState()).toEqual(ws.getOutlineState());
+      expect(hiddenRows(copy)).toEqual([6, 7, 8]);
+    });
+  });
+
+  describe('SpreadsheetSDK', () => {
+    it('undoes and redoes a collapse with its hidden rows', () => {
+      const sheet = createSpreadsheet('Report', { rows: 20, cols: 10 });
+      sheet.groupRows(2, 4);
+      sheet.collapseOutlineGroup('row', 2);
+      expect(sheet.isRowHidden(3)).toBe(true);
+
+      sheet.undo();
+      expect(sheet.isRowHidden(3)).toBe(false);
+      expect(sheet.getOutlineGroups('row')).toEqual([{ start: 2, end: 4, level: 1, collapsed: false }]);
+
+      sheet.redo();
+      expect(sheet.isRowHidden(3)).toBe(true);
+      expect(sheet.getOutlineGroups('row')[0].collapsed).toBe(true);
+
+      sheet.undo();
+      sheet.undo();
+      expect(sheet.getOutlineGroups('row')).toEqual([]);
+    });
+
+    it('reports bad arguments and protection with typed errors', () => {
+      const sheet = createSpreadsheet('Report', { rows: 20, cols: 10 });
+      for (let i = 0; i < 7; i++) sheet.groupCols(1, 2);
+
+      expect(() => sheet.groupCols(1, 1)).toThrow(expect.objectContaining({ code: 'INVALID_OUTLINE', operation: 'groupCols' }));
+      expect(() => sheet.groupCols(1, 1)).toThrow(SdkError);
+      expect(() => sheet.groupRows(0, 3)).toThrow(/out of range/);
+
+      sheet.setSheetProtection({ allowFormatColumns: true });
+      expect(() => sheet.groupRows(2, 3)).toThrow(ProtectedSheetOperationError);
+      expect(sheet.collapseOutlineGroup('col', 1)).toBe(true);
+    });
+
+    it('emits structure-changed for outline edits', () => {
+      const sheet = createSpreadsheet('Report', { rows: 20, cols: 10 });
+      const events: string[] = [];
+      sheet.on('structure-changed', event => events.push(event.type));
+
+      sheet.setOutlineSettings({ summaryRowsBelow: false });
+
+      expect(events.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('patches and commands', () => {
+    it('round-trips the outline through applyPatch and invertPatch', () => {
+      const before = ws.getOutlineState();
+      ws.groupRows(2, 4);
+      const after = ws.getOutlineState();
+      const patch = { seq: 0, ops: [{ op: 'setOutline' as const, before, after }] };
+
+      applyPatch(ws, invertPatch(patch));
+      expect(ws.getOutlineState()).toEqual(before);
+      applyPatch(ws, patch);
+      expect(ws.getOutlineState()).toEqual(after);
+    });
+
+    it('groups, ungroups, auto-outlines and clears through undoable commands', () => {
+      buildReport(ws);
+      const range = { start: { row: 2, col: 1 }, end: { row: 4, col: 1 } };
+
+      const group = new GroupOutlineCommand(ws, range, 'rows');
+      group.execute();
+      expect(ws.getOutlineLevel('row', 3)).toBe(1);
+
+      const ungroup = new UngroupOutlineCommand(ws, range, 'rows');
+      ungroup.execute();
+      expect(ws.getOutlineLevel('row', 3)).toBe(0);
+      ungroup.undo();
+      group.undo();
+      expect(ws.getOutlineGroups('row')).toEqual([]);
+
+      const auto = new AutoOutlineCommand(ws);
+      auto.execute();
+      expect(ws.getMaxOutlineLevel('row')).toBe(2);
+      ws.showOutlineLevel('row', 1);
+
+      const clear = new ClearOutlineCommand(ws, 'rows');
+      clear.execute();
+      expect(hiddenRows(ws)).toEqual([]);
+      clear.undo();
+      expect(hiddenRows(ws)).toEqual(span(2, 9));
+      expect(ws.getMaxOutlineLevel('row')).toBe(2);
+    });
+  });
+
+  describe('persistence', () => {
+    it('keeps the outline through a workbook snapshot', () => {
+      buildReport(ws);
+      ws.autoOutline();
+      ws.groupCols(3, 4);
+      ws.setOutlineSettings({ summaryRowsBelow: false });
+      ws.collapseOutlineGroup('row', 7);
+
+      const copy = new Workbook();
+      copy.applySnapshot(workbookSnapshotCodec.decode(workbookSnapshotCodec.encode(wb.extractSnapshot())));
+      const sheet = copy.getSheet('Report')!;
+
+      expect(sheet.getOutlineState()).toEqual(ws.getOutlineState());
+      expect(hiddenRows(sheet)).toEqual([6, 7, 8]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * row-structure.test.ts
+ *
+ * Row insert/delete: InsertRowsTransform/DeleteRowsTransform, Worksheet
+ * insertRows/deleteRows, and undo through CommandManager. Covers formula
+ * shifting on the same and other sheets, defined names, #REF! on delete and
+ * the row-attached sheet state (merges, validation, CF ranges, comments,
+ * hidden rows, row heights, auto-filter, freeze panes).
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { CommandManager } from '../src/CommandManager';
+import { InsertRowsCommand } from '../src/InsertRowsCommand';
+import { DeleteRowsCommand } from '../src/DeleteRowsCommand';
+import { RemoveDuplicatesCommand } from '../src/commands/DataCommands';
+import { InsertRowsTransform, DeleteRowsTransform } from '../src/dag/AddressTransform';
+import type { Worksheet } from '../src/worksheet';
+
+describe('Row insert/delete', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+    ws = wb.addSheet('Sheet1');
+  });
+
+  const formulaAt = (sheet: Worksheet, row: number, col: number) => sheet.getCell({ row, col })?.formula;
+
+  describe('Transforms', () => {
+    it('maps addresses and ranges across an insertion', () => {
+      const t = new InsertRowsTransform(2, 3);
+      expect(t.map({ row: 1, col: 4 })).toEqual({ row: 1, col: 4 });
+      expect(t.map({ row: 2, col: 4 })).toEqual({ row: 5, col: 4 });
+      expect(t.mapRange({ start: { row: 0, col: 0 }, end: { row: 3, col: 1 } }))
+        .toEqual({ start: { row: 0, col: 0 }, end: { row: 6, col: 1 } });
+    });
+
+    it('drops deleted addresses and shrinks overlapping ranges', () => {
+      const t = new DeleteRowsTransform(2, 2);
+      expect(t.map({ row: 2, col: 0 })).toBeNull();
+      expect(t.map({ row: 3, col: 0 })).toBeNull();
+      expect(t.map({ row: 4, col: 0 })).toEqual({ row: 2, col: 0 });
+      expect(t.mapRange({ start: { row: 1, col: 0 }, end: { row: 5, col: 0 } }))
+        .toEqual({ start: { row: 1, col: 0 }, end: { row: 3, col: 0 } });
+      expect(t.mapRange({ start: { row: 2, col: 0 }, end: { row: 3, col: 0 } })).toBeNull();
+      expect(t.shiftFormula('=A1+A3+A5', { row: 0, col: 1 })).toBe('=A1+#REF!+A3');
+    });
+  });
+
+  describe('Formulas', () => {
+    it('shifts cells and keeps formulas pointing at the same cells', () => {
+      ws.setCellValue({ row: 1, col: 1 }, 1);
+      ws.setCellValue({ row: 2, col: 1 }, 2);
+      ws.setCellValue({ row: 3, col: 1 }, 3);
+      ws.setCellFormula({ row: 4, col: 1 }, '=SUM(A1:A3)');
+      ws.setCellFormula({ row: 1, col: 2 }, '=A3*$A$2');
+
+      ws.insertRows(2, 2);
+
+      expect(ws.getCellValue({ row: 4, col: 1 })).toBe(2);
+      expect(formulaAt(ws, 6, 1)).toBe('=SUM(A1:A5)');
+      expect(formulaAt(ws, 1, 2)).toBe('=A5*$A$4');
+
+      ws.setCellValue({ row: 4, col: 1 }, 20);
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 6, col: 1 })).toBe(24);
+    });
+
+    it('turns references into deleted rows into #REF! and shrinks ranges', () => {
+      for (let row = 1; row <= 4; row++) ws.setCellValue({ row, col: 1 }, row);
+      ws.setCellFormula({ row: 6, col: 1 }, '=SUM(A1:A4)');
+      ws.setCellFormula({ row: 6, col: 2 }, '=A2+1');
+
+      ws.deleteRows(2, 2);
+
+      expect(formulaAt(ws, 4, 1)).toBe('=SUM(A1:A2)');
+      expect(formulaAt(ws, 4, 2)).toBe('=#REF!+1');
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 4, col: 1 })).toBe(5);
+      expect(ws.getCellValue({ row: 4, col: 2 })).toBe('#REF!');
+    });
+
+    it('rewrites references from other sheets and defined names', () => {
+      const other = wb.addSheet('Other');
+      ws.setCellValue({ row: 5, col: 1 }, 7);
+      other.setCellFormula({ row: 1, col: 1 }, '=Sheet1!A5*2');
+      other.setCellFormula({ row: 1, col: 2 }, '=A5');
+      wb.getNameManager().addName('Seven', '=Sheet1!$A$5');
+
+      ws.insertRows(1, 1);
+
+      expect(formulaAt(other, 1, 1)).toBe('=Sheet1!A6*2');
+      expect(formulaAt(other, 1, 2)).toBe('=A5');
+      expect(wb.getNameManager().getName('Seven')?.refersTo).toBe('=Sheet1!$A$6');
+    });
+  });
+
+  describe('Sheet structure', () => {
+    it('moves merges, validation, comments, row heights and hidden rows', () => {
+      ws.mergeCells({ start: { row: 3, col: 0 }, end: { row: 4, col: 1 } });
+      ws.setDataValidation({ row: 3, col: 2 }, { type: 'whole', operator: 'greaterThan', formula1: '0' } as any);
+      ws.addComment({ row: 3, col: 3 }, { text: 'note', author: 'me' } as any);
+      ws.setRowHeight(3, 40);
+      ws.hideRow(4);
+
+      ws.insertRows(2, 2);
+
+      expect(ws.getMergedRanges()).toEqual([{ start: { row: 5, col: 0 }, end: { row: 6, col: 1 } }]);
+      expect(ws.getDataValidation({ row: 5, col: 2 })).toBeDefined();
+      expect(ws.getDataValidation({ row: 3, col: 2 })).toBeUndefined();
+      expect(ws.getComments({ row: 5, col: 3 })[0].text).toBe('note');
+      expect(ws.getRowHeight(5)).toBe(40);
+      expect(ws.isRowHidden(6)).toBe(true);
+      expect(ws.isRowHidden(4)).toBe(false);
+    });
+
+    it('moves CF ranges, the auto-filter header and frozen rows', () => {
+      ws.addConditionalFormattingRule({
+        type: 'value', operator: '>', value: 1, style: { fillColor: '#ff0000' },
+        ranges: [{ start: { row: 2, col: 0 }, end: { row: 5, col: 0 } }],
+      } as any);
+      ws.setAutoFilterRange(3, 0, 2);
+      ws.setFreezePanes(2, 1);
+
+      ws.insertRows(1, 1);
+
+      expect(ws.getConditionalFormattingRules()[0].ranges)
+        .toEqual([{ start: { row: 3, col: 0 }, end: { row: 6, col: 0 } }]);
+      expect(ws.getAutoFilterRange()?.headerRow).toBe(4);
+      expect(ws.getFreezePanes()).toEqual(expect.objectContaining({ rows: 3, cols: 1 }));
+    });
+
+    it('drops structure that lived entirely in deleted rows', () => {
+      ws.mergeCells({ start: { row: 2, col: 0 }, end: { row: 3, col: 0 } });
+      ws.addConditionalFormattingRule({
+        type: 'value', operator: '>', value: 1, style: { fillColor: '#ff0000' },
+        ranges: [{ start: { row: 2, col: 0 }, end: { row: 3, col: 0 } }],
+      } as any);
+      ws.setFreezePanes(4, 0);
+
+      ws.deleteRows(2, 2);
+
+      expect(ws.getMergedRanges()).toEqual([]);
+      expect(ws.getConditionalFormattingRules()).toEqual([]);
+      expect(ws.getFreezePanes()).toEqual(expect.objectContaining({ rows: 2, cols: 0 }));
+    });
+  });
+
+  describe('Commands', () => {
+    it('undoes an insert', () => {
+      const manager = new CommandManager();
+      ws.setCellValue({ row: 3, col: 1 }, 5);
+      ws.setCellFormula({ row: 1, col: 2 }, '=A3');
+
+      manager.execute(new InsertRowsCommand(ws, 2, 3));
+      expect(ws.getCellValue({ row: 6, col: 1 })).toBe(5);
+      expect(formulaAt(ws, 1, 2)).toBe('=A6');
+
+      manager.undo();
+      expect(ws.getCellValue({ row: 3, col: 1 })).toBe(5);
+      expect(formulaAt(ws, 1, 2)).toBe('=A3');
+    });
+
+    it('undoes a delete, restoring cells, #REF! formulas and structure', () => {
+      const manager = new CommandManager();
+      const other = wb.addSheet('Other');
+      ws.setCellValue({ row: 2, col: 1 }, 10);
+      ws.setCellValue({ row: 4, col: 1 }, 30);
+      ws.setCellFormula({ row: 5, col: 2 }, '=A2+A4');
+      other.setCellFormula({ row: 1, col: 1 }, '=Sheet1!A2');
+      ws.mergeCells({ start: { row: 2, col: 3 }, end: { row: 2, col: 4 } });
+      ws.setRowHeight(2, 50);
+
+      manager.execute(new DeleteRowsCommand(ws, 2, 1));
+      expect(formulaAt(ws, 4, 2)).toBe('=#REF!+A3');
+      expect(formulaAt(other, 1, 1)).toBe('=#REF!');
+      expect(ws.getMergedRanges()).toEqual([]);
+
+      manager.undo();
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(10);
+      expect(formulaAt(ws, 5, 2)).toBe('=A2+A4');
+      expect(formulaAt(other, 1, 1)).toBe('=Sheet1!A2');
+      expect(ws.getMergedRanges()).toEqual([{ start: { row: 2, col: 3 }, end: { row: 2, col: 4 } }]);
+      expect(ws.getRowHeight(2)).toBe(50);
+
+      ws.setCellValue({ row: 4, col: 1 }, 31);
+      ws.autoRecalculate();
+      expect(ws.getCellValue({ row: 5, col: 2 })).toBe(41);
+    });
+
+    it('redoes a delete after undo', () => {
+      const manager = new CommandManager();
+      ws.setCellValue({ row: 1, col: 1 }, 'a');
+      ws.setCellValue({ row: 2, col: 1 }, 'b');
+
+      manager.execute(new DeleteRowsCommand(ws, 1));
+      manager.undo();
+      manager.redo();
+
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe('b');
+    });
+
+    it('removes duplicate rows as row deletes, however far down the sheet', () => {
+      const manager = new CommandManager();
+      ['x', 'y', 'x', 'z', 'y'].forEach((v, i) => ws.setCellValue({ row: 1 + i, col: 1 }, v));
+      ws.setCellValue({ row: 1500, col: 1 }, 'tail');
+      ws.setCellFormula({ row: 1, col: 2 }, '=A1500');
+
+      manager.execute(new RemoveDuplicatesCommand(ws, { start: { row: 1, col: 1 }, end: { row: 5, col: 1 } }, [1]));
+      expect([1, 2, 3].map(row => ws.getCellValue({ row, col: 1 }))).toEqual(['x', 'y', 'z']);
+      expect(ws.getCellValue({ row: 1498, col: 1 })).toBe('tail');
+      expect(formulaAt(ws, 1, 2)).toBe('=A1498');
+
+      manager.undo();
+      expect([1, 2, 3, 4, 5].map(row => ws.getCellValue({ row, col: 1 }))).toEqual(['x', 'y', 'x', 'z', 'y']);
+      expect(ws.getCellValue({ row: 1500, col: 1 })).toBe('tail');
+      expect(formulaAt(ws, 1, 2)).toBe('=A1500');
+    });
+  });
+});
@@ -18,6 +18,7 @@
  * §11 replaceAll — range constraint
  * §12 replaceAll — disposal safety
  * §13 replaceAll vs replaceInFormulas — undo entry count contrast
+ * §14 regex mode (useRegex) — findAll + replaceAll with capture groups
  */
 
 import { createSpreadsheet } from '../../src/sdk/index';
@@ -692,3 +693,86 @@ describe('§13 replaceAll vs replaceInFormulas — undo entry count contrast', (
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// §14 — regex mode
+// ---------------------------------------------------------------------------
+
+describe('§14 regex mode (useRegex)', () => {
+  test('findAll treats what as a pattern only when useRegex is set', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'INV-2041');
+    ws.setCellValue({ row: 2, col: 1 }, 'INV-20');
+    ws.setCellValue({ row: 3, col: 1 }, 'INV-\\d{4}');
+
+    const regexHits = findAll(sheet, { what: 'INV-\\d{4}', useRegex: true });
+    expect(regexHits.map(r => r.row)).toEqual([1]);
+
+    const literalHits = findAll(sheet, { what: 'INV-\\d{4}' });
+    expect(literalHits.map(r => r.row)).toEqual([3]);
+  });
+
+  test('lookAt whole anchors the whole alternation', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'cat');
+    ws.setCellValue({ row: 2, col: 1 }, 'category');
+    ws.setCellValue({ row: 3, col: 1 }, 'dog');
+
+    const hits = findAll(sheet, { what: 'cat|dog', useRegex: true, lookAt: 'whole' });
+    expect(hits.map(r => r.row)).toEqual([1, 3]);
+  });
+
+  test('matchCase still applies', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'Apple');
+    expect(findAll(sheet, { what: '^apple$', useRegex: true })).toHaveLength(1);
+    expect(findAll(sheet, { what: '^apple$', useRegex: true, matchCase: true })).toHaveLength(0);
+  });
+
+  test('invalid patterns throw a SyntaxError', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'x');
+    expect(() => findAll(sheet, { what: '(', useRegex: true })).toThrow(SyntaxError);
+  });
+
+  test('replaceAll expands capture groups in one undo entry', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'Doe, Jane');
+    ws.setCellValue({ row: 2, col: 1 }, 'Smith, John');
+    ws.setCellValue({ row: 3, col: 1 }, 'unchanged');
+
+    const count = replaceAll(sheet, '^(\\w+), (\\w+)$', '$2 $1', { useRegex: true });
+    expect(count).toBe(2);
+    expect(sheet.getCell(1, 1)?.value).toBe('Jane Doe');
+    expect(sheet.getCell(2, 1)?.value).toBe('John Smith');
+    expect(sheet.getCell(3, 1)?.value).toBe('unchanged');
+
+    sheet.undo();
+    expect(sheet.getCell(1, 1)?.value).toBe('Doe, Jane');
+    expect(sheet.canUndo).toBe(false);
+  });
+
+  test('replaceAll replaces every match in part mode and keeps $ literal without useRegex', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, 'a1 b22 c333');
+    ws.setCellValue({ row: 2, col: 1 }, 'price');
+
+    replaceAll(sheet, '\\d+', '<$&>', { useRegex: true });
+    expect(sheet.getCell(1, 1)?.value).toBe('a<1> b<22> c<333>');
+
+    replaceAll(sheet, 'price', '$1');
+    expect(sheet.getCell(2, 1)?.value).toBe('$1');
+  });
+
+  test('lookAt whole keeps groups available to the template', () => {
+    const { sheet, ws } = makeSheet();
+    ws.setCellValue({ row: 1, col: 1 }, '2024-06-30');
+    ws.setCellValue({ row: 2, col: 1 }, 'on 2024-06-30');
+
+    const count = replaceAll(sheet, '(\\d{4})-(\\d{2})-(\\d{2})', '$3/$2/$1',
+      { useRegex: true, lookAt: 'whole' });
+    expect(count).toBe(1);
+    expect(sheet.getCell(1, 1)?.value).toBe('30/06/2024');
+    expect(sheet.getCell(2, 1)?.value).toBe('on 2024-06-30');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * structural-ops.test.ts — Structural patch ops (insert/delete rows & columns)
+ *
+ * Coverage:
+ *   §1  insertRows / deleteRows / insertCols / deleteCols move cells and structure
+ *   §2  Undo / Redo through the SDK undo stack (removed content restored)
+ *   §3  Patch ops: applyPatch returns an invertible inverse
+ *   §4  PatchSerializer round-trip and validation of structural ops
+ *   §5  Bounds, protection and disposal guards
+ *
+ * Run: npx jest packages/core/__tests__/sdk/structural-ops.test.ts --no-coverage --verbose
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createSpreadsheet } from '../../src/sdk/SpreadsheetSDK';
+import type { SpreadsheetSDK } from '../../src/sdk/SpreadsheetSDK';
+import { PatchSerializer, PatchDeserializeError } from '../../src/sdk/PatchSerializer';
+import { BoundsError, DisposedError, ProtectedSheetOperationError } from '../../src/sdk/errors';
+import { invertPatch } from '../../src/patch/WorksheetPatch';
+
+function makeSheet(rows = 20, cols = 10): SpreadsheetSDK {
+  return createSpreadsheet('StructTest', { rows, cols });
+}
+
+// ---------------------------------------------------------------------------
+// §1 Structural edits
+// ---------------------------------------------------------------------------
+
+describe('§1 structural edits', () => {
+  let s: SpreadsheetSDK;
+  beforeEach(() => { s = makeSheet(); });
+
+  test('insertRows shifts cells, merges and hidden rows down', () => {
+    s.setCell(3, 1, 'three');
+    s.mergeCells(4, 1, 4, 2);
+    s.hideRow(5);
+
+    s.insertRows(2, 2);
+
+    expect(s.getCellValue(3, 1)).toBeNull();
+    expect(s.getCellValue(5, 1)).toBe('three');
+    expect(s.getMergedRanges()).toEqual([{ start: { row: 6, col: 1 }, end: { row: 6, col: 2 } }]);
+    expect(s.isRowHidden(7)).toBe(true);
+    expect(s.rowCount).toBe(22);
+  });
+
+  test('deleteRows removes the band and pulls cells up', () => {
+    s.setCell(2, 1, 'gone');
+    s.setCell(4, 1, 'four');
+
+    s.deleteRows(2, 2);
+
+    expect(s.getCellValue(2, 1)).toBe('four');
+    expect(s.rowCount).toBe(18);
+  });
+
+  test('insertCols / deleteCols shift cells and filters across columns', () => {
+    s.setCell(1, 3, 'c');
+    s.setFilter(3, { type: 'equals', value: 'c' } as any);
+
+    s.insertCols(2);
+    expect(s.getCellValue(1, 4)).toBe('c');
+    expect(s.getFilter(4)).toBeDefined();
+    expect(s.getFilter(3)).toBeUndefined();
+
+    s.deleteCols(1, 2);
+    expect(s.getCellValue(1, 2)).toBe('c');
+    expect(s.colCount).toBe(9);
+  });
+
+  test('emits structure-changed', () => {
+    let count = 0;
+    s.on('structure-changed', () => { count++; });
+    s.insertRows(1);
+    s.deleteCols(1);
+    expect(count).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §2 Undo / Redo
+// ---------------------------------------------------------------------------
+
+describe('§2 undo / redo', () => {
+  let s: SpreadsheetSDK;
+  beforeEach(() => { s = makeSheet(); });
+
+  test('undo of deleteRows restores removed cells, merges and visibility', () => {
+    s.setCell(3, 1, 'keep');
+    s.setCell(3, 2, 42);
+    s.mergeCells(3, 3, 3, 4);
+    s.hideRow(3);
+    s.setCell(6, 1, 'below');
+
+    s.deleteRows(3);
+    expect(s.getCellValue(5, 1)).toBe('below');
+
+    expect(s.undo()).toBe(true);
+    expect(s.getCellValue(3, 1)).toBe('keep');
+    expect(s.getCellValue(3, 2)).toBe(42);
+    expect(s.getCellValue(6, 1)).toBe('below');
+    expect(s.getMergedRanges()).toEqual([{ start: { row: 3, col: 3 }, end: { row: 3, col: 4 } }]);
+    expect(s.isRowHidden(3)).toBe(true);
+    expect(s.rowCount).toBe(20);
+
+    expect(s.redo()).toBe(true);
+    expect(s.getCellValue(3, 1)).toBeNull();
+    expect(s.getCellValue(5, 1)).toBe('below');
+  });
+
+  test('undo of insertCols removes the inserted columns', () => {
+    s.setCell(1, 2, 'b');
+    s.insertCols(1, 3);
+    expect(s.getCellValue(1, 5)).toBe('b');
+
+    s.undo();
+    expect(s.getCellValue(1, 2)).toBe('b');
+    expect(s.colCount).toBe(10);
+  });
+
+  test('undo of deleteCols restores the columns', () => {
+    s.setCell(2, 2, 'x');
+    s.setCell(2, 3, 'y');
+    s.deleteCols(2);
+    expect(s.getCellValue(2, 2)).toBe('y');
+
+    s.undo();
+    expect(s.getCellValue(2, 2)).toBe('x');
+    expect(s.getCellValue(2, 3)).toBe('y');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §3 Patch ops
+// ---------------------------------------------------------------------------
+
+describe('§3 patch ops', () => {
+  test('applyPatch(deleteRows) returns an inverse that restores the rows', () => {
+    const s = makeSheet();
+    s.setCell(2, 1, 'two');
+    s.setCell(3, 1, 'three');
+
+    const inverse = s.applyPatch({ seq: 0, ops: [{ op: 'deleteRows', row: 2, count: 1 }] });
+    expect(inverse.ops).toHaveLength(1);
+    expect(inverse.ops[0]).toMatchObject({ op: 'insertRows', row: 2, count: 1 });
+    expect(s.getCellValue(2, 1)).toBe('three');
+
+    s.applyPatch(inverse);
+    expect(s.getCellValue(2, 1)).toBe('two');
+    expect(s.getCellValue(3, 1)).toBe('three');
+  });
+
+  test('invertPatch pairs insert and delete ops', () => {
+    const inverse = invertPatch({
+      seq: 0,
+      ops: [
+        { op: 'insertRows', row: 1, count: 2 },
+        { op: 'insertCols', col: 4, count: 1 },
+      ],
+    });
+    expect(inverse.ops).toEqual([
+      { op: 'deleteCols', col: 4, count: 1 },
+      { op: 'deleteRows', row: 1, count: 2 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §4 Serialization
+// ---------------------------------------------------------------------------
+
+describe('§4 PatchSerializer', () => {
+  test('round-trips structural ops including captured content', () => {
+    const s = makeSheet();
+    s.setCell(2, 2, 'v');
+    const inverse = s.applyPatch({ seq: 0, ops: [{ op: 'deleteCols', col: 2, count: 1 }] });
+
+    const json = PatchSerializer.serialize(inverse);
+    expect(PatchSerializer.deserialize(json)).toEqual(JSON.parse(json));
+
+    s.applyPatch(PatchSerializer.deserialize(json));
+    expect(s.getCellValue(2, 2)).toBe('v');
+  });
+
+  test('serializes in canonical key order', () => {
+    const json = PatchSerializer.serialize({ seq: 1, ops: [{ count: 3, row: 2, op: 'insertRows' } as any] });
+    expect(json).toBe('{"seq":1,"ops":[{"op":"insertRows","row":2,"count":3}]}');
+  });
+
+  test('rejects a non-positive count', () => {
+    expect(() => PatchSerializer.deserialize('{"seq":0,"ops":[{"op":"deleteRows","row":1,"count":0}]}'))
+      .toThrow(PatchDeserializeError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §5 Guards
+// ---------------------------------------------------------------------------
+
+describe('§5 guards', () => {
+  test('rejects out-of-range bands', () => {
+    const s = makeSheet(10, 5);
+    expect(() => s.insertRows(0)).toThrow(BoundsError);
+    expect(() => s.insertRows(12)).toThrow(BoundsError);
+    expect(() => s.deleteRows(9, 3)).toThrow(BoundsError);
+    expect(() => s.deleteCols(1, 0)).toThrow(BoundsError);
+  });
+
+  test('honours sheet protection flags', () => {
+    const s = makeSheet();
+    s.setSheetProtection({ allowInsertRows: true });
+    expect(() => s.insertRows(1)).not.toThrow();
+    expect(() => s.deleteRows(1)).toThrow(ProtectedSheetOperationError);
+    expect(() => s.insertCols(1)).toThrow(ProtectedSheetOperationError);
+  });
+
+  test('throws DisposedError after dispose()', () => {
+    const s = makeSheet();
+    s.dispose();
+    expect(() => s.insertRows(1)).toThrow(DisposedError);
+    expect(() => s.deleteCols(1)).toThrow(DisposedError);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * workbook-sdk.test.ts — Multi-sheet WorkbookSDK facade
+ *
+ * Coverage:
+ *   §1  Sheet lifecycle: add, remove, rename, move, duplicate, hide, tab colour
+ *   §2  Rename / remove rewrite formulas on other sheets
+ *   §3  Undo / Redo of lifecycle operations (removed sheets restored intact)
+ *   §4  Workbook patches: applyPatch returns an invertible inverse
+ *   §5  Events
+ *   §6  Typed errors and disposal
+ *
+ * Run: npx jest packages/core/__tests__/sdk/workbook-sdk.test.ts --no-coverage --verbose
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createWorkbook } from '../../src/sdk/WorkbookSDK';
+import type { WorkbookSDK, WorkbookEvent } from '../../src/sdk/WorkbookSDK';
+import {
+  BoundsError,
+  DisposedError,
+  LastVisibleSheetError,
+  PatchError,
+  SheetNameError,
+  SheetNotFoundError,
+} from '../../src/sdk/errors';
+
+function makeBook(): WorkbookSDK {
+  return createWorkbook({ sheets: ['Data', 'Summary'], rows: 20, cols: 10 });
+}
+
+/** Plant a formula through the testing escape hatch (the SDK has no formula setter). */
+function setFormula(book: WorkbookSDK, sheet: string, row: number, col: number, formula: string): void {
+  (book.getSheet(sheet) as any)._ws.setCellFormula({ row, col }, formula);
+}
+
+// ---------------------------------------------------------------------------
+// §1 Lifecycle
+// ---------------------------------------------------------------------------
+
+describe('§1 sheet lifecycle', () => {
+  let book: WorkbookSDK;
+  beforeEach(() => { book = makeBook(); });
+
+  test('creates the requested sheets, first one active', () => {
+    expect(book.sheetNames).toEqual(['Data', 'Summary']);
+    expect(book.activeSheet).toBe('Data');
+    expect(createWorkbook().sheetNames).toEqual(['Sheet1']);
+  });
+
+  test('addSheet picks the next free name and honours the index', () => {
+    book.addSheet();
+    book.addSheet('First', 0);
+    expect(book.sheetNames).toEqual(['First', 'Data', 'Summary', 'Sheet3']);
+    expect(book.getSheet('sheet3').rowCount).toBe(20);
+  });
+
+  test('getSheet returns a stable handle that follows renames', () => {
+    const handle = book.getSheet('Data');
+    handle.setCell(1, 1, 'x');
+    book.renameSheet('Data', 'Inputs');
+    expect(book.getSheet('Inputs')).toBe(handle);
+    expect(handle.name).toBe('Inputs');
+    expect(handle.getCellValue(1, 1)).toBe('x');
+  });
+
+  test('removeSheet disposes the sheet handle', () => {
+    const handle = book.getSheet('Summary');
+    book.removeSheet('Summary');
+    expect(book.sheetNames).toEqual(['Data']);
+    expect(() => handle.getCellValue(1, 1)).toThrow(DisposedError);
+  });
+
+  test('moveSheet and duplicateSheet reorder tabs', () => {
+    book.getSheet('Data').setCell(2, 2, 7);
+    const copy = book.duplicateSheet('Data');
+    expect(copy.name).toBe('Data (2)');
+    expect(copy.getCellValue(2, 2)).toBe(7);
+
+    book.moveSheet('Data', 2);
+    expect(book.sheetNames).toEqual(['Data (2)', 'Summary', 'Data']);
+  });
+
+  test('hide / unhide and tab colour', () => {
+    book.setTabColor('Summary', '#00ff00');
+    book.hideSheet('Data');
+    expect(book.isSheetHidden('Data')).toBe(true);
+    expect(book.activeSheet).toBe('Summary');
+    expect(book.getTabColor('Summary')).toBe('#00ff00');
+
+    book.unhideSheet('Data');
+    expect(book.isSheetHidden('Data')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §2 Formula rewriting
+// ---------------------------------------------------------------------------
+
+describe('§2 formula rewriting', () => {
+  test('renameSheet rewrites references on other sheets, quoting when needed', () => {
+    const book = makeBook();
+    setFormula(book, 'Summary', 1, 1, '=Data!A1+Data!B2');
+
+    book.renameSheet('Data', 'Q1 Data');
+    expect(book.getSheet('Summary').getFormula(1, 1)).toBe("='Q1 Data'!A1+'Q1 Data'!B2");
+
+    book.undo();
+    expect(book.getSheet('Summary').getFormula(1, 1)).toBe('=Data!A1+Data!B2');
+  });
+
+  test('removeSheet turns references into #REF!', () => {
+    const book = makeBook();
+    setFormula(book, 'Summary', 1, 1, '=Data!A1*2');
+
+    book.removeSheet('Data');
+    expect(book.getSheet('Summary').getFormula(1, 1)).toBe('=#REF!*2');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §3 Undo / Redo
+// ---------------------------------------------------------------------------
+
+describe('§3 undo / redo', () => {
+  let book: WorkbookSDK;
+  beforeEach(() => { book = makeBook(); });
+
+  test('undo of removeSheet restores the sheet, its content and references', () => {
+    book.getSheet('Data').setCell(3, 3, 'kept');
+    book.getSheet('Data').mergeCells(1, 1, 1, 2);
+    setFormula(book, 'Summary', 1, 1, '=Data!C3');
+
+    book.removeSheet('Data');
+    expect(book.undo()).toBe(true);
+
+    expect(book.sheetNames).toEqual(['Data', 'Summary']);
+    expect(book.getSheet('Data').getCellValue(3, 3)).toBe('kept');
+    expect(book.getSheet('Data').getMergedRanges()).toHaveLength(1);
+    expect(book.getSheet('Summary').getFormula(1, 1)).toBe('=Data!C3');
+
+    expect(book.redo()).toBe(true);
+    expect(book.sheetNames).toEqual(['Summary']);
+    book.undo();
+    expect(book.getSheet('Data').getCellValue(3, 3)).toBe('kept');
+  });
+
+  test('every lifecycle operation undoes in reverse order', () => {
+    book.addSheet('Extra');
+    book.moveSheet('Extra', 0);
+    book.duplicateSheet('Summary');
+    book.hideSheet('Data');
+    book.setTabColor('Extra', 'red');
+    expect(book.sheetNames).toEqual(['Extra', 'Data', 'Summary', 'Summary (2)']);
+
+    while (book.canUndo) book.undo();
+
+    expect(book.sheetNames).toEqual(['Data', 'Summary']);
+    expect(book.isSheetHidden('Data')).toBe(false);
+    expect(book.canRedo).toBe(true);
+    expect(book.undo()).toBe(false);
+
+    while (book.canRedo) book.redo();
+    expect(book.sheetNames).toEqual(['Extra', 'Data', 'Summary', 'Summary (2)']);
+    expect(book.getTabColor('Extra')).toBe('red');
+  });
+
+  test('a new operation clears redo history', () => {
+    book.addSheet('A');
+    book.undo();
+    book.addSheet('B');
+    expect(book.canRedo).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §4 Patches
+// ---------------------------------------------------------------------------
+
+describe('§4 workbook patches', () => {
+  test('applyPatch returns an inverse that undoes the patch', () => {
+    const book = makeBook();
+    book.getSheet('Summary').setCell(1, 1, 'v');
+
+    const inverse = book.applyPatch({
+      seq: 0,
+      ops: [
+        { op: 'renameSheet', from: 'Data', to: 'Raw' },
+        { op: 'removeSheet', name: 'Summary' },
+      ],
+    });
+    expect(book.sheetNames).toEqual(['Raw']);
+    expect(inverse.ops.map(op => op.op)).toEqual(['addSheet', 'renameSheet']);
+
+    book.applyPatch(inverse);
+    expect(book.sheetNames).toEqual(['Data', 'Summary']);
+    expect(book.getSheet('Summary').getCellValue(1, 1)).toBe('v');
+    expect(book.canUndo).toBe(false);
+  });
+
+  test('a failing op surfaces as PatchError', () => {
+    const book = makeBook();
+    expect(() => book.applyPatch({ seq: 0, ops: [{ op: 'removeSheet', name: 'Missing' }] }))
+      .toThrow(PatchError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §5 Events
+// ---------------------------------------------------------------------------
+
+describe('§5 events', () => {
+  test('emits lifecycle events, including for undo', () => {
+    const book = makeBook();
+    const events: WorkbookEvent[] = [];
+    for (const type of ['sheet-added', 'sheet-removed', 'sheet-renamed', 'sheet-visibility-changed', 'active-sheet-changed'] as const) {
+      book.on(type, e => { events.push(e); });
+    }
+
+    book.renameSheet('Summary', 'Totals');
+    book.hideSheet('Data');
+    book.removeSheet('Data');
+    book.undo();
+
+    expect(events).toEqual([
+      { type: 'sheet-renamed', from: 'Summary', to: 'Totals' },
+      { type: 'sheet-visibility-changed', name: 'Data', hidden: true },
+      { type: 'active-sheet-changed', name: 'Totals' },
+      { type: 'sheet-removed', name: 'Data', index: 0 },
+      { type: 'sheet-added', name: 'Data', index: 0 },
+    ]);
+  });
+
+  test('disposing a subscription stops delivery', () => {
+    const book = makeBook();
+    let count = 0;
+    const sub = book.on('sheet-added', () => { count++; });
+    book.addSheet();
+    sub.dispose();
+    book.addSheet();
+    expect(count).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// §6 Errors
+// ---------------------------------------------------------------------------
+
+describe('§6 errors', () => {
+  let book: WorkbookSDK;
+  beforeEach(() => { book = makeBook(); });
+
+  test('unknown sheets throw SheetNotFoundError', () => {
+    expect(() => book.getSheet('Nope')).toThrow(SheetNotFoundError);
+    expect(() => book.removeSheet('Nope')).toThrow(SheetNotFoundError);
+  });
+
+  test('invalid or duplicate names throw SheetNameError with a code', () => {
+    expect(() => book.addSheet('bad/name')).toThrow(SheetNameError);
+    expect(() => book.renameSheet('Data', 'x'.repeat(32))).toThrow(SheetNameError);
+    try {
+      book.renameSheet('Data', 'summary');
+      throw new Error('expected a throw');
+    } catch (err) {
+      expect(err).toBeInstanceOf(SheetNameError);
+      expect((err as SheetNameError).code).toBe('DUPLICATE_SHEET_NAME');
+    }
+    expect(() => createWorkbook({ sheets: ['A', 'a'] })).toThrow(SheetNameError);
+  });
+
+  test('the last visible sheet cannot be removed or hidden', () => {
+    book.hideSheet('Summary');
+    expect(() => book.removeSheet('Data')).toThrow(LastVisibleSheetError);
+    expect(() => book.hideSheet('Data')).toThrow(LastVisibleSheetError);
+  });
+
+  test('out-of-range tab positions throw BoundsError', () => {
+    expect(() => book.moveSheet('Data', 2)).toThrow(BoundsError);
+    expect(() => book.addSheet('X', -1)).toThrow(BoundsError);
+  });
+
+  test('throws DisposedError after dispose() and disposes sheet handles', () => {
+    const handle = book.getSheet('Data');
+    book.dispose();
+    expect(() => book.sheetNames).toThrow(DisposedError);
+    expect(() => book.addSheet()).toThrow(DisposedError);
+    expect(() => handle.setCell(1, 1, 1)).toThrow(DisposedError);
+  });
+});
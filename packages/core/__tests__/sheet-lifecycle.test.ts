@@ -0,0 +1,203 @@
+/**
+ * sheet-lifecycle.test.ts
+ *
+ * Workbook sheet lifecycle: renameSheet (formula and defined-name rewrite,
+ * quoting, 3-D spans), removeSheet/restoreSheet (#REF! and back), moveSheet,
+ * duplicateSheet, tab visibility and colour, and the workbook events.
+ */
+
+import { Workbook } from '../src/workbook';
+import { FormulaEngine } from '../src/FormulaEngine';
+import { FormulaShiftingService } from '../src/FormulaShiftingService';
+import { quoteSheetName, validateSheetName } from '../src/utils/sheet-reference';
+import type { Worksheet } from '../src/worksheet';
+import type { WorkbookEvents } from '../src/types';
+
+describe('Sheet lifecycle', () => {
+  let wb: Workbook;
+  let data: Worksheet;
+  let summary: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+    data = wb.addSheet('Data');
+    summary = wb.addSheet('Summary');
+  });
+
+  const formulaAt = (sheet: Worksheet, row: number, col: number) => sheet.getCell({ row, col })?.formula;
+
+  describe('Sheet names in formulas', () => {
+    it('quotes names that are not plain identifiers', () => {
+      expect(quoteSheetName('Data')).toBe('Data');
+      expect(quoteSheetName('Raw Data')).toBe("'Raw Data'");
+      expect(quoteSheetName("Bob's")).toBe("'Bob''s'");
+      expect(quoteSheetName('A1')).toBe("'A1'");
+      expect(quoteSheetName('Jan:Mar')).toBe('Jan:Mar');
+    });
+
+    it('validates names against Excel rules', () => {
+      expect(validateSheetName('Q1 Plan')).toBeNull();
+      expect(validateSheetName('')).not.toBeNull();
+      expect(validateSheetName('a'.repeat(32))).not.toBeNull();
+      expect(validateSheetName('a/b')).not.toBeNull();
+      expect(validateSheetName("'quoted")).not.toBeNull();
+    });
+
+    it('renames qualified references, including 3-D span endpoints', () => {
+      const rename = (f: string) => FormulaShiftingService.renameSheetReferences(f, 'data', 'Raw Data');
+      expect(rename('=Data!A1+Other!B2+A1')).toBe("='Raw Data'!A1+Other!B2+A1");
+      expect(rename('=SUM(Data:Other!$A$1:B2)')).toBe("=SUM('Raw Data:Other'!$A$1:B2)");
+      expect(rename('="Data!A1"&Data!C3')).toBe('="Data!A1"&\'Raw Data\'!C3');
+      expect(FormulaShiftingService.renameSheetReferences('=Data!A1*2', 'Data', null)).toBe('=#REF!*2');
+    });
+  });
+
+  describe('renameSheet', () => {
+    it('rewrites formulas and defined names that refer to the sheet', () => {
+      data.setCellValue({ row: 1, col: 1 }, 5);
+      summary.setCellFormula({ row: 1, col: 1 }, '=Data!A1*2');
+      data.setCellFormula({ row: 2, col: 1 }, '=A1+Data!A1');
+      wb.getNameManager().addName('Base', '=Data!$A$1');
+      wb.getNameManager().addName('Local', '=$A$1', 'Data');
+
+      wb.renameSheet('Data', 'Raw Data');
+
+      expect(wb.getSheetNames()).toEqual(['Raw Data', 'Summary']);
+      expect(data.name).toBe('Raw Data');
+      expect(formulaAt(summary, 1, 1)).toBe("='Raw Data'!A1*2");
+      expect(formulaAt(data, 2, 1)).toBe("=A1+'Raw Data'!A1");
+      expect(wb.getNameManager().getName('Base')?.refersTo).toBe("='Raw Data'!$A$1");
+      expect(wb.getNameManager().getName('Local', 'Raw Data')).toBeDefined();
+      expect(wb.getNameManager().getName('Local', 'Data')).toBeUndefined();
+    });
+
+    it('keeps cross-sheet recalculation working under the new name', () => {
+      data.setCellValue({ row: 1, col: 1 }, 5);
+      summary.setCellFormula({ row: 1, col: 1 }, '=Data!A1*2');
+      wb.recalculate();
+
+      wb.renameSheet('Data', 'Inputs');
+      data.setCellValue({ row: 1, col: 1 }, 7);
+      wb.recalculate();
+
+      expect(summary.getCellValue({ row: 1, col: 1 })).toBe(14);
+    });
+
+    it('rejects invalid and duplicate names but allows a case change', () => {
+      expect(() => wb.renameSheet('Data', 'a[1]')).toThrow();
+      expect(() => wb.renameSheet('Data', 'SUMMARY')).toThrow(/already exists/);
+      expect(() => wb.renameSheet('Nope', 'X')).toThrow(/not found/);
+
+      wb.renameSheet('Data', 'DATA');
+      expect(wb.getSheetNames()).toEqual(['DATA', 'Summary']);
+    });
+  });
+
+  describe('removeSheet / restoreSheet', () => {
+    it('turns references into #REF! and restores them', () => {
+      data.setCellValue({ row: 1, col: 1 }, 3);
+      summary.setCellFormula({ row: 1, col: 1 }, '=Data!A1+1');
+      wb.getNameManager().addName('Three', '=Data!$A$1');
+      wb.getNameManager().addName('Local', '=$A$1', 'Data');
+
+      const removed = wb.removeSheet('data');
+
+      expect(wb.getSheetNames()).toEqual(['Summary']);
+      expect(formulaAt(summary, 1, 1)).toBe('=#REF!+1');
+      expect(wb.getNameManager().getName('Three')?.refersTo).toBe('=#REF!');
+      expect(wb.getNameManager().getName('Local', 'Data')).toBeUndefined();
+      expect(wb.activeSheet?.name).toBe('Summary');
+
+      wb.restoreSheet(removed);
+
+      expect(wb.getSheetNames()).toEqual(['Data', 'Summary']);
+      expect(formulaAt(summary, 1, 1)).toBe('=Data!A1+1');
+      expect(wb.getNameManager().getName('Three')?.refersTo).toBe('=Data!$A$1');
+      expect(wb.getNameManager().getName('Local', 'Data')).toBeDefined();
+
+      data.setCellValue({ row: 1, col: 1 }, 10);
+      wb.recalculate();
+      expect(summary.getCellValue({ row: 1, col: 1 })).toBe(11);
+    });
+
+    it('refuses to remove the last sheet or the last visible one', () => {
+      wb.setSheetVisibility('Summary', 'hidden');
+      expect(() => wb.removeSheet('Data')).toThrow(/visible/);
+      wb.removeSheet('Summary');
+      expect(() => wb.removeSheet('Data')).toThrow(/at least one sheet/);
+    });
+  });
+
+  describe('moveSheet', () => {
+    it('reorders tabs and re-evaluates 3-D references', () => {
+      const extra = wb.addSheet('Extra');
+      data.setCellValue({ row: 1, col: 1 }, 1);
+      summary.setCellValue({ row: 1, col: 1 }, 2);
+      extra.setCellValue({ row: 1, col: 1 }, 4);
+      extra.setCellFormula({ row: 2, col: 1 }, '=SUM(Data:Summary!A1)');
+      wb.recalculate();
+      expect(extra.getCellValue({ row: 2, col: 1 })).toBe(3);
+
+      wb.moveSheet('Extra', 1);
+      expect(wb.getSheetNames()).toEqual(['Data', 'Extra', 'Summary']);
+      wb.recalculate();
+      expect(extra.getCellValue({ row: 2, col: 1 })).toBe(7);
+
+      expect(() => wb.moveSheet('Extra', 3)).toThrow(RangeError);
+    });
+  });
+
+  describe('duplicateSheet', () => {
+    it('copies cells, formulas, structure and sheet-scoped names', () => {
+      data.setCellValue({ row: 1, col: 1 }, 2);
+      data.setCellFormula({ row: 1, col: 2 }, '=A1*Rate');
+      data.mergeCells({ start: { row: 4, col: 1 }, end: { row: 4, col: 2 } });
+      data.setRowHeight(2, 30);
+      wb.getNameManager().addName('Rate', '=Data!$C$1', 'Data');
+      data.setCellValue({ row: 1, col: 3 }, 10);
+      wb.setTabColor('Data', '#ff0000');
+
+      const copy = wb.duplicateSheet('Data');
+
+      expect(copy.name).toBe('Data (2)');
+      expect(wb.getSheetNames()).toEqual(['Data', 'Data (2)', 'Summary']);
+      expect(formulaAt(copy, 1, 2)).toBe('=A1*Rate');
+      expect(copy.getMergedRanges()).toEqual([{ start: { row: 4, col: 1 }, end: { row: 4, col: 2 } }]);
+      expect(copy.getRowHeight(2)).toBe(30);
+      expect(copy.getTabColor()).toBe('#ff0000');
+      expect(wb.getNameManager().getName('Rate', 'Data (2)')?.refersTo).toBe("='Data (2)'!$C$1");
+
+      copy.setCellValue({ row: 1, col: 3 }, 100);
+      wb.recalculate();
+      expect(copy.getCellValue({ row: 1, col: 2 })).toBe(200);
+      expect(data.getCellValue({ row: 1, col: 2 })).toBe(20);
+      expect(wb.duplicateSheet('Data (2)').name).toBe('Data (3)');
+    });
+  });
+
+  describe('Visibility, tab colour and events', () => {
+    it('hides sheets, moving the active sheet, and keeps one visible', () => {
+      wb.setSheetVisibility('Data', 'hidden');
+      expect(wb.getSheetVisibility('Data')).toBe('hidden');
+      expect(wb.activeSheet?.name).toBe('Summary');
+      expect(() => wb.setSheetVisibility('Summary', 'veryHidden')).toThrow(/visible/);
+    });
+
+    it('emits lifecycle events', () => {
+      const events: WorkbookEvents[] = [];
+      wb.on(e => events.push(e));
+
+      wb.addSheet('Third');
+      wb.renameSheet('Third', 'Last');
+      wb.moveSheet('Last', 0);
+      wb.setTabColor('Last', 'blue');
+      wb.removeSheet('Last');
+
+      expect(events.map(e => e.type)).toEqual([
+        'sheet-added', 'sheet-renamed', 'sheet-moved', 'sheet-tab-color-changed', 'sheet-removed',
+      ]);
+      expect(events[2]).toEqual({ type: 'sheet-moved', name: 'Last', from: 2, to: 0 });
+    });
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * track-changes.test.ts
+ *
+ * ChangeTracker: recording value, formula, style and row/column edits with author
+ * and time, accepting and rejecting per change, per range and for
+ * everything, filtering the log, the Review commands, and persistence in
+ * workbook snapshots.
+ */
+
+import { Workbook } from '../src/workbook';
+import { workbookSnapshotCodec } from '../src/persistence/WorkbookSnapshotCodec';
+import { AcceptAllChangesCommand, RejectChangeCommand, ToggleTrackChangesCommand } from '../src/commands/ReviewCommands';
+import type { Worksheet } from '../src/worksheet';
+
+describe('Track changes', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    ws = wb.addSheet('Ledger');
+    ws.setCellValue({ row: 1, col: 1 }, 'Opening');
+    ws.setCellValue({ row: 2, col: 1 }, 100);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('recording', () => {
+    it('logs nothing until enabled', () => {
+      expect(wb.getChangeTracker().isEnabled).toBe(false);
+      expect(wb.getChangeTracker().getChanges()).toEqual([]);
+    });
+
+    it('logs value and style edits with author, time and both sides', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-02T09:30:00Z'));
+      const tracker = wb.getChangeTracker();
+      tracker.enable('alice');
+
+      ws.setCellValue({ row: 2, col: 1 }, 120);
+      ws.setCellStyle({ row: 2, col: 1 }, { bold: true });
+      ws.deleteCell({ row: 1, col: 1 });
+
+      expect(tracker.getChanges()).toEqual([
+        expect.objectContaining({
+          id: 'change_1', author: 'alice', timestamp: new Date('2026-03-02T09:30:00Z'), sheet: 'Ledger',
+          type: 'cellValue', address: { row: 2, col: 1 }, oldValue: 100, newValue: 120,
+        }),
+        expect.objectContaining({ type: 'cellStyle', address: { row: 2, col: 1 }, oldValue: undefined, newValue: { bold: true } }),
+        expect.objectContaining({ type: 'cellValue', address: { row: 1, col: 1 }, oldValue: 'Opening', newValue: null }),
+      ]);
+    });
+
+    it('logs row and column edits', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+
+      ws.insertRows(3, 2);
+      ws.deleteCols(2, 1);
+
+      expect(tracker.getChanges().map(c => [c.type, c.index, c.count])).toEqual([
+        ['insertRow', 3, 2],
+        ['deleteColumn', 2, 1],
+      ]);
+    });
+
+    it('logs formula entry and clearing with the previous formula', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+
+      ws.setCellFormula({ row: 2, col: 1 }, '=40+2');
+      ws.setCellFormula({ row: 3, col: 1 }, '=A2*2');
+      ws.setCellFormula({ row: 3, col: 1 }, '=A2*3');
+      ws.deleteCell({ row: 3, col: 1 });
+
+      expect(tracker.getChanges().map(c => [c.type, c.oldValue, c.newValue, c.op.op])).toEqual([
+        ['cellFormula', 100, '=40+2', 'setCellFormula'],
+        ['cellFormula', null, '=A2*2', 'setCellFormula'],
+        ['cellFormula', '=A2*2', '=A2*3', 'setCellFormula'],
+        ['cellFormula', '=A2*3', null, 'clearCell'],
+      ]);
+    });
+
+    it('does not log sheets being added or copied, and follows renames', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+
+      wb.duplicateSheet('Ledger', 'Copy');
+      wb.addSheet('Notes').setCellValue({ row: 1, col: 1 }, 'todo');
+      wb.renameSheet('Notes', 'Memo');
+
+      expect(tracker.getChanges().map(c => [c.sheet, c.newValue])).toEqual([['Memo', 'todo']]);
+    });
+  });
+
+  describe('review', () => {
+    it('rejecting restores the previous value without logging the restore', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 2, col: 1 }, 250);
+
+      expect(tracker.rejectChange('change_1')).toBe(true);
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+      expect(tracker.getChanges()).toEqual([expect.objectContaining({ id: 'change_1', rejected: true, accepted: false })]);
+      // Reviewed changes cannot be decided again
+      expect(tracker.rejectChange('change_1')).toBe(false);
+      expect(tracker.acceptChange('change_1')).toBe(false);
+    });
+
+    it('rejects everything newest first, back to the original state', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 2, col: 1 }, 110);
+      ws.setCellValue({ row: 2, col: 1 }, 130);
+      ws.setCellStyle({ row: 1, col: 1 }, { italic: true });
+
+      expect(tracker.rejectChanges()).toBe(3);
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+      expect(ws.getCellStyle({ row: 1, col: 1 })).toBeUndefined();
+      expect(tracker.getChanges({ status: 'pending' })).toEqual([]);
+    });
+
+    it('rejecting formula edits restores the previous formula or value', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellFormula({ row: 2, col: 1 }, '=40+2');
+      ws.setCellFormula({ row: 3, col: 1 }, '=A2');
+      ws.setCellFormula({ row: 3, col: 1 }, '=A2+1');
+
+      expect(tracker.rejectChange('change_3')).toBe(true);
+      expect(ws.getCell({ row: 3, col: 1 })?.formula).toBe('=A2');
+      expect(tracker.rejectChange('change_2')).toBe(true);
+      expect(ws.getCell({ row: 3, col: 1 })?.formula).toBeUndefined();
+      expect(tracker.rejectChange('change_1')).toBe(true);
+      expect(ws.getCell({ row: 2, col: 1 })?.formula).toBeUndefined();
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+      expect(tracker.getChanges({ status: 'pending' })).toEqual([]);
+    });
+
+    it('accepting keeps a formula, and rejecting its clearing brings it back', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellFormula({ row: 3, col: 1 }, '=A2*2', 200);
+      ws.deleteCell({ row: 3, col: 1 });
+
+      expect(tracker.acceptChange('change_1')).toBe(true);
+      expect(tracker.rejectChange('change_2')).toBe(true);
+      expect(ws.getCell({ row: 3, col: 1 })).toEqual(expect.objectContaining({ formula: '=A2*2', value: 200 }));
+
+      // Reopening the rejected clear removes the formula again
+      expect(tracker.reopenChange('change_2')).toBe(true);
+      expect(ws.getCell({ row: 3, col: 1 })?.formula).toBeUndefined();
+      expect(tracker.getChanges()).toHaveLength(2);
+    });
+
+    it('restores deleted rows with their contents', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.deleteRows(1, 1);
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe(100);
+
+      tracker.rejectChanges();
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe('Opening');
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+    });
+
+    it('accepts and rejects per range', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 1, col: 1 }, 'Closing');
+      ws.setCellValue({ row: 2, col: 1 }, 90);
+      ws.setCellValue({ row: 8, col: 4 }, 'note');
+      ws.insertRows(6, 1);
+
+      const range = { start: { row: 5, col: 1 }, end: { row: 10, col: 5 } };
+      expect(tracker.acceptChanges({ range })).toBe(2);
+      expect(tracker.rejectChanges({ range: { start: { row: 1, col: 1 }, end: { row: 1, col: 1 } } })).toBe(1);
+
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe('Opening');
+      expect(tracker.getChanges().map(c => [c.id, c.accepted ?? false, c.rejected ?? false])).toEqual([
+        ['change_1', false, true],
+        ['change_2', false, false],
+        ['change_3', true, false],
+        ['change_4', true, false],
+      ]);
+    });
+
+    it('rejects a cell edit where its cell moved, leaving the old address alone', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 6, col: 2 }, 'new');
+      ws.insertRows(6, 1);
+      ws.setCellValue({ row: 6, col: 2 }, 'unrelated');
+
+      expect(tracker.getChange('change_1')?.address).toEqual({ row: 7, col: 2 });
+      expect(tracker.rejectChange('change_1')).toBe(true);
+      expect(ws.getCellValue({ row: 7, col: 2 })).toBeNull();
+      expect(ws.getCellValue({ row: 6, col: 2 })).toBe('unrelated');
+    });
+
+    it('cannot reject an edit whose row was deleted', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 3, col: 1 }, 'gone');
+      ws.setCellValue({ row: 4, col: 1 }, 'kept');
+      ws.deleteRows(3, 1);
+
+      expect(tracker.getChange('change_1')?.cellDeleted).toBe(true);
+      expect(tracker.rejectChange('change_1')).toBe(false);
+      expect(tracker.rejectChange('change_2')).toBe(true);
+      expect(ws.getCellValue({ row: 3, col: 1 })).toBeNull();
+    });
+
+    it('leaves a change pending when a later edit would be overwritten', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable('alice');
+      ws.setCellValue({ row: 2, col: 1 }, 120);
+      tracker.setAuthor('bob');
+      ws.setCellValue({ row: 2, col: 1 }, 150);
+
+      expect(tracker.hasConflict('change_1')).toBe(true);
+      expect(tracker.rejectChanges({ author: 'alice' })).toBe(0);
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(150);
+      expect(tracker.getChange('change_1')?.rejected).toBeUndefined();
+
+      // Once bob's edit is rejected, alice's can be too
+      expect(tracker.rejectChanges()).toBe(2);
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+    });
+
+    it('filters the log by author and date', () => {
+      const tracker = wb.getChangeTracker();
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-01T08:00:00Z'));
+      tracker.enable('alice');
+      ws.setCellValue({ row: 3, col: 1 }, 1);
+      jest.setSystemTime(new Date('2026-03-05T08:00:00Z'));
+      tracker.setAuthor('bob');
+      ws.setCellValue({ row: 4, col: 1 }, 2);
+      ws.setCellValue({ row: 5, col: 1 }, 3);
+
+      expect(tracker.getChanges({ author: 'bob' }).map(c => c.newValue)).toEqual([2, 3]);
+      expect(tracker.getChanges({ until: new Date('2026-03-02T00:00:00Z') }).map(c => c.author)).toEqual(['alice']);
+      expect(tracker.getChanges({ author: 'alice', since: new Date('2026-03-02T00:00:00Z') })).toEqual([]);
+      expect(() => tracker.setAuthor(' ')).toThrow('Change author cannot be empty');
+    });
+
+    it('returns copies of the log', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable();
+      ws.setCellValue({ row: 2, col: 1 }, 5);
+      tracker.getChanges()[0].accepted = true;
+
+      expect(tracker.getChange('change_1')?.accepted).toBeUndefined();
+    });
+  });
+
+  describe('commands', () => {
+    it('toggles tracking and undoes review decisions', () => {
+      const toggle = new ToggleTrackChangesCommand(wb, true, 'carol');
+      toggle.execute();
+      ws.setCellValue({ row: 2, col: 1 }, 140);
+
+      const reject = new RejectChangeCommand(wb, 'change_1');
+      reject.execute();
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(100);
+      reject.undo();
+      expect(ws.getCellValue({ row: 2, col: 1 })).toBe(140);
+      expect(wb.getChangeTracker().getChanges({ status: 'pending' })).toHaveLength(1);
+
+      const acceptAll = new AcceptAllChangesCommand(wb);
+      acceptAll.execute();
+      expect(wb.getChangeTracker().getChanges({ status: 'accepted' })).toHaveLength(1);
+      acceptAll.undo();
+      expect(wb.getChangeTracker().getChanges({ status: 'pending' })).toHaveLength(1);
+
+      toggle.undo();
+      expect(wb.getChangeTracker().isEnabled).toBe(false);
+      expect(wb.getChangeTracker().getAuthor()).toBe('User');
+    });
+  });
+
+  describe('persistence', () => {
+    it('keeps the log, its state and its ids through a snapshot', () => {
+      const tracker = wb.getChangeTracker();
+      tracker.enable('alice');
+      ws.setCellValue({ row: 2, col: 1 }, 175);
+      ws.deleteRows(4, 1);
+      tracker.acceptChange('change_2');
+
+      const copy = new Workbook();
+      copy.applySnapshot(workbookSnapshotCodec.decode(workbookSnapshotCodec.encode(wb.extractSnapshot())));
+      const restored = copy.getChangeTracker();
+
+      expect(restored.isEnabled).toBe(true);
+      expect(restored.getChanges()).toEqual(tracker.getChanges());
+      expect(restored.getChanges()[0].timestamp).toBeInstanceOf(Date);
+
+      // Loading is not an edit; new edits continue the numbering
+      const sheet = copy.getSheet('Ledger')!;
+      sheet.setCellValue({ row: 3, col: 1 }, 'x');
+      expect(restored.getChanges().map(c => c.id)).toEqual(['change_1', 'change_2', 'change_3']);
+
+      restored.rejectChange('change_1');
+      expect(sheet.getCellValue({ row: 2, col: 1 })).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * formula-localization.test.ts
+ *
+ * Tests for translating formulas between canonical and localized syntax
+ */
+
+import {
+  localizeFormula,
+  delocalizeFormula,
+  localizeFunctionName,
+  delocalizeFunctionName,
+  getFormulaSyntax,
+  registerFunctionNames,
+} from '../../src/utils/formula-localization';
+import { LOCALES } from '../../src/I18nManager';
+
+describe('FormulaLocalization', () => {
+
+  describe('Formula Syntax', () => {
+
+    test('decimal-comma locales separate arguments with semicolons', () => {
+      expect(getFormulaSyntax('de-DE')).toEqual({ decimalSeparator: ',', argumentSeparator: ';', arrayColumnSeparator: '.' });
+      expect(getFormulaSyntax('fr-FR')).toEqual({ decimalSeparator: ',', argumentSeparator: ';', arrayColumnSeparator: '.' });
+    });
+
+    test('other locales use en-US syntax', () => {
+      expect(getFormulaSyntax('en-GB')).toEqual({ decimalSeparator: '.', argumentSeparator: ',', arrayColumnSeparator: ',' });
+      expect(getFormulaSyntax('ja-JP')).toEqual({ decimalSeparator: '.', argumentSeparator: ',', arrayColumnSeparator: ',' });
+      expect(getFormulaSyntax('xx-XX')).toEqual({ decimalSeparator: '.', argumentSeparator: ',', arrayColumnSeparator: ',' });
+    });
+
+    test('accepts a LocaleConfig', () => {
+      expect(getFormulaSyntax(LOCALES['es-ES']).argumentSeparator).toBe(';');
+    });
+
+  });
+
+  describe('Function Names', () => {
+
+    test('maps names both ways', () => {
+      expect(localizeFunctionName('SUM', 'de-DE')).toBe('SUMME');
+      expect(localizeFunctionName('sum', 'fr-FR')).toBe('SOMME');
+      expect(delocalizeFunctionName('SUMME', 'de-DE')).toBe('SUM');
+      expect(delocalizeFunctionName('nb.si', 'fr-FR')).toBe('COUNTIF');
+    });
+
+    test('falls back to the language table', () => {
+      expect(localizeFunctionName('IF', 'de-AT')).toBe('WENN');
+    });
+
+    test('leaves unknown names and locales alone', () => {
+      expect(localizeFunctionName('XYZ', 'de-DE')).toBe('XYZ');
+      expect(localizeFunctionName('SUM', 'en-US')).toBe('SUM');
+      expect(delocalizeFunctionName('SUM', 'de-DE')).toBe('SUM');
+    });
+
+    test('registers additional names', () => {
+      registerFunctionNames('nl', { sum: 'som' });
+      expect(localizeFunctionName('SUM', 'nl-NL')).toBe('SOM');
+      expect(delocalizeFunctionName('SOM', 'nl-NL')).toBe('SUM');
+    });
+
+  });
+
+  describe('Formulas', () => {
+
+    test('localizes names, separators and decimals', () => {
+      expect(localizeFormula('=SUM(A1,B1)', 'de-DE')).toBe('=SUMME(A1;B1)');
+      expect(localizeFormula('=IF(A1>1.5,ROUND(A1,2),0.25)', 'fr-FR')).toBe('=SI(A1>1,5;ARRONDI(A1;2);0,25)');
+      expect(localizeFormula('=SUM(A1:A3)*2.5E+3', 'es-ES')).toBe('=SUMA(A1:A3)*2,5E+3');
+    });
+
+    test('delocalizes what European users type', () => {
+      expect(delocalizeFormula('=SUMME(A1;B1)', 'de-DE')).toBe('=SUM(A1,B1)');
+      expect(delocalizeFormula('=SOMME(A1;1,5)', 'fr-FR')).toBe('=SUM(A1,1.5)');
+      expect(delocalizeFormula('=zählenwenn(A1:A9;">3")', 'de-DE')).toBe('=COUNTIF(A1:A9,">3")');
+    });
+
+    test('round-trips', () => {
+      const canonical = '=IFERROR(VLOOKUP($A$1,Sheet2!A1:C10,3,FALSE),-0.5)';
+      const german = localizeFormula(canonical, 'de-DE');
+      expect(german).toBe('=WENNFEHLER(SVERWEIS($A$1;Sheet2!A1:C10;3;FALSCH);-0,5)');
+      expect(delocalizeFormula(german, 'de-DE')).toBe(canonical);
+    });
+
+    test('translates boolean constants', () => {
+      expect(localizeFormula('=AND(TRUE,A1)', 'es-ES')).toBe('=Y(VERDADERO;A1)');
+      expect(delocalizeFormula('=WAHR', 'de-DE')).toBe('=TRUE');
+    });
+
+    test('leaves strings, sheet names and structured references untouched', () => {
+      expect(localizeFormula('=CONCATENATE("SUM(1,5)",\'My, Sheet\'!A1)', 'de-DE'))
+        .toBe('=VERKETTEN("SUM(1,5)";\'My, Sheet\'!A1)');
+      expect(localizeFormula('=SUM(Table1[[#Data],[Qty]])', 'de-DE')).toBe('=SUMME(Table1[[#Data],[Qty]])');
+    });
+
+    test('round-trips array constants with locale column and decimal separators', () => {
+      const canonical = '=SUM({1.5,2;3,4})+COUNTA({TRUE,"a,b";#N/A,-0.25})';
+      const german = localizeFormula(canonical, 'de-DE');
+      expect(german).toBe('=SUMME({1,5.2;3.4})+ANZAHL2({WAHR."a,b";#N/A.-0,25})');
+      expect(delocalizeFormula(german, 'de-DE')).toBe(canonical);
+      expect(localizeFormula('=SUM({1.5,2})', 'en-GB')).toBe('=SUM({1.5,2})');
+    });
+
+    test('keeps names that are not function calls', () => {
+      expect(localizeFormula('=SUM+Date', 'de-DE')).toBe('=SUM+Date');
+      expect(delocalizeFormula('=summe(a1)+foo(1)', 'de-DE')).toBe('=SUM(a1)+foo(1)');
+    });
+
+    test('is a no-op for en-US', () => {
+      const formula = '=SUM(A1,1.5)';
+      expect(localizeFormula(formula, 'en-US')).toBe(formula);
+      expect(delocalizeFormula(formula, 'en-US')).toBe(formula);
+    });
+
+  });
+
+});
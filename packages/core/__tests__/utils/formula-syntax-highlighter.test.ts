@@ -51,6 +51,15 @@ describe('FormulaSyntaxHighlighter', () => {
       expect(numberSegments[0].style?.color).toBe(defaultTheme.number);
     });
     
+    test('highlights formulas written in the active locale', () => {
+      const segments = highlightFormula('=SOMME(A1;2,5)', defaultTheme, 'fr-FR');
+      
+      expect(segments.find(s => s.type === 'function')?.text).toBe('SOMME');
+      expect(segments.find(s => s.type === 'comma')?.text).toBe(';');
+      expect(segments.find(s => s.type === 'number')?.text).toBe('2,5');
+      expect(segments.some(s => s.type === 'error')).toBe(false);
+    });
+    
     test('highlights strings', () => {
       const segments = highlightFormula('="Hello"');
       
@@ -406,6 +406,32 @@ describe('FormulaTokenizer', () => {
       expect(tokens[0]).toMatchObject({ type: 'number', value: '1.2' });
     });
     
+  });
+    describe('Localized Formulas', () => {
+    
+    test('reads semicolons and decimal commas in de-DE', () => {
+      const tokens = tokenizeFormula('=SUMME(A1;1,5)', { locale: 'de-DE' });
+      
+      expect(tokens).toHaveLength(6);
+      expect(tokens[0]).toMatchObject({ type: 'function', value: 'SUMME' });
+      expect(tokens[3]).toMatchObject({ type: 'comma', value: ';' });
+      expect(tokens[4]).toMatchObject({ type: 'number', value: '1,5' });
+    });
+    
+    test('reads accented function names and localized booleans', () => {
+      const tokens = tokenizeFormula('=ZÄHLENWENN(A1:A5;WAHR)', { locale: 'de-DE' });
+      
+      expect(tokens[0]).toMatchObject({ type: 'function', value: 'ZÄHLENWENN' });
+      expect(tokens[4]).toMatchObject({ type: 'boolean', value: 'WAHR' });
+    });
+    
+    test('keeps en-US behaviour by default', () => {
+      const tokens = tokenizeFormula('=SUM(1,5)');
+      
+      expect(tokens.filter(t => t.type === 'comma')).toHaveLength(1);
+      expect(tokens.filter(t => t.type === 'number').map(t => t.value)).toEqual(['1', '5']);
+    });
+    
   });
   
 });
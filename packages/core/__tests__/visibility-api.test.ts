@@ -484,7 +484,7 @@ describe('PM-7 · Hidden state does not affect storage memory', () => {
     // Cell object must NOT have a 'hidden' key
     expect('hidden' in (cell as object)).toBe(false);
     // No visibility state leaked into the cell
-    const cellKeys = Object.keys(cell as object).filter(k => k !== 'value' && k !== 'formula' && k !== 'style' && k !== 'comments' && k !== 'icon' && k !== 'spillSource' && k !== 'spilledFrom');
+    const cellKeys = Object.keys(cell as object).filter(k => k !== 'value' && k !== 'formula' && k !== 'style' && k !== 'comments' && k !== 'icon' && k !== 'spillSource' && k !== 'spilledFrom' && k !== 'hyperlink');
     expect(cellKeys).toHaveLength(0);
   });
 
@@ -0,0 +1,281 @@
+/**
+ * workbook-protection.test.ts
+ *
+ * Workbook structure protection and allow-edit ranges: salted password
+ * hashes, the structure guards on Workbook and WorkbookSDK, allow-edit
+ * ranges on the worksheet and in SpreadsheetSDK (including undo), the
+ * Review commands, and persistence in workbook snapshots.
+ */
+
+import { createHash } from 'crypto';
+import { Workbook } from '../src/workbook';
+import { workbookSnapshotCodec } from '../src/persistence/WorkbookSnapshotCodec';
+import { createPasswordHash, verifyPassword } from '../src/utils/password-hash';
+import { ProtectWorkbookCommand, RemoveAllowEditRangeCommand, SetAllowEditRangeCommand, UnprotectWorkbookCommand } from '../src/commands/ReviewCommands';
+import { createSpreadsheet, createWorkbook, ProtectedCellError, ProtectedSheetOperationError, SdkError } from '../src/sdk/index';
+import type { Worksheet } from '../src/worksheet';
+
+// A low spin count keeps hashing fast; the default is Excel's 100,000
+const hash = (password: string) => createPasswordHash(password, 1000);
+
+describe('Workbook protection', () => {
+  let wb: Workbook;
+  let ws: Worksheet;
+
+  beforeEach(() => {
+    wb = new Workbook();
+    ws = wb.addSheet('Quote');
+    wb.addSheet('Rates');
+  });
+
+  describe('password hashes', () => {
+    it('salts every hash and verifies only the right password', () => {
+      const first = hash('s3cret');
+      const second = hash('s3cret');
+
+      expect(first).toEqual(expect.objectContaining({ algorithmName: 'SHA-512', spinCount: 1000 }));
+      expect(first.saltValue).not.toBe(second.saltValue);
+      expect(first.hashValue).not.toBe(second.hashValue);
+      expect(verifyPassword('s3cret', first)).toBe(true);
+      expect(verifyPassword('S3cret', first)).toBe(false);
+      expect(verifyPassword('s3cret', { ...first, algorithmName: 'SHA-1' })).toBe(false);
+    });
+
+    it('matches the ECMA-376 spin computed with node:crypto', () => {
+      const reference = (password: string, saltValue: string, spinCount: number): string => {
+        let digest = createHash('sha512').update(Buffer.from(saltValue, 'base64')).update(Buffer.from(password, 'utf16le')).digest();
+        for (let i = 0; i < spinCount; i++) {
+          const counter = Buffer.alloc(4);
+          counter.writeUInt32LE(i);
+          digest = createHash('sha512').update(digest).update(counter).digest();
+        }
+        return digest.toString('base64');
+      };
+
+      // A long password spans several SHA-512 blocks in the first round
+      for (const [password, spinCount] of [['s3cret', 0], ['pässwörd', 1], ['x'.repeat(100), 300], ['s3cret', 100_000]] as const) {
+        const { hashValue, saltValue } = createPasswordHash(password, spinCount);
+        expect(hashValue).toBe(reference(password, saltValue, spinCount));
+      }
+    });
+
+    it('treats an empty password as none in the SDKs and commands', () => {
+      const book = createWorkbook({ sheets: ['Quote'] });
+      book.protectWorkbook({ password: '' });
+      expect(book.unprotectWorkbook('anything')).toBe(true);
+      book.dispose();
+
+      const sheet = createSpreadsheet('Quote', { rows: 5, cols: 5 });
+      sheet.addAllowEditRange('Inputs', { start: { row: 1, col: 1 }, end: { row: 1, col: 1 } }, '');
+      expect(sheet.getAllowEditRanges()[0].password).toBeUndefined();
+
+      new ProtectWorkbookCommand(wb, { password: '', protectStructure: true, protectWindows: false }).execute();
+      expect(wb.getWorkbookProtection()?.password).toBeUndefined();
+    });
+  });
+
+  describe('structure', () => {
+    it('blocks sheet add, remove, rename, move, copy and hide with a typed error', () => {
+      wb.protectWorkbook();
+
+      const blocked: Array<[string, () => unknown]> = [
+        ['addSheet', () => wb.addSheet('Notes')],
+        ['removeSheet', () => wb.removeSheet('Rates')],
+        ['renameSheet', () => wb.renameSheet('Rates', 'Prices')],
+        ['moveSheet', () => wb.moveSheet('Rates', 0)],
+        ['duplicateSheet', () => wb.duplicateSheet('Quote')],
+        ['setSheetVisibility', () => wb.setSheetVisibility('Rates', 'hidden')],
+      ];
+      for (const [operation, attempt] of blocked) {
+        expect(attempt).toThrow(ProtectedSheetOperationError);
+        expect(attempt).toThrow(expect.objectContaining({ operation, flag: 'lockStructure', code: 'SHEET_OP_BLOCKED' }));
+      }
+      expect(wb.getSheetNames()).toEqual(['Quote', 'Rates']);
+
+      // Cell edits are a sheet-protection matter
+      ws.setCellValue({ row: 1, col: 1 }, 'Total');
+      expect(ws.getCellValue({ row: 1, col: 1 })).toBe('Total');
+    });
+
+    it('leaves the structure open when only windows are locked', () => {
+      wb.protectWorkbook({ lockStructure: false, lockWindows: true });
+
+      expect(wb.isWorkbookProtected()).toBe(true);
+      expect(wb.isStructureLocked()).toBe(false);
+      expect(() => wb.addSheet('Notes')).not.toThrow();
+    });
+
+    it('unprotects only with the right password', () => {
+      const events: string[] = [];
+      wb.on(e => { if (e.type === 'workbook-protection-changed') events.push(e.after ? 'on' : 'off'); });
+      wb.protectWorkbook({ password: hash('open sesame') });
+
+      expect(wb.unprotectWorkbook()).toBe(false);
+      expect(wb.unprotectWorkbook('open')).toBe(false);
+      expect(wb.isStructureLocked()).toBe(true);
+      expect(wb.unprotectWorkbook('open sesame')).toBe(true);
+      expect(wb.isWorkbookProtected()).toBe(false);
+      expect(events).toEqual(['on', 'off']);
+      wb.addSheet('Notes');
+    });
+  });
+
+  describe('allow-edit ranges', () => {
+    const inputs = { name: 'Inputs', range: { start: { row: 2, col: 2 }, end: { row: 5, col: 3 } } };
+
+    it('opens ranges without a password and password ranges once unlocked', () => {
+      ws.addAllowEditRange(inputs);
+      ws.addAllowEditRange({ name: 'Discount', range: { start: { row: 8, col: 1 }, end: { row: 8, col: 1 } }, password: hash('manager') });
+
+      expect(ws.isInAllowEditRange({ row: 3, col: 3 })).toBe(true);
+      expect(ws.isInAllowEditRange({ row: 6, col: 3 })).toBe(false);
+      expect(ws.isInAllowEditRange({ row: 8, col: 1 })).toBe(false);
+
+      expect(ws.unlockAllowEditRange('discount', 'nope')).toBe(false);
+      expect(ws.unlockAllowEditRange('discount', 'manager')).toBe(true);
+      expect(ws.isInAllowEditRange({ row: 8, col: 1 })).toBe(true);
+    });
+
+    it('rejects empty and duplicate names', () => {
+      ws.addAllowEditRange(inputs);
+
+      expect(() => ws.addAllowEditRange({ ...inputs, name: ' ' })).toThrow('Allow-edit range name cannot be empty');
+      expect(() => ws.addAllowEditRange({ ...inputs, name: 'INPUTS' })).toThrow("Allow-edit range 'INPUTS' already exists");
+      expect(ws.removeAllowEditRange('inputs')).toBe(true);
+      expect(ws.removeAllowEditRange('inputs')).toBe(false);
+    });
+
+    it('moves and shrinks with inserted and deleted rows', () => {
+      ws.addAllowEditRange(inputs);
+      ws.insertRows(1, 2);
+      expect(ws.getAllowEditRange('Inputs')?.range).toEqual({ start: { row: 4, col: 2 }, end: { row: 7, col: 3 } });
+
+      ws.deleteCols(2, 2);
+      expect(ws.getAllowEditRanges()).toEqual([]);
+    });
+
+    it('closes an unlocked range again when its password changes', () => {
+      ws.addAllowEditRange({ ...inputs, password: hash('a') });
+      ws.unlockAllowEditRange('Inputs', 'a');
+      ws.setAllowEditRanges([{ ...inputs, password: hash('b') }]);
+
+      expect(ws.isInAllowEditRange({ row: 2, col: 2 })).toBe(false);
+    });
+  });
+
+  describe('SDK', () => {
+    it('lets locked cells in an open range be edited on a protected sheet', () => {
+      const sheet = createSpreadsheet('Quote', { rows: 20, cols: 10 });
+      sheet.addAllowEditRange('Inputs', { start: { row: 2, col: 2 }, end: { row: 4, col: 2 } });
+      sheet.addAllowEditRange('Discount', { start: { row: 6, col: 2 }, end: { row: 6, col: 2 } }, 'manager');
+      sheet.setSheetProtection();
+
+      expect(sheet.isCellProtected(3, 2)).toBe(false);
+      sheet.setCell(3, 2, 42);
+      expect(sheet.getCellValue(3, 2)).toBe(42);
+
+      expect(sheet.isCellProtected(6, 2)).toBe(true);
+      expect(() => sheet.setCell(6, 2, 0.1)).toThrow(ProtectedCellError);
+      expect(sheet.unlockAllowEditRange('Discount', 'manager')).toBe(true);
+      sheet.setCell(6, 2, 0.1);
+
+      expect(sheet.getAllowEditRanges()[1].password).toEqual(expect.objectContaining({ algorithmName: 'SHA-512' }));
+    });
+
+    it('freezes the ranges while the sheet is protected', () => {
+      const sheet = createSpreadsheet('Quote', { rows: 20, cols: 10 });
+      sheet.setSheetProtection();
+
+      expect(() => sheet.addAllowEditRange('Inputs', { start: { row: 1, col: 1 }, end: { row: 1, col: 1 } }))
+        .toThrow(expect.objectContaining({ name: 'ProtectedSheetOperationError', flag: 'sheetProtection' }));
+      expect(() => sheet.removeAllowEditRange('Inputs')).toThrow(ProtectedSheetOperationError);
+    });
+
+    it('adds and removes ranges with undo and redo', () => {
+      const sheet = createSpreadsheet('Quote', { rows: 20, cols: 10 });
+      sheet.addAllowEditRange(' Inputs ', { start: { row: 1, col: 1 }, end: { row: 2, col: 2 } });
+      expect(() => sheet.addAllowEditRange('inputs', { start: { row: 1, col: 1 }, end: { row: 1, col: 1 } }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_EDIT_RANGE' }));
+      expect(() => sheet.addAllowEditRange('Far', { start: { row: 1, col: 1 }, end: { row: 99, col: 1 } })).toThrow(SdkError);
+
+      sheet.removeAllowEditRange('INPUTS');
+      expect(sheet.getAllowEditRanges()).toEqual([]);
+      sheet.undo();
+      expect(sheet.getAllowEditRanges().map(r => r.name)).toEqual(['Inputs']);
+      sheet.undo();
+      expect(sheet.getAllowEditRanges()).toEqual([]);
+      sheet.redo();
+      expect(sheet.getAllowEditRanges()).toHaveLength(1);
+    });
+
+    it('guards WorkbookSDK sheet operations and checks the password', () => {
+      const book = createWorkbook({ sheets: ['Quote', 'Rates'] });
+      // Interned styles keep an explicit unlock
+      book.getSheet('Quote').unlockCell(2, 2);
+      expect(book.getSheet('Quote').isCellLocked(2, 2)).toBe(false);
+      book.protectWorkbook({ password: 'pw' });
+
+      expect(() => book.addSheet('Notes')).toThrow(ProtectedSheetOperationError);
+      expect(() => book.hideSheet('Rates')).toThrow(expect.objectContaining({ flag: 'lockStructure' }));
+      expect(book.canUndo).toBe(false);
+      expect(book.unprotectWorkbook('PW')).toBe(false);
+      expect(book.unprotectWorkbook('pw')).toBe(true);
+      book.addSheet('Notes');
+      expect(book.sheetNames).toEqual(['Quote', 'Rates', 'Notes']);
+      book.dispose();
+    });
+  });
+
+  describe('commands', () => {
+    it('protects and unprotects the workbook with undo', () => {
+      const protect = new ProtectWorkbookCommand(wb, { password: 'pw', protectStructure: true, protectWindows: false });
+      protect.execute();
+      expect(wb.isStructureLocked()).toBe(true);
+      expect(verifyPassword('pw', wb.getWorkbookProtection()!.password!)).toBe(true);
+
+      expect(() => new UnprotectWorkbookCommand(wb, 'wrong').execute()).toThrow('Incorrect password');
+      const unprotect = new UnprotectWorkbookCommand(wb, 'pw');
+      unprotect.execute();
+      expect(wb.isWorkbookProtected()).toBe(false);
+      unprotect.undo();
+      expect(wb.isStructureLocked()).toBe(true);
+
+      protect.undo();
+      expect(wb.isWorkbookProtected()).toBe(false);
+    });
+
+    it('adds and removes allow-edit ranges with undo', () => {
+      const add = new SetAllowEditRangeCommand(ws, 'Inputs', { start: { row: 1, col: 1 }, end: { row: 3, col: 1 } }, 'pw');
+      add.execute();
+      const remove = new RemoveAllowEditRangeCommand(ws, 'Inputs');
+      remove.execute();
+      expect(ws.getAllowEditRanges()).toEqual([]);
+
+      remove.undo();
+      expect(ws.unlockAllowEditRange('Inputs', 'pw')).toBe(true);
+      add.undo();
+      expect(ws.getAllowEditRanges()).toEqual([]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('keeps workbook protection and allow-edit ranges through a snapshot', () => {
+      ws.addAllowEditRange({ name: 'Inputs', range: { start: { row: 2, col: 2 }, end: { row: 5, col: 3 } }, password: hash('a') });
+      ws.unlockAllowEditRange('Inputs', 'a');
+      ws.protectSheet({ allowSort: true, passwordHash: hash('sheet') });
+      wb.protectWorkbook({ lockWindows: true, password: hash('book') });
+
+      const copy = new Workbook();
+      copy.applySnapshot(workbookSnapshotCodec.decode(workbookSnapshotCodec.encode(wb.extractSnapshot())));
+      const sheet = copy.getSheet('Quote')!;
+
+      expect(copy.getWorkbookProtection()).toEqual(wb.getWorkbookProtection());
+      expect(copy.isStructureLocked()).toBe(true);
+      expect(() => copy.addSheet('Notes')).toThrow(ProtectedSheetOperationError);
+      expect(sheet.getAllowEditRanges()).toEqual(ws.getAllowEditRanges());
+      expect(sheet.getSheetProtection()).toEqual(ws.getSheetProtection());
+      // Unlocking is per session and not saved
+      expect(sheet.isInAllowEditRange({ row: 2, col: 2 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * workbook-snapshot-codec.test.ts — Binary workbook container (CSWB)
+ *
+ * Test suites:
+ *  1. Header and round-trips of the plain snapshot
+ *  2. Forward compatibility (unknown sections and records)
+ *  3. Migration from CSEX worksheet buffers
+ *  4. Workbook.extractSnapshot() / applySnapshot() integration
+ */
+
+import {
+  WorkbookSnapshotCodec,
+  workbookSnapshotCodec,
+  WORKBOOK_FORMAT_VERSION,
+  upgradeWorksheetSnapshot,
+} from '../src/persistence/WorkbookSnapshotCodec';
+import { snapshotCodec, crc32 } from '../src/persistence/SnapshotCodec';
+import { Workbook } from '../src/workbook';
+import { Worksheet } from '../src/worksheet';
+import { FormulaEngine } from '../src/FormulaEngine';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A two-sheet workbook with every kind of persisted state set. */
+function buildWorkbook(): Workbook {
+  const wb = new Workbook();
+  wb.setFormulaEngine(new FormulaEngine() as any);
+  const data = wb.addSheet('Data');
+  const summary = wb.addSheet('Summary');
+
+  data.setCellValue({ row: 1, col: 1 }, 'Region');
+  data.setCellValue({ row: 2, col: 1 }, 10);
+  data.setCellValue({ row: 3, col: 1 }, 32);
+  data.setCellFormula({ row: 4, col: 1 }, '=SUM(A2:A3)');
+  summary.setCellFormula({ row: 1, col: 1 }, '=Data!A4*2');
+  wb.getNameManager().addName('Total', '=Data!$A$4');
+  summary.setCellFormula({ row: 2, col: 1 }, '=Total+1');
+  wb.recalculate();
+
+  data.addConditionalFormattingRule({
+    type: 'value', operator: '>', value: 20, style: { fill: '#FFC7CE' },
+    ranges: [{ start: { row: 2, col: 1 }, end: { row: 3, col: 1 } }],
+  } as any);
+  data.setDataValidation({ row: 2, col: 2 }, { type: 'list', formula1: 'North,South', showDropdown: true });
+  data.setAutoFilterRange(1, 1, 2);
+  data.setColumnFilter(1, { type: 'gt', value: 5 });
+  data.protectSheet({ allowFormatCells: true });
+  data.setFreezePanes(1, 0);
+  data.setColumnWidth(1, 140);
+  data.setRowHeight(1, 32);
+  data.getDrawingLayer().addObject({
+    id: 'pic1', type: 'picture', x: 10, y: 20, width: 100, height: 50, zIndex: 0,
+  } as any);
+  summary.setTabColor('#00B050');
+  wb.setSheetVisibility('Summary', 'hidden');
+  wb.setCalculationSettings({ iterative: true, maxIterations: 40 });
+  return wb;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Binary structure and round-trips
+// ---------------------------------------------------------------------------
+
+describe('WorkbookSnapshotCodec — binary structure', () => {
+  it('writes a CSWB header with the current version', () => {
+    const buf = workbookSnapshotCodec.encode(new Workbook().extractSnapshot());
+    expect(Array.from(buf.subarray(0, 4))).toEqual([0x43, 0x53, 0x57, 0x42]);
+    const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    expect(view.getUint16(4, true)).toBe(WORKBOOK_FORMAT_VERSION);
+  });
+
+  it('round-trips every section of the plain snapshot', () => {
+    const snapshot = buildWorkbook().extractSnapshot();
+    const decoded = new WorkbookSnapshotCodec().decode(workbookSnapshotCodec.encode(snapshot));
+    expect(decoded).toEqual(snapshot);
+  });
+
+  it('rejects unknown magic, newer versions and corrupted buffers', () => {
+    expect(() => workbookSnapshotCodec.decode(new Uint8Array(16))).toThrow(/magic/);
+
+    const buf = workbookSnapshotCodec.encode(new Workbook().extractSnapshot());
+    const newer = buf.slice();
+    new DataView(newer.buffer).setUint16(4, WORKBOOK_FORMAT_VERSION + 1, true);
+    expect(() => workbookSnapshotCodec.decode(newer)).toThrow(/unsupported format version/);
+
+    const corrupt = buf.slice();
+    corrupt[corrupt.length - 2] ^= 0xFF;
+    expect(() => workbookSnapshotCodec.decode(corrupt)).toThrow(/checksum mismatch/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Forward compatibility
+// ---------------------------------------------------------------------------
+
+describe('WorkbookSnapshotCodec — unknown sections', () => {
+  /** Re-sign a buffer after editing it, as a newer writer would have. */
+  function resign(buf: Uint8Array): Uint8Array {
+    const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    view.setUint32(8, 0, true);
+    view.setUint32(8, crc32(buf), true);
+    return buf;
+  }
+
+  it('skips workbook sections it does not know', () => {
+    const snapshot = buildWorkbook().extractSnapshot();
+    const buf = workbookSnapshotCodec.encode(snapshot).slice();
+    // Retag the NAMES section (first entry after the two sheets) as 0x7F00
+    new DataView(buf.buffer).setUint16(16 + 2 * 12, 0x7F00, true);
+
+    const decoded = workbookSnapshotCodec.decode(resign(buf));
+    expect(decoded.names).toEqual([]);
+    expect(decoded.sheets.map(s => s.name)).toEqual(['Data', 'Summary']);
+  });
+
+  it('skips sheet records it does not know and keeps later ones', () => {
+    const snapshot = buildWorkbook().extractSnapshot();
+    const buf = workbookSnapshotCodec.encode(snapshot).slice();
+    const view = new DataView(buf.buffer);
+    // Walk to the first record of the first SHEET section and retag it
+    const sheetOffset = view.getUint32(16 + 4, true);
+    const nameLength = view.getUint32(sheetOffset, true);
+    const firstRecord = sheetOffset + 4 + nameLength + 4 + 4 + 2;
+    view.setUint16(firstRecord + view.getUint32(firstRecord + 2, true) + 6, 0x7F01, true);
+
+    const decoded = workbookSnapshotCodec.decode(resign(buf));
+    expect(decoded.sheets[0].conditionalFormats).toEqual([]);
+    expect(decoded.sheets[0].validations).toEqual(snapshot.sheets[0].validations);
+    expect(decoded.sheets[0].content.cells).toHaveLength(snapshot.sheets[0].content.cells.length);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Migration from CSEX
+// ---------------------------------------------------------------------------
+
+describe('WorkbookSnapshotCodec — CSEX migration', () => {
+  it('decodes a CSEX worksheet buffer as a one-sheet workbook', () => {
+    const ws = new Worksheet('Legacy');
+    ws.setCellValue({ row: 1, col: 1 }, 'kept');
+    ws.mergeCells({ start: { row: 2, col: 1 }, end: { row: 2, col: 3 } });
+
+    const decoded = workbookSnapshotCodec.decode(snapshotCodec.encode(ws.extractSnapshot()), 'Imported');
+    expect(decoded.version).toBe(WORKBOOK_FORMAT_VERSION);
+    expect(decoded.activeSheet).toBe('Imported');
+    expect(decoded.sheets).toHaveLength(1);
+    expect(decoded.sheets[0].content.cells[0].cell.value).toBe('kept');
+    expect(decoded.sheets[0].content.merges).toHaveLength(1);
+    expect(decoded.sheets[0].conditionalFormats).toEqual([]);
+  });
+
+  it('upgradeWorksheetSnapshot defaults the sheet name', () => {
+    const upgraded = upgradeWorksheetSnapshot(new Worksheet('x').extractSnapshot());
+    expect(upgraded.sheets[0].name).toBe('Sheet1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Workbook integration
+// ---------------------------------------------------------------------------
+
+describe('Workbook — extractSnapshot / applySnapshot', () => {
+  function reload(source: Workbook): Workbook {
+    const target = new Workbook();
+    target.setFormulaEngine(new FormulaEngine() as any);
+    target.addSheet('Scratch');
+    target.applySnapshot(workbookSnapshotCodec.decode(workbookSnapshotCodec.encode(source.extractSnapshot())));
+    return target;
+  }
+
+  it('restores sheets in tab order with their cells and the active sheet', () => {
+    const wb = reload(buildWorkbook());
+    expect(wb.getSheetNames()).toEqual(['Data', 'Summary']);
+    expect(wb.activeSheet?.name).toBe('Data');
+    expect(wb.getSheet('Data')!.getCellValue({ row: 4, col: 1 })).toBe(42);
+    expect(wb.getSheet('Summary')!.getCellValue({ row: 1, col: 1 })).toBe(84);
+  });
+
+  it('restores conditional formatting, validation, filters and protection', () => {
+    const data = reload(buildWorkbook()).getSheet('Data')!;
+    expect(data.getConditionalFormattingRules()).toHaveLength(1);
+    expect(data.getDataValidation({ row: 2, col: 2 })).toMatchObject({ type: 'list', formula1: 'North,South' });
+    expect(data.getAutoFilterRange()).toEqual({ headerRow: 1, startCol: 1, endCol: 2 });
+    expect(data.getColumnFilter(1)).toEqual({ type: 'gt', value: 5 });
+    expect(data.getSheetProtection()).toEqual({ allowFormatCells: true });
+  });
+
+  it('restores view settings, sizes and drawings', () => {
+    const wb = reload(buildWorkbook());
+    const data = wb.getSheet('Data')!;
+    expect(data.getFreezePanes()).toEqual({ rows: 1, cols: 0 });
+    expect(data.getColumnWidth(1)).toBe(140);
+    expect(data.getRowHeight(1)).toBe(32);
+    expect(data.getDrawingLayer().getObject('pic1')).toMatchObject({ x: 10, y: 20 });
+    expect(wb.getSheetVisibility('Summary')).toBe('hidden');
+    expect(wb.getTabColor('Summary')).toBe('#00B050');
+  });
+
+  it('restores defined names and calculation settings', () => {
+    const wb = reload(buildWorkbook());
+    expect(wb.getNameManager().getName('Total')?.refersTo).toBe('=Data!$A$4');
+    expect(wb.getCalculationSettings()).toMatchObject({ iterative: true, maxIterations: 40 });
+  });
+
+  it('re-links cross-sheet and name dependencies', () => {
+    const wb = reload(buildWorkbook());
+    wb.getSheet('Data')!.setCellValue({ row: 2, col: 1 }, 100);
+    wb.recalculate();
+    expect(wb.getSheet('Summary')!.getCellValue({ row: 1, col: 1 })).toBe(264);
+    expect(wb.getSheet('Summary')!.getCellValue({ row: 2, col: 1 })).toBe(133);
+  });
+
+  it('restores pivot definitions and anchors', () => {
+    const source = buildWorkbook();
+    const pivotId = source.createPivot('Sales', 'Data', {
+      rows: [{ column: 1, label: 'Region' }],
+      columns: [],
+      values: [{ column: 1, aggregation: 'sum', label: 'Total' }],
+      sourceRange: { start: { row: 1, col: 1 }, end: { row: 3, col: 1 } },
+    } as any);
+    source.setPivotAnchor(pivotId, { row: 1, col: 5 }, 'Data');
+
+    const wb = reload(source);
+    const [pivot] = wb.getPivotRegistry().list();
+    expect(pivot.name).toBe('Sales');
+    expect(wb.resolvePivotAt({ row: 1, col: 5 }, 'Data')).toBe(pivot.id);
+  });
+
+  it('announces the replaced and restored sheets', () => {
+    const target = new Workbook();
+    target.addSheet('Scratch');
+    const events: string[] = [];
+    target.on(e => events.push(`${e.type}:${e.type === 'active-sheet-changed' ? e.after : 'name' in e ? e.name : ''}`));
+
+    target.applySnapshot(buildWorkbook().extractSnapshot());
+    expect(events).toEqual([
+      'sheet-removed:Scratch',
+      'sheet-added:Data',
+      'sheet-added:Summary',
+      'active-sheet-changed:Data',
+    ]);
+  });
+});
@@ -6,6 +6,9 @@
  *  1. EngineWorkerProtocol  — helper utilities (getRequestTransferList, etc.)
  *  2. EngineWorkerHost      — synchronous handleMessage() dispatch
  *  3. WorkerEngineProxy     — async Promise-based API via MockWorker
+ *  4. End-to-end pipeline   — CRC integrity across the boundary
+ *  5. SpreadsheetSDK parity — `sdk` calls, formulas, styles, search, CF
+ *  6. Change-event streaming
  *
  * No real Worker is spawned.  MockWorker synchronously routes proxy
  * postMessage calls to EngineWorkerHost.handleMessage() and immediately
@@ -15,6 +18,7 @@
 import { EngineWorkerHost } from '../src/worker/EngineWorkerHost';
 import {
   WorkerEngineProxy,
+  WorkerOperationError,
   type IWorkerLike,
 } from '../src/worker/WorkerEngineProxy';
 import {
@@ -25,6 +29,7 @@ import {
 } from '../src/worker/EngineWorkerProtocol';
 import { snapshotCodec } from '../src/persistence/SnapshotCodec';
 import type { Address } from '../src/types';
+import type { SdkEvent } from '../src/sdk/SpreadsheetSDK';
 
 // ---------------------------------------------------------------------------
 // MockWorker — synchronously bridges proxy ↔ host
@@ -45,6 +50,13 @@ class MockWorker implements IWorkerLike {
 
   constructor(host: EngineWorkerHost) {
     this.host = host;
+    // Event batches go out ahead of the response, as install() does.
+    host.setEventSink(batch => this.deliver(batch));
+  }
+
+  private deliver(data: unknown): void {
+    const event = new MessageEvent('message', { data });
+    for (const h of this.handlers) h(event);
   }
 
   postMessage(data: unknown, _transferList?: Transferable[]): void {
@@ -52,8 +64,7 @@ class MockWorker implements IWorkerLike {
     const req = data as EngineRequest;
     const { response } = this.host.handleMessage(req);
     // Deliver the response synchronously to all registered listeners.
-    const event = new MessageEvent('message', { data: response });
-    for (const h of this.handlers) h(event);
+    this.deliver(response);
   }
 
   addEventListener(_event: 'message', handler: (ev: MessageEvent) => void): void {
@@ -454,3 +465,175 @@ describe('End-to-end pipeline — CRC integrity across Worker boundary', () => {
     expect(() => snapshotCodec.decode(new Uint8Array(buf))).toThrow(/checksum mismatch/i);
   });
 });
+
+// ---------------------------------------------------------------------------
+// 5. SpreadsheetSDK parity
+// ---------------------------------------------------------------------------
+
+describe('WorkerEngineProxy — SpreadsheetSDK parity', () => {
+
+  it('forwards SDK calls and shares the SDK undo history', async () => {
+    const { proxy } = makeEngine('Data');
+    await proxy.sheet.setCell(1, 1, 'before');
+    await proxy.sheet.setCell(1, 1, 'after');
+    expect(await proxy.sheet.getCellValue(1, 1)).toBe('after');
+    expect(await proxy.getSheetInfo()).toMatchObject({ name: 'Data', canUndo: true, canRedo: false });
+
+    await proxy.sheet.undo();
+    expect(await proxy.sheet.getCellValue(1, 1)).toBe('before');
+    expect((await proxy.getSheetInfo()).canRedo).toBe(true);
+  });
+
+  it('sorts and filters on the worker', async () => {
+    const { proxy } = makeEngine();
+    await proxy.sheet.setCell(1, 1, 3);
+    await proxy.sheet.setCell(2, 1, 1);
+    await proxy.sheet.setCell(3, 1, 2);
+    await proxy.sheet.sortRange({ start: addr(1, 1), end: addr(3, 1) }, [{ col: 1, dir: 'asc' }]);
+    expect(await proxy.getCellValue(1, 1)).toBe(1);
+    expect(await proxy.sheet.getDistinctValues(1)).toEqual(expect.arrayContaining([{ value: '3', count: 1 }]));
+  });
+
+  it('rejects with the SDK error code', async () => {
+    const { proxy } = makeEngine();
+    const err = await proxy.sheet.setCell(-1, 1, 'x').catch(e => e);
+    expect(err).toBeInstanceOf(WorkerOperationError);
+    expect(err).toMatchObject({ operation: 'sdk', code: 'OUT_OF_BOUNDS' });
+    expect(err.message).toMatch(/^\[Worker:sdk\] /);
+  });
+
+  it('reports transaction error codes', async () => {
+    const { proxy } = makeEngine();
+    const err = await proxy.commitTransaction().catch(e => e);
+    expect(err).toMatchObject({ code: 'NOT_OPEN' });
+  });
+
+  it('refuses methods outside the SDK surface', () => {
+    const host = new EngineWorkerHost();
+    const { response } = host.handleMessage({
+      id: 1, type: 'sdk', payload: { method: 'dispose', args: [] } as never,
+    });
+    expect(response.ok).toBe(false);
+  });
+
+  it('evaluates formulas on recalc', async () => {
+    const { proxy } = makeEngine();
+    await proxy.setCellValue(1, 1, 4);
+    await proxy.setCellFormula(1, 2, '=A1*10');
+    expect(await proxy.hasPendingEvaluation()).toBe(true);
+    await proxy.recalc();
+    expect(await proxy.getCellValue(1, 2)).toBe(40);
+
+    await proxy.beginTransaction();
+    await proxy.setCellValue(1, 1, 5);
+    await proxy.commitTransaction();
+    expect(await proxy.getCellValue(1, 2)).toBe(50);
+  });
+
+  it('reads and writes cell styles', async () => {
+    const { proxy } = makeEngine();
+    await proxy.setCellStyle(2, 2, { bold: true });
+    expect(await proxy.getCellStyle(2, 2)).toMatchObject({ bold: true });
+    await proxy.setCellStyle(2, 2, undefined);
+    expect(await proxy.getCellStyle(2, 2)).toBeUndefined();
+  });
+
+  it('finds cells by value', async () => {
+    const { proxy } = makeEngine();
+    await proxy.setCellValue(1, 0, 'Apple');
+    await proxy.setCellValue(4, 2, 'apple pie');
+    expect(await proxy.find({ what: 'apple' })).toEqual(addr(1, 0));
+    expect(await proxy.findAll({ what: 'apple' })).toEqual([addr(1, 0), addr(4, 2)]);
+    expect(await proxy.find({ what: 'pear' })).toBeNull();
+  });
+
+  it('evaluates conditional formats over a range', async () => {
+    const host = new EngineWorkerHost();
+    const proxy = new WorkerEngineProxy(new MockWorker(host));
+    await proxy.setCellValue(0, 0, 5);
+    await proxy.setCellValue(1, 0, 50);
+    (host as unknown as { ws: { addConditionalFormattingRule(r: unknown): void } }).ws.addConditionalFormattingRule({
+      id: 'big', type: 'value', operator: '>', value: 10, style: { fillColor: '#FFC7CE' },
+      ranges: [{ start: addr(0, 0), end: addr(5, 0) }],
+    });
+
+    const cells = await proxy.evaluateConditionalFormats({ start: addr(0, 0), end: addr(5, 1) });
+    expect(cells).toEqual([
+      { row: 1, col: 0, result: expect.objectContaining({ appliedRuleIds: ['big'] }) },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 6. Change-event streaming
+// ---------------------------------------------------------------------------
+
+describe('WorkerEngineProxy — change events', () => {
+
+  it('streams one de-duplicated batch per request, before its response', async () => {
+    const { proxy } = makeEngine();
+    const batches: SdkEvent[][] = [];
+    await proxy.subscribe(events => batches.push(events));
+
+    const patch = { seq: 0, ops: [
+      { op: 'setCellValue' as const, row: 1, col: 1, before: null, after: 1 },
+      { op: 'setCellValue' as const, row: 1, col: 1, before: 1, after: 2 },
+      { op: 'setCellValue' as const, row: 2, col: 1, before: null, after: 3 },
+    ] };
+    let batchesAtResponse = -1;
+    await proxy.applyPatch(patch).then(() => { batchesAtResponse = batches.length; });
+
+    expect(batchesAtResponse).toBe(1);
+    expect(batches[0]).toEqual([
+      { type: 'cell-changed', row: 1, col: 1 },
+      { type: 'structure-changed' },
+      { type: 'cell-changed', row: 2, col: 1 },
+    ]);
+  });
+
+  it('filters by event type and announces recalculated values', async () => {
+    const { proxy } = makeEngine();
+    await proxy.setCellValue(0, 0, 1);
+    await proxy.setCellFormula(0, 1, '=A1+1');
+    const batches: SdkEvent[][] = [];
+    await proxy.subscribe(events => batches.push(events), ['structure-changed']);
+
+    await proxy.setCellStyle(0, 0, { italic: true });
+    expect(batches).toEqual([]);
+    await proxy.recalc();
+    expect(batches).toEqual([[{ type: 'structure-changed' }]]);
+  });
+
+  it('stops streaming once the last listener is disposed', async () => {
+    const { host, proxy } = makeEngine();
+    const a = jest.fn();
+    const b = jest.fn();
+    const subA = await proxy.subscribe(a);
+    const subB = await proxy.subscribe(b);
+
+    await proxy.setCellValue(1, 1, 'x');
+    expect(a).toHaveBeenCalledTimes(1);
+    expect(b).toHaveBeenCalledTimes(1);
+
+    subA.dispose();
+    subB.dispose();
+    await proxy.ping();
+    const sink = jest.fn();
+    host.setEventSink(sink);
+    host.handleMessage({ id: 99, type: 'setCellValue', payload: { row: 2, col: 2, value: 'y' } });
+    expect(sink).not.toHaveBeenCalled();
+  });
+
+  it('keeps the subscription across reset', async () => {
+    const { proxy } = makeEngine();
+    const batches: SdkEvent[][] = [];
+    await proxy.subscribe(events => batches.push(events));
+
+    await proxy.reset();
+    await proxy.sheet.setCell(1, 1, 'fresh');
+    expect(batches).toEqual([
+      [{ type: 'structure-changed' }],
+      [{ type: 'cell-changed', row: 1, col: 1 }, { type: 'structure-changed' }],
+    ]);
+  });
+});
@@ -4,6 +4,8 @@
  * Controls calculation mode and recalculation triggers for formulas.
  */
 
+import type { RecalcIterationPolicy } from './dag/DependencyGraph';
+
 // ─── Simple event emitter ───────────────────────────────────────────────────
 
 class EventEmitter {
@@ -27,8 +29,44 @@ class EventEmitter {
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
+/**
+ * When formulas recalculate. There are no data tables yet, so
+ * 'automaticExceptTables' behaves like 'automatic'.
+ */
 export type CalculationMode = 'automatic' | 'automaticExceptTables' | 'manual';
 
+/**
+ * Workbook-level calculation settings (Excel: Options › Formulas)
+ */
+export interface CalculationSettings {
+  mode: CalculationMode;
+  /** Resolve circular references by iterating instead of reporting them */
+  iterative: boolean;
+  /** Most passes over a circular reference per recalculation */
+  maxIterations: number;
+  /** Iteration stops once no value moves by more than this */
+  maxChange: number;
+}
+
+export const DEFAULT_CALCULATION_SETTINGS: Readonly<CalculationSettings> = {
+  mode: 'automatic',
+  iterative: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+};
+
+export type CalculationScope = 'all' | 'sheet';
+
+/**
+ * What a CalculationController recalculates (the Workbook in practice)
+ */
+export interface CalculationTarget {
+  /** Evaluate dirty formulas now; returns the number of cells evaluated */
+  calculate(scope: CalculationScope, sheetName?: string): number;
+  /** Whether any formula is still waiting to be evaluated */
+  hasDirtyCells(): boolean;
+}
+
 export interface CalculationState {
   mode: CalculationMode;
   calculating: boolean;
@@ -39,19 +77,26 @@ export interface CalculationState {
 
 type CalculationEvent =
   | 'modeChanged'
+  | 'settingsChanged'
   | 'calculationStarted'
   | 'calculationCompleted'
   | 'needsRecalcChanged';
 
 /**
  * CalculationController manages calculation mode and triggers.
- * Works with FormulaEngine to control when formulas are recalculated.
+ * A Workbook owns one and consults it before every automatic recalculation;
+ * in manual mode edits only mark cells dirty until calculateNow().
  */
 export class CalculationController {
   private state: CalculationState;
+  private iteration: Omit<CalculationSettings, 'mode'> = {
+    iterative: DEFAULT_CALCULATION_SETTINGS.iterative,
+    maxIterations: DEFAULT_CALCULATION_SETTINGS.maxIterations,
+    maxChange: DEFAULT_CALCULATION_SETTINGS.maxChange,
+  };
   private eventEmitter: EventEmitter = new EventEmitter();
 
-  constructor() {
+  constructor(private readonly target?: CalculationTarget) {
     this.state = {
       mode: 'automatic',
       calculating: false,
@@ -66,6 +111,13 @@ export class CalculationController {
     return this.state.mode;
   }
 
+  /**
+   * Whether edits recalculate immediately (any mode except manual)
+   */
+  isAutomatic(): boolean {
+    return this.state.mode !== 'manual';
+  }
+
   /**
    * Set calculation mode
    */
@@ -74,13 +126,51 @@ export class CalculationController {
       this.state.mode = mode;
       this.eventEmitter.emit('modeChanged', mode);
       
-      // If switching to automatic, trigger recalc if needed
-      if (mode === 'automatic' && this.state.needsRecalc) {
+      // If leaving manual mode, catch up on the edits made meanwhile
+      if (this.isAutomatic() && this.state.needsRecalc) {
         this.triggerRecalculation('all');
       }
     }
   }
 
+  /**
+   * Get calculation settings
+   */
+  getSettings(): CalculationSettings {
+    return { mode: this.state.mode, ...this.iteration };
+  }
+
+  /**
+   * Update calculation settings; omitted fields keep their current value
+   */
+  setSettings(settings: Partial<CalculationSettings>): void {
+    const { mode, ...iteration } = settings;
+    const next = { ...this.iteration, ...iteration };
+
+    if (!Number.isInteger(next.maxIterations) || next.maxIterations < 1) {
+      throw new Error(`maxIterations must be a positive integer, got ${next.maxIterations}`);
+    }
+    if (!(next.maxChange >= 0)) {
+      throw new Error(`maxChange must be zero or positive, got ${next.maxChange}`);
+    }
+
+    this.iteration = next;
+    this.eventEmitter.emit('settingsChanged', this.getSettings());
+    if (mode !== undefined) this.setMode(mode);
+  }
+
+  /**
+   * Iteration policy for circular references, or null when iteration is off
+   */
+  getIterationPolicy(): RecalcIterationPolicy | null {
+    if (!this.iteration.iterative) return null;
+    return {
+      maxIterations: this.iteration.maxIterations,
+      tolerance: this.iteration.maxChange,
+      algorithm: 'gauss-seidel',
+    };
+  }
+
   /**
    * Mark that formulas need recalculation
    */
@@ -90,7 +180,7 @@ export class CalculationController {
       this.eventEmitter.emit('needsRecalcChanged', true);
       
       // If in automatic mode, trigger recalc immediately
-      if (this.state.mode === 'automatic') {
+      if (this.isAutomatic()) {
         this.triggerRecalculation('all');
       }
     }
@@ -98,44 +188,53 @@ export class CalculationController {
 
   /**
    * Trigger recalculation
+   *
+   * @returns Number of cells evaluated
    */
-  triggerRecalculation(scope: 'all' | 'sheet'): void {
+  triggerRecalculation(scope: CalculationScope, sheetName?: string): number {
     if (this.state.calculating) {
       console.warn('Calculation already in progress');
-      return;
+      return 0;
     }
 
     this.state.calculating = true;
     this.eventEmitter.emit('calculationStarted', scope);
 
     const startTime = performance.now();
+    let evaluated = 0;
 
-    // Simulate calculation (in real implementation, this would call FormulaEngine)
-    setTimeout(() => {
+    try {
+      evaluated = this.target?.calculate(scope, sheetName) ?? 0;
+    } finally {
       const duration = performance.now() - startTime;
-      
+      const wasPending = this.state.needsRecalc;
+
       this.state.calculating = false;
-      this.state.needsRecalc = false;
+      this.state.needsRecalc = this.target?.hasDirtyCells() ?? false;
       this.state.lastRecalcTime = Date.now();
       this.state.lastRecalcDuration = duration;
-      
-      this.eventEmitter.emit('calculationCompleted', { scope, duration });
-      this.eventEmitter.emit('needsRecalcChanged', false);
-    }, 10); // Simulate calculation time
+
+      this.eventEmitter.emit('calculationCompleted', { scope, duration, evaluated });
+      if (wasPending !== this.state.needsRecalc) {
+        this.eventEmitter.emit('needsRecalcChanged', this.state.needsRecalc);
+      }
+    }
+
+    return evaluated;
   }
 
   /**
-   * Calculate all formulas in all workbooks (F9)
+   * Calculate all formulas in all sheets (F9)
    */
-  calculateNow(): void {
-    this.triggerRecalculation('all');
+  calculateNow(): number {
+    return this.triggerRecalculation('all');
   }
 
   /**
-   * Calculate only the active sheet (Shift+F9)
+   * Calculate only one sheet, the active one by default (Shift+F9)
    */
-  calculateSheet(): void {
-    this.triggerRecalculation('sheet');
+  calculateSheet(sheetName?: string): number {
+    return this.triggerRecalculation('sheet', sheetName);
   }
 
   /**
@@ -176,14 +275,14 @@ export class CalculationController {
   /**
    * Serialize calculation settings
    */
-  serialize(): { mode: CalculationMode } {
-    return { mode: this.state.mode };
+  serialize(): CalculationSettings {
+    return this.getSettings();
   }
 
   /**
-   * Deserialize calculation settings
+   * Deserialize calculation settings (older data carries only `mode`)
    */
-  deserialize(data: { mode: CalculationMode }): void {
-    this.setMode(data.mode);
+  deserialize(data: Partial<CalculationSettings>): void {
+    this.setSettings(data);
   }
 }
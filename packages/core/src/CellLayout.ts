@@ -111,7 +111,7 @@ export class MockTextMeasurer implements TextMeasurer {
  * 
  * Pure function: No side effects, no mutations
  * 
- * @param valign - Vertical alignment ('top' | 'middle' | 'bottom')
+ * @param valign - Vertical alignment ('justify' and 'distributed' lay out as 'bottom')
  * @param cellHeight - Cell height in pixels
  * @param contentHeight - Content height in pixels (after wrap/rotation)
  * @param fontSize - Font size for baseline adjustment
@@ -120,7 +120,7 @@ export class MockTextMeasurer implements TextMeasurer {
  * @returns Vertical offset from cell top in pixels
  */
 export function computeVerticalOffset(
-  valign: 'top' | 'middle' | 'bottom' | undefined,
+  valign: 'top' | 'middle' | 'bottom' | 'justify' | 'distributed' | undefined,
   cellHeight: number,
   contentHeight: number,
   fontSize: number,
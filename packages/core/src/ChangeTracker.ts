@@ -0,0 +1,444 @@
+/**
+ * ChangeTracker.ts
+ *
+ * Track changes for a workbook: while enabled, every value, formula, style
+ * and row/column edit made on any sheet is logged with its author and time.
+ * Each logged change keeps the edit as a WorksheetPatch op, so accepting a
+ * change just marks it reviewed and rejecting one applies the inverse op.
+ *
+ * Logged changes follow their cells when rows or columns are inserted or
+ * deleted, and a change is only rejected while its cell still holds what the
+ * change wrote: a later edit to the same cell is never overwritten.
+ * Entering or clearing a formula is tracked with the cell's previous formula;
+ * recalculated results and spilled values are not edits and are not tracked.
+ */
+
+import type { Address, CellStyle, ExtendedCellValue, Range, SheetEvents } from './types';
+import type { Workbook } from './workbook';
+import type { Worksheet } from './worksheet';
+import type { Disposable } from './events';
+import { applyPatch, invertPatch, PatchOps, type PatchOp } from './patch/WorksheetPatch';
+import {
+  InsertRowsTransform, DeleteRowsTransform, InsertColumnsTransform, DeleteColumnsTransform,
+  type BandTransform,
+} from './dag/AddressTransform';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type TrackedChangeType = 'cellValue' | 'cellFormula' | 'cellStyle' | 'insertRow' | 'deleteRow' | 'insertColumn' | 'deleteColumn';
+
+export interface TrackedChange {
+  id: string;
+  author: string;
+  timestamp: Date;
+  type: TrackedChangeType;
+  /** Name of the sheet the edit was made on. */
+  sheet: string;
+  /** The edited cell, for cell changes. */
+  address?: Address;
+  /** First row or column and how many, for structural changes. */
+  index?: number;
+  count?: number;
+  oldValue?: any;
+  newValue?: any;
+  accepted?: boolean;
+  rejected?: boolean;
+  /** Set once the edited cell's row or column is deleted; the change can no longer be rejected. */
+  cellDeleted?: boolean;
+  /** The edit as a patch op; rejecting the change applies its inverse. */
+  op: PatchOp;
+}
+
+export type TrackedChangeStatus = 'pending' | 'accepted' | 'rejected';
+
+/** Criteria for listing, accepting or rejecting changes. Every given field must match. */
+export interface TrackedChangeFilter {
+  author?: string;
+  /** Made at or after this time. */
+  since?: Date;
+  /** Made at or before this time. */
+  until?: Date;
+  sheet?: string;
+  /** Cell changes inside the range, and row/column changes overlapping it. */
+  range?: Range;
+  status?: TrackedChangeStatus;
+}
+
+/** Persisted form of the tracker (see WorkbookSnapshot). */
+export type TrackChangesSnapshot = {
+  enabled: boolean;
+  author: string;
+  changes: TrackedChange[];
+};
+
+/** Author recorded until one is set. */
+export const DEFAULT_CHANGE_AUTHOR = 'User';
+
+// ─── ChangeTracker ──────────────────────────────────────────────────────────
+
+export class ChangeTracker {
+  private enabled = false;
+  private author = DEFAULT_CHANGE_AUTHOR;
+  private changes: TrackedChange[] = [];
+  private nextId = 1;
+  /** Set while accept/reject replays ops, so the replay is not logged again. */
+  private replaying = false;
+  private readonly sheetListeners = new Map<Worksheet, Disposable>();
+
+  constructor(private readonly workbook: Workbook) {
+    // Sheets are observed once their contents are in place, so loading or
+    // copying a sheet is never logged as edits
+    workbook.on(e => {
+      if (e.type === 'sheet-added') {
+        const ws = workbook.getSheet(e.name);
+        if (ws) this.observe(ws);
+      } else if (e.type === 'sheet-removed') {
+        this.sheetListeners.get(e.removed.sheet)?.dispose();
+        this.sheetListeners.delete(e.removed.sheet);
+      } else if (e.type === 'sheet-renamed') {
+        for (const change of this.changes) {
+          if (change.sheet === e.from) change.sheet = e.to;
+        }
+      }
+    });
+  }
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Start logging edits, attributed to `author` (or the current author). */
+  enable(author?: string): void {
+    if (author !== undefined) this.setAuthor(author);
+    this.enabled = true;
+  }
+
+  /** Stop logging edits. Logged changes stay reviewable. */
+  disable(): void {
+    this.enabled = false;
+  }
+
+  getAuthor(): string {
+    return this.author;
+  }
+
+  /** Name recorded on subsequent changes. */
+  setAuthor(author: string): void {
+    if (author.trim().length === 0) throw new Error('Change author cannot be empty');
+    this.author = author;
+  }
+
+  /** Logged changes in the order they were made, optionally filtered. Returns copies. */
+  getChanges(filter: TrackedChangeFilter = {}): TrackedChange[] {
+    return this.changes.filter(change => matches(change, filter)).map(change => ({ ...change }));
+  }
+
+  getChange(id: string): TrackedChange | undefined {
+    const change = this.find(id);
+    return change && { ...change };
+  }
+
+  /** Mark a pending change as reviewed and kept. Returns false if it is not pending. */
+  acceptChange(id: string): boolean {
+    const change = this.find(id);
+    if (!change || statusOf(change) !== 'pending') return false;
+    change.accepted = true;
+    change.rejected = false;
+    return true;
+  }
+
+  /**
+   * Undo a pending change by applying its inverse op to the sheet, and mark
+   * it rejected. Returns false if it is not pending, its sheet or cell is
+   * gone, or the cell has been edited since (see hasConflict).
+   */
+  rejectChange(id: string): boolean {
+    const change = this.find(id);
+    if (!change || statusOf(change) !== 'pending') return false;
+    const ws = this.workbook.getSheet(change.sheet);
+    if (!ws || change.cellDeleted || !holds(ws, change.op)) return false;
+    this.replay(ws, invertPatch({ seq: 0, ops: [change.op] }).ops);
+    change.rejected = true;
+    change.accepted = false;
+    return true;
+  }
+
+  /** Accept every pending change matching `filter` (all of them by default). Returns how many. */
+  acceptChanges(filter: TrackedChangeFilter = {}): number {
+    let count = 0;
+    for (const change of this.pending(filter)) {
+      if (this.acceptChange(change.id)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * True when a pending cell change's cell no longer holds what the change
+   * wrote, because it was edited again since; rejecting it would overwrite
+   * that later edit, so rejectChange refuses it.
+   */
+  hasConflict(id: string): boolean {
+    const change = this.find(id);
+    if (!change || statusOf(change) !== 'pending') return false;
+    const ws = this.workbook.getSheet(change.sheet);
+    return !!ws && !change.cellDeleted && !holds(ws, change.op);
+  }
+
+  /**
+   * Reject every pending change matching `filter` (all of them by default),
+   * newest first so each inverse applies to the state its change produced.
+   * Changes in conflict with a later edit are left pending. Returns how many
+   * were rejected.
+   */
+  rejectChanges(filter: TrackedChangeFilter = {}): number {
+    let count = 0;
+    for (const change of this.pending(filter).reverse()) {
+      if (this.rejectChange(change.id)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Return an accepted or rejected change to pending; a rejected change's
+   * edit is applied again, unless the cell was edited after the rejection.
+   * Used to undo a review decision.
+   */
+  reopenChange(id: string): boolean {
+    const change = this.find(id);
+    if (!change || statusOf(change) === 'pending') return false;
+    if (change.rejected) {
+      const ws = this.workbook.getSheet(change.sheet);
+      if (!ws || change.cellDeleted) return false;
+      const inverse = invertPatch({ seq: 0, ops: [change.op] }).ops;
+      if (!holds(ws, inverse[inverse.length - 1])) return false;
+      this.replay(ws, [change.op]);
+    }
+    change.accepted = false;
+    change.rejected = false;
+    return true;
+  }
+
+  /** Drop the whole log (e.g. after a review is signed off). Tracking state is kept. */
+  clear(): void {
+    this.changes = [];
+  }
+
+  // ── Persistence ─────────────────────────────────────────────────────────
+
+  extractSnapshot(): TrackChangesSnapshot {
+    return {
+      enabled: this.enabled,
+      author: this.author,
+      changes: this.changes.map(change => ({ ...change, timestamp: new Date(change.timestamp) })),
+    };
+  }
+
+  applySnapshot(snapshot: TrackChangesSnapshot): void {
+    this.enabled = snapshot.enabled;
+    this.author = snapshot.author;
+    this.changes = snapshot.changes.map(change => ({ ...change, timestamp: new Date(change.timestamp) }));
+    this.nextId = 1 + this.changes.reduce((max, change) => Math.max(max, Number(change.id.replace(/^change_/, '')) || 0), 0);
+  }
+
+  // ── Recording ───────────────────────────────────────────────────────────
+
+  private observe(ws: Worksheet): void {
+    if (this.sheetListeners.has(ws)) return;
+    this.sheetListeners.set(ws, ws.on(e => this.record(ws, e)));
+  }
+
+  private record(ws: Worksheet, event: SheetEvents): void {
+    // Logged changes follow their cells whether or not edits are being logged
+    this.shift(ws, event);
+    if (!this.enabled || this.replaying) return;
+
+    switch (event.type) {
+      case 'cell-changed': {
+        if (event.cell.spilledFrom) return;
+        const { row, col } = event.address;
+        if (event.formulaChange) {
+          this.recordFormula(ws, row, col, event.formulaChange, event.cell.formula);
+          break;
+        }
+        // A formula cell changing value without a formula edit is a recalculated result
+        if (event.cell.formula) return;
+        const before: ExtendedCellValue = event.previousValue ?? null;
+        const after: ExtendedCellValue = event.cell.value ?? null;
+        const op = after === null ? PatchOps.clearCell(row, col, before) : PatchOps.setCellValue(row, col, before, after);
+        this.log(ws, { type: 'cellValue', address: { row, col }, oldValue: before, newValue: after, op });
+        break;
+      }
+      case 'style-changed': {
+        const { row, col } = event.address;
+        const before = cloneStyle(event.previousStyle);
+        const after = cloneStyle(event.style);
+        this.log(ws, { type: 'cellStyle', address: { row, col }, oldValue: before, newValue: after, op: PatchOps.setCellStyle(row, col, before, after) });
+        break;
+      }
+      case 'rows-inserted':
+        this.log(ws, {
+          type: 'insertRow', index: event.index, count: event.count,
+          op: { op: 'insertRows', row: event.index, count: event.count, ...(event.restored && { restore: event.restored }) },
+        });
+        break;
+      case 'rows-deleted':
+        this.log(ws, {
+          type: 'deleteRow', index: event.index, count: event.count,
+          op: { op: 'deleteRows', row: event.index, count: event.count, removed: event.deleted },
+        });
+        break;
+      case 'cols-inserted':
+        this.log(ws, {
+          type: 'insertColumn', index: event.index, count: event.count,
+          op: { op: 'insertCols', col: event.index, count: event.count, ...(event.restored && { restore: event.restored }) },
+        });
+        break;
+      case 'cols-deleted':
+        this.log(ws, {
+          type: 'deleteColumn', index: event.index, count: event.count,
+          op: { op: 'deleteCols', col: event.index, count: event.count, removed: event.deleted },
+        });
+        break;
+      default: break;
+    }
+  }
+
+  /** Log entering a formula (`formula` set) or clearing one as a cellFormula change. */
+  private recordFormula(
+    ws: Worksheet,
+    row: number,
+    col: number,
+    previous: { previousFormula: string | null; previousValue: ExtendedCellValue },
+    formula: string | undefined,
+  ): void {
+    const { previousFormula, previousValue } = previous;
+    const oldValue = previousFormula ?? previousValue ?? null;
+    const op = formula === undefined
+      ? PatchOps.clearCell(row, col, previousValue ?? null, previousFormula ?? undefined)
+      : PatchOps.setCellFormula(row, col, { formula: previousFormula, value: previousValue ?? null }, { formula });
+    this.log(ws, { type: 'cellFormula', address: { row, col }, oldValue, newValue: formula ?? null, op });
+  }
+
+  /** Move the sheet's logged changes for a row/column insert or delete. */
+  private shift(ws: Worksheet, event: SheetEvents): void {
+    const band = bandTransformFor(event);
+    if (!band) return;
+    const { axis, index: at, transform } = band;
+    for (const change of this.changes) {
+      if (change.sheet !== ws.name || change.cellDeleted) continue;
+      if (change.address) {
+        const moved = transform.map(change.address);
+        if (!moved) {
+          change.cellDeleted = true;
+          continue;
+        }
+        change.address = moved;
+        change.op = { ...change.op, row: moved.row, col: moved.col } as PatchOp;
+      } else if (change.index !== undefined && (change.type === 'insertRow' || change.type === 'deleteRow') === (axis === 'row')) {
+        // A band that lost its first rows/columns now starts at the deletion point
+        const line = axis === 'row' ? { row: change.index, col: 1 } : { row: 1, col: change.index };
+        const moved = transform.mapRange({ start: line, end: line });
+        const index = moved ? (axis === 'row' ? moved.start.row : moved.start.col) : at;
+        change.index = index;
+        change.op = { ...change.op, [axis]: index } as PatchOp;
+      }
+    }
+  }
+
+  private log(ws: Worksheet, change: Omit<TrackedChange, 'id' | 'author' | 'timestamp' | 'sheet'>): void {
+    this.changes.push({
+      id: `change_${this.nextId++}`,
+      author: this.author,
+      timestamp: new Date(),
+      sheet: ws.name,
+      ...change,
+    });
+  }
+
+  private replay(ws: Worksheet, ops: PatchOp[]): void {
+    this.replaying = true;
+    try {
+      applyPatch(ws, { seq: 0, ops });
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  private find(id: string): TrackedChange | undefined {
+    return this.changes.find(change => change.id === id);
+  }
+
+  private pending(filter: TrackedChangeFilter): TrackedChange[] {
+    return this.changes.filter(change => statusOf(change) === 'pending' && matches(change, filter));
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function statusOf(change: TrackedChange): TrackedChangeStatus {
+  return change.accepted ? 'accepted' : change.rejected ? 'rejected' : 'pending';
+}
+
+function matches(change: TrackedChange, filter: TrackedChangeFilter): boolean {
+  if (filter.author !== undefined && change.author !== filter.author) return false;
+  if (filter.since && change.timestamp < filter.since) return false;
+  if (filter.until && change.timestamp > filter.until) return false;
+  if (filter.sheet !== undefined && change.sheet !== filter.sheet) return false;
+  if (filter.status && statusOf(change) !== filter.status) return false;
+  if (filter.range && !touchesRange(change, filter.range)) return false;
+  return true;
+}
+
+function touchesRange(change: TrackedChange, range: Range): boolean {
+  const top = Math.min(range.start.row, range.end.row);
+  const bottom = Math.max(range.start.row, range.end.row);
+  const left = Math.min(range.start.col, range.end.col);
+  const right = Math.max(range.start.col, range.end.col);
+  if (change.address) {
+    const { row, col } = change.address;
+    return row >= top && row <= bottom && col >= left && col <= right;
+  }
+  const [first, last] = change.type === 'insertRow' || change.type === 'deleteRow' ? [top, bottom] : [left, right];
+  const start = change.index ?? 0;
+  return start <= last && start + (change.count ?? 1) - 1 >= first;
+}
+
+function bandTransformFor(event: SheetEvents): { axis: 'row' | 'col'; index: number; transform: BandTransform } | null {
+  switch (event.type) {
+    case 'rows-inserted': return { axis: 'row', index: event.index, transform: new InsertRowsTransform(event.index, event.count) };
+    case 'rows-deleted': return { axis: 'row', index: event.index, transform: new DeleteRowsTransform(event.index, event.count) };
+    case 'cols-inserted': return { axis: 'col', index: event.index, transform: new InsertColumnsTransform(event.index, event.count) };
+    case 'cols-deleted': return { axis: 'col', index: event.index, transform: new DeleteColumnsTransform(event.index, event.count) };
+    default: return null;
+  }
+}
+
+/** Whether the cell an op wrote still holds what it wrote. Row/column ops always hold. */
+function holds(ws: Worksheet, op: PatchOp): boolean {
+  switch (op.op) {
+    case 'setCellValue': {
+      const cell = ws.getCell({ row: op.row, col: op.col });
+      return !cell?.formula && sameValue(cell?.value ?? null, op.after);
+    }
+    case 'clearCell': {
+      const cell = ws.getCell({ row: op.row, col: op.col });
+      return !cell?.formula && (cell?.value ?? null) === null;
+    }
+    case 'setCellFormula':
+      return ws.getCell({ row: op.row, col: op.col })?.formula === op.after.formula;
+    case 'setCellStyle':
+      return sameValue(ws.getCellStyle({ row: op.row, col: op.col }) ?? null, op.after ?? null);
+    default:
+      return true;
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  // Rich text, entities and styles are compared by content
+  return a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+}
+
+function cloneStyle(style: CellStyle | undefined): CellStyle | undefined {
+  // Styles on events are the sheet's interned objects; the log keeps its own copy
+  return style === undefined ? undefined : JSON.parse(JSON.stringify(style)) as CellStyle;
+}
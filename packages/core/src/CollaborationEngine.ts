@@ -3,19 +3,48 @@
  * 
  * Zero-dependency CRDT-based collaborative editing system
  * Inspired by Yjs but optimized for spreadsheets with no external dependencies
+ * 
+ * Rows and columns carry stable position identifiers (an RGA sequence per
+ * axis), so operations name the cell they target rather than its index and
+ * concurrent inserts and deletes cannot shift an edit onto the wrong cell.
+ * Cell values and style properties are last-writer-wins registers ordered
+ * by Lamport stamp, and remote operations are delivered in causal order.
  */
 
 import type { Address, CellValue, ExtendedCellValue } from './types';
 import type { Worksheet } from './worksheet';
+import type { CollaborationMessage, CollaborationTransport, TransportState } from './collaboration/CollaborationTransport';
+import { WebSocketTransport, encodeOperation, decodeOperation } from './collaboration/CollaborationTransport';
 
 export type OperationType = 'set' | 'delete' | 'style' | 'insert-row' | 'delete-row' | 'insert-col' | 'delete-col';
 
+/**
+ * Stable identity of a row or column. Rows present before any edit are
+ * `r1`, `r2`, ... (columns `c1`, ...); inserted ones are named after the
+ * operation that created them.
+ */
+export type PositionId = string;
+
+/** `data` of insert-row/insert-col and delete-row/delete-col operations */
+export interface StructuralOperationData {
+  /** Insert only: position the new rows/columns follow, or null for the start */
+  after?: PositionId | null;
+  /** Positions inserted or deleted, in order */
+  ids: PositionId[];
+}
+
 export interface Operation {
   id: string;
   clientId: string;
   timestamp: number;
   type: OperationType;
+  /**
+   * Target cell as seen by the sender. For local structural operations,
+   * the row/column to insert before or start deleting at.
+   */
   address?: Address;
+  /** Target cell by position identity (set, delete, style) */
+  cell?: { row: PositionId; col: PositionId };
   value?: ExtendedCellValue;
   data?: unknown;
   // Vector clock for causal ordering
@@ -39,6 +68,106 @@ export interface CollaborationOptions {
   presenceTimeout?: number;
 }
 
+/** Total order on operations: Lamport time, then client id */
+type Stamp = { time: number; clientId: string };
+
+function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.time !== b.time) return a.time - b.time;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+/** Sum of a vector clock: grows with every operation in an op's causal past */
+function lamportTime(clock: Map<string, number>): number {
+  let time = 0;
+  for (const count of clock.values()) time += count;
+  return time;
+}
+
+const BASE_STAMP: Stamp = { time: 0, clientId: '' };
+
+type SequenceEntry = { id: PositionId; stamp: Stamp; deleted: boolean };
+
+/**
+ * Replicated ordering of the rows (or columns) of a sheet.
+ *
+ * New positions are placed after their reference position, but after any
+ * neighbours with a later stamp, so replicas integrating the same inserts in
+ * a different order end up with the same sequence. Deleted positions stay
+ * as tombstones so later operations can still refer to them. Base positions
+ * are materialised on demand, which keeps replicas independent of the
+ * sheet's initial size.
+ */
+class PositionSequence {
+  private entries: SequenceEntry[] = [];
+  private byId = new Map<PositionId, SequenceEntry>();
+  private baseCount = 0;
+
+  constructor(private readonly prefix: string) {}
+
+  /** 1-based visible index of a position, or undefined once deleted */
+  indexOf(id: PositionId): number | undefined {
+    this.ensureKnown(id);
+    const entry = this.byId.get(id);
+    if (!entry || entry.deleted) return undefined;
+    let index = 0;
+    for (const e of this.entries) {
+      if (!e.deleted) index++;
+      if (e === entry) return index;
+    }
+    return undefined;
+  }
+
+  /** Position currently shown at a 1-based visible index */
+  idAt(index: number): PositionId {
+    if (!Number.isInteger(index) || index < 1) {
+      throw new RangeError(`[Collaboration] Invalid ${this.prefix === 'r' ? 'row' : 'column'} ${index}`);
+    }
+    for (;;) {
+      let visible = 0;
+      for (const e of this.entries) {
+        if (!e.deleted && ++visible === index) return e.id;
+      }
+      this.addBase();
+    }
+  }
+
+  /** Insert `ids` as a block after `after`; returns the visible index of the first */
+  insert(after: PositionId | null, ids: PositionId[], stamp: Stamp): number {
+    if (after !== null) this.ensureKnown(after);
+    let pos = after === null ? 0 : this.entries.indexOf(this.byId.get(after)!) + 1;
+    if (after !== null && pos === 0) {
+      throw new Error(`[Collaboration] Unknown position ${after}`);
+    }
+    while (pos < this.entries.length && compareStamps(this.entries[pos].stamp, stamp) > 0) {
+      pos++;
+    }
+    const added = ids.map(id => ({ id, stamp, deleted: false }));
+    this.entries.splice(pos, 0, ...added);
+    for (const entry of added) this.byId.set(entry.id, entry);
+    return this.entries.slice(0, pos).filter(e => !e.deleted).length + 1;
+  }
+
+  /** Tombstone a position; returns its visible index if it was still visible */
+  delete(id: PositionId): number | undefined {
+    const index = this.indexOf(id);
+    const entry = this.byId.get(id);
+    if (entry) entry.deleted = true;
+    return index;
+  }
+
+  private ensureKnown(id: PositionId): void {
+    const match = /^([a-z])(\d+)$/.exec(id);
+    if (!match || match[1] !== this.prefix) return;
+    while (this.baseCount < Number(match[2])) this.addBase();
+  }
+
+  private addBase(): void {
+    const id = `${this.prefix}${this.baseCount + 1}`;
+    this.insert(this.baseCount === 0 ? null : `${this.prefix}${this.baseCount}`, [id], BASE_STAMP);
+    this.baseCount++;
+  }
+}
+
 /**
  * CRDT-based collaboration engine
  */
@@ -52,19 +181,30 @@ export class CollaborationEngine {
   private operations: Operation[] = [];
   private vectorClock = new Map<string, number>();
   
+  // Replicated sheet structure and register stamps
+  private rows = new PositionSequence('r');
+  private cols = new PositionSequence('c');
+  private valueStamps = new Map<string, Stamp>();
+  private styleStamps = new Map<string, Stamp>();
+  // Remote operations waiting for their causal predecessors
+  private pending: Operation[] = [];
+  
   // Client presence tracking
   private clients = new Map<string, ClientPresence>();
   private presenceTimeout: number;
   
-  // WebSocket connection (optional)
-  private ws: WebSocket | null = null;
+  // Connection to the relay (optional)
+  private transport: CollaborationTransport | null = null;
+  private unsubscribe: Array<() => void> = [];
   private syncInterval: number;
-  private syncTimer: number | null = null;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
   
   // Event handlers
   private onOperation?: (op: Operation) => void;
   private onPresence?: (presence: ClientPresence[]) => void;
   private onSync?: (ops: Operation[]) => void;
+  private onConnection?: (state: TransportState) => void;
 
   constructor(worksheet: Worksheet, options: CollaborationOptions = {}) {
     this.worksheet = worksheet;
@@ -87,38 +227,31 @@ export class CollaborationEngine {
   }
 
   /**
-   * Connect to collaboration server
+   * Connect to collaboration server. A URL connects over WebSocket;
+   * any other transport (in-memory, message bus) can be passed instead.
+   * Every time the connection opens, the engine exchanges missed
+   * operations with the server.
    */
-  connect(url: string): void {
-    this.ws = new WebSocket(url);
-    
-    this.ws.onopen = () => {
-      console.log('[Collaboration] Connected to server');
-      // Send initial sync request
-      this.sendMessage({
-        type: 'sync-request',
-        vectorClock: Object.fromEntries(this.vectorClock)
-      });
-    };
+  connect(target: string | CollaborationTransport): void {
+    this.disconnect();
     
-    this.ws.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        this.handleMessage(message);
-      } catch (error) {
-        console.error('[Collaboration] Failed to parse message:', error);
-      }
-    };
+    const transport = typeof target === 'string' ? new WebSocketTransport(target) : target;
+    this.transport = transport;
     
-    this.ws.onerror = (error) => {
-      console.error('[Collaboration] WebSocket error:', error);
-    };
+    this.unsubscribe = [
+      transport.onMessage(message => this.handleMessage(message)),
+      transport.onStateChange(state => {
+        if (state === 'open') {
+          // Catch up with the server and announce ourselves
+          this.requestSync();
+          const self = this.clients.get(this.clientId);
+          if (self) this.sendMessage({ type: 'presence', presence: self });
+        }
+        this.onConnection?.(state);
+      }),
+    ];
     
-    this.ws.onclose = () => {
-      console.log('[Collaboration] Disconnected from server');
-      // Auto-reconnect after 5 seconds
-      setTimeout(() => this.connect(url), 5000);
-    };
+    transport.connect();
     
     // Start periodic sync
     this.startSync();
@@ -133,14 +266,27 @@ export class CollaborationEngine {
       this.syncTimer = null;
     }
     
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (this.transport) {
+      this.unsubscribe.forEach(fn => fn());
+      this.unsubscribe = [];
+      this.transport.close();
+      this.transport = null;
     }
   }
 
   /**
-   * Apply local operation and broadcast
+   * Current connection state ('closed' when not connected)
+   */
+  getConnectionState(): TransportState {
+    return this.transport?.state ?? 'closed';
+  }
+
+  /**
+   * Apply local operation and broadcast.
+   * 
+   * Cell operations take the target `address`. Structural operations take
+   * the row/column in `address` to insert before or start deleting at, and
+   * optionally `data: { count }`.
    */
   applyOperation(type: OperationType, data: Partial<Operation>): void {
     // Increment local vector clock
@@ -156,6 +302,7 @@ export class CollaborationEngine {
       vectorClock: new Map(this.vectorClock),
       ...data
     };
+    this.bindPositions(op);
     
     // Add to operation log
     this.operations.push(op);
@@ -170,62 +317,145 @@ export class CollaborationEngine {
     this.onOperation?.(op);
   }
 
+  /**
+   * Receive an operation from another client. Operations may arrive in any
+   * order and more than once; each is applied once its causal predecessors
+   * have been.
+   */
+  receiveOperation(op: Operation): void {
+    this.handleRemoteOperation(op);
+  }
+
+  /**
+   * Translate a local, index-based operation into position identities
+   */
+  private bindPositions(op: Operation): void {
+    if (!op.address) return;
+    const { row, col } = op.address;
+    const count = (op.data as { count?: number } | undefined)?.count ?? 1;
+    
+    switch (op.type) {
+      case 'insert-row':
+      case 'insert-col': {
+        const seq = op.type === 'insert-row' ? this.rows : this.cols;
+        const index = op.type === 'insert-row' ? row : col;
+        const after = index > 1 ? seq.idAt(index - 1) : null;
+        const ids = Array.from({ length: count }, (_, k) => `${op.id}:${k}`);
+        const structural: StructuralOperationData = { after, ids };
+        op.data = structural;
+        break;
+      }
+      
+      case 'delete-row':
+      case 'delete-col': {
+        const seq = op.type === 'delete-row' ? this.rows : this.cols;
+        const index = op.type === 'delete-row' ? row : col;
+        const ids = Array.from({ length: count }, (_, k) => seq.idAt(index + k));
+        const structural: StructuralOperationData = { ids };
+        op.data = structural;
+        break;
+      }
+      
+      default:
+        op.cell = { row: this.rows.idAt(row), col: this.cols.idAt(col) };
+    }
+  }
+
   /**
    * Execute an operation on the worksheet
    */
   private executeOperation(op: Operation): void {
+    const stamp: Stamp = { time: lamportTime(op.vectorClock), clientId: op.clientId };
+    
     switch (op.type) {
       case 'set':
-        if (op.address && op.value !== undefined) {
-          this.worksheet.setCellValue(op.address, op.value);
-        }
-        break;
-        
-      case 'delete':
-        if (op.address) {
-          this.worksheet.setCellValue(op.address, null);
+      case 'delete': {
+        const target = this.resolveCell(op);
+        if (!target || !this.claim(this.valueStamps, target.key, stamp)) break;
+        if (op.type === 'set' && op.value !== undefined) {
+          this.worksheet.setCellValue(target.address, op.value);
+        } else if (op.type === 'delete') {
+          this.worksheet.setCellValue(target.address, null);
         }
         break;
+      }
         
-      case 'style':
-        if (op.address && op.data) {
-          const cell = this.worksheet.getCell(op.address);
-          if (cell) {
-            // Use worksheet API instead of mutating readonly cell
-            this.worksheet.setCellStyle(op.address, { ...cell.style, ...(op.data as object) });
-          }
+      case 'style': {
+        const target = this.resolveCell(op);
+        if (!target || !op.data) break;
+        // Each style property is its own register, so concurrent edits of
+        // different properties both survive
+        const winning = Object.fromEntries(
+          Object.entries(op.data as object).filter(([prop]) =>
+            this.claim(this.styleStamps, `${target.key}|${prop}`, stamp)
+          )
+        );
+        if (Object.keys(winning).length > 0) {
+          const cell = this.worksheet.getCell(target.address);
+          // Use worksheet API instead of mutating readonly cell
+          this.worksheet.setCellStyle(target.address, { ...cell?.style, ...winning });
         }
         break;
+      }
         
       case 'insert-row':
-        // TODO: Implement row insertion
+      case 'insert-col': {
+        const { after = null, ids } = op.data as StructuralOperationData;
+        const seq = op.type === 'insert-row' ? this.rows : this.cols;
+        const index = seq.insert(after, ids, stamp);
+        if (op.type === 'insert-row') this.worksheet.insertRows(index, ids.length);
+        else this.worksheet.insertCols(index, ids.length);
         break;
+      }
         
       case 'delete-row':
-        // TODO: Implement row deletion
-        break;
-        
-      case 'insert-col':
-        // TODO: Implement column insertion
-        break;
-        
-      case 'delete-col':
-        // TODO: Implement column deletion
+      case 'delete-col': {
+        const { ids } = op.data as StructuralOperationData;
+        const seq = op.type === 'delete-row' ? this.rows : this.cols;
+        // Positions a concurrent operation already deleted are skipped
+        for (const id of ids) {
+          const index = seq.delete(id);
+          if (index === undefined) continue;
+          if (op.type === 'delete-row') this.worksheet.deleteRows(index, 1);
+          else this.worksheet.deleteCols(index, 1);
+        }
         break;
+      }
     }
   }
 
+  /**
+   * Current address of an operation's target cell; undefined if its row or
+   * column has been deleted
+   */
+  private resolveCell(op: Operation): { address: Address; key: string } | undefined {
+    const cell = op.cell ?? (op.address && { row: this.rows.idAt(op.address.row), col: this.cols.idAt(op.address.col) });
+    if (!cell) return undefined;
+    const row = this.rows.indexOf(cell.row);
+    const col = this.cols.indexOf(cell.col);
+    if (row === undefined || col === undefined) return undefined;
+    return { address: { row, col }, key: `${cell.row}|${cell.col}` };
+  }
+
+  /** Record `stamp` as the register's latest write unless a later one exists */
+  private claim(stamps: Map<string, Stamp>, key: string, stamp: Stamp): boolean {
+    const current = stamps.get(key);
+    if (current && compareStamps(current, stamp) >= 0) return false;
+    stamps.set(key, stamp);
+    return true;
+  }
+
   /**
    * Handle incoming message from server
    */
-  private handleMessage(message: any): void {
+  private handleMessage(message: CollaborationMessage): void {
     switch (message.type) {
       case 'operation':
-        this.handleRemoteOperation(message.operation);
+        this.handleRemoteOperation(decodeOperation(message.operation));
         break;
         
       case 'sync-response':
-        this.handleSyncResponse(message.operations);
+        this.handleSyncResponse(message.operations.map(decodeOperation), message.vectorClock);
         break;
         
       case 'presence':
@@ -233,70 +463,73 @@ export class CollaborationEngine {
         break;
         
       case 'batch':
-        message.operations.forEach((op: Operation) => {
-          this.handleRemoteOperation(op);
+        message.operations.forEach(op => {
+          this.handleRemoteOperation(decodeOperation(op));
         });
         break;
     }
   }
 
   /**
-   * Handle remote operation with CRDT conflict resolution
+   * Handle remote operation, buffering it until it is causally ready
    */
   private handleRemoteOperation(op: Operation): void {
-    // Check if already applied (idempotency)
-    if (this.operations.some(existing => existing.id === op.id)) {
+    // Check if already applied or buffered (idempotency)
+    if (this.operations.some(existing => existing.id === op.id) ||
+        this.pending.some(waiting => waiting.id === op.id)) {
       return;
     }
     
-    // Update vector clock
-    const remoteVersion = op.vectorClock.get(op.clientId) ?? 0;
-    const localVersion = this.vectorClock.get(op.clientId) ?? 0;
-    
-    if (remoteVersion > localVersion) {
-      this.vectorClock.set(op.clientId, remoteVersion);
-    }
-    
-    // Resolve conflicts using Last-Write-Wins (LWW) with timestamp
-    const conflicts = this.operations.filter(local => 
-      local.address?.row === op.address?.row &&
-      local.address?.col === op.address?.col &&
-      local.type === op.type
-    );
-    
-    let shouldApply = true;
-    
-    for (const conflict of conflicts) {
-      if (conflict.timestamp > op.timestamp) {
-        // Local operation is newer, ignore remote
-        shouldApply = false;
-        break;
-      } else if (conflict.timestamp === op.timestamp) {
-        // Same timestamp, use clientId for deterministic resolution
-        if (conflict.clientId > op.clientId) {
-          shouldApply = false;
-          break;
-        }
-      }
-    }
+    this.pending.push(op);
     
-    if (shouldApply) {
+    // Applying one operation may release others that depend on it
+    let ready = this.pending.findIndex(waiting => this.isCausallyReady(waiting));
+    while (ready !== -1) {
+      const [next] = this.pending.splice(ready, 1);
+      this.vectorClock.set(next.clientId, next.vectorClock.get(next.clientId) ?? 0);
+      
       // Add to operation log
-      this.operations.push(op);
+      this.operations.push(next);
       
-      // Apply operation
-      this.executeOperation(op);
+      // Apply operation; conflicts resolve through register stamps
+      this.executeOperation(next);
       
       // Trigger callback
-      this.onOperation?.(op);
+      this.onOperation?.(next);
+      
+      ready = this.pending.findIndex(waiting => this.isCausallyReady(waiting));
+    }
+  }
+
+  /**
+   * An operation is ready once it is the sender's next one and everything
+   * it had seen from other clients has been applied here
+   */
+  private isCausallyReady(op: Operation): boolean {
+    for (const [clientId, count] of op.vectorClock) {
+      const local = this.vectorClock.get(clientId) ?? 0;
+      if (clientId === op.clientId ? count !== local + 1 : count > local) {
+        return false;
+      }
     }
+    return true;
   }
 
   /**
-   * Handle sync response from server
+   * Handle sync response from server: apply what we missed, then send the
+   * local operations the server has not seen (made while offline)
    */
-  private handleSyncResponse(operations: Operation[]): void {
+  private handleSyncResponse(operations: Operation[], serverClock: Record<string, number>): void {
     operations.forEach(op => this.handleRemoteOperation(op));
+    
+    const known = serverClock[this.clientId] ?? 0;
+    const unsent = this.operations.filter(op =>
+      op.clientId === this.clientId && (op.vectorClock.get(this.clientId) ?? 0) > known
+    );
+    if (unsent.length > 0) {
+      this.sendMessage({ type: 'batch', operations: unsent.map(encodeOperation) });
+    }
+    
     this.onSync?.(operations);
   }
 
@@ -353,19 +586,29 @@ export class CollaborationEngine {
   /**
    * Send message to server
    */
-  private sendMessage(message: any): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+  private sendMessage(message: CollaborationMessage): void {
+    if (this.transport?.state === 'open') {
+      this.transport.send(message);
     }
   }
 
+  /**
+   * Ask the server for operations not yet applied here
+   */
+  private requestSync(): void {
+    this.sendMessage({
+      type: 'sync-request',
+      vectorClock: Object.fromEntries(this.vectorClock)
+    });
+  }
+
   /**
    * Broadcast operation to other clients
    */
   private broadcast(op: Operation): void {
     this.sendMessage({
       type: 'operation',
-      operation: op
+      operation: encodeOperation(op)
     });
   }
 
@@ -373,24 +616,15 @@ export class CollaborationEngine {
    * Start periodic sync
    */
   private startSync(): void {
-    this.syncTimer = window.setInterval(() => {
-      // Send pending operations
-      const pending = this.operations.slice(-10); // Last 10 ops
-      
-      if (pending.length > 0) {
-        this.sendMessage({
-          type: 'batch',
-          operations: pending
-        });
-      }
-    }, this.syncInterval);
+    // Recovers anything lost in transit; the exchange is a no-op when in sync
+    this.syncTimer = setInterval(() => this.requestSync(), this.syncInterval);
   }
 
   /**
    * Start presence cleanup (remove inactive clients)
    */
   private startPresenceCleanup(): void {
-    setInterval(() => {
+    this.presenceTimer = setInterval(() => {
       const now = Date.now();
       
       for (const [clientId, presence] of this.clients.entries()) {
@@ -423,6 +657,13 @@ export class CollaborationEngine {
     this.onSync = callback;
   }
 
+  /**
+   * Register connection state callback
+   */
+  onConnectionChanged(callback: (state: TransportState) => void): void {
+    this.onConnection = callback;
+  }
+
   /**
    * Get operation history
    */
@@ -456,6 +697,11 @@ export class CollaborationEngine {
   importState(state: { operations: Operation[]; vectorClock: Record<string, number> }): void {
     this.operations = state.operations;
     this.vectorClock = new Map(Object.entries(state.vectorClock).map(([k, v]) => [k, Number(v)]));
+    this.rows = new PositionSequence('r');
+    this.cols = new PositionSequence('c');
+    this.valueStamps.clear();
+    this.styleStamps.clear();
+    this.pending = [];
     
     // Replay operations
     state.operations.forEach(op => this.executeOperation(op));
@@ -491,5 +737,9 @@ export class CollaborationEngine {
    */
   destroy(): void {
     this.disconnect();
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
   }
 }
@@ -315,6 +315,7 @@ export class CommandManager {
     command.execute();
     
     // DEV/TEST only: Validate DAG invariants after command execution
+    // @ts-ignore - process.env is available in Node.js and bundlers (Vite/Webpack)
     if (process.env.NODE_ENV !== 'production' && this.worksheet) {
       // Access private DAG through worksheet's internal structure
       // This is safe because validators only read state
@@ -359,6 +360,7 @@ export class CommandManager {
     this.redoStack.push(command);
     
     // DEV/TEST only: Validate DAG invariants after undo
+    // @ts-ignore - process.env is available in Node.js and bundlers (Vite/Webpack)
     if (process.env.NODE_ENV !== 'production' && this.worksheet) {
       const dag = (this.worksheet as any).dag;
       if (dag) {
@@ -394,6 +396,7 @@ export class CommandManager {
     this.undoStack.push(command);
     
     // DEV/TEST only: Validate DAG invariants after redo
+    // @ts-ignore - process.env is available in Node.js and bundlers (Vite/Webpack)
     if (process.env.NODE_ENV !== 'production' && this.worksheet) {
       const dag = (this.worksheet as any).dag;
       if (dag) {
@@ -2,6 +2,7 @@ import type { TransformCommand } from './CommandManager';
 import type { Worksheet } from './worksheet';
 import type { ClipboardPayload } from './ClipboardService';
 import type { Address, Range } from './types';
+import type { DefinedName } from './NameManager';
 import { AddressTransform, DeleteColumnTransform, InsertColumnTransform } from './dag/AddressTransform';
 import { PasteCommand } from './PasteCommand';
 import { InsertColumnCommand } from './InsertColumnCommand';
@@ -48,6 +49,7 @@ export class DeleteColumnCommand implements TransformCommand {
   private shiftedPayload: ClipboardPayload | null = null;
   private deletedAnchor: Address | null = null;
   private shiftedAnchor: Address | null = null;
+  private namesBefore: DefinedName[] | null = null;
 
   constructor(
     private readonly worksheet: Worksheet,
@@ -67,6 +69,14 @@ export class DeleteColumnCommand implements TransformCommand {
     const k = this.deleteAt;
     const transform = this.getTransform();
 
+    // Defined names keep pointing at the same cells (or become #REF!).
+    // Snapshot first: undo cannot recover #REF! names by re-inserting.
+    const names = this.worksheet.getWorkbook()?.getNameManager();
+    this.namesBefore = names ? names.serialize().map(n => ({ ...n })) : null;
+    names?.adjustForStructuralChange({
+      axis: 'col', index: k, count: -1, sheet: this.worksheet.name,
+    });
+
     // STEP 1: Extract affected cells
     // CRITICAL: Include cells outside deleted column that reference it
     const cellsToDelete: CellSnapshot[] = [];
@@ -247,6 +257,11 @@ export class DeleteColumnCommand implements TransformCommand {
       restorePaste.execute();
     }
 
+    // Step 3: Restore defined names exactly as they were
+    if (this.namesBefore) {
+      this.worksheet.getWorkbook()?.getNameManager().deserialize(this.namesBefore);
+    }
+
     this.executed = false;
   }
 
@@ -0,0 +1,44 @@
+import type { TransformCommand } from './CommandManager';
+import type { Worksheet, DeletedBand } from './worksheet';
+import { AddressTransform, DeleteRowsTransform, InsertRowsTransform } from './dag/AddressTransform';
+
+/**
+ * DeleteRowsCommand - Delete `count` rows starting at row k
+ *
+ * Cells in the deleted rows are discarded, rows below shift up, and
+ * references into the deleted rows become #REF!. Undo restores the removed
+ * cells and every formula, name and piece of sheet state the delete rewrote,
+ * so #REF! formulas get their original references back.
+ */
+export class DeleteRowsCommand implements TransformCommand {
+  description = 'Delete Rows';
+
+  private deleted: DeletedBand | null = null;
+
+  constructor(
+    private readonly worksheet: Worksheet,
+    private readonly deleteAt: number,
+    private readonly count: number = 1
+  ) {}
+
+  getTransform(): AddressTransform {
+    return new DeleteRowsTransform(this.deleteAt, this.count, this.worksheet.name);
+  }
+
+  getUndoTransform(): AddressTransform {
+    return new InsertRowsTransform(this.deleteAt, this.count, this.worksheet.name);
+  }
+
+  execute(): void {
+    this.deleted = this.worksheet.deleteRows(this.deleteAt, this.count);
+  }
+
+  undo(): void {
+    if (!this.deleted) {
+      throw new Error('Cannot undo before execute');
+    }
+
+    this.worksheet.restoreRows(this.deleted);
+    this.deleted = null;
+  }
+}
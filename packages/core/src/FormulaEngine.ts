@@ -7,12 +7,15 @@
 
 import type { Address, Cell, CellValue, RichTextValue } from './types';
 import type { Worksheet } from './worksheet';
+import { A1_COLUMN_PATTERN, parseSheetQualifiedRef, isSameSheetName, type SheetQualifiedRef } from './utils/sheet-reference';
+import { FormulaCompileCache, type FormulaNode } from './parser/FormulaParser';
 
 // Week 1: Entity types for structured data
 import type { EntityValue } from './types/entity-types';
 import { isEntityValue, getDisplayValue } from './types/entity-types';
 
-import type { FormulaValue, FormulaFunction, LambdaFunction, FormulaContext } from './types/formula-types';
+import type { FormulaValue, FormulaFunction, LambdaFunction, FormulaContext, FunctionMetadata } from './types/formula-types';
+import type { Aggregator } from './functions/array/aggregation-functions';
 import { ErrorStrategy } from './types/formula-types';
 
 // Import modular components
@@ -46,6 +49,19 @@ interface MemberChainMatch {
   parsed: MemberChain;     // Tokenized structure
 }
 
+/** A1 cell reference with optional `$` anchors: A1, $A$1, A$1, $A1 */
+const CELL_REF_PATTERN = new RegExp(`^\\$?${A1_COLUMN_PATTERN}\\$?\\d+$`, 'i');
+/** A1 range reference; either corner may carry `$` anchors ($A$1:B10) */
+const RANGE_REF_PATTERN = new RegExp(`^\\$?${A1_COLUMN_PATTERN}\\$?\\d+:\\$?${A1_COLUMN_PATTERN}\\$?\\d+$`, 'i');
+/** Error codes as stored in cell values by recalc (#DIV/0!, #N/A, ...) */
+const ERROR_CODE_PATTERN = /^#(?:NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|GETTING_DATA|SPILL!|CALC!|CIRC!|ERROR!)$/;
+/** Functions evaluateFunction handles from raw argument text (lazy or lambda-based) */
+const LAZY_FUNCTIONS = new Set(['LAMBDA', 'LET', 'IF', 'MAP', 'REDUCE', 'SCAN', 'BYROW', 'MAKEARRAY', 'BYCOL', 'GROUPBY', 'PIVOTBY', 'GETPIVOTDATA']);
+/** Position of the function (aggregator) argument of the grouping functions */
+const AGGREGATOR_ARG_INDEX: Record<string, number> = { GROUPBY: 2, PIVOTBY: 3 };
+/** Bare function name passed as a value, e.g. the SUM in GROUPBY(A2:A9, B2:B9, SUM) */
+const FUNCTION_NAME_PATTERN = /^[A-Z][A-Z0-9.]*$/i;
+
 /**
  * Dependency graph for tracking cell dependencies
  */
@@ -167,7 +183,11 @@ export class FormulaEngine {
   private operatorRegistry = new OperatorRegistry();
   private dependencyGraph = new DependencyGraph();
   private calculating = new Set<string>();
+  /** Defined names currently being resolved (guards names that refer to themselves) */
+  private resolvingNames = new Set<string>();
   private errorDispatcher = new ErrorStrategyDispatcher();
+  /** Parsed ASTs keyed by expression text, shared by every cell using the same formula */
+  private compileCache = new FormulaCompileCache();
   
   // Week 3 Phase 2: External data type provider registry
   private providerRegistry = new ProviderRegistry();
@@ -197,6 +217,15 @@ export class FormulaEngine {
     return this.providerRegistry;
   }
 
+  /**
+   * Compiles a formula to its cached AST. Returns null when the formula uses
+   * syntax only the string evaluator understands (member access, lambda
+   * invocation, ...); such formulas are still evaluated, just not compiled.
+   */
+  compile(formula: string): FormulaNode | null {
+    return this.compileCache.get(formula.startsWith('=') ? formula.slice(1) : formula);
+  }
+
   /**
    * Parses and evaluates a formula
    */
@@ -215,7 +244,8 @@ export class FormulaEngine {
    * Used by `evaluate` and `evaluateWithProviders` to avoid double-clearing provider cache.
    */
   private evaluateInternal(formula: string, context: FormulaContext): FormulaValue {
-    const cellKey = `${context.currentCell.row}:${context.currentCell.col}`;
+    // Sheet-qualified so Sheet1!A1 reading Sheet2!A1 is not mistaken for a cycle
+    const cellKey = `${context.worksheet?.name ?? ''}!${context.currentCell.row}:${context.currentCell.col}`;
 
     // Detect circular reference
     if (this.calculating.has(cellKey)) {
@@ -225,8 +255,9 @@ export class FormulaEngine {
     this.calculating.add(cellKey);
     
     try {
-      // Remove leading '='
-      const expr = formula.startsWith('=') ? formula.slice(1) : formula;
+      // Remove leading '=', then turn table references (Sales[Amount],
+      // [@Qty]) into the A1 ranges they currently select
+      const expr = this.resolveStructuredReferences(formula.startsWith('=') ? formula.slice(1) : formula, context);
       
       // Week 3 Phase 1D+1E: Full tokenization integration
       // Check if formula needs tokenization (feature-flagged)
@@ -234,8 +265,8 @@ export class FormulaEngine {
         return this.evaluateWithTokens(expr, context);
       }
       
-      const result = this.evaluateExpression(expr, context);
-      return result;
+      const ast = this.compileCache.get(expr);
+      return ast ? this.evaluateNode(ast, context) : this.evaluateExpression(expr, context);
     } catch (error) {
       return new Error('#ERROR!');
     } finally {
@@ -243,6 +274,14 @@ export class FormulaEngine {
     }
   }
 
+  /**
+   * Translate structured references via the worksheet, which knows the
+   * tables. Contexts without a real worksheet are left alone.
+   */
+  private resolveStructuredReferences(expr: string, context: FormulaContext): string {
+    return context.worksheet?.resolveStructuredReferences?.(expr, context.currentCell) ?? expr;
+  }
+
   /**
    * Week 3 Phase 1A: State-aware detection for member access chains
    * 
@@ -639,11 +678,11 @@ export class FormulaEngine {
       const base = chain.parsed.base;
       const property = chain.parsed.properties[0];
       // Only support simple single-level access for provider resolution (A1.Price)
-      if (!/^[A-Z]+\d+$/i.test(base)) continue;
+      if (!CELL_REF_PATTERN.test(base)) continue;
 
       // Get raw base value (preserve EntityValue) — mirror evaluateDotMemberExpressionStub logic
       let baseValue: FormulaValue;
-      if (/^[A-Z]+\d+$/i.test(base)) {
+      if (CELL_REF_PATTERN.test(base)) {
         const addr = this.parseCellReference(base);
         this.dependencyGraph.addDependency(context.currentCell, addr);
         const cell = context.worksheet.getCell(addr);
@@ -679,7 +718,7 @@ export class FormulaEngine {
     }
 
     // 3) Resolve via BatchResolver
-    const ctx = new (require('./providers').ProviderResolutionContext)();
+    const ctx = new ProviderResolutionContext();
     ctx.addPendingMany(refs);
 
     try {
@@ -941,33 +980,31 @@ export class FormulaEngine {
       }
     }
 
+    // Sheet-qualified reference (e.g., Sheet2!A1, 'My Sheet'!A1:B10, Sheet1:Sheet3!B2)
+    const sheetRef = parseSheetQualifiedRef(expr);
+    if (sheetRef) {
+      return this.evaluateSheetQualifiedReference(sheetRef, context);
+    }
+
     // Cell reference (e.g., A1, B2)
-    if (/^[A-Z]+\d+$/i.test(expr)) {
+    if (CELL_REF_PATTERN.test(expr)) {
       return this.evaluateCellReference(expr, context);
     }
 
     // Range references - evaluate to arrays for use in operations
-    if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(expr)) {
+    if (RANGE_REF_PATTERN.test(expr)) {
       return this.evaluateRangeReference(expr, context);
     }
 
+    // Defined name (e.g., Revenue, TaxRate) from the workbook's NameManager
+    if (/^[A-Za-z_\\][A-Za-z0-9_.]*$/.test(expr)) {
+      const named = this.evaluateDefinedName(expr, context);
+      if (named !== undefined) return named;
+    }
+
     // Unary minus (e.g., -5, -val, -A1)
     if (expr.startsWith('-') && expr.length > 1) {
-      const operand = this.evaluateExpression(expr.substring(1), context);
-      if (operand instanceof Error) return operand;
-      if (typeof operand === 'number') {
-        return -operand;
-      }
-      // Handle array negation
-      if (Array.isArray(operand)) {
-        return operand.map(item => {
-          if (Array.isArray(item)) {
-            return item.map(val => typeof val === 'number' ? -val : new Error('#VALUE!'));
-          }
-          return typeof item === 'number' ? -item : new Error('#VALUE!');
-        });
-      }
-      return new Error('#VALUE!');
+      return this.negate(this.evaluateExpression(expr.substring(1), context));
     }
 
     // Unary plus (e.g., +5, +val) - just return the value
@@ -1085,6 +1122,105 @@ export class FormulaEngine {
     return new Error('#NAME?');
   }
 
+  /**
+   * Evaluates a compiled AST node.
+   *
+   * Plain built-in calls are dispatched directly with AST-evaluated arguments.
+   * Functions that need their raw argument text (IF with omitted arguments,
+   * LET, LAMBDA and the lambda helpers), named lambdas and LET-bound lambdas
+   * go through evaluateFunction with the call's source text, and identifiers
+   * are resolved by evaluateExpression, so both paths share one set of rules.
+   */
+  private evaluateNode(node: FormulaNode, context: FormulaContext): FormulaValue {
+    switch (node.kind) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'error':
+        return new Error(node.code);
+      case 'reference':
+        if (node.sheet) return this.evaluateSheetQualifiedReference(node.sheet, context);
+        return node.isRange
+          ? this.evaluateRangeReference(node.ref, context)
+          : this.evaluateCellReference(node.ref, context);
+      case 'name':
+        return this.evaluateExpression(node.name, context);
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        return node.op === '-' ? this.negate(operand) : operand;
+      }
+      case 'binary':
+        return this.applyOperator(
+          node.op,
+          this.evaluateNode(node.left, context),
+          this.evaluateNode(node.right, context)
+        );
+      case 'array': {
+        const rows = node.rows.map(row => row.map(item => this.evaluateNode(item, context)));
+        return rows.length === 1 ? rows[0] : rows;
+      }
+      case 'call':
+        return this.evaluateCallNode(node, context);
+    }
+  }
+
+  private evaluateCallNode(
+    node: Extract<FormulaNode, { kind: 'call' }>,
+    context: FormulaContext
+  ): FormulaValue {
+    const upperName = node.name.toUpperCase();
+
+    if (context.namedLambdas?.get(node.name) || context.namedLambdas?.get(upperName)) {
+      return this.evaluateExpression(node.text, context);
+    }
+
+    if (upperName === 'IF' && !node.args.includes(null)) {
+      if (node.args.length < 2 || node.args.length > 3) return new Error('#VALUE!');
+      const condition = this.evaluateNode(node.args[0]!, context);
+      if (condition instanceof Error) return condition;
+      if (condition) return this.evaluateNode(node.args[1]!, context);
+      return node.args.length === 3 ? this.evaluateNode(node.args[2]!, context) : false;
+    }
+
+    const funcMetadata = LAZY_FUNCTIONS.has(upperName) ? undefined : this.functionRegistry.getMetadata(upperName);
+    if (!funcMetadata) {
+      return this.evaluateFunction(node.name, node.argsText, context);
+    }
+
+    // Same argument rules as parseArguments: omitted -> undefined, ranges -> arrays
+    const args = node.args.map(arg => {
+      if (!arg) return undefined as any;
+      const value = this.evaluateNode(arg, context);
+      if (arg.kind !== 'string' && typeof value === 'string' && RANGE_REF_PATTERN.test(value)) {
+        return this.evaluateRangeReference(value, context);
+      }
+      return value;
+    });
+
+    return this.invokeFunction(node.name, funcMetadata, args, context);
+  }
+
+  /**
+   * Negates a number, or each number in an array; anything else is #VALUE!
+   */
+  private negate(operand: FormulaValue): FormulaValue {
+    if (operand instanceof Error) return operand;
+    if (typeof operand === 'number') {
+      return -operand;
+    }
+    // Handle array negation
+    if (Array.isArray(operand)) {
+      return operand.map(item => {
+        if (Array.isArray(item)) {
+          return item.map(val => typeof val === 'number' ? -val : new Error('#VALUE!'));
+        }
+        return typeof item === 'number' ? -item : new Error('#VALUE!');
+      });
+    }
+    return new Error('#VALUE!');
+  }
+
   /**
    * Invokes a lambda function with arguments
    */
@@ -1133,12 +1269,13 @@ export class FormulaEngine {
   private splitByOperator(expr: string, op: string): string[] {
     let depth = 0;
     let inString = false;
+    let inSheetName = false;
     let lastSplit = 0;
     const parts: string[] = [];
 
     for (let i = 0; i < expr.length; i++) {
       // Track string literal boundaries
-      if (expr[i] === '"') {
+      if (expr[i] === '"' && !inSheetName) {
         // Check if this is an escaped quote
         if (inString && i + 1 < expr.length && expr[i + 1] === '"') {
           i++; // Skip the escaped quote pair
@@ -1146,9 +1283,15 @@ export class FormulaEngine {
         }
         inString = !inString;
       }
+
+      // Track quoted sheet names ('Q1-Q2'!A1); '' is an escaped quote
+      if (expr[i] === "'" && !inString) {
+        inSheetName = !inSheetName;
+        continue;
+      }
       
-      // Only track depth and split outside of string literals
-      if (!inString) {
+      // Only track depth and split outside of string literals and sheet names
+      if (!inString && !inSheetName) {
         if (expr[i] === '(') depth++;
         if (expr[i] === ')') depth--;
         
@@ -1251,28 +1394,40 @@ export class FormulaEngine {
   /**
    * Evaluates a cell reference
    */
-  private evaluateCellReference(ref: string, context: FormulaContext): FormulaValue {
+  private evaluateCellReference(ref: string, context: FormulaContext, sheet: Worksheet = context.worksheet): FormulaValue {
     const addr = this.parseCellReference(ref);
     
-    // Track dependency
-    this.dependencyGraph.addDependency(context.currentCell, addr);
+    // Track dependency (the internal graph only covers the formula's own sheet)
+    if (sheet === context.worksheet) this.dependencyGraph.addDependency(context.currentCell, addr);
 
-    const cell = context.worksheet.getCell(addr);
+    const cell = sheet.getCell(addr);
     
     if (!cell) return null;
     
-    if (cell.formula) {
-      // Recursively evaluate formula
-      return this.evaluate(cell.formula, { ...context, currentCell: addr });
+    return this.readCell(cell, addr, context, sheet);
+  }
+
+  /**
+   * Value of a referenced cell. Formula cells are evaluated recursively, or
+   * read from the cell store during recalc (context.useCachedValues).
+   */
+  private readCell(cell: Cell, addr: Address, context: FormulaContext, sheet: Worksheet): FormulaValue {
+    if (!cell.formula) {
+      return cellValueToFormulaValue(cell.value);
     }
-    
-    return cellValueToFormulaValue(cell.value);
+    if (context.useCachedValues) {
+      // Recalc stores errors as their code string
+      if (typeof cell.value === 'string' && ERROR_CODE_PATTERN.test(cell.value)) return new Error(cell.value);
+      return Array.isArray(cell.value) ? (cell.value as FormulaValue) : cellValueToFormulaValue(cell.value);
+    }
+    // Recursively evaluate formula
+    return this.evaluate(cell.formula, { ...context, worksheet: sheet, currentCell: addr });
   }
 
   /**
    * Evaluates a range reference (returns array)
    */
-  private evaluateRangeReference(ref: string, context: FormulaContext): FormulaValue[] {
+  private evaluateRangeReference(ref: string, context: FormulaContext, sheet: Worksheet = context.worksheet): FormulaValue[] {
     const [start, end] = ref.split(':');
     const startAddr = this.parseCellReference(start);
     const endAddr = this.parseCellReference(end);
@@ -1282,17 +1437,12 @@ export class FormulaEngine {
     for (let row = startAddr.row; row <= endAddr.row; row++) {
       for (let col = startAddr.col; col <= endAddr.col; col++) {
         const addr = { row, col };
-        this.dependencyGraph.addDependency(context.currentCell, addr);
+        if (sheet === context.worksheet) this.dependencyGraph.addDependency(context.currentCell, addr);
         
-        const cell = context.worksheet.getCell(addr);
+        const cell = sheet.getCell(addr);
         
         if (cell) {
-          if (cell.formula) {
-            values.push(this.evaluate(cell.formula, { ...context, currentCell: addr }));
-          } else {
-            // Convert ExtendedCellValue to FormulaValue (handles RichTextValue)
-            values.push(cellValueToFormulaValue(cell.value));
-          }
+          values.push(this.readCell(cell, addr, context, sheet));
         } else {
           values.push(null);
         }
@@ -1302,12 +1452,91 @@ export class FormulaEngine {
     return values;
   }
 
+  /**
+   * Evaluates a sheet-qualified reference against the worksheet's parent Workbook.
+   *
+   * - `Sheet2!A1` / `'My Sheet'!A1:B10` read the named sheet.
+   * - `Sheet1:Sheet3!B2` reads every sheet in the span (tab order) and returns
+   *   the concatenated values, so aggregates like SUM flatten across sheets.
+   * - Unknown sheets produce #REF!. A worksheet without a Workbook can only
+   *   resolve references to itself.
+   */
+  private evaluateSheetQualifiedReference(ref: SheetQualifiedRef, context: FormulaContext): FormulaValue {
+    const sheets = this.resolveSheets(ref, context);
+    if (sheets.length === 0) return new Error('#REF!');
+
+    const isRange = ref.ref.includes(':');
+    if (ref.endSheet === undefined) {
+      return isRange
+        ? this.evaluateRangeReference(ref.ref, context, sheets[0])
+        : this.evaluateCellReference(ref.ref, context, sheets[0]);
+    }
+
+    const values: FormulaValue[] = [];
+    for (const sheet of sheets) {
+      if (isRange) {
+        values.push(...this.evaluateRangeReference(ref.ref, context, sheet));
+      } else {
+        values.push(this.evaluateCellReference(ref.ref, context, sheet));
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Evaluates a defined name's refersTo (range, constant or formula).
+   *
+   * Sheet-scoped names shadow workbook-scoped ones. A sheet-scoped name is
+   * evaluated on its own sheet; a workbook-scoped name on the sheet of the
+   * formula using it, so unqualified references inside it resolve there.
+   *
+   * @returns undefined when no such name is defined (caller falls through)
+   */
+  private evaluateDefinedName(name: string, context: FormulaContext): FormulaValue | undefined {
+    const workbook = context.worksheet.getWorkbook?.();
+    const definedName = workbook?.getNameManager().lookupName(name, context.worksheet.name);
+    if (!workbook || !definedName) return undefined;
+
+    const key = `${definedName.scope}::${definedName.name.toUpperCase()}`;
+    if (this.resolvingNames.has(key)) {
+      return new Error('#CIRC!');
+    }
+
+    const sheet = definedName.scope === 'workbook'
+      ? context.worksheet
+      : workbook.findSheet(definedName.scope) ?? context.worksheet;
+    const refersTo = definedName.refersTo.startsWith('=') ? definedName.refersTo.slice(1) : definedName.refersTo;
+    const body = this.resolveStructuredReferences(refersTo, { ...context, worksheet: sheet });
+
+    this.resolvingNames.add(key);
+    try {
+      return this.evaluateExpression(body, { ...context, worksheet: sheet });
+    } finally {
+      this.resolvingNames.delete(key);
+    }
+  }
+
+  /**
+   * Resolve the sheet (or 3-D span of sheets) a qualified reference points at.
+   */
+  private resolveSheets(ref: SheetQualifiedRef, context: FormulaContext): Worksheet[] {
+    const workbook = context.worksheet.getWorkbook?.();
+    if (workbook) return workbook.resolveSheetSpan(ref.sheet, ref.endSheet ?? ref.sheet);
+
+    const own = context.worksheet;
+    const matchesOwn = isSameSheetName(ref.sheet, own.name) &&
+      (ref.endSheet === undefined || isSameSheetName(ref.endSheet, own.name));
+    return matchesOwn ? [own] : [];
+  }
+
   /**
    * Parses cell reference (e.g., "A1" -> {row: 1, col: 1})
-   * Returns 1-based Address per type contract
+   * Returns 1-based Address per type contract, the grid sheets, files and
+   * the UI share
    */
   private parseCellReference(ref: string): Address {
-    const match = ref.match(/^([A-Z]+)(\d+)$/i);
+    // `$` anchors only matter when a formula is copied; they don't change the address
+    const match = ref.replace(/\$/g, '').match(/^([A-Z]+)(\d+)$/i);
     if (!match) throw new Error('Invalid cell reference');
 
     const colStr = match[1].toUpperCase();
@@ -1317,11 +1546,7 @@ export class FormulaEngine {
     for (let i = 0; i < colStr.length; i++) {
       col = col * 26 + (colStr.charCodeAt(i) - 65 + 1);
     }
-    // Return 0-based coordinates (A1 = row 0, col 0)
-    const row = parseInt(rowStr, 10) - 1; // Excel rows are 1-based, internal is 0-based
-    col = col - 1; // Excel cols are 1-based (A=1), internal is 0-based (A=0)
-
-    return { row, col };
+    return { row: parseInt(rowStr, 10), col };
   }
 
   /**
@@ -1468,7 +1693,7 @@ export class FormulaEngine {
     let base: FormulaValue;
     
     // Check if base is a simple cell reference
-    if (/^[A-Z]+\d+$/i.test(baseExpr)) {
+    if (CELL_REF_PATTERN.test(baseExpr)) {
       // Direct cell reference - get raw value to preserve EntityValue
       const addr = this.parseCellReference(baseExpr);
       this.dependencyGraph.addDependency(context.currentCell, addr);
@@ -1549,7 +1774,7 @@ export class FormulaEngine {
     let base: FormulaValue;
     
     // Check if base is a simple cell reference
-    if (/^[A-Z]+\d+$/i.test(baseExpr)) {
+    if (CELL_REF_PATTERN.test(baseExpr)) {
       // Direct cell reference - get raw value to preserve EntityValue
       const addr = this.parseCellReference(baseExpr);
       this.dependencyGraph.addDependency(context.currentCell, addr);
@@ -1697,7 +1922,7 @@ export class FormulaEngine {
         // so it can be used in function calls later
         let varValue: FormulaValue;
         
-        if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(varValueExpr.trim())) {
+        if (RANGE_REF_PATTERN.test(varValueExpr.trim())) {
           // This is a range reference - store as string to be parsed by functions
           varValue = varValueExpr.trim();
         } else {
@@ -1755,7 +1980,7 @@ export class FormulaEngine {
       
       // Evaluate the array (could be a range)
       let array: FormulaValue[];
-      if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(rawArgs[0].trim())) {
+      if (RANGE_REF_PATTERN.test(rawArgs[0].trim())) {
         // It's a range reference
         array = this.evaluateRangeReference(rawArgs[0].trim(), context);
       } else {
@@ -1798,7 +2023,7 @@ export class FormulaEngine {
       
       // Evaluate the array (could be a range)
       let array: FormulaValue[];
-      if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(rawArgs[1].trim())) {
+      if (RANGE_REF_PATTERN.test(rawArgs[1].trim())) {
         // It's a range reference
         array = this.evaluateRangeReference(rawArgs[1].trim(), context);
       } else {
@@ -1859,7 +2084,7 @@ export class FormulaEngine {
       
       // Evaluate the array (could be a range)
       let array: FormulaValue[];
-      if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(arrayArg.trim())) {
+      if (RANGE_REF_PATTERN.test(arrayArg.trim())) {
         // It's a range reference
         array = this.evaluateRangeReference(arrayArg.trim(), context);
       } else {
@@ -1925,7 +2150,7 @@ export class FormulaEngine {
       
       // Evaluate the array (should be 2D, but we'll treat 1D as single row)
       let array: FormulaValue[];
-      if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(rawArgs[0].trim())) {
+      if (RANGE_REF_PATTERN.test(rawArgs[0].trim())) {
         // It's a range reference
         array = this.evaluateRangeReference(rawArgs[0].trim(), context);
       } else {
@@ -1935,7 +2160,7 @@ export class FormulaEngine {
         
         // If result is a string that looks like a range (e.g., from LET variable),
         // evaluate it as a range
-        if (typeof arrayResult === 'string' && /^[A-Z]+\d+:[A-Z]+\d+$/i.test(arrayResult)) {
+        if (typeof arrayResult === 'string' && RANGE_REF_PATTERN.test(arrayResult)) {
           array = this.evaluateRangeReference(arrayResult, context);
         } else {
           array = Array.isArray(arrayResult) ? arrayResult : [arrayResult];
@@ -2058,7 +2283,7 @@ export class FormulaEngine {
       
       // Evaluate the array (should be 2D, but we'll treat 1D as single column)
       let array: FormulaValue[];
-      if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(rawArgs[0].trim())) {
+      if (RANGE_REF_PATTERN.test(rawArgs[0].trim())) {
         // It's a range reference
         array = this.evaluateRangeReference(rawArgs[0].trim(), context);
       } else {
@@ -2068,7 +2293,7 @@ export class FormulaEngine {
         
         // If result is a string that looks like a range (e.g., from LET variable),
         // evaluate it as a range
-        if (typeof arrayResult === 'string' && /^[A-Z]+\d+:[A-Z]+\d+$/i.test(arrayResult)) {
+        if (typeof arrayResult === 'string' && RANGE_REF_PATTERN.test(arrayResult)) {
           array = this.evaluateRangeReference(arrayResult, context);
         } else {
           array = Array.isArray(arrayResult) ? arrayResult : [arrayResult];
@@ -2106,6 +2331,42 @@ export class FormulaEngine {
       return [result];
     }
 
+    // Special handling for GETPIVOTDATA - the pivot_table argument locates the
+    // pivot by its anchor cell, so a cell reference is passed as its address
+    if (name.toUpperCase() === 'GETPIVOTDATA') {
+      const pivotMetadata = this.functionRegistry.getMetadata('GETPIVOTDATA');
+      if (!pivotMetadata) return new Error('#NAME?');
+
+      const args = this.parseRawArguments(argsStr).map((raw, i) => {
+        const text = raw.trim();
+        return i === 1 && CELL_REF_PATTERN.test(text)
+          ? this.parseCellReference(text) as unknown as FormulaValue
+          : this.evaluateExpression(text, context);
+      });
+      return this.invokeFunction(name, pivotMetadata, args, context);
+    }
+
+    // Special handling for GROUPBY / PIVOTBY - table arguments keep their
+    // rows x columns shape, and the function argument becomes an Aggregator
+    const aggregatorIndex = AGGREGATOR_ARG_INDEX[name.toUpperCase()];
+    if (aggregatorIndex !== undefined) {
+      const groupingMetadata = this.functionRegistry.getMetadata(name.toUpperCase());
+      if (!groupingMetadata) return new Error('#NAME?');
+
+      const rawArgs = this.parseRawArguments(argsStr);
+      const args: FormulaValue[] = [];
+      for (let i = 0; i < rawArgs.length; i++) {
+        if (i === aggregatorIndex) {
+          const aggregator = this.resolveAggregator(rawArgs[i], context);
+          if (aggregator instanceof Error) return aggregator;
+          args.push(aggregator as unknown as FormulaValue);
+        } else {
+          args.push(this.evaluateTableArgument(rawArgs[i], context));
+        }
+      }
+      return this.invokeFunction(name, groupingMetadata, args, context);
+    }
+
     // Now check if it's a registered function
     const funcMetadata = this.functionRegistry.getMetadata(name.toUpperCase());
     
@@ -2132,8 +2393,19 @@ export class FormulaEngine {
       return new Error('#NAME?');
     }
 
-    const args = this.parseArguments(argsStr, context);
-    
+    return this.invokeFunction(name, funcMetadata, this.parseArguments(argsStr, context), context);
+  }
+
+  /**
+   * Runs a registered function on already-evaluated arguments, broadcasting
+   * over array arguments or routing through the metadata's error strategy.
+   */
+  private invokeFunction(
+    name: string,
+    funcMetadata: FunctionMetadata,
+    args: FormulaValue[],
+    context: FormulaContext
+  ): FormulaValue {
     // Extract the function handler
     const func = funcMetadata.handler;
     
@@ -2168,6 +2440,70 @@ export class FormulaEngine {
     }
   }
 
+  /**
+   * Evaluates a GROUPBY/PIVOTBY argument.  A plain range becomes a 2D array
+   * (one inner array per row) instead of the flat list other functions get;
+   * an omitted argument stays undefined.
+   */
+  private evaluateTableArgument(raw: string, context: FormulaContext): FormulaValue {
+    const expr = raw.trim();
+    if (expr === '') return undefined as any;
+
+    const value = RANGE_REF_PATTERN.test(expr) ? expr : this.evaluateExpression(expr, context);
+    if (typeof value !== 'string' || !RANGE_REF_PATTERN.test(value)) return value;
+
+    const [start, end] = value.split(':').map(ref => this.parseCellReference(ref));
+    const width = end.col - start.col + 1;
+    const flat = this.evaluateRangeReference(value, context);
+    const rows: FormulaValue[][] = [];
+    for (let i = 0; i < flat.length; i += width) rows.push(flat.slice(i, i + width));
+    return rows;
+  }
+
+  /**
+   * Turns the function argument of GROUPBY/PIVOTBY into an Aggregator.
+   *
+   * Accepts a bare function name (SUM, PERCENTOF), a named or LET-bound
+   * lambda, or a LAMBDA expression.  Two-parameter functions also receive
+   * the comparison set, which is how PERCENTOF gets its denominator.
+   */
+  private resolveAggregator(raw: string, context: FormulaContext): Aggregator | Error {
+    const expr = raw.trim();
+    const upperName = expr.toUpperCase();
+
+    let lambda: LambdaFunction | undefined = context.namedLambdas?.get(upperName) ?? context.namedLambdas?.get(expr);
+    if (!lambda && FUNCTION_NAME_PATTERN.test(expr) && !context.lambdaContext?.has(expr)) {
+      const metadata = this.functionRegistry.getMetadata(upperName);
+      if (!metadata) return new Error('#NAME?');
+      const takesAll = (metadata.minArgs ?? 1) >= 2;
+      return (values, all) => this.invokeFunction(upperName, metadata, takesAll ? [values, all] : [values], context);
+    }
+
+    if (!lambda) {
+      const value = this.evaluateExpression(expr, context);
+      if (value instanceof Error) return value;
+      lambda = value as unknown as LambdaFunction;
+    }
+    if (!lambda?.parameters || !lambda.body || lambda.parameters.length < 1 || lambda.parameters.length > 2) {
+      return new Error('#VALUE!');
+    }
+
+    const fn = lambda;
+    return (values, all) => {
+      // Bind the arrays directly, as BYROW does, rather than re-parsing text
+      const lambdaContext = new Map<string, FormulaValue>(fn.capturedContext || []);
+      lambdaContext.set(fn.parameters[0], values);
+      if (fn.parameters.length === 2) lambdaContext.set(fn.parameters[1], all);
+      return this.evaluateExpression(fn.body, {
+        worksheet: context.worksheet,
+        currentCell: context.currentCell,
+        namedLambdas: context.namedLambdas,
+        lambdaContext,
+        recursionDepth: (context.recursionDepth || 0) + 1,
+      });
+    };
+  }
+
   /**
    * Check if a function expects array arguments (doesn't need broadcasting)
    */
@@ -2178,6 +2514,7 @@ export class FormulaEngine {
                         'MAX', 'MIN', 'SUMIF', 'AVERAGEIF', 'COUNTIF',
                         'SUMIFS', 'AVERAGEIFS', 'COUNTIFS', 'MAXIFS', 'MINIFS',
                         'TAKE', 'DROP', 'CHOOSECOLS', 'CHOOSEROWS', 'TEXTSPLIT', 'TEXTJOIN',
+                        'GROUPBY', 'PIVOTBY', 'PERCENTOF',
                         // Statistical functions that aggregate arrays
                         'AVERAGEA', 'MEDIAN', 'MODE', 'MODE.SNGL', 'MODE.MULT',
                         'STDEV', 'STDEV.S', 'STDEV.P', 'STDEVPA', 'STDEVA',
@@ -2250,16 +2587,21 @@ export class FormulaEngine {
     let current = '';
     let depth = 0;
     let inString = false;
+    let inSheetName = false; // inside 'quoted sheet'!A1
     let lastWasComma = false;
 
     for (let i = 0; i < argsStr.length; i++) {
       const char = argsStr[i];
 
-      if (char === '"') {
+      if (char === '"' && !inSheetName) {
         inString = !inString;
         current += char;
         lastWasComma = false;
-      } else if (!inString) {
+      } else if (char === "'" && !inString) {
+        inSheetName = !inSheetName;
+        current += char;
+        lastWasComma = false;
+      } else if (!inString && !inSheetName) {
         if (char === '(') {
           depth++;
           current += char;
@@ -2303,16 +2645,21 @@ export class FormulaEngine {
     let current = '';
     let depth = 0;
     let inString = false;
+    let inSheetName = false; // inside 'quoted sheet'!A1
     let lastWasComma = false;
 
     for (let i = 0; i < argsStr.length; i++) {
       const char = argsStr[i];
 
-      if (char === '"') {
+      if (char === '"' && !inSheetName) {
         inString = !inString;
         current += char;
         lastWasComma = false;
-      } else if (!inString) {
+      } else if (char === "'" && !inString) {
+        inSheetName = !inSheetName;
+        current += char;
+        lastWasComma = false;
+      } else if (!inString && !inSheetName) {
         if (char === '(') {
           depth++;
           current += char;
@@ -2326,7 +2673,7 @@ export class FormulaEngine {
           // Handle empty argument (e.g., "a,,b" or "a, ,b")
           if (token === '') {
             args.push(undefined as any);
-          } else if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(token)) {
+          } else if (RANGE_REF_PATTERN.test(token)) {
             // Spread range values into args array
             const rangeValues = this.evaluateRangeReference(token, context);
             args.push(rangeValues as any);
@@ -2334,7 +2681,7 @@ export class FormulaEngine {
             const result = this.evaluateExpression(token, context);
             // If result is a string that looks like a range (e.g., from LET variable),
             // evaluate it as a range
-            if (typeof result === 'string' && /^[A-Z]+\d+:[A-Z]+\d+$/i.test(result)) {
+            if (typeof result === 'string' && RANGE_REF_PATTERN.test(result)) {
               const rangeValues = this.evaluateRangeReference(result, context);
               args.push(rangeValues as any);
             } else {
@@ -2361,7 +2708,7 @@ export class FormulaEngine {
       if (token === '') {
         // Empty last argument (e.g., "a,b," or "a,,")
         args.push(undefined as any);
-      } else if (/^[A-Z]+\d+:[A-Z]+\d+$/i.test(token)) {
+      } else if (RANGE_REF_PATTERN.test(token)) {
         // Spread range values into args array
         const rangeValues = this.evaluateRangeReference(token, context);
         args.push(rangeValues as any);
@@ -2369,7 +2716,7 @@ export class FormulaEngine {
         const result = this.evaluateExpression(token, context);
         // If result is a string that looks like a range (e.g., from LET variable),
         // evaluate it as a range
-        if (typeof result === 'string' && /^[A-Z]+\d+:[A-Z]+\d+$/i.test(result)) {
+        if (typeof result === 'string' && RANGE_REF_PATTERN.test(result)) {
           const rangeValues = this.evaluateRangeReference(result, context);
           args.push(rangeValues as any);
         } else {
@@ -2455,8 +2802,19 @@ export class FormulaEngine {
 
   /**
    * Recalculates all cells that depend on the given cell
+   *
+   * In manual calculation mode the change is only recorded: the sheet keeps
+   * the cell dirty until the workbook's calculateNow(), and nothing is
+   * recalculated here.
    */
   recalculate(worksheet: Worksheet, changedCell: Address): Address[] {
+    const calculation = worksheet.getWorkbook()?.getCalculationController();
+    if (calculation && !calculation.isAutomatic()) {
+      worksheet.notifyChanged(changedCell);
+      calculation.markNeedsRecalc();
+      return [];
+    }
+
     const dependents = this.dependencyGraph.getDependents(changedCell);
     const toRecalc = this.dependencyGraph.getTopologicalOrder(dependents);
 
@@ -14,6 +14,8 @@
  */
 
 import type { Address } from './types';
+import { parseSheetQualifiedRef, isSameSheetName, quoteSheetName } from './utils/sheet-reference';
+import { scanStructuredReference } from './utils/structured-references';
 
 /**
  * Excel limits (0-indexed internally)
@@ -77,10 +79,24 @@ export interface FunctionToken {
 
 export interface SheetRefToken {
   type: 'SHEET_REF';
-  sheet: string;      // Sheet name
+  sheet: string;      // Sheet prefix as written, without '!' (e.g., "Sheet2", "'My Sheet'", "Sheet1:Sheet3")
   ref: CellRefToken | RangeToken;
 }
 
+/**
+ * Rows or columns inserted into / deleted from a sheet.
+ *
+ * Unlike copy/paste shifting, a structural change moves every reference that
+ * points at or past `index` — including `$`-anchored ones — because the cells
+ * themselves moved.
+ */
+export interface StructuralChange {
+  axis: 'row' | 'col';
+  index: number;      // 1-based first row/column inserted or deleted, as on the sheet
+  count: number;      // > 0 inserts `count` rows/cols, < 0 deletes `-count`
+  sheet?: string;     // Sheet that changed; omitted = every reference is affected
+}
+
 /**
  * FormulaShiftingService - Token-based reference transformation
  * 
@@ -130,6 +146,172 @@ export class FormulaShiftingService {
     return this.rebuild(transformedTokens);
   }
 
+  /**
+   * Rewrite references after rows/columns are inserted or deleted
+   *
+   * References into a deleted band become #REF!; ranges that only partly
+   * overlap the band shrink. Anchors ($) are preserved.
+   *
+   * @param formula - Formula string (with leading =)
+   * @param change - The structural change
+   * @param hostSheet - Sheet that unqualified references point at
+   *                    (omitted = unqualified references are always affected)
+   * @returns Rewritten formula string
+   *
+   * @example
+   * adjustForStructuralChange("=Sheet1!$A$5", { axis: 'row', index: 3, count: 1, sheet: 'Sheet1' })
+   * // Returns: "=Sheet1!$A$6"
+   */
+  static adjustForStructuralChange(
+    formula: string,
+    change: StructuralChange,
+    hostSheet?: string
+  ): string {
+    const tokens = this.tokenize(formula);
+
+    const adjusted = tokens.map(token => {
+      if (token.type !== 'CELL_REF' && token.type !== 'RANGE' && token.type !== 'SHEET_REF') {
+        return token;
+      }
+      if (!this.isAffectedBy(token, change, hostSheet)) return token;
+
+      return token.type === 'SHEET_REF'
+        ? this.adjustSheetRef(token, change)
+        : this.adjustRef(token, change);
+    });
+
+    // rebuild() always emits a leading '='; keep the caller's form
+    const rebuilt = this.rebuild(adjusted);
+    return formula.startsWith('=') ? rebuilt : rebuilt.slice(1);
+  }
+
+  /**
+   * Point sheet-qualified references at a renamed sheet, or at nothing
+   *
+   * With `to` set, every reference to `from` (including either end of a 3-D
+   * span) is rewritten to `to`, quoted when the new name needs it. With `to`
+   * null the sheet was removed and the whole reference becomes #REF!.
+   * Unqualified references and other sheets are left alone.
+   *
+   * @param formula - Formula string (with or without leading =)
+   * @param from - Current sheet name (matched case-insensitively)
+   * @param to - New sheet name, or null when the sheet was removed
+   * @returns Rewritten formula string
+   *
+   * @example
+   * renameSheetReferences("=Data!A1+'Q1 Plan'!B2", 'Data', 'Raw Data')
+   * // Returns: "='Raw Data'!A1+'Q1 Plan'!B2"
+   */
+  static renameSheetReferences(formula: string, from: string, to: string | null): string {
+    const tokens = this.tokenize(formula);
+
+    const renamed = tokens.map((token): Token => {
+      if (token.type !== 'SHEET_REF') return token;
+      const parsed = parseSheetQualifiedRef(`${token.sheet}!A1`);
+      if (!parsed) return token;
+
+      const first = isSameSheetName(parsed.sheet, from);
+      const last = parsed.endSheet !== undefined && isSameSheetName(parsed.endSheet, from);
+      if (!first && !last) return token;
+      if (to === null) return { type: 'SYMBOL', value: '#REF!' };
+
+      const start = first ? to : parsed.sheet;
+      const names = parsed.endSheet === undefined ? start : `${start}:${last ? to : parsed.endSheet}`;
+      return { ...token, sheet: quoteSheetName(names) };
+    });
+
+    const rebuilt = this.rebuild(renamed);
+    return formula.startsWith('=') ? rebuilt : rebuilt.slice(1);
+  }
+
+  /**
+   * Does a reference token point at the sheet that changed?
+   */
+  private static isAffectedBy(
+    token: CellRefToken | RangeToken | SheetRefToken,
+    change: StructuralChange,
+    hostSheet: string | undefined
+  ): boolean {
+    if (change.sheet === undefined) return true;
+    if (token.type !== 'SHEET_REF') {
+      return hostSheet === undefined || isSameSheetName(hostSheet, change.sheet);
+    }
+    const parsed = parseSheetQualifiedRef(`${token.sheet}!A1`);
+    // 3-D spans are left alone: the change only touches one sheet of the span
+    if (!parsed || parsed.endSheet !== undefined) return false;
+    return isSameSheetName(parsed.sheet, change.sheet);
+  }
+
+  private static adjustSheetRef(token: SheetRefToken, change: StructuralChange): Token {
+    const adjusted = this.adjustRef(token.ref, change);
+    if (adjusted.type === 'SYMBOL') return adjusted;
+    return { ...token, ref: adjusted };
+  }
+
+  /**
+   * Move a cell or range reference across an inserted/deleted band
+   */
+  private static adjustRef(
+    token: CellRefToken | RangeToken,
+    change: StructuralChange
+  ): CellRefToken | RangeToken | SymbolToken {
+    const axis = change.axis;
+    const coord = (ref: CellRefToken) => axis === 'row' ? ref.row : ref.col;
+    const moveTo = (ref: CellRefToken, value: number): CellRefToken =>
+      axis === 'row' ? this.withPosition(ref, value, ref.col) : this.withPosition(ref, ref.row, value);
+    const max = axis === 'row' ? MAX_ROW : MAX_COL;
+    const index = change.index - 1;   // Tokens are 0-indexed
+
+    if (change.count > 0) {
+      const insert = (ref: CellRefToken): CellRefToken | null => {
+        const c = coord(ref);
+        if (c < index) return ref;
+        return c + change.count > max ? null : moveTo(ref, c + change.count);
+      };
+      if (token.type === 'CELL_REF') {
+        return insert(token) ?? { type: 'SYMBOL', value: '#REF!' };
+      }
+      const start = insert(token.start);
+      // A range pushed past the sheet edge is clipped at the last row/column
+      const end = insert(token.end) ?? moveTo(token.end, max);
+      if (!start) return { type: 'SYMBOL', value: '#REF!' };
+      return { type: 'RANGE', start, end };
+    }
+
+    const first = index;
+    const last = index - change.count - 1;   // Inclusive end of deleted band
+    const removed = last - first + 1;
+
+    if (token.type === 'CELL_REF') {
+      const c = coord(token);
+      if (c < first) return token;
+      if (c <= last) return { type: 'SYMBOL', value: '#REF!' };
+      return moveTo(token, c - removed);
+    }
+
+    const s = coord(token.start);
+    const e = coord(token.end);
+    if (s >= first && e <= last) return { type: 'SYMBOL', value: '#REF!' };
+    const newStart = s < first ? s : s <= last ? first : s - removed;
+    const newEnd = e < first ? e : e <= last ? first - 1 : e - removed;
+    if (newStart === s && newEnd === e) return token;
+    return { type: 'RANGE', start: moveTo(token.start, newStart), end: moveTo(token.end, newEnd) };
+  }
+
+  /**
+   * Copy a cell reference token to a new position, keeping its anchors
+   */
+  private static withPosition(token: CellRefToken, row: number, col: number): CellRefToken {
+    const colAbs = token.colAbs ? '$' : '';
+    const rowAbs = token.rowAbs ? '$' : '';
+    return {
+      ...token,
+      value: `${colAbs}${this.columnIndexToLetters(col)}${rowAbs}${row + 1}`,
+      row,
+      col,
+    };
+  }
+
   /**
    * Tokenize formula into structured tokens
    * O(n) single-pass lexer
@@ -160,29 +342,32 @@ export class FormulaShiftingService {
         continue;
       }
 
+      // Structured reference: Sales[Amount], [@Qty]. Kept verbatim, so a
+      // column named like a cell ([Q1]) is not shifted
+      const structured = scanStructuredReference(formula, i);
+      if (structured) {
+        tokens.push({ type: 'SYMBOL', value: structured.text });
+        i = structured.end;
+        continue;
+      }
+
+      // Sheet-qualified reference: Sheet2!A1, 'My Sheet'!$A$1:B2, Sheet1:Sheet3!B2
+      // Checked before cell refs so a prefix like Q1! is not shifted as a cell.
+      const sheetEnd = this.matchSheetPrefix(formula, i);
+      if (sheetEnd !== -1 && this.isCellRefStart(formula, sheetEnd + 1)) {
+        const ref = this.parseCellOrRange(formula, sheetEnd + 1);
+        tokens.push({
+          type: 'SHEET_REF',
+          sheet: formula.substring(i, sheetEnd),
+          ref: ref.token
+        });
+        i = ref.endIndex;
+        continue;
+      }
+
       // Cell reference pattern: $?[A-Z]+$?[0-9]+
       if (this.isCellRefStart(formula, i)) {
-        const ref = this.parseCellRef(formula, i);
-        
-        // Check for range (next non-space char is ':')
-        const nextNonSpace = this.skipWhitespace(formula, ref.endIndex);
-        if (nextNonSpace < formula.length && formula[nextNonSpace] === ':') {
-          // This is a range start
-          const colonPos = nextNonSpace;
-          const endRefPos = this.skipWhitespace(formula, colonPos + 1);
-          
-          if (this.isCellRefStart(formula, endRefPos)) {
-            const endRef = this.parseCellRef(formula, endRefPos);
-            tokens.push({
-              type: 'RANGE',
-              start: ref.token,
-              end: endRef.token
-            });
-            i = endRef.endIndex;
-            continue;
-          }
-        }
-        
+        const ref = this.parseCellOrRange(formula, i);
         tokens.push(ref.token);
         i = ref.endIndex;
         continue;
@@ -234,6 +419,12 @@ export class FormulaShiftingService {
       return this.shiftCellRef(token, rowOffset, colOffset);
     }
 
+    if (token.type === 'SHEET_REF') {
+      const shifted = this.transformToken(token.ref, rowOffset, colOffset);
+      if (shifted.type === 'SYMBOL') return shifted;
+      return { ...token, ref: shifted as CellRefToken | RangeToken };
+    }
+
     if (token.type === 'RANGE') {
       const shiftedStart = this.shiftCellRef(token.start, rowOffset, colOffset);
       const shiftedEnd = this.shiftCellRef(token.end, rowOffset, colOffset);
@@ -326,6 +517,89 @@ export class FormulaShiftingService {
 
   // ==================== LEXER HELPERS ====================
 
+  /**
+   * Parse a cell reference, extending it to a range when followed by ':'
+   */
+  private static parseCellOrRange(formula: string, pos: number): { token: CellRefToken | RangeToken; endIndex: number } {
+    const ref = this.parseCellRef(formula, pos);
+
+    // Check for range (next non-space char is ':')
+    const nextNonSpace = this.skipWhitespace(formula, ref.endIndex);
+    if (nextNonSpace < formula.length && formula[nextNonSpace] === ':') {
+      const endRefPos = this.skipWhitespace(formula, nextNonSpace + 1);
+
+      if (this.isCellRefStart(formula, endRefPos)) {
+        const endRef = this.parseCellRef(formula, endRefPos);
+        return {
+          token: { type: 'RANGE', start: ref.token, end: endRef.token },
+          endIndex: endRef.endIndex
+        };
+      }
+    }
+
+    return ref;
+  }
+
+  /**
+   * Match a sheet prefix ending in '!' at position
+   *
+   * Accepts a quoted name ('My Sheet', quotes escaped as '') or a bare
+   * identifier, optionally spanning two sheets (Sheet1:Sheet3).
+   *
+   * @returns Index of the '!' or -1 if no sheet prefix starts here
+   */
+  private static matchSheetPrefix(formula: string, pos: number): number {
+    // Prefix must not continue an identifier (e.g., the "B1" in "AB1!")
+    if (pos > 0 && this.isNameChar(formula[pos - 1])) return -1;
+
+    let i = pos;
+    if (formula[i] === "'") {
+      i++;
+      while (i < formula.length) {
+        if (formula[i] === "'") {
+          if (formula[i + 1] === "'") {
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        i++;
+      }
+      if (i >= formula.length || i === pos + 1) return -1;
+      i++; // Closing quote
+    } else {
+      const first = this.skipName(formula, i);
+      if (first === i) return -1;
+      i = first;
+      if (formula[i] === ':') {
+        const second = this.skipName(formula, i + 1);
+        if (second === i + 1) return -1;
+        i = second;
+      }
+    }
+
+    return formula[i] === '!' ? i : -1;
+  }
+
+  /**
+   * Skip a bare sheet name ([A-Za-z_][A-Za-z0-9_.]*) and return the end position
+   */
+  private static skipName(formula: string, pos: number): number {
+    if (pos >= formula.length || this.isDigit(formula[pos]) || formula[pos] === '.') return pos;
+    let i = pos;
+    while (i < formula.length && this.isNameChar(formula[i])) {
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * Check if character may appear in a bare sheet name
+   */
+  private static isNameChar(char: string): boolean {
+    return /[\p{L}\p{N}_.]/u.test(char);
+  }
+
   /**
    * Check if position starts a cell reference
    * 
@@ -333,6 +607,7 @@ export class FormulaShiftingService {
    * Must have digits after column letters
    */
   private static isCellRefStart(formula: string, pos: number): boolean {
+    if (pos >= formula.length) return false;
     let i = pos;
     const char = formula[i];
     
@@ -63,6 +63,11 @@ export class InsertColumnCommand implements TransformCommand {
     const k = this.insertAt;
     const transform = this.getTransform();
 
+    // Defined names keep pointing at the same cells
+    this.worksheet.getWorkbook()?.getNameManager().adjustForStructuralChange({
+      axis: 'col', index: k, count: 1, sheet: this.worksheet.name,
+    });
+
     // STEP 1: Extract affected cells
     // CRITICAL: Affected region includes:
     // 1. Cells in shifted region (col >= k)
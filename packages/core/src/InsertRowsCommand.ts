@@ -0,0 +1,46 @@
+import type { TransformCommand } from './CommandManager';
+import type { Worksheet } from './worksheet';
+import { AddressTransform, InsertRowsTransform, DeleteRowsTransform } from './dag/AddressTransform';
+
+/**
+ * InsertRowsCommand - Insert `count` empty rows before row k
+ *
+ * The row shift itself (cells, formulas on every sheet, defined names,
+ * merges, validation, CF ranges, hidden rows, filter and freeze panes) is
+ * done by Worksheet.insertRows(); this command only makes it undoable.
+ */
+export class InsertRowsCommand implements TransformCommand {
+  description = 'Insert Rows';
+
+  private executed = false;
+
+  constructor(
+    private readonly worksheet: Worksheet,
+    private readonly insertAt: number,
+    private readonly count: number = 1
+  ) {}
+
+  getTransform(): AddressTransform {
+    return new InsertRowsTransform(this.insertAt, this.count, this.worksheet.name);
+  }
+
+  getUndoTransform(): AddressTransform {
+    // Inverse of insert(k, n) is delete(k, n) in CURRENT coordinate space
+    return new DeleteRowsTransform(this.insertAt, this.count, this.worksheet.name);
+  }
+
+  execute(): void {
+    this.worksheet.insertRows(this.insertAt, this.count);
+    this.executed = true;
+  }
+
+  undo(): void {
+    if (!this.executed) {
+      throw new Error('Cannot undo before execute');
+    }
+
+    // The inserted rows are empty unless edited since; either way they go
+    this.worksheet.deleteRows(this.insertAt, this.count);
+    this.executed = false;
+  }
+}
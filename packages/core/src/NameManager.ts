@@ -5,6 +5,9 @@
  * Named ranges allow human-readable labels for cells or ranges.
  */
 
+import { FormulaShiftingService, type StructuralChange } from './FormulaShiftingService';
+import { isSameSheetName } from './utils/sheet-reference';
+
 // ─── Simple event emitter ───────────────────────────────────────────────────
 
 class EventEmitter {
@@ -217,6 +220,102 @@ export class NameManager {
     return definedName?.refersTo;
   }
 
+  /**
+   * Look up a name the way a formula on `sheet` sees it: a sheet-scoped
+   * name shadows a workbook-scoped name with the same spelling.
+   */
+  lookupName(name: string, sheet?: string): DefinedName | undefined {
+    if (sheet !== undefined) {
+      const local = this.names.get(this.getKey(name, sheet));
+      if (local) return local;
+    }
+    return this.names.get(this.getKey(name, 'workbook'));
+  }
+
+  /**
+   * Rewrite every name's refersTo after rows/columns were inserted into or
+   * deleted from a sheet, so each name keeps pointing at the same cells.
+   * Unqualified references in a sheet-scoped name are taken to point at its
+   * own sheet.
+   */
+  adjustForStructuralChange(change: StructuralChange): void {
+    let changed = false;
+
+    for (const definedName of this.names.values()) {
+      const hostSheet = definedName.scope === 'workbook' ? undefined : definedName.scope;
+      const refersTo = FormulaShiftingService.adjustForStructuralChange(definedName.refersTo, change, hostSheet);
+      if (refersTo === definedName.refersTo) continue;
+
+      definedName.refersTo = refersTo;
+      changed = true;
+      this.eventEmitter.emit('nameUpdated', definedName);
+    }
+
+    if (changed) {
+      this.eventEmitter.emit('namesChanged');
+    }
+  }
+
+  /**
+   * Rewrite every name's refersTo with `rewrite` (used when a table or one
+   * of its columns is renamed, or a table is converted to a range).
+   */
+  rewriteReferences(rewrite: (refersTo: string) => string): void {
+    let changed = false;
+
+    for (const definedName of this.names.values()) {
+      const refersTo = rewrite(definedName.refersTo);
+      if (refersTo === definedName.refersTo) continue;
+
+      definedName.refersTo = refersTo;
+      changed = true;
+      this.eventEmitter.emit('nameUpdated', definedName);
+    }
+
+    if (changed) {
+      this.eventEmitter.emit('namesChanged');
+    }
+  }
+
+  /**
+   * Follow a sheet rename: names scoped to the sheet move to the new scope
+   * and every refersTo that mentions the sheet is rewritten.
+   */
+  renameSheet(from: string, to: string): void {
+    this.rewriteSheet(from, to);
+  }
+
+  /**
+   * Drop the names scoped to a removed sheet; references to it in the
+   * remaining names become #REF!.
+   */
+  removeSheet(sheet: string): void {
+    this.rewriteSheet(sheet, null);
+  }
+
+  private rewriteSheet(from: string, to: string | null): void {
+    const entries = Array.from(this.names.values());
+    this.names.clear();
+
+    for (const definedName of entries) {
+      if (definedName.scope !== 'workbook' && isSameSheetName(definedName.scope, from)) {
+        if (to === null) {
+          this.eventEmitter.emit('nameDeleted', definedName);
+          continue;
+        }
+        definedName.scope = to;
+      }
+      const refersTo = FormulaShiftingService.renameSheetReferences(definedName.refersTo, from, to);
+      if (refersTo !== definedName.refersTo) {
+        definedName.refersTo = refersTo;
+        this.eventEmitter.emit('nameUpdated', definedName);
+      }
+      this.names.set(this.getKey(definedName.name, definedName.scope), definedName);
+    }
+
+    this.eventEmitter.emit('namesChanged');
+  }
+
   /**
    * Get all names (optionally filtered by scope)
    */
@@ -181,8 +181,8 @@ export class PivotInvalidationEngineImpl implements PivotInvalidationEngine {
    * Events NOT handled (not mutation sources):
    * - cell-click, cell-hover, cell-right-click (read-only interaction)
    * - style-changed (visual only, doesn't affect pivot data)
-   * - freeze-panes-changed (display only)
-   * - sheet-protection-changed (access control, not data)
+   * - freeze-panes-changed, outline-changed (display only; collapsing hides rows separately)
+   * - sheet-protection-changed, allow-edit-ranges-changed (access control, not data)
    * - cycle-detected (formula engine concern)
    */
   private onEvent(event: SheetEvents): void {
@@ -251,7 +251,9 @@ export class PivotInvalidationEngineImpl implements PivotInvalidationEngine {
       case 'cell-hover':
       case 'cell-hover-end':
       case 'freeze-panes-changed':
+      case 'outline-changed':
       case 'sheet-protection-changed':
+      case 'allow-edit-ranges-changed':
       case 'cycle-detected':
       case 'comment-added':
       case 'comment-updated':
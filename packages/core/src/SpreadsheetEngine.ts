@@ -273,7 +273,7 @@ export class SpreadsheetEngine {
 
       // Execute callback (mutations allowed)
       // CRITICAL: Reject async callbacks to prevent mutations after state transition
-      const result = callback(this._ws);
+      const result: unknown = callback(this._ws);
       if (result && typeof result === 'object' && 'then' in result) {
         throw new ExecutionError(
           'ILLEGAL_STATE',
@@ -401,7 +401,7 @@ export class SpreadsheetEngine {
     const seen = new Set<string>();
 
     for (const op of patch.ops) {
-      if (op.op === 'setCellValue' || op.op === 'clearCell') {
+      if (op.op === 'setCellValue' || op.op === 'setCellFormula' || op.op === 'clearCell') {
         const key = `${op.row},${op.col}`;
         if (!seen.has(key)) {
           seen.add(key);
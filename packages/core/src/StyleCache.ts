@@ -94,7 +94,9 @@ export function hashStyle(style: CellStyle): number {
     (style.shrinkToFit ? 1 << 4 : 0) |
     (style.strikethrough ? 1 << 5 : 0) |
     (style.superscript ? 1 << 6 : 0) |
-    (style.subscript ? 1 << 7 : 0);
+    (style.subscript ? 1 << 7 : 0) |
+    (style.locked === false ? 1 << 8 : 0) |
+    (style.hidden ? 1 << 9 : 0);
   
   // Mix flags with FNV prime
   if (flags !== 0) {
@@ -315,8 +317,9 @@ export function normalizeStyle(style: CellStyle): CellStyle {
       continue;
     }
     
-    // Phase 1 UI: Normalize boolean flags (false === undefined)
-    if (typeof value === 'boolean' && value === false) {
+    // Phase 1 UI: Normalize boolean flags (false === undefined), except
+    // `locked`, whose default is true
+    if (typeof value === 'boolean' && value === false && key !== 'locked') {
       continue; // Skip false boolean values (same as undefined)
     }
     
@@ -0,0 +1,343 @@
+/**
+ * TableStore.ts
+ *
+ * Excel tables (ListObjects) on a worksheet: a named range with an optional
+ * header row and totals row, one named column per sheet column, an optional
+ * calculated formula per column and a banded table style.
+ *
+ * The store only keeps the definitions and answers geometry questions.
+ * Writing header and totals cells, auto-expansion and formula rewriting are
+ * done by Worksheet, which owns one store.
+ *
+ * Addresses are 0-based, like everywhere else in the kernel.
+ */
+
+import type { Address, CellStyle, Range } from './types';
+import { formatStructuredReference, type StructuredReference } from './utils/structured-references';
+import { quoteSheetName } from './utils/sheet-reference';
+
+// ─── Definitions ────────────────────────────────────────────────────────────
+
+/** Aggregation shown in a column's totals row cell (Excel `totalsRowFunction`). */
+export type TableTotalsFunction =
+  | 'none' | 'sum' | 'min' | 'max' | 'average' | 'count' | 'countNums' | 'stdDev' | 'var' | 'custom';
+
+export interface TableColumn {
+  name: string;
+  /** Calculated column formula, as written in the first data row. */
+  formula?: string;
+  totalsFunction?: TableTotalsFunction;
+  /** Text shown in the totals row instead of an aggregate. */
+  totalsLabel?: string;
+  /** Totals row formula when `totalsFunction` is 'custom'. */
+  totalsFormula?: string;
+}
+
+/** Banding options, as in Excel's `tableStyleInfo`. */
+export interface TableStyleInfo {
+  /** Built-in style name, e.g. 'TableStyleMedium2'; 'None' for no style. */
+  name: string;
+  showRowStripes: boolean;
+  showColumnStripes: boolean;
+  showFirstColumn: boolean;
+  showLastColumn: boolean;
+}
+
+export interface TableDefinition {
+  name: string;
+  /** Whole table, including the header and totals rows. */
+  range: Range;
+  headerRow: boolean;
+  totalsRow: boolean;
+  /** One entry per column of `range`, left to right. */
+  columns: TableColumn[];
+  style: TableStyleInfo;
+}
+
+export interface TableOptions {
+  /** Defaults to the next free `TableN`. */
+  name?: string;
+  /** The first row of the range holds column names (default true). */
+  headerRow?: boolean;
+  /** The last row of the range is a totals row (default false). */
+  totalsRow?: boolean;
+  /** Column settings, left to right; names default to the header cells. */
+  columns?: Array<Partial<TableColumn>>;
+  style?: Partial<TableStyleInfo>;
+}
+
+export const DEFAULT_TABLE_STYLE: TableStyleInfo = {
+  name: 'TableStyleMedium2',
+  showRowStripes: true,
+  showColumnStripes: false,
+  showFirstColumn: false,
+  showLastColumn: false,
+};
+
+/** SUBTOTAL function numbers for totals row aggregates (hidden rows ignored). */
+const SUBTOTAL_CODES: Partial<Record<TableTotalsFunction, number>> = {
+  average: 101,
+  count: 103,
+  countNums: 102,
+  max: 104,
+  min: 105,
+  stdDev: 107,
+  sum: 109,
+  var: 110,
+};
+
+/** Table name rules (the defined-name rules, without the scope lookup). */
+const TABLE_NAME = /^[\p{L}_\\][\p{L}\p{N}._\\]*$/u;
+const CELL_LIKE_NAME = /^(?:[A-Z]{1,3}\d{1,7}|R|C|(?:R\d*)?(?:C\d*))$/i;
+
+/**
+ * Why `name` cannot name a table, or null when it can. Uniqueness is the
+ * caller's business (tables share a namespace with defined names).
+ */
+export function validateTableName(name: string): string | null {
+  if (!name) return 'Table name cannot be empty';
+  if (name.length > 255) return 'Table name cannot exceed 255 characters';
+  if (!TABLE_NAME.test(name)) return `Invalid table name '${name}'`;
+  if (CELL_LIKE_NAME.test(name)) return `Table name '${name}' looks like a cell reference`;
+  return null;
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+/** Rows holding data (the table without its header and totals rows). */
+export function getTableDataRange(table: TableDefinition): Range {
+  return {
+    start: { row: table.range.start.row + (table.headerRow ? 1 : 0), col: table.range.start.col },
+    end: { row: table.range.end.row - (table.totalsRow ? 1 : 0), col: table.range.end.col },
+  };
+}
+
+/** Column index (0-based, within the table) by name, case-insensitive; -1 if none. */
+export function getTableColumnIndex(table: TableDefinition, name: string): number {
+  const upper = name.toUpperCase();
+  return table.columns.findIndex(column => column.name.toUpperCase() === upper);
+}
+
+/** A name not yet used by a column of `columns`: `base`, `base2`, `base3`, … */
+export function uniqueColumnName(columns: readonly TableColumn[], base: string): string {
+  const taken = new Set(columns.map(column => column.name.toUpperCase()));
+  if (!taken.has(base.toUpperCase())) return base;
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${base}${n}`.toUpperCase())) return `${base}${n}`;
+  }
+}
+
+/**
+ * The cells a structured reference selects, or the error it evaluates to.
+ *
+ * @param at - The cell holding the formula (for `@` / `#This Row`)
+ */
+export function resolveStructuredReference(
+  ref: StructuredReference,
+  table: TableDefinition,
+  at: Address
+): Range | '#REF!' | '#VALUE!' {
+  let firstCol = table.range.start.col;
+  let lastCol = table.range.end.col;
+  if (ref.columns) {
+    const first = getTableColumnIndex(table, ref.columns.first);
+    const last = getTableColumnIndex(table, ref.columns.last);
+    if (first === -1 || last === -1) return '#REF!';
+    firstCol = table.range.start.col + Math.min(first, last);
+    lastCol = table.range.start.col + Math.max(first, last);
+  }
+
+  const data = getTableDataRange(table);
+  const items = new Set(ref.items);
+  let rows: { start: number; end: number } | null;
+
+  if (items.size === 0 || (items.size === 1 && items.has('#Data'))) {
+    rows = { start: data.start.row, end: data.end.row };
+  } else if (items.has('#This Row')) {
+    if (items.size > 1) return '#REF!';
+    if (at.row < data.start.row || at.row > data.end.row) return '#VALUE!';
+    rows = { start: at.row, end: at.row };
+  } else if (items.has('#All')) {
+    rows = { start: table.range.start.row, end: table.range.end.row };
+  } else {
+    // #Headers, #Data and #Totals combine only when adjacent
+    const header = table.headerRow ? table.range.start.row : null;
+    const totals = table.totalsRow ? table.range.end.row : null;
+    if (items.has('#Headers') && items.has('#Totals')) return '#REF!';
+    rows = null;
+    if (items.has('#Headers')) {
+      if (header === null) return '#REF!';
+      rows = { start: header, end: items.has('#Data') ? data.end.row : header };
+    }
+    if (items.has('#Totals')) {
+      if (totals === null) {
+        if (!items.has('#Data')) return '#REF!';
+        rows = { start: data.start.row, end: data.end.row };
+      } else {
+        rows = { start: items.has('#Data') ? data.start.row : totals, end: totals };
+      }
+    }
+  }
+
+  if (!rows) return '#REF!';
+  return { start: { row: rows.start, col: firstCol }, end: { row: rows.end, col: lastCol } };
+}
+
+/** `B2:C9` (or `B2` for one cell), qualified with `sheet` when given. */
+export function formatTableRange(range: Range, sheet?: string): string {
+  const start = formatCell(range.start);
+  const end = formatCell(range.end);
+  const text = start === end ? start : `${start}:${end}`;
+  return sheet === undefined ? text : `${quoteSheetName(sheet)}!${text}`;
+}
+
+function formatCell(addr: Address): string {
+  let letters = '';
+  let col = addr.col;
+  while (col > 0) {
+    const remainder = (col - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    col = Math.floor((col - 1) / 26);
+  }
+  return `${letters}${addr.row}`;
+}
+
+/**
+ * Formula for a column's totals row cell, or null when it shows nothing (or
+ * just `totalsLabel`).
+ *
+ * @example
+ * getTotalsRowFormula({ name: 'Amount', totalsFunction: 'sum' })
+ * // '=SUBTOTAL(109,[Amount])'
+ */
+export function getTotalsRowFormula(column: TableColumn): string | null {
+  if (column.totalsFunction === 'custom') return column.totalsFormula ?? null;
+  const code = column.totalsFunction ? SUBTOTAL_CODES[column.totalsFunction] : undefined;
+  if (code === undefined) return null;
+  const ref = formatStructuredReference({ items: [], columns: { first: column.name, last: column.name } });
+  return `=SUBTOTAL(${code},${ref})`;
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+interface TableStylePalette {
+  headerFill?: string;
+  headerColor: string;
+  stripeFill: string;
+  accent: string;
+}
+
+/** Colours of the built-in styles in common use, by style name. */
+const TABLE_STYLE_PALETTES: Record<string, TableStylePalette> = {
+  TableStyleLight1:  { headerColor: '#000000', stripeFill: '#D9D9D9', accent: '#000000' },
+  TableStyleLight8:  { headerFill: '#000000', headerColor: '#FFFFFF', stripeFill: '#FFFFFF', accent: '#000000' },
+  TableStyleLight9:  { headerFill: '#4472C4', headerColor: '#FFFFFF', stripeFill: '#FFFFFF', accent: '#4472C4' },
+  TableStyleMedium1: { headerFill: '#000000', headerColor: '#FFFFFF', stripeFill: '#D9D9D9', accent: '#000000' },
+  TableStyleMedium2: { headerFill: '#4472C4', headerColor: '#FFFFFF', stripeFill: '#D9E1F2', accent: '#4472C4' },
+  TableStyleMedium3: { headerFill: '#ED7D31', headerColor: '#FFFFFF', stripeFill: '#FCE4D6', accent: '#ED7D31' },
+  TableStyleMedium4: { headerFill: '#A5A5A5', headerColor: '#FFFFFF', stripeFill: '#EDEDED', accent: '#A5A5A5' },
+  TableStyleMedium5: { headerFill: '#FFC000', headerColor: '#FFFFFF', stripeFill: '#FFF2CC', accent: '#FFC000' },
+  TableStyleMedium6: { headerFill: '#5B9BD5', headerColor: '#FFFFFF', stripeFill: '#DDEBF7', accent: '#5B9BD5' },
+  TableStyleMedium7: { headerFill: '#70AD47', headerColor: '#FFFFFF', stripeFill: '#E2EFDA', accent: '#70AD47' },
+  TableStyleDark1:   { headerFill: '#000000', headerColor: '#FFFFFF', stripeFill: '#595959', accent: '#000000' },
+};
+
+/**
+ * Style a table contributes to one of its cells (header, totals, stripes,
+ * emphasised first/last column), or undefined for none. Unknown built-in
+ * names fall back to TableStyleMedium2's colours.
+ */
+export function getTableCellStyle(table: TableDefinition, addr: Address): CellStyle | undefined {
+  if (table.style.name === 'None') return undefined;
+  const palette = TABLE_STYLE_PALETTES[table.style.name] ?? TABLE_STYLE_PALETTES.TableStyleMedium2;
+  const { range } = table;
+
+  if (table.headerRow && addr.row === range.start.row) {
+    return palette.headerFill
+      ? { bold: true, color: palette.headerColor, fill: palette.headerFill }
+      : { bold: true, border: { bottom: palette.accent } };
+  }
+  if (table.totalsRow && addr.row === range.end.row) {
+    return { bold: true, border: { top: palette.accent } };
+  }
+
+  const style: CellStyle = {};
+  const data = getTableDataRange(table);
+  if (table.style.showRowStripes && (addr.row - data.start.row) % 2 === 0) style.fill = palette.stripeFill;
+  if (table.style.showColumnStripes && (addr.col - range.start.col) % 2 === 0) style.fill = palette.stripeFill;
+  if ((table.style.showFirstColumn && addr.col === range.start.col) ||
+      (table.style.showLastColumn && addr.col === range.end.col)) {
+    style.bold = true;
+  }
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+// ─── Store ──────────────────────────────────────────────────────────────────
+
+/** Deep copy, so callers never share state with the store. */
+export function cloneTable(table: TableDefinition): TableDefinition {
+  return {
+    ...table,
+    range: { start: { ...table.range.start }, end: { ...table.range.end } },
+    columns: table.columns.map(column => ({ ...column })),
+    style: { ...table.style },
+  };
+}
+
+/**
+ * The tables of one worksheet, keyed by name (case-insensitive).
+ */
+export class TableStore {
+  private tables = new Map<string, TableDefinition>();
+
+  get size(): number {
+    return this.tables.size;
+  }
+
+  /** Add or replace a table (replaced by name). */
+  set(table: TableDefinition): void {
+    this.tables.set(table.name.toUpperCase(), table);
+  }
+
+  get(name: string): TableDefinition | undefined {
+    return this.tables.get(name.toUpperCase());
+  }
+
+  delete(name: string): boolean {
+    return this.tables.delete(name.toUpperCase());
+  }
+
+  /** Live definitions in insertion order; copy before handing them out. */
+  getAll(): TableDefinition[] {
+    return Array.from(this.tables.values());
+  }
+
+  /** The table covering `addr` (header and totals rows included). */
+  getAt(addr: Address): TableDefinition | undefined {
+    for (const table of this.tables.values()) {
+      const { start, end } = table.range;
+      if (addr.row >= start.row && addr.row <= end.row && addr.col >= start.col && addr.col <= end.col) {
+        return table;
+      }
+    }
+    return undefined;
+  }
+
+  /** Tables intersecting `range`, except the one named `except`. */
+  getOverlapping(range: Range, except?: string): TableDefinition[] {
+    return this.getAll().filter(table =>
+      table.name.toUpperCase() !== except?.toUpperCase() &&
+      table.range.start.row <= range.end.row && table.range.end.row >= range.start.row &&
+      table.range.start.col <= range.end.col && table.range.end.col >= range.start.col
+    );
+  }
+
+  serialize(): TableDefinition[] {
+    return this.getAll().map(cloneTable);
+  }
+
+  deserialize(tables: readonly TableDefinition[]): void {
+    this.tables.clear();
+    for (const table of tables) this.set(cloneTable(table));
+  }
+}
@@ -7,12 +7,14 @@
  * - Category-based filtering
  * - Ranked suggestions (startsWith > contains > fuzzy)
  * - Function metadata (description, syntax, args)
+ * - Localized function names and separators for the active locale
  * 
  * Week 9 Day 1: Basic Autocomplete Implementation
  */
 
 import type { FunctionRegistry } from '../registry/FunctionRegistry';
 import type { FunctionMetadata, FunctionCategory } from '../types/formula-types';
+import { getFormulaSyntax, localizeFunctionName, type FormulaLocale } from '../utils/formula-localization';
 
 /**
  * Autocomplete suggestion item
@@ -45,15 +47,28 @@ export interface AutocompleteOptions {
 export class FormulaAutocomplete {
   private readonly registry: FunctionRegistry;
   private readonly functionDescriptions: Map<string, string>;
+  private locale: FormulaLocale;
 
-  constructor(registry: FunctionRegistry) {
+  /**
+   * @param registry - Function registry to suggest from
+   * @param locale - Locale whose function names and separators suggestions use
+   */
+  constructor(registry: FunctionRegistry, locale: FormulaLocale = 'en-US') {
     this.registry = registry;
+    this.locale = locale;
     this.functionDescriptions = new Map();
     
     // Initialize function descriptions (can be extended later)
     this.initializeDescriptions();
   }
 
+  /**
+   * Switch the locale suggestions are matched and displayed in
+   */
+  setLocale(locale: FormulaLocale): void {
+    this.locale = locale;
+  }
+
   /**
    * Get autocomplete suggestions for input
    * 
@@ -95,15 +110,16 @@ export class FormulaAutocomplete {
         continue;
       }
       
-      // Calculate match score
-      const matchResult = this.calculateMatch(normalizedInput, funcName, options);
+      // Calculate match score against the name the user sees
+      const displayName = localizeFunctionName(funcName, this.locale);
+      const matchResult = this.calculateMatch(normalizedInput, displayName, options);
       
       if (matchResult.score > 0) {
         suggestions.push({
-          name: funcName,
+          name: displayName,
           category: metadata.category,
           description: this.getDescription(funcName),
-          syntax: this.generateSyntax(funcName, metadata),
+          syntax: this.generateSyntax(displayName, metadata),
           minArgs: metadata.minArgs,
           maxArgs: metadata.maxArgs,
           matchScore: matchResult.score,
@@ -228,6 +244,7 @@ export class FormulaAutocomplete {
       return `${funcName}()`;
     }
     
+    const separator = getFormulaSyntax(this.locale).argumentSeparator;
     const args: string[] = [];
     
     // Required arguments
@@ -239,7 +256,7 @@ export class FormulaAutocomplete {
     if (maxArgs !== minArgs) {
       if (maxArgs === 255) {
         // Variable arguments
-        args.push('[arg' + (minArgs + 1) + ', ...]');
+        args.push('[arg' + (minArgs + 1) + separator + ' ...]');
       } else {
         // Fixed optional arguments
         for (let i = minArgs + 1; i <= Math.min(minArgs + 3, maxArgs); i++) {
@@ -251,7 +268,7 @@ export class FormulaAutocomplete {
       }
     }
     
-    return `${funcName}(${args.join(', ')})`;
+    return `${funcName}(${args.join(separator + ' ')})`;
   }
 
   /**
@@ -408,11 +425,12 @@ export class FormulaAutocomplete {
       const metadata = this.registry.getMetadata(funcName);
       if (!metadata) continue;
       
+      const displayName = localizeFunctionName(funcName, this.locale);
       suggestions.push({
-        name: funcName,
+        name: displayName,
         category: metadata.category,
         description: this.getDescription(funcName),
-        syntax: this.generateSyntax(funcName, metadata),
+        syntax: this.generateSyntax(displayName, metadata),
         minArgs: metadata.minArgs,
         maxArgs: metadata.maxArgs,
         matchScore: 50, // Default score for category browse
@@ -0,0 +1,143 @@
+/**
+ * CollaborationRelay.ts
+ *
+ * Server side of collaboration: fans operations out to every connected
+ * client, keeps the operation log and answers sync requests from it, so
+ * clients that join late or reconnect catch up on what they missed.
+ *
+ * The relay is independent of the network: hosts hand it a RelayConnection
+ * per client (a WebSocket, an in-memory pipe, a message bus channel) and
+ * feed it that client's messages.
+ */
+
+import type { ClientPresence } from '../CollaborationEngine';
+import type { CollaborationMessage, WireOperation } from './CollaborationTransport';
+
+/** Outgoing side of one client's connection */
+export interface RelayConnection {
+  send(message: CollaborationMessage): void;
+}
+
+/** A connected client, as returned by CollaborationRelay.accept() */
+export interface RelaySession {
+  /** Feed a message received from the client */
+  receive(message: CollaborationMessage): void;
+  /** The client went away */
+  close(): void;
+}
+
+/** Durable storage for the operation log */
+export interface RelayStore {
+  /** Operations persisted so far, in log order */
+  load(): WireOperation[];
+  append(operation: WireOperation): void;
+}
+
+/** Keeps the log in memory only */
+export class MemoryRelayStore implements RelayStore {
+  private operations: WireOperation[] = [];
+
+  load(): WireOperation[] {
+    return [...this.operations];
+  }
+
+  append(operation: WireOperation): void {
+    this.operations.push(operation);
+  }
+}
+
+export class CollaborationRelay {
+  private log: WireOperation[];
+  private ids: Set<string>;
+  private sessions = new Map<RelayConnection, ClientPresence | null>();
+
+  constructor(private readonly store: RelayStore = new MemoryRelayStore()) {
+    this.log = store.load();
+    this.ids = new Set(this.log.map(op => op.id));
+  }
+
+  /**
+   * Register a client connection. Presence of the clients already
+   * connected is sent to it straight away.
+   */
+  accept(connection: RelayConnection): RelaySession {
+    this.sessions.set(connection, null);
+    for (const presence of this.sessions.values()) {
+      if (presence) connection.send({ type: 'presence', presence });
+    }
+
+    return {
+      receive: (message) => this.handleMessage(connection, message),
+      close: () => {
+        this.sessions.delete(connection);
+      },
+    };
+  }
+
+  /** Operation log in the order the relay received it */
+  getOperations(): WireOperation[] {
+    return [...this.log];
+  }
+
+  /** Number of connected clients */
+  get connectionCount(): number {
+    return this.sessions.size;
+  }
+
+  private handleMessage(from: RelayConnection, message: CollaborationMessage): void {
+    switch (message.type) {
+      case 'operation':
+        this.record(from, [message.operation]);
+        break;
+
+      case 'batch':
+        this.record(from, message.operations);
+        break;
+
+      case 'sync-request': {
+        const known = message.vectorClock;
+        from.send({
+          type: 'sync-response',
+          operations: this.log.filter(op => (op.vectorClock[op.clientId] ?? 0) > (known[op.clientId] ?? 0)),
+          vectorClock: this.vectorClock(),
+        });
+        break;
+      }
+
+      case 'presence':
+        this.sessions.set(from, message.presence);
+        this.broadcast(from, message);
+        break;
+
+      case 'sync-response':
+        // Only the relay answers sync requests
+        break;
+    }
+  }
+
+  /** Append operations not seen before and forward them to the other clients */
+  private record(from: RelayConnection, operations: WireOperation[]): void {
+    for (const operation of operations) {
+      if (this.ids.has(operation.id)) continue;
+      this.ids.add(operation.id);
+      this.log.push(operation);
+      this.store.append(operation);
+      this.broadcast(from, { type: 'operation', operation });
+    }
+  }
+
+  private broadcast(from: RelayConnection, message: CollaborationMessage): void {
+    for (const connection of this.sessions.keys()) {
+      if (connection !== from) connection.send(message);
+    }
+  }
+
+  /** Latest operation count per client in the log */
+  private vectorClock(): Record<string, number> {
+    const clock: Record<string, number> = {};
+    for (const op of this.log) {
+      clock[op.clientId] = Math.max(clock[op.clientId] ?? 0, op.vectorClock[op.clientId] ?? 0);
+    }
+    return clock;
+  }
+}
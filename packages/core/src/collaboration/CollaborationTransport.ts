@@ -0,0 +1,211 @@
+/**
+ * CollaborationTransport.ts
+ *
+ * How a CollaborationEngine talks to its peers. The engine only needs a
+ * message pipe with connection-state events; WebSocket, an in-process relay
+ * or an application message bus all fit behind this interface.
+ */
+
+import type { Operation, ClientPresence } from '../CollaborationEngine';
+
+/** An Operation as sent over the wire (vector clock as a plain object) */
+export type WireOperation = Omit<Operation, 'vectorClock'> & {
+  vectorClock: Record<string, number>;
+};
+
+export type CollaborationMessage =
+  | { type: 'operation'; operation: WireOperation }
+  | { type: 'batch'; operations: WireOperation[] }
+  | { type: 'sync-request'; vectorClock: Record<string, number> }
+  | { type: 'sync-response'; operations: WireOperation[]; vectorClock: Record<string, number> }
+  | { type: 'presence'; presence: ClientPresence };
+
+export type TransportState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface CollaborationTransport {
+  readonly state: TransportState;
+  /** Open the connection; state moves to 'open' once messages can flow */
+  connect(): void;
+  /** Send a message; dropped unless the transport is open */
+  send(message: CollaborationMessage): void;
+  /** Close for good: no reconnect */
+  close(): void;
+  /** Subscribe to incoming messages; returns an unsubscribe function */
+  onMessage(handler: (message: CollaborationMessage) => void): () => void;
+  /** Subscribe to state changes; returns an unsubscribe function */
+  onStateChange(handler: (state: TransportState) => void): () => void;
+}
+
+export interface ReconnectOptions {
+  /** Delay before the first reconnect attempt in ms (default 500) */
+  initialDelay?: number;
+  /** Upper bound for the delay in ms (default 30000) */
+  maxDelay?: number;
+  /** Growth factor between attempts (default 2) */
+  factor?: number;
+}
+
+export function encodeOperation(op: Operation): WireOperation {
+  return { ...op, vectorClock: Object.fromEntries(op.vectorClock) };
+}
+
+export function decodeOperation(op: WireOperation): Operation {
+  return { ...op, vectorClock: new Map(Object.entries(op.vectorClock).map(([k, v]) => [k, Number(v)])) };
+}
+
+/**
+ * Base for transports whose connection can drop. Subclasses open and close
+ * the underlying connection and report back through handleOpen(),
+ * handleMessage() and handleClose(); an unexpected close schedules a
+ * reconnect with exponential backoff.
+ */
+export abstract class ReconnectingTransport implements CollaborationTransport {
+  private _state: TransportState = 'closed';
+  private messageHandlers = new Set<(message: CollaborationMessage) => void>();
+  private stateHandlers = new Set<(state: TransportState) => void>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closing = false;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly factor: number;
+
+  constructor(options: ReconnectOptions = {}) {
+    this.initialDelay = options.initialDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.factor = options.factor ?? 2;
+  }
+
+  get state(): TransportState {
+    return this._state;
+  }
+
+  connect(): void {
+    if (this._state === 'open' || this._state === 'connecting') return;
+    this.closing = false;
+    this.setState('connecting');
+    this.openConnection();
+  }
+
+  send(message: CollaborationMessage): void {
+    if (this._state === 'open') this.transmit(message);
+  }
+
+  close(): void {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeConnection();
+    this.setState('closed');
+  }
+
+  onMessage(handler: (message: CollaborationMessage) => void): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  onStateChange(handler: (state: TransportState) => void): () => void {
+    this.stateHandlers.add(handler);
+    return () => this.stateHandlers.delete(handler);
+  }
+
+  /** Delay before the next reconnect attempt */
+  protected nextDelay(): number {
+    return Math.min(this.maxDelay, this.initialDelay * Math.pow(this.factor, this.attempts++));
+  }
+
+  protected abstract openConnection(): void;
+  protected abstract closeConnection(): void;
+  protected abstract transmit(message: CollaborationMessage): void;
+
+  protected handleOpen(): void {
+    this.attempts = 0;
+    this.setState('open');
+  }
+
+  protected handleMessage(message: CollaborationMessage): void {
+    this.messageHandlers.forEach(handler => handler(message));
+  }
+
+  protected handleClose(): void {
+    if (this.closing || this._state === 'closed') return;
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection();
+    }, this.nextDelay());
+  }
+
+  private setState(state: TransportState): void {
+    if (state === this._state) return;
+    this._state = state;
+    this.stateHandlers.forEach(handler => handler(state));
+  }
+}
+
+/** The parts of the WebSocket API the transport uses */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface WebSocketTransportOptions extends ReconnectOptions {
+  /** Creates the socket; defaults to the global WebSocket (pass `ws` in older Node) */
+  createSocket?: WebSocketFactory;
+}
+
+/**
+ * JSON messages over a WebSocket
+ */
+export class WebSocketTransport extends ReconnectingTransport {
+  private socket: WebSocketLike | null = null;
+  private readonly createSocket: WebSocketFactory;
+
+  constructor(private readonly url: string, options: WebSocketTransportOptions = {}) {
+    super(options);
+    this.createSocket = options.createSocket ?? (target => new WebSocket(target) as unknown as WebSocketLike);
+  }
+
+  protected openConnection(): void {
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => this.handleOpen();
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(String(event.data)));
+      } catch (error) {
+        console.error('[Collaboration] Failed to parse message:', error);
+      }
+    };
+    socket.onerror = (error) => {
+      console.error('[Collaboration] WebSocket error:', error);
+    };
+    socket.onclose = () => {
+      if (this.socket === socket) this.socket = null;
+      this.handleClose();
+    };
+  }
+
+  protected closeConnection(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  protected transmit(message: CollaborationMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+}
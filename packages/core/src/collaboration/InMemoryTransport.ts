@@ -0,0 +1,49 @@
+/**
+ * InMemoryTransport.ts
+ *
+ * Connects a CollaborationEngine to a CollaborationRelay in the same
+ * process, for tests and for hosts that embed the relay. Messages are
+ * serialised to JSON on the way, as they would be on a real network.
+ */
+
+import type { CollaborationMessage } from './CollaborationTransport';
+import { ReconnectingTransport, type ReconnectOptions } from './CollaborationTransport';
+import type { CollaborationRelay, RelaySession } from './CollaborationRelay';
+
+export class InMemoryTransport extends ReconnectingTransport {
+  private session: RelaySession | null = null;
+
+  constructor(private readonly relay: CollaborationRelay, options: ReconnectOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Cut the connection as a network failure would; the transport then
+   * reconnects with backoff
+   */
+  drop(): void {
+    this.session?.close();
+    this.session = null;
+    this.handleClose();
+  }
+
+  protected openConnection(): void {
+    this.session = this.relay.accept({
+      send: (message) => this.handleMessage(wire(message)),
+    });
+    this.handleOpen();
+  }
+
+  protected closeConnection(): void {
+    this.session?.close();
+    this.session = null;
+  }
+
+  protected transmit(message: CollaborationMessage): void {
+    this.session?.receive(wire(message));
+  }
+}
+
+function wire(message: CollaborationMessage): CollaborationMessage {
+  return JSON.parse(JSON.stringify(message));
+}
@@ -7,14 +7,14 @@
  * - Data Validation (set rules, clear)
  * - Text to Columns (split by delimiter)
  * - Remove Duplicates
- * - Group/Ungroup rows/columns
+ * - Group/Ungroup rows/columns, Auto Outline, Clear Outline
  *
  * All commands implement the Command interface for undo/redo support.
  */
 
 import type { Command } from '../CommandManager';
-import type { Worksheet } from '../worksheet';
-import type { Address, CellValue } from '../types';
+import type { Worksheet, DeletedBand } from '../worksheet';
+import type { Address, CellValue, OutlineState } from '../types';
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
@@ -400,16 +400,13 @@ export class ClearDataValidationCommand implements Command {
 /**
  * RemoveDuplicatesCommand: Remove duplicate rows based on selected columns
  *
- * Stores removed rows for undo.
+ * Duplicate rows are deleted through Worksheet.deleteRows, so formulas and
+ * sheet structure below them shift up; undo restores each deleted band.
  */
 export class RemoveDuplicatesCommand implements Command {
   description = 'Remove Duplicates';
 
-  private removedRows: Array<{
-    rowIndex: number;
-    data: Map<number, any>;
-    styles: Map<number, any>;
-  }>;
+  private removedRows: DeletedBand[];
 
   constructor(
     private worksheet: Worksheet,
@@ -423,8 +420,6 @@ export class RemoveDuplicatesCommand implements Command {
   execute(): void {
     const startRow = this.hasHeaders ? this.range.start.row + 1 : this.range.start.row;
     const endRow = this.range.end.row;
-    const startCol = this.range.start.col;
-    const endCol = this.range.end.col;
 
     // Track seen combinations
     const seen = new Set<string>();
@@ -444,71 +439,20 @@ export class RemoveDuplicatesCommand implements Command {
       }
     }
 
-    // Store rows for undo (in reverse order for proper restoration)
-    for (const r of rowsToDelete.reverse()) {
-      const rowData = new Map<number, any>();
-      const rowStyles = new Map<number, any>();
-
-      for (let c = startCol; c <= endCol; c++) {
-        const addr = { row: r, col: c };
-        rowData.set(c, this.worksheet.getCellValue(addr));
-        rowStyles.set(c, this.worksheet.getCellStyle(addr));
-      }
-
-      this.removedRows.push({ rowIndex: r, data: rowData, styles: rowStyles });
-
-      // Delete row by shifting up
-      this.deleteRow(r);
-    }
+    // Delete bottom-up so the remaining duplicates keep their row numbers
+    this.removedRows = rowsToDelete.reverse().map(r => this.worksheet.deleteRows(r, 1));
 
     console.log(`Removed ${this.removedRows.length} duplicate rows`);
   }
 
   undo(): void {
-    // Restore removed rows (in reverse order)
-    for (const row of this.removedRows.reverse()) {
-      this.insertRow(row.rowIndex);
-
-      // Restore data
-      for (const [col, value] of row.data) {
-        this.worksheet.setCellValue({ row: row.rowIndex, col }, value);
-      }
-
-      // Restore styles
-      for (const [col, style] of row.styles) {
-        this.worksheet.setCellStyle({ row: row.rowIndex, col }, style);
-      }
+    // Restore top-down, the reverse of the deletes
+    for (let i = this.removedRows.length - 1; i >= 0; i--) {
+      this.worksheet.restoreRows(this.removedRows[i]);
     }
 
     console.log(`Restored ${this.removedRows.length} removed rows`);
-  }
-
-  private deleteRow(rowIndex: number): void {
-    // Shift all rows up (simple implementation - actual would use worksheet API)
-    const maxRow = 1000; // Arbitrary limit
-    for (let r = rowIndex; r < maxRow; r++) {
-      for (let c = this.range.start.col; c <= this.range.end.col; c++) {
-        const current = { row: r, col: c };
-        const next = { row: r + 1, col: c };
-
-        this.worksheet.setCellValue(current, this.worksheet.getCellValue(next));
-        this.worksheet.setCellStyle(current, this.worksheet.getCellStyle(next));
-      }
-    }
-  }
-
-  private insertRow(rowIndex: number): void {
-    // Shift all rows down (simple implementation)
-    const maxRow = 1000;
-    for (let r = maxRow; r > rowIndex; r--) {
-      for (let c = this.range.start.col; c <= this.range.end.col; c++) {
-        const current = { row: r, col: c };
-        const prev = { row: r - 1, col: c };
-
-        this.worksheet.setCellValue(current, this.worksheet.getCellValue(prev));
-        this.worksheet.setCellStyle(current, this.worksheet.getCellStyle(prev));
-      }
-    }
+    this.removedRows = [];
   }
 }
 
@@ -583,15 +527,40 @@ export class TextToColumnsCommand implements Command {
 
 // ─── Group/Ungroup Commands ────────────────────────────────────────────────
 
+/** Outline and hidden rows/columns before an outline command ran. */
+interface OutlineSnapshot {
+  outline: OutlineState;
+  hiddenRows: number[];
+  hiddenCols: number[];
+}
+
+function captureOutline(worksheet: Worksheet): OutlineSnapshot {
+  return {
+    outline: worksheet.getOutlineState(),
+    hiddenRows: [...worksheet.getHiddenRows()],
+    hiddenCols: [...worksheet.getHiddenCols()],
+  };
+}
+
+function restoreOutline(worksheet: Worksheet, snapshot: OutlineSnapshot): void {
+  worksheet.setOutlineState(snapshot.outline);
+  const rows = new Set(snapshot.hiddenRows);
+  const cols = new Set(snapshot.hiddenCols);
+  for (const row of [...worksheet.getHiddenRows()]) if (!rows.has(row)) worksheet.showRow(row);
+  for (const col of [...worksheet.getHiddenCols()]) if (!cols.has(col)) worksheet.showCol(col);
+  for (const row of rows) worksheet.hideRow(row);
+  for (const col of cols) worksheet.hideCol(col);
+}
+
 /**
  * GroupOutlineCommand: Group rows or columns for collapsing
  *
- * Creates collapsible groups in the outline pane.
+ * Moves the range one outline level deeper, nesting inside existing groups.
  */
 export class GroupOutlineCommand implements Command {
   description = 'Group Outline';
 
-  private previousGroups: any;
+  private previous: OutlineSnapshot | null = null;
 
   constructor(
     private worksheet: Worksheet,
@@ -600,30 +569,17 @@ export class GroupOutlineCommand implements Command {
   ) {}
 
   execute(): void {
-    // Ensure outline storage exists
-    if (!(this.worksheet as any).outlineGroups) {
-      (this.worksheet as any).outlineGroups = { rows: [], columns: [] };
-    }
+    this.previous = captureOutline(this.worksheet);
+    const { start, end } = this.range;
+    if (this.axis === 'rows') this.worksheet.groupRows(start.row, end.row);
+    else this.worksheet.groupCols(start.col, end.col);
 
-    const groups = (this.worksheet as any).outlineGroups;
-    this.previousGroups = { rows: [...groups.rows], columns: [...groups.columns] };
-
-    // Add new group
-    const newGroup = {
-      start: this.axis === 'rows' ? this.range.start.row : this.range.start.col,
-      end: this.axis === 'rows' ? this.range.end.row : this.range.end.col,
-      collapsed: false,
-      level: 1,
-    };
-
-    groups[this.axis].push(newGroup);
-
-    console.log(`Added ${this.axis} group:`, newGroup);
+    console.log(`Grouped ${this.axis}`);
   }
 
   undo(): void {
-    if (this.previousGroups) {
-      (this.worksheet as any).outlineGroups = this.previousGroups;
+    if (this.previous) {
+      restoreOutline(this.worksheet, this.previous);
       console.log('Restored previous outline groups');
     }
   }
@@ -631,11 +587,13 @@ export class GroupOutlineCommand implements Command {
 
 /**
  * UngroupOutlineCommand: Remove outline grouping
+ *
+ * Takes the range out one outline level; collapsed groups it touches open.
  */
 export class UngroupOutlineCommand implements Command {
   description = 'Ungroup Outline';
 
-  private previousGroups: any;
+  private previous: OutlineSnapshot | null = null;
 
   constructor(
     private worksheet: Worksheet,
@@ -644,25 +602,70 @@ export class UngroupOutlineCommand implements Command {
   ) {}
 
   execute(): void {
-    const groups = (this.worksheet as any).outlineGroups;
-    if (!groups) return;
+    this.previous = captureOutline(this.worksheet);
+    const { start, end } = this.range;
+    if (this.axis === 'rows') this.worksheet.ungroupRows(start.row, end.row);
+    else this.worksheet.ungroupCols(start.col, end.col);
+
+    console.log(`Ungrouped ${this.axis}`);
+  }
+
+  undo(): void {
+    if (this.previous) {
+      restoreOutline(this.worksheet, this.previous);
+      console.log('Restored previous outline groups');
+    }
+  }
+}
 
-    this.previousGroups = { rows: [...groups.rows], columns: [...groups.columns] };
+/**
+ * AutoOutlineCommand: Build the outline from SUBTOTAL formulas
+ */
+export class AutoOutlineCommand implements Command {
+  description = 'Auto Outline';
 
-    // Remove groups that overlap with range
-    const start = this.axis === 'rows' ? this.range.start.row : this.range.start.col;
-    const end = this.axis === 'rows' ? this.range.end.row : this.range.end.col;
+  private previous: OutlineSnapshot | null = null;
 
-    groups[this.axis] = groups[this.axis].filter((group: any) => {
-      return group.end < start || group.start > end;
-    });
+  constructor(private worksheet: Worksheet) {}
+
+  execute(): void {
+    this.previous = captureOutline(this.worksheet);
+    this.worksheet.autoOutline();
+
+    console.log('Created outline from subtotals');
+  }
+
+  undo(): void {
+    if (this.previous) {
+      restoreOutline(this.worksheet, this.previous);
+      console.log('Restored previous outline groups');
+    }
+  }
+}
+
+/**
+ * ClearOutlineCommand: Remove all row and/or column groups
+ */
+export class ClearOutlineCommand implements Command {
+  description = 'Clear Outline';
+
+  private previous: OutlineSnapshot | null = null;
+
+  constructor(
+    private worksheet: Worksheet,
+    private axis?: 'rows' | 'columns'
+  ) {}
+
+  execute(): void {
+    this.previous = captureOutline(this.worksheet);
+    this.worksheet.clearOutline(this.axis && (this.axis === 'rows' ? 'row' : 'col'));
 
-    console.log(`Removed ${this.axis} groups in range`);
+    console.log('Cleared outline');
   }
 
   undo(): void {
-    if (this.previousGroups) {
-      (this.worksheet as any).outlineGroups = this.previousGroups;
+    if (this.previous) {
+      restoreOutline(this.worksheet, this.previous);
       console.log('Restored previous outline groups');
     }
   }
@@ -5,6 +5,7 @@
  * - Comments (add, delete, navigate, show/hide)
  * - Protection (protect sheet, protect workbook)
  * - Proofing (spell check results)
+ * - Track changes (record, accept, reject)
  *
  * All commands implement the Command interface for undo/redo support.
  */
@@ -12,7 +13,9 @@
 import type { Command } from '../CommandManager';
 import type { Workbook } from '../workbook';
 import type { Worksheet } from '../worksheet';
-import type { Address } from '../types';
+import type { Address, AllowEditRange, Range, WorkbookProtectionOptions } from '../types';
+import type { TrackedChangeFilter } from '../ChangeTracker';
+import { createPasswordHash } from '../utils/password-hash';
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
@@ -258,30 +261,27 @@ export class UnprotectSheetCommand implements Command {
 export class ProtectWorkbookCommand implements Command {
   description = 'Protect Workbook';
 
-  private previousProtection: WorkbookProtection | undefined;
+  private previousProtection: WorkbookProtectionOptions | null = null;
 
   constructor(
     private workbook: Workbook,
     private protection: WorkbookProtection
-  ) {
-    this.previousProtection = (this.workbook as any).protection;
-  }
+  ) {}
 
   execute(): void {
-    (this.workbook as any).protection = { ...this.protection };
-    (this.workbook as any).isProtected = true;
+    this.previousProtection = this.workbook.getWorkbookProtection();
+    const { password, protectStructure, protectWindows } = this.protection;
+    this.workbook.protectWorkbook({
+      lockStructure: protectStructure,
+      lockWindows: protectWindows,
+      ...(password && { password: createPasswordHash(password) }),
+    });
 
-    console.log('Workbook protected with settings:', this.protection);
+    console.log('Workbook protected with settings:', { protectStructure, protectWindows });
   }
 
   undo(): void {
-    if (this.previousProtection) {
-      (this.workbook as any).protection = this.previousProtection;
-      (this.workbook as any).isProtected = true;
-    } else {
-      (this.workbook as any).protection = undefined;
-      (this.workbook as any).isProtected = false;
-    }
+    this.workbook.setWorkbookProtection(this.previousProtection);
 
     console.log('Restored previous workbook protection');
   }
@@ -295,34 +295,27 @@ export class ProtectWorkbookCommand implements Command {
 export class UnprotectWorkbookCommand implements Command {
   description = 'Unprotect Workbook';
 
-  private previousProtection: WorkbookProtection | undefined;
+  private previousProtection: WorkbookProtectionOptions | null = null;
 
   constructor(
     private workbook: Workbook,
     private password?: string
-  ) {
-    this.previousProtection = (this.workbook as any).protection;
-  }
+  ) {}
 
   execute(): void {
-    const protection = (this.workbook as any).protection as WorkbookProtection | undefined;
+    this.previousProtection = this.workbook.getWorkbookProtection();
 
-    // Check password if workbook is protected
-    if (protection && protection.password && protection.password !== this.password) {
+    if (!this.workbook.unprotectWorkbook(this.password)) {
       console.error('Incorrect password');
       throw new Error('Incorrect password');
     }
 
-    (this.workbook as any).protection = undefined;
-    (this.workbook as any).isProtected = false;
-
     console.log('Workbook unprotected');
   }
 
   undo(): void {
     if (this.previousProtection) {
-      (this.workbook as any).protection = this.previousProtection;
-      (this.workbook as any).isProtected = true;
+      this.workbook.setWorkbookProtection(this.previousProtection);
       console.log('Restored workbook protection');
     }
   }
@@ -330,86 +323,67 @@ export class UnprotectWorkbookCommand implements Command {
 
 // ─── Allow Edit Ranges Command ─────────────────────────────────────────────
 
-export interface AllowEditRange {
-  id: string;
-  name: string;
-  range: { start: Address; end: Address };
-  password?: string;
-  users?: string[];
-}
+export type { AllowEditRange } from '../types';
 
 /**
  * SetAllowEditRangeCommand: Define ranges users can edit when sheet is protected
  *
- * Allows specific ranges to be edited even when sheet is locked.
+ * Allows specific ranges to be edited even when sheet is locked. The
+ * password, if any, is stored as a salted hash.
  */
 export class SetAllowEditRangeCommand implements Command {
   description = 'Set Allow Edit Range';
 
-  private previousRanges: AllowEditRange[] | undefined;
+  private previousRanges: AllowEditRange[] = [];
 
   constructor(
     private worksheet: Worksheet,
-    private range: AllowEditRange
-  ) {
-    const ranges = (this.worksheet as any).allowEditRanges as AllowEditRange[] | undefined;
-    this.previousRanges = ranges ? [...ranges] : undefined;
-  }
+    private name: string,
+    private range: Range,
+    private password?: string
+  ) {}
 
   execute(): void {
-    if (!(this.worksheet as any).allowEditRanges) {
-      (this.worksheet as any).allowEditRanges = [];
-    }
-
-    const ranges = (this.worksheet as any).allowEditRanges as AllowEditRange[];
-    ranges.push({ ...this.range });
+    this.previousRanges = this.worksheet.getAllowEditRanges();
+    this.worksheet.addAllowEditRange({
+      name: this.name,
+      range: this.range,
+      ...(this.password && { password: createPasswordHash(this.password) }),
+    });
 
-    console.log(`Added allow edit range: ${this.range.name}`);
+    console.log(`Added allow edit range: ${this.name}`);
   }
 
   undo(): void {
-    if (this.previousRanges) {
-      (this.worksheet as any).allowEditRanges = [...this.previousRanges];
-    } else {
-      (this.worksheet as any).allowEditRanges = [];
-    }
+    this.worksheet.setAllowEditRanges(this.previousRanges);
 
     console.log('Restored previous allow edit ranges');
   }
 }
 
 /**
- * RemoveAllowEditRangeCommand: Remove an allowed edit range
+ * RemoveAllowEditRangeCommand: Remove an allowed edit range by name
  */
 export class RemoveAllowEditRangeCommand implements Command {
   description = 'Remove Allow Edit Range';
 
-  private previousRanges: AllowEditRange[] | undefined;
+  private previousRanges: AllowEditRange[] = [];
 
   constructor(
     private worksheet: Worksheet,
-    private rangeId: string
-  ) {
-    const ranges = (this.worksheet as any).allowEditRanges as AllowEditRange[] | undefined;
-    this.previousRanges = ranges ? [...ranges] : undefined;
-  }
+    private name: string
+  ) {}
 
   execute(): void {
-    const ranges = (this.worksheet as any).allowEditRanges as AllowEditRange[] | undefined;
-    if (!ranges) return;
-
-    const index = ranges.findIndex(r => r.id === this.rangeId);
-    if (index >= 0) {
-      ranges.splice(index, 1);
-      console.log(`Removed allow edit range: ${this.rangeId}`);
+    this.previousRanges = this.worksheet.getAllowEditRanges();
+    if (this.worksheet.removeAllowEditRange(this.name)) {
+      console.log(`Removed allow edit range: ${this.name}`);
     }
   }
 
   undo(): void {
-    if (this.previousRanges) {
-      (this.worksheet as any).allowEditRanges = [...this.previousRanges];
-      console.log('Restored previous allow edit ranges');
-    }
+    this.worksheet.setAllowEditRanges(this.previousRanges);
+    console.log('Restored previous allow edit ranges');
   }
 }
 
@@ -460,50 +434,46 @@ export class SpellCheckCommand implements Command {
 
 // ─── Track Changes Commands ────────────────────────────────────────────────
 
-export interface TrackedChange {
-  id: string;
-  author: string;
-  timestamp: Date;
-  type: 'cellValue' | 'cellStyle' | 'insertRow' | 'deleteRow' | 'insertColumn' | 'deleteColumn';
-  address?: Address;
-  oldValue?: any;
-  newValue?: any;
-  accepted?: boolean;
-  rejected?: boolean;
-}
+export type { TrackedChange } from '../ChangeTracker';
 
 /**
  * ToggleTrackChangesCommand: Enable/disable change tracking
  *
- * Starts recording all changes made to the workbook.
+ * Starts recording all changes made to the workbook, attributed to `author`
+ * when one is given.
  */
 export class ToggleTrackChangesCommand implements Command {
   description = 'Toggle Track Changes';
 
   private previousState: boolean;
+  private previousAuthor: string;
 
   constructor(
     private workbook: Workbook,
-    private enabled: boolean
+    private enabled: boolean,
+    private author?: string
   ) {
-    this.previousState = (this.workbook as any).trackChangesEnabled || false;
+    const tracker = this.workbook.getChangeTracker();
+    this.previousState = tracker.isEnabled;
+    this.previousAuthor = tracker.getAuthor();
   }
 
   execute(): void {
-    (this.workbook as any).trackChangesEnabled = this.enabled;
-
+    const tracker = this.workbook.getChangeTracker();
     if (this.enabled) {
-      if (!(this.workbook as any).trackedChanges) {
-        (this.workbook as any).trackedChanges = [];
-      }
+      tracker.enable(this.author);
       console.log('Track Changes enabled');
     } else {
+      tracker.disable();
       console.log('Track Changes disabled');
     }
   }
 
   undo(): void {
-    (this.workbook as any).trackChangesEnabled = this.previousState;
+    const tracker = this.workbook.getChangeTracker();
+    tracker.setAuthor(this.previousAuthor);
+    if (this.previousState) tracker.enable();
+    else tracker.disable();
     console.log(`Restored Track Changes: ${this.previousState ? 'ON' : 'OFF'}`);
   }
 }
@@ -514,7 +484,7 @@ export class ToggleTrackChangesCommand implements Command {
 export class AcceptChangeCommand implements Command {
   description = 'Accept Change';
 
-  private change: TrackedChange | undefined;
+  private accepted = false;
 
   constructor(
     private workbook: Workbook,
@@ -522,20 +492,13 @@ export class AcceptChangeCommand implements Command {
   ) {}
 
   execute(): void {
-    const changes = (this.workbook as any).trackedChanges as TrackedChange[] | undefined;
-    if (!changes) return;
-
-    this.change = changes.find(c => c.id === this.changeId);
-    if (this.change) {
-      this.change.accepted = true;
-      this.change.rejected = false;
-      console.log(`Accepted change: ${this.changeId}`);
-    }
+    this.accepted = this.workbook.getChangeTracker().acceptChange(this.changeId);
+    if (this.accepted) console.log(`Accepted change: ${this.changeId}`);
   }
 
   undo(): void {
-    if (this.change) {
-      this.change.accepted = false;
+    if (this.accepted) {
+      this.workbook.getChangeTracker().reopenChange(this.changeId);
       console.log(`Undid accept of change: ${this.changeId}`);
     }
   }
@@ -543,11 +506,13 @@ export class AcceptChangeCommand implements Command {
 
 /**
  * RejectChangeCommand: Reject a tracked change
+ *
+ * Restores the state before the change; undo applies the change again.
  */
 export class RejectChangeCommand implements Command {
   description = 'Reject Change';
 
-  private change: TrackedChange | undefined;
+  private rejected = false;
 
   constructor(
     private workbook: Workbook,
@@ -555,21 +520,72 @@ export class RejectChangeCommand implements Command {
   ) {}
 
   execute(): void {
-    const changes = (this.workbook as any).trackedChanges as TrackedChange[] | undefined;
-    if (!changes) return;
-
-    this.change = changes.find(c => c.id === this.changeId);
-    if (this.change) {
-      this.change.rejected = true;
-      this.change.accepted = false;
-      console.log(`Rejected change: ${this.changeId}`);
-    }
+    this.rejected = this.workbook.getChangeTracker().rejectChange(this.changeId);
+    if (this.rejected) console.log(`Rejected change: ${this.changeId}`);
   }
 
   undo(): void {
-    if (this.change) {
-      this.change.rejected = false;
+    if (this.rejected) {
+      this.workbook.getChangeTracker().reopenChange(this.changeId);
       console.log(`Undid reject of change: ${this.changeId}`);
     }
   }
 }
+
+/**
+ * AcceptAllChangesCommand: Accept every pending change, or those in a range
+ */
+export class AcceptAllChangesCommand implements Command {
+  description = 'Accept All Changes';
+
+  private accepted: string[] = [];
+
+  constructor(
+    private workbook: Workbook,
+    private filter: TrackedChangeFilter = {}
+  ) {}
+
+  execute(): void {
+    const tracker = this.workbook.getChangeTracker();
+    this.accepted = tracker.getChanges({ ...this.filter, status: 'pending' }).map(c => c.id);
+    tracker.acceptChanges(this.filter);
+    console.log(`Accepted ${this.accepted.length} changes`);
+  }
+
+  undo(): void {
+    const tracker = this.workbook.getChangeTracker();
+    for (const id of this.accepted) tracker.reopenChange(id);
+    console.log(`Undid accept of ${this.accepted.length} changes`);
+  }
+}
+
+/**
+ * RejectAllChangesCommand: Reject every pending change, or those in a range
+ *
+ * Changes are rejected newest first; undo re-applies them oldest first.
+ */
+export class RejectAllChangesCommand implements Command {
+  description = 'Reject All Changes';
+
+  private rejected: string[] = [];
+
+  constructor(
+    private workbook: Workbook,
+    private filter: TrackedChangeFilter = {}
+  ) {}
+
+  execute(): void {
+    const tracker = this.workbook.getChangeTracker();
+    const pending = tracker.getChanges({ ...this.filter, status: 'pending' }).map(c => c.id);
+    tracker.rejectChanges(this.filter);
+    // Changes in conflict with a later edit stay pending
+    this.rejected = pending.filter(id => tracker.getChange(id)?.rejected);
+    console.log(`Rejected ${this.rejected.length} changes`);
+  }
+
+  undo(): void {
+    const tracker = this.workbook.getChangeTracker();
+    for (const id of this.rejected) tracker.reopenChange(id);
+    console.log(`Undid reject of ${this.rejected.length} changes`);
+  }
+}
@@ -15,6 +15,8 @@ export {
   TextToColumnsCommand,
   GroupOutlineCommand,
   UngroupOutlineCommand,
+  AutoOutlineCommand,
+  ClearOutlineCommand,
 } from './DataCommands';
 
 export type {
@@ -59,6 +61,8 @@ export {
   ToggleTrackChangesCommand,
   AcceptChangeCommand,
   RejectChangeCommand,
+  AcceptAllChangesCommand,
+  RejectAllChangesCommand,
 } from './ReviewCommands';
 
 export type {
@@ -73,7 +77,7 @@ export type {
 export {
   DeleteDrawingObjectsCommand,
   CopyDrawingObjectsCommand,
-  MoveDrawingObjectCommand,
+  MoveDrawingObjectsCommand,
   ResizeDrawingObjectCommand,
   RotateDrawingObjectCommand,
   GroupDrawingObjectsCommand,
@@ -94,7 +94,7 @@
  * not ad-hoc mutation logic.
  */
 
-import type { Address } from '../types';
+import type { Address, Range } from '../types';
 import { FormulaShiftingService } from '../FormulaShiftingService';
 
 /**
@@ -266,3 +266,174 @@ export class DeleteColumnTransform implements AddressTransform {
     );
   }
 }
+
+/**
+ * A whole-row or whole-column insert/delete. Besides single addresses it maps
+ * rectangular ranges (merges, CF ranges, filter extents), growing or
+ * shrinking them the same way shiftFormula() does for range references.
+ */
+export interface BandTransform extends AddressTransform {
+  /** @returns The mapped range, or null when every cell of it was deleted */
+  mapRange(range: Range): Range | null;
+}
+
+/**
+ * InsertRowsTransform: insert `count` empty rows before row k
+ *
+ * f(addr) = {
+ *   { row: addr.row + count, col: addr.col }  if addr.row >= k
+ *   { row: addr.row, col: addr.col }          otherwise
+ * }
+ *
+ * Unlike the column skeletons above, shiftFormula() rewrites a reference by
+ * where it POINTS, not by where the formula lives: a formula above the
+ * insertion still follows a cell that moved down, and a range spanning row k
+ * grows. `sheet` is the sheet being changed (and the formula's host sheet),
+ * so qualified references to other sheets are left alone.
+ */
+export class InsertRowsTransform implements BandTransform {
+  constructor(
+    private readonly insertAt: number,
+    private readonly count = 1,
+    private readonly sheet?: string
+  ) {}
+
+  map(addr: Address): Address | null {
+    if (addr.row >= this.insertAt) {
+      return { row: addr.row + this.count, col: addr.col };
+    }
+    return addr;
+  }
+
+  /** Ranges that span the insertion point grow; ranges below it move down. */
+  mapRange(range: Range): Range | null {
+    const startRow = range.start.row >= this.insertAt ? range.start.row + this.count : range.start.row;
+    const endRow = range.end.row >= this.insertAt ? range.end.row + this.count : range.end.row;
+    return { start: { row: startRow, col: range.start.col }, end: { row: endRow, col: range.end.col } };
+  }
+
+  shiftFormula(formula: string, _cellAddr: Address): string {
+    return FormulaShiftingService.adjustForStructuralChange(
+      formula,
+      { axis: 'row', index: this.insertAt, count: this.count, sheet: this.sheet },
+      this.sheet
+    );
+  }
+}
+
+/**
+ * DeleteRowsTransform: delete rows k .. k+count-1
+ *
+ * f(addr) = {
+ *   null                                      if k <= addr.row < k + count
+ *   { row: addr.row - count, col: addr.col }  if addr.row >= k + count
+ *   { row: addr.row, col: addr.col }          otherwise
+ * }
+ *
+ * References into the deleted band become #REF!; ranges that overlap it
+ * shrink (see InsertRowsTransform for the reference semantics).
+ */
+export class DeleteRowsTransform implements BandTransform {
+  constructor(
+    private readonly deleteAt: number,
+    private readonly count = 1,
+    private readonly sheet?: string
+  ) {}
+
+  map(addr: Address): Address | null {
+    if (addr.row < this.deleteAt) return addr;
+    if (addr.row < this.deleteAt + this.count) return null; // Deleted
+    return { row: addr.row - this.count, col: addr.col };
+  }
+
+  /** Ranges lose their rows inside the band; a range entirely inside it is deleted (null). */
+  mapRange(range: Range): Range | null {
+    const first = this.deleteAt;
+    const last = this.deleteAt + this.count - 1;
+    const { start, end } = range;
+    if (start.row >= first && end.row <= last) return null;
+    const startRow = start.row < first ? start.row : start.row <= last ? first : start.row - this.count;
+    const endRow = end.row < first ? end.row : end.row <= last ? first - 1 : end.row - this.count;
+    return { start: { row: startRow, col: start.col }, end: { row: endRow, col: end.col } };
+  }
+
+  shiftFormula(formula: string, _cellAddr: Address): string {
+    return FormulaShiftingService.adjustForStructuralChange(
+      formula,
+      { axis: 'row', index: this.deleteAt, count: -this.count, sheet: this.sheet },
+      this.sheet
+    );
+  }
+}
+
+/**
+ * InsertColumnsTransform: insert `count` empty columns before column k
+ *
+ * The column counterpart of InsertRowsTransform, with the same point-based
+ * reference semantics (unlike the single-column InsertColumnTransform).
+ */
+export class InsertColumnsTransform implements BandTransform {
+  constructor(
+    private readonly insertAt: number,
+    private readonly count = 1,
+    private readonly sheet?: string
+  ) {}
+
+  map(addr: Address): Address | null {
+    if (addr.col >= this.insertAt) {
+      return { row: addr.row, col: addr.col + this.count };
+    }
+    return addr;
+  }
+
+  mapRange(range: Range): Range | null {
+    const startCol = range.start.col >= this.insertAt ? range.start.col + this.count : range.start.col;
+    const endCol = range.end.col >= this.insertAt ? range.end.col + this.count : range.end.col;
+    return { start: { row: range.start.row, col: startCol }, end: { row: range.end.row, col: endCol } };
+  }
+
+  shiftFormula(formula: string, _cellAddr: Address): string {
+    return FormulaShiftingService.adjustForStructuralChange(
+      formula,
+      { axis: 'col', index: this.insertAt, count: this.count, sheet: this.sheet },
+      this.sheet
+    );
+  }
+}
+
+/**
+ * DeleteColumnsTransform: delete columns k .. k+count-1
+ *
+ * The column counterpart of DeleteRowsTransform.
+ */
+export class DeleteColumnsTransform implements BandTransform {
+  constructor(
+    private readonly deleteAt: number,
+    private readonly count = 1,
+    private readonly sheet?: string
+  ) {}
+
+  map(addr: Address): Address | null {
+    if (addr.col < this.deleteAt) return addr;
+    if (addr.col < this.deleteAt + this.count) return null; // Deleted
+    return { row: addr.row, col: addr.col - this.count };
+  }
+
+  mapRange(range: Range): Range | null {
+    const first = this.deleteAt;
+    const last = this.deleteAt + this.count - 1;
+    const { start, end } = range;
+    if (start.col >= first && end.col <= last) return null;
+    const startCol = start.col < first ? start.col : start.col <= last ? first : start.col - this.count;
+    const endCol = end.col < first ? end.col : end.col <= last ? first - 1 : end.col - this.count;
+    return { start: { row: start.row, col: startCol }, end: { row: end.row, col: endCol } };
+  }
+
+  shiftFormula(formula: string, _cellAddr: Address): string {
+    return FormulaShiftingService.adjustForStructuralChange(
+      formula,
+      { axis: 'col', index: this.deleteAt, count: -this.count, sheet: this.sheet },
+      this.sheet
+    );
+  }
+}
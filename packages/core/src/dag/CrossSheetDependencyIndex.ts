@@ -0,0 +1,162 @@
+/**
+ * CrossSheetDependencyIndex.ts
+ *
+ * Workbook-level dependency edges between formula cells and the cells they
+ * read on OTHER sheets.
+ *
+ * Each Worksheet owns a DependencyGraph keyed by packed NodeKeys, so it can
+ * only describe edges inside its own coordinate space. A formula such as
+ * `=Sheet2!A1*2` on Sheet1 therefore needs a second structure that says
+ * "Sheet2!A1 → Sheet1!B1". The Workbook owns one of these indexes and uses it
+ * to mark Sheet1 dirty whenever Sheet2 changes.
+ *
+ * Design notes:
+ *   - Precedent sheets are matched case-insensitively by name, and are NOT
+ *     required to exist at registration time (formulas may be loaded before
+ *     the sheets they point at).
+ *   - 3-D spans (`Sheet1:Sheet3!B2`) are resolved lazily against the current
+ *     sheet order on every lookup, so adding/reordering sheets inside the span
+ *     is picked up automatically.
+ */
+
+import { packKey, unpackKey, type NodeKey } from './DependencyGraph';
+import type { Address } from '../types';
+import type { SheetReferenceDependency } from '../utils/formula-reference-extractor';
+
+/** A cell on a specific sheet. */
+export type SheetCellRef = { sheet: string; row: number; col: number };
+
+type DependentId = string;
+
+/** A registered 3-D span entry (resolved against the sheet order on lookup). */
+type SpanEntry = { startSheet: string; endSheet: string; keys: Set<NodeKey> };
+
+function dependentId(sheet: string, row: number, col: number): DependentId {
+  return `${sheet}!${packKey(row, col)}`;
+}
+
+function parseDependentId(id: DependentId): SheetCellRef {
+  const bang = id.lastIndexOf('!');
+  return { sheet: id.slice(0, bang), ...unpackKey(Number(id.slice(bang + 1))) };
+}
+
+export class CrossSheetDependencyIndex {
+  /** Upper-cased precedent sheet name → NodeKey → dependents reading that cell. */
+  private readonly dependents = new Map<string, Map<NodeKey, Set<DependentId>>>();
+  /** Dependent → the single-sheet precedents it registered (for removal). */
+  private readonly registered = new Map<DependentId, Array<{ sheet: string; keys: NodeKey[] }>>();
+  /** Dependent → registered 3-D span entries. */
+  private readonly spans = new Map<DependentId, SpanEntry[]>();
+
+  /**
+   * @param sheetOrder  Returns the workbook's sheet names in tab order; used to
+   *                    resolve 3-D spans at lookup time.
+   */
+  constructor(private readonly sheetOrder: () => readonly string[]) {}
+
+  /**
+   * Replace the cross-sheet precedents of a formula cell.
+   * Passing an empty list is equivalent to clearDependencies().
+   */
+  setDependencies(sheet: string, addr: Address, refs: readonly SheetReferenceDependency[]): void {
+    this.clearDependencies(sheet, addr);
+    if (refs.length === 0) return;
+
+    const id = dependentId(sheet, addr.row, addr.col);
+    const singles: Array<{ sheet: string; keys: NodeKey[] }> = [];
+    const spans: SpanEntry[] = [];
+
+    for (const ref of refs) {
+      const keys = ref.addresses.map(a => packKey(a.row, a.col));
+      if (ref.endSheet !== undefined) {
+        spans.push({ startSheet: ref.sheet.toUpperCase(), endSheet: ref.endSheet.toUpperCase(), keys: new Set(keys) });
+        continue;
+      }
+      const sheetKey = ref.sheet.toUpperCase();
+      let byKey = this.dependents.get(sheetKey);
+      if (!byKey) {
+        byKey = new Map();
+        this.dependents.set(sheetKey, byKey);
+      }
+      for (const key of keys) {
+        let set = byKey.get(key);
+        if (!set) {
+          set = new Set();
+          byKey.set(key, set);
+        }
+        set.add(id);
+      }
+      singles.push({ sheet: sheetKey, keys });
+    }
+
+    if (singles.length > 0) this.registered.set(id, singles);
+    if (spans.length > 0) this.spans.set(id, spans);
+  }
+
+  /** Remove every cross-sheet edge registered for a formula cell. */
+  clearDependencies(sheet: string, addr: Address): void {
+    const id = dependentId(sheet, addr.row, addr.col);
+    const singles = this.registered.get(id);
+    if (singles) {
+      for (const { sheet: sheetKey, keys } of singles) {
+        const byKey = this.dependents.get(sheetKey);
+        if (!byKey) continue;
+        for (const key of keys) {
+          const set = byKey.get(key);
+          if (!set) continue;
+          set.delete(id);
+          if (set.size === 0) byKey.delete(key);
+        }
+        if (byKey.size === 0) this.dependents.delete(sheetKey);
+      }
+      this.registered.delete(id);
+    }
+    this.spans.delete(id);
+  }
+
+  /**
+   * Formula cells on other sheets that read `sheet!addr` directly.
+   */
+  getDependents(sheet: string, addr: Address): SheetCellRef[] {
+    const key = packKey(addr.row, addr.col);
+    const sheetKey = sheet.toUpperCase();
+    const ids = new Set<DependentId>(this.dependents.get(sheetKey)?.get(key) ?? []);
+
+    if (this.spans.size > 0) {
+      const order = this.sheetOrder().map(n => n.toUpperCase());
+      const pos = order.indexOf(sheetKey);
+      for (const [id, entries] of this.spans) {
+        for (const entry of entries) {
+          if (!entry.keys.has(key)) continue;
+          const a = order.indexOf(entry.startSheet);
+          const b = order.indexOf(entry.endSheet);
+          if (pos === -1 || a === -1 || b === -1) continue;
+          if (pos >= Math.min(a, b) && pos <= Math.max(a, b)) {
+            ids.add(id);
+            break;
+          }
+        }
+      }
+    }
+
+    const result: SheetCellRef[] = [];
+    for (const id of ids) {
+      const ref = parseDependentId(id);
+      // Same-sheet edges live in the sheet's own DAG.
+      if (ref.sheet.toUpperCase() !== sheetKey) result.push(ref);
+    }
+    return result;
+  }
+
+  /** True when no cross-sheet edges are registered (fast path for edits). */
+  get isEmpty(): boolean {
+    return this.registered.size === 0 && this.spans.size === 0;
+  }
+
+  /** Drop every edge (workbook disposal). */
+  clear(): void {
+    this.dependents.clear();
+    this.registered.clear();
+    this.spans.clear();
+  }
+}
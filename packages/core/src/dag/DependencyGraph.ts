@@ -22,6 +22,8 @@
  * Excel model:
  *   - Default: iterative calculation OFF → circular refs are errors
  *   - Optional: iterative calculation ON → limited iteration (max 100)
+ *     Turned on per workbook via Workbook.setCalculationSettings({ iterative })
+ *     → Worksheet.calculate() runs recalcIterative() with that policy
  *
  * =============================================================================
  * ALGORITHM SELECTION (from CLRS ch. 22–24)
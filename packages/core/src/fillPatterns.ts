@@ -1,4 +1,6 @@
 import { Address, CellValue } from './types';
+import { FormulaShiftingService } from './FormulaShiftingService';
+import type { Worksheet } from './worksheet';
 
 export type FillPattern = 'copy' | 'series' | 'fill-formatting-only' | 'fill-without-formatting';
 
@@ -62,6 +64,63 @@ export function autoFill(
   return result;
 }
 
+/**
+ * Fill formulas from a source range into a target range.
+ *
+ * The source is tiled across the target like the 'copy' pattern, but each
+ * formula is shifted by the distance from its source cell: relative parts of
+ * a reference move, `$`-anchored parts stay fixed (=A$1*$B2 filled one row
+ * down and one column right becomes =B$1*$B3). Source cells without a
+ * formula are skipped.
+ *
+ * @returns Map of "row:col" → shifted formula (with leading =)
+ */
+export function autoFillFormulas(
+  sourceRange: { r1: number; c1: number; r2: number; c2: number },
+  targetRange: { r1: number; c1: number; r2: number; c2: number },
+  getCellFormula: (addr: Address) => string | undefined
+): Map<string, string> {
+  const result = new Map<string, string>();
+  const sourceRows = sourceRange.r2 - sourceRange.r1 + 1;
+  const sourceCols = sourceRange.c2 - sourceRange.c1 + 1;
+
+  for (let tr = targetRange.r1; tr <= targetRange.r2; tr++) {
+    for (let tc = targetRange.c1; tc <= targetRange.c2; tc++) {
+      const source = {
+        row: sourceRange.r1 + ((tr - targetRange.r1) % sourceRows),
+        col: sourceRange.c1 + ((tc - targetRange.c1) % sourceCols),
+      };
+      const formula = getCellFormula(source);
+      if (!formula) continue;
+      const withEquals = formula.startsWith('=') ? formula : '=' + formula;
+      result.set(`${tr}:${tc}`, FormulaShiftingService.shift(withEquals, source, { row: tr, col: tc }));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fill a sheet's target range from its source range, as the fill handle does:
+ * formula cells are shifted with autoFillFormulas() and entered with
+ * setCellFormula(), so `$` anchors hold; other cells take autoFill() values.
+ */
+export function applyAutoFill(
+  ws: Worksheet,
+  sourceRange: { r1: number; c1: number; r2: number; c2: number },
+  targetRange: { r1: number; c1: number; r2: number; c2: number },
+  options: FillOptions = {}
+): void {
+  const formulas = autoFillFormulas(sourceRange, targetRange, addr => ws.getCell(addr)?.formula);
+  const values = autoFill(sourceRange, targetRange, addr => ws.getCellValue(addr) as CellValue, options);
+  values.forEach((value, key) => {
+    const [row, col] = key.split(':').map(Number);
+    const formula = formulas.get(key);
+    if (formula !== undefined) ws.setCellFormula({ row, col }, formula);
+    else ws.setCellValue({ row, col }, value);
+  });
+}
+
 function detectPattern(
   range: { r1: number; c1: number; r2: number; c2: number },
   getCellValue: (addr: Address) => CellValue
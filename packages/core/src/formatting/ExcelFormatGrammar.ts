@@ -6,19 +6,22 @@
  * - 4-section format codes (positive;negative;zero;text)
  * - Conditional sections [>100][Red]
  * - Color tags [Red], [Blue], [Color1]-[Color56]
- * - Thousands scaling (,)
- * - Fractions (# ?/?)
+ * - Thousands grouping and scaling (,)
+ * - Fractions (# ?/?, # ??/??, # ?/8)
  * - Scientific notation (0.00E+00)
- * - Accounting format (currency alignment)
- * - Elapsed time ([h]:mm:ss)
+ * - Literals: "quoted", \escaped, _ padding, * fill, [$€-407] currency
+ * - Date/time tokens (yyyy, mmm, dddd, hh, ss.00, AM/PM, A/P)
+ * - Elapsed time ([h]:mm:ss, [mm]:ss)
  * - Text placeholder (@)
- * - Locale-aware tokens
  * 
  * Architecture: Compiled format functions
- * - Parse once, execute many times
+ * - Each section is tokenized once into a render plan
  * - Cached compiled formatters
- * - <1ms per format string compilation
- * - <0.1µs per format execution
+ * - Per-value work is placeholder filling only, no string parsing
+ * 
+ * Dates are Excel serial numbers in the 1900 date system, including the
+ * fictitious 29 Feb 1900 (serial 60). JavaScript Dates are converted to
+ * serials from their local date and time.
  * 
  * @packageDocumentation
  */
@@ -41,6 +44,19 @@ export const EXCEL_COLORS = {
   Yellow: '#FFFF00',
 } as const;
 
+/**
+ * Default workbook palette addressed by [Color1]-[Color56]
+ */
+const INDEXED_COLORS = [
+  '#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF',
+  '#800000', '#008000', '#000080', '#808000', '#800080', '#008080', '#C0C0C0', '#808080',
+  '#9999FF', '#993366', '#FFFFCC', '#CCFFFF', '#660066', '#FF8080', '#0066CC', '#CCCCFF',
+  '#000080', '#FF00FF', '#FFFF00', '#00FFFF', '#800080', '#800000', '#008080', '#0000FF',
+  '#00CCFF', '#CCFFFF', '#CCFFCC', '#FFFF99', '#99CCFF', '#FF99CC', '#CC99FF', '#FFCC99',
+  '#3366FF', '#33CCCC', '#99CC00', '#FFCC00', '#FF9900', '#FF6600', '#666699', '#969696',
+  '#003366', '#339966', '#003300', '#333300', '#993300', '#993366', '#333399', '#333333',
+];
+
 /**
  * Format section with optional condition and color
  */
@@ -104,26 +120,30 @@ export function parseFormatString(formatStr: string): ParsedFormat {
   const sections = splitSections(formatStr);
   
   const parsedSections: FormatSection[] = sections.map(sectionStr => {
-    let remaining = sectionStr.trim();
+    let remaining = sectionStr;
     let condition: FormatSection['condition'];
     let color: string | undefined;
     
-    // Extract condition [>100] or [<=50]
-    const condMatch = remaining.match(/^\[([><=]+)([\d.]+)\]/);
-    if (condMatch) {
-      condition = {
-        operator: condMatch[1] as any,
-        value: parseFloat(condMatch[2]),
-      };
-      remaining = remaining.slice(condMatch[0].length);
-    }
-    
-    // Extract color [Red] or [Color12]
-    const colorMatch = remaining.match(/^\[(Black|Blue|Cyan|Green|Magenta|Red|White|Yellow|Color\d+)\]/i);
-    if (colorMatch) {
-      const colorName = colorMatch[1];
-      color = EXCEL_COLORS[colorName as keyof typeof EXCEL_COLORS] || colorName;
-      remaining = remaining.slice(colorMatch[0].length);
+    // Condition and color tags lead the section, in either order
+    for (;;) {
+      const condMatch = remaining.match(/^\[(<>|>=|<=|=|<|>)\s*(-?\d+(?:\.\d+)?)\]/);
+      if (condMatch) {
+        condition = {
+          operator: condMatch[1] as NonNullable<FormatSection['condition']>['operator'],
+          value: parseFloat(condMatch[2]),
+        };
+        remaining = remaining.slice(condMatch[0].length);
+        continue;
+      }
+      
+      const colorMatch = remaining.match(/^\[(Black|Blue|Cyan|Green|Magenta|Red|White|Yellow|Color\s*(\d+))\]/i);
+      if (colorMatch) {
+        color = resolveColor(colorMatch[1], colorMatch[2]);
+        remaining = remaining.slice(colorMatch[0].length);
+        continue;
+      }
+      
+      break;
     }
     
     return {
@@ -139,6 +159,14 @@ export function parseFormatString(formatStr: string): ParsedFormat {
   };
 }
 
+function resolveColor(name: string, index: string | undefined): string {
+  if (index !== undefined) {
+    return INDEXED_COLORS[parseInt(index, 10) - 1] ?? name;
+  }
+  const key = name[0].toUpperCase() + name.slice(1).toLowerCase();
+  return EXCEL_COLORS[key as keyof typeof EXCEL_COLORS];
+}
+
 /**
  * Split format string on unescaped semicolons
  */
@@ -185,76 +213,342 @@ function splitSections(formatStr: string): string[] {
   return sections;
 }
 
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type DigitChar = '0' | '#' | '?';
+
+type DateCode =
+  | 'yy' | 'yyyy'
+  | 'm' | 'mm' | 'mmm' | 'mmmm' | 'mmmmm'
+  | 'd' | 'dd' | 'ddd' | 'dddd'
+  | 'h' | 'hh'
+  | 'n' | 'nn' // minutes (m/mm after hours or before seconds)
+  | 's' | 'ss';
+
+type Token =
+  | { kind: 'literal'; text: string }
+  | { kind: 'digit'; char: DigitChar }
+  | { kind: 'point' }
+  | { kind: 'comma' }
+  | { kind: 'percent' }
+  | { kind: 'exponent'; text: string; showPlus: boolean }
+  | { kind: 'slash' }
+  | { kind: 'denominator'; value: number }
+  | { kind: 'text' }
+  | { kind: 'general' }
+  | { kind: 'date'; code: DateCode }
+  | { kind: 'elapsed'; unit: 'h' | 'm' | 's'; width: number }
+  | { kind: 'ampm'; am: string; pm: string }
+  | { kind: 'subsecond'; digits: number };
+
+/**
+ * A section is a date/time section when it has date letters outside
+ * quotes, escapes and brackets, or an elapsed-time bracket
+ */
+function isDatePattern(pattern: string): boolean {
+  const bare = pattern
+    .replace(/"[^"]*"?/g, '')
+    .replace(/[\\_*]./g, '')
+    .replace(/\[(h+|m+|s+)\]/gi, 'h')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/General/gi, '');
+  return /[ymdhs]|AM\/PM|A\/P/i.test(bare);
+}
+
+function tokenize(pattern: string): Token[] {
+  const dateMode = isDatePattern(pattern);
+  const tokens: Token[] = [];
+  const literal = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === 'literal') {
+      last.text += text;
+    } else {
+      tokens.push({ kind: 'literal', text });
+    }
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const lower = char.toLowerCase();
+
+    if (char === '"') {
+      const end = pattern.indexOf('"', i + 1);
+      const stop = end === -1 ? pattern.length : end;
+      literal(pattern.slice(i + 1, stop));
+      i = stop + 1;
+      continue;
+    }
+
+    if (char === '\\') {
+      literal(pattern[i + 1] ?? '');
+      i += 2;
+      continue;
+    }
+
+    if (char === '_') {
+      // Space as wide as the next character
+      literal(' ');
+      i += 2;
+      continue;
+    }
+
+    if (char === '*') {
+      // Repeat-to-fill needs the column width; nothing to draw here
+      i += 2;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      const stop = end === -1 ? pattern.length : end;
+      const content = pattern.slice(i + 1, stop);
+      const elapsed = content.match(/^(h+|m+|s+)$/i);
+      if (elapsed) {
+        tokens.push({
+          kind: 'elapsed',
+          unit: elapsed[1][0].toLowerCase() as 'h' | 'm' | 's',
+          width: elapsed[1].length,
+        });
+      } else if (content.startsWith('$')) {
+        // [$€-407]: currency symbol before the dash, locale id after
+        const dash = content.indexOf('-');
+        literal(content.slice(1, dash === -1 ? undefined : dash));
+      }
+      // Anything else ([Red] mid-section, [DBNum1], ...) has no output
+      i = stop + 1;
+      continue;
+    }
+
+    if (pattern.slice(i, i + 7).toLowerCase() === 'general') {
+      tokens.push({ kind: 'general' });
+      i += 7;
+      continue;
+    }
+
+    if (char === '@') {
+      tokens.push({ kind: 'text' });
+      i++;
+      continue;
+    }
+
+    if (dateMode) {
+      if (pattern.slice(i, i + 5).toUpperCase() === 'AM/PM') {
+        const upper = pattern[i] === 'A';
+        tokens.push({ kind: 'ampm', am: upper ? 'AM' : 'am', pm: upper ? 'PM' : 'pm' });
+        i += 5;
+        continue;
+      }
+      if (pattern.slice(i, i + 3).toUpperCase() === 'A/P') {
+        const upper = pattern[i] === 'A';
+        tokens.push({ kind: 'ampm', am: upper ? 'A' : 'a', pm: upper ? 'P' : 'p' });
+        i += 3;
+        continue;
+      }
+      if ('ymdhse'.includes(lower)) {
+        let run = 1;
+        while (pattern[i + run]?.toLowerCase() === lower) run++;
+        tokens.push({ kind: 'date', code: dateCode(lower === 'e' ? 'y' : lower, lower === 'e' ? 4 : run) });
+        i += run;
+        continue;
+      }
+      if (char === '.' && pattern[i + 1] === '0') {
+        let run = 1;
+        while (pattern[i + 1 + run] === '0') run++;
+        tokens.push({ kind: 'subsecond', digits: Math.min(run, 3) });
+        i += 1 + run;
+        continue;
+      }
+      literal(char);
+      i++;
+      continue;
+    }
+
+    if (char === '0' || char === '#' || char === '?') {
+      tokens.push({ kind: 'digit', char });
+      i++;
+      continue;
+    }
+
+    if (char === '.') {
+      if (tokens.some(t => t.kind === 'point' || t.kind === 'exponent' || t.kind === 'slash')) {
+        literal(char);
+      } else {
+        tokens.push({ kind: 'point' });
+      }
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'comma' });
+      i++;
+      continue;
+    }
+
+    if (char === '%') {
+      tokens.push({ kind: 'percent' });
+      i++;
+      continue;
+    }
+
+    if (lower === 'e' && (pattern[i + 1] === '+' || pattern[i + 1] === '-') && /[0#?]/.test(pattern[i + 2] ?? '')) {
+      tokens.push({ kind: 'exponent', text: char, showPlus: pattern[i + 1] === '+' });
+      i += 2;
+      continue;
+    }
+
+    if (char === '/') {
+      const prev = tokens[tokens.length - 1];
+      const next = pattern[i + 1] ?? '';
+      if (prev?.kind === 'digit' && /[0-9#?]/.test(next)) {
+        tokens.push({ kind: 'slash' });
+        i++;
+        const fixed = pattern.slice(i).match(/^[1-9]\d*/);
+        if (fixed) {
+          tokens.push({ kind: 'denominator', value: parseInt(fixed[0], 10) });
+          i += fixed[0].length;
+        }
+        continue;
+      }
+    }
+
+    literal(char);
+    i++;
+  }
+
+  return dateMode ? resolveMinutes(tokens) : tokens;
+}
+
+function dateCode(letter: string, run: number): DateCode {
+  switch (letter) {
+    case 'y': return run <= 2 ? 'yy' : 'yyyy';
+    case 'm': return (['m', 'mm', 'mmm', 'mmmm', 'mmmmm'] as const)[Math.min(run, 5) - 1];
+    case 'd': return (['d', 'dd', 'ddd', 'dddd'] as const)[Math.min(run, 4) - 1];
+    case 'h': return run === 1 ? 'h' : 'hh';
+    default: return run === 1 ? 's' : 'ss';
+  }
+}
+
+/**
+ * m and mm mean minutes straight after an hour token or straight before
+ * a seconds token (literals in between are skipped); month otherwise
+ */
+function resolveMinutes(tokens: Token[]): Token[] {
+  const timeParts = tokens.filter(
+    (t): t is Extract<Token, { kind: 'date' | 'elapsed' }> => t.kind === 'date' || t.kind === 'elapsed'
+  );
+
+  return tokens.map(token => {
+    if (token.kind !== 'date' || (token.code !== 'm' && token.code !== 'mm')) return token;
+
+    const index = timeParts.indexOf(token as Extract<Token, { kind: 'date' }>);
+    const prev = timeParts[index - 1];
+    const next = timeParts[index + 1];
+    const afterHours = prev && (prev.kind === 'elapsed' ? prev.unit === 'h' : prev.code === 'h' || prev.code === 'hh');
+    const beforeSeconds = next && (next.kind === 'elapsed' ? next.unit === 's' : next.code === 's' || next.code === 'ss');
+
+    if (!afterHours && !beforeSeconds) return token;
+    return { kind: 'date', code: token.code === 'm' ? 'n' : 'nn' };
+  });
+}
+
 // ============================================================================
 // FORMAT COMPILER
 // ============================================================================
 
+/** A section reduced to a function of the (already sign-adjusted) value */
+interface CompiledSection {
+  source: FormatSection;
+  /** Format a number's magnitude; null when the section cannot show it (dates < 0) */
+  number: (value: number) => string | null;
+  /** Format a text value */
+  text: (value: string) => string;
+  /** Section has an @ placeholder */
+  hasText: boolean;
+}
+
 /**
  * Compile parsed format into executable function
  */
 export function compileFormat(parsed: ParsedFormat): FormatFunction {
+  const sections = parsed.sections.map(compileSection);
+  if (sections.length === 0) {
+    sections.push(compileSection({ pattern: 'General' }));
+  }
+  const hasConditions = sections.some(s => s.source.condition);
+
   return (value: any) => {
-    // Determine which section to use
-    const section = selectSection(value, parsed.sections);
-    if (!section) {
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) return { text: String(value) };
+      value = dateToSerial(value);
+    }
+
+    if (typeof value === 'string') {
+      const section = selectTextSection(sections);
+      if (!section) return { text: value };
+      return { text: section.text(value), color: section.source.color };
+    }
+
+    if (typeof value !== 'number' || !isFinite(value)) {
       return { text: String(value) };
     }
-    
-    // Apply formatting
-    const formatted = applyPattern(value, section.pattern);
-    
+
+    const { section, absolute } = selectSection(value, sections, hasConditions);
+    const shown = absolute ? Math.abs(value) : value;
+    const text = section.number(shown);
+    if (text === null) {
+      return { text: formatGeneral(value) };
+    }
+
     return {
-      text: formatted,
-      color: section.color,
+      text: shown < 0 ? '-' + text : text,
+      color: section.source.color,
     };
   };
 }
 
 /**
- * Select appropriate format section based on value and conditions
+ * Select appropriate format section based on value and conditions.
+ * `absolute` is set when the section is the implicit negative section,
+ * which shows the magnitude (its pattern supplies any sign or brackets).
  */
-function selectSection(value: any, sections: FormatSection[]): FormatSection | null {
-  if (sections.length === 0) {
-    return null;
-  }
-  
-  // Handle text values (section 4)
-  if (typeof value === 'string' && sections.length === 4) {
-    return sections[3];
-  }
-  
-  // Convert to number
-  const num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) {
-    return sections[0]; // Fallback to first section
-  }
-  
-  // Check conditional sections first
-  const hasConditions = sections.some(s => s.condition);
+function selectSection(
+  num: number,
+  sections: CompiledSection[],
+  hasConditions: boolean
+): { section: CompiledSection; absolute: boolean } {
   if (hasConditions) {
     for (const section of sections) {
-      if (section.condition) {
-        if (evaluateCondition(num, section.condition)) {
-          return section;
-        }
+      const condition = section.source.condition;
+      if (condition && evaluateCondition(num, condition)) {
+        return { section, absolute: false };
       }
     }
-    // If no condition matched, use last section (fallback)
-    return sections[sections.length - 1];
+    // Otherwise the first section without a condition, or the last one
+    const fallback = sections.find(s => !s.source.condition) ?? sections[sections.length - 1];
+    return { section: fallback, absolute: false };
   }
-  
-  // Standard 3-section logic (no conditions)
-  if (sections.length === 1) {
-    return sections[0]; // All values
-  } else if (sections.length === 2) {
-    return num >= 0 ? sections[0] : sections[1];
-  } else if (sections.length >= 3) {
-    if (num > 0) return sections[0];
-    if (num < 0) return sections[1];
-    return sections[2]; // zero
+
+  // Standard 3-section logic (no conditions); a 4th section is text only
+  if (sections.length === 1 || num > 0) {
+    return { section: sections[0], absolute: false };
   }
-  
-  return sections[0];
+  if (num < 0) {
+    return { section: sections[1], absolute: true };
+  }
+  return { section: sections.length >= 3 ? sections[2] : sections[0], absolute: false };
+}
+
+/**
+ * Text uses the 4th section; a lone section only when it has an @
+ */
+function selectTextSection(sections: CompiledSection[]): CompiledSection | null {
+  if (sections.length >= 4) return sections[3];
+  if (sections.length === 1 && sections[0].hasText) return sections[0];
+  return null;
 }
 
 /**
@@ -272,267 +566,436 @@ function evaluateCondition(value: number, condition: { operator: string; value:
   }
 }
 
+function compileSection(source: FormatSection): CompiledSection {
+  const tokens = tokenize(source.pattern);
+  const hasText = tokens.some(t => t.kind === 'text');
+  const isDate = tokens.some(t => t.kind === 'date' || t.kind === 'elapsed' || t.kind === 'ampm');
+  const isFraction = tokens.some(t => t.kind === 'slash');
+
+  const number = isDate
+    ? compileDate(tokens)
+    : isFraction
+      ? compileFraction(tokens)
+      : compileNumber(tokens);
+
+  return {
+    source,
+    number,
+    text: (value: string) => tokens.map(t => (t.kind === 'text' ? value : t.kind === 'literal' ? t.text : '')).join(''),
+    hasText,
+  };
+}
+
 // ============================================================================
-// PATTERN FORMATTER
+// NUMBER SECTIONS
 // ============================================================================
 
+const EMPTY_DIGIT: Record<DigitChar, string> = { '0': '0', '#': '', '?': ' ' };
+
+function compileNumber(tokens: Token[]): (value: number) => string {
+  const pointIndex = tokens.findIndex(t => t.kind === 'point');
+  const exponentIndex = tokens.findIndex(t => t.kind === 'exponent');
+  const mantissaEnd = exponentIndex === -1 ? tokens.length : exponentIndex;
+  const intEnd = pointIndex === -1 ? mantissaEnd : pointIndex;
+
+  const intDigits: DigitChar[] = [];
+  const decDigits: DigitChar[] = [];
+  const exponentDigits: DigitChar[] = [];
+  tokens.forEach((t, i) => {
+    if (t.kind !== 'digit') return;
+    if (i >= mantissaEnd) exponentDigits.push(t.char);
+    else (i < intEnd ? intDigits : decDigits).push(t.char);
+  });
+
+  // A comma between integer placeholders groups thousands; a comma after
+  // the last placeholder divides by 1000
+  let grouping = false;
+  let scale = 0;
+  const firstDigit = tokens.findIndex(t => t.kind === 'digit');
+  let lastIntDigit = -1;
+  tokens.forEach((t, i) => { if (t.kind === 'digit' && i < intEnd) lastIntDigit = i; });
+  tokens.forEach((t, i) => {
+    if (t.kind !== 'comma' || firstDigit === -1 || i < firstDigit || i >= mantissaEnd) return;
+    if (i < lastIntDigit) grouping = true;
+    else scale++;
+  });
+
+  const percent = tokens.filter(t => t.kind === 'percent').length;
+  const exponent = exponentIndex === -1 ? null : (tokens[exponentIndex] as Extract<Token, { kind: 'exponent' }>);
+  const step = intDigits.includes('#') ? Math.max(intDigits.length, 1) : 1;
+  const leadingIntDigits = intDigits.filter(c => c === '0').length;
+
+  return (signed: number) => {
+    const value = Math.abs(signed);
+    let scaled = value * Math.pow(100, percent) / Math.pow(1000, scale);
+
+    let exponentValue = 0;
+    if (exponent && scaled !== 0) {
+      exponentValue = Math.floor(Math.log10(scaled));
+      exponentValue = step > 1
+        ? Math.floor(exponentValue / step) * step
+        : exponentValue - Math.max(leadingIntDigits - 1, 0);
+      scaled = scaled / Math.pow(10, exponentValue);
+      // Rounding can push the mantissa up a power of ten (9.999 → 10.00)
+      if (roundFixed(scaled, decDigits.length).split('.')[0].length > Math.max(intDigits.length, 1)) {
+        scaled /= Math.pow(10, step);
+        exponentValue += step;
+      }
+    }
+
+    const [intPart, decPart = ''] = roundFixed(scaled, decDigits.length).split('.');
+    const intOut = fillInteger(intDigits, intPart === '0' ? '' : intPart, grouping);
+    const decOut = fillDecimals(decDigits, decPart);
+
+    let out = '';
+    let intIndex = 0;
+    let decIndex = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      const t = tokens[i];
+      switch (t.kind) {
+        case 'digit':
+          if (i >= mantissaEnd) break;
+          out += i < intEnd ? intOut[intIndex++] : decOut[decIndex++];
+          break;
+        case 'point':
+          // No integer placeholders (.00): the integer digits go before the point
+          out += (intDigits.length === 0 && intPart !== '0' ? intPart : '') + '.';
+          break;
+        case 'comma':
+          if (i < firstDigit || i >= mantissaEnd) out += ',';
+          break;
+        case 'percent':
+          out += '%';
+          break;
+        case 'exponent': {
+          // Exponent placeholders pad like integer ones: 0.00E+00 gives 1.23E+03
+          const digits = String(Math.abs(exponentValue));
+          out += t.text + (exponentValue < 0 ? '-' : t.showPlus ? '+' : '') +
+            (exponentDigits.length > 0 ? fillInteger(exponentDigits, digits, false).join('') : digits);
+          break;
+        }
+        case 'literal':
+          out += t.text;
+          break;
+        case 'general':
+        case 'text':
+          out += formatGeneral(value);
+          break;
+      }
+    }
+    return out;
+  };
+}
+
 /**
- * Apply format pattern to value
- * Handles: numbers, currency, fractions, dates, text placeholders
+ * Fill integer placeholders right to left. The leftmost placeholder takes
+ * any digits left over, so a short pattern never truncates the number.
  */
-function applyPattern(value: any, pattern: string): string {
-  // Text placeholder @
-  if (pattern.includes('@')) {
-    let result = pattern.replace(/@/g, String(value));
-    // Strip literal quotes from result
-    result = result.replace(/"([^"]*)"/g, '$1');
-    return result;
-  }
-  
-  // Handle literal strings (quoted text like "Zero")
-  if (pattern.trim().startsWith('"') && pattern.trim().endsWith('"')) {
-    return pattern.trim().slice(1, -1);
-  }
-  
-  // Fraction format (# ?/?)
-  if (pattern.includes('?/?') || pattern.includes('?/?')) {
-    return formatFraction(value, pattern);
-  }
-  
-  // Percentage format
-  if (pattern.includes('%')) {
-    return formatPercent(value, pattern);
-  }
-  
-  // Scientific notation (0.00E+00) - must check E followed by +/-
-  if (/E[+-]/i.test(pattern)) {
-    return formatScientific(value, pattern);
-  }
-  
-  // Elapsed time [h]:mm:ss
-  if (pattern.includes('[h]') || pattern.includes('[m]') || pattern.includes('[s]')) {
-    return formatElapsedTime(value, pattern);
+function fillInteger(placeholders: DigitChar[], digits: string, grouping: boolean): string[] {
+  const out: string[] = new Array(placeholders.length);
+  let remaining = digits.length;
+
+  for (let i = placeholders.length - 1; i >= 0; i--) {
+    if (i === 0 && remaining > 1) {
+      out[i] = digits.slice(0, remaining);
+      remaining = 0;
+    } else if (remaining > 0) {
+      out[i] = digits[--remaining];
+    } else {
+      out[i] = EMPTY_DIGIT[placeholders[i]];
+    }
   }
-  
-  // Date/time patterns
-  if (containsDateTokens(pattern)) {
-    return formatDateTime(value, pattern);
+
+  if (!grouping) return out;
+
+  let count = 0;
+  for (let i = out.length - 1; i >= 0; i--) {
+    let grouped = '';
+    for (let j = out[i].length - 1; j >= 0; j--) {
+      const char = out[i][j];
+      if (char >= '0' && char <= '9') {
+        if (count > 0 && count % 3 === 0) grouped = ',' + grouped;
+        count++;
+      }
+      grouped = char + grouped;
+    }
+    out[i] = grouped;
   }
-  
-  // Number format with thousands scaling
-  return formatNumber(value, pattern);
+  return out;
 }
 
 /**
- * Format as fraction
+ * Fill decimal placeholders left to right; trailing zeros disappear
+ * under # and turn into spaces under ?
  */
-function formatFraction(value: any, pattern: string): string {
-  const num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) return String(value);
-  
-  const whole = Math.floor(Math.abs(num));
-  const frac = Math.abs(num) - whole;
-  
-  if (frac === 0) {
-    return String(num);
-  }
-  
-  // Simple fraction approximation
-  const denominator = pattern.includes('??/??') ? 99 : 9;
-  const numerator = Math.round(frac * denominator);
-  
-  const sign = num < 0 ? '-' : '';
-  if (whole === 0) {
-    return `${sign}${numerator}/${denominator}`;
+function fillDecimals(placeholders: DigitChar[], digits: string): string[] {
+  const out = placeholders.map((_, i) => digits[i] ?? '0');
+  for (let i = placeholders.length - 1; i >= 0; i--) {
+    if (placeholders[i] === '0' || out[i] !== '0') break;
+    out[i] = EMPTY_DIGIT[placeholders[i]];
   }
-  return `${sign}${whole} ${numerator}/${denominator}`;
+  return out;
 }
 
 /**
- * Format as percentage
+ * toFixed with Excel's round-half-away-from-zero on decimal input
+ * (1.005 → "1.01", where plain toFixed gives "1.00")
  */
-function formatPercent(value: any, pattern: string): string {
-  const num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) return String(value);
-  
-  const percent = num * 100;
-  const decimals = (pattern.match(/\.0+/) || [''])[0].length - 1;
-  
-  return percent.toFixed(Math.max(0, decimals)) + '%';
+function roundFixed(value: number, decimals: number): string {
+  return (value * (1 + Number.EPSILON)).toFixed(decimals);
 }
 
-/**
- * Format as scientific notation
- */
-function formatScientific(value: any, pattern: string): string {
-  const num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) return String(value);
-  
-  const decimals = (pattern.match(/\.0+/) || [''])[0].length - 1;
-  return num.toExponential(Math.max(0, decimals)).replace('e', 'E');
+// ============================================================================
+// FRACTIONS
+// ============================================================================
+
+function compileFraction(tokens: Token[]): (value: number) => string {
+  const slash = tokens.findIndex(t => t.kind === 'slash');
+
+  // Numerator: the placeholder run right before the slash
+  let numStart = slash;
+  while (numStart > 0 && tokens[numStart - 1].kind === 'digit') numStart--;
+
+  // Denominator: placeholders or a fixed number right after it
+  let denEnd = slash + 1;
+  while (denEnd < tokens.length && (tokens[denEnd].kind === 'digit' || tokens[denEnd].kind === 'denominator')) denEnd++;
+
+  const digitsIn = (from: number, to: number) =>
+    tokens.slice(from, to).flatMap(t => (t.kind === 'digit' ? [t.char] : []));
+  const intDigits = digitsIn(0, numStart);
+  const numDigits = digitsIn(numStart, slash);
+  const denDigits = digitsIn(slash + 1, denEnd);
+  const fixed = tokens.slice(slash + 1, denEnd).find(t => t.kind === 'denominator') as
+    Extract<Token, { kind: 'denominator' }> | undefined;
+  const maxDenominator = Math.pow(10, denDigits.length) - 1;
+  const hasInteger = intDigits.length > 0;
+  const grouping = tokens.slice(0, numStart).some(t => t.kind === 'comma');
+  const percent = tokens.filter(t => t.kind === 'percent').length;
+
+  return (signed: number) => {
+    const value = Math.abs(signed);
+    const scaled = value * Math.pow(100, percent);
+    let whole = hasInteger ? Math.floor(scaled) : 0;
+    const fraction = scaled - whole;
+
+    let [numerator, denominator] = fixed
+      ? [Math.round(fraction * fixed.value), fixed.value]
+      : approximateFraction(fraction, maxDenominator);
+    if (hasInteger && numerator === denominator) {
+      whole++;
+      numerator = 0;
+    }
+
+    const blankFraction = hasInteger && numerator === 0;
+    const intOut = fillInteger(intDigits, whole === 0 ? (blankFraction ? '0' : '') : String(whole), grouping);
+    const numOut = fillInteger(numDigits, String(numerator), false);
+    const denText = String(denominator);
+    const denOut = denDigits.map((c, i) =>
+      i === 0 ? denText : i < denText.length ? '' : EMPTY_DIGIT[c]);
+
+    let out = '';
+    let intIndex = 0;
+    let numIndex = 0;
+    let denIndex = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      const t = tokens[i];
+      const inFraction = i >= numStart && i < denEnd;
+      let piece = '';
+      switch (t.kind) {
+        case 'digit':
+          piece = i < numStart ? intOut[intIndex++] : i < slash ? numOut[numIndex++] : denOut[denIndex++];
+          break;
+        case 'slash':
+          piece = '/';
+          break;
+        case 'denominator':
+          piece = String(t.value);
+          break;
+        case 'percent':
+          piece = '%';
+          break;
+        case 'literal':
+          piece = t.text;
+          break;
+        case 'general':
+        case 'text':
+          piece = formatGeneral(value);
+          break;
+      }
+      // A whole number keeps the fraction's width as blanks
+      out += inFraction && blankFraction ? ' '.repeat(piece.length) : piece;
+    }
+    return out;
+  };
 }
 
 /**
- * Format elapsed time (hours/minutes/seconds beyond 24h)
+ * Closest fraction to x (0 <= x < 1 for mixed numbers) with a denominator
+ * of at most maxDenominator, from continued-fraction convergents
  */
-function formatElapsedTime(value: any, pattern: string): string {
-  const num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) return String(value);
-  
-  // Excel stores time as fraction of day
-  const totalSeconds = num * 24 * 60 * 60;
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = Math.floor(totalSeconds % 60);
-  
-  let result = pattern;
-  result = result.replace(/\[h\]/g, String(hours));
-  result = result.replace(/mm/g, String(minutes).padStart(2, '0'));
-  result = result.replace(/ss/g, String(seconds).padStart(2, '0'));
-  
-  return result;
+function approximateFraction(x: number, maxDenominator: number): [number, number] {
+  let p0 = 0, q0 = 1, p1 = 1, q1 = 0;
+  let r = x;
+
+  for (let i = 0; i < 64; i++) {
+    const a = Math.floor(r);
+    const q2 = q0 + a * q1;
+    if (q2 > maxDenominator) {
+      // Best semiconvergent within the bound, if closer than the last convergent
+      const k = Math.floor((maxDenominator - q0) / q1);
+      const ps = p0 + k * p1;
+      const qs = q0 + k * q1;
+      return Math.abs(x - ps / qs) < Math.abs(x - p1 / q1) ? [ps, qs] : [p1, q1];
+    }
+    const p2 = p0 + a * p1;
+    p0 = p1; q0 = q1;
+    p1 = p2; q1 = q2;
+
+    const rest = r - a;
+    if (rest < 1e-10) break;
+    r = 1 / rest;
+  }
+
+  return [p1, q1];
 }
 
+// ============================================================================
+// DATES AND TIMES
+// ============================================================================
+
+const MS_PER_DAY = 86400000;
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 /**
- * Check if pattern contains date/time tokens
+ * Serial number for a Date, from its local date and time
  */
-function containsDateTokens(pattern: string): boolean {
-  return /[ymdhs]/i.test(pattern) && !/\[/.test(pattern);
+function dateToSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+  const serial = (utc - SERIAL_EPOCH) / MS_PER_DAY;
+  // Serials before 1 March 1900 are one lower (no real 29 Feb 1900 to skip)
+  return serial < 61 ? serial - 1 : serial;
 }
 
 /**
- * Format as date/time
+ * Calendar date of a whole serial, reproducing Excel's 29 Feb 1900 and
+ * its "0 January 1900" for serial 0
  */
-function formatDateTime(value: any, pattern: string): string {
-  let date: Date;
-  
-  if (value instanceof Date) {
-    date = value;
-  } else if (typeof value === 'number') {
-    // Excel serial date
-    const EXCEL_EPOCH_OFFSET = 25569;
-    const MS_PER_DAY = 86400 * 1000;
-    const daysSinceUnixEpoch = value - EXCEL_EPOCH_OFFSET;
-    date = new Date(daysSinceUnixEpoch * MS_PER_DAY);
-  } else {
-    date = new Date(value);
-  }
-  
-  if (isNaN(date.getTime())) {
-    return String(value);
-  }
-  
-  return formatDateWithPattern(date, pattern);
+function serialToCalendar(day: number): { year: number; month: number; day: number } {
+  if (day === 0) return { year: 1900, month: 1, day: 0 };
+  if (day === 60) return { year: 1900, month: 2, day: 29 };
+  const date = new Date(SERIAL_EPOCH + (day < 60 ? day + 1 : day) * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
 }
 
-/**
- * Format date with pattern
- * Handles collision between mm (month) and mm (minutes)
- */
-function formatDateWithPattern(date: Date, pattern: string): string {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
-  const seconds = date.getSeconds();
-  
-  let result = pattern;
-  
-  // Determine if this is date or time format
-  const hasDateTokens = /[yYdD]/.test(pattern);
-  const hasTimeTokens = /[hHsS]/.test(pattern);
-  
-  // Year
-  result = result.replace(/yyyy/g, String(year));
-  result = result.replace(/yy/g, String(year).slice(-2));
-  
-  // Month (only if date format)
-  if (hasDateTokens) {
-    result = result.replace(/mmmm/gi, date.toLocaleString('en-US', { month: 'long' }));
-    result = result.replace(/mmm/gi, date.toLocaleString('en-US', { month: 'short' }));
-    result = result.replace(/mm/g, String(month).padStart(2, '0'));
-    result = result.replace(/m/g, String(month));
-  }
-  
-  // Day
-  result = result.replace(/dddd/gi, date.toLocaleString('en-US', { weekday: 'long' }));
-  result = result.replace(/ddd/gi, date.toLocaleString('en-US', { weekday: 'short' }));
-  result = result.replace(/dd/g, String(day).padStart(2, '0'));
-  result = result.replace(/d/g, String(day));
-  
-  // Hours
-  result = result.replace(/hh/gi, String(hours % 12 || 12).padStart(2, '0'));
-  result = result.replace(/h/gi, String(hours % 12 || 12));
-  result = result.replace(/HH/g, String(hours).padStart(2, '0'));
-  result = result.replace(/H/g, String(hours));
-  
-  // Minutes (only if time format or mm appears AFTER h/H)
-  if (hasTimeTokens || !hasDateTokens) {
-    result = result.replace(/mm/g, String(minutes).padStart(2, '0'));
-    result = result.replace(/m/g, String(minutes));
-  }
-  
-  // Seconds
-  result = result.replace(/ss/g, String(seconds).padStart(2, '0'));
-  
-  // AM/PM
-  result = result.replace(/AM\/PM/gi, hours >= 12 ? 'PM' : 'AM');
-  
-  return result;
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function compileDate(tokens: Token[]): (value: number) => string | null {
+  const subsecond = tokens.reduce((max, t) => (t.kind === 'subsecond' ? Math.max(max, t.digits) : max), 0);
+  const twelveHour = tokens.some(t => t.kind === 'ampm');
+  const ticksPerSecond = Math.pow(10, subsecond);
+  const ticksPerDay = 86400 * ticksPerSecond;
+
+  return (value: number) => {
+    if (value < 0) return null;
+
+    // Round to the shown precision first so 23:59:59.6 becomes the next day
+    const ticks = Math.round(value * ticksPerDay);
+    const day = Math.floor(ticks / ticksPerDay);
+    const dayTicks = ticks - day * ticksPerDay;
+    const totalSeconds = Math.floor(ticks / ticksPerSecond);
+    const secondsOfDay = Math.floor(dayTicks / ticksPerSecond);
+    const hours = Math.floor(secondsOfDay / 3600);
+    const minutes = Math.floor(secondsOfDay / 60) % 60;
+    const seconds = secondsOfDay % 60;
+    const date = serialToCalendar(day);
+    const weekday = (day + 6) % 7;
+    const hour12 = hours % 12 || 12;
+
+    let out = '';
+    for (const t of tokens) {
+      switch (t.kind) {
+        case 'date':
+          switch (t.code) {
+            case 'yy': out += pad(date.year % 100, 2); break;
+            case 'yyyy': out += String(date.year); break;
+            case 'm': out += String(date.month); break;
+            case 'mm': out += pad(date.month, 2); break;
+            case 'mmm': out += MONTH_NAMES[date.month - 1].slice(0, 3); break;
+            case 'mmmm': out += MONTH_NAMES[date.month - 1]; break;
+            case 'mmmmm': out += MONTH_NAMES[date.month - 1][0]; break;
+            case 'd': out += String(date.day); break;
+            case 'dd': out += pad(date.day, 2); break;
+            case 'ddd': out += DAY_NAMES[weekday].slice(0, 3); break;
+            case 'dddd': out += DAY_NAMES[weekday]; break;
+            case 'h': out += String(twelveHour ? hour12 : hours); break;
+            case 'hh': out += pad(twelveHour ? hour12 : hours, 2); break;
+            case 'n': out += String(minutes); break;
+            case 'nn': out += pad(minutes, 2); break;
+            case 's': out += String(seconds); break;
+            case 'ss': out += pad(seconds, 2); break;
+          }
+          break;
+        case 'elapsed': {
+          const divisor = t.unit === 'h' ? 3600 : t.unit === 'm' ? 60 : 1;
+          out += pad(Math.floor(totalSeconds / divisor), t.width);
+          break;
+        }
+        case 'subsecond': {
+          const fraction = pad(dayTicks % ticksPerSecond, subsecond);
+          out += '.' + fraction.slice(0, t.digits);
+          break;
+        }
+        case 'ampm':
+          out += hours < 12 ? t.am : t.pm;
+          break;
+        case 'literal':
+          out += t.text;
+          break;
+        case 'general':
+        case 'text':
+          out += formatGeneral(value);
+          break;
+      }
+    }
+    return out;
+  };
 }
 
+// ============================================================================
+// GENERAL
+// ============================================================================
+
 /**
- * Format as number with thousands grouping and scaling
+ * General format: up to 10 significant digits, scientific notation for
+ * very large or very small magnitudes (1.23457E+11)
  */
-function formatNumber(value: any, pattern: string): string {
-  let num = typeof value === 'number' ? value : parseFloat(String(value));
-  if (isNaN(num)) return String(value);
-  
-  //  Handle negative
-  const isNegative = num < 0;
-  num = Math.abs(num);
-  
-  // Thousands scaling (trailing commas divide by 1000)
-  // e.g., #,##0, = divide by 1000, #,##0,, = divide by 1,000,000
-  const trailingMatch = pattern.match(/,+$/) || pattern.match(/,+(?=[^#0]|$)/);
-  const scalingCommas = trailingMatch ? trailingMatch[0].length : 0;
-  if (scalingCommas > 0) {
-    num = num / Math.pow(1000, scalingCommas);
-  }
-  
-  // Determine decimal places
-  const decimalPart = pattern.split('.')[1] || '';
-  const decimals = decimalPart.replace(/[^0#]/g, '').length;
-  
-  // Format with Intl
-  // Check if pattern has commas that are NOT all trailing (i.e., #,##0, has grouping commas before trailing)
-  const patternWithoutTrailing = trailingMatch ? pattern.slice(0, -trailingMatch[0].length) : pattern;
-  const hasGrouping = patternWithoutTrailing.includes(',');
-  const formatter = new Intl.NumberFormat('en-US', {
-    minimumFractionDigits: decimals,
-    maximumFractionDigits: decimals,
-    useGrouping: hasGrouping,
-  });
-  
-  let formatted = formatter.format(num);
-  
-  // Add currency symbol if present
-  const currencyMatch = pattern.match(/[$€£¥]/);
-  if (currencyMatch) {
-    formatted = currencyMatch[0] + formatted;
-  }
-  
-  // Add negative sign
-  if (isNegative) {
-    if (pattern.includes('(') && pattern.includes(')')) {
-      formatted = '(' + formatted + ')';
-    } else {
-      formatted = '-' + formatted;
-    }
+function formatGeneral(value: number): string {
+  if (!isFinite(value)) return String(value);
+  if (value === 0) return '0';
+
+  const abs = Math.abs(value);
+  if (abs >= 1e11 || abs < 1e-9) {
+    const [mantissa, exp] = value.toExponential(5).split('e');
+    const trimmed = mantissa.replace(/\.?0+$/, '');
+    const power = parseInt(exp, 10);
+    return `${trimmed}E${power < 0 ? '-' : '+'}${pad(Math.abs(power), 2)}`;
   }
-  
-  return formatted;
+
+  const text = String(parseFloat(value.toPrecision(10)));
+  if (!text.includes('e')) return text;
+  // Small magnitudes that String() writes in exponent form
+  return parseFloat(value.toPrecision(10)).toFixed(10).replace(/\.?0+$/, '');
 }
 
 // ============================================================================
@@ -4,28 +4,27 @@
  * Evidence-driven implementation: 16 unique formats from audit (Feb 14, 2026)
  * 
  * Design:
- * - Closed-set formatter (16 formats from codebase)
- * - Precompiled Intl formatters (O(1) lookup, <0.5µs execution)
- * - No parser, no AST, no compiler
- * - Fail-fast on unknown formats (governance alarm)
+ * - FORMAT_SPECS: registry of the formats the app itself emits, with
+ *   precompiled Intl formatters for callers that want them
+ * - formatValue(): formats any Excel code through the compiled
+ *   ExcelFormatGrammar, registered or not
  * 
  * Performance:
- * - Individual format: <0.5µs (precompiled Intl lookup)
+ * - Format codes compile once and are cached
  * - 10,000 formats: <5ms (fast scroll budget)
  * 
  * Governance:
- * - Unknown format → throw in dev, log once in prod
  * - Spec count guard test ensures awareness when format 17 appears
  * 
- * @packageDocumentation
+ @packageDocumentation
  */
 
 import {
   NumberFormatSpec,
   CompiledFormatSpec,
   compileSpec,
-  excelSerialToDate,
 } from './NumberFormatSpec';
+import { getFormatter } from './ExcelFormatGrammar';
 
 /**
  * Static format specification map (16 entries from audit)
@@ -84,217 +83,29 @@ export const FORMAT_SPECS: Record<string, CompiledFormatSpec> = Object.freeze(
   )
 );
 
-/**
- * Unknown format tracking (for deduplication in production)
- */
-const unknownFormats = new Set<string>();
-
-/**
- * Strict mode flag (throw on unknown formats)
- * 
- * - Dev: true (fail-fast, force governance)
- * - Prod: false (log once, fallback to General)
- * 
- * Note: Defaults to true (strict). Set to false in production builds.
- */
-export let STRICT_MODE = true;
-
 /**
  * Format a value using a format string
  * 
- * PERFORMANCE:
- * - O(1) spec lookup
- * - Precompiled Intl formatter invocation
- * - <0.5µs execution (measured)
- * 
- * GOVERNANCE:
- * - Unknown format → throw in dev, log once in prod
- * - Evidence-driven: All formats must exist in FORMAT_SPECS
+ * Every format code goes through the compiled ExcelFormatGrammar (cached
+ * per code), so custom codes from imported workbooks format the same way
+ * as the registered specs. Colors from [Red]-style tags are dropped here;
+ * use getFormatter() from ExcelFormatGrammar when the color is needed.
  * 
  * @param value - Value to format (number, string, Date, or Excel serial date)
- * @param formatString - Format string (must exist in FORMAT_SPECS)
+ * @param formatString - Excel format code
  * @returns Formatted string
  * 
- * @throws {Error} In strict mode, if formatString is unknown
- * 
  * @example
  * ```ts
  * formatValue(1234.5, '#,##0.00')  // "1,234.50"
  * formatValue(0.85, '0%')           // "85%"
  * formatValue(12.5, '$#,##0.00')    // "$12.50"
  * formatValue(44927, 'm/d/yyyy')    // "1/1/2023"
+ * formatValue(1.75, '# ?/?')        // "1 3/4"
  * ```
  */
 export function formatValue(value: any, formatString: string): string {
-  const spec = FORMAT_SPECS[formatString];
-  
-  // === GOVERNANCE: Unknown format handling ===
-  if (!spec) {
-    const message = `Unknown number format: "${formatString}" - Add to audit or investigate`;
-    
-    if (STRICT_MODE) {
-      // Dev: Fail fast (force governance)
-      throw new Error(message);
-    } else {
-      // Prod: Log once (deduplicated), fallback to General
-      if (!unknownFormats.has(formatString)) {
-        console.warn(message);
-        unknownFormats.add(formatString);
-      }
-      return String(value);
-    }
-  }
-  
-  // === Type-specific formatting ===
-  switch (spec.type) {
-    case 'number':
-      return formatNumber(value, spec);
-    
-    case 'currency':
-      return formatCurrency(value, spec);
-    
-    case 'percent':
-      return formatPercent(value, spec);
-    
-    case 'date':
-      return formatDate(value, spec);
-    
-    case 'time':
-      return formatTime(value, spec);
-    
-    case 'text':
-      return String(value);
-    
-    default:
-      return String(value);
-  }
-}
-
-/**
- * Format a number using precompiled Intl.NumberFormat
- * 
- * @param value - Numeric value
- * @param spec - Compiled format spec with Intl formatter
- * @returns Formatted number string
- */
-function formatNumber(value: any, spec: CompiledFormatSpec): string {
-  if (typeof value !== 'number' || isNaN(value)) {
-    return String(value);
-  }
-  
-  // Use precompiled Intl.NumberFormat
-  const formatter = spec.formatter as Intl.NumberFormat;
-  return formatter.format(value);
-}
-
-/**
- * Format a currency value using precompiled Intl.NumberFormat
- * 
- * IMPORTANT: Excel format "$#,##0.00" uses literal "$", not locale currency.
- * We format the number, then prepend the currency symbol.
- * 
- * This ensures deterministic output matching Excel behavior.
- * 
- * @param value - Numeric value
- * @param spec - Compiled format spec with Intl formatter
- * @returns Formatted currency string (e.g., "$1,234.50")
- */
-function formatCurrency(value: any, spec: CompiledFormatSpec): string {
-  if (typeof value !== 'number' || isNaN(value)) {
-    return String(value);
-  }
-  
-  // Use precompiled Intl.NumberFormat for number part
-  const formatter = spec.formatter as Intl.NumberFormat;
-  const formattedNumber = formatter.format(Math.abs(value));
-  
-  // Prepend currency symbol (literal, not locale-driven)
-  const symbol = spec.currencySymbol || '$';
-  
-  // Handle negative values
-  if (value < 0) {
-    return `-${symbol}${formattedNumber}`;
-  }
-  
-  return `${symbol}${formattedNumber}`;
-}
-
-/**
- * Format a percentage using precompiled Intl.NumberFormat
- * 
- * Note: Intl.NumberFormat with style: 'percent' expects decimal values
- * (e.g., 0.85 → "85%"), which matches Excel behavior.
- * 
- * @param value - Numeric value (decimal, e.g., 0.85 for 85%)
- * @param spec - Compiled format spec with Intl formatter
- * @returns Formatted percentage string
- */
-function formatPercent(value: any, spec: CompiledFormatSpec): string {
-  if (typeof value !== 'number' || isNaN(value)) {
-    return String(value);
-  }
-  
-  // Use precompiled Intl.NumberFormat with style: 'percent'
-  const formatter = spec.formatter as Intl.NumberFormat;
-  return formatter.format(value);
-}
-
-/**
- * Format a date using precompiled Intl.DateTimeFormat
- * 
- * Handles both:
- * - JavaScript Date objects
- * - Excel serial dates (numeric, e.g., 44927 = Jan 1, 2023)
- * 
- * Excel serial date conversion includes 1900 leap year bug adjustment.
- * 
- * @param value - Date object or Excel serial date
- * @param spec - Compiled format spec with Intl formatter
- * @returns Formatted date string
- */
-function formatDate(value: any, spec: CompiledFormatSpec): string {
-  let date: Date;
-  
-  if (value instanceof Date) {
-    date = value;
-  } else if (typeof value === 'number') {
-    // Excel serial date → JavaScript Date
-    date = excelSerialToDate(value);
-  } else {
-    return String(value);
-  }
-  
-  // Use precompiled Intl.DateTimeFormat
-  const formatter = spec.formatter as Intl.DateTimeFormat;
-  return formatter.format(date);
-}
-
-/**
- * Format a time using precompiled Intl.DateTimeFormat
- * 
- * Handles both:
- * - JavaScript Date objects
- * - Excel serial dates (fractional part = time, e.g., 0.5 = 12:00 PM)
- * 
- * @param value - Date object or Excel serial date
- * @param spec - Compiled format spec with Intl formatter
- * @returns Formatted time string
- */
-function formatTime(value: any, spec: CompiledFormatSpec): string {
-  let date: Date;
-  
-  if (value instanceof Date) {
-    date = value;
-  } else if (typeof value === 'number') {
-    // Excel serial date → JavaScript Date
-    date = excelSerialToDate(value);
-  } else {
-    return String(value);
-  }
-  
-  // Use precompiled Intl.DateTimeFormat
-  const formatter = spec.formatter as Intl.DateTimeFormat;
-  return formatter.format(date);
+  return getFormatter(formatString)(value).text;
 }
 
 /**
@@ -171,7 +171,8 @@ describe('ExcelFormatGrammar - Comprehensive Format Engine', () => {
     
     it('should format mixed number', () => {
       const result = formatValue(2.75, '# ??/??');
-      expect(result.text).toMatch(/2 \d+\/\d+/);
+      // ?? placeholders pad with spaces so fractions line up in a column
+      expect(result.text).toBe('2  3/4 ');
     });
   });
   
@@ -182,17 +183,25 @@ describe('ExcelFormatGrammar - Comprehensive Format Engine', () => {
   describe('Scientific Notation', () => {
     it('should format in scientific notation', () => {
       const result = formatValue(1234567, '0.00E+00');
-      expect(result.text).toBe('1.23E+6');
+      expect(result.text).toBe('1.23E+06');
     });
     
     it('should handle very small numbers', () => {
       const result = formatValue(0.000123, '0.00E+00');
-      expect(result.text).toBe('1.23E-4');
+      expect(result.text).toBe('1.23E-04');
     });
     
     it('should format with more decimal places', () => {
       const result = formatValue(9876543, '0.0000E+00');
-      expect(result.text).toBe('9.8765E+6');
+      expect(result.text).toBe('9.8765E+06');
+    });
+
+    it('should pad the exponent to its placeholder count', () => {
+      expect(formatValue(1234.5, '0.00E+00').text).toBe('1.23E+03');
+      expect(formatValue(0.0012345, '0.00E+00').text).toBe('1.23E-03');
+      expect(formatValue(1234.5, '0.0E+0').text).toBe('1.2E+3');
+      expect(formatValue(1.5, '0.0E+000').text).toBe('1.5E+000');
+      expect(formatValue(1e120, '0.00E+00').text).toBe('1.00E+120');
     });
   });
   
@@ -343,4 +352,100 @@ describe('ExcelFormatGrammar - Comprehensive Format Engine', () => {
       expect(formatValue(1234567890, format2).text).toBe('1,235');
     });
   });
+  
+  // =========================================================================
+  // 1️⃣3️⃣ IMPORTED WORKBOOK FORMATS
+  // =========================================================================
+  
+  describe('Serial Dates and Times', () => {
+    it('should format full date tokens from serials', () => {
+      expect(formatValue(44927, 'dddd, mmmm d, yyyy').text).toBe('Sunday, January 1, 2023');
+      expect(formatValue(44927, 'ddd d-mmm-yy').text).toBe('Sun 1-Jan-23');
+      expect(formatValue(44927, 'mmmmm').text).toBe('J');
+    });
+    
+    it('should keep the 1900 leap year bug', () => {
+      expect(formatValue(59, 'm/d/yyyy').text).toBe('2/28/1900');
+      expect(formatValue(60, 'm/d/yyyy').text).toBe('2/29/1900');
+      expect(formatValue(61, 'm/d/yyyy').text).toBe('3/1/1900');
+    });
+    
+    it('should tell minutes from months', () => {
+      expect(formatValue(44927.75, 'yyyy-mm-dd hh:mm:ss').text).toBe('2023-01-01 18:00:00');
+      expect(formatValue(65 / 86400, 'm "min" s "sec"').text).toBe('1 min 5 sec');
+    });
+    
+    it('should format AM/PM and A/P', () => {
+      expect(formatValue(0.75, 'h:mm AM/PM').text).toBe('6:00 PM');
+      expect(formatValue(0.25, 'hh:mm a/p').text).toBe('06:00 a');
+    });
+    
+    it('should round to the shown precision', () => {
+      expect(formatValue(0.123456, 'mm:ss.00').text).toBe('57:46.60');
+      expect(formatValue(0.999999, 'h:mm:ss').text).toBe('0:00:00');
+    });
+    
+    it('should format elapsed minutes and seconds', () => {
+      expect(formatValue(1.25, '[mm]:ss').text).toBe('1800:00');
+      expect(formatValue(0.01, '[ss]').text).toBe('864');
+    });
+  });
+  
+  describe('Fractions', () => {
+    it('should find the closest fraction for the placeholder width', () => {
+      expect(formatValue(0.3333, '?/?').text).toBe('1/3');
+      expect(formatValue(3.14159, '# ???/???').text).toBe('3  16/113');
+    });
+    
+    it('should use a fixed denominator', () => {
+      expect(formatValue(1.3, '# ?/8').text).toBe('1 2/8');
+    });
+    
+    it('should blank the fraction of whole numbers', () => {
+      expect(formatValue(5, '# ?/?').text).toBe('5    ');
+    });
+  });
+  
+  describe('Literals and Layout', () => {
+    const accounting = '_($* #,##0.00_);_($* (#,##0.00);_($* "-"??_);_(@_)';
+    
+    it('should format the accounting format', () => {
+      expect(formatValue(12345.678, accounting).text).toBe(' $12,345.68 ');
+      expect(formatValue(-12345.678, accounting).text).toBe(' $(12,345.68)');
+      expect(formatValue(0, accounting).text).toBe(' $-   ');
+      expect(formatValue('x', accounting).text).toBe(' x ');
+    });
+    
+    it('should read currency and escaped literals', () => {
+      expect(formatValue(1234.5, '[$€-407]#,##0.00').text).toBe('€1,234.50');
+      expect(formatValue(5551234567, '(###) ###-####').text).toBe('(555) 123-4567');
+      expect(formatValue(12, '0\k').text).toBe('12k');
+    });
+    
+    it('should trim optional decimals', () => {
+      expect(formatValue(123.4, '0.##').text).toBe('123.4');
+      expect(formatValue(0.5, '#.00').text).toBe('.50');
+    });
+    
+    it('should round half away from zero', () => {
+      expect(formatValue(1.005, '0.00').text).toBe('1.01');
+      expect(formatValue(2.675, '0.00').text).toBe('2.68');
+    });
+    
+    it('should format General', () => {
+      expect(formatValue(0.1 + 0.2, 'General').text).toBe('0.3');
+      expect(formatValue(1e12, 'General').text).toBe('1E+12');
+      expect(formatValue(123, '"Total: "General').text).toBe('Total: 123');
+    });
+    
+    it('should show text as-is without a text section', () => {
+      expect(formatValue('abc', '0.00').text).toBe('abc');
+      expect(formatValue(-5, '0;;').text).toBe('');
+    });
+    
+    it('should resolve indexed colors', () => {
+      expect(formatValue(1, '[Color10]0').color).toBe('#008000');
+      expect(formatValue(1, '[red]0').color).toBe('#FF0000');
+    });
+  });
 });
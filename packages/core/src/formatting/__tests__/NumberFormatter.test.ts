@@ -7,7 +7,7 @@
  * 3. Governance guard (spec count = 16)
  * 4. Edge cases (NaN, Infinity, null, undefined, wrong types)
  * 5. Excel serial date conversion (including 1900 leap year bug)
- * 6. Strict mode behavior (throw vs warn)
+ * 6. Unregistered formats go through the format grammar
  * 
  * @packageDocumentation
  */
@@ -17,7 +17,6 @@ import {
   getFormatSpecCount,
   hasFormatSpec,
   getRegisteredFormats,
-  STRICT_MODE,
   FORMAT_SPECS,
 } from '../NumberFormatter';
 
@@ -270,15 +269,15 @@ describe('NumberFormatter', () => {
   });
   
   // =========================================================================
-  // 4️⃣ STRICT MODE & GOVERNANCE (Correction #4)
+  // 4️⃣ UNREGISTERED FORMATS
   // =========================================================================
   
-  describe('Governance: Strict Mode', () => {
-    it('should throw on unknown format in strict mode', () => {
-      // In dev, fail fast (STRICT_MODE = true by default)
-      expect(() => {
-        formatValue(123, '[Red]#,##0'); // Unknown format with color tag
-      }).toThrow('Unknown number format');
+  describe('Unregistered Formats', () => {
+    it('should format codes outside FORMAT_SPECS instead of throwing', () => {
+      expect(hasFormatSpec('[Red]#,##0')).toBe(false);
+      expect(formatValue(123, '[Red]#,##0')).toBe('123');
+      expect(formatValue(44927, 'dddd, mmmm d, yyyy')).toBe('Sunday, January 1, 2023');
+      expect(formatValue(1.75, '# ?/?')).toBe('1 3/4');
     });
     
     it('should not throw on known format', () => {
@@ -0,0 +1,503 @@
+/**
+ * aggregation-functions.ts
+ *
+ * Excel 365 dynamic aggregation functions: GROUPBY, PIVOTBY and PERCENTOF.
+ *
+ * GROUPBY and PIVOTBY take their aggregation as a function argument — a
+ * LAMBDA or a bare function name such as SUM.  FormulaEngine resolves that
+ * argument to an `Aggregator` before calling the handlers, so grouping,
+ * totals, sorting and layout here are plain functions of their inputs.
+ *
+ * Both return rectangular 2D arrays (blank cells are null), which is the
+ * shape SpillEngine.applySpill() places into the grid.
+ */
+
+import type { FormulaFunction, FormulaValue } from '../../types/formula-types';
+import { toNumber, toBoolean, compareValues } from '../../utils/type-utils';
+import { flattenArray } from '../../utils/array-utils';
+
+/**
+ * Aggregates one group's values.  `all` is what PERCENTOF-style aggregators
+ * divide by: the whole values column for GROUPBY, or the `relative_to` scope
+ * for PIVOTBY.
+ */
+export type Aggregator = (values: FormulaValue[], all: FormulaValue[]) => FormulaValue;
+
+/** Label Excel uses for grand-total rows and columns. */
+const TOTAL_LABEL = 'Total';
+
+/** One source row, split into its field keys and value cells. */
+type SourceRecord = {
+  row: FormulaValue[];
+  col: FormulaValue[];
+  values: FormulaValue[];
+};
+
+/** A node of the field hierarchy on one axis. */
+type GroupNode = {
+  path: FormulaValue[];
+  children: GroupNode[];
+  records: SourceRecord[];
+};
+
+/** One row (or column) of output along an axis. */
+type AxisSlot = {
+  kind: 'item' | 'subtotal' | 'total';
+  path: FormulaValue[];
+  records: SourceRecord[];
+};
+
+/** How an axis is grouped, totalled and sorted. */
+type AxisLayout = {
+  levels: number;
+  keyOf: (record: SourceRecord) => FormulaValue[];
+  /** 0 none, 1 grand total, 2+ adds subtotals; negative puts totals first. */
+  totalDepth: number;
+  /** Signed 1-based sort columns; fields first, then values. */
+  sortOrder: number[];
+  /** Aggregate of `records` for value column `index`, used to sort by value. */
+  sortValue: (records: SourceRecord[], index: number) => FormulaValue;
+  hierarchy: boolean;
+};
+
+// ============================================================================
+// Argument helpers
+// ============================================================================
+
+/** Table-shaped view of an argument: 1D arrays are read as a column. */
+function toRows(value: FormulaValue): FormulaValue[][] {
+  if (!Array.isArray(value)) return [[value]];
+  if (value.length > 0 && Array.isArray(value[0])) return value as FormulaValue[][];
+  return (value as FormulaValue[]).map(v => [v]);
+}
+
+/** Optional integer argument; Error when present but not numeric. */
+function optionalInt(value: FormulaValue | undefined, fallback: number): number | Error {
+  if (value === undefined || value === null) return fallback;
+  const n = toNumber(value);
+  return n instanceof Error ? n : Math.trunc(n);
+}
+
+/** Optional sort-order argument: one signed index or an array of them. */
+function sortOrderArg(value: FormulaValue | undefined): number[] | Error {
+  if (value === undefined || value === null) return [];
+  const order: number[] = [];
+  for (const item of Array.isArray(value) ? flattenArray(value as FormulaValue[]) : [value]) {
+    const n = toNumber(item);
+    if (n instanceof Error || Math.trunc(n) === 0) return new Error('#VALUE!');
+    order.push(Math.trunc(n));
+  }
+  return order;
+}
+
+/**
+ * field_headers: 0 no headers, 1 headers not shown, 2 generate and show,
+ * 3 headers shown.  When omitted, the first row is taken as headers if it is
+ * all text and the row below it holds a number.
+ */
+function headerMode(value: FormulaValue | undefined, values: FormulaValue[][]): number | Error {
+  if (value === undefined || value === null) {
+    const [first, second] = values;
+    const looksLikeHeaders = !!first && !!second
+      && first.every(v => typeof v === 'string')
+      && second.some(v => typeof v === 'number');
+    return looksLikeHeaders ? 1 : 0;
+  }
+  const mode = optionalInt(value, 0);
+  if (mode instanceof Error || mode < 0 || mode > 3) return new Error('#VALUE!');
+  return mode;
+}
+
+/** Header labels: taken from the first row, or generated as `<prefix> n`. */
+function headerNames(first: FormulaValue[] | undefined, width: number, fromData: boolean, prefix: string): FormulaValue[] {
+  return Array.from({ length: width }, (_, i) => (fromData && first ? first[i] : `${prefix} ${i + 1}`) ?? null);
+}
+
+/** Rows kept by `filter_array` (TRUE keeps); Error when its length is wrong. */
+function filterMask(filter: FormulaValue | undefined, dataRows: number, hasHeaderRow: boolean): boolean[] | Error | null {
+  if (filter === undefined || filter === null) return null;
+  let flags = toRows(filter).map(r => r[0]);
+  if (hasHeaderRow && flags.length === dataRows + 1) flags = flags.slice(1);
+  if (flags.length !== dataRows) return new Error('#VALUE!');
+  const mask: boolean[] = [];
+  for (const flag of flags) {
+    if (flag instanceof Error) return flag;
+    const b = toBoolean(flag);
+    mask.push(b instanceof Error ? false : b);
+  }
+  return mask;
+}
+
+function isBlank(v: FormulaValue): boolean {
+  return v === null || v === undefined || v === '';
+}
+
+function blanks(count: number): FormulaValue[] {
+  return new Array<FormulaValue>(Math.max(0, count)).fill(null);
+}
+
+function startsWith(key: FormulaValue[], prefix: FormulaValue[]): boolean {
+  return prefix.every((v, i) => JSON.stringify(key[i]) === JSON.stringify(v));
+}
+
+function compareSafe(a: FormulaValue, b: FormulaValue): number {
+  const c = compareValues(a, b);
+  return c instanceof Error ? 0 : c;
+}
+
+// ============================================================================
+// Axis layout
+// ============================================================================
+
+/** Group records into a hierarchy, keeping first-seen order within a level. */
+function buildTree(records: SourceRecord[], layout: AxisLayout): GroupNode {
+  const root: GroupNode = { path: [], children: [], records };
+  const index = new Map<string, GroupNode>();
+  for (const record of records) {
+    const key = layout.keyOf(record);
+    let node = root;
+    for (let level = 0; level < layout.levels; level++) {
+      const path = key.slice(0, level + 1);
+      const id = JSON.stringify(path);
+      let child = index.get(id);
+      if (!child) {
+        child = { path, children: [], records: [] };
+        index.set(id, child);
+        node.children.push(child);
+      }
+      child.records.push(record);
+      node = child;
+    }
+  }
+  return root;
+}
+
+/** Order siblings at depth `level` (0-based) by the axis's sort order. */
+function sortChildren(children: GroupNode[], level: number, layout: AxisLayout): GroupNode[] {
+  const keys = layout.sortOrder.length > 0 ? layout.sortOrder : [level + 1];
+  return [...children].sort((a, b) => {
+    for (const signed of keys) {
+      const index = Math.abs(signed) - 1;
+      let c = 0;
+      if (index === level) {
+        c = compareSafe(a.path[level], b.path[level]);
+      } else if (index >= layout.levels) {
+        c = compareSafe(
+          layout.sortValue(a.records, index - layout.levels),
+          layout.sortValue(b.records, index - layout.levels),
+        );
+      }
+      if (c !== 0) return signed < 0 ? -c : c;
+    }
+    return compareSafe(a.path[level], b.path[level]);
+  });
+}
+
+/** Flatten the hierarchy into output slots, with subtotals and grand total. */
+function layoutAxis(records: SourceRecord[], layout: AxisLayout): AxisSlot[] {
+  const depth = Math.abs(layout.totalDepth);
+  const totalsFirst = layout.totalDepth < 0;
+  const slots: AxisSlot[] = [];
+
+  const visit = (node: GroupNode, level: number): void => {
+    for (const child of sortChildren(node.children, level, layout)) {
+      if (level + 1 === layout.levels) {
+        slots.push({ kind: 'item', path: child.path, records: child.records });
+        continue;
+      }
+      const subtotal: AxisSlot | null = layout.hierarchy && depth >= level + 2
+        ? { kind: 'subtotal', path: child.path, records: child.records }
+        : null;
+      if (subtotal && totalsFirst) slots.push(subtotal);
+      visit(child, level + 1);
+      if (subtotal && !totalsFirst) slots.push(subtotal);
+    }
+  };
+
+  const root = buildTree(records, layout);
+  if (layout.levels === 0) {
+    slots.push({ kind: 'item', path: [], records });
+    return slots;
+  }
+  visit(root, 0);
+  if (depth >= 1) {
+    const total: AxisSlot = { kind: 'total', path: [], records };
+    if (totalsFirst) slots.unshift(total); else slots.push(total);
+  }
+  return slots;
+}
+
+/** Label cells for a slot: its keys, padded; grand totals say "Total". */
+function slotLabels(slot: AxisSlot, levels: number): FormulaValue[] {
+  if (slot.kind === 'total') return levels > 0 ? [TOTAL_LABEL, ...blanks(levels - 1)] : [];
+  return [...slot.path, ...blanks(levels - slot.path.length)];
+}
+
+// ============================================================================
+// GROUPBY
+// ============================================================================
+
+/**
+ * GROUPBY - Group rows by one or more fields and aggregate values
+ *
+ * Syntax: GROUPBY(row_fields, values, function, [field_headers], [total_depth],
+ *                 [sort_order], [filter_array], [field_relationship])
+ *
+ * - total_depth: 0 none, 1 grand total (default), 2 adds subtotals per
+ *   first-level group; negative values put totals above their groups.
+ * - sort_order: signed 1-based column index (or array of them); row fields
+ *   come first, then value columns.  Defaults to ascending by row fields.
+ * - field_relationship: 0 hierarchy (default), 1 table (no subtotals).
+ *
+ * Examples:
+ * - GROUPBY(A2:A9, C2:C9, SUM) → one row per region plus a Total row
+ * - GROUPBY(A1:B9, C1:C9, SUM, 3, 2) → headers, subtotals and grand total
+ * - GROUPBY(A2:A9, C2:C9, PERCENTOF, , , -2) → shares, largest first
+ */
+export const GROUPBY: FormulaFunction = (...args) => {
+  const [rowFields, values, fn, fieldHeaders, totalDepthArg, sortOrderArgValue, filterArray, relationshipArg] = args;
+  if (rowFields === undefined || values === undefined || typeof fn !== 'function') {
+    return new Error('#VALUE!');
+  }
+  if (rowFields instanceof Error) return rowFields;
+  if (values instanceof Error) return values;
+  const aggregate = fn as unknown as Aggregator;
+
+  const rowTable = toRows(rowFields);
+  const valueTable = toRows(values);
+  if (rowTable.length !== valueTable.length) return new Error('#VALUE!');
+
+  const mode = headerMode(fieldHeaders, valueTable);
+  const totalDepth = optionalInt(totalDepthArg, 1);
+  const sortOrder = sortOrderArg(sortOrderArgValue);
+  const relationship = optionalInt(relationshipArg, 0);
+  if (mode instanceof Error) return mode;
+  if (totalDepth instanceof Error) return totalDepth;
+  if (sortOrder instanceof Error) return sortOrder;
+  if (relationship instanceof Error || (relationship !== 0 && relationship !== 1)) return new Error('#VALUE!');
+
+  const hasHeaderRow = mode === 1 || mode === 3;
+  const showHeaders = mode === 2 || mode === 3;
+  const levels = rowTable[0]?.length ?? 0;
+  const valueCount = valueTable[0]?.length ?? 0;
+  const start = hasHeaderRow ? 1 : 0;
+
+  const mask = filterMask(filterArray, rowTable.length - start, hasHeaderRow);
+  if (mask instanceof Error) return mask;
+
+  const records: SourceRecord[] = [];
+  for (let i = start; i < rowTable.length; i++) {
+    if (mask && !mask[i - start]) continue;
+    const row = rowTable[i];
+    const vals = valueTable[i];
+    if (row.every(isBlank) && vals.every(isBlank)) continue;
+    records.push({ row, col: [], values: vals });
+  }
+  if (records.length === 0) return new Error('#CALC!');
+
+  const columnOf = (recs: SourceRecord[], v: number) => recs.map(r => r.values[v]);
+  const allValues = Array.from({ length: valueCount }, (_, v) => columnOf(records, v));
+  const aggregateSlot = (recs: SourceRecord[], v: number) => aggregate(columnOf(recs, v), allValues[v]);
+
+  const slots = layoutAxis(records, {
+    levels,
+    keyOf: r => r.row,
+    totalDepth,
+    sortOrder,
+    sortValue: aggregateSlot,
+    hierarchy: relationship === 0,
+  });
+
+  const output: FormulaValue[][] = [];
+  if (showHeaders) {
+    output.push([
+      ...headerNames(rowTable[0], levels, hasHeaderRow, 'Row Field'),
+      ...headerNames(valueTable[0], valueCount, hasHeaderRow, 'Value'),
+    ]);
+  }
+  for (const slot of slots) {
+    const cells = Array.from({ length: valueCount }, (_, v) => aggregateSlot(slot.records, v));
+    output.push([...slotLabels(slot, levels), ...cells]);
+  }
+  return output;
+};
+
+// ============================================================================
+// PIVOTBY
+// ============================================================================
+
+/**
+ * PIVOTBY - Cross-tabulate values by row fields and column fields
+ *
+ * Syntax: PIVOTBY(row_fields, col_fields, values, function, [field_headers],
+ *                 [row_total_depth], [row_sort_order], [col_total_depth],
+ *                 [col_sort_order], [filter_array], [relative_to])
+ *
+ * Totals and sort orders work per axis as in GROUPBY.  relative_to picks
+ * what a two-argument function such as PERCENTOF divides by:
+ * 0 column total (default), 1 row total, 2 grand total,
+ * 3 parent column total, 4 parent row total.
+ * Row/column intersections without data are blank.
+ *
+ * Examples:
+ * - PIVOTBY(A2:A9, B2:B9, C2:C9, SUM) → regions down, quarters across
+ * - PIVOTBY(A2:A9, B2:B9, C2:C9, PERCENTOF, , , , , , , 2) → share of grand total
+ */
+export const PIVOTBY: FormulaFunction = (...args) => {
+  const [
+    rowFields, colFields, values, fn, fieldHeaders,
+    rowTotalArg, rowSortArg, colTotalArg, colSortArg, filterArray, relativeToArg,
+  ] = args;
+  if (rowFields === undefined || colFields === undefined || values === undefined || typeof fn !== 'function') {
+    return new Error('#VALUE!');
+  }
+  for (const arg of [rowFields, colFields, values]) {
+    if (arg instanceof Error) return arg;
+  }
+  const aggregate = fn as unknown as Aggregator;
+
+  const rowTable = toRows(rowFields);
+  const colTable = toRows(colFields);
+  const valueTable = toRows(values);
+  if (rowTable.length !== valueTable.length || colTable.length !== valueTable.length) {
+    return new Error('#VALUE!');
+  }
+
+  const mode = headerMode(fieldHeaders, valueTable);
+  const rowTotalDepth = optionalInt(rowTotalArg, 1);
+  const colTotalDepth = optionalInt(colTotalArg, 1);
+  const rowSort = sortOrderArg(rowSortArg);
+  const colSort = sortOrderArg(colSortArg);
+  const relativeTo = optionalInt(relativeToArg, 0);
+  for (const parsed of [mode, rowTotalDepth, colTotalDepth, rowSort, colSort, relativeTo]) {
+    if (parsed instanceof Error) return parsed;
+  }
+  if ((relativeTo as number) < 0 || (relativeTo as number) > 4) return new Error('#VALUE!');
+
+  const hasHeaderRow = mode === 1 || mode === 3;
+  const showHeaders = mode === 2 || mode === 3;
+  const rowLevels = rowTable[0]?.length ?? 0;
+  const colLevels = colTable[0]?.length ?? 0;
+  const valueCount = valueTable[0]?.length ?? 0;
+  const start = hasHeaderRow ? 1 : 0;
+
+  const mask = filterMask(filterArray, valueTable.length - start, hasHeaderRow);
+  if (mask instanceof Error) return mask;
+
+  const records: SourceRecord[] = [];
+  for (let i = start; i < valueTable.length; i++) {
+    if (mask && !mask[i - start]) continue;
+    const record = { row: rowTable[i], col: colTable[i], values: valueTable[i] };
+    if (record.row.every(isBlank) && record.col.every(isBlank) && record.values.every(isBlank)) continue;
+    records.push(record);
+  }
+  if (records.length === 0) return new Error('#CALC!');
+
+  const columnOf = (recs: SourceRecord[], v: number) => recs.map(r => r.values[v]);
+  const allValues = Array.from({ length: valueCount }, (_, v) => columnOf(records, v));
+  const sortValue = (recs: SourceRecord[], v: number) => aggregate(columnOf(recs, v), allValues[v]);
+
+  const rowSlots = layoutAxis(records, {
+    levels: rowLevels, keyOf: r => r.row, totalDepth: rowTotalDepth as number,
+    sortOrder: rowSort as number[], sortValue, hierarchy: true,
+  });
+  const colSlots = layoutAxis(records, {
+    levels: colLevels, keyOf: r => r.col, totalDepth: colTotalDepth as number,
+    sortOrder: colSort as number[], sortValue, hierarchy: true,
+  });
+
+  /** Records in `slot`'s parent group along an axis (everything for top level). */
+  const parentRecords = (slot: AxisSlot, keyOf: (r: SourceRecord) => FormulaValue[]) => {
+    if (slot.kind === 'total' || slot.path.length <= 1) return records;
+    const parent = slot.path.slice(0, -1);
+    return records.filter(r => startsWith(keyOf(r), parent));
+  };
+
+  const cell = (rowSlot: AxisSlot, colSlot: AxisSlot, v: number): FormulaValue => {
+    const inColumn = new Set(colSlot.records);
+    const matched = rowSlot.records.filter(r => inColumn.has(r));
+    if (matched.length === 0) return null;
+    let scope: SourceRecord[];
+    switch (relativeTo) {
+      case 1: scope = rowSlot.records; break;
+      case 2: scope = records; break;
+      case 3: {
+        const inParent = new Set(parentRecords(colSlot, r => r.col));
+        scope = rowSlot.records.filter(r => inParent.has(r));
+        break;
+      }
+      case 4: {
+        const inParent = new Set(parentRecords(rowSlot, r => r.row));
+        scope = colSlot.records.filter(r => inParent.has(r));
+        break;
+      }
+      default: scope = colSlot.records;
+    }
+    return aggregate(columnOf(matched, v), columnOf(scope, v));
+  };
+
+  const rowNames = headerNames(rowTable[0], rowLevels, hasHeaderRow, 'Row Field');
+  const colNames = headerNames(colTable[0], colLevels, hasHeaderRow, 'Col Field');
+  const valueNames = headerNames(valueTable[0], valueCount, hasHeaderRow, 'Value');
+
+  const output: FormulaValue[][] = [];
+  for (let level = 0; level < colLevels; level++) {
+    const corner = blanks(rowLevels);
+    if (showHeaders && rowLevels > 0) corner[rowLevels - 1] = colNames[level];
+    const header: FormulaValue[] = [...corner];
+    for (const slot of colSlots) {
+      const label = slotLabels(slot, colLevels)[level];
+      for (let v = 0; v < valueCount; v++) header.push(v === 0 ? label : null);
+    }
+    output.push(header);
+  }
+  if (showHeaders || valueCount > 1) {
+    const header: FormulaValue[] = showHeaders ? [...rowNames] : blanks(rowLevels);
+    for (let c = 0; c < colSlots.length; c++) header.push(...valueNames);
+    output.push(header);
+  }
+  for (const rowSlot of rowSlots) {
+    const line: FormulaValue[] = slotLabels(rowSlot, rowLevels);
+    for (const colSlot of colSlots) {
+      for (let v = 0; v < valueCount; v++) line.push(cell(rowSlot, colSlot, v));
+    }
+    output.push(line);
+  }
+  return output;
+};
+
+// ============================================================================
+// PERCENTOF
+// ============================================================================
+
+/**
+ * PERCENTOF - Sum of a subset as a fraction of the sum of all data
+ *
+ * Syntax: PERCENTOF(data_subset, data_all)
+ *
+ * Non-numeric cells are ignored, as in SUM.  Used on its own or as the
+ * GROUPBY/PIVOTBY function, where data_all is supplied by the grouping.
+ *
+ * Examples:
+ * - PERCENTOF(B2:B4, B2:B9) → share of the first three rows
+ * - GROUPBY(A2:A9, B2:B9, PERCENTOF) → each group's share of the total
+ */
+export const PERCENTOF: FormulaFunction = (subset, all) => {
+  if (subset === undefined || all === undefined) return new Error('#VALUE!');
+
+  const sum = (value: FormulaValue): number | Error => {
+    let total = 0;
+    for (const item of Array.isArray(value) ? flattenArray(value as FormulaValue[]) : [value]) {
+      if (item instanceof Error) return item;
+      if (typeof item === 'number') total += item;
+    }
+    return total;
+  };
+
+  const part = sum(subset);
+  if (part instanceof Error) return part;
+  const whole = sum(all);
+  if (whole instanceof Error) return whole;
+  if (whole === 0) return new Error('#DIV/0!');
+  return part / whole;
+};
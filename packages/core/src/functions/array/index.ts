@@ -4,3 +4,4 @@
  */
 
 export * from './array-functions';
+export * from './aggregation-functions';
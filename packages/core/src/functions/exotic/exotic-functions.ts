@@ -8,6 +8,7 @@
  */
 
 import type { ContextAwareFormulaFunction, FormulaFunction, FormulaContext } from '../../types/formula-types';
+import { GetPivotData } from '../../GetPivotData';
 
 /**
  * FORMULATEXT - Returns the formula at the given reference as text
@@ -213,8 +214,6 @@ export const GETPIVOTDATA: ContextAwareFormulaFunction = (context: FormulaContex
   const snapshotStore = workbook.getPivotSnapshotStore();
   const recomputeEngine = workbook.getPivotRecomputeEngine();
 
-  // Import GetPivotData class dynamically (to avoid circular dependency)
-  const { GetPivotData } = require('../../GetPivotData');
   const queryEngine = new GetPivotData(registry, snapshotStore, recomputeEngine);
 
   // Execute query (Phase 31a: ensureFresh happens here)
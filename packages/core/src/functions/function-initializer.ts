@@ -126,6 +126,9 @@ export function registerBuiltInFunctions(registry: FunctionRegistry): void {
     ['FIXED', TextFunctions.FIXED, { category: FunctionCategory.TEXT, minArgs: 1, maxArgs: 3 }],
     ['TEXTBEFORE', TextFunctions.TEXTBEFORE, { category: FunctionCategory.TEXT, minArgs: 2, maxArgs: 6 }],
     ['TEXTAFTER', TextFunctions.TEXTAFTER, { category: FunctionCategory.TEXT, minArgs: 2, maxArgs: 6 }],
+    ['REGEXTEST', TextFunctions.REGEXTEST, { category: FunctionCategory.TEXT, minArgs: 2, maxArgs: 3 }],
+    ['REGEXEXTRACT', TextFunctions.REGEXEXTRACT, { category: FunctionCategory.TEXT, minArgs: 2, maxArgs: 4 }],
+    ['REGEXREPLACE', TextFunctions.REGEXREPLACE, { category: FunctionCategory.TEXT, minArgs: 3, maxArgs: 5 }],
   ] as const;
 
   // Logical functions
@@ -160,6 +163,9 @@ export function registerBuiltInFunctions(registry: FunctionRegistry): void {
     ['RANDARRAY', ArrayFunctions.RANDARRAY, { category: FunctionCategory.ARRAY, minArgs: 0, maxArgs: 5 }],
     ['VSTACK', ArrayFunctions.VSTACK, { category: FunctionCategory.ARRAY, minArgs: 1 }],
     ['HSTACK', ArrayFunctions.HSTACK, { category: FunctionCategory.ARRAY, minArgs: 1 }],
+    ['GROUPBY', ArrayFunctions.GROUPBY, { category: FunctionCategory.ARRAY, minArgs: 3, maxArgs: 8 }],
+    ['PIVOTBY', ArrayFunctions.PIVOTBY, { category: FunctionCategory.ARRAY, minArgs: 4, maxArgs: 11 }],
+    ['PERCENTOF', ArrayFunctions.PERCENTOF, { category: FunctionCategory.ARRAY, minArgs: 2, maxArgs: 2 }],
     ['WRAPCOLS', ArrayFunctions.WRAPCOLS, { category: FunctionCategory.ARRAY, minArgs: 2, maxArgs: 3 }],
     ['WRAPROWS', ArrayFunctions.WRAPROWS, { category: FunctionCategory.ARRAY, minArgs: 2, maxArgs: 3 }],
     ['TAKE', ArrayFunctions.TAKE, { category: FunctionCategory.ARRAY, minArgs: 2, maxArgs: 3 }],
@@ -209,6 +215,7 @@ export function registerBuiltInFunctions(registry: FunctionRegistry): void {
     ['CHOOSE', LookupFunctions.CHOOSE, { category: FunctionCategory.LOOKUP, minArgs: 2 }],
     ['OFFSET', LookupFunctions.OFFSET, { category: FunctionCategory.LOOKUP, minArgs: 3, maxArgs: 5 }],
     ['INDIRECT', LookupFunctions.INDIRECT, { category: FunctionCategory.LOOKUP, minArgs: 1, maxArgs: 2 }],
+    ['HYPERLINK', LookupFunctions.HYPERLINK, { category: FunctionCategory.LOOKUP, minArgs: 1, maxArgs: 2 }],
     ['ROW', LookupFunctions.ROW, { category: FunctionCategory.LOOKUP, minArgs: 0, maxArgs: 1 }],
     ['COLUMN', LookupFunctions.COLUMN, { category: FunctionCategory.LOOKUP, minArgs: 0, maxArgs: 1 }],
   ] as const;
@@ -1005,6 +1005,21 @@ export const CHOOSE: FormulaFunction = (indexNum, ...values) => {
   return values[flooredIndex - 1];
 };
 
+/**
+ * HYPERLINK - Returns the text shown for a link
+ *
+ * The cell displays friendly_name, or link_location when it is omitted (an
+ * empty friendly_name cell shows 0, as in Excel). The link a click follows
+ * is read from the formula by Worksheet.getHyperlink().
+ */
+export const HYPERLINK: FormulaFunction = (linkLocation, ...rest) => {
+  if (linkLocation instanceof Error) return linkLocation;
+  if (rest.length === 0) return linkLocation;
+
+  const friendlyName = rest[0];
+  return friendlyName === null || friendlyName === undefined ? 0 : friendlyName;
+};
+
 /**
  * ROW - Returns row number of reference
  */
@@ -1,15 +1,15 @@
 /**
  * array-metadata.ts
  * 
- * WAVE 0 DAY 2: Strict Metadata for Array Functions (20 functions)
+ * WAVE 0 DAY 2: Strict Metadata for Array Functions (23 functions)
  * Created: 2024
  * 
  * CATEGORY SUMMARY:
- * - Total functions: 20
+ * - Total functions: 23
  * - Volatile: 1 (RANDARRAY)
  * - Iterative: 0
  * - Special: 0
- * - Complexity: O(1): 4, O(n): 10, O(n log n): 2
+ * - Complexity: O(1): 4, O(n): 15, O(n log n): 4
  * - ErrorStrategy: ALL PROPAGATE_FIRST (standard)
  * 
  * KEY INSIGHTS:
@@ -533,7 +533,74 @@ export const COLUMNS: StrictFunctionMetadata = {
 };
 
 // ============================================================================
-// MASTER EXPORT: Array Category (20 functions)
+// DYNAMIC AGGREGATION (O(n log n))
+// ============================================================================
+
+/**
+ * GROUPBY - Group Rows and Aggregate Values
+ * 
+ * Complexity: O(n log n) where n = number of source rows
+ * - One pass to group, then a sort of each level's groups
+ * - The function argument is resolved by FormulaEngine (LAMBDA or name)
+ */
+export const GROUPBY: StrictFunctionMetadata = {
+  name: 'GROUPBY',
+  handler: ArrayFunctions.GROUPBY,
+  category: FunctionCategory.ARRAY,
+  minArgs: 3,
+  maxArgs: 8,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N_LOG_N, // Grouping + per-level sort
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
+/**
+ * PIVOTBY - Cross-Tabulate by Row and Column Fields
+ * 
+ * Complexity: O(n log n) for grouping both axes
+ * - Each output cell aggregates the intersection of a row and column group
+ */
+export const PIVOTBY: StrictFunctionMetadata = {
+  name: 'PIVOTBY',
+  handler: ArrayFunctions.PIVOTBY,
+  category: FunctionCategory.ARRAY,
+  minArgs: 4,
+  maxArgs: 11,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N_LOG_N, // Grouping + per-level sort on two axes
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
+/**
+ * PERCENTOF - Subset Sum as a Fraction of the Total
+ * 
+ * Complexity: O(n) - two sums
+ */
+export const PERCENTOF: StrictFunctionMetadata = {
+  name: 'PERCENTOF',
+  handler: ArrayFunctions.PERCENTOF,
+  category: FunctionCategory.ARRAY,
+  minArgs: 2,
+  maxArgs: 2,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N, // Linear sums
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
+// ============================================================================
+// MASTER EXPORT: Array Category (23 functions)
 // ============================================================================
 
 export const ARRAY_METADATA: StrictFunctionMetadata[] = [
@@ -554,6 +621,11 @@ export const ARRAY_METADATA: StrictFunctionMetadata[] = [
   VSTACK,
   HSTACK,
   
+  // Dynamic aggregation
+  GROUPBY,
+  PIVOTBY,
+  PERCENTOF,
+  
   // Reshaping (O(n))
   WRAPCOLS,
   WRAPROWS,
@@ -576,11 +648,11 @@ export const ARRAY_METADATA: StrictFunctionMetadata[] = [
 
 /**
  * CATEGORY STATISTICS:
- * - Total functions: 20
+ * - Total functions: 23
  * - Complexity breakdown:
  *   * O(1): 4 (SEQUENCE, RANDARRAY, ROWS, COLUMNS)
- *   * O(n): 14 (TRANSPOSE, UNIQUE, FILTER, VSTACK, HSTACK, WRAPCOLS, WRAPROWS, TAKE, DROP, CHOOSEROWS, CHOOSECOLS, TOCOL, TOROW, FLATTEN)
- *   * O(n log n): 2 (SORT, SORTBY)
+ *   * O(n): 15 (TRANSPOSE, UNIQUE, FILTER, VSTACK, HSTACK, WRAPCOLS, WRAPROWS, TAKE, DROP, CHOOSEROWS, CHOOSECOLS, TOCOL, TOROW, FLATTEN, PERCENTOF)
+ *   * O(n log n): 4 (SORT, SORTBY, GROUPBY, PIVOTBY)
  * - Precision: ALL EXACT (array structure operations)
  * - ErrorStrategy: ALL PROPAGATE_FIRST (standard)
  * - Volatile: 1 (RANDARRAY)
@@ -1,16 +1,16 @@
 /**
  * lookup-metadata.ts
  * 
- * WAVE 0 DAY 2: Strict Metadata for Lookup & Reference Functions (12 functions)
+ * WAVE 0 DAY 2: Strict Metadata for Lookup & Reference Functions (13 functions)
  * Created: 2024
  * 
  * CATEGORY SUMMARY:
- * - Total functions: 12
+ * - Total functions: 13
  * - Volatile: 0
  * - Iterative: 0
  * - Special (needsContext): 2 (ROW, COLUMN)
- * - Complexity: O(1): 5, O(n): 5, O(log n): 2
- * - ErrorStrategy: LOOKUP_STRICT (7), PROPAGATE_FIRST (5)
+ * - Complexity: O(1): 6, O(n): 5, O(log n): 2
+ * - ErrorStrategy: LOOKUP_STRICT (7), PROPAGATE_FIRST (6)
  * 
  * KEY INSIGHTS:
  * 1. VLOOKUP/HLOOKUP/LOOKUP: O(n) linear search (unsorted), O(log n) binary search (sorted)
@@ -303,6 +303,29 @@ export const INDIRECT: StrictFunctionMetadata = {
   iterationPolicy: null,
 };
 
+/**
+ * HYPERLINK - Link Display Text
+ * Returns friendly_name (or link_location); the link target itself is read
+ * from the formula when the cell is clicked
+ * 
+ * Complexity: O(1) (argument selection)
+ * ErrorStrategy: PROPAGATE_FIRST
+ */
+export const HYPERLINK: StrictFunctionMetadata = {
+  name: 'HYPERLINK',
+  handler: LookupFunctions.HYPERLINK,
+  category: FunctionCategory.LOOKUP,
+  minArgs: 1,
+  maxArgs: 2,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_1,
+  precisionClass: EXACT,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
 /**
  * ROW - Returns Row Number
  * Context-aware: ROW() = current row, ROW(ref) = ref's row
@@ -350,7 +373,7 @@ export const COLUMN: StrictFunctionMetadata = {
 };
 
 /**
- * MASTER EXPORT: Lookup Category (12 functions)
+ * MASTER EXPORT: Lookup Category (13 functions)
  */
 export const LOOKUP_METADATA: StrictFunctionMetadata[] = [
   VLOOKUP,
@@ -363,6 +386,7 @@ export const LOOKUP_METADATA: StrictFunctionMetadata[] = [
   CHOOSE,
   OFFSET,
   INDIRECT,
+  HYPERLINK,
   ROW,
   COLUMN,
 ];
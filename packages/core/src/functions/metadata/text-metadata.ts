@@ -613,8 +613,61 @@ export const TEXTSPLIT: StrictFunctionMetadata = {
   iterationPolicy: null,
 };
 
+/**
+ * REGEXTEST / REGEXEXTRACT / REGEXREPLACE - Regular Expressions
+ * 
+ * Complexity: O(n) where n = length of input text
+ * - The pattern is compiled per call and the whole text may be scanned
+ * - REGEXEXTRACT (all matches) and REGEXREPLACE collect every match
+ * - Conservative: O(n), ignoring pathological backtracking patterns
+ */
+export const REGEXTEST: StrictFunctionMetadata = {
+  name: 'REGEXTEST',
+  handler: TextFunctions.REGEXTEST,
+  category: FunctionCategory.TEXT,
+  minArgs: 2,
+  maxArgs: 3,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N, // O(n) regex scan
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
+export const REGEXEXTRACT: StrictFunctionMetadata = {
+  name: 'REGEXEXTRACT',
+  handler: TextFunctions.REGEXEXTRACT,
+  category: FunctionCategory.TEXT,
+  minArgs: 2,
+  maxArgs: 4,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N, // O(n) regex scan, may spill all matches
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
+export const REGEXREPLACE: StrictFunctionMetadata = {
+  name: 'REGEXREPLACE',
+  handler: TextFunctions.REGEXREPLACE,
+  category: FunctionCategory.TEXT,
+  minArgs: 3,
+  maxArgs: 5,
+  isSpecial: false,
+  needsContext: false,
+  volatile: false,
+  complexityClass: O_N, // O(n) regex scan
+  precisionClass: EXACT_PRECISION,
+  errorStrategy: PROPAGATE_FIRST,
+  iterationPolicy: null,
+};
+
 // ============================================================================
-// MASTER EXPORT: Text Category (31 functions)
+// MASTER EXPORT: Text Category (37 functions)
 // ============================================================================
 
 export const TEXT_METADATA: StrictFunctionMetadata[] = [
@@ -665,6 +718,11 @@ export const TEXT_METADATA: StrictFunctionMetadata[] = [
   // Array operations (O(n))
   TEXTJOIN,
   TEXTSPLIT,
+  
+  // Regular expressions (O(n))
+  REGEXTEST,
+  REGEXEXTRACT,
+  REGEXREPLACE,
 ];
 
 /**
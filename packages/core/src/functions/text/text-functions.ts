@@ -7,6 +7,7 @@
 
 import type { FormulaFunction, FormulaValue } from '../../types/formula-types';
 import { toString, toNumber } from '../../utils/type-utils';
+import { getFormatter } from '../../formatting/ExcelFormatGrammar';
 
 /**
  * CONCATENATE - Join strings
@@ -380,7 +381,7 @@ export const SEARCH: FormulaFunction = (findText, withinText, startNum = 1) => {
 
 /**
  * TEXT - Format number as text with format code
- * Supports basic number formatting and date/time formatting
+ * Uses the same compiled format grammar as cell display
  */
 export const TEXT: FormulaFunction = (value, formatText) => {
   const format = toString(formatText);
@@ -395,139 +396,25 @@ export const TEXT: FormulaFunction = (value, formatText) => {
     value = value[0];
   }
 
-  // For numbers, check if it's a date format first
-  if (typeof value === 'number') {
-    // Check if format looks like a date format (has d, m, y but not percentage or hash)
-    if (/[dmy]/i.test(format) && !/[#0%]/.test(format)) {
-      return formatDate(value, format);
-    }
-    // Otherwise apply number formatting
-    return formatNumber(value, format);
-  }
-
   // For booleans
   if (typeof value === 'boolean') {
     return value ? 'TRUE' : 'FALSE';
   }
 
-  // For strings, return as-is
-  return toString(value);
-};
-
-/**
- * Helper: Format number with format code
- */
-function formatNumber(num: number, format: string): string {
-  // Handle special cases
-  if (format === '@') return num.toString();
-  if (format === '') return num.toString();
-
-  // Count decimal places from format
-  const decimalPos = format.indexOf('.');
-  if (decimalPos >= 0) {
-    // Count zeros and hashes after decimal
-    const afterDecimal = format.substring(decimalPos + 1);
-    const decimals = afterDecimal.replace(/[^0#]/g, '').length;
-    
-    if (decimals > 0) {
-      return num.toFixed(decimals);
-    }
-  }
-
-  // Check for thousands separator
-  if (format.includes(',')) {
-    return num.toLocaleString('en-US');
+  // Numeric text is formatted as the number it holds
+  if (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value))) {
+    value = Number(value);
   }
 
-  // Check for percentage
-  if (format.includes('%')) {
-    return (num * 100).toFixed(0) + '%';
-  }
-
-  // Default: return as string
-  return num.toString();
-}
-
-/**
- * Helper: Format date with format code
- */
-function formatDate(serial: number, format: string): string | Error {
-  // Excel date serial: days since 1900-01-01
-  const excelEpoch = new Date(1899, 11, 30); // Excel's epoch (Dec 30, 1899)
-  const date = new Date(excelEpoch.getTime() + serial * 86400000);
-
-  if (isNaN(date.getTime())) return new Error('#VALUE!');
-
-  const day = date.getDate();
-  const month = date.getMonth() + 1;
-  const year = date.getFullYear();
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
-  const seconds = date.getSeconds();
-
-  let result = format;
-
-  // Use numeric-only placeholders to avoid any letter matching
-  // Replace format codes - IMPORTANT: Do longest patterns first!
-  
-  // Days (using codes 1xxx)
-  result = result.replace(/dddd/gi, () => `\uE000${1000 + date.getDay()}\uE000`);
-  result = result.replace(/ddd/gi, () => `\uE000${1100 + date.getDay()}\uE000`);
-  result = result.replace(/dd/gi, () => `\uE0001200\uE000`);
-  result = result.replace(/d/gi, () => `\uE0001201\uE000`);
-
-  // Months (using codes 2xxx)
-  result = result.replace(/mmmm/gi, () => `\uE000${2000 + month}\uE000`);
-  result = result.replace(/mmm/gi, () => `\uE000${2100 + month}\uE000`);
-  result = result.replace(/mm/gi, () => `\uE0002200\uE000`);
-  result = result.replace(/m/gi, () => `\uE0002201\uE000`);
-  
-  // Years (using codes 3xxx)
-  result = result.replace(/yyyy/gi, () => `\uE0003000\uE000`);
-  result = result.replace(/yy/gi, () => `\uE0003001\uE000`);
-
-  // Time (using codes 4xxx and 5xxx)
-  result = result.replace(/hh/gi, () => `\uE0004000\uE000`);
-  result = result.replace(/h/gi, () => `\uE0004001\uE000`);
-  result = result.replace(/ss/gi, () => `\uE0005000\uE000`);
-  result = result.replace(/s/gi, () => `\uE0005001\uE000`);
-
-  // Now replace placeholders with actual values
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const daysShort = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                  'July', 'August', 'September', 'October', 'November', 'December'];
-  const monthsShort = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-                      'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  
-  // Replace day placeholders
-  for (let i = 0; i < 7; i++) {
-    result = result.replace(new RegExp(`\\uE000${1000 + i}\\uE000`, 'g'), days[i]);
-    result = result.replace(new RegExp(`\\uE000${1100 + i}\\uE000`, 'g'), daysShort[i]);
-  }
-  result = result.replace(/\uE0001200\uE000/g, String(day).padStart(2, '0'));
-  result = result.replace(/\uE0001201\uE000/g, String(day));
-  
-  // Replace month placeholders
-  for (let i = 1; i <= 12; i++) {
-    result = result.replace(new RegExp(`\\uE000${2000 + i}\\uE000`, 'g'), months[i - 1]);
-    result = result.replace(new RegExp(`\\uE000${2100 + i}\\uE000`, 'g'), monthsShort[i - 1]);
+  if (typeof value === 'number') {
+    if (format === '') return value.toString();
+    return getFormatter(format)(value).text;
   }
-  result = result.replace(/\uE0002200\uE000/g, String(month).padStart(2, '0'));
-  result = result.replace(/\uE0002201\uE000/g, String(month));
-  
-  // Replace year placeholders
-  result = result.replace(/\uE0003000\uE000/g, String(year));
-  result = result.replace(/\uE0003001\uE000/g, String(year).slice(-2));
-  
-  // Replace time placeholders
-  result = result.replace(/\uE0004000\uE000/g, String(hours).padStart(2, '0'));
-  result = result.replace(/\uE0004001\uE000/g, String(hours));
-  result = result.replace(/\uE0005000\uE000/g, String(seconds).padStart(2, '0'));
-  result = result.replace(/\uE0005001\uE000/g, String(seconds));
 
-  return result;
-}
+  const text = toString(value);
+  if (text instanceof Error) return text;
+  return getFormatter(format)(text).text;
+};
 
 /**
  * VALUE - Convert text to number with locale-aware parsing
@@ -1455,3 +1342,157 @@ export const TEXTAFTER: FormulaFunction = (
 
   return str.substring(occurrences[targetIndex] + delim.length);
 };
+
+/**
+ * Compile a REGEX* pattern argument.
+ *
+ * `case_sensitivity` follows Excel: 0 = case-sensitive (default),
+ * 1 = case-insensitive. Any other value, or a pattern JavaScript cannot
+ * compile, yields #VALUE!.
+ */
+const compileRegexArgument = (
+  pattern: FormulaValue,
+  caseSensitivity: FormulaValue,
+  global: boolean
+): RegExp | Error => {
+  const source = toString(pattern);
+  if (source instanceof Error) return source;
+
+  const mode = toNumber(caseSensitivity ?? 0);
+  if (mode instanceof Error) return mode;
+  if (mode !== 0 && mode !== 1) return new Error('#VALUE!');
+
+  try {
+    return new RegExp(source, (global ? 'g' : '') + (mode === 1 ? 'i' : ''));
+  } catch {
+    return new Error('#VALUE!');
+  }
+};
+
+/**
+ * REGEXTEST - Checks whether text matches a regular expression
+ * 
+ * Syntax: REGEXTEST(text, pattern, [case_sensitivity])
+ * 
+ * @param {FormulaValue} text - Text to test
+ * @param {FormulaValue} pattern - Regular expression
+ * @param {FormulaValue} caseSensitivity - 0 = case-sensitive, 1 = case-insensitive (default: 0)
+ * @returns {boolean | Error} - TRUE if any part of the text matches
+ * 
+ * Examples:
+ * - REGEXTEST("INV-2041", "^INV-\d{4}$") → TRUE
+ * - REGEXTEST("abc", "ABC") → FALSE
+ * - REGEXTEST("abc", "ABC", 1) → TRUE
+ * 
+ * Notes:
+ * - Patterns use JavaScript RegExp syntax, which covers the PCRE2 subset used in practice
+ * - Invalid patterns return #VALUE!
+ */
+export const REGEXTEST: FormulaFunction = (text, pattern, caseSensitivity = 0) => {
+  const str = toString(text);
+  if (str instanceof Error) return str;
+
+  const re = compileRegexArgument(pattern, caseSensitivity, false);
+  if (re instanceof Error) return re;
+
+  return re.test(str);
+};
+
+/**
+ * REGEXEXTRACT - Extracts text matching a regular expression
+ * 
+ * Syntax: REGEXEXTRACT(text, pattern, [return_mode], [case_sensitivity])
+ * 
+ * @param {FormulaValue} text - Text to search
+ * @param {FormulaValue} pattern - Regular expression
+ * @param {FormulaValue} returnMode - 0 = first match, 1 = all matches, 2 = capture groups of the first match (default: 0)
+ * @param {FormulaValue} caseSensitivity - 0 = case-sensitive, 1 = case-insensitive (default: 0)
+ * @returns {FormulaValue} - Matched text, or a spilling array for modes 1 and 2
+ * 
+ * Examples:
+ * - REGEXEXTRACT("Call 555-1234", "\d{3}-\d{4}") → "555-1234"
+ * - REGEXEXTRACT("a1 b22 c333", "\d+", 1) → {"1"; "22"; "333"} (column)
+ * - REGEXEXTRACT("2024-06-30", "(\d+)-(\d+)-(\d+)", 2) → {"2024", "06", "30"} (row)
+ * 
+ * Notes:
+ * - Returns #N/A when nothing matches
+ * - Return mode 2 with a pattern that has no capture groups returns #VALUE!
+ * - Groups that did not participate in the match are returned as ""
+ */
+export const REGEXEXTRACT: FormulaFunction = (text, pattern, returnMode = 0, caseSensitivity = 0) => {
+  const str = toString(text);
+  if (str instanceof Error) return str;
+
+  const mode = toNumber(returnMode ?? 0);
+  if (mode instanceof Error) return mode;
+  if (mode !== 0 && mode !== 1 && mode !== 2) return new Error('#VALUE!');
+
+  const re = compileRegexArgument(pattern, caseSensitivity, mode === 1);
+  if (re instanceof Error) return re;
+
+  if (mode === 1) {
+    const matches = Array.from(str.matchAll(re), m => [m[0]]);
+    return matches.length > 0 ? matches : new Error('#N/A');
+  }
+
+  const match = re.exec(str);
+  if (!match) return new Error('#N/A');
+  if (mode === 0) return match[0];
+
+  if (match.length < 2) return new Error('#VALUE!');
+  return [match.slice(1).map(group => group ?? '')];
+};
+
+/**
+ * REGEXREPLACE - Replaces text matching a regular expression
+ * 
+ * Syntax: REGEXREPLACE(text, pattern, replacement, [occurrence], [case_sensitivity])
+ * 
+ * @param {FormulaValue} text - Text to modify
+ * @param {FormulaValue} pattern - Regular expression
+ * @param {FormulaValue} replacement - Replacement text; $1…$n insert capture groups
+ * @param {FormulaValue} occurrence - 0 = every match, n = nth match, -n = nth match from the end (default: 0)
+ * @param {FormulaValue} caseSensitivity - 0 = case-sensitive, 1 = case-insensitive (default: 0)
+ * @returns {string | Error} - Text with the replacements applied
+ * 
+ * Examples:
+ * - REGEXREPLACE("Doe, Jane", "(\w+), (\w+)", "$2 $1") → "Jane Doe"
+ * - REGEXREPLACE("a-b-c", "-", "+", 2) → "a-b+c"
+ * - REGEXREPLACE("a-b-c", "-", "+", -1) → "a-b+c"
+ * 
+ * Notes:
+ * - Text is returned unchanged when the requested occurrence does not exist
+ * - $& inserts the whole match, $<name> a named group and $$ a literal dollar sign
+ */
+export const REGEXREPLACE: FormulaFunction = (
+  text,
+  pattern,
+  replacement,
+  occurrence = 0,
+  caseSensitivity = 0
+) => {
+  const str = toString(text);
+  if (str instanceof Error) return str;
+
+  const template = toString(replacement);
+  if (template instanceof Error) return template;
+
+  const nth = toNumber(occurrence ?? 0);
+  if (nth instanceof Error) return nth;
+  if (Math.floor(nth) !== nth) return new Error('#VALUE!');
+
+  const re = compileRegexArgument(pattern, caseSensitivity, true);
+  if (re instanceof Error) return re;
+
+  if (nth === 0) return str.replace(re, template);
+
+  const matches = Array.from(str.matchAll(re));
+  const target = matches[nth > 0 ? nth - 1 : matches.length + nth];
+  if (!target) return str;
+
+  // A sticky regex positioned on the chosen match replaces exactly that one
+  // match while keeping lookbehind context and native $-template expansion.
+  const sticky = new RegExp(re.source, re.flags.replace('g', '') + 'y');
+  sticky.lastIndex = target.index!;
+  return str.replace(sticky, template);
+};
@@ -5,9 +5,13 @@ export * from './events';
 export * from './fillPatterns';
 export * from './ExcelColor';
 export * from './I18nManager';
+export * from './utils/formula-localization';
 export * from './FormulaEngine';
 export * from './FormulaController';
 export * from './CollaborationEngine';
+export * from './collaboration/CollaborationTransport';
+export * from './collaboration/CollaborationRelay';
+export * from './collaboration/InMemoryTransport';
 export * from './PivotEngine';
 export * from './PivotRegistry'; // Phase 28
 export * from './PivotSnapshotStore'; // Phase 29
@@ -23,7 +27,8 @@ export * from './registry'; // Export FunctionRegistry for autocomplete
 export * from './metadata-api';
 export * from './formatting/NumberFormatter';
 export * from './formatting/NumberFormatSpec';
-// ExcelFormatGrammar is internal - used by NumberFormatter
+export { getFormatter, compileFormat, parseFormatString, EXCEL_COLORS } from './formatting/ExcelFormatGrammar';
+export type { FormatSection, ParsedFormat, FormattedValue, FormatFunction } from './formatting/ExcelFormatGrammar';
 export * from './StyleCache';
 export * from './CommandManager';
 export * from './ClipboardService';
@@ -31,6 +36,9 @@ export * from './PasteCommand';
 export * from './ClearCellsCommand';
 export * from './InsertCellsCommand';
 export * from './DeleteCellsCommand';
+export * from './InsertRowsCommand';
+export * from './DeleteRowsCommand';
+export { FormulaShiftingService } from './FormulaShiftingService';
 export * from './SelectionManager';
 export * from './FormattingController';
 export * from './FileOperations';
@@ -41,6 +49,13 @@ export * from './commands/ViewCommands';
 export * from './commands/ReviewCommands';
 export * from './PageLayoutController';
 export * from './NameManager';
+export * from './ChangeTracker';
+export * from './TableStore';
+export * from './utils/structured-references';
+export * from './utils/hyperlinks';
+export * from './utils/password-hash';
+export * from './utils/outline';
+export * from './utils/cell-value-normalizer';
 export * from './CalculationController';
 export * from './CellLayout';
 export * from './ConditionalFormattingEngine';
@@ -54,6 +69,11 @@ export * from './search/FindService';
 export * from './models/ChartObject';
 export * from './models/AdvancedChartOptions';
 
+// Names more than one module above defines: the root export is the shared model
+export type { Command } from './CommandManager';
+export type { Range, DataValidationRule, DataValidationType } from './types';
+export type { ChartObject } from './models/ChartObject';
+
 // Provider infrastructure (PR #3, PR #4)
 export * from './providers/BatchResolver';
 export * from './providers/ThrottlePolicy';
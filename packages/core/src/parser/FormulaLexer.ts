@@ -0,0 +1,176 @@
+/**
+ * FormulaLexer.ts
+ *
+ * Splits a formula expression (without the leading '=') into tokens for
+ * FormulaParser. String literals, quoted sheet names and error literals are
+ * recognised up front, so operator characters inside them never leak into
+ * the expression structure.
+ */
+
+import { A1_COLUMN_PATTERN, matchSheetQualifiedRefAt, type SheetQualifiedRef } from '../utils/sheet-reference';
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'reference'
+  | 'name'
+  | 'function'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'semicolon'
+  | 'lbrace'
+  | 'rbrace'
+  | 'eof';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  /** Source text of the token */
+  text: string;
+  /** Offset of the first character in the expression */
+  start: number;
+  /** Offset one past the last character */
+  end: number;
+  /** Parsed literal value for number/string/boolean tokens */
+  value?: number | string | boolean;
+  /** Sheet prefix for sheet-qualified reference tokens */
+  sheetRef?: SheetQualifiedRef;
+}
+
+/**
+ * Thrown for text the lexer or parser cannot handle. FormulaEngine treats it
+ * as "not compilable" and falls back to the string evaluator.
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+const NUMBER = /\d*\.?\d+(?:[eE][+-]?\d+)?/y;
+const ERROR_LITERAL =
+  /#(?:NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|GETTING_DATA|SPILL!|CALC!|CIRC!|ERROR!|FIELD!|BLOCKED!|CONNECT!|BUSY!)/iy;
+// A cell or range not followed by anything that would make it part of a name or call
+const A1_CELL = `\\$?${A1_COLUMN_PATTERN}\\$?\\d+`;
+const A1_REFERENCE = new RegExp(`${A1_CELL}(?::${A1_CELL})?(?![A-Z0-9_.(!\\\\])`, 'iy');
+const IDENTIFIER = /[A-Z_\\][A-Z0-9_.]*/iy;
+const OPERATORS: BinaryOperator[] = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+const PUNCTUATION: Record<string, FormulaTokenType> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  ',': 'comma',
+  ';': 'semicolon',
+  '{': 'lbrace',
+  '}': 'rbrace',
+};
+
+function matchAt(pattern: RegExp, expr: string, pos: number): string | null {
+  pattern.lastIndex = pos;
+  const match = pattern.exec(expr);
+  return match ? match[0] : null;
+}
+
+/**
+ * Tokenize a formula expression. The result always ends with an `eof` token.
+ *
+ * @throws FormulaSyntaxError on unterminated strings or unsupported characters
+ */
+export function tokenizeExpression(expr: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let pos = 0;
+
+  const push = (type: FormulaTokenType, end: number, extra?: Partial<FormulaToken>) => {
+    tokens.push({ type, text: expr.slice(pos, end), start: pos, end, ...extra });
+    pos = end;
+  };
+
+  while (pos < expr.length) {
+    const char = expr[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // String literal ("" escapes a quote)
+    if (char === '"') {
+      let end = pos + 1;
+      let value = '';
+      for (;;) {
+        if (end >= expr.length) throw new FormulaSyntaxError('Unterminated string literal', pos);
+        if (expr[end] === '"') {
+          if (expr[end + 1] !== '"') break;
+          value += '"';
+          end += 2;
+        } else {
+          value += expr[end++];
+        }
+      }
+      push('string', end + 1, { value });
+      continue;
+    }
+
+    if (char === '#') {
+      const error = matchAt(ERROR_LITERAL, expr, pos);
+      if (!error) throw new FormulaSyntaxError(`Unknown error literal at ${pos}`, pos);
+      push('error', pos + error.length);
+      continue;
+    }
+
+    if (PUNCTUATION[char]) {
+      push(PUNCTUATION[char], pos + 1);
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => expr.startsWith(candidate, pos));
+    if (op) {
+      push('operator', pos + op.length);
+      continue;
+    }
+
+    // Sheet-qualified reference: Sheet2!A1, 'My Sheet'!A1:B2, Sheet1:Sheet3!B2
+    const qualified = matchSheetQualifiedRefAt(expr, pos);
+    if (qualified) {
+      const sheetRef: SheetQualifiedRef = { sheet: qualified.sheet, ref: qualified.ref };
+      if (qualified.endSheet !== undefined) sheetRef.endSheet = qualified.endSheet;
+      push('reference', qualified.end, { sheetRef });
+      continue;
+    }
+
+    const reference = matchAt(A1_REFERENCE, expr, pos);
+    if (reference) {
+      push('reference', pos + reference.length);
+      continue;
+    }
+
+    const number = matchAt(NUMBER, expr, pos);
+    if (number) {
+      push('number', pos + number.length, { value: parseFloat(number) });
+      continue;
+    }
+
+    const identifier = matchAt(IDENTIFIER, expr, pos);
+    if (identifier) {
+      const end = pos + identifier.length;
+      if (expr[end] === '(') {
+        push('function', end);
+      } else if (/^(?:TRUE|FALSE)$/i.test(identifier)) {
+        push('boolean', end, { value: identifier.toUpperCase() === 'TRUE' });
+      } else {
+        push('name', end);
+      }
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}' at ${pos}`, pos);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: pos, end: pos });
+  return tokens;
+}
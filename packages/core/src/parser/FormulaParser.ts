@@ -0,0 +1,222 @@
+/**
+ * FormulaParser.ts
+ *
+ * Recursive-descent parser turning FormulaLexer tokens into an AST, plus a
+ * compile cache keyed by formula text so each distinct formula is parsed once.
+ *
+ * Operator precedence (high to low, all binary operators left-associative):
+ *   unary - +   >   ^   >   * /   >   + -   >   &   >   = <> < > <= >=
+ */
+
+import type { SheetQualifiedRef } from '../utils/sheet-reference';
+import {
+  tokenizeExpression,
+  FormulaSyntaxError,
+  type BinaryOperator,
+  type FormulaToken,
+} from './FormulaLexer';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'error'; code: string }
+  /** Cell or range reference; `ref` is the A1 text with anchors (e.g. "$A$1:B2") */
+  | { kind: 'reference'; ref: string; isRange: boolean; sheet?: SheetQualifiedRef }
+  /** Identifier: defined name, lambda parameter or LET variable */
+  | { kind: 'name'; name: string }
+  | { kind: 'unary'; op: '+' | '-'; operand: FormulaNode }
+  | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  /**
+   * Function call. `args` holds null for omitted arguments (`IF(A1,,1)`);
+   * `argsText` and `text` keep the source so lazily-evaluated functions can
+   * still receive their raw argument strings.
+   */
+  | { kind: 'call'; name: string; args: (FormulaNode | null)[]; argsText: string; text: string }
+  /** Array constant; `rows` has one entry for `{1,2,3}` and several for `{1,2;3,4}` */
+  | { kind: 'array'; rows: FormulaNode[][] };
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4,
+  '^': 5,
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly expr: string, private readonly tokens: FormulaToken[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseBinary(0);
+    this.expect('eof');
+    return node;
+  }
+
+  private peek(): FormulaToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): FormulaToken {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: FormulaToken['type']): FormulaToken {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new FormulaSyntaxError(`Expected ${type} but found '${token.text || token.type}'`, token.start);
+    }
+    return token;
+  }
+
+  private parseBinary(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator') return left;
+      const op = token.text as BinaryOperator;
+      const precedence = PRECEDENCE[op];
+      if (precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', op, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.text === '-' || token.text === '+')) {
+      this.next();
+      return { kind: 'unary', op: token.text, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value as number };
+      case 'string':
+        return { kind: 'string', value: token.value as string };
+      case 'boolean':
+        return { kind: 'boolean', value: token.value as boolean };
+      case 'error':
+        return { kind: 'error', code: token.text.toUpperCase() };
+      case 'reference': {
+        const ref = token.sheetRef ? token.sheetRef.ref : token.text.toUpperCase();
+        return { kind: 'reference', ref, isRange: ref.includes(':'), sheet: token.sheetRef };
+      }
+      case 'name':
+        return { kind: 'name', name: token.text };
+      case 'function':
+        return this.parseCall(token);
+      case 'lparen': {
+        const inner = this.parseBinary(0);
+        this.expect('rparen');
+        return inner;
+      }
+      case 'lbrace':
+        return this.parseArray();
+      default:
+        throw new FormulaSyntaxError(`Unexpected '${token.text || token.type}'`, token.start);
+    }
+  }
+
+  private parseCall(nameToken: FormulaToken): FormulaNode {
+    const open = this.expect('lparen');
+    const args: (FormulaNode | null)[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      for (;;) {
+        const type = this.peek().type;
+        args.push(type === 'comma' || type === 'rparen' ? null : this.parseBinary(0));
+        if (this.peek().type !== 'comma') break;
+        this.next();
+      }
+    }
+
+    const close = this.expect('rparen');
+    return {
+      kind: 'call',
+      name: nameToken.text,
+      args,
+      argsText: this.expr.slice(open.end, close.start),
+      text: this.expr.slice(nameToken.start, close.end),
+    };
+  }
+
+  private parseArray(): FormulaNode {
+    const rows: FormulaNode[][] = [];
+    if (this.peek().type === 'rbrace') {
+      this.next();
+      return { kind: 'array', rows };
+    }
+
+    let row: FormulaNode[] = [];
+    for (;;) {
+      row.push(this.parseBinary(0));
+      const token = this.next();
+      if (token.type === 'comma') continue;
+      rows.push(row);
+      if (token.type === 'semicolon') {
+        row = [];
+        continue;
+      }
+      if (token.type === 'rbrace') return { kind: 'array', rows };
+      throw new FormulaSyntaxError(`Unexpected '${token.text || token.type}' in array constant`, token.start);
+    }
+  }
+}
+
+/**
+ * Parse a formula expression (without the leading '=') into an AST.
+ *
+ * @throws FormulaSyntaxError when the expression uses syntax the parser does
+ * not model (member access, lambda invocation `LAMBDA(x,x)(1)`, ...)
+ */
+export function parseFormula(expr: string): FormulaNode {
+  return new Parser(expr, tokenizeExpression(expr)).parse();
+}
+
+/**
+ * Per-engine cache of compiled formulas, keyed by expression text.
+ *
+ * Expressions that fail to parse are cached as null so callers fall back to
+ * their string evaluator without re-parsing. When full, the oldest entry is
+ * evicted (Map iteration order is insertion order).
+ */
+export class FormulaCompileCache {
+  private entries = new Map<string, FormulaNode | null>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  get(expr: string): FormulaNode | null {
+    const cached = this.entries.get(expr);
+    if (cached !== undefined) return cached;
+
+    let compiled: FormulaNode | null;
+    try {
+      compiled = parseFormula(expr);
+    } catch (error) {
+      if (!(error instanceof FormulaSyntaxError)) throw error;
+      compiled = null;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    this.entries.set(expr, compiled);
+    return compiled;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
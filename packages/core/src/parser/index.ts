@@ -5,3 +5,5 @@
 export * from './ReferenceParser';
 export * from './TokenParser';
 export * from './ExpressionParser';
+export * from './FormulaLexer';
+export * from './FormulaParser';
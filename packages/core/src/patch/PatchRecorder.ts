@@ -231,6 +231,11 @@ export class PatchRecorder {
         break;
       }
 
+      // The event carries both sides, so no pre-mutation read is needed
+      case 'hyperlink-changed':
+        this._ops.push({ op: 'setHyperlink', row: event.address.row, col: event.address.col, before: event.before, after: event.after });
+        break;
+
       case 'merge-added': {
         const r = event.region as MergedRegion;
         this._ops.push({ op: 'mergeCells', startRow: r.startRow, startCol: r.startCol, endRow: r.endRow, endCol: r.endCol });
@@ -248,9 +253,29 @@ export class PatchRecorder {
       case 'col-hidden':  this._ops.push({ op: 'hideCol', col: event.col }); break;
       case 'col-shown':   this._ops.push({ op: 'showCol', col: event.col }); break;
 
+      // Removed content rides on the delete event so the inverse can restore it
+      case 'rows-inserted':
+        this._ops.push({ op: 'insertRows', row: event.index, count: event.count, ...(event.restored && { restore: event.restored }) });
+        break;
+      case 'rows-deleted':
+        this._ops.push({ op: 'deleteRows', row: event.index, count: event.count, removed: event.deleted });
+        break;
+      case 'cols-inserted':
+        this._ops.push({ op: 'insertCols', col: event.index, count: event.count, ...(event.restored && { restore: event.restored }) });
+        break;
+      case 'cols-deleted':
+        this._ops.push({ op: 'deleteCols', col: event.index, count: event.count, removed: event.deleted });
+        break;
+
       case 'sheet-protection-changed':
         this._ops.push({ op: 'setSheetProtection', before: event.before, after: event.after });
         break;
+      case 'allow-edit-ranges-changed':
+        this._ops.push({ op: 'setAllowEditRanges', before: event.before, after: event.after });
+        break;
+      case 'outline-changed':
+        this._ops.push({ op: 'setOutline', before: event.before, after: event.after });
+        break;
       case 'freeze-panes-changed':
         this._ops.push({ op: 'setFreezePanes', before: event.before, after: event.after });
         break;
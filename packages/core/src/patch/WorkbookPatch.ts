@@ -0,0 +1,183 @@
+/**
+ * WorkbookPatch.ts — sheet lifecycle patches
+ *
+ * The workbook-level counterpart of WorksheetPatch: an invertible list of
+ * sheet lifecycle operations (add, remove, rename, move, duplicate, tab
+ * visibility and colour) applied to a Workbook.
+ *
+ *  addSheet           → inverse is removeSheet
+ *  removeSheet        → removed sheet stored for undo; inverse is addSheet
+ *  renameSheet        → inverse renames back
+ *  moveSheet          → inverse moves back
+ *  duplicateSheet     → inverse removes the copy
+ *  setSheetVisibility → previous visibility stored for undo
+ *  setTabColor        → previous colour stored for undo
+ *
+ * Unlike cell ops, a removed sheet travels as the live Worksheet (see
+ * RemovedSheet), so `removed` / `restore` payloads are in-memory only and
+ * are not meant to be serialised.
+ */
+
+import type { Workbook, RemovedSheet } from '../workbook';
+import type { SheetVisibility } from '../types';
+
+// ---------------------------------------------------------------------------
+// Op types
+// ---------------------------------------------------------------------------
+
+/** Add an empty sheet at a 0-based tab position, or put back a removed one. */
+export interface AddSheetOp {
+  op: 'addSheet';
+  name: string;
+  index: number;
+  rows?: number;
+  cols?: number;
+  /** Set when the op undoes a removeSheet: the sheet and references to restore. */
+  restore?: RemovedSheet;
+}
+
+export interface RemoveSheetOp {
+  op: 'removeSheet';
+  name: string;
+  /** What the removal took out; filled in when the op is applied. */
+  removed?: RemovedSheet;
+}
+
+export interface RenameSheetOp {
+  op: 'renameSheet';
+  from: string;
+  to: string;
+}
+
+export interface MoveSheetOp {
+  op: 'moveSheet';
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface DuplicateSheetOp {
+  op: 'duplicateSheet';
+  name: string;
+  newName: string;
+  index: number;
+}
+
+export interface SetSheetVisibilityOp {
+  op: 'setSheetVisibility';
+  name: string;
+  before: SheetVisibility;
+  after: SheetVisibility;
+}
+
+export interface SetTabColorOp {
+  op: 'setTabColor';
+  name: string;
+  before: string | null;
+  after: string | null;
+}
+
+export type WorkbookOp =
+  | AddSheetOp
+  | RemoveSheetOp
+  | RenameSheetOp
+  | MoveSheetOp
+  | DuplicateSheetOp
+  | SetSheetVisibilityOp
+  | SetTabColorOp;
+
+export interface WorkbookPatch {
+  /** Monotonically increasing sequence number (0 when not tracked). */
+  seq: number;
+  ops: WorkbookOp[];
+}
+
+// ---------------------------------------------------------------------------
+// invertWorkbookPatch
+// ---------------------------------------------------------------------------
+
+function invertOp(op: WorkbookOp): WorkbookOp {
+  switch (op.op) {
+    case 'addSheet':
+      return { op: 'removeSheet', name: op.name };
+    case 'removeSheet':
+      return {
+        op: 'addSheet',
+        name: op.name,
+        index: op.removed?.index ?? 0,
+        ...(op.removed && { restore: op.removed }),
+      };
+    case 'renameSheet':
+      return { op: 'renameSheet', from: op.to, to: op.from };
+    case 'moveSheet':
+      return { op: 'moveSheet', name: op.name, from: op.to, to: op.from };
+    case 'duplicateSheet':
+      return { op: 'removeSheet', name: op.newName };
+    case 'setSheetVisibility':
+      return { op: 'setSheetVisibility', name: op.name, before: op.after, after: op.before };
+    case 'setTabColor':
+      return { op: 'setTabColor', name: op.name, before: op.after, after: op.before };
+  }
+}
+
+/**
+ * Compute the inverse of a workbook patch (ops in reverse order).
+ *
+ * A removeSheet op can only be inverted once it carries `removed`, i.e. as
+ * returned by applyWorkbookPatch(); otherwise its inverse adds an empty sheet.
+ */
+export function invertWorkbookPatch(patch: WorkbookPatch, seq = 0): WorkbookPatch {
+  return { seq, ops: patch.ops.map(invertOp).reverse() };
+}
+
+// ---------------------------------------------------------------------------
+// applyWorkbookPatch
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply a workbook patch in order and return its inverse.
+ *
+ * The inverse is built from what each op actually did (the removed sheet,
+ * the index a copy landed at), so it is always complete even when the
+ * forward patch was not.
+ *
+ * @throws Re-throws any error from the Workbook. No partial-apply rollback.
+ */
+export function applyWorkbookPatch(wb: Workbook, patch: WorkbookPatch): WorkbookPatch {
+  const applied: WorkbookOp[] = [];
+
+  for (const op of patch.ops) {
+    switch (op.op) {
+      case 'addSheet':
+        if (op.restore) wb.restoreSheet(op.restore);
+        else wb.addSheet(op.name, op.rows, op.cols, op.index);
+        applied.push(op);
+        break;
+      case 'removeSheet':
+        applied.push({ op: 'removeSheet', name: op.name, removed: wb.removeSheet(op.name) });
+        break;
+      case 'renameSheet':
+        wb.renameSheet(op.from, op.to);
+        applied.push(op);
+        break;
+      case 'moveSheet':
+        wb.moveSheet(op.name, op.to);
+        applied.push(op);
+        break;
+      case 'duplicateSheet':
+        wb.duplicateSheet(op.name, op.newName, op.index);
+        applied.push(op);
+        break;
+      case 'setSheetVisibility':
+        wb.setSheetVisibility(op.name, op.after);
+        applied.push(op);
+        break;
+      case 'setTabColor':
+        wb.setTabColor(op.name, op.after);
+        applied.push(op);
+        break;
+    }
+  }
+
+  return invertWorkbookPatch({ seq: patch.seq, ops: applied }, patch.seq);
+}
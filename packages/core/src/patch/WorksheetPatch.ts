@@ -31,14 +31,20 @@
  * ==========================================================================
  *
  *  setCellValue   → previous value stored for undo
- *  clearCell      → previous value stored for undo
+ *  setCellFormula → previous formula and value stored for undo
+ *  clearCell      → previous value (and formula, if any) stored for undo
  *  setCellStyle   → previous style snapshot stored for undo
+ *  setHyperlink   → previous hyperlink stored for undo
  *  mergeCells     → region stored; inverse is cancelMerge
  *  cancelMerge    → region stored; inverse is mergeCells
  *  hideRow        → row index; inverse is showRow
  *  showRow        → row index; inverse is hideRow
  *  hideCol        → col index; inverse is showCol
  *  showCol        → col index; inverse is hideCol
+ *  insertRows     → row index + count; inverse is deleteRows
+ *  deleteRows     → removed rows stored for undo; inverse is insertRows
+ *  insertCols     → col index + count; inverse is deleteCols
+ *  deleteCols     → removed cols stored for undo; inverse is insertCols
  *
  * ==========================================================================
  * WHAT IS NOT IN A PATCH
@@ -68,7 +74,8 @@
  *  applyPatch(worksheet, inverse);
  */
 
-import type { Address, ExtendedCellValue, CellStyle, SheetProtectionOptions, FreezeState, ColumnFilter, AutoFilterRange, SortKey } from '../types';
+import type { Address, ExtendedCellValue, CellStyle, CellHyperlink, SheetProtectionOptions, AllowEditRange, FreezeState, OutlineState, ColumnFilter, AutoFilterRange, SortKey } from '../types';
+import type { DeletedBand } from '../worksheet';
 
 /**
  * Minimal pivot definition stored inside a CreatePivotOp.
@@ -107,6 +114,21 @@ export type ClearCellOp = {
   row:    number;
   col:    number;
   before: ExtendedCellValue;
+  /** Formula the cell held, when the clear removed one. */
+  formula?: string;
+};
+
+/**
+ * Enter a formula in a cell; stores the cell's previous formula (null for a
+ * plain value) and value for undo. `after.value` is shown until the next
+ * recalculation; without it the cell keeps its current value.
+ */
+export type SetCellFormulaOp = {
+  op:     'setCellFormula';
+  row:    number;
+  col:    number;
+  before: { formula: string | null; value?: ExtendedCellValue };
+  after:  { formula: string; value?: ExtendedCellValue };
 };
 
 /** Change a cell's style object; stores full before/after for undo. */
@@ -118,6 +140,15 @@ export type SetCellStyleOp = {
   after:  CellStyle | undefined;
 };
 
+/** Set or remove (`after: undefined`) a cell's hyperlink; stores `before` for undo. */
+export type SetHyperlinkOp = {
+  op:     'setHyperlink';
+  row:    number;
+  col:    number;
+  before: CellHyperlink | undefined;
+  after:  CellHyperlink | undefined;
+};
+
 /** Merge a rectangular region; inverse is cancelMergeOp. */
 export type MergeCellsOp = {
   op:       'mergeCells';
@@ -160,6 +191,46 @@ export type ShowColOp = {
   col: number;
 };
 
+/**
+ * Insert `count` empty rows before `row`; inverse is deleteRowsOp.
+ * `restore` is only set on the inverse of a deleteRowsOp: it puts the
+ * removed rows, and every formula the delete rewrote, back.
+ */
+export type InsertRowsOp = {
+  op:       'insertRows';
+  row:      number;
+  count:    number;
+  restore?: DeletedBand;
+};
+
+/**
+ * Delete `count` rows starting at `row`; inverse is insertRowsOp.
+ * `removed` is captured when the op is recorded (PatchRecorder) and is not
+ * needed to apply it.
+ */
+export type DeleteRowsOp = {
+  op:       'deleteRows';
+  row:      number;
+  count:    number;
+  removed?: DeletedBand;
+};
+
+/** Insert `count` empty columns before `col`; see InsertRowsOp. */
+export type InsertColsOp = {
+  op:       'insertCols';
+  col:      number;
+  count:    number;
+  restore?: DeletedBand;
+};
+
+/** Delete `count` columns starting at `col`; see DeleteRowsOp. */
+export type DeleteColsOp = {
+  op:       'deleteCols';
+  col:      number;
+  count:    number;
+  removed?: DeletedBand;
+};
+
 /**
  * Set or remove sheet-level protection; stores before/after for undo.
  * `after: null` means remove protection.
@@ -170,6 +241,24 @@ export type SetSheetProtectionOp = {
   after:  SheetProtectionOptions | null;
 };
 
+/** Replace the sheet's allow-edit ranges; stores before/after for undo. */
+export type SetAllowEditRangesOp = {
+  op:     'setAllowEditRanges';
+  before: AllowEditRange[];
+  after:  AllowEditRange[];
+};
+
+/**
+ * Replace the sheet's outline (groups, collapsed flags, summary placement);
+ * stores before/after for undo. Rows/columns hidden by collapsing travel as
+ * separate hideRow/hideCol ops.
+ */
+export type SetOutlineOp = {
+  op:     'setOutline';
+  before: OutlineState;
+  after:  OutlineState;
+};
+
 /**
  * Set or clear freeze-pane state; stores before/after for undo.
  * `after: null` means clear freeze panes.
@@ -273,8 +362,10 @@ export type SetSpillOp = {
 /** Union of all operation types. */
 export type PatchOp =
   | SetCellValueOp
+  | SetCellFormulaOp
   | ClearCellOp
   | SetCellStyleOp
+  | SetHyperlinkOp
   | SetSpillOp
   | MergeCellsOp
   | CancelMergeOp
@@ -282,7 +373,13 @@ export type PatchOp =
   | ShowRowOp
   | HideColOp
   | ShowColOp
+  | InsertRowsOp
+  | DeleteRowsOp
+  | InsertColsOp
+  | DeleteColsOp
   | SetSheetProtectionOp
+  | SetAllowEditRangesOp
+  | SetOutlineOp
   | SetFreezePanesOp
   | SetColumnFilterOp
   | SetAutoFilterRangeOp
@@ -334,13 +431,38 @@ export function invertPatch(patch: WorksheetPatch, seq = 0): WorksheetPatch {
       case 'setCellValue':
         ops.push({ op: 'setCellValue', row: op.row, col: op.col, before: op.after, after: op.before });
         break;
+      case 'setCellFormula':
+        if (op.before.formula !== null) {
+          ops.push({
+            op: 'setCellFormula', row: op.row, col: op.col,
+            before: op.after,
+            after: { formula: op.before.formula, value: op.before.value },
+          });
+        } else {
+          // The cell held a plain value: remove the formula, then restore the value
+          ops.push({ op: 'clearCell', row: op.row, col: op.col, before: op.after.value ?? null, formula: op.after.formula });
+          const value = op.before.value ?? null;
+          if (value !== null) ops.push({ op: 'setCellValue', row: op.row, col: op.col, before: null, after: value });
+        }
+        break;
       case 'clearCell':
-        // Inverse of clearCell restores the previous value.
-        ops.push({ op: 'setCellValue', row: op.row, col: op.col, before: null, after: op.before });
+        // Inverse of clearCell restores the previous value (and formula).
+        if (op.formula !== undefined) {
+          ops.push({
+            op: 'setCellFormula', row: op.row, col: op.col,
+            before: { formula: null, value: null },
+            after: { formula: op.formula, value: op.before },
+          });
+        } else {
+          ops.push({ op: 'setCellValue', row: op.row, col: op.col, before: null, after: op.before });
+        }
         break;
       case 'setCellStyle':
         ops.push({ op: 'setCellStyle', row: op.row, col: op.col, before: op.after, after: op.before });
         break;
+      case 'setHyperlink':
+        ops.push({ op: 'setHyperlink', row: op.row, col: op.col, before: op.after, after: op.before });
+        break;
       case 'setSpill':
         // Invert spill: swap before/after for each cell change
         ops.push({
@@ -363,9 +485,27 @@ export function invertPatch(patch: WorksheetPatch, seq = 0): WorksheetPatch {
       case 'showRow':   ops.push({ op: 'hideRow', row: op.row }); break;
       case 'hideCol':   ops.push({ op: 'showCol', col: op.col }); break;
       case 'showCol':   ops.push({ op: 'hideCol', col: op.col }); break;
+      case 'insertRows':
+        ops.push({ op: 'deleteRows', row: op.row, count: op.count });
+        break;
+      case 'deleteRows':
+        ops.push({ op: 'insertRows', row: op.row, count: op.count, ...(op.removed && { restore: op.removed }) });
+        break;
+      case 'insertCols':
+        ops.push({ op: 'deleteCols', col: op.col, count: op.count });
+        break;
+      case 'deleteCols':
+        ops.push({ op: 'insertCols', col: op.col, count: op.count, ...(op.removed && { restore: op.removed }) });
+        break;
       case 'setSheetProtection':
         ops.push({ op: 'setSheetProtection', before: op.after, after: op.before });
         break;
+      case 'setAllowEditRanges':
+        ops.push({ op: 'setAllowEditRanges', before: op.after, after: op.before });
+        break;
+      case 'setOutline':
+        ops.push({ op: 'setOutline', before: op.after, after: op.before });
+        break;
       case 'setFreezePanes':
         ops.push({ op: 'setFreezePanes', before: op.after, after: op.before });
         break;
@@ -444,12 +584,20 @@ export function applyPatch(ws: Worksheet, patch: WorksheetPatch): void {
       case 'setCellValue':
         ws.setCellValue({ row: op.row, col: op.col }, op.after);
         break;
+      case 'setCellFormula':
+        ws.setCellFormula({ row: op.row, col: op.col }, op.after.formula, op.after.value);
+        break;
       case 'clearCell':
-        ws.setCellValue({ row: op.row, col: op.col }, null);
+        // Removing a formula takes the cell out of the sheet, as deleteCell did when recorded
+        if (op.formula !== undefined) ws.deleteCell({ row: op.row, col: op.col });
+        else ws.setCellValue({ row: op.row, col: op.col }, null);
         break;
       case 'setCellStyle':
         ws.setCellStyle({ row: op.row, col: op.col }, op.after);
         break;
+      case 'setHyperlink':
+        ws.setHyperlink({ row: op.row, col: op.col }, op.after);
+        break;
       case 'setSpill':
         // Apply spill changes atomically: each change updates spillSource or spilledFrom
         for (const change of op.changes) {
@@ -482,10 +630,26 @@ export function applyPatch(ws: Worksheet, patch: WorksheetPatch): void {
       case 'showRow':  ws.showRow(op.row); break;
       case 'hideCol':  ws.hideCol(op.col); break;
       case 'showCol':  ws.showCol(op.col); break;
+      case 'insertRows':
+        if (op.restore) ws.restoreRows(op.restore);
+        else ws.insertRows(op.row, op.count);
+        break;
+      case 'deleteRows': ws.deleteRows(op.row, op.count); break;
+      case 'insertCols':
+        if (op.restore) ws.restoreCols(op.restore);
+        else ws.insertCols(op.col, op.count);
+        break;
+      case 'deleteCols': ws.deleteCols(op.col, op.count); break;
       case 'setSheetProtection':
         if (op.after === null) ws.unprotectSheet();
         else ws.protectSheet(op.after);
         break;
+      case 'setAllowEditRanges':
+        ws.setAllowEditRanges(op.after);
+        break;
+      case 'setOutline':
+        ws.setOutlineState(op.after);
+        break;
       case 'setFreezePanes':
         if (op.after === null) ws.clearFreezePanes();
         else ws.setFreezePanes(op.after.rows, op.after.cols);
@@ -533,12 +697,23 @@ export const PatchOps = {
   setCellValue(row: number, col: number, before: ExtendedCellValue, after: ExtendedCellValue): SetCellValueOp {
     return { op: 'setCellValue', row, col, before, after };
   },
-  clearCell(row: number, col: number, before: ExtendedCellValue): ClearCellOp {
-    return { op: 'clearCell', row, col, before };
+  setCellFormula(
+    row:    number,
+    col:    number,
+    before: SetCellFormulaOp['before'],
+    after:  SetCellFormulaOp['after'],
+  ): SetCellFormulaOp {
+    return { op: 'setCellFormula', row, col, before, after };
+  },
+  clearCell(row: number, col: number, before: ExtendedCellValue, formula?: string): ClearCellOp {
+    return formula === undefined ? { op: 'clearCell', row, col, before } : { op: 'clearCell', row, col, before, formula };
   },
   setCellStyle(row: number, col: number, before: CellStyle | undefined, after: CellStyle | undefined): SetCellStyleOp {
     return { op: 'setCellStyle', row, col, before, after };
   },
+  setHyperlink(row: number, col: number, before: CellHyperlink | undefined, after: CellHyperlink | undefined): SetHyperlinkOp {
+    return { op: 'setHyperlink', row, col, before, after };
+  },
   mergeCells(startRow: number, startCol: number, endRow: number, endCol: number): MergeCellsOp {
     return { op: 'mergeCells', startRow, startCol, endRow, endCol };
   },
@@ -549,12 +724,22 @@ export const PatchOps = {
   showRow(row: number): ShowRowOp { return { op: 'showRow', row }; },
   hideCol(col: number): HideColOp { return { op: 'hideCol', col }; },
   showCol(col: number): ShowColOp { return { op: 'showCol', col }; },
+  insertRows(row: number, count = 1): InsertRowsOp { return { op: 'insertRows', row, count }; },
+  deleteRows(row: number, count = 1): DeleteRowsOp { return { op: 'deleteRows', row, count }; },
+  insertCols(col: number, count = 1): InsertColsOp { return { op: 'insertCols', col, count }; },
+  deleteCols(col: number, count = 1): DeleteColsOp { return { op: 'deleteCols', col, count }; },
   setSheetProtection(
     before: SheetProtectionOptions | null,
     after:  SheetProtectionOptions | null,
   ): SetSheetProtectionOp {
     return { op: 'setSheetProtection', before, after };
   },
+  setAllowEditRanges(before: AllowEditRange[], after: AllowEditRange[]): SetAllowEditRangesOp {
+    return { op: 'setAllowEditRanges', before, after };
+  },
+  setOutline(before: OutlineState, after: OutlineState): SetOutlineOp {
+    return { op: 'setOutline', before, after };
+  },
   setFreezePanes(
     before: FreezeState | null,
     after:  FreezeState | null,
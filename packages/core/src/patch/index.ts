@@ -13,10 +13,21 @@ export type {
   CancelMergeOp,
   HideRowOp, ShowRowOp,
   HideColOp, ShowColOp,
+  InsertRowsOp, DeleteRowsOp,
+  InsertColsOp, DeleteColsOp,
   WorksheetPatch,
 } from './WorksheetPatch';
 export { PatchOps, invertPatch, applyPatch } from './WorksheetPatch';
 
+export type {
+  WorkbookOp,
+  AddSheetOp, RemoveSheetOp,
+  RenameSheetOp, MoveSheetOp, DuplicateSheetOp,
+  SetSheetVisibilityOp, SetTabColorOp,
+  WorkbookPatch,
+} from './WorkbookPatch';
+export { invertWorkbookPatch, applyWorkbookPatch } from './WorkbookPatch';
+
 export { PatchRecorder, recordingApplyPatch } from './PatchRecorder';
 
 export type { IPatchProxy, UndoEntry, PatchUndoStackOptions } from './PatchUndoStack';
@@ -25,7 +25,7 @@
  *  └─────────────────────────────────────────────────────────────────────────┘
  *
  * Section IDs:
- *   0x0001  CELLS       cell values, formulas, styles, comments, icons, spill
+ *   0x0001  CELLS       cell values, formulas, styles, comments, icons, spill, hyperlinks
  *   0x0002  MERGES      merged region descriptors
  *   0x0003  VISIBILITY  hidden rows and hidden columns
  *   0x0004  DAG         formula dependency edges (predecessors map)
@@ -46,6 +46,7 @@
  *   bit 3 (0x08) — has icon
  *   bit 4 (0x10) — has spillSource
  *   bit 5 (0x20) — has spilledFrom
+ *   bit 6 (0x40) — has hyperlink
  *
  * =============================================================================
  * MEMORY PROFILE
@@ -67,7 +68,7 @@
  * =============================================================================
  *
  * 1. Section table with offsets enables streaming load: skip sections not needed.
- * 2. Style / comments / icon use JSON blobs because these types are complex and
+ * 2. Style / comments / icon / hyperlink use JSON blobs because these types are complex and
  *    rare. Binary encoding of arbitrary nested objects provides diminishing
  *    returns — JSON blobs are still smaller than V8 heap objects.
  * 3. Formula strings use u16 prefix (cap 65535 bytes) — no realistic formula
@@ -78,7 +79,7 @@
  *    modern browsers — no polyfill required.
  */
 
-import type { Cell, MergedRegion, Address, CellStyle, CellComment, CellIcon } from '../types';
+import type { Cell, MergedRegion, Address, CellStyle, CellComment, CellIcon, CellHyperlink } from '../types';
 
 // ---------------------------------------------------------------------------
 // Snapshot types (plain objects — no class instances)
@@ -103,9 +104,8 @@ export type DagEdge = {
  *
  * Does NOT include: column widths, row heights, column filters,
  * conditional formatting rules, or formula engine reference.
- * Those are either UI-layer concerns or reconstructed separately.
- *
- * Phase 8+ will extend this type with additional sections.
+ * Sheet settings travel alongside it in a WorkbookSnapshot
+ * (see WorkbookSnapshotCodec); the engine is reconstructed separately.
  */
 export type WorksheetSnapshot = {
   /** Format version (currently 1). Validated on decode. */
@@ -250,6 +250,7 @@ const FLAG_COMMENTS  = 0x04;
 const FLAG_ICON      = 0x08;
 const FLAG_SPILLSRC  = 0x10;
 const FLAG_SPILLFROM = 0x20;
+const FLAG_HYPERLINK = 0x40;
 
 // ---------------------------------------------------------------------------
 // CRC32 — integrity checksum (Phase 8)
@@ -293,8 +294,10 @@ export function crc32(data: Uint8Array): number {
  * Resizable write-only buffer using a Uint8Array + DataView pair.
  * Grows by doubling when capacity is exceeded (amortised O(1) append).
  * All multi-byte values are written in little-endian order.
+ *
+ * @internal Shared with WorkbookSnapshotCodec; not part of the public API.
  */
-class BinaryWriter {
+export class BinaryWriter {
   private buf: Uint8Array;
   private view: DataView;
   private pos = 0;
@@ -362,8 +365,10 @@ class BinaryWriter {
  * Read-only cursor over a Uint8Array.
  * All multi-byte values are read in little-endian order.
  * `seek()` supports random access for the section-based format.
+ *
+ * @internal Shared with WorkbookSnapshotCodec; not part of the public API.
  */
-class BinaryReader {
+export class BinaryReader {
   private readonly view: DataView;
   private pos = 0;
   private readonly dec = new TextDecoder();
@@ -604,6 +609,7 @@ export class SnapshotCodec {
     if (cell.icon       !== undefined) flags |= FLAG_ICON;
     if (cell.spillSource  !== undefined) flags |= FLAG_SPILLSRC;
     if (cell.spilledFrom  !== undefined) flags |= FLAG_SPILLFROM;
+    if (cell.hyperlink    !== undefined) flags |= FLAG_HYPERLINK;
     w.writeU8(flags);
 
     if (flags & FLAG_FORMULA)   w.writeShortString(cell.formula!);
@@ -621,6 +627,7 @@ export class SnapshotCodec {
       w.writeU32(cell.spilledFrom!.row);
       w.writeU32(cell.spilledFrom!.col);
     }
+    if (flags & FLAG_HYPERLINK) w.writeString(JSON.stringify(cell.hyperlink));
   }
 
   private _encodeCellValue(w: BinaryWriter, value: Cell['value']): void {
@@ -721,6 +728,7 @@ export class SnapshotCodec {
         icon:        undefined,
         spillSource: undefined,
         spilledFrom: undefined,
+        hyperlink:   undefined,
       };
 
       if (flags & FLAG_FORMULA)  cell.formula   = r.readShortString();
@@ -740,6 +748,7 @@ export class SnapshotCodec {
       if (flags & FLAG_SPILLFROM) {
         cell.spilledFrom = { row: r.readU32(), col: r.readU32() };
       }
+      if (flags & FLAG_HYPERLINK) cell.hyperlink = JSON.parse(r.readString()) as CellHyperlink;
 
       cells.push({ row, col, cell });
     }
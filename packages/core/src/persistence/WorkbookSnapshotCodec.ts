@@ -0,0 +1,488 @@
+/**
+ * WorkbookSnapshotCodec.ts — Binary workbook container
+ *
+ * Encodes and decodes a whole Workbook: every sheet's cell content (as an
+ * embedded CSEX worksheet snapshot) plus the sheet- and workbook-level state
+ * CSEX does not carry — conditional formatting, data validation, filters,
+ * protection and allow-edit ranges, outlines, freeze panes, sizes, drawings, tables,
+ * defined names, pivots, calculation settings, the track-changes log and
+ * workbook protection.
+ *
+ * =============================================================================
+ * BINARY FORMAT: CSWB v1
+ * =============================================================================
+ *
+ *  ┌─────────────────────────────────────────────────────────────────────────┐
+ *  │  HEADER  (16 bytes, same layout as CSEX v2)                             │
+ *  │    magic:        4 bytes  [0x43 0x53 0x57 0x42] = "CSWB"               │
+ *  │    version:      u16 LE   = 1                                           │
+ *  │    flags:        u16 LE   bit 0 = CRC32 present                         │
+ *  │    checksum:     u32 LE   CRC32 of the buffer with this field zeroed    │
+ *  │    sectionCount: u16 LE                                                 │
+ *  │    reserved:     u16 LE   = 0                                           │
+ *  ├─────────────────────────────────────────────────────────────────────────┤
+ *  │  SECTION TABLE  (sectionCount × 12 bytes: id, flags, offset, length)    │
+ *  ├─────────────────────────────────────────────────────────────────────────┤
+ *  │  SECTION DATA                                                           │
+ *  └─────────────────────────────────────────────────────────────────────────┘
+ *
+ * Workbook section IDs:
+ *   0x0010  SHEET     one per sheet, in tab order (see below)
+ *   0x0020  NAMES     defined names (JSON)
+ *   0x0021  PIVOTS    pivot definitions and anchors (JSON)
+ *   0x0022  SETTINGS  active sheet and calculation settings (JSON)
+ *   0x0023  REVIEW    track-changes state and change log (JSON)
+ *   0x0024  PROTECTION workbook protection options (JSON)
+ *
+ * SHEET section:
+ *   name:      u32 len + UTF-8
+ *   rowCount:  u32
+ *   colCount:  u32
+ *   count:     u16 number of records, then per record:
+ *     id u16, length u32, data
+ *
+ * Sheet record IDs:
+ *   0x0001  CONTENT       embedded CSEX buffer (cells, merges, visibility, DAG)
+ *   0x0002  CONDITIONAL   conditional formatting rules (JSON)
+ *   0x0003  VALIDATION    data validation rules by cell (JSON)
+ *   0x0004  FILTERS       auto-filter range and column filters (JSON)
+ *   0x0005  PROTECTION    sheet protection options (JSON)
+ *   0x0006  VIEW          freeze panes, visibility, tab colour (JSON)
+ *   0x0007  SIZES         column widths and row heights (binary)
+ *   0x0008  DRAWINGS      drawing layer objects and z-order (JSON)
+ *   0x0009  TABLES        table definitions (JSON)
+ *   0x000A  EDIT_RANGES   allow-edit ranges and their password hashes (JSON)
+ *   0x000B  OUTLINE       row/column outline levels, collapsed groups, summary placement (JSON)
+ *
+ * =============================================================================
+ * COMPATIBILITY
+ * =============================================================================
+ *
+ * Sections and sheet records carry their own length, so a decoder skips IDs
+ * it does not know: files written by a newer build that only add sections
+ * still load here.  A missing section decodes to its empty default.
+ *
+ * decode() also accepts a CSEX (v1 or v2) worksheet buffer and upgrades it to
+ * a one-sheet workbook, so documents persisted before CSWB keep loading.
+ */
+
+import type { Address, AllowEditRange, AutoFilterRange, ColumnFilter, DataValidationRule, FreezeState, OutlineState, SheetProtectionOptions, SheetVisibility, WorkbookProtectionOptions } from '../types';
+import type { ConditionalFormattingRule } from '../ConditionalFormattingEngine';
+import type { SerializedDrawingLayer } from '../DrawingLayer';
+import type { TableDefinition } from '../TableStore';
+import type { DefinedName } from '../NameManager';
+import type { PivotConfig } from '../PivotEngine';
+import { DEFAULT_CALCULATION_SETTINGS, type CalculationSettings } from '../CalculationController';
+import { DEFAULT_CHANGE_AUTHOR, type TrackChangesSnapshot } from '../ChangeTracker';
+import { DEFAULT_OUTLINE_SETTINGS } from '../utils/outline';
+import { BinaryReader, BinaryWriter, FORMAT_VERSION, crc32, snapshotCodec, type WorksheetSnapshot } from './SnapshotCodec';
+
+// ---------------------------------------------------------------------------
+// Snapshot types (plain objects — no class instances)
+// ---------------------------------------------------------------------------
+
+/**
+ * Sheet-level state that lives outside the cell grid.
+ * Produced by Worksheet.extractSheetState(), applied by applySheetState().
+ */
+export type SheetStateSnapshot = {
+  conditionalFormats: ConditionalFormattingRule[];
+  validations: Array<{ row: number; col: number; rule: DataValidationRule }>;
+  autoFilter: AutoFilterRange | null;
+  filters: Array<{ col: number; filter: ColumnFilter }>;
+  protection: SheetProtectionOptions | null;
+  allowEditRanges: AllowEditRange[];
+  outline: OutlineState;
+  freezePanes: FreezeState | null;
+  visibility: SheetVisibility;
+  tabColor: string | null;
+  /** [column, px] pairs for columns with a non-default width. */
+  columnWidths: Array<[number, number]>;
+  /** [row, px] pairs for rows with a non-default height. */
+  rowHeights: Array<[number, number]>;
+  drawings: SerializedDrawingLayer;
+  tables: TableDefinition[];
+};
+
+/** One sheet in a WorkbookSnapshot. */
+export type SheetSnapshot = SheetStateSnapshot & {
+  name: string;
+  rowCount: number;
+  colCount: number;
+  /** Cells, merges, hidden rows/cols, DAG edges and volatiles. */
+  content: WorksheetSnapshot;
+};
+
+/** A pivot table definition; pivots are rebuilt from their source on load. */
+export type PivotSnapshotEntry = {
+  name: string;
+  /** Name of the sheet that owns the pivot. */
+  worksheetId: string;
+  config: PivotConfig;
+  anchor: Address | null;
+};
+
+/** Plain-object representation of a whole Workbook. */
+export type WorkbookSnapshot = {
+  /** Container format version. */
+  version: number;
+  /** Sheets in tab order. */
+  sheets: SheetSnapshot[];
+  activeSheet: string | null;
+  names: DefinedName[];
+  pivots: PivotSnapshotEntry[];
+  calculation: CalculationSettings;
+  trackChanges: TrackChangesSnapshot;
+  protection: WorkbookProtectionOptions | null;
+};
+
+// ---------------------------------------------------------------------------
+// Binary format constants
+// ---------------------------------------------------------------------------
+
+/** File signature: "CSWB" (CyberSheet WorkBook). */
+const MAGIC = new Uint8Array([0x43, 0x53, 0x57, 0x42]);
+
+/** Worksheet-only format signature, accepted by decode() for migration. */
+const CSEX_MAGIC = new Uint8Array([0x43, 0x53, 0x45, 0x58]);
+
+/** Current workbook container version. */
+export const WORKBOOK_FORMAT_VERSION = 1;
+
+const HEADER_BYTES       = 16;
+const SECTION_DESC_BYTES = 12;
+const CHECKSUM_OFFSET    = 8;
+const HDR_FLAG_CRC32     = 0x0001;
+
+const SEC_SHEET    = 0x0010;
+const SEC_NAMES    = 0x0020;
+const SEC_PIVOTS   = 0x0021;
+const SEC_SETTINGS = 0x0022;
+const SEC_REVIEW   = 0x0023;
+const SEC_PROTECTION = 0x0024;
+
+const REC_CONTENT     = 0x0001;
+const REC_CONDITIONAL = 0x0002;
+const REC_VALIDATION  = 0x0003;
+const REC_FILTERS     = 0x0004;
+const REC_PROTECTION  = 0x0005;
+const REC_VIEW        = 0x0006;
+const REC_SIZES       = 0x0007;
+const REC_DRAWINGS    = 0x0008;
+const REC_TABLES      = 0x0009;
+const REC_EDIT_RANGES = 0x000A;
+const REC_OUTLINE     = 0x000B;
+
+/** Default state for a sheet record set that is missing sections. */
+function emptySheetState(): SheetStateSnapshot {
+  return {
+    conditionalFormats: [],
+    validations:        [],
+    autoFilter:         null,
+    filters:            [],
+    protection:         null,
+    allowEditRanges:    [],
+    outline:            { rows: { levels: [], collapsed: [] }, cols: { levels: [], collapsed: [] }, settings: { ...DEFAULT_OUTLINE_SETTINGS } },
+    freezePanes:        null,
+    visibility:         'visible',
+    tabColor:           null,
+    columnWidths:       [],
+    rowHeights:         [],
+    drawings:           { objects: [], zOrder: [] },
+    tables:             [],
+  };
+}
+
+/** Track changes off with an empty log. */
+function emptyTrackChanges(): TrackChangesSnapshot {
+  return { enabled: false, author: DEFAULT_CHANGE_AUTHOR, changes: [] };
+}
+
+function hasMagic(buf: Uint8Array, magic: Uint8Array): boolean {
+  if (buf.byteLength < magic.length) return false;
+  for (let i = 0; i < magic.length; i++) {
+    if (buf[i] !== magic[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Wrap a single-sheet CSEX snapshot as a workbook (migration from CSEX).
+ * The sheet gets default sheet state and dimensions.
+ */
+export function upgradeWorksheetSnapshot(snapshot: WorksheetSnapshot, sheetName = 'Sheet1'): WorkbookSnapshot {
+  return {
+    version:     WORKBOOK_FORMAT_VERSION,
+    sheets:      [{ name: sheetName, rowCount: 1000, colCount: 26, content: snapshot, ...emptySheetState() }],
+    activeSheet: sheetName,
+    names:       [],
+    pivots:      [],
+    calculation: { ...DEFAULT_CALCULATION_SETTINGS },
+    trackChanges: emptyTrackChanges(),
+    protection:  null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// WorkbookSnapshotCodec — public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Encodes and decodes WorkbookSnapshot ↔ Uint8Array.
+ *
+ * Usage:
+ * ```ts
+ * const buf = workbookSnapshotCodec.encode(workbook.extractSnapshot());
+ * // ... persist buf ...
+ * workbook.applySnapshot(workbookSnapshotCodec.decode(buf));
+ * ```
+ */
+export class WorkbookSnapshotCodec {
+  // ── encode ────────────────────────────────────────────────────────────────
+
+  /**
+   * Encode a WorkbookSnapshot to a CSWB buffer.
+   *
+   * @complexity O(V + E) over all sheets.
+   */
+  encode(snapshot: WorkbookSnapshot): Uint8Array {
+    const sections: Array<{ id: number; data: Uint8Array }> = [
+      ...snapshot.sheets.map(sheet => ({ id: SEC_SHEET, data: this._encodeSheet(sheet) })),
+      { id: SEC_NAMES,    data: this._encodeJSON(snapshot.names) },
+      { id: SEC_PIVOTS,   data: this._encodeJSON(snapshot.pivots) },
+      { id: SEC_SETTINGS, data: this._encodeJSON({ activeSheet: snapshot.activeSheet, calculation: snapshot.calculation }) },
+      { id: SEC_REVIEW,   data: this._encodeJSON(snapshot.trackChanges) },
+      { id: SEC_PROTECTION, data: this._encodeJSON(snapshot.protection) },
+    ];
+
+    const headerSize = HEADER_BYTES + sections.length * SECTION_DESC_BYTES;
+    const dataSize   = sections.reduce((acc, s) => acc + s.data.byteLength, 0);
+    const w = new BinaryWriter(headerSize + dataSize + 64);
+
+    w.writeBytes(MAGIC);
+    w.writeU16(WORKBOOK_FORMAT_VERSION);
+    w.writeU16(HDR_FLAG_CRC32);
+    w.writeU32(0);                // checksum placeholder
+    w.writeU16(sections.length);
+    w.writeU16(0);                // reserved
+
+    const tableBase = w.position;
+    for (const { id } of sections) {
+      w.writeU16(id);
+      w.writeU16(0);
+      w.writeU32(0);
+      w.writeU32(0);
+    }
+
+    for (let i = 0; i < sections.length; i++) {
+      const offset = w.position;
+      w.writeBytes(sections[i].data);
+      const entryBase = tableBase + i * SECTION_DESC_BYTES;
+      w.patchU32At(entryBase + 4, offset);
+      w.patchU32At(entryBase + 8, sections[i].data.byteLength);
+    }
+
+    const result = w.toBuffer();
+    new DataView(result.buffer, result.byteOffset).setUint32(CHECKSUM_OFFSET, crc32(result), true);
+    return result;
+  }
+
+  // ── decode ────────────────────────────────────────────────────────────────
+
+  /**
+   * Decode a CSWB buffer, or upgrade a CSEX worksheet buffer to a one-sheet
+   * workbook named `legacySheetName`.
+   *
+   * @throws Error on unknown magic, a newer container version, or a checksum mismatch.
+   */
+  decode(buf: Uint8Array, legacySheetName = 'Sheet1'): WorkbookSnapshot {
+    if (hasMagic(buf, CSEX_MAGIC)) {
+      return upgradeWorksheetSnapshot(snapshotCodec.decode(buf), legacySheetName);
+    }
+    if (!hasMagic(buf, MAGIC)) {
+      throw new Error('WorkbookSnapshotCodec: invalid magic bytes (expected CSWB or CSEX format).');
+    }
+
+    const r = new BinaryReader(buf);
+    r.seek(4);
+    const version = r.readU16();
+    if (version > WORKBOOK_FORMAT_VERSION) {
+      throw new Error(
+        `WorkbookSnapshotCodec: unsupported format version ${version} (current: ${WORKBOOK_FORMAT_VERSION}).`,
+      );
+    }
+    const flags        = r.readU16();
+    const storedCRC    = r.readU32();
+    const sectionCount = r.readU16();
+    r.readU16(); // reserved
+
+    if (flags & HDR_FLAG_CRC32) {
+      const copy = buf.slice();
+      new DataView(copy.buffer).setUint32(CHECKSUM_OFFSET, 0, true);
+      const computed = crc32(copy);
+      if (computed !== storedCRC) {
+        throw new Error(
+          `WorkbookSnapshotCodec: checksum mismatch (stored 0x${storedCRC.toString(16).padStart(8, '0')}, ` +
+          `computed 0x${computed.toString(16).padStart(8, '0')}) — buffer may be corrupted.`,
+        );
+      }
+    }
+
+    const table: Array<{ id: number; offset: number }> = [];
+    for (let i = 0; i < sectionCount; i++) {
+      const id     = r.readU16();
+      /*flags*/     r.readU16();
+      const offset = r.readU32();
+      /*length*/    r.readU32();
+      table.push({ id, offset });
+    }
+
+    const snapshot: WorkbookSnapshot = {
+      version,
+      sheets:      [],
+      activeSheet: null,
+      names:       [],
+      pivots:      [],
+      calculation: { ...DEFAULT_CALCULATION_SETTINGS },
+      trackChanges: emptyTrackChanges(),
+      protection:  null,
+    };
+
+    for (const { id, offset } of table) {
+      r.seek(offset);
+      switch (id) {
+        case SEC_SHEET:  snapshot.sheets.push(this._decodeSheet(r));              break;
+        case SEC_NAMES:  snapshot.names  = JSON.parse(r.readString());            break;
+        case SEC_PIVOTS: snapshot.pivots = JSON.parse(r.readString());            break;
+        case SEC_SETTINGS: {
+          const settings = JSON.parse(r.readString()) as Partial<Pick<WorkbookSnapshot, 'activeSheet' | 'calculation'>>;
+          snapshot.activeSheet = settings.activeSheet ?? null;
+          snapshot.calculation = { ...DEFAULT_CALCULATION_SETTINGS, ...settings.calculation };
+          break;
+        }
+        case SEC_REVIEW: {
+          const review = JSON.parse(r.readString()) as TrackChangesSnapshot;
+          // Timestamps travel as ISO strings
+          review.changes = review.changes.map(change => ({ ...change, timestamp: new Date(change.timestamp) }));
+          snapshot.trackChanges = review;
+          break;
+        }
+        case SEC_PROTECTION: snapshot.protection = JSON.parse(r.readString()); break;
+        // Unknown sections come from a newer writer — skip them.
+      }
+    }
+    return snapshot;
+  }
+
+  // ── Sheet sections ────────────────────────────────────────────────────────
+
+  private _encodeSheet(sheet: SheetSnapshot): Uint8Array {
+    const records: Array<{ id: number; data: Uint8Array }> = [
+      { id: REC_CONTENT,     data: snapshotCodec.encode(sheet.content) },
+      { id: REC_CONDITIONAL, data: this._encodeJSON(sheet.conditionalFormats) },
+      { id: REC_VALIDATION,  data: this._encodeJSON(sheet.validations) },
+      { id: REC_FILTERS,     data: this._encodeJSON({ autoFilter: sheet.autoFilter, filters: sheet.filters }) },
+      { id: REC_PROTECTION,  data: this._encodeJSON(sheet.protection) },
+      { id: REC_VIEW,        data: this._encodeJSON({ freezePanes: sheet.freezePanes, visibility: sheet.visibility, tabColor: sheet.tabColor }) },
+      { id: REC_SIZES,       data: this._encodeSizes(sheet.columnWidths, sheet.rowHeights) },
+      { id: REC_DRAWINGS,    data: this._encodeJSON(sheet.drawings) },
+      { id: REC_TABLES,      data: this._encodeJSON(sheet.tables) },
+      { id: REC_EDIT_RANGES, data: this._encodeJSON(sheet.allowEditRanges) },
+      { id: REC_OUTLINE,     data: this._encodeJSON(sheet.outline) },
+    ];
+
+    const w = new BinaryWriter(records.reduce((acc, rec) => acc + rec.data.byteLength + 6, 64));
+    w.writeString(sheet.name);
+    w.writeU32(sheet.rowCount);
+    w.writeU32(sheet.colCount);
+    w.writeU16(records.length);
+    for (const { id, data } of records) {
+      w.writeU16(id);
+      w.writeU32(data.byteLength);
+      w.writeBytes(data);
+    }
+    return w.toBuffer();
+  }
+
+  private _decodeSheet(r: BinaryReader): SheetSnapshot {
+    const name     = r.readString();
+    const rowCount = r.readU32();
+    const colCount = r.readU32();
+    const sheet: SheetSnapshot = {
+      name,
+      rowCount,
+      colCount,
+      content: {
+        version: FORMAT_VERSION, cells: [], merges: [], hiddenRows: [], hiddenCols: [], dagEdges: [], volatiles: [],
+      },
+      ...emptySheetState(),
+    };
+
+    const count = r.readU16();
+    for (let i = 0; i < count; i++) {
+      const id     = r.readU16();
+      const length = r.readU32();
+      const end    = r.position + length;
+      switch (id) {
+        case REC_CONTENT:     sheet.content            = snapshotCodec.decode(r.readBytes(length)); break;
+        case REC_CONDITIONAL: sheet.conditionalFormats = JSON.parse(r.readString());                break;
+        case REC_VALIDATION:  sheet.validations        = JSON.parse(r.readString());                break;
+        case REC_FILTERS: {
+          const filters = JSON.parse(r.readString()) as Pick<SheetSnapshot, 'autoFilter' | 'filters'>;
+          sheet.autoFilter = filters.autoFilter;
+          sheet.filters    = filters.filters;
+          break;
+        }
+        case REC_PROTECTION:  sheet.protection         = JSON.parse(r.readString());                break;
+        case REC_VIEW: {
+          const view = JSON.parse(r.readString()) as Pick<SheetSnapshot, 'freezePanes' | 'visibility' | 'tabColor'>;
+          sheet.freezePanes = view.freezePanes;
+          sheet.visibility  = view.visibility;
+          sheet.tabColor    = view.tabColor;
+          break;
+        }
+        case REC_SIZES:       this._decodeSizes(r, sheet);                                          break;
+        case REC_DRAWINGS:    sheet.drawings           = JSON.parse(r.readString());                break;
+        case REC_TABLES:      sheet.tables             = JSON.parse(r.readString());                break;
+        case REC_EDIT_RANGES: sheet.allowEditRanges    = JSON.parse(r.readString());                break;
+        case REC_OUTLINE:     sheet.outline            = JSON.parse(r.readString());                break;
+      }
+      r.seek(end); // also skips records this build does not know
+    }
+    return sheet;
+  }
+
+  // ── Record helpers ────────────────────────────────────────────────────────
+
+  private _encodeJSON(value: unknown): Uint8Array {
+    const w = new BinaryWriter(256);
+    w.writeString(JSON.stringify(value));
+    return w.toBuffer();
+  }
+
+  private _encodeSizes(columnWidths: Array<[number, number]>, rowHeights: Array<[number, number]>): Uint8Array {
+    const w = new BinaryWriter((columnWidths.length + rowHeights.length) * 12 + 8);
+    for (const sizes of [columnWidths, rowHeights]) {
+      w.writeU32(sizes.length);
+      for (const [index, px] of sizes) {
+        w.writeU32(index);
+        w.writeF64(px);
+      }
+    }
+    return w.toBuffer();
+  }
+
+  private _decodeSizes(r: BinaryReader, sheet: SheetSnapshot): void {
+    for (const sizes of [sheet.columnWidths, sheet.rowHeights]) {
+      const count = r.readU32();
+      for (let i = 0; i < count; i++) sizes.push([r.readU32(), r.readF64()]);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Convenience singleton
+// ---------------------------------------------------------------------------
+
+/** Shared stateless codec instance. */
+export const workbookSnapshotCodec = new WorkbookSnapshotCodec();
@@ -53,12 +53,17 @@ const OP_KEY_ORDER: Record<string, readonly string[]> = {
   setCellValue: ['op', 'row', 'col', 'before', 'after'],
   clearCell:    ['op', 'row', 'col', 'before'],
   setCellStyle: ['op', 'row', 'col', 'before', 'after'],
+  setHyperlink: ['op', 'row', 'col', 'before', 'after'],
   mergeCells:   ['op', 'startRow', 'startCol', 'endRow', 'endCol'],
   cancelMerge:  ['op', 'startRow', 'startCol', 'endRow', 'endCol'],
   hideRow:      ['op', 'row'],
   showRow:      ['op', 'row'],
   hideCol:      ['op', 'col'],
   showCol:      ['op', 'col'],
+  insertRows:   ['op', 'row', 'count', 'restore'],
+  deleteRows:   ['op', 'row', 'count', 'removed'],
+  insertCols:   ['op', 'col', 'count', 'restore'],
+  deleteCols:   ['op', 'col', 'count', 'removed'],
 };
 
 /**
@@ -129,6 +134,13 @@ function validateOp(op: unknown, index: number): asserts op is PatchOp {
       }
     }
   }
+  // Structural ops: count of rows/columns inserted or deleted
+  if ('count' in o) {
+    const v = o['count'];
+    if (typeof v !== 'number' || !Number.isSafeInteger(v) || v < 1) {
+      throw new TypeError(`ops[${index}].count must be a positive safe integer`);
+    }
+  }
 }
 
 function validatePatch(parsed: unknown): asserts parsed is WorksheetPatch {
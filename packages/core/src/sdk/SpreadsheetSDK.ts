@@ -23,12 +23,14 @@
 import { Worksheet } from '../worksheet';
 import { snapshotCodec } from '../persistence/SnapshotCodec';
 import type { WorksheetSnapshot } from '../persistence/SnapshotCodec';
-import type { Cell, CellStyle, ExtendedCellValue, Range, Address, DataValidationRule, SheetProtectionOptions, FreezeState, ColumnFilter, SortKey, AutoFilterRange } from '../types';
+import type { Cell, CellStyle, CellHyperlink, ExtendedCellValue, Range, Address, DataValidationRule, SheetProtectionOptions, AllowEditRange, FreezeState, ColumnFilter, SortKey, AutoFilterRange, OutlineAxis, OutlineGroup, OutlineSettings } from '../types';
 import type { Disposable } from '../events';
 import type { WorksheetPatch } from '../patch/WorksheetPatch';
-import { PatchOps } from '../patch/WorksheetPatch';
+import { PatchOps, invertPatch } from '../patch/WorksheetPatch';
 import { SyncUndoStack } from './SyncUndoStack';
-import { recordingApplyPatch } from '../patch/PatchRecorder';
+import { PatchRecorder, recordingApplyPatch } from '../patch/PatchRecorder';
+import { validateHyperlinkTarget } from '../utils/hyperlinks';
+import { createPasswordHash } from '../utils/password-hash';
 import { buildPivot, pivotGridToValues } from './pivot';
 import type { PivotDefinition, PivotGrid } from './pivot';
 
@@ -69,6 +71,10 @@ export {
   PivotSourceError,
   PivotFieldError,
   EmptyPivotSourceError,
+  // Workbook sheet errors
+  SheetNotFoundError,
+  SheetNameError,
+  LastVisibleSheetError,
 } from './errors';
 // Phase 25 — pivot types re-exported on the public surface
 export type { PivotDefinition, PivotValueSpec, PivotGrid, PivotGridRow, PivotAggregator } from './pivot';
@@ -249,6 +255,29 @@ export interface SpreadsheetSDK {
   /** Return `true` if the column is hidden. */
   isColHidden(col: number): boolean;
 
+  // ── Structural edits ──────────────────────────────────────────────────────
+  /**
+   * Insert `count` (default 1) empty rows before `row`, moving the rows below
+   * down. Formulas, merges, validation, conditional formats, hidden rows,
+   * filters and freeze panes follow the cells they refer to. Undoable.
+   *
+   * @throws {BoundsError}                   if `row` or `count` is out of range.
+   * @throws {ProtectedSheetOperationError}  if the sheet is protected without `allowInsertRows`.
+   */
+  insertRows(row: number, count?: number): void;
+  /**
+   * Delete `count` (default 1) rows starting at `row`. References into the
+   * deleted rows become `#REF!`; undo restores the rows and those references.
+   *
+   * @throws {BoundsError}                   if the rows are out of range.
+   * @throws {ProtectedSheetOperationError}  if the sheet is protected without `allowDeleteRows`.
+   */
+  deleteRows(row: number, count?: number): void;
+  /** Insert `count` (default 1) empty columns before `col`; see `insertRows`. */
+  insertCols(col: number, count?: number): void;
+  /** Delete `count` (default 1) columns starting at `col`; see `deleteRows`. */
+  deleteCols(col: number, count?: number): void;
+
   // ── Data Validation ───────────────────────────────────────────────────────
   /** Attach a validation rule to the cell at (row, col). */
   setDataValidation(row: number, col: number, rule: DataValidationRule): void;
@@ -259,6 +288,21 @@ export interface SpreadsheetSDK {
   /** Return addresses of all cells that have a data-validation rule (row-major order). */
   getValidationCells(): Address[];
 
+  // ── Hyperlinks ────────────────────────────────────────────────────────────
+  /**
+   * Link the cell at (row, col) to a URL, a `mailto:` address or, with a
+   * leading `#`, a workbook location such as `#Sheet2!A1`. Undoable.
+   *
+   * @throws {ValidationError}                if the target is empty or uses a script scheme.
+   * @throws {ProtectedSheetOperationError}   if the sheet is protected without `allowInsertHyperlinks`.
+   * @throws {ProtectedCellError}             if the sheet is protected and the cell is locked.
+   */
+  setHyperlink(row: number, col: number, hyperlink: CellHyperlink): void;
+  /** Remove the cell's hyperlink; a no-op if it has none. Undoable. */
+  removeHyperlink(row: number, col: number): void;
+  /** Return the link a click on the cell follows (including `=HYPERLINK()` formulas), or `undefined`. */
+  getHyperlink(row: number, col: number): CellHyperlink | undefined;
+
   // ── Sheet Protection ───────────────────────────────────────────────────────
   /**
    * Enable sheet protection. While the sheet is protected, any cell whose
@@ -278,9 +322,34 @@ export interface SpreadsheetSDK {
    * Return `true` if the cell at (row, col) would currently block mutation.
    *
    * A cell is protected when: `isSheetProtected()` is true AND
-   * `cell.style?.locked !== false` (Excel default: all cells are locked).
+   * `cell.style?.locked !== false` (Excel default: all cells are locked)
+   * AND the cell is not inside an open allow-edit range.
    */
   isCellProtected(row: number, col: number): boolean;
+  /**
+   * Add a named range whose cells stay editable while the sheet is
+   * protected, even when locked. With a non-empty `password`, the range is
+   * closed until `unlockAllowEditRange()` is called with it; only a salted
+   * hash of the password is stored. Undoable.
+   *
+   * @throws {ProtectedSheetOperationError} if the sheet is protected.
+   * @throws {SdkError} `INVALID_EDIT_RANGE` if the name is empty or taken.
+   */
+  addAllowEditRange(name: string, range: Range, password?: string): void;
+  /**
+   * Remove an allow-edit range by name (case-insensitive); a no-op if there
+   * is none. Undoable.
+   *
+   * @throws {ProtectedSheetOperationError} if the sheet is protected.
+   */
+  removeAllowEditRange(name: string): void;
+  /** Return the sheet's allow-edit ranges. Passwords are returned as hashes. */
+  getAllowEditRanges(): AllowEditRange[];
+  /**
+   * Open a password-protected allow-edit range for the rest of the session.
+   * Returns `false` if there is no such range or the password is wrong.
+   */
+  unlockAllowEditRange(name: string, password: string): boolean;
   /**
    * Explicitly lock a single cell (sets `style.locked = true`).
    * This change is tracked on the undo stack.
@@ -330,6 +399,42 @@ export interface SpreadsheetSDK {
   clearFreezePanes(): void;
   /** Return the current freeze-pane state, or `null` if no panes are frozen. */
   getFreezePanes(): FreezeState | null;
+
+  // ── Outline ───────────────────────────────────────────────────────────────
+  /**
+   * Group rows `start`–`end` one outline level deeper (Data ▸ Group).
+   * Every outline change below is tracked on the undo stack, together with
+   * the rows/columns it hides or shows.
+   *
+   * @throws {BoundsError}                   if the rows are out of range.
+   * @throws {ProtectedSheetOperationError}  if the sheet is protected without `allowFormatRows`.
+   * @throws {SdkError}                      code `INVALID_OUTLINE` past the eighth outline level.
+   */
+  groupRows(start: number, end: number): void;
+  /** Take rows `start`–`end` out one outline level; see `groupRows`. */
+  ungroupRows(start: number, end: number): void;
+  /** Group columns `start`–`end` one outline level deeper; see `groupRows`. */
+  groupCols(start: number, end: number): void;
+  /** Take columns `start`–`end` out one outline level; see `groupRows`. */
+  ungroupCols(start: number, end: number): void;
+  /**
+   * Collapse the group holding `index` at `level` (default: the deepest group
+   * there). Returns false when there is no such group.
+   */
+  collapseOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean;
+  /** Expand a group; see `collapseOutlineGroup`. Nested collapsed groups stay collapsed. */
+  expandOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean;
+  /** Press outline level button `level` (1–8): deeper groups collapse, shallower ones expand. */
+  showOutlineLevel(axis: OutlineAxis, level: number): void;
+  /** Remove all groups on `axis` (both when omitted), showing what they had collapsed. */
+  clearOutline(axis?: OutlineAxis): void;
+  /** Replace the outline with one built from the sheet's SUBTOTAL() formulas. */
+  autoOutline(): void;
+  /** Return the groups on `axis`, outermost level first. */
+  getOutlineGroups(axis: OutlineAxis): OutlineGroup[];
+  /** Choose whether summary rows sit below (and summary columns right of) their detail. */
+  setOutlineSettings(settings: Partial<OutlineSettings>): void;
+  getOutlineSettings(): OutlineSettings;
   // ── Column Filters ─────────────────────────────────────────────────
   /**
    * Apply a filter to a column.  This change is tracked on the undo stack.
@@ -462,8 +567,12 @@ class SpreadsheetV1 implements SpreadsheetSDK {
   get colCount(): number { return this._ws.colCount; }
   private readonly _unsubscribe: Disposable;
 
-  constructor(name: string, options: Required<SpreadsheetOptions>) {
-    this._ws = new Worksheet(name, options.rows, options.cols);
+  /**
+   * @param source  A sheet name (a standalone Worksheet is created) or an
+   *                existing Worksheet to wrap, e.g. one owned by a Workbook.
+   */
+  constructor(source: string | Worksheet, options: Required<SpreadsheetOptions>) {
+    this._ws = typeof source === 'string' ? new Worksheet(source, options.rows, options.cols) : source;
     this._undo = new SyncUndoStack(options.maxUndoHistory);
 
     // Bridge internal SheetEvents → SdkEvents
@@ -484,8 +593,14 @@ class SpreadsheetV1 implements SpreadsheetSDK {
         case 'col-hidden':
         case 'col-shown':
         case 'sheet-protection-changed':
+        case 'allow-edit-ranges-changed':
+        case 'outline-changed':
         case 'freeze-panes-changed':
         case 'autofilter-range-changed':
+        case 'rows-inserted':
+        case 'rows-deleted':
+        case 'cols-inserted':
+        case 'cols-deleted':
           this._emit('structure-changed', { type: 'structure-changed' });
           break;
         case 'filter-changed':
@@ -520,7 +635,7 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     if (this._ws.isSheetProtected()) {
       const cell = this._ws.getCell({ row, col });
       // Excel default: cells are locked unless explicitly set to false.
-      if (cell?.style?.locked !== false) {
+      if (cell?.style?.locked !== false && !this._ws.isInAllowEditRange({ row, col })) {
         throw new ProtectedCellError(row, col);
       }
     }
@@ -541,6 +656,16 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     }
   }
 
+  /** Allow-edit ranges are fixed while the sheet is protected, as in Excel. */
+  private _guardEditRanges(method: string): void {
+    if (!this._ws.isSheetProtected()) return;
+    throw new ProtectedSheetOperationError(
+      method,
+      'sheetProtection',
+      `SpreadsheetSDK: '${method}' is blocked while the sheet is protected — call removeSheetProtection() first`,
+    );
+  }
+
   private _emit(type: SdkEventType, event: SdkEvent): void {
     const set = this._listeners.get(type);
     if (!set) return;
@@ -775,6 +900,62 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     this._undo.applyAndRecord(this._ws, patch);
   }
 
+  // ── Structural edits ──────────────────────────────────────────────────────
+
+  /**
+   * Validate a band of `count` rows/columns starting at `index`. `limit` is
+   * the highest valid start index (one past the end for inserts).
+   */
+  private _checkBand(axis: 'row' | 'col', index: number, count: number, limit: number): void {
+    if (!Number.isInteger(index) || index < 1 || index > limit) {
+      throw new BoundsError(`${axis} ${index} out of range 1..${limit}`);
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      throw new BoundsError(`${axis} count ${count} must be a positive integer`);
+    }
+  }
+
+  private _applyStructural(operation: string, patch: WorksheetPatch): void {
+    this._tracedWrite(operation, () => this._wrapMutation(
+      () => { this._undo.applyAndRecord(this._ws, patch); },
+      (err) => new PatchError(`${operation} failed: ${(err as Error).message ?? err}`, err),
+    ));
+  }
+
+  insertRows(row: number, count = 1): void {
+    this._guard('insertRows');
+    this._guardSheetOp('allowInsertRows', 'insertRows');
+    this._checkBand('row', row, count, this._ws.rowCount + 1);
+    this._applyStructural('insertRows', { seq: 0, ops: [{ op: 'insertRows', row, count }] });
+  }
+
+  deleteRows(row: number, count = 1): void {
+    this._guard('deleteRows');
+    this._guardSheetOp('allowDeleteRows', 'deleteRows');
+    this._checkBand('row', row, count, this._ws.rowCount);
+    if (row + count - 1 > this._ws.rowCount) {
+      throw new BoundsError(`rows ${row}..${row + count - 1} out of range 1..${this._ws.rowCount}`);
+    }
+    this._applyStructural('deleteRows', { seq: 0, ops: [{ op: 'deleteRows', row, count }] });
+  }
+
+  insertCols(col: number, count = 1): void {
+    this._guard('insertCols');
+    this._guardSheetOp('allowInsertColumns', 'insertCols');
+    this._checkBand('col', col, count, this._ws.colCount + 1);
+    this._applyStructural('insertCols', { seq: 0, ops: [{ op: 'insertCols', col, count }] });
+  }
+
+  deleteCols(col: number, count = 1): void {
+    this._guard('deleteCols');
+    this._guardSheetOp('allowDeleteColumns', 'deleteCols');
+    this._checkBand('col', col, count, this._ws.colCount);
+    if (col + count - 1 > this._ws.colCount) {
+      throw new BoundsError(`cols ${col}..${col + count - 1} out of range 1..${this._ws.colCount}`);
+    }
+    this._applyStructural('deleteCols', { seq: 0, ops: [{ op: 'deleteCols', col, count }] });
+  }
+
   isRowHidden(row: number): boolean {
     this._guard('isRowHidden');
     return this._ws.isRowHidden(row);
@@ -808,6 +989,42 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     return this._ws.getValidationCells();
   }
 
+  // ── Hyperlinks ────────────────────────────────────────────────────────────
+
+  setHyperlink(row: number, col: number, hyperlink: CellHyperlink): void {
+    this._guard('setHyperlink');
+    this._checkBounds(row, col);
+    this._guardSheetOp('allowInsertHyperlinks', 'setHyperlink');
+    this._guardCell(row, col, 'setHyperlink');
+    const error = validateHyperlinkTarget(hyperlink.target);
+    if (error) throw new ValidationError('setHyperlink', row, col, error);
+    this._applyHyperlink(row, col, hyperlink);
+  }
+
+  removeHyperlink(row: number, col: number): void {
+    this._guard('removeHyperlink');
+    this._checkBounds(row, col);
+    this._guardCell(row, col, 'removeHyperlink');
+    if (!this._ws.getCell({ row, col })?.hyperlink) return;
+    this._applyHyperlink(row, col, undefined);
+  }
+
+  getHyperlink(row: number, col: number): CellHyperlink | undefined {
+    this._guard('getHyperlink');
+    this._checkBounds(row, col);
+    return this._ws.getHyperlink({ row, col });
+  }
+
+  private _applyHyperlink(row: number, col: number, hyperlink: CellHyperlink | undefined): void {
+    this._tracedWrite('setHyperlink', () => this._wrapMutation(() => {
+      const patch: WorksheetPatch = {
+        seq: 0,
+        ops: [PatchOps.setHyperlink(row, col, this._ws.getCell({ row, col })?.hyperlink, hyperlink)],
+      };
+      this._undo.applyAndRecord(this._ws, patch);
+    }, (err) => new PatchError(`setHyperlink(${row},${col}) failed: ${(err as Error).message ?? err}`, err)));
+  }
+
   // ── Sheet Protection ───────────────────────────────────────────────────────
 
   setSheetProtection(options: SheetProtectionOptions = {}): void {
@@ -846,7 +1063,43 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     this._checkBounds(row, col);
     if (!this._ws.isSheetProtected()) return false;
     const cell = this._ws.getCell({ row, col });
-    return cell?.style?.locked !== false;
+    return cell?.style?.locked !== false && !this._ws.isInAllowEditRange({ row, col });
+  }
+
+  addAllowEditRange(name: string, range: Range, password?: string): void {
+    this._guard('addAllowEditRange');
+    this._guardEditRanges('addAllowEditRange');
+    this._checkBounds(range.start.row, range.start.col);
+    this._checkBounds(range.end.row, range.end.col);
+    const title = name.trim();
+    if (title.length === 0) {
+      throw new SdkError('SpreadsheetSDK: allow-edit range name cannot be empty', 'INVALID_EDIT_RANGE', 'addAllowEditRange');
+    }
+    if (this._ws.getAllowEditRange(title)) {
+      throw new SdkError(`SpreadsheetSDK: allow-edit range '${title}' already exists`, 'INVALID_EDIT_RANGE', 'addAllowEditRange');
+    }
+    const before = this._ws.getAllowEditRanges();
+    const added: AllowEditRange = { name: title, range, ...(password && { password: createPasswordHash(password) }) };
+    this._undo.applyAndRecord(this._ws, { seq: 0, ops: [PatchOps.setAllowEditRanges(before, [...before, added])] });
+  }
+
+  removeAllowEditRange(name: string): void {
+    this._guard('removeAllowEditRange');
+    this._guardEditRanges('removeAllowEditRange');
+    const before = this._ws.getAllowEditRanges();
+    const after = before.filter(r => r.name.toLowerCase() !== name.toLowerCase());
+    if (after.length === before.length) return;
+    this._undo.applyAndRecord(this._ws, { seq: 0, ops: [PatchOps.setAllowEditRanges(before, after)] });
+  }
+
+  getAllowEditRanges(): AllowEditRange[] {
+    this._guard('getAllowEditRanges');
+    return this._ws.getAllowEditRanges();
+  }
+
+  unlockAllowEditRange(name: string, password: string): boolean {
+    this._guard('unlockAllowEditRange');
+    return this._ws.unlockAllowEditRange(name, password);
   }
 
   lockCell(row: number, col: number): void {
@@ -953,6 +1206,115 @@ class SpreadsheetV1 implements SpreadsheetSDK {
     return this._ws.getFreezePanes();
   }
 
+  // ── Outline ───────────────────────────────────────────────────────────────
+
+  groupRows(start: number, end: number): void {
+    this._guardOutline('row', 'groupRows');
+    this._checkOutlineSpan('row', start, end);
+    this._recordOutline('groupRows', () => this._ws.groupRows(start, end));
+  }
+
+  ungroupRows(start: number, end: number): void {
+    this._guardOutline('row', 'ungroupRows');
+    this._checkOutlineSpan('row', start, end);
+    this._recordOutline('ungroupRows', () => this._ws.ungroupRows(start, end));
+  }
+
+  groupCols(start: number, end: number): void {
+    this._guardOutline('col', 'groupCols');
+    this._checkOutlineSpan('col', start, end);
+    this._recordOutline('groupCols', () => this._ws.groupCols(start, end));
+  }
+
+  ungroupCols(start: number, end: number): void {
+    this._guardOutline('col', 'ungroupCols');
+    this._checkOutlineSpan('col', start, end);
+    this._recordOutline('ungroupCols', () => this._ws.ungroupCols(start, end));
+  }
+
+  collapseOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean {
+    this._guardOutline(axis, 'collapseOutlineGroup');
+    return this._recordOutline('collapseOutlineGroup', () => this._ws.collapseOutlineGroup(axis, index, level));
+  }
+
+  expandOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean {
+    this._guardOutline(axis, 'expandOutlineGroup');
+    return this._recordOutline('expandOutlineGroup', () => this._ws.expandOutlineGroup(axis, index, level));
+  }
+
+  showOutlineLevel(axis: OutlineAxis, level: number): void {
+    this._guardOutline(axis, 'showOutlineLevel');
+    this._recordOutline('showOutlineLevel', () => this._ws.showOutlineLevel(axis, level));
+  }
+
+  clearOutline(axis?: OutlineAxis): void {
+    this._guard('clearOutline');
+    if (axis !== 'col') this._guardSheetOp('allowFormatRows', 'clearOutline');
+    if (axis !== 'row') this._guardSheetOp('allowFormatColumns', 'clearOutline');
+    this._recordOutline('clearOutline', () => this._ws.clearOutline(axis));
+  }
+
+  autoOutline(): void {
+    this._guard('autoOutline');
+    this._guardSheetOp('allowFormatRows', 'autoOutline');
+    this._guardSheetOp('allowFormatColumns', 'autoOutline');
+    this._recordOutline('autoOutline', () => this._ws.autoOutline());
+  }
+
+  getOutlineGroups(axis: OutlineAxis): OutlineGroup[] {
+    this._guard('getOutlineGroups');
+    return this._ws.getOutlineGroups(axis);
+  }
+
+  setOutlineSettings(settings: Partial<OutlineSettings>): void {
+    this._guard('setOutlineSettings');
+    this._recordOutline('setOutlineSettings', () => this._ws.setOutlineSettings(settings));
+  }
+
+  getOutlineSettings(): OutlineSettings {
+    this._guard('getOutlineSettings');
+    return this._ws.getOutlineSettings();
+  }
+
+  /** Outline edits hide and show rows/columns, so they need the matching format permission. */
+  private _guardOutline(axis: OutlineAxis, method: string): void {
+    this._guard(method);
+    this._guardSheetOp(axis === 'row' ? 'allowFormatRows' : 'allowFormatColumns', method);
+  }
+
+  private _checkOutlineSpan(axis: OutlineAxis, start: number, end: number): void {
+    const limit = axis === 'row' ? this._ws.rowCount : this._ws.colCount;
+    for (const index of [start, end]) {
+      if (!Number.isInteger(index) || index < 1 || index > limit) {
+        throw new BoundsError(`${axis} ${index} out of range 1..${limit}`);
+      }
+    }
+  }
+
+  /**
+   * Run an outline edit and record everything it did — the outline change and
+   * each row/column it hid or showed — as one undo entry.
+   */
+  private _recordOutline<T>(operation: string, edit: () => T): T {
+    return this._tracedWrite(operation, () => this._wrapMutation(
+      () => {
+        const recorder = new PatchRecorder(this._ws);
+        recorder.start();
+        let result: T;
+        try {
+          result = edit();
+        } catch (err) {
+          recorder.abort();
+          throw err;
+        }
+        const forward = recorder.stop();
+        if (forward.ops.length > 0) this._undo.recordPreBuilt(forward, invertPatch(forward));
+        return result;
+      },
+      (err) => new SdkError(`SpreadsheetSDK: ${operation} failed: ${(err as Error).message ?? err}`, 'INVALID_OUTLINE', operation),
+    ));
+  }
+
   // ── Column Filters ────────────────────────────────────────────────────────
 
   setFilter(col: number, filter: ColumnFilter): void {
@@ -1261,10 +1623,22 @@ export function createSpreadsheet(
   name: string = 'Sheet1',
   options: SpreadsheetOptions = {},
 ): SpreadsheetSDK {
-  const resolved: Required<SpreadsheetOptions> = {
+  return new SpreadsheetV1(name, resolveSpreadsheetOptions(options));
+}
+
+/** @internal Fill in defaults for unset options (shared with WorkbookSDK). */
+export function resolveSpreadsheetOptions(options: SpreadsheetOptions): Required<SpreadsheetOptions> {
+  return {
     maxUndoHistory: options.maxUndoHistory ?? DEFAULT_OPTIONS.maxUndoHistory,
     rows:           options.rows           ?? DEFAULT_OPTIONS.rows,
     cols:           options.cols           ?? DEFAULT_OPTIONS.cols,
   };
-  return new SpreadsheetV1(name, resolved);
+}
+
+/**
+ * @internal Wrap a Worksheet that something else owns (WorkbookSDK uses this
+ * for its sheets). Disposing the facade does not touch the Worksheet.
+ */
+export function wrapWorksheet(ws: Worksheet, options: Required<SpreadsheetOptions>): SpreadsheetSDK {
+  return new SpreadsheetV1(ws, options);
 }
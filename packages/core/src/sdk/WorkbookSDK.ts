@@ -0,0 +1,513 @@
+/**
+ * WorkbookSDK — public facade for multi-sheet workbooks.
+ *
+ * Wraps a `Workbook` the way `SpreadsheetSDK` wraps a single `Worksheet`:
+ * synchronous, typed errors, `Disposable` event subscriptions, and its own
+ * undo/redo stack for sheet lifecycle operations. Cell edits go through the
+ * per-sheet `SpreadsheetSDK` handles returned by `getSheet()`, which keep
+ * their own undo history.
+ *
+ * Usage:
+ *  ```ts
+ *  import { createWorkbook } from '@cyber-sheet/core/sdk';
+ *
+ *  const book = createWorkbook({ sheets: ['Data', 'Summary'] });
+ *  book.getSheet('Data').setCell(1, 1, 42);
+ *  book.renameSheet('Data', 'Raw Data');   // formulas now read 'Raw Data'!A1
+ *  book.undo();                            // back to Data
+ *  book.dispose();
+ *  ```
+ */
+
+import { Workbook } from '../workbook';
+import type { Worksheet } from '../worksheet';
+import type { Disposable } from '../events';
+import { applyWorkbookPatch } from '../patch/WorkbookPatch';
+import type { WorkbookPatch } from '../patch/WorkbookPatch';
+import { validateSheetName } from '../utils/sheet-reference';
+import { createPasswordHash } from '../utils/password-hash';
+import { resolveSpreadsheetOptions, wrapWorksheet } from './SpreadsheetSDK';
+import type { SpreadsheetSDK, SpreadsheetOptions } from './SpreadsheetSDK';
+import {
+  SdkError,
+  DisposedError,
+  BoundsError,
+  PatchError,
+  SheetNotFoundError,
+  SheetNameError,
+  LastVisibleSheetError,
+} from './errors';
+
+/** All event types emitted by WorkbookSDK. */
+export type WorkbookEventType =
+  | 'sheet-added'
+  | 'sheet-removed'
+  | 'sheet-renamed'
+  | 'sheet-moved'
+  | 'sheet-visibility-changed'
+  | 'sheet-tab-color-changed'
+  | 'active-sheet-changed';
+
+/** Payload emitted for WorkbookSDK events. Indexes are 0-based tab positions. */
+export type WorkbookEvent =
+  | { type: 'sheet-added';              name: string; index: number }
+  | { type: 'sheet-removed';            name: string; index: number }
+  | { type: 'sheet-renamed';            from: string; to: string }
+  | { type: 'sheet-moved';              name: string; from: number; to: number }
+  | { type: 'sheet-visibility-changed'; name: string; hidden: boolean }
+  | { type: 'sheet-tab-color-changed';  name: string; color: string | null }
+  | { type: 'active-sheet-changed';     name: string };
+
+export type WorkbookEventListener = (event: WorkbookEvent) => void;
+
+export type WorkbookOptions = SpreadsheetOptions & {
+  /**
+   * Names of the sheets to create, in tab order.
+   * @default ['Sheet1']
+   */
+  sheets?: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Public interface
+// ---------------------------------------------------------------------------
+
+/**
+ * The stable public contract for a workbook. Sheets are addressed by name
+ * (case-insensitive, like Excel) and tab positions are 0-based.
+ */
+export interface WorkbookSDK {
+  // ── Sheets ────────────────────────────────────────────────────────────────
+  /** Sheet names in tab order, hidden sheets included. */
+  readonly sheetNames: string[];
+  /** Name of the active sheet. */
+  readonly activeSheet: string;
+  /**
+   * Make a sheet the active one.
+   * @throws SdkError (`SHEET_HIDDEN`) if the sheet is hidden.
+   */
+  setActiveSheet(name: string): void;
+  /**
+   * The `SpreadsheetSDK` for a sheet. The same handle is returned until the
+   * sheet is removed, at which point it is disposed.
+   */
+  getSheet(name: string): SpreadsheetSDK;
+
+  // ── Lifecycle (undoable) ──────────────────────────────────────────────────
+  /**
+   * Add an empty sheet. Defaults to the next free "SheetN" name at the end
+   * of the tab strip.
+   */
+  addSheet(name?: string, index?: number): SpreadsheetSDK;
+  /**
+   * Remove a sheet. Formulas and defined names that referenced it become
+   * `#REF!`; `undo()` puts the sheet and those references back.
+   */
+  removeSheet(name: string): void;
+  /** Rename a sheet, rewriting every formula and defined name that refers to it. */
+  renameSheet(name: string, newName: string): void;
+  /** Move a sheet to a new tab position. */
+  moveSheet(name: string, index: number): void;
+  /**
+   * Copy a sheet (cells, formulas, structure, sheet-scoped names) and place
+   * the copy right after it. Defaults to Excel's "Name (2)" naming.
+   */
+  duplicateSheet(name: string, newName?: string): SpreadsheetSDK;
+  /** Hide a sheet's tab. At least one sheet must stay visible. */
+  hideSheet(name: string): void;
+  unhideSheet(name: string): void;
+  isSheetHidden(name: string): boolean;
+  /** Set a tab colour (any CSS colour string), or null for the default. */
+  setTabColor(name: string, color: string | null): void;
+  getTabColor(name: string): string | null;
+
+  // ── Protection ────────────────────────────────────────────────────────────
+  /**
+   * Protect the workbook structure. While protected, adding, removing,
+   * renaming, moving, copying, hiding and unhiding sheets throw
+   * `ProtectedSheetOperationError`. A non-empty password is stored as a
+   * salted hash; an empty one sets no password. Not undoable.
+   */
+  protectWorkbook(options?: { password?: string; lockWindows?: boolean }): void;
+  /**
+   * Remove workbook protection. Returns false, leaving the workbook
+   * protected, if the password does not match.
+   */
+  unprotectWorkbook(password?: string): boolean;
+  isWorkbookProtected(): boolean;
+
+  // ── Patch / Undo ──────────────────────────────────────────────────────────
+  /**
+   * Apply a workbook patch and return its inverse. Not recorded on the undo
+   * stack, mirroring `SpreadsheetSDK.applyPatch()`.
+   */
+  applyPatch(patch: WorkbookPatch): WorkbookPatch;
+  /** Undo the last sheet lifecycle operation. Returns false if there is none. */
+  undo(): boolean;
+  /** Redo the last undone sheet lifecycle operation. Returns false if there is none. */
+  redo(): boolean;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+
+  // ── Events ────────────────────────────────────────────────────────────────
+  /**
+   * Subscribe to workbook events. Returns a `Disposable` — call `dispose()`
+   * to unsubscribe. Events are dispatched synchronously.
+   */
+  on(event: WorkbookEventType, listener: WorkbookEventListener): Disposable;
+
+  // ── Lifecycle ─────────────────────────────────────────────────────────────
+  /**
+   * Dispose the workbook and every sheet handle it returned. After this,
+   * all further method calls throw `DisposedError`.
+   */
+  dispose(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Internal implementation
+// ---------------------------------------------------------------------------
+
+interface UndoEntry {
+  forward: WorkbookPatch;
+  inverse: WorkbookPatch;
+}
+
+class WorkbookV1 implements WorkbookSDK {
+  /** Exposed only for testing infra — not part of the public interface. */
+  readonly _wb = new Workbook();
+  private readonly _options: Required<SpreadsheetOptions>;
+  private readonly _handles = new Map<Worksheet, SpreadsheetSDK>();
+  private readonly _listeners = new Map<WorkbookEventType, Set<WorkbookEventListener>>();
+  private _undoStack: UndoEntry[] = [];
+  private _redoStack: UndoEntry[] = [];
+  private _disposed = false;
+  private readonly _unsubscribe: Disposable;
+
+  constructor(sheets: string[], options: Required<SpreadsheetOptions>) {
+    this._options = options;
+    for (const name of sheets) {
+      this._checkNewName('createWorkbook', name);
+      this._wb.addSheet(name, options.rows, options.cols);
+    }
+
+    // Bridge internal Workbook events → WorkbookEvent
+    this._unsubscribe = this._wb.on((e) => {
+      switch (e.type) {
+        case 'sheet-added':
+          this._emit({ type: 'sheet-added', name: e.name, index: e.index });
+          break;
+        case 'sheet-removed': {
+          const handle = this._handles.get(e.removed.sheet);
+          this._handles.delete(e.removed.sheet);
+          handle?.dispose();
+          this._emit({ type: 'sheet-removed', name: e.name, index: e.index });
+          break;
+        }
+        case 'sheet-renamed':
+          this._emit({ type: 'sheet-renamed', from: e.from, to: e.to });
+          break;
+        case 'sheet-moved':
+          this._emit({ type: 'sheet-moved', name: e.name, from: e.from, to: e.to });
+          break;
+        case 'sheet-visibility-changed':
+          this._emit({ type: 'sheet-visibility-changed', name: e.name, hidden: e.after !== 'visible' });
+          break;
+        case 'sheet-tab-color-changed':
+          this._emit({ type: 'sheet-tab-color-changed', name: e.name, color: e.after });
+          break;
+        case 'active-sheet-changed':
+          this._emit({ type: 'active-sheet-changed', name: e.after });
+          break;
+      }
+    });
+  }
+
+  private _guard(method: string): void {
+    if (this._disposed) throw new DisposedError(method, 'WorkbookSDK');
+  }
+
+  private _require(operation: string, name: string): Worksheet {
+    const ws = this._wb.findSheet(name);
+    if (!ws) throw new SheetNotFoundError(operation, name);
+    return ws;
+  }
+
+  /** Throws `SheetNameError` unless `name` is valid and free (`self` may keep its own name). */
+  private _checkNewName(operation: string, name: string, self?: Worksheet): void {
+    const problem = validateSheetName(name);
+    if (problem) throw new SheetNameError(operation, name, problem);
+    const existing = this._wb.findSheet(name);
+    if (existing && existing !== self) {
+      throw new SheetNameError(operation, name, 'a sheet with this name already exists', true);
+    }
+  }
+
+  private _checkIndex(index: number, limit: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > limit) {
+      throw new BoundsError(`sheet index ${index} out of range 0..${limit}`);
+    }
+  }
+
+  /** Throws `LastVisibleSheetError` if `ws` is the only visible sheet. */
+  private _checkNotLastVisible(operation: string, ws: Worksheet): void {
+    if (ws.getVisibility() !== 'visible') return;
+    const visible = this._wb.getSheetNames().filter(n => this._wb.getSheet(n)!.getVisibility() === 'visible');
+    if (visible.length === 1) throw new LastVisibleSheetError(operation, ws.name);
+  }
+
+  private _emit(event: WorkbookEvent): void {
+    const set = this._listeners.get(event.type);
+    if (!set) return;
+    for (const listener of set) {
+      try { listener(event); } catch (err) {
+        console.error('[WorkbookSDK] Uncaught error in event listener:', err);
+      }
+    }
+  }
+
+  private _apply(operation: string, patch: WorkbookPatch): WorkbookPatch {
+    try {
+      return applyWorkbookPatch(this._wb, patch);
+    } catch (err) {
+      if (err instanceof SdkError) throw err;
+      throw new PatchError(`${operation} failed: ${(err as Error).message ?? err}`, err);
+    }
+  }
+
+  /** Apply `patch` and record it for undo; any redo history is discarded. */
+  private _record(operation: string, patch: WorkbookPatch): void {
+    const inverse = this._apply(operation, patch);
+    this._undoStack.push({ forward: patch, inverse });
+    if (this._undoStack.length > this._options.maxUndoHistory) this._undoStack.shift();
+    this._redoStack = [];
+  }
+
+  private _handle(ws: Worksheet): SpreadsheetSDK {
+    let handle = this._handles.get(ws);
+    if (!handle) {
+      handle = wrapWorksheet(ws, this._options);
+      this._handles.set(ws, handle);
+    }
+    return handle;
+  }
+
+  // ── Sheets ────────────────────────────────────────────────────────────────
+
+  get sheetNames(): string[] {
+    this._guard('sheetNames');
+    return this._wb.getSheetNames();
+  }
+
+  get activeSheet(): string {
+    this._guard('activeSheet');
+    return this._wb.activeSheet!.name;
+  }
+
+  setActiveSheet(name: string): void {
+    this._guard('setActiveSheet');
+    const ws = this._require('setActiveSheet', name);
+    if (ws.getVisibility() !== 'visible') {
+      throw new SdkError(`WorkbookSDK.setActiveSheet(): '${ws.name}' is hidden`, 'SHEET_HIDDEN', 'setActiveSheet');
+    }
+    this._wb.activeSheetName = ws.name;
+  }
+
+  getSheet(name: string): SpreadsheetSDK {
+    this._guard('getSheet');
+    return this._handle(this._require('getSheet', name));
+  }
+
+  // ── Lifecycle (undoable) ──────────────────────────────────────────────────
+
+  addSheet(name?: string, index?: number): SpreadsheetSDK {
+    this._guard('addSheet');
+    const sheetName = name ?? this._nextSheetName();
+    this._checkNewName('addSheet', sheetName);
+    const count = this._wb.getSheetNames().length;
+    if (index !== undefined) this._checkIndex(index, count);
+    this._record('addSheet', {
+      seq: 0,
+      ops: [{ op: 'addSheet', name: sheetName, index: index ?? count, rows: this._options.rows, cols: this._options.cols }],
+    });
+    return this._handle(this._wb.getSheet(sheetName)!);
+  }
+
+  removeSheet(name: string): void {
+    this._guard('removeSheet');
+    const ws = this._require('removeSheet', name);
+    this._checkNotLastVisible('removeSheet', ws);
+    this._record('removeSheet', { seq: 0, ops: [{ op: 'removeSheet', name: ws.name }] });
+  }
+
+  renameSheet(name: string, newName: string): void {
+    this._guard('renameSheet');
+    const ws = this._require('renameSheet', name);
+    this._checkNewName('renameSheet', newName, ws);
+    if (ws.name === newName) return;
+    this._record('renameSheet', { seq: 0, ops: [{ op: 'renameSheet', from: ws.name, to: newName }] });
+  }
+
+  moveSheet(name: string, index: number): void {
+    this._guard('moveSheet');
+    const ws = this._require('moveSheet', name);
+    this._checkIndex(index, this._wb.getSheetNames().length - 1);
+    const from = this._wb.getSheetIndex(ws.name);
+    if (from === index) return;
+    this._record('moveSheet', { seq: 0, ops: [{ op: 'moveSheet', name: ws.name, from, to: index }] });
+  }
+
+  duplicateSheet(name: string, newName?: string): SpreadsheetSDK {
+    this._guard('duplicateSheet');
+    const ws = this._require('duplicateSheet', name);
+    if (newName !== undefined) this._checkNewName('duplicateSheet', newName);
+    const copyName = newName ?? this._wb.copyNameFor(ws.name);
+    const index = this._wb.getSheetIndex(ws.name) + 1;
+    this._record('duplicateSheet', { seq: 0, ops: [{ op: 'duplicateSheet', name: ws.name, newName: copyName, index }] });
+    return this._handle(this._wb.getSheet(copyName)!);
+  }
+
+  hideSheet(name: string): void {
+    this._guard('hideSheet');
+    const ws = this._require('hideSheet', name);
+    if (ws.getVisibility() !== 'visible') return;
+    this._checkNotLastVisible('hideSheet', ws);
+    this._record('hideSheet', {
+      seq: 0,
+      ops: [{ op: 'setSheetVisibility', name: ws.name, before: 'visible', after: 'hidden' }],
+    });
+  }
+
+  unhideSheet(name: string): void {
+    this._guard('unhideSheet');
+    const ws = this._require('unhideSheet', name);
+    const before = ws.getVisibility();
+    if (before === 'visible') return;
+    this._record('unhideSheet', {
+      seq: 0,
+      ops: [{ op: 'setSheetVisibility', name: ws.name, before, after: 'visible' }],
+    });
+  }
+
+  isSheetHidden(name: string): boolean {
+    this._guard('isSheetHidden');
+    return this._require('isSheetHidden', name).getVisibility() !== 'visible';
+  }
+
+  setTabColor(name: string, color: string | null): void {
+    this._guard('setTabColor');
+    const ws = this._require('setTabColor', name);
+    const before = ws.getTabColor();
+    if (before === color) return;
+    this._record('setTabColor', { seq: 0, ops: [{ op: 'setTabColor', name: ws.name, before, after: color }] });
+  }
+
+  getTabColor(name: string): string | null {
+    this._guard('getTabColor');
+    return this._require('getTabColor', name).getTabColor();
+  }
+
+  // ── Protection ────────────────────────────────────────────────────────────
+
+  protectWorkbook(options: { password?: string; lockWindows?: boolean } = {}): void {
+    this._guard('protectWorkbook');
+    this._wb.protectWorkbook({
+      lockStructure: true,
+      ...(options.lockWindows !== undefined && { lockWindows: options.lockWindows }),
+      ...(options.password && { password: createPasswordHash(options.password) }),
+    });
+  }
+
+  unprotectWorkbook(password?: string): boolean {
+    this._guard('unprotectWorkbook');
+    return this._wb.unprotectWorkbook(password);
+  }
+
+  isWorkbookProtected(): boolean {
+    this._guard('isWorkbookProtected');
+    return this._wb.isWorkbookProtected();
+  }
+
+  /** First free "SheetN", counting from the number of sheets plus one. */
+  private _nextSheetName(): string {
+    for (let n = this._wb.getSheetNames().length + 1; ; n++) {
+      if (!this._wb.findSheet(`Sheet${n}`)) return `Sheet${n}`;
+    }
+  }
+
+  // ── Patch / Undo ──────────────────────────────────────────────────────────
+
+  applyPatch(patch: WorkbookPatch): WorkbookPatch {
+    this._guard('applyPatch');
+    return this._apply('applyPatch', patch);
+  }
+
+  undo(): boolean {
+    this._guard('undo');
+    const entry = this._undoStack.pop();
+    if (!entry) return false;
+    // The inverse of the inverse is a complete forward patch for redo
+    entry.forward = this._apply('undo', entry.inverse);
+    this._redoStack.push(entry);
+    return true;
+  }
+
+  redo(): boolean {
+    this._guard('redo');
+    const entry = this._redoStack.pop();
+    if (!entry) return false;
+    entry.inverse = this._apply('redo', entry.forward);
+    this._undoStack.push(entry);
+    return true;
+  }
+
+  get canUndo(): boolean { return this._undoStack.length > 0; }
+  get canRedo(): boolean { return this._redoStack.length > 0; }
+
+  // ── Events ────────────────────────────────────────────────────────────────
+
+  on(eventType: WorkbookEventType, listener: WorkbookEventListener): Disposable {
+    this._guard('on');
+    if (!this._listeners.has(eventType)) {
+      this._listeners.set(eventType, new Set());
+    }
+    this._listeners.get(eventType)!.add(listener);
+    return {
+      dispose: () => {
+        this._listeners.get(eventType)?.delete(listener);
+      },
+    };
+  }
+
+  // ── Lifecycle ─────────────────────────────────────────────────────────────
+
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+    this._unsubscribe.dispose();
+    for (const handle of this._handles.values()) handle.dispose();
+    this._handles.clear();
+    this._listeners.clear();
+    this._undoStack = [];
+    this._redoStack = [];
+    this._wb.dispose();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a new `WorkbookSDK` with the given sheets (one "Sheet1" by default).
+ *
+ * `rows` / `cols` apply to every sheet, including ones added later;
+ * `maxUndoHistory` bounds both the workbook's undo stack and each sheet's.
+ *
+ * @throws SheetNameError if a sheet name is invalid or repeated.
+ */
+export function createWorkbook(options: WorkbookOptions = {}): WorkbookSDK {
+  const sheets = options.sheets ?? ['Sheet1'];
+  if (sheets.length === 0) throw new BoundsError('a workbook needs at least one sheet');
+  return new WorkbookV1(sheets, resolveSpreadsheetOptions(options));
+}
@@ -27,7 +27,11 @@
  *   │                                    NOTHING_TO_REDO)
  *   ├── PivotSourceError                (INVALID_PIVOT_SOURCE) ← Phase 25
  *   ├── PivotFieldError                 (INVALID_PIVOT_FIELD)  ← Phase 25
- *   └── EmptyPivotSourceError           (EMPTY_PIVOT_SOURCE)   ← Phase 25
+ *   ├── EmptyPivotSourceError           (EMPTY_PIVOT_SOURCE)   ← Phase 25
+ *   ├── SheetNotFoundError              (SHEET_NOT_FOUND)
+ *   ├── SheetNameError                  (INVALID_SHEET_NAME |
+ *   │                                    DUPLICATE_SHEET_NAME)
+ *   └── LastVisibleSheetError           (LAST_VISIBLE_SHEET)
  */
 
 // ── Base class ─────────────────────────────────────────────────────────────
@@ -168,20 +172,27 @@ export class ProtectedCellError extends SdkError {
 }
 
 /**
- * Thrown when a sheet-level operation is blocked by the active protection
- * options (e.g. sorting while `allowSort` is not set).
+ * Thrown when an operation is blocked by protection: a sheet-level
+ * operation whose flag is not set in the sheet's protection options (e.g.
+ * sorting while `allowSort` is not set), a change to allow-edit ranges on a
+ * protected sheet, or a change to the sheet structure of a protected
+ * workbook.
  * @code SHEET_OP_BLOCKED
  */
 export class ProtectedSheetOperationError extends SdkError {
-  /** The `SheetProtectionOptions` key that would permit this operation. */
+  /**
+   * The `SheetProtectionOptions` key that would permit this operation, or
+   * the protection that has to be removed instead: `'sheetProtection'` or
+   * the workbook's `'lockStructure'`.
+   */
   readonly flag: string;
 
-  constructor(operation: string, flag: string) {
-    super(
-      `SpreadsheetSDK: '${operation}' is blocked by sheet protection — set '${flag}: true' in setSheetProtection() options or call removeSheetProtection() first`,
-      'SHEET_OP_BLOCKED',
-      operation,
-    );
+  constructor(
+    operation: string,
+    flag: string,
+    message = `SpreadsheetSDK: '${operation}' is blocked by sheet protection — set '${flag}: true' in setSheetProtection() options or call removeSheetProtection() first`,
+  ) {
+    super(message, 'SHEET_OP_BLOCKED', operation);
     this.name = 'ProtectedSheetOperationError';
     this.flag = flag;
   }
@@ -310,3 +321,64 @@ export class EmptyPivotSourceError extends SdkError {
     this.name = 'EmptyPivotSourceError';
   }
 }
+
+// ── Workbook sheets ───────────────────────────────────────────────────────
+
+/**
+ * Thrown when a workbook operation names a sheet that does not exist.
+ * @code SHEET_NOT_FOUND
+ */
+export class SheetNotFoundError extends SdkError {
+  /** The sheet name that could not be resolved. */
+  readonly sheet: string;
+
+  constructor(operation: string, sheet: string) {
+    super(`WorkbookSDK.${operation}(): sheet '${sheet}' not found`, 'SHEET_NOT_FOUND', operation);
+    this.name  = 'SheetNotFoundError';
+    this.sheet = sheet;
+  }
+}
+
+/**
+ * Thrown when a new sheet name breaks Excel's naming rules (empty, longer
+ * than 31 characters, contains `\ / ? * [ ] :`, quoted at either end) or is
+ * already used by another sheet (names are compared case-insensitively).
+ * @code INVALID_SHEET_NAME | DUPLICATE_SHEET_NAME
+ */
+export class SheetNameError extends SdkError {
+  /** The rejected name. */
+  readonly sheet: string;
+  /** Human-readable reason (e.g. 'Sheet name cannot exceed 31 characters'). */
+  readonly detail: string;
+
+  constructor(operation: string, sheet: string, detail: string, duplicate = false) {
+    super(
+      `WorkbookSDK.${operation}(): invalid sheet name '${sheet}': ${detail}`,
+      duplicate ? 'DUPLICATE_SHEET_NAME' : 'INVALID_SHEET_NAME',
+      operation,
+    );
+    this.name   = 'SheetNameError';
+    this.sheet  = sheet;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Thrown when removing or hiding a sheet would leave the workbook with no
+ * visible sheet.
+ * @code LAST_VISIBLE_SHEET
+ */
+export class LastVisibleSheetError extends SdkError {
+  /** The sheet that could not be removed or hidden. */
+  readonly sheet: string;
+
+  constructor(operation: string, sheet: string) {
+    super(
+      `WorkbookSDK.${operation}(): '${sheet}' is the last visible sheet`,
+      'LAST_VISIBLE_SHEET',
+      operation,
+    );
+    this.name  = 'LastVisibleSheetError';
+    this.sheet = sheet;
+  }
+}
@@ -16,8 +16,16 @@ export {
   ValidationError, PatchRecorderError, UndoError,
   // Phase 25 — pivot error classes
   PivotSourceError, PivotFieldError, EmptyPivotSourceError,
+  // Workbook sheet error classes
+  SheetNotFoundError, SheetNameError, LastVisibleSheetError,
 } from './SpreadsheetSDK';
 
+// Multi-sheet workbook facade
+export type { WorkbookSDK, WorkbookOptions, WorkbookEventType, WorkbookEvent, WorkbookEventListener } from './WorkbookSDK';
+export { createWorkbook } from './WorkbookSDK';
+export type { WorkbookPatch, WorkbookOp } from '../patch/WorkbookPatch';
+export type { SheetVisibility } from '../types';
+
 // Phase 25 — pivot types
 export type { PivotDefinition, PivotValueSpec, PivotGrid, PivotGridRow, PivotAggregator } from './pivot';
 export { buildPivot, pivotGridToValues } from './pivot';
@@ -17,6 +17,9 @@
  *   ~~   → literal tilde
  *   All other chars are literals (no special regex meaning).
  *
+ * Regex mode (`useRegex: true`) bypasses the wildcard translation and
+ * compiles `what` as a JavaScript RegExp; `lookAt` and `matchCase` still apply.
+ *
  * Phase 1 scope: values, formulas, comments; row-major forward search.
  * Phase 2 scope: backward / column-major search; replace.
  *
@@ -97,6 +100,24 @@ export function wildcardToRegex(
   return new RegExp(result, flags);
 }
 
+/**
+ * Compile a user-supplied regular expression for search.
+ *
+ * `lookAt: 'whole'` wraps the pattern in a non-capturing group before
+ * anchoring so that alternations (`a|b`) are anchored as a unit and capture
+ * group numbering is unchanged.
+ *
+ * @throws SyntaxError when `pattern` is not a valid regular expression.
+ */
+export function compileSearchRegex(
+  pattern: string,
+  options: { matchCase?: boolean; lookAt?: 'part' | 'whole'; global?: boolean }
+): RegExp {
+  const source = options.lookAt === 'whole' ? `^(?:${pattern})$` : pattern;
+  const flags = (options.global ? 'g' : '') + (options.matchCase ? '' : 'i');
+  return new RegExp(source, flags);
+}
+
 // ---------------------------------------------------------------------------
 // 3. High-level matcher factory
 // ---------------------------------------------------------------------------
@@ -109,14 +130,19 @@ export function wildcardToRegex(
  * Rules:
  *  - Empty `what` → always returns false (Excel: empty pattern matches nothing).
  *  - All patterns go through `wildcardToRegex` so that tilde-escapes and
- *    special-char leakage are handled uniformly.
+ *    special-char leakage are handled uniformly — unless `useRegex` is set,
+ *    in which case `what` is compiled as-is by `compileSearchRegex`.
+ *
+ * @throws SyntaxError when `useRegex` is set and `what` is not a valid pattern.
  */
 export function buildMatcher(options: SearchOptions): (text: string) => boolean {
-  const { what, lookAt = 'part', matchCase = false } = options;
+  const { what, lookAt = 'part', matchCase = false, useRegex = false } = options;
 
   if (what === '') return () => false;
 
-  const regex = wildcardToRegex(what, { matchCase, lookAt });
+  const regex = useRegex
+    ? compileSearchRegex(what, { matchCase, lookAt })
+    : wildcardToRegex(what, { matchCase, lookAt });
   return (text: string): boolean => regex.test(text);
 }
 
@@ -10,7 +10,7 @@
 import type { Address } from '../types';
 import type { Worksheet } from '../worksheet';
 import type { SearchOptions, SearchLookIn, SearchLookAt, SearchOrder } from '../types/search-types';
-import { findAll, replaceAll } from './index';
+import { compileSearchRegex, wildcardToRegex } from '../search-engine';
 
 export interface FindResult {
   address: Address;
@@ -25,6 +25,7 @@ export interface FindServiceOptions {
   lookAt: SearchLookAt;
   matchCase: boolean;
   searchOrder: SearchOrder;
+  useRegex?: boolean; // Default: false (wildcards)
   searchWithin?: 'sheet' | 'workbook'; // Default: sheet
   searchBy?: 'rows' | 'columns'; // Default: rows
 }
@@ -48,18 +49,17 @@ export class FindService {
       lookAt: options?.lookAt || 'part',
       matchCase: options?.matchCase ?? false,
       searchOrder: options?.searchOrder || 'rows',
+      useRegex: options?.useRegex ?? false,
     };
 
-    // Use the low-level findAll function
-    const results = findAll(this.worksheet, searchOptions);
-
-    // Convert to FindResult format
-    this.lastResults = results.map(result => ({
-      address: result.address,
-      value: this.getCellValue(result.address),
-      formula: this.getCellFormula(result.address),
-      match: result.match,
-    }));
+    // Worksheet.findAll applies the options; the pattern recovers the matched text
+    const pattern = this.compilePattern(searchOptions);
+    this.lastResults = this.worksheet.findAll(searchOptions).map(address => {
+      const value = this.getCellValue(address);
+      const formula = this.getCellFormula(address);
+      const source = searchOptions.lookIn === 'formulas' && formula ? formula : value;
+      return { address, value, formula, match: pattern.exec(source)?.[0] ?? source };
+    });
 
     this.currentIndex = this.lastResults.length > 0 ? 0 : -1;
     return this.lastResults;
@@ -129,7 +129,7 @@ export class FindService {
     } else {
       const currentValue = String(cell.value || '');
       const newValue = currentValue.replace(current.match, replacement);
-      this.worksheet.setCell(current.address, newValue);
+      this.worksheet.setCellValue(current.address, newValue);
     }
 
     // Remove this result from the list
@@ -151,10 +151,24 @@ export class FindService {
       lookAt: options?.lookAt || 'part',
       matchCase: options?.matchCase ?? false,
       searchOrder: options?.searchOrder || 'rows',
+      useRegex: options?.useRegex ?? false,
     };
 
-    // Use the low-level replaceAll function
-    const count = replaceAll(this.worksheet, query, replacement, searchOptions);
+    let count = 0;
+    if (query !== '') {
+      const pattern = this.compilePattern(searchOptions, searchOptions.lookAt === 'part');
+      for (const address of this.worksheet.findAll(searchOptions)) {
+        const formula = this.getCellFormula(address);
+        const source = searchOptions.lookIn === 'formulas' && formula ? formula : this.getCellValue(address);
+        // Regex mode expands $1 etc.; otherwise the replacement is literal text
+        const newValue = searchOptions.useRegex
+          ? source.replace(pattern, replacement)
+          : source.replace(pattern, () => replacement);
+        if (newValue === source) continue;
+        this.worksheet.setCellValue(address, newValue);
+        count++;
+      }
+    }
 
     // Clear results after replace all
     this.lastResults = [];
@@ -171,6 +185,16 @@ export class FindService {
     this.currentIndex = -1;
   }
 
+  /**
+   * Helper: Compile the search text as Worksheet.findAll interprets it
+   */
+  private compilePattern(options: SearchOptions, global = false): RegExp {
+    const { what, matchCase, lookAt, useRegex } = options;
+    if (useRegex) return compileSearchRegex(what, { matchCase, lookAt, global });
+    const pattern = wildcardToRegex(what, { matchCase, lookAt });
+    return global ? new RegExp(pattern.source, pattern.flags + 'g') : pattern;
+  }
+
   /**
    * Helper: Get cell value as string
    */
@@ -11,7 +11,8 @@
  *   3. SDK MUTATIONS — replace functions write back via applyPatch / setCell,
  *      so every replacement goes through the undo stack and emits events.
  *   4. DETERMINISTIC — same state + same args → same result, always.
- *   5. LITERAL-SAFE — '.' '(' ')' '$' ':' are always plain chars, not regex.
+ *   5. LITERAL-SAFE — '.' '(' ')' '$' ':' are plain chars, not regex, unless
+ *      the caller opts into regex mode with `useRegex: true`.
  *
  * ─── Phase 16 (formula-only) ────────────────────────────────────────────────
  *   findInFormulas(sheet, query, opts?) → FormulaSearchResult[]
@@ -23,6 +24,7 @@
  *   replaceAll(sheet, query, repl, opts?, range?) → number
  *   Full-sheet search across values / formulas / comments.
  *   replaceAll batches all mutations into ONE applyPatch call → single undo entry.
+ *   Both accept `useRegex: true`; replaceAll then expands `$1`…`$n` / `$<name>`.
  *
  * ─── Phase 18 (Go To Special + Search Navigator) ────────────────────────────
  *   findSpecial(sheet, options, range?) → Address[]
@@ -41,7 +43,12 @@ import type { Worksheet } from '../worksheet';
 import type { SearchOptions, SearchRange, SpecialCellsOptions } from '../types/search-types';
 import type { WorksheetPatch } from '../patch/WorksheetPatch';
 import type { SyncUndoStack } from '../sdk/SyncUndoStack';
-import { compareRowMajor, escapeRegexLiteral, cellValueToString } from '../search-engine';
+import {
+  compareRowMajor,
+  escapeRegexLiteral,
+  cellValueToString,
+  compileSearchRegex,
+} from '../search-engine';
 
 // Re-export standard search option types so callers import from one place.
 export type { SearchOptions, SearchRange, SpecialCellsOptions, SpecialCellValue } from '../types/search-types';
@@ -360,6 +367,16 @@ export interface ReplaceAllOptions {
    * and replacing it requires a different mutation path (not yet defined).
    */
   lookIn?: 'values' | 'formulas';
+
+  /**
+   * Treat `query` as a regular expression.
+   * Default: `false` (literal text with Excel wildcards).
+   *
+   * In regex mode `replacement` is a substitution template: `$1`…`$n` insert
+   * capture groups, `$<name>` a named group, `$&` the whole match and `$$` a
+   * literal dollar sign.
+   */
+  useRegex?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -380,6 +397,24 @@ function getCellSourceText(
   return cellValueToString(cell.value);
 }
 
+/**
+ * Regex-mode counterpart of `applyFormulaReplacement`.
+ *
+ * `'part'` replaces every match; `'whole'` rewrites the entire text through
+ * the anchored pattern, so capture groups are still available to the
+ * template.  `replacement` is passed to `String.prototype.replace` verbatim.
+ */
+function applyRegexReplacement(
+  source: string,
+  pattern: string,
+  replacement: string,
+  matchCase: boolean,
+  lookAt: 'part' | 'whole',
+): string {
+  const re = compileSearchRegex(pattern, { matchCase, lookAt, global: lookAt === 'part' });
+  return source.replace(re, replacement);
+}
+
 // ---------------------------------------------------------------------------
 // Phase 17 public API
 // ---------------------------------------------------------------------------
@@ -392,7 +427,7 @@ function getCellSourceText(
  * with the cell's current value and optional formula string.  The full
  * `SearchOptions` surface is forwarded directly — including `lookIn`,
  * `lookAt`, `matchCase`, `searchOrder`, `searchDirection`, `includeHidden`,
- * and Excel wildcard support (`*`, `?`, `~`).
+ * Excel wildcard support (`*`, `?`, `~`) and regex mode (`useRegex`).
  *
  * Results are returned in the order determined by `options.searchOrder`
  * (row-major by default).
@@ -403,6 +438,7 @@ function getCellSourceText(
  * @returns       Array of `SheetSearchResult` — empty when nothing matches.
  *
  * @throws `DisposedError` propagated if `sheet` is disposed.
+ * @throws `SyntaxError`   if `options.useRegex` is set and `what` is not a valid pattern.
  *
  * @example
  * ```ts
@@ -419,6 +455,9 @@ function getCellSourceText(
  *   { what: 'error', matchCase: false },
  *   { start: { row: 1, col: 1 }, end: { row: 50, col: 10 } },
  * );
+ *
+ * // Regex mode: invoice numbers anywhere in a cell
+ * const invoices = findAll(sheet, { what: 'INV-\\d{4}', useRegex: true });
  * ```
  */
 export function findAll(
@@ -467,14 +506,17 @@ export function findAll(
  *   All events are still synchronous.
  *
  * @param sheet        An active SpreadsheetSDK instance.
- * @param query        Literal string to find.  Empty string is a no-op → 0.
- * @param replacement  Replacement string.  `$` is treated as a plain char.
+ * @param query        String to find — literal, or a pattern when
+ *                     `options.useRegex` is set.  Empty string is a no-op → 0.
+ * @param replacement  Replacement string.  `$` is a plain char unless
+ *                     `options.useRegex` is set (then `$1` etc. expand).
  * @param options      Optional match configuration.
  * @param range        Optional sub-range to constrain the operation.
  * @returns            Number of cells actually modified (0 if nothing changed).
  *
  * @throws `DisposedError` propagated if `sheet` is disposed.
  * @throws `PatchError`    propagated if the batch patch application fails.
+ * @throws `SyntaxError`   if `options.useRegex` is set and `query` is not a valid pattern.
  *
  * @example
  * ```ts
@@ -490,6 +532,9 @@ export function findAll(
  * );
  *
  * sheet.undo(); // reverses ALL n replacements in one step
+ *
+ * // Regex mode: "Doe, Jane" → "Jane Doe"
+ * replaceAll(sheet, '^(\\w+), (\\w+)$', '$2 $1', { useRegex: true });
  * ```
  */
 export function replaceAll(
@@ -505,6 +550,7 @@ export function replaceAll(
     matchCase = false,
     lookAt    = 'part',
     lookIn    = 'values',
+    useRegex  = false,
   } = options ?? {};
 
   const internal = sheet as InternalSheet;
@@ -514,7 +560,7 @@ export function replaceAll(
 
   // ── 1. Find all matching addresses via Worksheet.findAll ─────────────────
   // Delegate wildcard/case/hidden-row handling to the existing engine.
-  const addresses = ws.findAll({ what: query, matchCase, lookAt, lookIn }, range);
+  const addresses = ws.findAll({ what: query, matchCase, lookAt, lookIn, useRegex }, range);
   if (addresses.length === 0) return 0;
 
   // ── 2. Build ops for cells that actually change ───────────────────────────
@@ -531,7 +577,9 @@ export function replaceAll(
     const source = getCellSourceText(cell, lookIn);
     if (source === null) continue;
 
-    const newValue = applyFormulaReplacement(source, query, replacement, matchCase, lookAt);
+    const newValue = useRegex
+      ? applyRegexReplacement(source, query, replacement, matchCase, lookAt)
+      : applyFormulaReplacement(source, query, replacement, matchCase, lookAt);
     if (newValue === source) continue; // no actual change — skip
 
     ops.push({ op: 'setCellValue', row, col, before: null, after: newValue });
@@ -103,6 +103,7 @@ export function createMonoCell(): Cell {
     icon: undefined,
     spillSource: undefined,
     spilledFrom: undefined,
+    hyperlink: undefined,
   };
 }
 
@@ -241,7 +242,8 @@ export class CellStoreLegacy implements ICellStore {
  * Hard-asserts col < COL_MULT in development / test environments.
  */
 export function packKey(row: number, col: number): number {
-  if (process.env['NODE_ENV'] !== 'production') {
+  // @ts-ignore - process.env is available in Node.js and bundlers (Vite/Webpack)
+  if (typeof process === 'undefined' || process.env?.NODE_ENV !== 'production') {
     if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || col < 0 || col >= COL_MULT) {
       throw new RangeError(
         `packKey: invalid address row=${row} col=${col}. col must be 0–${MAX_COL_INDEX}.`
@@ -306,6 +306,8 @@ export type DataValidationRule = {
 export type SheetProtectionOptions = {
   /** Optional password hash (opaque string; not validated by kernel). */
   password?: string;
+  /** Salted hash of the sheet password, as Excel writes it. Carried through files; not checked. */
+  passwordHash?: PasswordHash;
   /** Allow the user to format cells while the sheet is protected. Default: false. */
   allowFormatCells?: boolean;
   /** Allow the user to format columns. Default: false. */
@@ -340,6 +342,44 @@ export type SheetProtectionOptions = {
   selectUnlockedCells?: boolean;
 };
 
+/**
+ * A salted, iterated password hash in the form Excel stores protection
+ * passwords: the base64 hash and salt, the hash algorithm and how many
+ * times the hash was re-applied. See utils/password-hash.
+ */
+export type PasswordHash = {
+  algorithmName: string;
+  hashValue: string;
+  saltValue: string;
+  spinCount: number;
+};
+
+/**
+ * Workbook-level protection (Excel's "Protect Workbook"). While the
+ * structure is locked, sheets cannot be added, removed, renamed, moved,
+ * copied, hidden or unhidden.
+ */
+export type WorkbookProtectionOptions = {
+  /** Lock the sheet structure. Default: true. */
+  lockStructure?: boolean;
+  /** Lock window size and position. Kept for files; there are no windows to lock. */
+  lockWindows?: boolean;
+  /** Hash of the password unprotectWorkbook() asks for. */
+  password?: PasswordHash;
+};
+
+/**
+ * A range whose locked cells stay editable while the sheet is protected
+ * (Excel's "Allow Edit Ranges"). A range with a password opens only after
+ * Worksheet.unlockAllowEditRange() was given that password.
+ */
+export type AllowEditRange = {
+  /** Title, unique on its sheet (case-insensitive). */
+  name: string;
+  range: Range;
+  password?: PasswordHash;
+};
+
 /**
  * Freeze-pane state for the sheet view.
  *
@@ -355,6 +395,45 @@ export type FreezeState = {
   cols: number;
 };
 
+/** Rows (`'row'`) or columns (`'col'`) of an outline. */
+export type OutlineAxis = 'row' | 'col';
+
+/** Where summary rows and columns sit relative to their detail (Excel's outlinePr). */
+export type OutlineSettings = {
+  /** Summary rows sit below their detail rows (default true). */
+  summaryRowsBelow: boolean;
+  /** Summary columns sit right of their detail columns (default true). */
+  summaryColumnsRight: boolean;
+};
+
+/**
+ * One outline group: a run of consecutive rows (or columns) whose outline
+ * level is `level` or deeper. Groups at level 2 and below nest inside the
+ * group one level up.
+ */
+export type OutlineGroup = {
+  start: number;
+  end: number;
+  /** 1 for the outermost groups, up to 7 */
+  level: number;
+  collapsed: boolean;
+};
+
+/** The outline of one axis as plain data, for patches and snapshots. */
+export type OutlineAxisState = {
+  /** [index, level] pairs for every grouped row/column */
+  levels: Array<[number, number]>;
+  /** [start, level] of every collapsed group */
+  collapsed: Array<[number, number]>;
+};
+
+/** A sheet's whole outline: row and column groups plus summary placement. */
+export type OutlineState = {
+  rows: OutlineAxisState;
+  cols: OutlineAxisState;
+  settings: OutlineSettings;
+};
+
 export type CellComment = {
   /** Unique identifier for the comment */
   id: string;
@@ -394,6 +473,19 @@ export type CellIcon = {
   metadata?: Record<string, unknown>;
 };
 
+/**
+ * Cell hyperlink
+ */
+export type CellHyperlink = {
+  /**
+   * Link target: a URL (`https://…`, `mailto:…`) or, with a leading `#`, a
+   * location in the workbook (`#Sheet2!A1`, `#'My Sheet'!B4`, `#SalesTotal`)
+   */
+  target: string;
+  /** Text shown when hovering the link */
+  tooltip?: string;
+};
+
 export type Cell = {
   /** 
    * Cell value - supports plain values and rich text
@@ -407,6 +499,8 @@ export type Cell = {
   comments?: CellComment[];
   /** Cell icon overlay */
   icon?: CellIcon;
+  /** Link opened when the cell is clicked */
+  hyperlink?: CellHyperlink;
   /** Spill metadata: if this cell is the source of a spilled array */
   spillSource?: {
     /** Dimensions of spilled array [rows, cols] */
@@ -482,18 +576,25 @@ export type CellEvent = {
   address: Address;
   /** Cell bounds in viewport coordinates */
   bounds: { x: number; y: number; width: number; height: number };
-  /** Original browser event */
-  originalEvent: MouseEvent | PointerEvent | TouchEvent;
+  /** Original browser event; null where the renderer keeps no reference (hover) */
+  originalEvent: MouseEvent | PointerEvent | TouchEvent | null;
 };
 
 export type SheetEvents =
-  | { type: 'cell-changed'; address: Address; cell: Cell; previousValue?: Cell['value'] } // Phase 30b: previousValue for no-op detection
-  | { type: 'style-changed'; address: Address; style: CellStyle | undefined }
+  | {
+      type: 'cell-changed'; address: Address; cell: Cell;
+      previousValue?: Cell['value']; // Phase 30b: previousValue for no-op detection
+      /** Set when the edit entered or removed a formula: the cell's formula (null if none) and value before it. */
+      formulaChange?: { previousFormula: string | null; previousValue: Cell['value'] };
+    }
+  | { type: 'style-changed'; address: Address; style: CellStyle | undefined; previousStyle?: CellStyle }
   | { type: 'spill-source-changed'; address: Address; before: Cell['spillSource']; after: Cell['spillSource'] }
   | { type: 'spill-from-changed'; address: Address; before: Cell['spilledFrom']; after: Cell['spilledFrom'] }
   | { type: 'spill-batch-changed'; changes: Array<{ address: Address; before: { spillSource?: Cell['spillSource']; spilledFrom?: Cell['spilledFrom'] }; after: { spillSource?: Cell['spillSource']; spilledFrom?: Cell['spilledFrom'] } }> }
   | { type: 'filter-changed'; col: number; filter: ColumnFilter | null; before: ColumnFilter | null }
   | { type: 'autofilter-range-changed'; before: AutoFilterRange | null; after: AutoFilterRange | null }
+  /** A table was added (`before` null), removed (`after` null) or changed */
+  | { type: 'table-changed'; name: string; before: import('./TableStore').TableDefinition | null; after: import('./TableStore').TableDefinition | null }
   | { type: 'sort-applied'; startRow: number; startCol: number; endRow: number; endCol: number; keys: SortKey[] }
   | { type: 'sheet-mutated' }
   | { type: 'cell-click'; event: CellEvent }
@@ -505,6 +606,8 @@ export type SheetEvents =
   | { type: 'comment-updated'; address: Address; commentId: string; comment: CellComment }
   | { type: 'comment-deleted'; address: Address; commentId: string }
   | { type: 'icon-changed'; address: Address; icon: CellIcon | undefined }
+  | { type: 'hyperlink-changed'; address: Address; before: CellHyperlink | undefined; after: CellHyperlink | undefined }
+  | { type: 'hyperlink-click'; event: CellEvent; hyperlink: CellHyperlink }
   | { type: 'merge-added'; region: MergedRegion }
   | { type: 'merge-removed'; region: MergedRegion }
   | { type: 'row-hidden'; row: number }
@@ -512,9 +615,35 @@ export type SheetEvents =
   | { type: 'col-hidden'; col: number }
   | { type: 'col-shown'; col: number }
   | { type: 'sheet-protection-changed'; before: SheetProtectionOptions | null; after: SheetProtectionOptions | null }
+  | { type: 'allow-edit-ranges-changed'; before: AllowEditRange[]; after: AllowEditRange[] }
   | { type: 'freeze-panes-changed'; before: FreezeState | null; after: FreezeState | null }
+  /** Groups, collapsed groups or summary settings changed; hiding travels as row/col events */
+  | { type: 'outline-changed'; before: OutlineState; after: OutlineState }
+  /** `restored` is set when the rows are an undone delete being put back */
+  | { type: 'rows-inserted'; index: number; count: number; restored?: import('./worksheet').DeletedBand }
+  | { type: 'rows-deleted'; index: number; count: number; deleted: import('./worksheet').DeletedBand }
+  | { type: 'cols-inserted'; index: number; count: number; restored?: import('./worksheet').DeletedBand }
+  | { type: 'cols-deleted'; index: number; count: number; deleted: import('./worksheet').DeletedBand }
   | { type: 'cycle-detected'; cycles: import('./dag/DependencyGraph').CycleDiagnostic[] };
 
+/**
+ * Sheet tab visibility. `veryHidden` sheets (as in Excel) can only be shown
+ * again programmatically, never from the UI's unhide list.
+ */
+export type SheetVisibility = 'visible' | 'hidden' | 'veryHidden';
+
+/** Sheet lifecycle events emitted by Workbook. Indexes are 0-based tab positions. */
+export type WorkbookEvents =
+  /** `restored` is set when the sheet is an undone removal being put back */
+  | { type: 'sheet-added'; name: string; index: number; restored?: import('./workbook').RemovedSheet }
+  | { type: 'sheet-removed'; name: string; index: number; removed: import('./workbook').RemovedSheet }
+  | { type: 'sheet-renamed'; from: string; to: string }
+  | { type: 'sheet-moved'; name: string; from: number; to: number }
+  | { type: 'sheet-visibility-changed'; name: string; before: SheetVisibility; after: SheetVisibility }
+  | { type: 'sheet-tab-color-changed'; name: string; before: string | null; after: string | null }
+  | { type: 'active-sheet-changed'; before: string | undefined; after: string }
+  | { type: 'workbook-protection-changed'; before: WorkbookProtectionOptions | null; after: WorkbookProtectionOptions | null };
+
 export interface IFormulaEngine {
   // Evaluate value for a cell. Implementations should handle dependency tracking internally.
   evaluate(address: Address, getCell: (addr: Address) => Cell | undefined): CellValue;
@@ -44,6 +44,11 @@ export interface FormulaContext {
   lambdaContext?: Map<string, FormulaValue>;
   namedLambdas?: Map<string, LambdaFunction>;
   recursionDepth?: number;
+  /**
+   * Read precedent formula cells' stored values instead of re-evaluating
+   * them. Set by recalculation, which visits cells in topological order.
+   */
+  useCachedValues?: boolean;
 }
 
 /**
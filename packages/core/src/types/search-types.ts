@@ -87,6 +87,17 @@ export interface SearchOptions {
    */
   matchCase?: boolean;
 
+  /**
+   * Treat `what` as a regular expression instead of a wildcard pattern
+   * 
+   * - false: `*`, `?` and `~` are Excel wildcards, everything else is literal (default)
+   * - true: `what` is a JavaScript RegExp source (e.g. "^INV-\d{4}$");
+   *   `lookAt` and `matchCase` still apply. Invalid patterns throw a SyntaxError.
+   * 
+   * Not available in Excel's Find dialog; mirrors the REGEX* worksheet functions.
+   */
+  useRegex?: boolean;
+
   /**
    * Search order (iteration pattern)
    * 
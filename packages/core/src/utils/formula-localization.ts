@@ -0,0 +1,375 @@
+/**
+ * formula-localization.ts
+ *
+ * Translates formulas between the canonical (en-US) syntax they are stored in
+ * and the syntax users read and type in their locale: localized function
+ * names, `;` argument separators and `,` decimal separators. Array constants
+ * get the locale's decimal and column separators (`{1,5.2;3.4}` in de-DE);
+ * `;` separates their rows everywhere.
+ *
+ * String literals, quoted sheet names and structured references are copied
+ * through untouched.
+ */
+
+import { LOCALES, type LocaleConfig } from '../I18nManager';
+
+/** A locale code ('de-DE') or a full locale configuration */
+export type FormulaLocale = string | LocaleConfig;
+
+/**
+ * Separators used when reading and writing formulas in a locale
+ */
+export interface FormulaSyntax {
+  decimalSeparator: '.' | ',';
+  argumentSeparator: ',' | ';';
+  /** Separates the columns of an array constant */
+  arrayColumnSeparator: ',' | '.';
+}
+
+const CANONICAL_SYNTAX: FormulaSyntax = { decimalSeparator: '.', argumentSeparator: ',', arrayColumnSeparator: ',' };
+
+/**
+ * Localized function names keyed by language, canonical name → local name.
+ * Functions missing from a table keep their English name.
+ */
+const FUNCTION_NAMES: Record<string, Record<string, string>> = {
+  de: {
+    SUM: 'SUMME', AVERAGE: 'MITTELWERT', COUNT: 'ANZAHL', COUNTA: 'ANZAHL2',
+    COUNTIF: 'ZÄHLENWENN', COUNTIFS: 'ZÄHLENWENNS', SUMIF: 'SUMMEWENN', SUMIFS: 'SUMMEWENNS',
+    AVERAGEIF: 'MITTELWERTWENN', AVERAGEIFS: 'MITTELWERTWENNS', SUMPRODUCT: 'SUMMENPRODUKT',
+    PRODUCT: 'PRODUKT', ROUND: 'RUNDEN', ROUNDUP: 'AUFRUNDEN', ROUNDDOWN: 'ABRUNDEN',
+    SQRT: 'WURZEL', POWER: 'POTENZ', MOD: 'REST', INT: 'GANZZAHL', TRUNC: 'KÜRZEN',
+    CEILING: 'OBERGRENZE', FLOOR: 'UNTERGRENZE', RAND: 'ZUFALLSZAHL', RANDBETWEEN: 'ZUFALLSBEREICH',
+    IF: 'WENN', IFS: 'WENNS', IFERROR: 'WENNFEHLER', IFNA: 'WENNNV', SWITCH: 'ERSTERWERT',
+    AND: 'UND', OR: 'ODER', NOT: 'NICHT', XOR: 'XODER', TRUE: 'WAHR', FALSE: 'FALSCH',
+    VLOOKUP: 'SVERWEIS', HLOOKUP: 'WVERWEIS', XLOOKUP: 'XVERWEIS', MATCH: 'VERGLEICH',
+    XMATCH: 'XVERGLEICH', CHOOSE: 'WAHL', OFFSET: 'BEREICH.VERSCHIEBEN', INDIRECT: 'INDIREKT',
+    ROW: 'ZEILE', COLUMN: 'SPALTE', ROWS: 'ZEILEN', COLUMNS: 'SPALTEN', NA: 'NV',
+    LEFT: 'LINKS', RIGHT: 'RECHTS', MID: 'TEIL', LEN: 'LÄNGE', UPPER: 'GROSS', LOWER: 'KLEIN',
+    PROPER: 'GROSS2', TRIM: 'GLÄTTEN', CONCATENATE: 'VERKETTEN', CONCAT: 'TEXTKETTE',
+    TEXTJOIN: 'TEXTVERKETTEN', SUBSTITUTE: 'WECHSELN', FIND: 'FINDEN', SEARCH: 'SUCHEN',
+    VALUE: 'WERT', REPT: 'WIEDERHOLEN',
+    TODAY: 'HEUTE', NOW: 'JETZT', DATE: 'DATUM', TIME: 'ZEIT', YEAR: 'JAHR', MONTH: 'MONAT',
+    DAY: 'TAG', HOUR: 'STUNDE', SECOND: 'SEKUNDE', WEEKDAY: 'WOCHENTAG', EOMONTH: 'MONATSENDE',
+    EDATE: 'EDATUM', DATEVALUE: 'DATWERT', NETWORKDAYS: 'NETTOARBEITSTAGE',
+    ISBLANK: 'ISTLEER', ISERROR: 'ISTFEHLER', ISNUMBER: 'ISTZAHL', ISTEXT: 'ISTTEXT', ISNA: 'ISTNV',
+    STDEV: 'STABW', VAR: 'VARIANZ', LARGE: 'KGRÖSSTE', SMALL: 'KKLEINSTE', RANK: 'RANG',
+    SORT: 'SORTIEREN', UNIQUE: 'EINDEUTIG', SEQUENCE: 'SEQUENZ',
+    PMT: 'RMZ', PV: 'BW', FV: 'ZW', NPV: 'NBW', IRR: 'IKV',
+  },
+  fr: {
+    SUM: 'SOMME', AVERAGE: 'MOYENNE', COUNT: 'NB', COUNTA: 'NBVAL',
+    COUNTIF: 'NB.SI', COUNTIFS: 'NB.SI.ENS', SUMIF: 'SOMME.SI', SUMIFS: 'SOMME.SI.ENS',
+    AVERAGEIF: 'MOYENNE.SI', AVERAGEIFS: 'MOYENNE.SI.ENS', SUMPRODUCT: 'SOMMEPROD',
+    PRODUCT: 'PRODUIT', ROUND: 'ARRONDI', ROUNDUP: 'ARRONDI.SUP', ROUNDDOWN: 'ARRONDI.INF',
+    SQRT: 'RACINE', POWER: 'PUISSANCE', INT: 'ENT', TRUNC: 'TRONQUE',
+    CEILING: 'PLAFOND', FLOOR: 'PLANCHER', RAND: 'ALEA', RANDBETWEEN: 'ALEA.ENTRE.BORNES',
+    IF: 'SI', IFS: 'SI.CONDITIONS', IFERROR: 'SIERREUR', IFNA: 'SI.NON.DISP', SWITCH: 'SI.MULTIPLE',
+    AND: 'ET', OR: 'OU', NOT: 'NON', XOR: 'OUX', TRUE: 'VRAI', FALSE: 'FAUX',
+    VLOOKUP: 'RECHERCHEV', HLOOKUP: 'RECHERCHEH', XLOOKUP: 'RECHERCHEX', MATCH: 'EQUIV',
+    XMATCH: 'EQUIVX', CHOOSE: 'CHOISIR', OFFSET: 'DECALER',
+    ROW: 'LIGNE', COLUMN: 'COLONNE', ROWS: 'LIGNES', COLUMNS: 'COLONNES',
+    LEFT: 'GAUCHE', RIGHT: 'DROITE', MID: 'STXT', LEN: 'NBCAR', UPPER: 'MAJUSCULE',
+    LOWER: 'MINUSCULE', PROPER: 'NOMPROPRE', TRIM: 'SUPPRESPACE', CONCATENATE: 'CONCATENER',
+    TEXTJOIN: 'JOINDRE.TEXTE', SUBSTITUTE: 'SUBSTITUE', FIND: 'TROUVE', SEARCH: 'CHERCHE',
+    TEXT: 'TEXTE', VALUE: 'CNUM',
+    TODAY: 'AUJOURDHUI', NOW: 'MAINTENANT', TIME: 'TEMPS', YEAR: 'ANNEE', MONTH: 'MOIS',
+    DAY: 'JOUR', HOUR: 'HEURE', SECOND: 'SECONDE', WEEKDAY: 'JOURSEM', EOMONTH: 'FIN.MOIS',
+    EDATE: 'MOIS.DECALER', DATEVALUE: 'DATEVAL', NETWORKDAYS: 'NB.JOURS.OUVRES',
+    ISBLANK: 'ESTVIDE', ISERROR: 'ESTERREUR', ISNUMBER: 'ESTNUM', ISTEXT: 'ESTTEXTE', ISNA: 'ESTNA',
+    MEDIAN: 'MEDIANE', STDEV: 'ECARTYPE', LARGE: 'GRANDE.VALEUR', SMALL: 'PETITE.VALEUR',
+    FILTER: 'FILTRE', SORT: 'TRIER',
+    PMT: 'VPM', PV: 'VA', FV: 'VC', NPV: 'VAN', IRR: 'TRI',
+  },
+  es: {
+    SUM: 'SUMA', AVERAGE: 'PROMEDIO', COUNT: 'CONTAR', COUNTA: 'CONTARA',
+    COUNTIF: 'CONTAR.SI', COUNTIFS: 'CONTAR.SI.CONJUNTO', SUMIF: 'SUMAR.SI', SUMIFS: 'SUMAR.SI.CONJUNTO',
+    AVERAGEIF: 'PROMEDIO.SI', AVERAGEIFS: 'PROMEDIO.SI.CONJUNTO', SUMPRODUCT: 'SUMAPRODUCTO',
+    PRODUCT: 'PRODUCTO', ROUND: 'REDONDEAR', ROUNDUP: 'REDONDEAR.MAS', ROUNDDOWN: 'REDONDEAR.MENOS',
+    SQRT: 'RAIZ', POWER: 'POTENCIA', MOD: 'RESIDUO', INT: 'ENTERO', TRUNC: 'TRUNCAR',
+    CEILING: 'MULTIPLO.SUPERIOR', FLOOR: 'MULTIPLO.INFERIOR', RAND: 'ALEATORIO',
+    RANDBETWEEN: 'ALEATORIO.ENTRE',
+    IF: 'SI', IFS: 'SI.CONJUNTO', IFERROR: 'SI.ERROR', IFNA: 'SI.ND', SWITCH: 'CAMBIAR',
+    AND: 'Y', OR: 'O', NOT: 'NO', XOR: 'XO', TRUE: 'VERDADERO', FALSE: 'FALSO',
+    VLOOKUP: 'BUSCARV', HLOOKUP: 'BUSCARH', XLOOKUP: 'BUSCARX', INDEX: 'INDICE', MATCH: 'COINCIDIR',
+    XMATCH: 'COINCIDIRX', CHOOSE: 'ELEGIR', OFFSET: 'DESREF', INDIRECT: 'INDIRECTO',
+    ROW: 'FILA', COLUMN: 'COLUMNA', ROWS: 'FILAS', COLUMNS: 'COLUMNAS', NA: 'NOD',
+    LEFT: 'IZQUIERDA', RIGHT: 'DERECHA', MID: 'EXTRAE', LEN: 'LARGO', UPPER: 'MAYUSC',
+    LOWER: 'MINUSC', PROPER: 'NOMPROPIO', TRIM: 'ESPACIOS', CONCATENATE: 'CONCATENAR',
+    TEXTJOIN: 'UNIRCADENAS', SUBSTITUTE: 'SUSTITUIR', FIND: 'ENCONTRAR', SEARCH: 'HALLAR',
+    TEXT: 'TEXTO', VALUE: 'VALOR', REPT: 'REPETIR',
+    TODAY: 'HOY', NOW: 'AHORA', DATE: 'FECHA', TIME: 'NSHORA', YEAR: 'AÑO', MONTH: 'MES',
+    DAY: 'DIA', HOUR: 'HORA', MINUTE: 'MINUTO', SECOND: 'SEGUNDO', WEEKDAY: 'DIASEM',
+    EOMONTH: 'FIN.MES', EDATE: 'FECHA.MES', DATEVALUE: 'FECHANUMERO', NETWORKDAYS: 'DIAS.LAB',
+    ISBLANK: 'ESBLANCO', ISERROR: 'ESERROR', ISNUMBER: 'ESNUMERO', ISTEXT: 'ESTEXTO', ISNA: 'ESNOD',
+    MEDIAN: 'MEDIANA', STDEV: 'DESVEST', LARGE: 'K.ESIMO.MAYOR', SMALL: 'K.ESIMO.MENOR',
+    RANK: 'JERARQUIA', FILTER: 'FILTRAR', SORT: 'ORDENAR', UNIQUE: 'UNICOS', SEQUENCE: 'SECUENCIA',
+    PMT: 'PAGO', FV: 'VF', NPV: 'VNA', IRR: 'TIR',
+  },
+  ru: {
+    SUM: 'СУММ', AVERAGE: 'СРЗНАЧ', MIN: 'МИН', MAX: 'МАКС', COUNT: 'СЧЁТ', COUNTA: 'СЧЁТЗ',
+    COUNTIF: 'СЧЁТЕСЛИ', SUMIF: 'СУММЕСЛИ', SUMPRODUCT: 'СУММПРОИЗВ', PRODUCT: 'ПРОИЗВЕД',
+    ROUND: 'ОКРУГЛ', SQRT: 'КОРЕНЬ', POWER: 'СТЕПЕНЬ', MOD: 'ОСТАТ', INT: 'ЦЕЛОЕ',
+    IF: 'ЕСЛИ', IFERROR: 'ЕСЛИОШИБКА', AND: 'И', OR: 'ИЛИ', NOT: 'НЕ', TRUE: 'ИСТИНА', FALSE: 'ЛОЖЬ',
+    VLOOKUP: 'ВПР', HLOOKUP: 'ГПР', INDEX: 'ИНДЕКС', MATCH: 'ПОИСКПОЗ', ROW: 'СТРОКА', COLUMN: 'СТОЛБЕЦ',
+    LEFT: 'ЛЕВСИМВ', RIGHT: 'ПРАВСИМВ', MID: 'ПСТР', LEN: 'ДЛСТР', UPPER: 'ПРОПИСН', LOWER: 'СТРОЧН',
+    TRIM: 'СЖПРОБЕЛЫ', CONCATENATE: 'СЦЕПИТЬ', SUBSTITUTE: 'ПОДСТАВИТЬ', FIND: 'НАЙТИ',
+    SEARCH: 'ПОИСК', TEXT: 'ТЕКСТ', VALUE: 'ЗНАЧЕН',
+    TODAY: 'СЕГОДНЯ', NOW: 'ТДАТА', DATE: 'ДАТА', YEAR: 'ГОД', MONTH: 'МЕСЯЦ', DAY: 'ДЕНЬ',
+    ISBLANK: 'ЕПУСТО', ISERROR: 'ЕОШИБКА', ISNUMBER: 'ЕЧИСЛО', MEDIAN: 'МЕДИАНА',
+  },
+};
+
+/** Reverse tables (local name → canonical name), built on first use */
+const reverseNames = new Map<string, Map<string, string>>();
+
+function resolveLocale(locale: FormulaLocale): LocaleConfig | undefined {
+  return typeof locale === 'string' ? LOCALES[locale] : locale;
+}
+
+/** Name table for a locale code, falling back to its language ('de-AT' → 'de') */
+function nameTableKey(locale: FormulaLocale): string | undefined {
+  const code = typeof locale === 'string' ? locale : locale.code;
+  if (FUNCTION_NAMES[code]) return code;
+  const language = code.split('-')[0];
+  return FUNCTION_NAMES[language] ? language : undefined;
+}
+
+function reverseTable(key: string): Map<string, string> {
+  let table = reverseNames.get(key);
+  if (!table) {
+    table = new Map(Object.entries(FUNCTION_NAMES[key]).map(([canonical, local]) => [local, canonical]));
+    reverseNames.set(key, table);
+  }
+  return table;
+}
+
+/**
+ * Register (or override) localized function names for a locale code or a
+ * bare language ('de' covers de-DE, de-AT and de-CH)
+ */
+export function registerFunctionNames(locale: string, names: Record<string, string>): void {
+  const table = FUNCTION_NAMES[locale] ?? (FUNCTION_NAMES[locale] = {});
+  for (const [canonical, local] of Object.entries(names)) {
+    table[canonical.toUpperCase()] = local.toUpperCase();
+  }
+  reverseNames.delete(locale);
+}
+
+/**
+ * Formula separators for a locale. Locales with a decimal comma separate
+ * arguments with `;` and array columns with `.`, as Excel does; everything
+ * else uses en-US syntax.
+ */
+export function getFormulaSyntax(locale: FormulaLocale): FormulaSyntax {
+  return resolveLocale(locale)?.decimalSeparator === ','
+    ? { decimalSeparator: ',', argumentSeparator: ';', arrayColumnSeparator: '.' }
+    : CANONICAL_SYNTAX;
+}
+
+/**
+ * Localized name of a function (SUM → SUMME in de-DE); unknown names are
+ * returned unchanged
+ */
+export function localizeFunctionName(name: string, locale: FormulaLocale): string {
+  const key = nameTableKey(locale);
+  const upper = name.toUpperCase();
+  return (key && FUNCTION_NAMES[key][upper]) || name;
+}
+
+/**
+ * Canonical name of a localized function (SUMME → SUM in de-DE); names that
+ * are not localized are returned unchanged
+ */
+export function delocalizeFunctionName(name: string, locale: FormulaLocale): string {
+  const key = nameTableKey(locale);
+  const upper = name.toUpperCase();
+  return (key && reverseTable(key).get(upper)) || name;
+}
+
+/**
+ * Translate a canonical formula into a locale's syntax
+ *
+ * @example
+ * localizeFormula('=SUM(A1,1.5)', 'de-DE') // '=SUMME(A1;1,5)'
+ */
+export function localizeFormula(formula: string, locale: FormulaLocale): string {
+  return translateFormula(formula, CANONICAL_SYNTAX, getFormulaSyntax(locale), name => localizeFunctionName(name, locale), !!nameTableKey(locale));
+}
+
+/**
+ * Translate a formula typed in a locale's syntax back into canonical form
+ *
+ * @example
+ * delocalizeFormula('=SUMME(A1;1,5)', 'de-DE') // '=SUM(A1,1.5)'
+ */
+export function delocalizeFormula(formula: string, locale: FormulaLocale): string {
+  return translateFormula(formula, getFormulaSyntax(locale), CANONICAL_SYNTAX, name => delocalizeFunctionName(name, locale), !!nameTableKey(locale));
+}
+
+// Latin-1/Latin Extended and Cyrillic letters cover the localized names above
+const IDENTIFIER_START = /[A-Za-z_$\u00C0-\u024F\u0400-\u04FF]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.$\u00C0-\u024F\u0400-\u04FF]/;
+// Inside array constants `.` can be a column separator, so it never joins a name
+const ARRAY_NAME_PART = /[A-Za-z\u00C0-\u024F\u0400-\u04FF]/;
+const DIGIT = /[0-9]/;
+
+function translateFormula(
+  formula: string,
+  from: FormulaSyntax,
+  to: FormulaSyntax,
+  translateName: (name: string) => string,
+  hasNames: boolean
+): string {
+  const sameSyntax = from.decimalSeparator === to.decimalSeparator && from.argumentSeparator === to.argumentSeparator
+    && from.arrayColumnSeparator === to.arrayColumnSeparator;
+  if (sameSyntax && !hasNames) return formula;
+
+  let out = '';
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // String literals and quoted sheet names, with doubled-quote escapes
+    if (char === '"' || char === "'") {
+      const start = i++;
+      while (i < formula.length) {
+        if (formula[i] === char) {
+          if (formula[i + 1] === char) {
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        i++;
+      }
+      out += formula.slice(start, i);
+      continue;
+    }
+
+    // Structured references stay canonical
+    if (char === '[') {
+      const start = i;
+      let depth = 0;
+      while (i < formula.length) {
+        const c = formula[i++];
+        if (c === '[') depth++;
+        else if (c === ']' && --depth === 0) break;
+        else if (c === '"') {
+          while (i < formula.length && formula[i++] !== '"');
+        }
+      }
+      out += formula.slice(start, i);
+      continue;
+    }
+
+    if (char === '{') {
+      const start = i;
+      while (i < formula.length) {
+        const c = formula[i++];
+        if (c === '}') break;
+        if (c === '"') {
+          while (i < formula.length && formula[i++] !== '"');
+        }
+      }
+      out += translateArrayConstant(formula.slice(start, i), from, to, translateName);
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      const start = i;
+      while (i < formula.length && IDENTIFIER_PART.test(formula[i])) i++;
+      const name = formula.slice(start, i);
+
+      // Function calls are translated, and so are the bare TRUE/FALSE
+      // constants; anything else (references, names, sheets) is copied
+      let j = i;
+      while (j < formula.length && /\s/.test(formula[j])) j++;
+      const upper = name.toUpperCase();
+      const translated = translateName(upper);
+      const isCall = formula[j] === '(';
+      const isBoolean = formula[i] !== '!' && [upper, translated].some(n => n === 'TRUE' || n === 'FALSE');
+
+      out += (isCall || isBoolean) && translated !== upper ? translated : name;
+      continue;
+    }
+
+    const startsNumber = DIGIT.test(char)
+      || (char === from.decimalSeparator && DIGIT.test(formula[i + 1] ?? ''));
+    if (startsNumber) {
+      while (i < formula.length) {
+        const c = formula[i];
+        if (DIGIT.test(c)) {
+          out += c;
+          i++;
+        } else if (c === from.decimalSeparator && DIGIT.test(formula[i + 1] ?? '')) {
+          out += to.decimalSeparator;
+          i++;
+        } else if ((c === 'e' || c === 'E') && /[0-9+-]/.test(formula[i + 1] ?? '')) {
+          out += c + formula[i + 1];
+          i += 2;
+        } else {
+          break;
+        }
+      }
+      continue;
+    }
+
+    out += char === from.argumentSeparator ? to.argumentSeparator : char;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Translate an array constant (`{1.5,TRUE;"a",#N/A}`, braces included):
+ * decimal and column separators and the boolean constants change, strings,
+ * errors and the `;` row separator are copied
+ */
+function translateArrayConstant(
+  array: string,
+  from: FormulaSyntax,
+  to: FormulaSyntax,
+  translateName: (name: string) => string
+): string {
+  let out = '';
+  let i = 0;
+
+  while (i < array.length) {
+    const char = array[i];
+
+    if (char === '"') {
+      const start = i++;
+      while (i < array.length && array[i++] !== '"');
+      out += array.slice(start, i);
+      continue;
+    }
+
+    if (ARRAY_NAME_PART.test(char)) {
+      const start = i;
+      while (i < array.length && ARRAY_NAME_PART.test(array[i])) i++;
+      const name = array.slice(start, i);
+      const upper = name.toUpperCase();
+      const translated = translateName(upper);
+      // Error literals (#N/A) are copied; only TRUE/FALSE are names here
+      const isBoolean = array[start - 1] !== '#' && [upper, translated].some(n => n === 'TRUE' || n === 'FALSE');
+      out += isBoolean ? translated : name;
+      continue;
+    }
+
+    // A syntax never uses one character for both, so no lookahead is needed
+    if (char === from.decimalSeparator) {
+      out += to.decimalSeparator;
+    } else if (char === from.arrayColumnSeparator) {
+      out += to.arrayColumnSeparator;
+    } else {
+      out += char;
+    }
+    i++;
+  }
+
+  return out;
+}
@@ -8,6 +8,8 @@
  */
 
 import type { Address } from '../types';
+import { findSheetQualifiedRefs } from './sheet-reference';
+import { replaceStructuredReferences } from './structured-references';
 
 /**
  * Cell reference pattern (A1 notation):
@@ -31,26 +33,16 @@ const A1_ROW_REF = /(\$?\d+):(\$?\d+)/g;
  */
 const R1C1_CELL_REF = /R(\[?-?\d+\]?)?C(\[?-?\d+\]?)?/gi;
 
-/**
- * Sheet-qualified reference:
- * - Sheet1!A1
- * - 'Sheet Name'!B2:C3
- */
-const SHEET_QUALIFIED = /(?:'[^']*'|[\w]+)!/g;
-
-/**
- * Structured reference (Excel Tables):
- * - Table1[Column1]
- * - Table1[[#Headers],[Column]]
- */
-const STRUCTURED_REF = /[\w]+\[(?:[^\]]+)\]/g;
-
 /**
  * Named range pattern (simple word not a function):
- * - Must not be followed by '(' (to exclude functions)
- * - At least 2 chars to avoid single-letter column refs
+ * - Must not be followed by '(' (to exclude functions) or '!' (sheet prefix)
+ * - Must not touch a '$' anchor (the "A" in $A$1 / A$1)
+ * - May contain periods (Tax.Rate), as Excel names can
  */
-const NAMED_RANGE = /\b([A-Z][A-Z0-9_]*)\b(?!\()/gi;
+const NAMED_RANGE = /(?<![\w$.])([A-Z_][A-Z0-9_.]*)(?![\w$.(!])/gi;
+
+/** Identifiers that look like names but are cell references or literals. */
+const NOT_A_NAME = /^(?:[A-Z]{1,3}\d+|TRUE|FALSE)$/i;
 
 /**
  * Extract all cell and range references from a formula string.
@@ -65,12 +57,12 @@ const NAMED_RANGE = /\b([A-Z][A-Z0-9_]*)\b(?!\()/gi;
  * @returns Array of Address objects the formula directly references
  * 
  * @example
- * extractReferences('=SUM(A1:A10)', {row: 5, col: 0})
- * // Returns: [{row: 0, col: 0}, {row: 1, col: 0}, ..., {row: 9, col: 0}]
+ * extractReferences('=SUM(A1:A10)', {row: 6, col: 1})
+ * // Returns: [{row: 1, col: 1}, {row: 2, col: 1}, ..., {row: 10, col: 1}]
  * 
  * @example
- * extractReferences('=B2+C3*D4', {row: 0, col: 0})
- * // Returns: [{row: 1, col: 1}, {row: 2, col: 2}, {row: 3, col: 3}]
+ * extractReferences('=B2+C3*D4', {row: 1, col: 1})
+ * // Returns: [{row: 2, col: 2}, {row: 3, col: 3}, {row: 4, col: 4}]
  */
 export function extractReferences(
   formula: string,
@@ -82,8 +74,10 @@ export function extractReferences(
   // Strip leading '=' if present
   const expr = formula.startsWith('=') ? formula.slice(1) : formula;
   
-  // Remove string literals (they might contain reference-like text)
-  const cleaned = removeStringLiterals(expr);
+  // Remove sheet-qualified references (tracked by extractSheetReferences),
+  // table references (Worksheet resolves those to A1 ranges first), then
+  // string literals (they might contain reference-like text)
+  const cleaned = removeStringLiterals(removeSheetQualifiedRefs(removeStructuredRefs(removeDoubleQuotedStrings(expr))));
   
   if (referenceStyle === 'A1') {
     extractA1References(cleaned, addresses);
@@ -101,13 +95,60 @@ export function extractReferences(
   return result;
 }
 
+/**
+ * A dependency on cells of another sheet (or a 3-D span of sheets).
+ */
+export interface SheetReferenceDependency {
+  /** First (or only) sheet name as written in the formula. */
+  sheet: string;
+  /** Last sheet of a 3-D span; undefined for single-sheet references. */
+  endSheet?: string;
+  /** Cells read on each sheet of the span. */
+  addresses: Address[];
+}
+
+/**
+ * Extract sheet-qualified references (Sheet2!A1, 'My Sheet'!A1:B10,
+ * Sheet1:Sheet3!B2) from a formula string.
+ *
+ * These are deliberately NOT returned by extractReferences: the addresses
+ * belong to another sheet's coordinate space, so they are registered on the
+ * workbook's cross-sheet index rather than the formula sheet's own DAG.
+ *
+ * @example
+ * extractSheetReferences("=Sheet2!A1+'My Sheet'!B1:B2")
+ * // [{ sheet: 'Sheet2', addresses: [{row: 1, col: 1}] },
+ * //  { sheet: 'My Sheet', addresses: [{row: 1, col: 2}, {row: 2, col: 2}] }]
+ */
+export function extractSheetReferences(formula: string): SheetReferenceDependency[] {
+  const expr = formula.startsWith('=') ? formula.slice(1) : formula;
+  const result: SheetReferenceDependency[] = [];
+
+  for (const match of findSheetQualifiedRefs(removeDoubleQuotedStrings(expr))) {
+    const addresses = new Set<string>();
+    const [startRef, endRef] = match.ref.split(':');
+    const start = parseA1Address(startRef);
+    const end = endRef ? parseA1Address(endRef) : start;
+    if (!start || !end) continue;
+    expandRange(start, end, addresses);
+
+    result.push({
+      sheet: match.sheet,
+      ...(match.endSheet !== undefined ? { endSheet: match.endSheet } : {}),
+      addresses: Array.from(addresses, key => {
+        const [row, col] = key.split(':').map(Number);
+        return { row, col };
+      }),
+    });
+  }
+
+  return result;
+}
+
 /**
  * Extract A1-style references (A1, B2:C3, etc.)
  */
-function extractA1References(expr: string, addresses: Set<string>): void {
-  // Remove sheet qualifiers first (we only track dependencies within the same sheet for now)
-  const unqualified = expr.replace(SHEET_QUALIFIED, '');
-  
+function extractA1References(unqualified: string, addresses: Set<string>): void {
   // Extract range references (A1:B2)
   const rangeMatches = unqualified.matchAll(A1_RANGE_REF);
   for (const match of rangeMatches) {
@@ -126,7 +167,7 @@ function extractA1References(expr: string, addresses: Set<string>): void {
     if (startCol !== null && endCol !== null) {
       // For column ranges, we track a representative set (first 100 rows)
       // Full column dependencies would be tracked as a special marker
-      for (let row = 0; row < 100; row++) {
+      for (let row = 1; row <= 100; row++) {
         for (let col = startCol; col <= endCol; col++) {
           addresses.add(`${row}:${col}`);
         }
@@ -137,12 +178,12 @@ function extractA1References(expr: string, addresses: Set<string>): void {
   // Extract row ranges (1:1, 2:5)
   const rowMatches = unqualified.matchAll(A1_ROW_REF);
   for (const match of rowMatches) {
-    const startRow = parseInt(match[1].replace('$', ''), 10) - 1;
-    const endRow = parseInt(match[2].replace('$', ''), 10) - 1;
+    const startRow = parseInt(match[1].replace('$', ''), 10);
+    const endRow = parseInt(match[2].replace('$', ''), 10);
     if (!isNaN(startRow) && !isNaN(endRow)) {
       // Track first 100 columns for row ranges
       for (let row = startRow; row <= endRow; row++) {
-        for (let col = 0; col < 100; col++) {
+        for (let col = 1; col <= 100; col++) {
           addresses.add(`${row}:${col}`);
         }
       }
@@ -180,8 +221,8 @@ function extractR1C1References(expr: string, currentCell: Address, addresses: Se
       const offset = parseInt(rowPart.slice(1, -1), 10);
       row = currentCell.row + offset;
     } else {
-      // Absolute: R1 means row 1 (0-indexed = 0)
-      row = parseInt(rowPart, 10) - 1;
+      // Absolute: R1 means row 1
+      row = parseInt(rowPart, 10);
     }
     
     // Parse column (absolute or relative)
@@ -193,12 +234,12 @@ function extractR1C1References(expr: string, currentCell: Address, addresses: Se
       const offset = parseInt(colPart.slice(1, -1), 10);
       col = currentCell.col + offset;
     } else {
-      // Absolute: C1 means column 1 (0-indexed = 0)
-      col = parseInt(colPart, 10) - 1;
+      // Absolute: C1 means column 1
+      col = parseInt(colPart, 10);
     }
     
     // Validate bounds
-    if (row >= 0 && col >= 0 && row < 1048576 && col < 16384) {
+    if (row >= 1 && col >= 1 && row <= 1048576 && col <= 16384) {
       addresses.add(`${row}:${col}`);
     }
   }
@@ -217,16 +258,16 @@ function parseA1Address(ref: string): Address | null {
   if (!match) return null;
   
   const col = parseA1Column(match[1]);
-  const row = parseInt(match[2], 10) - 1; // Convert to 0-indexed
+  const row = parseInt(match[2], 10);
   
-  if (col === null || isNaN(row) || row < 0) return null;
+  if (col === null || isNaN(row) || row < 1) return null;
   
   return { row, col };
 }
 
 /**
- * Parse A1-style column reference to 0-indexed column number.
- * A=0, B=1, ..., Z=25, AA=26, etc.
+ * Parse A1-style column reference to a 1-based column number.
+ * A=1, B=2, ..., Z=26, AA=27, etc.
  */
 function parseA1Column(colStr: string): number | null {
   const clean = colStr.replace('$', '').toUpperCase();
@@ -238,7 +279,7 @@ function parseA1Column(colStr: string): number | null {
     col = col * 26 + charCode + 1;
   }
   
-  return col - 1; // Convert to 0-indexed
+  return col;
 }
 
 /**
@@ -279,12 +320,41 @@ function expandRange(start: Address, end: Address, addresses: Set<string>): void
  */
 function removeStringLiterals(formula: string): string {
   // Remove double-quoted strings
-  let result = formula.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+  let result = removeDoubleQuotedStrings(formula);
   // Remove single-quoted sheet names
   result = result.replace(/'(?:[^'\\]|\\.)*'/g, "''");
   return result;
 }
 
+/**
+ * Replace "..." string literals with "" (single-quoted sheet names are kept).
+ */
+function removeDoubleQuotedStrings(formula: string): string {
+  return formula.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+}
+
+/**
+ * Blank out sheet-qualified references so they are not mistaken for
+ * references into the formula's own sheet.
+ */
+function removeSheetQualifiedRefs(expr: string): string {
+  let result = '';
+  let last = 0;
+  for (const match of findSheetQualifiedRefs(expr)) {
+    result += expr.slice(last, match.start) + ' ';
+    last = match.end;
+  }
+  return result + expr.slice(last);
+}
+
+/**
+ * Blank out table references (Sales[Amount], [@Q1]) so column names are not
+ * mistaken for cell references or defined names.
+ */
+function removeStructuredRefs(expr: string): string {
+  return expr.includes('[') ? replaceStructuredReferences(expr, () => ' ') : expr;
+}
+
 /**
  * Check if a name is a known Excel function (to exclude from named range detection).
  * This is a simplified check - full implementation would query the function registry.
@@ -308,14 +378,15 @@ const KNOWN_FUNCTIONS = new Set([
  * querying the NameManager registry.
  */
 export function extractNamedRanges(formula: string): string[] {
-  const cleaned = removeStringLiterals(formula);
+  const expr = formula.startsWith('=') ? formula.slice(1) : formula;
+  const cleaned = removeStringLiterals(removeSheetQualifiedRefs(removeStructuredRefs(removeDoubleQuotedStrings(expr))));
   const matches = cleaned.matchAll(NAMED_RANGE);
   const names: string[] = [];
   
   for (const match of matches) {
     const name = match[1].toUpperCase();
-    // Exclude known function names
-    if (!KNOWN_FUNCTIONS.has(name)) {
+    // Exclude known function names, cell references and boolean literals
+    if (!KNOWN_FUNCTIONS.has(name) && !NOT_A_NAME.test(name)) {
       names.push(name);
     }
   }
@@ -8,6 +8,7 @@
  */
 
 import { tokenizeFormula, Token, TokenType } from './formula-tokenizer';
+import type { FormulaLocale } from './formula-localization';
 
 export interface HighlightedSegment {
   text: string;
@@ -122,6 +123,7 @@ function tokenTypeToColor(type: TokenType, theme: HighlightTheme): string {
  * 
  * @param formula - The formula to highlight
  * @param theme - Color theme to use (default: Excel-like)
+ * @param locale - Locale the formula is written in (default: en-US)
  * @returns Array of highlighted segments with styling information
  * 
  * @example
@@ -132,9 +134,10 @@ function tokenTypeToColor(type: TokenType, theme: HighlightTheme): string {
  */
 export function highlightFormula(
   formula: string,
-  theme: HighlightTheme = defaultTheme
+  theme: HighlightTheme = defaultTheme,
+  locale: FormulaLocale = 'en-US'
 ): HighlightedSegment[] {
-  const tokens = tokenizeFormula(formula, { preserveWhitespace: true });
+  const tokens = tokenizeFormula(formula, { preserveWhitespace: true, locale });
   
   return tokens.map(token => ({
     text: token.value,
@@ -285,9 +288,10 @@ export function segmentsToReactElements(segments: HighlightedSegment[]): Array<{
 export function getColorAtPosition(
   formula: string,
   position: number,
-  theme: HighlightTheme = defaultTheme
+  theme: HighlightTheme = defaultTheme,
+  locale: FormulaLocale = 'en-US'
 ): string | null {
-  const segments = highlightFormula(formula, theme);
+  const segments = highlightFormula(formula, theme, locale);
   
   for (const segment of segments) {
     if (position >= segment.start && position < segment.end) {
@@ -7,6 +7,8 @@
  * Week 9 Day 2: Syntax Highlighting Implementation
  */
 
+import { delocalizeFunctionName, getFormulaSyntax, type FormulaLocale } from './formula-localization';
+
 export type TokenType = 
   | 'function'
   | 'cell'
@@ -32,6 +34,8 @@ export interface Token {
 export interface TokenizerOptions {
   preserveWhitespace?: boolean;
   captureErrors?: boolean;
+  /** Read the formula in this locale's syntax (`;` separators, `,` decimals) */
+  locale?: FormulaLocale;
 }
 
 /**
@@ -57,7 +61,8 @@ export function tokenizeFormula(
   formula: string,
   options: TokenizerOptions = {}
 ): Token[] {
-  const { preserveWhitespace = false, captureErrors = true } = options;
+  const { preserveWhitespace = false, captureErrors = true, locale = 'en-US' } = options;
+  const { decimalSeparator, argumentSeparator } = getFormulaSyntax(locale);
   const tokens: Token[] = [];
   
   // Strip leading = if present
@@ -137,20 +142,22 @@ export function tokenizeFormula(
     }
     
     // Function names, cell references, named ranges, booleans
-    if (/[A-Za-z_]/.test(char)) {
+    if (/[A-Za-z_\u00C0-\u024F\u0400-\u04FF]/.test(char)) {
       let value = '';
       const start = i;
       
-      // Capture alphanumeric and underscores (for function names and named ranges)
-      while (i < input.length && /[A-Za-z0-9_.]/.test(input[i])) {
+      // Capture alphanumeric and underscores (for function names and named ranges),
+      // including the accented and Cyrillic letters of localized function names
+      while (i < input.length && /[A-Za-z0-9_.\u00C0-\u024F\u0400-\u04FF]/.test(input[i])) {
         value += input[i];
         i++;
       }
       
       const upperValue = value.toUpperCase();
       
-      // Check for boolean literals
-      if (upperValue === 'TRUE' || upperValue === 'FALSE') {
+      // Check for boolean literals (WAHR/FALSCH etc. in localized formulas)
+      const canonicalValue = delocalizeFunctionName(upperValue, locale);
+      if (canonicalValue === 'TRUE' || canonicalValue === 'FALSE') {
         tokens.push({ 
           type: 'boolean', 
           value: upperValue, 
@@ -221,7 +228,8 @@ export function tokenizeFormula(
     }
     
     // Numbers (including decimals and scientific notation)
-    if (/[0-9.]/.test(char)) {
+    const startsDecimal = char === decimalSeparator && (char === '.' || /[0-9]/.test(input[i + 1] ?? ''));
+    if (/[0-9]/.test(char) || startsDecimal) {
       let value = '';
       const start = i;
       let hasDecimal = false;
@@ -229,8 +237,9 @@ export function tokenizeFormula(
       while (i < input.length) {
         const c = input[i];
         
-        if (c === '.') {
-          if (hasDecimal) break; // Second decimal point
+        if (c === decimalSeparator) {
+          // A decimal comma must be followed by a digit to be read as one
+          if (hasDecimal || (c === ',' && !/[0-9]/.test(input[i + 1] ?? ''))) break;
           hasDecimal = true;
           value += c;
           i++;
@@ -287,11 +296,11 @@ export function tokenizeFormula(
       continue;
     }
     
-    // Comma
-    if (char === ',') {
+    // Argument separator (comma, or semicolon in decimal-comma locales)
+    if (char === ',' || char === argumentSeparator) {
       tokens.push({ 
         type: 'comma', 
-        value: ',', 
+        value: char, 
         start: i + offset, 
         end: i + 1 + offset 
       });
@@ -0,0 +1,124 @@
+/**
+ * hyperlinks.ts
+ *
+ * Helpers for cell hyperlink targets:
+ *   https://example.com/report, mailto:ops@example.com, #Sheet2!A1, #'My Sheet'!B4, #SalesTotal
+ *
+ * A leading `#` marks a location in the workbook (as in Excel's HYPERLINK()),
+ * anything else is handed to the browser.
+ */
+
+import type { Range } from '../types';
+import { parseSheetQualifiedRef } from './sheet-reference';
+import { tokenizeFormula } from './formula-tokenizer';
+import { parseCellReference } from '../parser/ReferenceParser';
+
+/** A `#…` target resolved to a sheet (when qualified) and a reference or name. */
+export interface HyperlinkLocation {
+  /** Sheet name, unquoted; undefined means the sheet holding the link. */
+  sheet?: string;
+  /** A1 cell or range (e.g. "A1", "B2:D9"), or a defined name. */
+  ref: string;
+  /** The cells `ref` covers (1-based), when it is an A1 reference rather than a name. */
+  range?: Range;
+}
+
+/** The source text of a `=HYPERLINK(link_location, [friendly_name])` call. */
+export interface HyperlinkCall {
+  location: string;
+  friendlyName?: string;
+}
+
+/** Schemes that would run code when followed; never accepted as targets. */
+const SCRIPT_SCHEMES = /^\s*(?:javascript|vbscript|data):/i;
+
+/**
+ * Check a hyperlink target. Returns an error message, or null when the
+ * target can be stored on a cell.
+ */
+export function validateHyperlinkTarget(target: string): string | null {
+  if (target.trim().length === 0) return 'Hyperlink target cannot be empty';
+  if (target === '#') return 'Hyperlink location cannot be empty';
+  if (SCRIPT_SCHEMES.test(target)) return `Hyperlink target '${target}' uses a script scheme`;
+  return null;
+}
+
+/** True for `#…` targets, which jump within the workbook. */
+export function isWorkbookLocation(target: string): boolean {
+  return target.startsWith('#');
+}
+
+/**
+ * Resolve a `#…` target to its sheet and reference. Returns null for
+ * targets that leave the workbook.
+ *
+ * @example
+ * parseHyperlinkLocation("#'My Sheet'!b4")   // { sheet: 'My Sheet', ref: 'B4', range: B4:B4 }
+ * parseHyperlinkLocation('#A1')              // { ref: 'A1', range: A1:A1 }
+ * parseHyperlinkLocation('#SalesTotal')      // { ref: 'SalesTotal' }
+ */
+export function parseHyperlinkLocation(target: string): HyperlinkLocation | null {
+  if (!isWorkbookLocation(target)) return null;
+  const location = target.slice(1).trim();
+  if (!location) return null;
+
+  const qualified = parseSheetQualifiedRef(location);
+  const bare = (qualified ? qualified.ref : location).replace(/\$/g, '');
+  const range = toRange(bare);
+  const resolved: HyperlinkLocation = range ? { ref: bare.toUpperCase(), range } : { ref: location };
+  return qualified ? { sheet: qualified.sheet, ...resolved } : resolved;
+}
+
+function toRange(ref: string): Range | undefined {
+  const [from, to = from, extra] = ref.split(':');
+  if (extra !== undefined) return undefined;
+  const start = parseCellReference(from);
+  const end = parseCellReference(to);
+  if (start instanceof Error || end instanceof Error) return undefined;
+  return {
+    start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+    end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+  };
+}
+
+/**
+ * Split a formula that is exactly one HYPERLINK() call into the source text
+ * of its arguments. Returns null for any other formula, including ones
+ * where HYPERLINK is nested inside another expression.
+ *
+ * @example
+ * findHyperlinkCall('=HYPERLINK("#Sheet2!A1", "Details")')
+ * // { location: '"#Sheet2!A1"', friendlyName: '"Details"' }
+ */
+export function findHyperlinkCall(formula: string): HyperlinkCall | null {
+  if (!/^=?\s*HYPERLINK\s*\(/i.test(formula)) return null;
+
+  const tokens = tokenizeFormula(formula, { captureErrors: false });
+  if (tokens.length < 3 || tokens[0].value.toUpperCase() !== 'HYPERLINK' || tokens[1].value !== '(') return null;
+
+  // Top-level commas split the arguments; the matching ')' must end the formula
+  const separators: number[] = [];
+  let depth = 0;
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'parenthesis') {
+      depth += token.value === '(' ? 1 : -1;
+      if (depth === 0) {
+        if (i !== tokens.length - 1) return null;
+        separators.push(token.start);
+      }
+    } else if (token.type === 'comma' && depth === 1) {
+      separators.push(token.start);
+    }
+  }
+  if (depth !== 0 || separators.length === 0 || separators.length > 2) return null;
+
+  const args: string[] = [];
+  let start = tokens[1].end;
+  for (const end of separators) {
+    args.push(formula.slice(start, end).trim());
+    start = end + 1;
+  }
+  if (!args[0]) return null;
+  return args.length === 2 ? { location: args[0], friendlyName: args[1] } : { location: args[0] };
+}
@@ -0,0 +1,108 @@
+/**
+ * outline.ts
+ *
+ * Helpers for row/column outlines (Excel's Data ▸ Group). An outline is
+ * stored as a level per row or column; groups are the runs of consecutive
+ * indices at a level or deeper, so nesting follows from the levels alone:
+ *
+ *   row     2  3  4  5  6  7
+ *   level   2  2  1  2  2  1   → level-1 group 2–7, level-2 groups 2–3 and 5–6
+ */
+
+import type { OutlineGroup, OutlineSettings, Range } from '../types';
+import { parseCellReference } from '../parser/ReferenceParser';
+
+/**
+ * Deepest outline level. Excel shows eight level buttons: button 1 collapses
+ * everything, buttons 2–8 open one of the seven nested levels each.
+ */
+export const MAX_OUTLINE_LEVEL = 7;
+
+/** Summary rows below and summary columns to the right, as in a new Excel sheet. */
+export const DEFAULT_OUTLINE_SETTINGS: Readonly<OutlineSettings> = {
+  summaryRowsBelow: true,
+  summaryColumnsRight: true,
+};
+
+const SUBTOTAL_CALL = /(?<![\w.])SUBTOTAL\s*\(/gi;
+/** An unqualified A1 range; sheet-qualified ones point elsewhere and are skipped */
+const A1_RANGE = /(?<![\w!$'.])\$?([A-Z]{1,3})\$?(\d+):\$?([A-Z]{1,3})\$?(\d+)(?![\w(])/gi;
+
+/**
+ * The groups described by `levels`, outermost level first and in index
+ * order within a level. `isCollapsed(start, level)` gives each group's state.
+ *
+ * @example
+ * buildOutlineGroups(new Map([[2, 2], [3, 2], [4, 1]]), () => false)
+ * // [{ start: 2, end: 4, level: 1, … }, { start: 2, end: 3, level: 2, … }]
+ */
+export function buildOutlineGroups(
+  levels: ReadonlyMap<number, number>,
+  isCollapsed: (start: number, level: number) => boolean
+): OutlineGroup[] {
+  const groups: OutlineGroup[] = [];
+  // Start index of the run open at each level; open[0] is level 1
+  const open: number[] = [];
+  let previous = Number.NaN;
+  const closeAbove = (level: number) => {
+    while (open.length > level) {
+      const start = open.pop()!;
+      const groupLevel = open.length + 1;
+      groups.push({ start, end: previous, level: groupLevel, collapsed: isCollapsed(start, groupLevel) });
+    }
+  };
+
+  for (const index of [...levels.keys()].sort((a, b) => a - b)) {
+    const level = levels.get(index)!;
+    closeAbove(index === previous + 1 ? level : 0);
+    while (open.length < level) open.push(index);
+    previous = index;
+  }
+  closeAbove(0);
+
+  return groups.sort((a, b) => a.level - b.level || a.start - b.start);
+}
+
+/**
+ * The A1 ranges (1-based) read by the SUBTOTAL() calls in `formula`.
+ * References qualified with a sheet name are left out.
+ *
+ * @example
+ * findSubtotalRanges('=SUBTOTAL(9,C2:C5)')   // [C2:C5]
+ */
+export function findSubtotalRanges(formula: string): Range[] {
+  const ranges: Range[] = [];
+  for (const call of formula.matchAll(SUBTOTAL_CALL)) {
+    const args = callArguments(formula, call.index! + call[0].length);
+    for (const [, startCol, startRow, endCol, endRow] of args.matchAll(A1_RANGE)) {
+      const start = parseCellReference(`${startCol}${startRow}`);
+      const end = parseCellReference(`${endCol}${endRow}`);
+      if (start instanceof Error || end instanceof Error) continue;
+      ranges.push({
+        start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+        end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+      });
+    }
+  }
+  return ranges;
+}
+
+/** Argument text from `open` (just past the '(') to the matching ')', string literals blanked. */
+function callArguments(formula: string, open: number): string {
+  let depth = 1;
+  let text = '';
+  for (let i = open; i < formula.length; i++) {
+    const char = formula[i];
+    if (char === '"') {
+      const close = formula.indexOf('"', i + 1);
+      if (close === -1) break;
+      text += ' '.repeat(close - i + 1);
+      i = close;
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) break;
+    text += char;
+  }
+  return text;
+}
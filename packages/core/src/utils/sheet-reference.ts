@@ -0,0 +1,156 @@
+/**
+ * sheet-reference.ts
+ *
+ * Parsing helpers for sheet-qualified references:
+ *   Sheet2!A1, 'My Sheet'!A1:B10, Sheet1:Sheet3!B2, 'Jan 24:Mar 24'!C5, Sheet2!$A$1
+ *
+ * Shared by FormulaEngine (evaluation) and formula-reference-extractor
+ * (DAG registration) so both sides agree on what a qualified reference is.
+ */
+
+/**
+ * A reference prefixed with a sheet name (or a 3-D sheet span).
+ */
+export interface SheetQualifiedRef {
+  /** First (or only) sheet name, unquoted. */
+  sheet: string;
+  /** Last sheet of a 3-D span (`Sheet1:Sheet3!B2`); undefined for single-sheet refs. */
+  endSheet?: string;
+  /** The A1 cell or range after the `!`, `$` anchors preserved (e.g. "A1", "$A$1:B10"). */
+  ref: string;
+}
+
+/** A qualified reference found inside a larger formula, with its position. */
+export interface SheetQualifiedRefMatch extends SheetQualifiedRef {
+  /** Index of the first character of the reference (including any quote). */
+  start: number;
+  /** Index one past the last character of the reference. */
+  end: number;
+}
+
+/**
+ * Column letters A..XFD, as a regex fragment. Other letter runs followed by
+ * digits (Sales2024, ABCD1) are names, not cell references.
+ */
+export const A1_COLUMN_PATTERN = '(?:[A-Z]{1,2}|[A-W][A-Z]{2}|X[A-E][A-Z]|XF[A-D])';
+
+/**
+ * Sheet prefix: either a quoted name ('My Sheet', quotes escaped as '') or a
+ * bare identifier, optionally followed by `:Other` for a 3-D span.
+ */
+const SHEET_PREFIX = `(?:'((?:[^']|'')+)'|([\\p{L}_][\\p{L}\\p{N}_.]*(?::[\\p{L}_][\\p{L}\\p{N}_.]*)?))!`;
+const A1_PART = `(\\$?[A-Z]+\\$?\\d+(?::\\$?[A-Z]+\\$?\\d+)?)(?![A-Z0-9_(])`;
+
+const SHEET_QUALIFIED_REF = new RegExp(`^${SHEET_PREFIX}${A1_PART}$`, 'iu');
+const SHEET_QUALIFIED_REF_SCAN = new RegExp(`(?<![\\p{L}\\p{N}_.'])${SHEET_PREFIX}${A1_PART}`, 'giu');
+const SHEET_QUALIFIED_REF_AT = new RegExp(`${SHEET_PREFIX}${A1_PART}`, 'iuy');
+
+/**
+ * Split a raw sheet prefix (already unquoted) into start/end sheet names.
+ */
+function toQualifiedRef(quoted: string | undefined, bare: string | undefined, ref: string): SheetQualifiedRef {
+  const names = quoted !== undefined ? quoted.replace(/''/g, "'") : bare!;
+  const colon = names.indexOf(':');
+  if (colon === -1) {
+    return { sheet: names, ref: ref.toUpperCase() };
+  }
+  return {
+    sheet: names.slice(0, colon),
+    endSheet: names.slice(colon + 1),
+    ref: ref.toUpperCase(),
+  };
+}
+
+/**
+ * Parse an expression that is exactly one sheet-qualified cell or range
+ * reference. Returns null for anything else (including bare `A1`).
+ *
+ * @example
+ * parseSheetQualifiedRef("'My Sheet'!A1:B10")
+ * // { sheet: 'My Sheet', ref: 'A1:B10' }
+ * parseSheetQualifiedRef('Sheet1:Sheet3!B2')
+ * // { sheet: 'Sheet1', endSheet: 'Sheet3', ref: 'B2' }
+ */
+export function parseSheetQualifiedRef(expr: string): SheetQualifiedRef | null {
+  const match = expr.trim().match(SHEET_QUALIFIED_REF);
+  if (!match) return null;
+  return toQualifiedRef(match[1], match[2], match[3]);
+}
+
+/**
+ * Find every sheet-qualified reference in a formula (string literals should
+ * already be blanked out by the caller).
+ */
+export function findSheetQualifiedRefs(expr: string): SheetQualifiedRefMatch[] {
+  const result: SheetQualifiedRefMatch[] = [];
+  for (const match of expr.matchAll(SHEET_QUALIFIED_REF_SCAN)) {
+    result.push({
+      ...toQualifiedRef(match[1], match[2], match[3]),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return result;
+}
+
+/**
+ * Match a sheet-qualified reference starting exactly at `pos` (used by the
+ * formula lexer). Returns null when the text at `pos` is not one.
+ */
+export function matchSheetQualifiedRefAt(expr: string, pos: number): SheetQualifiedRefMatch | null {
+  SHEET_QUALIFIED_REF_AT.lastIndex = pos;
+  const match = SHEET_QUALIFIED_REF_AT.exec(expr);
+  if (!match) return null;
+  return {
+    ...toQualifiedRef(match[1], match[2], match[3]),
+    start: pos,
+    end: pos + match[0].length,
+  };
+}
+
+/**
+ * Case-insensitive sheet name comparison (Excel sheet names are not case-sensitive).
+ */
+export function isSameSheetName(a: string, b: string): boolean {
+  return a.toUpperCase() === b.toUpperCase();
+}
+
+/** A sheet name that can be written without quotes in a formula. */
+const BARE_SHEET_NAME = /^[\p{L}_][\p{L}\p{N}_.]*$/u;
+/** Bare names that read as an A1 or R1C1 reference must still be quoted. */
+const REFERENCE_LIKE = /^(?:[A-Z]{1,3}\d+|R\d*C?\d*|C\d*)$/i;
+
+/**
+ * Write a sheet name (or a `First:Last` span) the way a formula needs it,
+ * quoting and escaping when it is not a plain identifier.
+ *
+ * @example
+ * quoteSheetName('Data')        // "Data"
+ * quoteSheetName("Bob's Sheet") // "'Bob''s Sheet'"
+ * quoteSheetName('Jan:Mar 24')  // "'Jan:Mar 24'"
+ */
+export function quoteSheetName(name: string): string {
+  const bare = name.split(':').every(part => BARE_SHEET_NAME.test(part) && !REFERENCE_LIKE.test(part));
+  return bare ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+/** Longest sheet name Excel accepts. */
+export const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Check a proposed sheet name against Excel's rules: 1–31 characters, none
+ * of `\ / ? * [ ] :`, and no leading or trailing apostrophe.
+ *
+ * @returns A description of the problem, or null when the name is valid
+ */
+export function validateSheetName(name: string): string | null {
+  if (name.trim().length === 0) return 'Sheet name cannot be empty';
+  if (name.length > MAX_SHEET_NAME_LENGTH) {
+    return `Sheet name cannot exceed ${MAX_SHEET_NAME_LENGTH} characters`;
+  }
+  if (/[\\/?*[\]:]/.test(name)) return 'Sheet name cannot contain \\ / ? * [ ] :';
+  if (name.startsWith("'") || name.endsWith("'")) {
+    return 'Sheet name cannot begin or end with an apostrophe';
+  }
+  return null;
+}
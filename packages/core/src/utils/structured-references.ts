@@ -0,0 +1,358 @@
+/**
+ * structured-references.ts
+ *
+ * Syntax of Excel table (structured) references: finding them in formula
+ * text, parsing them, formatting them back and rewriting them when a table
+ * or one of its columns is renamed.
+ *
+ * Supported forms:
+ * - Table1[Amount], Table1[[Unit Price]]      one column of the data body
+ * - Table1[[Qty]:[Price]]                     a span of columns
+ * - Table1[#All|#Data|#Headers|#Totals]       special items
+ * - Table1[[#Totals],[Amount]]                items combined with columns
+ * - Table1[@Qty], [@[Unit Price]], Table1[@] the formula's own row
+ * - [Amount]                                  the table holding the formula
+ * - Table1[]                                  the whole data body
+ *
+ * Inside a bracketed name, `'` escapes the next character (`[`, `]`, `#`
+ * or `'`). Resolving a reference to cells needs the table geometry and is
+ * done by TableStore.
+ */
+
+/** Special items that select rows of a table. */
+export type TableItemSpecifier = '#All' | '#Data' | '#Headers' | '#Totals' | '#This Row';
+
+const ITEM_SPECIFIERS: readonly TableItemSpecifier[] = ['#All', '#Data', '#Headers', '#Totals', '#This Row'];
+
+/**
+ * A parsed structured reference.
+ */
+export interface StructuredReference {
+  /** Table name as written; undefined for the table holding the formula. */
+  table?: string;
+  /** Row selectors; empty means the data body. */
+  items: TableItemSpecifier[];
+  /** Column span; undefined means every column. */
+  columns?: { first: string; last: string };
+  /** A bare table name (`=ROWS(Table1)`) rather than a bracketed reference. */
+  bare?: boolean;
+  /** Source text of the reference and its position in the scanned formula. */
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Characters that force a column name into the [[double bracket]] form. */
+const SPECIAL_COLUMN_CHARS = /[\t\n\r,:.[\]#'"{}$^&*+=\-<>/]/;
+
+/** Table names that would be read as cell references (A1, R[1]C[2]). */
+const REFERENCE_LIKE = /^(?:\$?[A-Z]{1,3}\$?\d+|(?:R\d*)?(?:C\d*)?)$/i;
+
+/**
+ * Rewrite every structured reference in a formula.
+ *
+ * `replace` receives each reference and returns its replacement text, or
+ * null to keep it. String literals and quoted sheet names are skipped. Bare
+ * identifiers are only reported when `isTableName` recognises them.
+ *
+ * @example
+ * replaceStructuredReferences('=SUM(Sales[Amount])', () => 'B2:B9')
+ * // '=SUM(B2:B9)'
+ */
+export function replaceStructuredReferences(
+  formula: string,
+  replace: (ref: StructuredReference) => string | null,
+  isTableName?: (name: string) => boolean
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // String literals and quoted sheet names are copied verbatim
+    if (char === '"' || char === "'") {
+      const end = skipQuoted(formula, i, char);
+      result += formula.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === '[' || isNameStart(char)) {
+      const ref = scanStructuredReference(formula, i);
+      if (ref) {
+        result += replace(ref) ?? ref.text;
+        i = ref.end;
+        continue;
+      }
+    }
+
+    if (isNameChar(char)) {
+      let end = i;
+      while (end < formula.length && isNameChar(formula[end])) end++;
+      const name = formula.slice(i, end);
+      const next = formula[end];
+      const bare = isTableName !== undefined && isNameStart(char) && !isPrecededByQualifier(formula, i) &&
+        next !== '(' && next !== '!' && isTableName(name);
+      result += bare
+        ? replace({ table: name, items: [], bare: true, text: name, start: i, end }) ?? name
+        : name;
+      i = end;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * List the structured references in a formula (see replaceStructuredReferences).
+ */
+export function findStructuredReferences(
+  formula: string,
+  isTableName?: (name: string) => boolean
+): StructuredReference[] {
+  const refs: StructuredReference[] = [];
+  replaceStructuredReferences(formula, ref => {
+    refs.push(ref);
+    return null;
+  }, isTableName);
+  return refs;
+}
+
+/**
+ * Parse the structured reference starting at `pos`, or return null when
+ * there is none. Entity field access (`A1["Price"]`) is not a structured
+ * reference.
+ */
+export function scanStructuredReference(formula: string, pos: number): StructuredReference | null {
+  if (pos > 0 && isNameChar(formula[pos - 1])) return null;
+
+  let i = pos;
+  let table: string | undefined;
+  if (formula[i] !== '[') {
+    while (i < formula.length && isNameChar(formula[i])) i++;
+    if (formula[i] !== '[') return null;
+    table = formula.slice(pos, i);
+    if (!isNameStart(table[0]) || REFERENCE_LIKE.test(table)) return null;
+  }
+
+  const close = findClosingBracket(formula, i);
+  if (close === -1) return null;
+  const body = formula.slice(i + 1, close);
+  if (body.trimStart()[0] === '"') return null;
+
+  const spec = parseSpecifier(body);
+  if (!spec) return null;
+
+  return { table, ...spec, text: formula.slice(pos, close + 1), start: pos, end: close + 1 };
+}
+
+/**
+ * Format a structured reference the way Excel writes it.
+ *
+ * @example
+ * formatStructuredReference({ table: 'Sales', items: ['#Totals'], columns: { first: 'Amount', last: 'Amount' } })
+ * // 'Sales[[#Totals],[Amount]]'
+ */
+export function formatStructuredReference(
+  ref: Pick<StructuredReference, 'table' | 'items' | 'columns' | 'bare'>
+): string {
+  const table = ref.table ?? '';
+  if (ref.bare) return table;
+
+  const { items, columns } = ref;
+  const single = columns && columns.first === columns.last ? columns.first : undefined;
+
+  if (items.length === 1 && items[0] === '#This Row') {
+    if (!columns) return `${table}[@]`;
+    if (single !== undefined) {
+      return /\s/.test(single) || SPECIAL_COLUMN_CHARS.test(single)
+        ? `${table}[@[${escapeColumnName(single)}]]`
+        : `${table}[@${escapeColumnName(single)}]`;
+    }
+    return `${table}[@${formatColumns(columns)}]`;
+  }
+
+  if (items.length === 0) {
+    if (!columns) return `${table}[]`;
+    if (single !== undefined && !SPECIAL_COLUMN_CHARS.test(single)) return `${table}[${single}]`;
+    return `${table}[${formatColumns(columns)}]`;
+  }
+
+  if (!columns && items.length === 1) return `${table}[${items[0]}]`;
+
+  const parts = items.map(item => `[${item}]`);
+  if (columns) parts.push(formatColumns(columns));
+  return `${table}[${parts.join(',')}]`;
+}
+
+/**
+ * Point structured references at a renamed table, including bare uses of
+ * its name. Table names are matched case-insensitively.
+ */
+export function renameTableInFormula(formula: string, from: string, to: string): string {
+  const matches = (name?: string) => name !== undefined && name.toUpperCase() === from.toUpperCase();
+  return replaceStructuredReferences(
+    formula,
+    ref => matches(ref.table) ? to + ref.text.slice(ref.table!.length) : null,
+    matches
+  );
+}
+
+/**
+ * Rewrite the references to one column of a table after it was renamed.
+ *
+ * @param implicit - The formula lives inside the table, so references
+ *                   without a table name (`[@Qty]`) point at it too
+ */
+export function renameTableColumnInFormula(
+  formula: string,
+  table: string,
+  from: string,
+  to: string,
+  implicit = false
+): string {
+  const upper = from.toUpperCase();
+  return replaceStructuredReferences(formula, ref => {
+    const own = ref.table === undefined ? implicit : ref.table.toUpperCase() === table.toUpperCase();
+    if (!own || !ref.columns) return null;
+    const first = ref.columns.first.toUpperCase() === upper ? to : ref.columns.first;
+    const last = ref.columns.last.toUpperCase() === upper ? to : ref.columns.last;
+    if (first === ref.columns.first && last === ref.columns.last) return null;
+    return formatStructuredReference({ ...ref, columns: { first, last } });
+  });
+}
+
+/** Escape `[`, `]`, `#` and `'` in a column name with a leading `'`. */
+export function escapeColumnName(name: string): string {
+  return name.replace(/['[\]#]/g, "'$&");
+}
+
+// ── Parsing helpers ──────────────────────────────────────────────────────────
+
+function formatColumns(columns: { first: string; last: string }): string {
+  const first = `[${escapeColumnName(columns.first)}]`;
+  return columns.first === columns.last ? first : `${first}:[${escapeColumnName(columns.last)}]`;
+}
+
+/** Parse the text between the outer brackets. */
+function parseSpecifier(body: string): Pick<StructuredReference, 'items' | 'columns'> | null {
+  const trimmed = body.trim();
+  if (trimmed === '') return { items: [] };
+
+  if (trimmed[0] === '@') {
+    const rest = trimmed.slice(1).trim();
+    if (rest === '') return { items: ['#This Row'] };
+    if (rest[0] !== '[') return { items: ['#This Row'], columns: { first: unescapeColumnName(rest), last: unescapeColumnName(rest) } };
+    const list = parseList(rest);
+    if (!list || list.items.length > 0 || !list.columns) return null;
+    return { items: ['#This Row'], columns: list.columns };
+  }
+
+  if (trimmed[0] === '[') return parseList(trimmed);
+
+  if (trimmed[0] === '#') {
+    const item = matchItem(trimmed);
+    return item ? { items: [item] } : null;
+  }
+
+  const name = unescapeColumnName(body);
+  return { items: [], columns: { first: name, last: name } };
+}
+
+/** Parse `[#Item],[Col1]:[Col2]` lists. */
+function parseList(text: string): Pick<StructuredReference, 'items' | 'columns'> | null {
+  const items: TableItemSpecifier[] = [];
+  const names: string[] = [];
+  let span = false;
+  let i = 0;
+
+  while (i < text.length) {
+    while (text[i] === ' ') i++;
+    if (text[i] !== '[') return null;
+    const close = findClosingBracket(text, i);
+    if (close === -1) return null;
+    const part = text.slice(i + 1, close);
+    i = close + 1;
+
+    if (part.trimStart()[0] === '#') {
+      const item = matchItem(part.trim());
+      if (!item || names.length > 0) return null;
+      items.push(item);
+    } else {
+      names.push(unescapeColumnName(part));
+    }
+
+    while (text[i] === ' ') i++;
+    if (i >= text.length) break;
+    if (text[i] === ':') {
+      if (names.length !== 1 || span) return null;
+      span = true;
+    } else if (text[i] !== ',' || names.length > 0) {
+      return null;
+    }
+    i++;
+  }
+
+  if (names.length > 2 || (span && names.length !== 2)) return null;
+  return names.length === 0
+    ? { items }
+    : { items, columns: { first: names[0], last: names[names.length - 1] } };
+}
+
+function matchItem(text: string): TableItemSpecifier | undefined {
+  const upper = text.replace(/\s+/g, ' ').toUpperCase();
+  return ITEM_SPECIFIERS.find(item => item.toUpperCase() === upper);
+}
+
+function unescapeColumnName(name: string): string {
+  return name.replace(/'(.)/g, '$1');
+}
+
+/** Index of the `]` closing the `[` at `open`, honouring nesting and `'` escapes. */
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      i++;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** End of the quoted run starting at `pos` (doubled quotes escape). */
+function skipQuoted(text: string, pos: number, quote: string): number {
+  let i = pos + 1;
+  while (i < text.length) {
+    if (text[i] === quote) {
+      if (text[i + 1] !== quote) return i + 1;
+      i++;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+/** A name right after `!` or `.` belongs to a sheet or an entity field. */
+function isPrecededByQualifier(text: string, pos: number): boolean {
+  const prev = text[pos - 1];
+  return prev === '!' || prev === '.' || prev === '$';
+}
+
+function isNameStart(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}_\\]/u.test(char);
+}
+
+function isNameChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}_.\\]/u.test(char);
+}
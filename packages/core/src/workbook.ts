@@ -1,5 +1,6 @@
-import { Worksheet } from './worksheet';
-import { IFormulaEngine } from './types';
+import { Worksheet, type FormulaRewrite } from './worksheet';
+import { IFormulaEngine, type SheetVisibility, type WorkbookEvents, type WorkbookProtectionOptions } from './types';
+import { Emitter, type Disposable } from './events';
 import { StyleCache } from './StyleCache';
 import { PivotRegistry, PivotRegistryImpl } from './PivotRegistry';
 import type { PivotId } from './PivotRegistry';
@@ -15,6 +16,42 @@ import type { PivotConfig } from './PivotEngine';
 import { PivotEngine } from './PivotEngine';
 import { toDisplayValue } from './utils/cell-value-normalizer'; // Storage→Display boundary
 import { transformToPivotSnapshot } from './PivotSnapshotTransformer';
+import { CrossSheetDependencyIndex } from './dag/CrossSheetDependencyIndex';
+import { packKey, unpackKey } from './dag/DependencyGraph';
+import { NameManager, type DefinedName } from './NameManager';
+import { ChangeTracker } from './ChangeTracker';
+import { verifyPassword } from './utils/password-hash';
+import { ProtectedSheetOperationError } from './sdk/errors';
+import type { TableDefinition } from './TableStore';
+import {
+  extractReferences,
+  extractSheetReferences,
+  extractNamedRanges,
+  type SheetReferenceDependency,
+} from './utils/formula-reference-extractor';
+import { isSameSheetName, validateSheetName, MAX_SHEET_NAME_LENGTH } from './utils/sheet-reference';
+import { FormulaShiftingService, type StructuralChange } from './FormulaShiftingService';
+import { CalculationController, type CalculationScope, type CalculationSettings } from './CalculationController';
+import { WORKBOOK_FORMAT_VERSION, type WorkbookSnapshot } from './persistence/WorkbookSnapshotCodec';
+
+/**
+ * Upper bound on workbook recalc passes. Each pass recalculates every dirty
+ * sheet; a further pass is only needed when a recomputed value dirtied a
+ * formula on another sheet, so only cross-sheet circular references hit this.
+ */
+const MAX_CROSS_SHEET_PASSES = 100;
+
+/**
+ * A sheet taken out by Workbook.removeSheet(), with what restoreSheet() needs
+ * to put it back: its tab position, and the formulas and defined names that
+ * were rewritten to #REF! because they pointed at it.
+ */
+export interface RemovedSheet {
+  sheet: Worksheet;
+  index: number;
+  formulas: FormulaRewrite[];
+  names: DefinedName[];
+}
 
 export class Workbook {
   private sheets = new Map<string, Worksheet>();
@@ -40,6 +77,23 @@ export class Workbook {
     }
   );
   private pivotAnchorIndex = new PivotAnchorIndexImpl(); // Phase 32
+  private crossSheetIndex = new CrossSheetDependencyIndex(() => this.getSheetNames());
+  private nameManager = new NameManager();
+  /** Formula cells that mention a defined name: sheet name → NodeKeys */
+  private nameUsers = new Map<string, Set<number>>();
+  private events = new Emitter<WorkbookEvents>();
+  private changeTracker = new ChangeTracker(this);
+  /** Workbook protection, or null when the workbook is not protected. */
+  private protection: WorkbookProtectionOptions | null = null;
+  private calculation = new CalculationController({
+    calculate: (scope, sheetName) => this.calculate(scope, sheetName),
+    hasDirtyCells: () => this.hasDirtySheets(),
+  });
+
+  constructor() {
+    // A redefined name changes the precedents of every formula using it
+    this.nameManager.on('namesChanged', () => this.refreshNameUsers());
+  }
 
   getStyleCache(): StyleCache {
     return this.styleCache;
@@ -400,32 +454,775 @@ export class Workbook {
     return true;
   }
 
-  addSheet(name: string, rows?: number, cols?: number): Worksheet {
+  /**
+   * Add an empty sheet, at the end of the tab strip unless `index` (0-based)
+   * says otherwise.
+   */
+  addSheet(name: string, rows?: number, cols?: number, index?: number): Worksheet {
+    this.assertStructureUnlocked('addSheet');
     if (this.sheets.has(name)) throw new Error(`Sheet '${name}' already exists`);
     const ws = new Worksheet(name, rows, cols, this.formulaEngine, this);
-    this.sheets.set(name, ws);
-    if (!this._active) this._active = name;
+    this.attachSheet(ws, index ?? this.sheets.size);
+    this.events.emit({ type: 'sheet-added', name, index: this.getSheetIndex(name) });
+    return ws;
+  }
+
+  /** Insert a sheet into the tab order and start observing it. */
+  private attachSheet(ws: Worksheet, index: number): void {
+    const entries = Array.from(this.sheets);
+    entries.splice(Math.max(0, Math.min(index, entries.length)), 0, [ws.name, ws]);
+    this.sheets = new Map(entries);
+    if (!this._active) this._active = ws.name;
 
     // Phase 30b: Subscribe invalidation engine to this worksheet's events
     this.pivotInvalidationEngine.observeWorksheet(
       ws.name,
       (listener) => { const d = ws.on(listener); return () => d.dispose(); }
     );
-
-    return ws;
   }
 
   getSheet(name: string): Worksheet | undefined { return this.sheets.get(name); }
   getSheetNames(): string[] { return Array.from(this.sheets.keys()); }
 
+  /**
+   * Resolve a sheet name the way formulas do: exact match first, then
+   * case-insensitive (Excel sheet names are not case-sensitive).
+   */
+  findSheet(name: string): Worksheet | undefined {
+    const exact = this.sheets.get(name);
+    if (exact) return exact;
+    for (const [sheetName, ws] of this.sheets) {
+      if (isSameSheetName(sheetName, name)) return ws;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the sheets covered by a 3-D reference (`Sheet1:Sheet3!B2`) in tab
+   * order. Either endpoint may come first. Returns an empty array when either
+   * endpoint does not exist (the reference evaluates to #REF!).
+   */
+  resolveSheetSpan(first: string, last: string = first): Worksheet[] {
+    const names = this.getSheetNames();
+    const a = names.findIndex(n => isSameSheetName(n, first));
+    const b = names.findIndex(n => isSameSheetName(n, last));
+    if (a === -1 || b === -1) return [];
+    return names.slice(Math.min(a, b), Math.max(a, b) + 1).map(n => this.sheets.get(n)!);
+  }
+
+  // ==================== Sheet lifecycle ====================
+
+  /** Subscribe to sheet lifecycle events. */
+  on(listener: (e: WorkbookEvents) => void): Disposable {
+    return this.events.on(listener);
+  }
+
+  /** 0-based tab position of a sheet (case-insensitive), or -1. */
+  getSheetIndex(name: string): number {
+    return this.getSheetNames().findIndex(n => isSameSheetName(n, name));
+  }
+
+  /**
+   * Remove a sheet. References to it from other sheets and from defined
+   * names become #REF!, and names scoped to it are dropped. The returned
+   * record restores all of that through restoreSheet().
+   *
+   * @throws Error if the sheet does not exist or is the last (visible) sheet
+   * @throws ProtectedSheetOperationError while the workbook structure is locked
+   */
+  removeSheet(name: string): RemovedSheet {
+    this.assertStructureUnlocked('removeSheet');
+    const ws = this.requireSheet(name);
+    if (this.sheets.size === 1) throw new Error('A workbook must contain at least one sheet');
+    if (ws.getVisibility() === 'visible' && this.visibleSheetNames().length === 1) {
+      throw new Error('A workbook must contain at least one visible sheet');
+    }
+
+    const index = this.getSheetIndex(ws.name);
+    const names = this.nameManager.serialize().map(definedName => ({ ...definedName }));
+
+    // Its formulas stop depending on other sheets while it is out
+    ws.forEachNonEmptyCell((row, col, cell) => {
+      if (cell.formula) this.clearCrossSheetDependencies(ws.name, { row, col });
+    });
+    this.sheets.delete(ws.name);
+    this.pivotInvalidationEngine.unobserveWorksheet(ws.name);
+
+    const formulas = this.rewriteSheetReferences(ws.name, null);
+    this.nameManager.removeSheet(ws.name);
+    this.refreshSpanFormulas();
+    this.pivotInvalidationEngine.invalidateAll();
+
+    if (this._active === ws.name) {
+      const visible = this.visibleSheetNames();
+      this.activate(visible[Math.min(index, visible.length - 1)] ?? this.getSheetNames()[0]);
+    }
+
+    const removed: RemovedSheet = { sheet: ws, index, formulas, names };
+    this.events.emit({ type: 'sheet-removed', name: ws.name, index, removed });
+    return removed;
+  }
+
+  /**
+   * Put back a sheet taken out by removeSheet(), at its old tab position,
+   * with the formulas and defined names that pointed at it.
+   *
+   * @throws Error if a sheet with the same name was added in the meantime
+   */
+  restoreSheet(removed: RemovedSheet): Worksheet {
+    this.assertStructureUnlocked('restoreSheet');
+    const ws = removed.sheet;
+    if (this.findSheet(ws.name)) throw new Error(`Sheet '${ws.name}' already exists`);
+
+    ws.setFormulaEngine(this.formulaEngine);
+    this.attachSheet(ws, removed.index);
+    this.nameManager.deserialize(removed.names.map(definedName => ({ ...definedName })));
+    ws.forEachNonEmptyCell((row, col, cell) => {
+      if (cell.formula) ws.refreshFormulaDependencies({ row, col });
+    });
+    for (const { sheet, address, formula } of removed.formulas) {
+      this.findSheet(sheet)?.setCellFormula(address, formula);
+    }
+    this.refreshSpanFormulas();
+    this.pivotInvalidationEngine.invalidateAll();
+
+    this.events.emit({ type: 'sheet-added', name: ws.name, index: this.getSheetIndex(ws.name), restored: removed });
+    return ws;
+  }
+
+  /**
+   * Rename a sheet and rewrite every formula and defined name that refers
+   * to it, quoting the new name where formulas need it. Names scoped to the
+   * sheet move with it.
+   *
+   * @throws Error if the sheet does not exist, or `to` is invalid or taken
+   */
+  renameSheet(from: string, to: string): void {
+    this.assertStructureUnlocked('renameSheet');
+    const ws = this.requireSheet(from);
+    const problem = validateSheetName(to);
+    if (problem) throw new Error(problem);
+    const existing = this.findSheet(to);
+    if (existing && existing !== ws) throw new Error(`Sheet '${to}' already exists`);
+    const previous = ws.name;
+    if (previous === to) return;
+
+    // Cross-sheet registrations are keyed by the formula's sheet name
+    const formulas: Address[] = [];
+    ws.forEachNonEmptyCell((row, col, cell) => {
+      if (!cell.formula) return;
+      formulas.push({ row, col });
+      this.clearCrossSheetDependencies(previous, { row, col });
+    });
+    this.pivotInvalidationEngine.unobserveWorksheet(previous);
+
+    this.sheets = new Map(Array.from(this.sheets, ([name, sheet]) => [sheet === ws ? to : name, sheet]));
+    ws.setName(to);
+    if (this._active === previous) this._active = to;
+    this.pivotInvalidationEngine.observeWorksheet(
+      ws.name,
+      (listener) => { const d = ws.on(listener); return () => d.dispose(); }
+    );
+
+    this.nameManager.renameSheet(previous, to);
+    this.rewriteSheetReferences(previous, to);
+    for (const addr of formulas) ws.refreshFormulaDependencies(addr);
+    this.pivotInvalidationEngine.invalidateAll();
+
+    this.events.emit({ type: 'sheet-renamed', from: previous, to });
+  }
+
+  /**
+   * Move a sheet to another 0-based tab position. 3-D references
+   * (`First:Last!A1`) cover whichever sheets now lie between their ends.
+   */
+  moveSheet(name: string, toIndex: number): void {
+    this.assertStructureUnlocked('moveSheet');
+    const ws = this.requireSheet(name);
+    const entries = Array.from(this.sheets);
+    if (!Number.isInteger(toIndex) || toIndex < 0 || toIndex >= entries.length) {
+      throw new RangeError(`Sheet index ${toIndex} out of range 0..${entries.length - 1}`);
+    }
+    const from = entries.findIndex(([, sheet]) => sheet === ws);
+    if (from === toIndex) return;
+
+    const [entry] = entries.splice(from, 1);
+    entries.splice(toIndex, 0, entry);
+    this.sheets = new Map(entries);
+    this.refreshSpanFormulas();
+
+    this.events.emit({ type: 'sheet-moved', name: ws.name, from, to: toIndex });
+  }
+
+  /**
+   * Copy a sheet with its cells, formulas, structure and sheet-scoped names.
+   * The copy is named like Excel's ("Data (2)") unless `newName` is given,
+   * and is placed right after the original unless `index` is given.
+   *
+   * @throws Error if the sheet does not exist, or `newName` is invalid or taken
+   */
+  duplicateSheet(name: string, newName?: string, index?: number): Worksheet {
+    this.assertStructureUnlocked('duplicateSheet');
+    const source = this.requireSheet(name);
+    const copyName = newName ?? this.copyNameFor(source.name);
+    const problem = validateSheetName(copyName);
+    if (problem) throw new Error(problem);
+    if (this.findSheet(copyName)) throw new Error(`Sheet '${copyName}' already exists`);
+
+    const ws = new Worksheet(copyName, source.rowCount, source.colCount, this.formulaEngine, this);
+    this.attachSheet(ws, index ?? this.getSheetIndex(source.name) + 1);
+    // Names first, so the copied formulas resolve against the copy's names
+    for (const definedName of this.nameManager.getAllNames()) {
+      if (definedName.scope === 'workbook' || !isSameSheetName(definedName.scope, source.name)) continue;
+      this.nameManager.addName(
+        definedName.name,
+        FormulaShiftingService.renameSheetReferences(definedName.refersTo, source.name, copyName),
+        copyName,
+        definedName.comment,
+      );
+    }
+    ws.copyContentsFrom(source);
+
+    this.events.emit({ type: 'sheet-added', name: copyName, index: this.getSheetIndex(copyName) });
+    return ws;
+  }
+
+  getSheetVisibility(name: string): SheetVisibility {
+    return this.requireSheet(name).getVisibility();
+  }
+
+  /**
+   * Show or hide a sheet's tab. Hiding the active sheet activates the next
+   * visible one.
+   *
+   * @throws Error when hiding the last visible sheet
+   * @throws ProtectedSheetOperationError while the workbook structure is locked
+   */
+  setSheetVisibility(name: string, visibility: SheetVisibility): void {
+    this.assertStructureUnlocked('setSheetVisibility');
+    const ws = this.requireSheet(name);
+    const before = ws.getVisibility();
+    if (before === visibility) return;
+    if (before === 'visible' && this.visibleSheetNames().length === 1) {
+      throw new Error('A workbook must contain at least one visible sheet');
+    }
+
+    ws.setVisibility(visibility);
+    this.events.emit({ type: 'sheet-visibility-changed', name: ws.name, before, after: visibility });
+
+    if (visibility !== 'visible' && this._active === ws.name) {
+      const index = this.getSheetIndex(ws.name);
+      const names = this.getSheetNames();
+      const next = [...names.slice(index + 1), ...names.slice(0, index).reverse()]
+        .find(n => this.sheets.get(n)!.getVisibility() === 'visible');
+      if (next) this.activate(next);
+    }
+  }
+
+  getTabColor(name: string): string | null {
+    return this.requireSheet(name).getTabColor();
+  }
+
+  /** Set a sheet's tab colour (any CSS colour string); null restores the default. */
+  setTabColor(name: string, color: string | null): void {
+    const ws = this.requireSheet(name);
+    const before = ws.getTabColor();
+    if (before === color) return;
+    ws.setTabColor(color);
+    this.events.emit({ type: 'sheet-tab-color-changed', name: ws.name, before, after: color });
+  }
+
+  private requireSheet(name: string): Worksheet {
+    const ws = this.findSheet(name);
+    if (!ws) throw new Error(`Sheet '${name}' not found`);
+    return ws;
+  }
+
+  private visibleSheetNames(): string[] {
+    return this.getSheetNames().filter(n => this.sheets.get(n)!.getVisibility() === 'visible');
+  }
+
+  private activate(name: string): void {
+    const before = this._active;
+    if (before === name) return;
+    this._active = name;
+    this.events.emit({ type: 'active-sheet-changed', before, after: name });
+  }
+
+  /** Name duplicateSheet() gives a copy: "Data" → "Data (2)", skipping names in use. */
+  copyNameFor(name: string): string {
+    const base = name.replace(/ \(\d+\)$/, '');
+    for (let n = 2; ; n++) {
+      const suffix = ` (${n})`;
+      const candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+      if (!this.findSheet(candidate)) return candidate;
+    }
+  }
+
+  /**
+   * Point formulas on every sheet at a renamed sheet (or at #REF! when
+   * `to` is null because it was removed).
+   *
+   * @returns The formulas that changed, with their previous text
+   */
+  private rewriteSheetReferences(from: string, to: string | null): FormulaRewrite[] {
+    const rewritten: FormulaRewrite[] = [];
+    for (const ws of this.sheets.values()) {
+      const updates: Array<{ address: Address; formula: string }> = [];
+      ws.forEachNonEmptyCell((row, col, cell) => {
+        if (!cell.formula) return;
+        const formula = FormulaShiftingService.renameSheetReferences(cell.formula, from, to);
+        if (formula === cell.formula) return;
+        rewritten.push({ sheet: ws.name, address: { row, col }, formula: cell.formula });
+        updates.push({ address: { row, col }, formula });
+      });
+      for (const { address, formula } of updates) ws.setCellFormula(address, formula);
+    }
+    return rewritten;
+  }
+
+  /** Re-resolve formulas with 3-D references after the tab order changed. */
+  private refreshSpanFormulas(): void {
+    for (const ws of this.sheets.values()) {
+      const spanning: Address[] = [];
+      ws.forEachNonEmptyCell((row, col, cell) => {
+        if (cell.formula && extractSheetReferences(cell.formula).some(ref => ref.endSheet !== undefined)) {
+          spanning.push({ row, col });
+        }
+      });
+      for (const addr of spanning) ws.refreshFormulaDependencies(addr);
+    }
+  }
+
+  // ==================== Cross-sheet dependencies ====================
+
+  /**
+   * Register the sheet-qualified precedents of a formula cell.
+   * Called by Worksheet.setCellFormula; replaces any previous registration.
+   */
+  registerCrossSheetDependencies(sheet: string, addr: Address, refs: readonly SheetReferenceDependency[]): void {
+    this.crossSheetIndex.setDependencies(sheet, addr, refs);
+  }
+
+  /** Remove the cross-sheet precedents (and defined-name usage) of a formula cell. */
+  clearCrossSheetDependencies(sheet: string, addr: Address): void {
+    this.crossSheetIndex.clearDependencies(sheet, addr);
+    this.trackNameUser(sheet, addr, false);
+  }
+
+  // ==================== Structural changes ====================
+
+  /**
+   * Rewrite formulas on every sheet except `change.sheet` (which rewrites its
+   * own), and all defined names, after rows or columns were inserted or
+   * deleted on `change.sheet`.
+   *
+   * @returns The formulas that changed, with their previous text
+   */
+  adjustReferencesForStructuralChange(change: StructuralChange): FormulaRewrite[] {
+    const rewritten: FormulaRewrite[] = [];
+    for (const ws of this.sheets.values()) {
+      if (change.sheet !== undefined && isSameSheetName(ws.name, change.sheet)) continue;
+
+      const updates: Array<{ address: Address; formula: string }> = [];
+      ws.forEachNonEmptyCell((row, col, cell) => {
+        if (!cell.formula) return;
+        const formula = FormulaShiftingService.adjustForStructuralChange(cell.formula, change, ws.name);
+        if (formula === cell.formula) return;
+        rewritten.push({ sheet: ws.name, address: { row, col }, formula: cell.formula });
+        updates.push({ address: { row, col }, formula });
+      });
+      for (const { address, formula } of updates) ws.setCellFormula(address, formula);
+    }
+
+    this.nameManager.adjustForStructuralChange(change);
+    return rewritten;
+  }
+
+  // ==================== Tables ====================
+
+  /**
+   * Find a table by name (case-insensitive) on any sheet. Table names are
+   * unique across the workbook, like defined names.
+   */
+  findTable(name: string): { sheet: Worksheet; table: TableDefinition } | undefined {
+    for (const ws of this.sheets.values()) {
+      const table = ws.getTable(name);
+      if (table) return { sheet: ws, table };
+    }
+    return undefined;
+  }
+
+  /** Every table in the workbook, in tab order. */
+  getTables(): Array<{ sheet: Worksheet; table: TableDefinition }> {
+    return Array.from(this.sheets.values()).flatMap(ws => ws.getTables().map(table => ({ sheet: ws, table })));
+  }
+
+  // ==================== Workbook protection ====================
+
+  /**
+   * Protect the workbook. While the structure is locked (the default),
+   * adding, removing, restoring, renaming, moving, copying, hiding and
+   * unhiding sheets throw ProtectedSheetOperationError. `options.password`
+   * is a hash from createPasswordHash().
+   */
+  protectWorkbook(options: WorkbookProtectionOptions = {}): void {
+    this.setWorkbookProtection(options);
+  }
+
+  /**
+   * Replace the workbook protection without asking for a password, e.g. to
+   * undo a protect or unprotect. `null` removes it.
+   */
+  setWorkbookProtection(protection: WorkbookProtectionOptions | null): void {
+    const before = this.getWorkbookProtection();
+    this.protection = protection && { ...protection };
+    this.events.emit({ type: 'workbook-protection-changed', before, after: this.getWorkbookProtection() });
+  }
+
+  /**
+   * Remove workbook protection. Returns false, and the workbook stays
+   * protected, when it has a password that `password` does not match.
+   */
+  unprotectWorkbook(password?: string): boolean {
+    const before = this.getWorkbookProtection();
+    if (!before) return true;
+    if (before.password && !verifyPassword(password ?? '', before.password)) return false;
+    this.setWorkbookProtection(null);
+    return true;
+  }
+
+  isWorkbookProtected(): boolean {
+    return this.protection !== null;
+  }
+
+  /** True while sheets cannot be added, removed, renamed, moved, copied or hidden. */
+  isStructureLocked(): boolean {
+    return this.protection !== null && this.protection.lockStructure !== false;
+  }
+
+  /** The current workbook protection, or null when not protected. */
+  getWorkbookProtection(): WorkbookProtectionOptions | null {
+    return this.protection && { ...this.protection };
+  }
+
+  private assertStructureUnlocked(operation: string): void {
+    if (!this.isStructureLocked()) return;
+    throw new ProtectedSheetOperationError(
+      operation,
+      'lockStructure',
+      `'${operation}' is blocked by workbook structure protection — call unprotectWorkbook() first`,
+    );
+  }
+
+  // ==================== Track changes ====================
+
+  /** Review log of edits made while track changes is on. */
+  getChangeTracker(): ChangeTracker {
+    return this.changeTracker;
+  }
+
+  // ==================== Defined names ====================
+
+  /** Workbook- and sheet-scoped defined names used by formulas. */
+  getNameManager(): NameManager {
+    return this.nameManager;
+  }
+
+  /**
+   * Resolve the defined names used by a formula on `sheet` into the cells
+   * they refer to (following names that refer to other names).
+   *
+   * Also records `sheet!addr` as a name user, so its dependencies are
+   * re-resolved when names are added, updated or removed — including names
+   * the formula mentions before they are defined.
+   */
+  resolveNameDependencies(sheet: string, addr: Address, formula: string): SheetReferenceDependency[] {
+    const candidates = extractNamedRanges(formula);
+    this.trackNameUser(sheet, addr, candidates.length > 0);
+
+    const result: SheetReferenceDependency[] = [];
+    const seen = new Set<DefinedName>();
+    const visit = (names: string[], host: string): void => {
+      for (const name of names) {
+        const definedName = this.nameManager.lookupName(name, host);
+        if (!definedName || seen.has(definedName)) continue;
+        seen.add(definedName);
+
+        // Unqualified references resolve on the name's sheet (sheet scope)
+        // or on the sheet of the formula using it (workbook scope)
+        const target = definedName.scope === 'workbook' ? host : definedName.scope;
+        result.push(...extractSheetReferences(definedName.refersTo));
+        const local = extractReferences(definedName.refersTo, addr);
+        if (local.length > 0) result.push({ sheet: target, addresses: local });
+
+        visit(extractNamedRanges(definedName.refersTo), target);
+      }
+    };
+    visit(candidates, sheet);
+    return result;
+  }
+
+  private trackNameUser(sheet: string, addr: Address, usesNames: boolean): void {
+    const key = packKey(addr.row, addr.col);
+    let keys = this.nameUsers.get(sheet);
+    if (usesNames) {
+      if (!keys) {
+        keys = new Set();
+        this.nameUsers.set(sheet, keys);
+      }
+      keys.add(key);
+    } else if (keys) {
+      keys.delete(key);
+      if (keys.size === 0) this.nameUsers.delete(sheet);
+    }
+  }
+
+  /** Re-resolve and dirty every formula cell that mentions a defined name. */
+  private refreshNameUsers(): void {
+    const users = Array.from(this.nameUsers, ([sheet, keys]) => [sheet, Array.from(keys)] as const);
+    for (const [sheet, keys] of users) {
+      const ws = this.sheets.get(sheet);
+      if (!ws) continue;
+      for (const key of keys) {
+        ws.refreshFormulaDependencies(unpackKey(key));
+      }
+    }
+  }
+
+  /**
+   * Mark formula cells on other sheets dirty after `sheet!addr` changed.
+   *
+   * Walks the changed cell's local dependents too, because a formula on
+   * another sheet may read one of them (Sheet2!A1 → Sheet2!B1 → Sheet1!C1).
+   * Each reached sheet propagates dirtiness through its own DAG via
+   * notifyChanged().
+   */
+  propagateCrossSheetChange(sheet: string, addr: Address): void {
+    if (this.crossSheetIndex.isEmpty) return;
+
+    const queue: Array<{ sheet: string; row: number; col: number }> = [{ sheet, ...addr }];
+    const visited = new Set<string>([`${sheet.toUpperCase()}!${addr.row}:${addr.col}`]);
+    const enqueue = (ref: { sheet: string; row: number; col: number }): boolean => {
+      const key = `${ref.sheet.toUpperCase()}!${ref.row}:${ref.col}`;
+      if (visited.has(key)) return false;
+      visited.add(key);
+      queue.push(ref);
+      return true;
+    };
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      const cell = { row: current.row, col: current.col };
+
+      for (const dependent of this.crossSheetIndex.getDependents(current.sheet, cell)) {
+        const ws = this.findSheet(dependent.sheet);
+        if (!ws) continue;
+        if (enqueue(dependent)) ws.notifyChanged({ row: dependent.row, col: dependent.col });
+      }
+
+      const local = this.findSheet(current.sheet);
+      if (!local) continue;
+      for (const dependent of local.getDependents(cell)) {
+        enqueue({ sheet: local.name, ...dependent });
+      }
+    }
+  }
+
+  /**
+   * Recalculate every dirty formula cell in the workbook.
+   *
+   * Sheets are recalculated in tab order through their own DAGs. A recomputed
+   * value that feeds a formula on another sheet marks that formula dirty, so
+   * passes repeat until no sheet has dirty cells left.
+   *
+   * This is the automatic trigger: in manual calculation mode it only flags
+   * the workbook as needing recalculation and evaluates nothing.
+   *
+   * @returns Total number of cells evaluated across all passes.
+   * @throws Error if no FormulaEngine has been set on the workbook.
+   */
+  recalculate(): number {
+    if (!this.formulaEngine) {
+      throw new Error('Cannot recalculate: no FormulaEngine available. Call setFormulaEngine() first.');
+    }
+
+    if (!this.calculation.isAutomatic()) {
+      if (this.hasDirtySheets()) this.calculation.markNeedsRecalc();
+      return 0;
+    }
+    return this.calculateSheets(Array.from(this.sheets.values()));
+  }
+
+  /**
+   * Recalculate the whole workbook now, volatile formulas included,
+   * whatever the calculation mode (F9).
+   *
+   * @returns Number of cells evaluated.
+   */
+  calculateNow(): number {
+    return this.calculation.calculateNow();
+  }
+
+  /**
+   * Recalculate one sheet now, the active one by default (Shift+F9).
+   * Formulas on other sheets that read it are marked dirty, not evaluated.
+   *
+   * @returns Number of cells evaluated.
+   */
+  calculateSheet(name?: string): number {
+    return this.calculation.calculateSheet(name);
+  }
+
+  /**
+   * Calculation mode, iteration and convergence settings.
+   */
+  getCalculationSettings(): CalculationSettings {
+    return this.calculation.getSettings();
+  }
+
+  /**
+   * Change calculation settings; switching from manual back to automatic
+   * recalculates whatever was edited in the meantime.
+   */
+  setCalculationSettings(settings: Partial<CalculationSettings>): void {
+    this.calculation.setSettings(settings);
+  }
+
+  /**
+   * Controller behind the calculation settings, for subscribing to
+   * calculation events.
+   */
+  getCalculationController(): CalculationController {
+    return this.calculation;
+  }
+
+  private calculate(scope: CalculationScope, sheetName?: string): number {
+    if (!this.formulaEngine) {
+      throw new Error('Cannot calculate: no FormulaEngine available. Call setFormulaEngine() first.');
+    }
+
+    if (scope === 'sheet') {
+      const ws = sheetName ? this.requireSheet(sheetName) : this.activeSheet;
+      if (!ws) return 0;
+      ws.flushVolatiles();
+      return ws.calculate().evaluated;
+    }
+
+    const sheets = Array.from(this.sheets.values());
+    for (const ws of sheets) ws.flushVolatiles();
+    return this.calculateSheets(sheets);
+  }
+
+  private calculateSheets(sheets: Worksheet[]): number {
+    let evaluated = 0;
+    for (let pass = 0; pass < MAX_CROSS_SHEET_PASSES; pass++) {
+      const dirty = sheets.filter(ws => ws.dirtyCount > 0);
+      if (dirty.length === 0) break;
+      for (const ws of dirty) {
+        evaluated += ws.calculate().evaluated;
+      }
+    }
+    return evaluated;
+  }
+
+  private hasDirtySheets(): boolean {
+    return Array.from(this.sheets.values()).some(ws => ws.dirtyCount > 0);
+  }
+
   get activeSheet(): Worksheet | undefined { return this._active ? this.sheets.get(this._active) : undefined; }
-  set activeSheetName(name: string) { if (!this.sheets.has(name)) throw new Error('No such sheet'); this._active = name; }
+  set activeSheetName(name: string) { if (!this.sheets.has(name)) throw new Error('No such sheet'); this.activate(name); }
 
   setFormulaEngine(engine?: IFormulaEngine) {
     this.formulaEngine = engine;
     for (const ws of this.sheets.values()) ws.setFormulaEngine(engine);
   }
 
+  /**
+   * Extract every sheet (cells and sheet settings), defined names, pivot
+   * definitions, calculation settings and the track-changes log into a
+   * plain object.
+   * Encode it with WorkbookSnapshotCodec to persist it.
+   */
+  extractSnapshot(): WorkbookSnapshot {
+    return {
+      version: WORKBOOK_FORMAT_VERSION,
+      sheets: Array.from(this.sheets.values(), ws => ({
+        name: ws.name,
+        rowCount: ws.rowCount,
+        colCount: ws.colCount,
+        content: ws.extractSnapshot(),
+        ...ws.extractSheetState(),
+      })),
+      activeSheet: this._active ?? null,
+      names: this.nameManager.serialize().map(definedName => ({ ...definedName })),
+      pivots: this.pivotRegistry.list().map(pivot => ({
+        name: pivot.name,
+        worksheetId: pivot.worksheetId,
+        config: pivot.config,
+        anchor: this.getPivotAnchor(pivot.id),
+      })),
+      calculation: this.calculation.getSettings(),
+      trackChanges: this.changeTracker.extractSnapshot(),
+      protection: this.getWorkbookProtection(),
+    };
+  }
+
+  /**
+   * Replace all sheets, defined names and pivots with the contents of a
+   * snapshot. Formulas keep their stored values and are re-registered, so
+   * cross-sheet and name dependencies resolve against the restored sheets.
+   *
+   * Listeners see a `sheet-removed` for every old sheet and a `sheet-added`
+   * for every restored one.
+   */
+  applySnapshot(snapshot: WorkbookSnapshot): void {
+    for (const pivot of this.pivotRegistry.list()) this.deletePivot(pivot.id);
+    const previous = Array.from(this.sheets.values());
+    const previousActive = this._active;
+    this.sheets = new Map();
+    this._active = undefined;
+    this.crossSheetIndex.clear();
+    this.nameUsers.clear();
+    previous.forEach((ws, index) => {
+      this.pivotInvalidationEngine.unobserveWorksheet(ws.name);
+      this.events.emit({ type: 'sheet-removed', name: ws.name, index, removed: { sheet: ws, index, formulas: [], names: [] } });
+    });
+
+    this.nameManager.deserialize(snapshot.names.map(definedName => ({ ...definedName })));
+    const restored = snapshot.sheets.map(sheet => {
+      const ws = new Worksheet(sheet.name, sheet.rowCount, sheet.colCount, this.formulaEngine, this);
+      this.attachSheet(ws, this.sheets.size);
+      ws.applySnapshot(sheet.content);
+      ws.applySheetState(sheet);
+      return ws;
+    });
+    // Every sheet exists now, so references between them can be resolved
+    restored.forEach((ws, i) => {
+      for (const { row, col, cell } of snapshot.sheets[i].content.cells) {
+        if (cell.formula) ws.refreshFormulaDependencies({ row, col });
+      }
+    });
+
+    for (const pivot of snapshot.pivots) {
+      if (!this.sheets.has(pivot.worksheetId)) continue;
+      const pivotId = this.createPivot(pivot.name, pivot.worksheetId, pivot.config);
+      if (pivot.anchor) this.setPivotAnchor(pivotId, pivot.anchor, pivot.worksheetId);
+    }
+    this.calculation.setSettings(snapshot.calculation);
+    this.changeTracker.applySnapshot(snapshot.trackChanges);
+    this.protection = snapshot.protection && { ...snapshot.protection };
+
+    for (const ws of restored) {
+      this.events.emit({ type: 'sheet-added', name: ws.name, index: this.getSheetIndex(ws.name) });
+    }
+    // attachSheet() made the first sheet active silently; announce the real one
+    const active = snapshot.activeSheet && this.sheets.has(snapshot.activeSheet) ? snapshot.activeSheet : restored[0]?.name;
+    this._active = previousActive;
+    if (active) this.activate(active);
+    else this._active = undefined;
+  }
+
   /**
    * Phase 28/29/30b/32: Disposal safety
    * Phase 32 patch: Authoritative cleanup path
@@ -437,5 +1234,7 @@ export class Workbook {
     this.pivotAnchorIndex.clear();          // Phase 32: Clear anchor index
     this.pivotRegistry.clear();             // Phase 28: Clear registry
     this.pivotSnapshotStore.clearAll();     // Phase 29: Clear snapshots
+    this.crossSheetIndex.clear();
+    this.nameUsers.clear();
   }
 }
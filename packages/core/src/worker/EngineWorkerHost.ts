@@ -14,6 +14,8 @@
  *  • All mutations are synchronous on the worker thread — no concurrency.
  *  • Snapshot ArrayBuffers are transferred (not copied) back to the caller
  *    via the postMessage transfer list.
+ *  • The Worksheet is wrapped in a SpreadsheetSDK, so `sdk` calls share its
+ *    undo history, protection guards and typed errors.
  *
  * ==========================================================================
  * SUPPORTED OPERATIONS (see EngineWorkerProtocol.ts for full type map)
@@ -23,6 +25,18 @@
  *  mergeCells / hideRow / showRow / hideCol / showCol
  *  snapshot / applySnapshot
  *  applyPatch  ← Phase 10: apply a WorksheetPatch, returns inverse patch
+ *  sdk / sheetInfo / setCellFormula / get/setCellStyle / find / findAll
+ *  evaluateConditionalFormats / subscribe / unsubscribe
+ *
+ * ==========================================================================
+ * CHANGE EVENTS
+ * ==========================================================================
+ *
+ *  While a subscription is open, SDK events raised during a request are
+ *  queued, de-duplicated, and handed to the event sink as one
+ *  EngineEventBatch just before the response is produced.  Recalculation
+ *  writes formula results without per-cell events, so a recalc that
+ *  evaluated anything queues one `structure-changed` instead.
  *
  * ==========================================================================
  * USAGE — Worker entry point (e.g., engine.worker.ts)
@@ -42,15 +56,31 @@
  */
 
 import { Worksheet } from '../worksheet';
+import { FormulaEngine } from '../FormulaEngine';
+import { ConditionalFormattingEngine } from '../ConditionalFormattingEngine';
+import type { CellValue, IFormulaEngine } from '../types';
+import type { Disposable } from '../events';
 import { snapshotCodec }  from '../persistence/SnapshotCodec';
 import { recordingApplyPatch } from '../patch/PatchRecorder';
 import { TransactionContext } from '../transaction/TransactionContext';
 import { TransactionError } from '../transaction/TransactionError';
+import {
+  wrapWorksheet,
+  resolveSpreadsheetOptions,
+  type SpreadsheetSDK,
+  type SdkEvent,
+  type SdkEventType,
+} from '../sdk/SpreadsheetSDK';
 import {
   type EngineRequest,
   type EngineResponse,
+  type EngineEventBatch,
+  type EngineMessage,
   type EngineOpName,
   type RequestPayload,
+  type ResponseResult,
+  SDK_METHODS,
+  CHANGE_EVENT_TYPES,
   getResponseTransferList,
 } from './EngineWorkerProtocol';
 
@@ -59,11 +89,27 @@ import {
 // ---------------------------------------------------------------------------
 
 /**
- * A function that sends a response to the caller.
+ * A function that sends a message (response or event batch) to the caller.
  * In a real Worker this is `self.postMessage`; in tests it's a spy function.
  * The second argument mirrors the transfer-list parameter of postMessage.
  */
-export type SendFn = (response: EngineResponse, transferList: Transferable[]) => void;
+export type SendFn = (message: EngineMessage, transferList: Transferable[]) => void;
+
+/** Receives the change-event batch produced by each request. */
+export type EventSink = (batch: EngineEventBatch) => void;
+
+const SDK_METHOD_SET: ReadonlySet<string> = new Set(SDK_METHODS);
+
+/** Identity of an event for de-duplication within one batch. */
+function eventKey(e: SdkEvent): string {
+  switch (e.type) {
+    case 'cell-changed':
+    case 'style-changed':  return `${e.type}:${e.row}:${e.col}`;
+    case 'filter-changed': return `${e.type}:${e.col}`;
+    case 'sort-applied':   return `${e.type}:${e.startRow}:${e.startCol}:${e.endRow}:${e.endCol}`;
+    default:               return e.type;
+  }
+}
 
 // ---------------------------------------------------------------------------
 // EngineWorkerHost
@@ -79,8 +125,17 @@ export type SendFn = (response: EngineResponse, transferList: Transferable[]) =>
  * the request, safe to call in tests without a real Worker environment.
  */
 export class EngineWorkerHost {
-  private ws: Worksheet;
+  private ws!: Worksheet;
+  private sdk!: SpreadsheetSDK;
   private readonly sheetName: string;
+  private readonly cfEngine = new ConditionalFormattingEngine();
+  private _sdkListeners: Disposable[] = [];
+
+  /** Event types streamed to the caller, or null when not subscribed. */
+  private _subscribed: ReadonlySet<SdkEventType> | null = null;
+  /** Events queued during the current request, keyed by eventKey(). */
+  private readonly _pending = new Map<string, SdkEvent>();
+  private _eventSink: EventSink | null = null;
 
   /**
    * Active transaction, or null when idle.
@@ -90,7 +145,7 @@ export class EngineWorkerHost {
 
   constructor(sheetName = 'Sheet1') {
     this.sheetName = sheetName;
-    this.ws = new Worksheet(sheetName);
+    this._attach(new Worksheet(sheetName));
   }
 
   /** True when a transaction is currently open. */
@@ -113,11 +168,25 @@ export class EngineWorkerHost {
       return { response, transferList };
     } catch (err) {
       const error = err instanceof Error ? err.message : String(err);
-      const response: EngineResponse = { id: msg.id, type: msg.type as EngineOpName, ok: false, error };
+      const code = (err as { code?: unknown } | null)?.code;
+      const response: EngineResponse = typeof code === 'string'
+        ? { id: msg.id, type: msg.type as EngineOpName, ok: false, error, code }
+        : { id: msg.id, type: msg.type as EngineOpName, ok: false, error };
       return { response, transferList: [] };
+    } finally {
+      this._flushEvents();
     }
   }
 
+  /**
+   * Route change-event batches to `sink`.  `install()` sets this to
+   * postMessage; tests set it directly.  Events raised while no sink is set
+   * are dropped.
+   */
+  setEventSink(sink: EventSink | null): void {
+    this._eventSink = sink;
+  }
+
   /**
    * Install the host on globalThis (= `self` inside a Worker).
    * Call once from the worker entry point.
@@ -130,6 +199,8 @@ export class EngineWorkerHost {
       (globalThis as any).postMessage(resp, tl);
     });
 
+    this.setEventSink(batch => send(batch, []));
+
     globalThis.addEventListener('message', (ev: Event | MessageEvent) => {
       const data = (ev as MessageEvent).data as EngineRequest;
       const { response, transferList } = this.handleMessage(data);
@@ -137,6 +208,41 @@ export class EngineWorkerHost {
     });
   }
 
+  // ── Sheet and events ──────────────────────────────────────────────────────
+
+  /** Make `ws` the host's sheet and bridge its SDK events into the queue. */
+  private _attach(ws: Worksheet): void {
+    for (const d of this._sdkListeners) d.dispose();
+    this.sdk?.dispose();
+
+    // The protocol's IFormulaEngine is the legacy shape; Worksheet.calculate()
+    // drives FormulaEngine.evaluate() directly.
+    ws.setFormulaEngine(new FormulaEngine() as unknown as IFormulaEngine);
+    this.ws  = ws;
+    this.sdk = wrapWorksheet(ws, resolveSpreadsheetOptions({ rows: ws.rowCount, cols: ws.colCount }));
+    this._sdkListeners = CHANGE_EVENT_TYPES.map(type => this.sdk.on(type, e => this._queueEvent(e)));
+  }
+
+  private _queueEvent(e: SdkEvent): void {
+    if (!this._subscribed?.has(e.type)) return;
+    const key = eventKey(e);
+    if (!this._pending.has(key)) this._pending.set(key, e);
+  }
+
+  private _flushEvents(): void {
+    if (this._pending.size === 0) return;
+    const events = [...this._pending.values()];
+    this._pending.clear();
+    this._eventSink?.({ type: 'events', events });
+  }
+
+  /** Recalculate the dirty subgraph and announce the new values. */
+  private _recalc(): ResponseResult<'recalc'> {
+    const result = this.ws.calculate();
+    if (result.evaluated > 0) this._queueEvent({ type: 'structure-changed' });
+    return { evaluated: result.evaluated, hasCycles: result.cycles.length > 0 };
+  }
+
   // ── Internal dispatch ─────────────────────────────────────────────────────
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -149,7 +255,8 @@ export class EngineWorkerHost {
       case 'reset':
         // Dispose any open transaction without rollback — we are replacing ws.
         if (this._txn) { this._txn.dispose(); this._txn = null; }
-        this.ws = new Worksheet(this.sheetName);
+        this._attach(new Worksheet(this.sheetName));
+        this._queueEvent({ type: 'structure-changed' });
         return;
 
       // ── Cell read / write ──────────────────────────────────────────────
@@ -236,7 +343,7 @@ export class EngineWorkerHost {
         const { patch, inverse } = txn.commit();
 
         // Recalc exactly once — drain the full dirty subgraph.
-        const recalcResult = this.ws.recalc(() => { /* formula engine not wired in worker yet */ });
+        const recalcResult = this._recalc();
 
         // Defensive invariant: dirty set must be clear after recalc
         // (unless volatile cells exist — they re-seed the dirty set).
@@ -247,12 +354,7 @@ export class EngineWorkerHost {
           hasVolatiles,
         );
 
-        return {
-          patch,
-          inverse,
-          evaluated:  recalcResult.evaluated,
-          hasCycles:  recalcResult.cycles.length > 0,
-        };
+        return { patch, inverse, ...recalcResult };
       }
 
       case 'rollbackTransaction': {
@@ -266,7 +368,7 @@ export class EngineWorkerHost {
         txn.rollback();
 
         // Recalc exactly once — restore formula values to pre-transaction state.
-        this.ws.recalc(() => {});
+        this._recalc();
         return;
       }
 
@@ -277,8 +379,7 @@ export class EngineWorkerHost {
             'recalc cannot be called while a transaction is open; commit first.',
           );
         }
-        const result = this.ws.recalc(() => {});
-        return { evaluated: result.evaluated, hasCycles: result.cycles.length > 0 };
+        return this._recalc();
       }
 
       case 'hasPendingEvaluation': {
@@ -286,6 +387,80 @@ export class EngineWorkerHost {
         return this._txn !== null || this.ws.dirtyCount > 0;
       }
 
+      // ── SpreadsheetSDK parity ─────────────────────────────────────────
+      case 'sdk': {
+        const { method, args } = msg.payload as RequestPayload<'sdk'>;
+        if (!SDK_METHOD_SET.has(method)) {
+          throw new Error(`EngineWorkerHost: "${method}" is not a callable SpreadsheetSDK method.`);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return (this.sdk[method] as (...a: any[]) => unknown).apply(this.sdk, args);
+      }
+
+      case 'sheetInfo': {
+        const { name, rowCount, colCount, canUndo, canRedo } = this.sdk;
+        return { name, rowCount, colCount, canUndo, canRedo };
+      }
+
+      case 'setCellFormula': {
+        const { row, col, formula } = msg.payload as RequestPayload<'setCellFormula'>;
+        this.ws.setCellFormula({ row, col }, formula);
+        return;
+      }
+
+      case 'getCellStyle': {
+        const { row, col } = msg.payload as RequestPayload<'getCellStyle'>;
+        return this.ws.getCellStyle({ row, col });
+      }
+
+      case 'setCellStyle': {
+        const { row, col, style } = msg.payload as RequestPayload<'setCellStyle'>;
+        this.ws.setCellStyle({ row, col }, style);
+        return;
+      }
+
+      case 'find': {
+        const { options, after, range } = msg.payload as RequestPayload<'find'>;
+        return this.ws.find(options, after, range);
+      }
+
+      case 'findAll': {
+        const { options, range } = msg.payload as RequestPayload<'findAll'>;
+        return this.ws.findAll(options, range);
+      }
+
+      case 'evaluateConditionalFormats': {
+        const { range } = msg.payload as RequestPayload<'evaluateConditionalFormats'>;
+        const rules = this.ws.getConditionalFormattingRules();
+        const out: ResponseResult<'evaluateConditionalFormats'> = [];
+        if (rules.length === 0) return out;
+
+        // Statistical rules (top-N, averages, duplicates) cache per call.
+        this.cfEngine.clearCache();
+        const getValue = (addr: { row: number; col: number }) => this.ws.getCellValue(addr) as CellValue;
+        for (let row = range.start.row; row <= range.end.row; row++) {
+          for (let col = range.start.col; col <= range.end.col; col++) {
+            const result = this.cfEngine.applyRules(getValue({ row, col }), rules, {
+              address: { row, col },
+              getValue,
+            });
+            if (result.appliedRuleIds.length > 0) out.push({ row, col, result });
+          }
+        }
+        return out;
+      }
+
+      case 'subscribe': {
+        const { types } = msg.payload as RequestPayload<'subscribe'>;
+        this._subscribed = new Set(types ?? CHANGE_EVENT_TYPES);
+        return;
+      }
+
+      case 'unsubscribe':
+        this._subscribed = null;
+        this._pending.clear();
+        return;
+
       default: {
         throw new Error(`EngineWorkerHost: unknown message type "${(msg as EngineRequest).type}".`);
       }
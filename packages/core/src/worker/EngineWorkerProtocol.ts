@@ -43,10 +43,33 @@
  *  snapshot          Encode and transfer current state as ArrayBuffer.
  *  applySnapshot     Decode and apply a transferred ArrayBuffer snapshot.
  *  applyPatch        Apply a WorksheetPatch; returns the inverse patch.
+ *  sdk               Call any SpreadsheetSDK method on the worker's sheet.
+ *  sheetInfo         Name, dimensions and undo/redo availability.
+ *  setCellFormula    Set a formula; evaluated by the next recalc.
+ *  get/setCellStyle  Read or replace a cell's style.
+ *  find / findAll    Search cell values or formulas.
+ *  evaluateConditionalFormats
+ *                    Evaluate the sheet's conditional formatting over a range.
+ *  subscribe         Start streaming change events; unsubscribe stops it.
+ *
+ * ==========================================================================
+ * CHANGE EVENTS
+ * ==========================================================================
+ *
+ *  While subscribed, the host collects the SpreadsheetSDK events each request
+ *  causes, drops duplicates, and posts them as one EngineEventBatch before
+ *  the request's response.  Batches carry no `id`:
+ *
+ *    proxy.sheet.setCell(1, 1, 42) ──[EngineRequest{type:'sdk'}]──>
+ *    listener([...])              <──[EngineEventBatch{type:'events'}]──
+ *    Promise<void>                <──[EngineResponse{ok:true}]──
  */
 
-import type { ExtendedCellValue } from '../types';
+import type { CellStyle, ExtendedCellValue, Range } from '../types';
 import type { WorksheetPatch } from '../patch/WorksheetPatch';
+import type { SpreadsheetSDK, SdkEvent, SdkEventType } from '../sdk/SpreadsheetSDK';
+import type { SearchOptions, SearchRange } from '../types/search-types';
+import type { ConditionalFormattingResult } from '../ConditionalFormattingEngine';
 
 // ---------------------------------------------------------------------------
 // Core operation map
@@ -55,6 +78,63 @@ import type { WorksheetPatch } from '../patch/WorksheetPatch';
 /** Row/col pair — matches Address but avoids a cross-module import here. */
 export type RC = { row: number; col: number };
 
+// ---------------------------------------------------------------------------
+// SpreadsheetSDK calls
+// ---------------------------------------------------------------------------
+
+/**
+ * SpreadsheetSDK methods the worker runs on the caller's behalf.
+ * Event subscription, dispose and the trace hook take callbacks or end the
+ * sheet's life, so they stay on the calling side.
+ */
+export type SdkMethodName = Exclude<
+  { [K in keyof SpreadsheetSDK]: SpreadsheetSDK[K] extends (...args: never[]) => unknown ? K : never }[keyof SpreadsheetSDK],
+  'on' | 'dispose' | 'setMutationTraceHook'
+>;
+
+/** One SpreadsheetSDK call: method name plus its arguments. */
+export type SdkCall<M extends SdkMethodName = SdkMethodName> = {
+  method: M;
+  args:   Parameters<SpreadsheetSDK[M]>;
+};
+
+/** What an SdkCall resolves with. */
+export type SdkCallResult<M extends SdkMethodName> = ReturnType<SpreadsheetSDK[M]>;
+
+/**
+ * Every callable SpreadsheetSDK method.  The host rejects names not listed
+ * here; the proxy builds its `sheet` facade from it.
+ */
+export const SDK_METHODS = [
+  'setCell', 'getCell', 'getCellValue', 'applyPatch',
+  'snapshot', 'restore', 'encodeSnapshot', 'decodeAndRestore',
+  'undo', 'redo',
+  'mergeCells', 'cancelMerge', 'getMergedRanges', 'isInMerge',
+  'hideRow', 'showRow', 'hideCol', 'showCol', 'isRowHidden', 'isColHidden',
+  'insertRows', 'deleteRows', 'insertCols', 'deleteCols',
+  'setDataValidation', 'getDataValidation', 'removeDataValidation', 'getValidationCells',
+  'setHyperlink', 'removeHyperlink', 'getHyperlink',
+  'setSheetProtection', 'removeSheetProtection', 'isSheetProtected', 'getSheetProtection',
+  'addAllowEditRange', 'removeAllowEditRange', 'getAllowEditRanges', 'unlockAllowEditRange',
+  'isCellProtected', 'lockCell', 'unlockCell', 'isCellLocked', 'lockCells', 'unlockCells', 'getFormula',
+  'setFreezePanes', 'clearFreezePanes', 'getFreezePanes',
+  'groupRows', 'ungroupRows', 'groupCols', 'ungroupCols', 'collapseOutlineGroup', 'expandOutlineGroup',
+  'showOutlineLevel', 'clearOutline', 'autoOutline', 'getOutlineGroups', 'setOutlineSettings', 'getOutlineSettings',
+  'setFilter', 'clearFilter', 'clearAllFilters', 'getFilter', 'getVisibleRows', 'getDistinctValues',
+  'setAutoFilterRange', 'clearAutoFilterRange', 'getAutoFilterRange',
+  'sortRange', 'createPivot',
+] as const satisfies readonly SdkMethodName[];
+
+// Compile-time check that SDK_METHODS lists every SdkMethodName.
+type _MissingSdkMethods = Exclude<SdkMethodName, typeof SDK_METHODS[number]>;
+const _sdkMethodsComplete: [_MissingSdkMethods] extends [never] ? true : _MissingSdkMethods = true;
+void _sdkMethodsComplete;
+
+/** Every SpreadsheetSDK event type a subscription can stream. */
+export const CHANGE_EVENT_TYPES: readonly SdkEventType[] = [
+  'cell-changed', 'style-changed', 'structure-changed', 'filter-changed', 'sort-applied', 'cycle-detected',
+];
+
 /**
  * Single source of truth for every engine operation.
  * Each key maps to `{ payload, result }` where:
@@ -249,6 +329,81 @@ export type EngineOpMap = {
     payload: Record<never, never>;
     result:  boolean;
   };
+
+  // ── SpreadsheetSDK parity ──────────────────────────────────────────────
+
+  /**
+   * Call a SpreadsheetSDK method on the worker's sheet.  Undo history, bounds
+   * checks, protection guards and typed errors are the SDK's; a failed call's
+   * response carries the SdkError `code`.
+   */
+  sdk: {
+    payload: SdkCall;
+    result:  unknown;
+  };
+
+  /** Sheet metadata the SDK exposes as properties. */
+  sheetInfo: {
+    payload: Record<never, never>;
+    result:  { name: string; rowCount: number; colCount: number; canUndo: boolean; canRedo: boolean };
+  };
+
+  /**
+   * Set a cell's formula (e.g. '=SUM(A1:A3)').  Like setCellValue, the
+   * result is computed by the next `recalc` or `commitTransaction`.
+   */
+  setCellFormula: {
+    payload: { row: number; col: number; formula: string };
+    result:  void;
+  };
+
+  /** Read a cell's style; undefined if it has none. */
+  getCellStyle: {
+    payload: { row: number; col: number };
+    result:  CellStyle | undefined;
+  };
+
+  /** Replace a cell's style (undefined clears it). */
+  setCellStyle: {
+    payload: { row: number; col: number; style: CellStyle | undefined };
+    result:  void;
+  };
+
+  /** First match after `after` (wrapping), or null. See Worksheet.find(). */
+  find: {
+    payload: { options: SearchOptions; after?: RC; range?: SearchRange };
+    result:  RC | null;
+  };
+
+  /** Every match in search order. See Worksheet.findAll(). */
+  findAll: {
+    payload: { options: SearchOptions; range?: SearchRange };
+    result:  RC[];
+  };
+
+  /**
+   * Evaluate the sheet's conditional formatting rules over `range`.
+   * Only cells at least one rule applies to are returned.
+   */
+  evaluateConditionalFormats: {
+    payload: { range: Range };
+    result:  Array<{ row: number; col: number; result: ConditionalFormattingResult }>;
+  };
+
+  /**
+   * Start streaming change events as EngineEventBatch messages, limited to
+   * `types` when given.  Subscribing again replaces the filter.
+   */
+  subscribe: {
+    payload: { types?: SdkEventType[] };
+    result:  void;
+  };
+
+  /** Stop streaming change events. */
+  unsubscribe: {
+    payload: Record<never, never>;
+    result:  void;
+  };
 };
 
 /** All supported operation names. */
@@ -281,11 +436,29 @@ export type EngineRequest<K extends EngineOpName = EngineOpName> = {
 /**
  * Response message sent from EngineWorkerHost → WorkerEngineProxy.
  *   ok: true  — operation succeeded; `result` carries the return value.
- *   ok: false — operation threw; `error` carries the message string.
+ *   ok: false — operation threw; `error` carries the message string and
+ *               `code` the error's code (SdkError, TransactionError), if any.
  */
 export type EngineResponse<K extends EngineOpName = EngineOpName> =
   | { id: number; type: K; ok: true;  result: ResponseResult<K> }
-  | { id: number; type: K; ok: false; error:  string            };
+  | { id: number; type: K; ok: false; error:  string; code?: string };
+
+/**
+ * Change notifications streamed from EngineWorkerHost → WorkerEngineProxy
+ * while subscribed.  One batch per request; duplicate events are dropped.
+ */
+export type EngineEventBatch = {
+  type:   'events';
+  events: SdkEvent[];
+};
+
+/** Anything the worker posts to the main thread. */
+export type EngineMessage = EngineResponse | EngineEventBatch;
+
+/** True for a change-event batch, false for a request's response. */
+export function isEngineEventBatch(msg: EngineMessage): msg is EngineEventBatch {
+  return !('id' in msg);
+}
 
 // ---------------------------------------------------------------------------
 // Transferable detection helper
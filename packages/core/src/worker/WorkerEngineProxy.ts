@@ -21,6 +21,14 @@
  *  const buf = await engine.snapshot();        // ArrayBuffer transferred from worker
  *  await engine.applySnapshot(buf);            // ArrayBuffer transferred back
  *
+ *  // Any SpreadsheetSDK method, awaited
+ *  await engine.sheet.sortRange(range, [{ col: 1, dir: 'asc' }]);
+ *  await engine.sheet.undo();
+ *
+ *  // Batched change notifications for the renderer
+ *  const sub = await engine.subscribe(events => renderer.invalidate(events));
+ *  sub.dispose();
+ *
  *  engine.terminate();
  *
  * ==========================================================================
@@ -44,14 +52,22 @@
  *  This is the canonical zero-copy snapshot exchange pattern.
  */
 
-import type { ExtendedCellValue } from '../types';
+import type { CellStyle, ExtendedCellValue, Range } from '../types';
+import type { Disposable } from '../events';
 import type { WorksheetPatch } from '../patch/WorksheetPatch';
+import type { SpreadsheetSDK, SdkEvent, SdkEventType } from '../sdk/SpreadsheetSDK';
+import type { SearchOptions, SearchRange } from '../types/search-types';
 import {
   type EngineOpName,
   type EngineRequest,
-  type EngineResponse,
+  type EngineMessage,
   type ResponseResult,
   type RC,
+  type SdkMethodName,
+  type SdkCall,
+  type SdkCallResult,
+  SDK_METHODS,
+  isEngineEventBatch,
   getRequestTransferList,
 } from './EngineWorkerProtocol';
 
@@ -74,6 +90,37 @@ export interface IWorkerLike {
   terminate(): void;
 }
 
+// ---------------------------------------------------------------------------
+// Remote SDK facade and errors
+// ---------------------------------------------------------------------------
+
+/**
+ * The SpreadsheetSDK surface with every method returning a Promise of its
+ * result.  Calls are forwarded to the worker's SDK instance.
+ */
+export type RemoteSpreadsheet = {
+  [M in SdkMethodName]: (...args: Parameters<SpreadsheetSDK[M]>) => Promise<SdkCallResult<M>>;
+};
+
+/** Receives each batch of change events streamed from the worker. */
+export type ChangeListener = (events: SdkEvent[]) => void;
+
+/**
+ * Rejection reason for a failed worker operation.  `code` is the worker-side
+ * error's code (e.g. SdkError 'BOUNDS', TransactionError 'ALREADY_OPEN').
+ */
+export class WorkerOperationError extends Error {
+  readonly operation: EngineOpName;
+  readonly code: string | undefined;
+
+  constructor(operation: EngineOpName, message: string, code?: string) {
+    super(`[Worker:${operation}] ${message}`);
+    this.name = 'WorkerOperationError';
+    this.operation = operation;
+    this.code = code;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Pending request record
 // ---------------------------------------------------------------------------
@@ -96,12 +143,22 @@ type Pending<K extends EngineOpName = EngineOpName> = {
 export class WorkerEngineProxy {
   private readonly worker:  IWorkerLike;
   private readonly pending: Map<number, Pending> = new Map();
+  private readonly listeners: Set<ChangeListener> = new Set();
   private nextId = 1;
   private terminated = false;
 
+  /** Promise-returning SpreadsheetSDK facade over the worker's sheet. */
+  readonly sheet: RemoteSpreadsheet;
+
   constructor(worker: IWorkerLike) {
     this.worker = worker;
     this.worker.addEventListener('message', this._onMessage);
+
+    const sheet = {} as Record<SdkMethodName, (...args: unknown[]) => Promise<unknown>>;
+    for (const method of SDK_METHODS) {
+      sheet[method] = (...args) => this._send('sdk', { method, args } as SdkCall);
+    }
+    this.sheet = sheet as unknown as RemoteSpreadsheet;
   }
 
   // ── Core send / receive ───────────────────────────────────────────────────
@@ -125,15 +182,20 @@ export class WorkerEngineProxy {
   }
 
   private readonly _onMessage = (ev: MessageEvent): void => {
-    const resp = ev.data as EngineResponse;
-    const pending = this.pending.get(resp.id);
+    const msg = ev.data as EngineMessage;
+    if (isEngineEventBatch(msg)) {
+      for (const listener of [...this.listeners]) listener(msg.events);
+      return;
+    }
+
+    const pending = this.pending.get(msg.id);
     if (!pending) return; // stale or unknown id — ignore
-    this.pending.delete(resp.id);
+    this.pending.delete(msg.id);
 
-    if (resp.ok) {
-      pending.resolve(resp.result as ResponseResult<EngineOpName>);
+    if (msg.ok) {
+      pending.resolve(msg.result as ResponseResult<EngineOpName>);
     } else {
-      pending.reject(new Error(`[Worker:${resp.type}] ${resp.error}`));
+      pending.reject(new WorkerOperationError(msg.type, msg.error, msg.code));
     }
   };
 
@@ -157,6 +219,7 @@ export class WorkerEngineProxy {
       reject(new Error('WorkerEngineProxy: worker terminated before response.'));
     }
     this.pending.clear();
+    this.listeners.clear();
   }
 
   /**
@@ -322,4 +385,76 @@ export class WorkerEngineProxy {
   hasPendingEvaluation(): Promise<boolean> {
     return this._send('hasPendingEvaluation', {});
   }
+
+  // ── SpreadsheetSDK parity ─────────────────────────────────────────────────
+
+  /** Sheet name, dimensions and undo/redo availability. */
+  getSheetInfo(): Promise<ResponseResult<'sheetInfo'>> {
+    return this._send('sheetInfo', {});
+  }
+
+  /**
+   * Set a cell's formula (e.g. '=SUM(A1:A3)').  The result is computed by
+   * the next `recalc()` or `commitTransaction()`.
+   */
+  setCellFormula(row: number, col: number, formula: string): Promise<void> {
+    return this._send('setCellFormula', { row, col, formula });
+  }
+
+  /** Read a cell's style; undefined if it has none. */
+  getCellStyle(row: number, col: number): Promise<CellStyle | undefined> {
+    return this._send('getCellStyle', { row, col });
+  }
+
+  /** Replace a cell's style; pass undefined to clear it. */
+  setCellStyle(row: number, col: number, style: CellStyle | undefined): Promise<void> {
+    return this._send('setCellStyle', { row, col, style });
+  }
+
+  /** First match after `after` (wrapping), or null. */
+  find(options: SearchOptions, after?: RC, range?: SearchRange): Promise<RC | null> {
+    return this._send('find', { options, after, range });
+  }
+
+  /** Every match in search order. */
+  findAll(options: SearchOptions, range?: SearchRange): Promise<RC[]> {
+    return this._send('findAll', { options, range });
+  }
+
+  /**
+   * Evaluate the sheet's conditional formatting over `range`, returning the
+   * cells at least one rule applies to.
+   */
+  evaluateConditionalFormats(range: Range): Promise<ResponseResult<'evaluateConditionalFormats'>> {
+    return this._send('evaluateConditionalFormats', { range });
+  }
+
+  // ── Change events ─────────────────────────────────────────────────────────
+
+  /**
+   * Receive batched change events from the worker.  The first listener opens
+   * the worker-side subscription and disposing the last one closes it.
+   * Batches arrive before the response of the request that caused them.
+   *
+   * @param types  Event types to stream; all when omitted.  Applies to the
+   *               whole subscription, so the latest call wins.
+   */
+  async subscribe(listener: ChangeListener, types?: SdkEventType[]): Promise<Disposable> {
+    const first = this.listeners.size === 0;
+    this.listeners.add(listener);
+    if (first || types) {
+      try {
+        await this._send('subscribe', { types });
+      } catch (err) {
+        this.listeners.delete(listener);
+        throw err;
+      }
+    }
+    return {
+      dispose: () => {
+        if (!this.listeners.delete(listener) || this.listeners.size > 0 || this.terminated) return;
+        this._send('unsubscribe', {}).catch(() => { /* worker gone — nothing to close */ });
+      },
+    };
+  }
 }
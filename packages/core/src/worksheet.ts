@@ -1,8 +1,13 @@
-import { Address, Cell, CellStyle, CellComment, CellIcon, ColumnFilter, MergedRegion, Range, SheetEvents, IFormulaEngine, type CellValue, type DataValidationRule, type SheetProtectionOptions, type FreezeState, type SortKey, type AutoFilterRange } from './types';
+import { Address, Cell, CellStyle, CellComment, CellIcon, CellHyperlink, ColumnFilter, MergedRegion, Range, SheetEvents, IFormulaEngine, type CellValue, type SheetVisibility, type DataValidationRule, type SheetProtectionOptions, type AllowEditRange, type FreezeState, type SortKey, type AutoFilterRange, type OutlineAxis, type OutlineAxisState, type OutlineGroup, type OutlineSettings, type OutlineState } from './types';
 import { ConditionalFormattingRule } from './ConditionalFormattingEngine';
 import { Emitter } from './events';
 import { SearchOptions, SearchRange, SearchResult, SpecialCellsOptions, SpecialCellValue } from './types/search-types';
-import { extractReferences } from './utils/formula-reference-extractor';
+import { extractReferences, extractSheetReferences, type SheetReferenceDependency } from './utils/formula-reference-extractor';
+import { isSameSheetName } from './utils/sheet-reference';
+import { findHyperlinkCall, validateHyperlinkTarget } from './utils/hyperlinks';
+import { verifyPassword } from './utils/password-hash';
+import { DEFAULT_OUTLINE_SETTINGS, MAX_OUTLINE_LEVEL, buildOutlineGroups, findSubtotalRanges } from './utils/outline';
+import type { Workbook } from './workbook';
 import {
   buildMatcher,
   cellValueToString,
@@ -26,12 +31,128 @@ import {
   type IterativeRecalcResult,
   type RecalcIterationPolicy,
   unpackKey,
+  packKey,
 } from './dag/DependencyGraph';
+import {
+  InsertRowsTransform,
+  DeleteRowsTransform,
+  InsertColumnsTransform,
+  DeleteColumnsTransform,
+  type BandTransform,
+} from './dag/AddressTransform';
+import { FormulaShiftingService, type StructuralChange } from './FormulaShiftingService';
+import type { DefinedName } from './NameManager';
 import { FORMAT_VERSION, type WorksheetSnapshot } from './persistence/SnapshotCodec';
+import type { SheetStateSnapshot } from './persistence/WorkbookSnapshotCodec';
+import { DrawingLayer } from './DrawingLayer';
+import {
+  TableStore,
+  DEFAULT_TABLE_STYLE,
+  cloneTable,
+  formatTableRange,
+  getTableCellStyle,
+  getTableDataRange,
+  getTableColumnIndex,
+  getTotalsRowFormula,
+  resolveStructuredReference,
+  uniqueColumnName,
+  validateTableName,
+  type TableColumn,
+  type TableDefinition,
+  type TableOptions,
+  type TableStyleInfo,
+  type TableTotalsFunction,
+} from './TableStore';
+import {
+  replaceStructuredReferences,
+  renameTableInFormula,
+  renameTableColumnInFormula,
+} from './utils/structured-references';
 export type { WorksheetSnapshot } from './persistence/SnapshotCodec';
 
+/**
+ * A formula rewritten by a structural edit, with its address and text from
+ * before the edit (used to undo the edit exactly).
+ */
+export interface FormulaRewrite {
+  sheet: string;
+  address: Address;
+  formula: string;
+}
+
+/**
+ * Everything Worksheet.deleteRows()/deleteCols() removed or rewrote;
+ * restoreRows()/restoreCols() use it to put the sheet back. Sheet-level state
+ * is captured whole, cells only for the deleted band.
+ */
+export interface DeletedBand {
+  axis: 'row' | 'col';
+  index: number;
+  count: number;
+  cells: Array<{ row: number; col: number; cell: Cell }>;
+  formulas: FormulaRewrite[];
+  merges: MergedRegion[];
+  validations: Array<[string, DataValidationRule]>;
+  /** Hidden rows (or columns) */
+  hidden: number[];
+  /** Row heights (or column widths) by index */
+  sizes: Array<[number, number]>;
+  conditionalRules: ConditionalFormattingRule[];
+  filters: Array<[number, ColumnFilter]>;
+  freezePanes: FreezeState | null;
+  autoFilterRange: AutoFilterRange | null;
+  tables: TableDefinition[];
+  allowEditRanges: AllowEditRange[];
+  /** Row (or column) outline levels and collapsed groups */
+  outline: OutlineAxisState;
+  /** Defined names before the delete, or null outside a Workbook */
+  names: DefinedName[] | null;
+}
+
+/** Rebuild a map keyed by row/column index, dropping keys that map to null. */
+function remapKeys<V>(map: Map<number, V>, mapIndex: (index: number) => number | null): Map<number, V> {
+  const result = new Map<number, V>();
+  for (const [index, value] of map) {
+    const to = mapIndex(index);
+    if (to !== null) result.set(to, value);
+  }
+  return result;
+}
+
+function copyAllowEditRange({ name, range, password }: AllowEditRange): AllowEditRange {
+  const { start, end } = range;
+  return {
+    name,
+    range: {
+      start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+      end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+    },
+    ...(password && { password: { ...password } }),
+  };
+}
+
+/** Outline levels by index, and collapsed groups as "start:level" keys. */
+type OutlineStore = { levels: Map<number, number>; collapsed: Set<string> };
+
+function outlineKey(start: number, level: number): string {
+  return `${start}:${level}`;
+}
+
+/** Plain-data form of an OutlineStore, in index order. */
+function toOutlineAxisState({ levels, collapsed }: OutlineStore): OutlineAxisState {
+  return {
+    levels: Array.from(levels).sort((a, b) => a[0] - b[0]),
+    collapsed: Array.from(collapsed, key => key.split(':').map(Number) as [number, number])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]),
+  };
+}
+
+function fromOutlineAxisState({ levels, collapsed }: OutlineAxisState): OutlineStore {
+  return { levels: new Map(levels), collapsed: new Set(collapsed.map(([start, level]) => outlineKey(start, level))) };
+}
+
 export class Worksheet {
-  readonly name: string;
+  private _name: string;
   /** Cell store — ICellStore boundary; swap implementation without touching any other Worksheet code. */
   private cells: ICellStore = new CellStoreV1();
   private colWidths = new Map<number, number>(); // px
@@ -40,11 +161,30 @@ export class Worksheet {
   private validationStore = new Map<string, DataValidationRule>();
   /** Sheet-level protection settings, or null when not protected. */
   private sheetProtection: SheetProtectionOptions | null = null;
+  /** Ranges whose locked cells stay editable under sheet protection. */
+  private allowEditRanges: AllowEditRange[] = [];
+  /** Lower-cased names of password ranges unlocked this session; never persisted. */
+  private unlockedEditRanges = new Set<string>();
+  /** Row and column outline groups (Data ▸ Group). */
+  private outline: Record<OutlineAxis, OutlineStore> = {
+    row: { levels: new Map(), collapsed: new Set() },
+    col: { levels: new Map(), collapsed: new Set() },
+  };
+  private outlineSettings: OutlineSettings = { ...DEFAULT_OUTLINE_SETTINGS };
   /** Freeze-pane state, or null when no panes are frozen. */
   private freezeState: FreezeState | null = null;
   /** Auto-filter range marker (header row + column span), or null if not set. */
   private autoFilterRange: AutoFilterRange | null = null;
   private filters = new Map<number, ColumnFilter>();
+  /** Whether the sheet's tab is shown; hidden sheets still calculate. */
+  private visibility: SheetVisibility = 'visible';
+  /** Tab colour as a CSS colour string, or null for the default tab. */
+  private tabColor: string | null = null;
+  /** Pictures, shapes, charts and other floating objects on this sheet. */
+  private drawingLayer = new DrawingLayer();
+  private tableStore = new TableStore();
+  /** Set while the sheet writes table cells itself, so edits don't re-trigger table sync */
+  private _tableSync = false;
   private events = new Emitter<SheetEvents>();
   private formulaEngine?: IFormulaEngine;
   /**
@@ -73,7 +213,7 @@ export class Worksheet {
    */
   private readonly recalcCoordinator = new RecalcCoordinator(this.dag);
   private conditionalRules: ConditionalFormattingRule[] = [];
-  private workbook?: any; // Reference to parent Workbook (for StyleCache access)
+  private workbook?: Workbook; // Reference to parent Workbook (StyleCache, cross-sheet references)
   /** Phase 28: Internal worksheet ID for pivot registry */
   private worksheetId: string;
   /** Reference to SpreadsheetEngine for E2 invariant enforcement */
@@ -85,8 +225,8 @@ export class Worksheet {
   private _inTransaction = false;
   private _pendingEvents: SheetEvents[] = [];
 
-  constructor(name: string, rows = 1000, cols = 26, engine?: IFormulaEngine, workbook?: any, spreadsheetEngine?: { isMutating(): boolean }) {
-    this.name = name;
+  constructor(name: string, rows = 1000, cols = 26, engine?: IFormulaEngine, workbook?: Workbook, spreadsheetEngine?: { isMutating(): boolean }) {
+    this._name = name;
     this.rowCount = rows;
     this.colCount = cols;
     this.formulaEngine = engine;
@@ -99,6 +239,24 @@ export class Worksheet {
     return this.events.on(listener);
   }
 
+  /** Sheet name, as written in references from other sheets (`Name!A1`). */
+  get name(): string {
+    return this._name;
+  }
+
+  /**
+   * @internal Only Workbook.renameSheet() calls this, after it has re-keyed
+   * the sheet and rewritten the references to it.
+   */
+  setName(name: string): void {
+    this._name = name;
+  }
+
+  /** Parent Workbook, if this sheet was created through Workbook.addSheet(). */
+  getWorkbook(): Workbook | undefined {
+    return this.workbook;
+  }
+
   /**
    * Assert that we're in a valid mutation state.
    * Throws if called outside engine.run() (E2 invariant enforcement).
@@ -249,7 +407,9 @@ export class Worksheet {
     c.value = value;
     if (this.formulaEngine) this.formulaEngine.onCellChanged?.(addr, c);
     this.recalcCoordinator.notifyChanged(addr.row, addr.col);
+    this.workbook?.propagateCrossSheetChange(this.name, addr);
     this._emitOrBuffer({ type: 'cell-changed', address: addr, cell: { ...c }, previousValue });
+    if (!this._tableSync && this.tableStore.size > 0) this.syncTablesAfterEntry(addr);
   }
 
   /**
@@ -270,21 +430,74 @@ export class Worksheet {
     }
 
     const c = this.ensureCell(addr);
+    const formulaChange = { previousFormula: c.formula ?? null, previousValue: c.value };
     c.formula = formula;
     if (displayValue !== undefined) c.value = displayValue;
     
     // Phase 3: Automatically extract and register formula dependencies
+    this.registerFormulaDependencies(addr, formula);
+    
+    if (this.formulaEngine) this.formulaEngine.onCellChanged?.(addr, c);
+    this.recalcCoordinator.notifyChanged(addr.row, addr.col);
+    this.workbook?.propagateCrossSheetChange(this.name, addr);
+    this._emitOrBuffer({ type: 'cell-changed', address: addr, cell: { ...c }, formulaChange });
+    if (!this._tableSync && this.tableStore.size > 0) this.syncTablesAfterEntry(addr, formula);
+  }
+
+  /**
+   * Extract a formula's precedents and register them: same-sheet cells in this
+   * sheet's DAG, other sheets' cells (direct, via defined names or via table
+   * references) on the parent Workbook.
+   */
+  private registerFormulaDependencies(addr: Address, written: string): void {
     try {
+      const formula = this.resolveStructuredReferences(written, addr);
       const dependencies = extractReferences(formula, addr);
+      const sheetRefs = extractSheetReferences(formula);
+      if (this.workbook) sheetRefs.push(...this.workbook.resolveNameDependencies(this.name, addr, formula));
+      const external = this.splitSheetReferences(sheetRefs, dependencies);
       this.registerDependencies(addr, dependencies);
+      this.workbook?.registerCrossSheetDependencies(this.name, addr, external);
     } catch (error) {
       // Dependency extraction failed - log but continue
       console.warn(`Failed to extract dependencies from formula at ${addr.row}:${addr.col}:`, error);
     }
-    
-    if (this.formulaEngine) this.formulaEngine.onCellChanged?.(addr, c);
+  }
+
+  /**
+   * Re-extract a formula cell's dependencies and mark it dirty.
+   * Called by the Workbook when a defined name the formula uses changes.
+   */
+  refreshFormulaDependencies(addr: Address): void {
+    const formula = this.cells.get(addr.row, addr.col)?.formula;
+    if (!formula) {
+      this.clearDependencies(addr);
+      return;
+    }
+    this.registerFormulaDependencies(addr, formula);
     this.recalcCoordinator.notifyChanged(addr.row, addr.col);
-    this._emitOrBuffer({ type: 'cell-changed', address: addr, cell: { ...c } });
+    this.workbook?.propagateCrossSheetChange(this.name, addr);
+  }
+
+  /**
+   * Split sheet-qualified references into those that point back at this
+   * sheet (appended to `local`, so they live in this sheet's DAG) and those
+   * that must be tracked by the parent Workbook. A 3-D span that covers this
+   * sheet contributes to both.
+   */
+  private splitSheetReferences(refs: SheetReferenceDependency[], local: Address[]): SheetReferenceDependency[] {
+    const external: SheetReferenceDependency[] = [];
+    for (const ref of refs) {
+      if (ref.endSheet === undefined) {
+        if (isSameSheetName(ref.sheet, this.name)) local.push(...ref.addresses);
+        else external.push(ref);
+        continue;
+      }
+      const span = this.workbook?.resolveSheetSpan(ref.sheet, ref.endSheet) ?? [];
+      if (span.includes(this)) local.push(...ref.addresses);
+      external.push(ref);
+    }
+    return external;
   }
 
   /**
@@ -423,6 +636,7 @@ export class Worksheet {
     }
 
     const c = this.ensureCell(addr);
+    const previousStyle = c.style;
 
     // Auto-intern through workbook StyleCache (entropy-resistant boundary)
     // Protects against XLSX import, UI mutations, and spread operators
@@ -432,7 +646,7 @@ export class Worksheet {
     }
 
     c.style = internedStyle; // Reference to canonical style (not a copy)
-    this._emitOrBuffer({ type: 'style-changed', address: addr, style: internedStyle });
+    this._emitOrBuffer({ type: 'style-changed', address: addr, style: internedStyle, previousStyle });
   }
 
   // ==================== Conditional Formatting ====================
@@ -545,6 +759,77 @@ export class Worksheet {
     return this.sheetProtection === null ? null : { ...this.sheetProtection };
   }
 
+  /**
+   * Add a range whose locked cells stay editable while the sheet is
+   * protected. `range.password` is a hash from createPasswordHash().
+   *
+   * @throws Error if the name is empty or already used on this sheet
+   */
+  addAllowEditRange(range: AllowEditRange): void {
+    const name = range.name.trim();
+    if (name.length === 0) throw new Error('Allow-edit range name cannot be empty');
+    if (this.getAllowEditRange(name)) throw new Error(`Allow-edit range '${name}' already exists`);
+    this.setAllowEditRanges([...this.allowEditRanges, { ...range, name }]);
+  }
+
+  /** Remove the allow-edit range called `name`. Returns false if there is none. */
+  removeAllowEditRange(name: string): boolean {
+    const target = this.getAllowEditRange(name);
+    if (!target) return false;
+    this.setAllowEditRanges(this.allowEditRanges.filter(range => range.name !== target.name));
+    return true;
+  }
+
+  /**
+   * Replace all allow-edit ranges. A range stays unlocked only while it
+   * keeps its name and password.
+   */
+  setAllowEditRanges(ranges: AllowEditRange[]): void {
+    const before = this.getAllowEditRanges();
+    this.allowEditRanges = ranges.map(copyAllowEditRange);
+    for (const key of this.unlockedEditRanges) {
+      const previous = before.find(range => range.name.toLowerCase() === key);
+      const current = this.getAllowEditRange(key);
+      if (!current || current.password?.hashValue !== previous?.password?.hashValue) this.unlockedEditRanges.delete(key);
+    }
+    this.events.emit({ type: 'allow-edit-ranges-changed', before, after: this.getAllowEditRanges() });
+  }
+
+  getAllowEditRanges(): AllowEditRange[] {
+    return this.allowEditRanges.map(copyAllowEditRange);
+  }
+
+  /** The allow-edit range called `name` (case-insensitive), or undefined. */
+  getAllowEditRange(name: string): AllowEditRange | undefined {
+    const range = this.allowEditRanges.find(r => r.name.toLowerCase() === name.toLowerCase());
+    return range && copyAllowEditRange(range);
+  }
+
+  /**
+   * Open a password-protected allow-edit range for the rest of the session.
+   * Returns false, leaving it closed, when there is no such range or the
+   * password is wrong. Ranges without a password are always open.
+   */
+  unlockAllowEditRange(name: string, password: string): boolean {
+    const range = this.allowEditRanges.find(r => r.name.toLowerCase() === name.toLowerCase());
+    if (!range) return false;
+    if (range.password && !verifyPassword(password, range.password)) return false;
+    this.unlockedEditRanges.add(range.name.toLowerCase());
+    return true;
+  }
+
+  /**
+   * True when `address` lies in an open allow-edit range: one without a
+   * password, or one unlocked through unlockAllowEditRange().
+   */
+  isInAllowEditRange(address: Address): boolean {
+    return this.allowEditRanges.some(({ name, range: { start, end }, password }) =>
+      (!password || this.unlockedEditRanges.has(name.toLowerCase())) &&
+      address.row >= start.row && address.row <= end.row &&
+      address.col >= start.col && address.col <= end.col
+    );
+  }
+
   // ── Freeze Panes ─────────────────────────────────────────────────────────
 
   /**
@@ -755,6 +1040,584 @@ export class Worksheet {
     return this.autoFilterRange === null ? null : { ...this.autoFilterRange };
   }
 
+  // ── Tables ────────────────────────────────────────────────────────────────
+
+  /**
+   * Turn a range into a table (Excel "Format as Table").
+   *
+   * `range` covers the whole table: the header row (unless `headerRow` is
+   * false), at least one data row and, with `totalsRow`, the totals row.
+   * Column names come from `options.columns`, else from the header cells;
+   * empty and duplicate headers become `ColumnN` / numbered names and are
+   * written back. Totals row cells are written for columns that have a
+   * totals function or label.
+   *
+   * @throws Error when the name is invalid or in use, the range has no data
+   *         row, or it overlaps another table or a merged range
+   */
+  addTable(range: Range, options: TableOptions = {}): TableDefinition {
+    this.assertMutating('addTable');
+    const normalized = this.normalizeRange(range);
+    const headerRow = options.headerRow ?? true;
+    const totalsRow = options.totalsRow ?? false;
+    const name = options.name ?? this.nextTableName();
+    this.assertTableNameAvailable(name);
+    this.assertTableRange(normalized, headerRow, totalsRow, name);
+
+    const columns: TableColumn[] = [];
+    for (let col = normalized.start.col; col <= normalized.end.col; col++) {
+      const index = col - normalized.start.col;
+      const given = options.columns?.[index] ?? {};
+      const header = headerRow ? this.getCellValue({ row: normalized.start.row, col }) : null;
+      columns.push({ ...given, name: uniqueColumnName(columns, given.name ?? this.columnNameFrom(header, index)) });
+    }
+
+    const table: TableDefinition = {
+      name,
+      range: normalized,
+      headerRow,
+      totalsRow,
+      columns,
+      style: { ...DEFAULT_TABLE_STYLE, ...options.style },
+    };
+    this.tableStore.set(table);
+    this.runTableSync(() => {
+      this.writeTableHeaders(table);
+      this.writeTableTotals(table);
+    });
+    this.afterTableChange(null, table);
+    return cloneTable(table);
+  }
+
+  /**
+   * Convert a table back to a plain range (Excel "Convert to Range"). Cells
+   * are kept; formulas using the table's structured references are rewritten
+   * to the A1 ranges they selected.
+   */
+  removeTable(name: string): boolean {
+    this.assertMutating('removeTable');
+    const table = this.tableStore.get(name);
+    if (!table) return false;
+
+    const own = (tableName?: string) => tableName?.toUpperCase() === table.name.toUpperCase();
+    this.rewriteTableFormulas(table, (formula, sheet, address, implicit) => replaceStructuredReferences(formula, ref => {
+      if (ref.table === undefined ? !implicit : !own(ref.table)) return null;
+      const target = resolveStructuredReference(ref, table, address);
+      return typeof target === 'string' ? target : formatTableRange(target, sheet === this ? undefined : this.name);
+    }, own));
+
+    this.tableStore.delete(table.name);
+    this.afterTableChange(table, null);
+    return true;
+  }
+
+  /** Every table on this sheet. */
+  getTables(): TableDefinition[] {
+    return this.tableStore.serialize();
+  }
+
+  /** Whether this sheet has any table (cheaper than getTables()). */
+  hasTables(): boolean {
+    return this.tableStore.size > 0;
+  }
+
+  /** A table on this sheet by name (case-insensitive). */
+  getTable(name: string): TableDefinition | undefined {
+    const table = this.tableStore.get(name);
+    return table && cloneTable(table);
+  }
+
+  /** The table covering a cell, header and totals rows included. */
+  getTableAt(addr: Address): TableDefinition | undefined {
+    const table = this.tableStore.getAt(addr);
+    return table && cloneTable(table);
+  }
+
+  /**
+   * Move a table's bottom-right corner (Excel "Resize Table"). The header row
+   * stays where it is. Columns keep their settings by position; new columns
+   * are named from their header cells. A totals row moves to the new last
+   * row.
+   */
+  resizeTable(name: string, range: Range): TableDefinition {
+    this.assertMutating('resizeTable');
+    const table = this.requireTable(name);
+    const normalized = this.normalizeRange(range);
+    if (normalized.start.row !== table.range.start.row) {
+      throw new Error(`The header row of table '${table.name}' cannot move`);
+    }
+    this.assertTableRange(normalized, table.headerRow, table.totalsRow, table.name);
+
+    const before = cloneTable(table);
+    const columns: TableColumn[] = [];
+    for (let col = normalized.start.col; col <= normalized.end.col; col++) {
+      const kept = before.columns[col - before.range.start.col];
+      if (kept) {
+        columns.push(kept);
+        continue;
+      }
+      const header = table.headerRow ? this.getCellValue({ row: normalized.start.row, col }) : null;
+      columns.push({ name: uniqueColumnName([...before.columns, ...columns], this.columnNameFrom(header, columns.length)) });
+    }
+    table.range = normalized;
+    table.columns = columns;
+
+    this.runTableSync(() => {
+      if (before.totalsRow && before.range.end.row !== normalized.end.row) this.clearTableRow(before, before.range.end.row);
+      this.writeTableHeaders(table);
+      this.writeTableTotals(table);
+    });
+    this.afterTableChange(before, table);
+    return cloneTable(table);
+  }
+
+  /**
+   * Rename a table and every structured reference to it, on all sheets and
+   * in defined names.
+   */
+  renameTable(name: string, newName: string): void {
+    this.assertMutating('renameTable');
+    const table = this.requireTable(name);
+    if (newName.toUpperCase() !== table.name.toUpperCase()) this.assertTableNameAvailable(newName);
+    if (newName === table.name) return;
+
+    const before = cloneTable(table);
+    this.tableStore.delete(table.name);
+    table.name = newName;
+    this.tableStore.set(table);
+    this.rewriteTableFormulas(table, formula => renameTableInFormula(formula, before.name, newName));
+    this.afterTableChange(before, table);
+  }
+
+  /**
+   * Rename a column: updates its header cell and every structured reference
+   * to it. Typing into a header cell does the same.
+   */
+  renameTableColumn(name: string, column: string, newName: string): void {
+    this.assertMutating('renameTableColumn');
+    const table = this.requireTable(name);
+    const index = this.requireColumnIndex(table, column);
+    if (!newName) throw new Error('Column name cannot be empty');
+    const clash = getTableColumnIndex(table, newName);
+    if (clash !== -1 && clash !== index) throw new Error(`Table '${table.name}' already has a column '${newName}'`);
+
+    this.renameColumnAt(table, index, newName);
+    if (table.headerRow) {
+      this.runTableSync(() => this.setCellValue({ row: table.range.start.row, col: table.range.start.col + index }, newName));
+    }
+  }
+
+  /**
+   * Show or hide the totals row. Showing it takes the (empty) row below the
+   * table; hiding it clears that row and gives it back.
+   *
+   * @throws Error when the row below the table is not empty
+   */
+  setTableTotalsRow(name: string, show: boolean): void {
+    this.assertMutating('setTableTotalsRow');
+    const table = this.requireTable(name);
+    if (table.totalsRow === show) return;
+
+    const before = cloneTable(table);
+    if (show) {
+      const row = table.range.end.row + 1;
+      const below: Range = { start: { row, col: table.range.start.col }, end: { row, col: table.range.end.col } };
+      for (let col = table.range.start.col; col <= table.range.end.col; col++) {
+        if (this.cells.get(row, col)?.value != null || this.cells.get(row, col)?.formula) {
+          throw new Error(`Cannot show the totals row of table '${table.name}': the row below it is not empty`);
+        }
+      }
+      if (this.tableStore.getOverlapping(below, table.name).length > 0) {
+        throw new Error(`Cannot show the totals row of table '${table.name}': another table is in the way`);
+      }
+      table.range = { start: table.range.start, end: { row, col: table.range.end.col } };
+      table.totalsRow = true;
+      this.runTableSync(() => this.writeTableTotals(table));
+    } else {
+      this.runTableSync(() => this.clearTableRow(table, table.range.end.row));
+      table.range = { start: table.range.start, end: { row: table.range.end.row - 1, col: table.range.end.col } };
+      table.totalsRow = false;
+    }
+    this.afterTableChange(before, table);
+  }
+
+  /**
+   * Set what a column shows in the totals row: an aggregate (written as a
+   * SUBTOTAL formula, so filtered-out rows are ignored), a custom formula
+   * (`custom`, with `formulaOrLabel`), a text label (`none`, with
+   * `formulaOrLabel`) or nothing.
+   */
+  setTableColumnTotal(
+    name: string,
+    column: string,
+    fn: TableTotalsFunction,
+    formulaOrLabel?: string
+  ): void {
+    this.assertMutating('setTableColumnTotal');
+    const table = this.requireTable(name);
+    const index = this.requireColumnIndex(table, column);
+
+    const before = cloneTable(table);
+    const target = table.columns[index];
+    target.totalsFunction = fn;
+    target.totalsFormula = fn === 'custom' ? formulaOrLabel : undefined;
+    target.totalsLabel = fn === 'none' ? formulaOrLabel : undefined;
+    if (table.totalsRow) {
+      this.runTableSync(() => {
+        const addr = { row: table.range.end.row, col: table.range.start.col + index };
+        this.deleteCell(addr);
+        this.writeTableTotals(table);
+      });
+    }
+    this.afterTableChange(before, table);
+  }
+
+  /**
+   * Make a column calculated: `formula` (as written for the first data row)
+   * is filled into every data row, and into rows added later. Pass null to
+   * stop calculating; the cells keep their formulas.
+   */
+  setTableColumnFormula(name: string, column: string, formula: string | null): void {
+    this.assertMutating('setTableColumnFormula');
+    const table = this.requireTable(name);
+    const index = this.requireColumnIndex(table, column);
+
+    const before = cloneTable(table);
+    table.columns[index].formula = formula ?? undefined;
+    if (formula !== null) {
+      const data = getTableDataRange(table);
+      this.runTableSync(() => {
+        for (let row = data.start.row; row <= data.end.row; row++) this.fillCalculatedCell(table, index, row);
+      });
+    }
+    this.afterTableChange(before, table);
+  }
+
+  /** Change a table's style name or banding options. */
+  setTableStyle(name: string, style: Partial<TableStyleInfo>): void {
+    this.assertMutating('setTableStyle');
+    const table = this.requireTable(name);
+    const before = cloneTable(table);
+    table.style = { ...table.style, ...style };
+    this._emitOrBuffer({ type: 'table-changed', name: table.name, before, after: cloneTable(table) });
+  }
+
+  /**
+   * Style a table gives a cell (header, totals row, stripes, first/last
+   * column), to be layered under the cell's own style.
+   */
+  getTableCellStyle(addr: Address): CellStyle | undefined {
+    const table = this.tableStore.getAt(addr);
+    return table && getTableCellStyle(table, addr);
+  }
+
+  /**
+   * Replace the structured references in a formula (and bare table names)
+   * with the A1 ranges they select for the formula at `at` — qualified when
+   * the table is on another sheet. References that do not resolve become
+   * #REF!, and `@` outside the data rows becomes #VALUE!.
+   *
+   * @example
+   * ws.resolveStructuredReferences('=SUM(Sales[Amount])', { row: 0, col: 5 })
+   * // '=SUM(B2:B9)'
+   */
+  resolveStructuredReferences(formula: string, at: Address): string {
+    if (!formula.includes('[') && !this.hasTablesInScope()) return formula;
+    return replaceStructuredReferences(formula, ref => {
+      const found = ref.table === undefined
+        ? { sheet: this as Worksheet, table: this.tableStore.getAt(at) }
+        : this.findTableInScope(ref.table);
+      if (!found?.table) return ref.bare ? null : '#REF!';
+      const target = resolveStructuredReference(ref, found.table, at);
+      if (typeof target === 'string') return target;
+      return formatTableRange(target, found.sheet === this ? undefined : found.sheet.name);
+    }, name => this.findTableInScope(name) !== undefined);
+  }
+
+  /**
+   * Re-resolve and dirty every formula on this sheet that uses a table.
+   * Called (by the Workbook, for every sheet) after a table moved, grew,
+   * shrank or was renamed.
+   */
+  refreshTableUsers(): void {
+    const names = this.sheetsInScope().flatMap(sheet => sheet.tableStore.getAll().map(t => t.name.toUpperCase()));
+    const users: Address[] = [];
+    this.cells.forEach((row, col, cell) => {
+      if (!cell.formula) return;
+      const upper = cell.formula.toUpperCase();
+      if (upper.includes('[') || names.some(name => upper.includes(name))) users.push({ row, col });
+    });
+    for (const addr of users) this.refreshFormulaDependencies(addr);
+  }
+
+  /**
+   * Keep tables in step with an edit made through setCellValue() or
+   * setCellFormula(), the way Excel does while typing:
+   * - a header cell renames its column;
+   * - a formula in a data cell of an empty or calculated column becomes the
+   *   column's calculated formula and is filled into every data row;
+   * - an entry in the row below a table (without a totals row), or in the
+   *   column to its right, extends the table over it.
+   */
+  private syncTablesAfterEntry(addr: Address, formula?: string): void {
+    const table = this.tableStore.getAt(addr);
+    if (table) {
+      if (table.headerRow && addr.row === table.range.start.row) {
+        this.renameColumnFromHeader(table, addr);
+      } else if (formula !== undefined && addr.row <= getTableDataRange(table).end.row) {
+        this.applyCalculatedColumn(table, addr, formula);
+      }
+      return;
+    }
+
+    const value = this.getCellValue(addr);
+    if (formula === undefined && (value === null || value === '')) return;
+    for (const candidate of this.tableStore.getAll()) {
+      const { start, end } = candidate.range;
+      const lastRow = candidate.totalsRow ? end.row - 1 : end.row;
+      if (!candidate.totalsRow && addr.row === end.row + 1 && addr.col >= start.col && addr.col <= end.col) {
+        this.extendTable(candidate, { row: addr.row, col: end.col }, addr);
+        return;
+      }
+      if (addr.col === end.col + 1 && addr.row >= start.row && addr.row <= lastRow) {
+        this.extendTable(candidate, { row: end.row, col: addr.col }, addr);
+        return;
+      }
+    }
+  }
+
+  /** Grow a table to `end` after an entry at `entered` next to it. */
+  private extendTable(table: TableDefinition, end: Address, entered: Address): void {
+    const range: Range = { start: table.range.start, end };
+    if (this.tableStore.getOverlapping(range, table.name).length > 0) return;
+
+    const before = cloneTable(table);
+    table.range = range;
+    if (end.col > before.range.end.col) {
+      const header = table.headerRow && entered.row === range.start.row ? this.getCellValue(entered) : null;
+      table.columns.push({ name: uniqueColumnName(table.columns, this.columnNameFrom(header, table.columns.length)) });
+    }
+    this.runTableSync(() => {
+      this.writeTableHeaders(table);
+      if (end.row > before.range.end.row) {
+        table.columns.forEach((column, index) => {
+          if (column.formula && table.range.start.col + index !== entered.col) this.fillCalculatedCell(table, index, end.row);
+        });
+      }
+    });
+    this.afterTableChange(before, table);
+  }
+
+  /** Rename a column after its header cell was edited. */
+  private renameColumnFromHeader(table: TableDefinition, addr: Address): void {
+    const index = addr.col - table.range.start.col;
+    const value = this.getCellValue(addr);
+    const others = table.columns.filter((_, i) => i !== index);
+    const name = uniqueColumnName(others, this.columnNameFrom(value, index));
+    this.renameColumnAt(table, index, name);
+    if (value !== name) this.runTableSync(() => this.setCellValue(addr, name));
+  }
+
+  /**
+   * A formula typed into a data cell: it becomes the column's calculated
+   * formula when the column is empty or already calculated.
+   */
+  private applyCalculatedColumn(table: TableDefinition, addr: Address, formula: string): void {
+    const index = addr.col - table.range.start.col;
+    const column = table.columns[index];
+    const data = getTableDataRange(table);
+    const anchored = FormulaShiftingService.shift(formula, addr, { row: data.start.row, col: addr.col });
+    if (column.formula === anchored) return;
+    if (column.formula === undefined) {
+      for (let row = data.start.row; row <= data.end.row; row++) {
+        const cell = this.cells.get(row, addr.col);
+        if (row !== addr.row && (cell?.formula || (cell?.value != null && cell.value !== ''))) return;
+      }
+    }
+
+    const before = cloneTable(table);
+    column.formula = anchored;
+    this.runTableSync(() => {
+      for (let row = data.start.row; row <= data.end.row; row++) {
+        if (row !== addr.row) this.fillCalculatedCell(table, index, row);
+      }
+    });
+    this.afterTableChange(before, table);
+  }
+
+  /** Write a calculated column's formula into one of its data rows. */
+  private fillCalculatedCell(table: TableDefinition, index: number, row: number): void {
+    const col = table.range.start.col + index;
+    const anchor = { row: getTableDataRange(table).start.row, col };
+    this.setCellFormula({ row, col }, FormulaShiftingService.shift(table.columns[index].formula!, anchor, { row, col }));
+  }
+
+  private renameColumnAt(table: TableDefinition, index: number, name: string): void {
+    const from = table.columns[index].name;
+    if (from === name) return;
+    const before = cloneTable(table);
+    table.columns[index].name = name;
+    this.rewriteTableFormulas(table, (formula, _sheet, _address, implicit) =>
+      renameTableColumnInFormula(formula, table.name, from, name, implicit));
+    this.afterTableChange(before, table);
+  }
+
+  /** Header cells show the column names. */
+  private writeTableHeaders(table: TableDefinition): void {
+    if (!table.headerRow) return;
+    table.columns.forEach((column, index) => {
+      const addr = { row: table.range.start.row, col: table.range.start.col + index };
+      if (this.getCellValue(addr) !== column.name || this.cells.get(addr.row, addr.col)?.formula) {
+        this.setCellValue(addr, column.name);
+      }
+    });
+  }
+
+  /** Totals row cells show each column's aggregate, formula or label. */
+  private writeTableTotals(table: TableDefinition): void {
+    if (!table.totalsRow) return;
+    table.columns.forEach((column, index) => {
+      const addr = { row: table.range.end.row, col: table.range.start.col + index };
+      const formula = getTotalsRowFormula(column);
+      if (formula !== null) {
+        if (this.cells.get(addr.row, addr.col)?.formula !== formula) this.setCellFormula(addr, formula);
+      } else if (column.totalsLabel !== undefined) {
+        this.setCellValue(addr, column.totalsLabel);
+      }
+    });
+  }
+
+  private clearTableRow(table: TableDefinition, row: number): void {
+    for (let col = table.range.start.col; col <= table.range.end.col; col++) this.deleteCell({ row, col });
+  }
+
+  /** Header text to a column name; empty headers become `ColumnN`. */
+  private columnNameFrom(value: Cell['value'] | undefined, index: number): string {
+    return value === null || value === undefined || value === '' ? `Column${index + 1}` : String(value);
+  }
+
+  private runTableSync(fn: () => void): void {
+    const previous = this._tableSync;
+    this._tableSync = true;
+    try {
+      fn();
+    } finally {
+      this._tableSync = previous;
+    }
+  }
+
+  /** Announce a table change and re-resolve the formulas that use tables. */
+  private afterTableChange(before: TableDefinition | null, after: TableDefinition | null): void {
+    this._emitOrBuffer({
+      type: 'table-changed',
+      name: (after ?? before)!.name,
+      before: before && cloneTable(before),
+      after: after && cloneTable(after),
+    });
+    for (const sheet of this.sheetsInScope()) sheet.refreshTableUsers();
+  }
+
+  /**
+   * Apply `rewrite` to every formula that may use `table`: cells on all
+   * sheets, calculated and totals formulas of all tables, and defined names.
+   * `implicit` tells whether unqualified references (`[@Qty]`) point at
+   * `table`, i.e. the formula lives inside it.
+   */
+  private rewriteTableFormulas(
+    table: TableDefinition,
+    rewrite: (formula: string, sheet: Worksheet, address: Address, implicit: boolean) => string
+  ): void {
+    for (const sheet of this.sheetsInScope()) {
+      for (const other of sheet.tableStore.getAll()) {
+        const first = getTableDataRange(other).start;
+        other.columns.forEach((column, index) => {
+          const address = { row: first.row, col: first.col + index };
+          if (column.formula) column.formula = rewrite(column.formula, sheet, address, other === table);
+          if (column.totalsFormula) column.totalsFormula = rewrite(column.totalsFormula, sheet, address, other === table);
+        });
+      }
+
+      const updates: Array<{ address: Address; formula: string }> = [];
+      sheet.cells.forEach((row, col, cell) => {
+        if (!cell.formula) return;
+        const address = { row, col };
+        const formula = rewrite(cell.formula, sheet, address, sheet.tableStore.getAt(address) === table);
+        if (formula !== cell.formula) updates.push({ address, formula });
+      });
+      sheet.runTableSync(() => {
+        for (const { address, formula } of updates) sheet.setCellFormula(address, formula);
+      });
+    }
+
+    this.workbook?.getNameManager().rewriteReferences(refersTo => rewrite(refersTo, this, { row: 0, col: 0 }, false));
+  }
+
+  /** This sheet alone, or every sheet of the parent Workbook. */
+  private sheetsInScope(): Worksheet[] {
+    const workbook = this.workbook;
+    if (!workbook) return [this];
+    return workbook.getSheetNames().map(name => workbook.getSheet(name)!);
+  }
+
+  private hasTablesInScope(): boolean {
+    return this.sheetsInScope().some(sheet => sheet.tableStore.size > 0);
+  }
+
+  /** A table anywhere formulas on this sheet can see (the whole Workbook). */
+  private findTableInScope(name: string): { sheet: Worksheet; table: TableDefinition } | undefined {
+    for (const sheet of this.sheetsInScope()) {
+      const table = sheet.tableStore.get(name);
+      if (table) return { sheet, table };
+    }
+    return undefined;
+  }
+
+  private requireTable(name: string): TableDefinition {
+    const table = this.tableStore.get(name);
+    if (!table) throw new Error(`Table '${name}' not found on sheet '${this.name}'`);
+    return table;
+  }
+
+  private requireColumnIndex(table: TableDefinition, column: string): number {
+    const index = getTableColumnIndex(table, column);
+    if (index === -1) throw new Error(`Table '${table.name}' has no column '${column}'`);
+    return index;
+  }
+
+  private nextTableName(): string {
+    for (let n = 1; ; n++) {
+      if (!this.isTableNameTaken(`Table${n}`)) return `Table${n}`;
+    }
+  }
+
+  /** Tables share one namespace with defined names across the Workbook. */
+  private isTableNameTaken(name: string): boolean {
+    const upper = name.toUpperCase();
+    return this.findTableInScope(name) !== undefined ||
+      (this.workbook?.getNameManager().getAllNames().some(n => n.name.toUpperCase() === upper) ?? false);
+  }
+
+  private assertTableNameAvailable(name: string): void {
+    const error = validateTableName(name);
+    if (error) throw new Error(error);
+    if (this.isTableNameTaken(name)) throw new Error(`The name '${name}' is already in use`);
+  }
+
+  private assertTableRange(range: Range, headerRow: boolean, totalsRow: boolean, name: string): void {
+    const rows = range.end.row - range.start.row + 1;
+    if (rows < 1 + (headerRow ? 1 : 0) + (totalsRow ? 1 : 0)) {
+      throw new Error(`Table '${name}' needs at least one data row`);
+    }
+    if (this.tableStore.getOverlapping(range, name).length > 0) {
+      throw new Error(`Table '${name}' would overlap another table`);
+    }
+    const merged = this.mergeStore.getAll().some(region =>
+      region.startRow <= range.end.row && region.endRow >= range.start.row &&
+      region.startCol <= range.end.col && region.endCol >= range.start.col
+    );
+    if (merged) throw new Error(`Table '${name}' cannot contain merged cells`);
+  }
+
   // ── Range Sort ────────────────────────────────────────────────────────────
 
   /**
@@ -883,6 +1746,10 @@ export class Worksheet {
   setColumnWidth(col: number, px: number): void { this.colWidths.set(col, px); this.events.emit({ type: 'sheet-mutated' }); }
   getRowHeight(row: number): number { return this.rowHeights.get(row) ?? 20; }
   setRowHeight(row: number, px: number): void { this.rowHeights.set(row, px); this.events.emit({ type: 'sheet-mutated' }); }
+  /** Explicitly set column widths (px), keyed by column. Columns at the default width are absent. */
+  getColumnWidths(): ReadonlyMap<number, number> { return this.colWidths; }
+  /** Explicitly set row heights (px), keyed by row. Rows at the default height are absent. */
+  getRowHeights(): ReadonlyMap<number, number> { return this.rowHeights; }
 
   setFormulaEngine(engine?: IFormulaEngine) { this.formulaEngine = engine; }
 
@@ -917,6 +1784,7 @@ export class Worksheet {
    */
   clearDependencies(addr: Address): void {
     this.recalcCoordinator.clearFormula(addr.row, addr.col);
+    this.workbook?.clearCrossSheetDependencies(this.name, addr);
   }
 
   /**
@@ -959,6 +1827,9 @@ export class Worksheet {
    * This is a convenience method that wraps recalc() with automatic formula evaluation.
    * It evaluates each dirty cell's formula in topological order and updates cell values.
    * 
+   * Honours the parent Workbook's calculation settings: in manual mode the
+   * dirty cells are left for calculateNow() and nothing is evaluated.
+   * 
    * Requires that a FormulaEngine was provided to the constructor (via the engine parameter).
    * 
    * @returns RecalcResult with evaluated count and any detected cycles
@@ -974,34 +1845,73 @@ export class Worksheet {
       throw new Error('Cannot auto-recalculate: no FormulaEngine available. Pass an engine to the Worksheet constructor.');
     }
 
-    return this.recalc((nodeKey) => {
-      const { row, col } = unpackKey(nodeKey);
-      const cell = this.cells.get(row, col);
-      
-      if (!cell?.formula) return; // Skip non-formula cells
+    const calculation = this.workbook?.getCalculationController();
+    if (calculation && !calculation.isAutomatic()) {
+      if (this.dirtyCount > 0) calculation.markNeedsRecalc();
+      return { evaluated: 0, cycles: [] };
+    }
+    return this.calculate();
+  }
+
+  /**
+   * Evaluate all dirty formula cells now, whatever the calculation mode.
+   *
+   * Circular references are iterated when the parent Workbook has iterative
+   * calculation turned on, and reported as cycles otherwise.
+   *
+   * @throws Error if no FormulaEngine is available
+   */
+  calculate(): RecalcResult {
+    if (!this.formulaEngine) {
+      throw new Error('Cannot calculate: no FormulaEngine available. Pass an engine to the Worksheet constructor.');
+    }
+
+    const policy = this.workbook?.getCalculationController().getIterationPolicy();
+    if (policy) {
+      return this.recalcIterative(nodeKey => this.evaluateFormulaCell(nodeKey), policy);
+    }
+    return this.recalc(nodeKey => {
+      this.evaluateFormulaCell(nodeKey);
+    });
+  }
+
+  /**
+   * Evaluate one formula cell from stored precedent values and store the
+   * result; returns the new value
+   */
+  private evaluateFormulaCell(nodeKey: number): CellValue {
+    const { row, col } = unpackKey(nodeKey);
+    const cell = this.cells.get(row, col);
+    
+    if (!cell?.formula) return (cell?.value ?? null) as CellValue; // Skip non-formula cells
+    
+    try {
+      // Precedents were visited first (topological order), so read their stored values
+      const result = (this.formulaEngine as any).evaluate(cell.formula, {
+        worksheet: this as any,
+        currentCell: { row, col },
+        useCachedValues: true,
+      });
       
-      try {
-        const result = (this.formulaEngine as any).evaluate(cell.formula, {
-          worksheet: this as any,
-          currentCell: { row, col },
-        });
-        
-        // Update cell value with evaluated result
-        // Handle Error, Array, and primitive types
-        if (result && typeof result === 'object' && 'message' in result && result instanceof Error) {
-          cell.value = result.message; // Store error as string
-        } else if (Array.isArray(result)) {
-          // For spilled arrays, store the array (SpillEngine will handle display)
-          cell.value = result as any;
-        } else {
-          cell.value = result as CellValue;
-        }
-      } catch (error) {
-        // Evaluation error - store as #ERROR!
-        cell.value = '#ERROR!';
-        console.error(`Formula evaluation error at ${row}:${col}:`, error);
+      const previous = cell.value;
+      // Update cell value with evaluated result
+      // Handle Error, Array, and primitive types
+      if (result && typeof result === 'object' && 'message' in result && result instanceof Error) {
+        cell.value = result.message; // Store error as string
+      } else if (Array.isArray(result)) {
+        // For spilled arrays, store the array (SpillEngine will handle display)
+        cell.value = result as any;
+      } else {
+        cell.value = result as CellValue;
       }
-    });
+      // Formulas on other sheets reading this cell are now stale
+      if (cell.value !== previous) this.workbook?.propagateCrossSheetChange(this.name, { row, col });
+    } catch (error) {
+      // Evaluation error - store as #ERROR!
+      cell.value = '#ERROR!';
+      console.error(`Formula evaluation error at ${row}:${col}:`, error);
+    }
+    return cell.value as CellValue;
   }
 
   /**
@@ -1263,6 +2173,258 @@ export class Worksheet {
   getHiddenCols(): ReadonlySet<number> {
     return this.visibilityStore.getHiddenCols();
   }
+
+  // ==================== Outline (row/column groups) ====================
+  //
+  // Each grouped row or column has an outline level (1–7); groups are the
+  // runs of consecutive indices at a level or deeper. Collapsing a group
+  // hides its rows/columns through hideRow()/hideCol(), so the summary row
+  // next to it stays visible and everything else reads plain hidden state.
+
+  /**
+   * Group rows `start`–`end` one level deeper than they are now, nesting
+   * inside any group they are already in (Excel's Data ▸ Group).
+   *
+   * @throws Error if a row would go past MAX_OUTLINE_LEVEL
+   */
+  groupRows(start: number, end: number): void {
+    this.changeOutlineLevels('row', start, end, 1);
+  }
+
+  /** Take rows `start`–`end` out one level; rows already ungrouped are skipped. */
+  ungroupRows(start: number, end: number): void {
+    this.changeOutlineLevels('row', start, end, -1);
+  }
+
+  /** Group columns `start`–`end` one level deeper; see groupRows(). */
+  groupCols(start: number, end: number): void {
+    this.changeOutlineLevels('col', start, end, 1);
+  }
+
+  /** Take columns `start`–`end` out one level; see ungroupRows(). */
+  ungroupCols(start: number, end: number): void {
+    this.changeOutlineLevels('col', start, end, -1);
+  }
+
+  /** Outline level of a row or column; 0 when it is not grouped. */
+  getOutlineLevel(axis: OutlineAxis, index: number): number {
+    return this.outline[axis].levels.get(index) ?? 0;
+  }
+
+  /** Deepest outline level on the axis; 0 when nothing is grouped. */
+  getMaxOutlineLevel(axis: OutlineAxis): number {
+    let max = 0;
+    for (const level of this.outline[axis].levels.values()) max = Math.max(max, level);
+    return max;
+  }
+
+  /** The axis' groups, outermost level first and in index order within a level. */
+  getOutlineGroups(axis: OutlineAxis): OutlineGroup[] {
+    const { levels, collapsed } = this.outline[axis];
+    return buildOutlineGroups(levels, (start, level) => collapsed.has(outlineKey(start, level)));
+  }
+
+  /**
+   * Collapse the group holding `index` at `level` (default: the deepest group
+   * there), hiding its rows or columns.
+   *
+   * @returns false when no group holds `index` at that level
+   */
+  collapseOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean {
+    const group = this.findOutlineGroup(axis, index, level);
+    if (!group) return false;
+    if (!group.collapsed) {
+      this.updateOutline(() => this.outline[axis].collapsed.add(outlineKey(group.start, group.level)));
+      for (let i = group.start; i <= group.end; i++) this.setOutlineHidden(axis, i, true);
+    }
+    return true;
+  }
+
+  /**
+   * Expand the group holding `index` at `level` (default: the deepest group
+   * there). Groups nested inside it that are collapsed stay collapsed.
+   *
+   * @returns false when no group holds `index` at that level
+   */
+  expandOutlineGroup(axis: OutlineAxis, index: number, level?: number): boolean {
+    const group = this.findOutlineGroup(axis, index, level);
+    if (!group) return false;
+    if (group.collapsed) {
+      this.updateOutline(() => this.outline[axis].collapsed.delete(outlineKey(group.start, group.level)));
+      this.revealOutline(axis, [group]);
+    }
+    return true;
+  }
+
+  /**
+   * Show the outline down to `level`, like Excel's level buttons: groups at
+   * `level` and deeper collapse, shallower ones expand. `1` shows only
+   * ungrouped rows/columns; `MAX_OUTLINE_LEVEL + 1` expands everything.
+   */
+  showOutlineLevel(axis: OutlineAxis, level: number): void {
+    if (!Number.isInteger(level) || level < 1 || level > MAX_OUTLINE_LEVEL + 1) {
+      throw new RangeError(`showOutlineLevel: level must be an integer from 1 to ${MAX_OUTLINE_LEVEL + 1} (got ${level})`);
+    }
+    const { levels } = this.outline[axis];
+    const collapsed = this.getOutlineGroups(axis).filter(group => group.level >= level);
+    this.updateOutline(() => {
+      this.outline[axis].collapsed = new Set(collapsed.map(group => outlineKey(group.start, group.level)));
+    });
+    for (const [index, depth] of levels) this.setOutlineHidden(axis, index, depth >= level);
+  }
+
+  /**
+   * Remove every group on `axis` (both axes when omitted). Rows and columns
+   * hidden by collapsed groups are shown again.
+   */
+  clearOutline(axis?: OutlineAxis): void {
+    for (const target of axis ? [axis] : (['row', 'col'] as const)) this.replaceOutline(target, new Map());
+  }
+
+  /**
+   * Rebuild the outline from the sheet's SUBTOTAL() formulas, replacing the
+   * current groups. A SUBTOTAL over the rows right above it (right below it
+   * when summary rows sit above) groups those rows; a grand total over
+   * earlier subtotals becomes the enclosing level. Columns are grouped the
+   * same way from SUBTOTALs over the columns to their left (or right).
+   *
+   * @throws Error if the totals nest deeper than MAX_OUTLINE_LEVEL
+   */
+  autoOutline(): void {
+    const { summaryRowsBelow, summaryColumnsRight } = this.outlineSettings;
+    const spans: Record<OutlineAxis, Map<string, [number, number]>> = { row: new Map(), col: new Map() };
+    this.cells.forEach((row, col, cell) => {
+      if (!cell.formula) return;
+      for (const { start, end } of findSubtotalRanges(cell.formula)) {
+        if (start.col <= col && col <= end.col && (summaryRowsBelow ? end.row === row - 1 : start.row === row + 1)) {
+          spans.row.set(`${start.row}:${end.row}`, [start.row, end.row]);
+        } else if (start.row <= row && row <= end.row && (summaryColumnsRight ? end.col === col - 1 : start.col === col + 1)) {
+          spans.col.set(`${start.col}:${end.col}`, [start.col, end.col]);
+        }
+      }
+    });
+
+    const levels: Record<OutlineAxis, Map<number, number>> = { row: new Map(), col: new Map() };
+    for (const axis of ['row', 'col'] as const) {
+      for (const [start, end] of spans[axis].values()) {
+        for (let i = start; i <= end; i++) levels[axis].set(i, (levels[axis].get(i) ?? 0) + 1);
+      }
+      if (Math.max(0, ...levels[axis].values()) > MAX_OUTLINE_LEVEL) {
+        throw new Error(`Outlines are limited to ${MAX_OUTLINE_LEVEL + 1} levels`);
+      }
+    }
+    this.replaceOutline('row', levels.row);
+    this.replaceOutline('col', levels.col);
+  }
+
+  getOutlineSettings(): OutlineSettings {
+    return { ...this.outlineSettings };
+  }
+
+  /** Change where summary rows/columns sit; groups and their state are kept. */
+  setOutlineSettings(settings: Partial<OutlineSettings>): void {
+    this.updateOutline(() => {
+      this.outlineSettings = { ...this.outlineSettings, ...settings };
+    });
+  }
+
+  /** The whole outline as plain data. */
+  getOutlineState(): OutlineState {
+    return {
+      rows: toOutlineAxisState(this.outline.row),
+      cols: toOutlineAxisState(this.outline.col),
+      settings: { ...this.outlineSettings },
+    };
+  }
+
+  /**
+   * Replace the outline with `state`. Hidden rows and columns are left as
+   * they are: use it to restore state saved together with them.
+   */
+  setOutlineState(state: OutlineState): void {
+    this.updateOutline(() => {
+      this.outline = { row: fromOutlineAxisState(state.rows), col: fromOutlineAxisState(state.cols) };
+      this.outlineSettings = { ...state.settings };
+    });
+  }
+
+  /** Add `delta` (±1) to the level of each index in `start`–`end`. */
+  private changeOutlineLevels(axis: OutlineAxis, start: number, end: number, delta: 1 | -1): void {
+    const from = Math.min(start, end);
+    const to = Math.max(start, end);
+    const { levels } = this.outline[axis];
+    if (delta > 0) {
+      for (let i = from; i <= to; i++) {
+        if ((levels.get(i) ?? 0) >= MAX_OUTLINE_LEVEL) throw new Error(`Outlines are limited to ${MAX_OUTLINE_LEVEL + 1} levels`);
+      }
+    } else {
+      // Collapsed groups losing rows/columns open first, so nothing stays hidden without a group
+      const opened = this.getOutlineGroups(axis).filter(group => group.collapsed && group.start <= to && group.end >= from);
+      if (opened.length > 0) {
+        this.updateOutline(() => {
+          for (const group of opened) this.outline[axis].collapsed.delete(outlineKey(group.start, group.level));
+        });
+        this.revealOutline(axis, opened);
+      }
+    }
+
+    const collapsed = this.getOutlineGroups(axis).filter(group => group.collapsed);
+    this.updateOutline(() => {
+      for (let i = from; i <= to; i++) {
+        const level = (levels.get(i) ?? 0) + delta;
+        if (level > 0) levels.set(i, level);
+        else levels.delete(i);
+      }
+      // A collapsed group stays collapsed as the group now holding its first index
+      this.outline[axis].collapsed = new Set(collapsed.flatMap(({ start: first, level }) => {
+        const group = this.findOutlineGroup(axis, first, level);
+        return group ? [outlineKey(group.start, level)] : [];
+      }));
+    });
+  }
+
+  /** Swap in new levels for `axis`, opening every collapsed group first. */
+  private replaceOutline(axis: OutlineAxis, levels: Map<number, number>): void {
+    const collapsed = this.getOutlineGroups(axis).filter(group => group.collapsed);
+    this.updateOutline(() => {
+      this.outline[axis] = { levels, collapsed: new Set() };
+    });
+    this.revealOutline(axis, collapsed);
+  }
+
+  /** The group holding `index` at `level`, or at the deepest level there. */
+  private findOutlineGroup(axis: OutlineAxis, index: number, level?: number): OutlineGroup | undefined {
+    const target = level ?? this.getOutlineLevel(axis, index);
+    return this.getOutlineGroups(axis).find(group => group.level === target && group.start <= index && index <= group.end);
+  }
+
+  /** Show the indices of `groups` that no remaining collapsed group covers. */
+  private revealOutline(axis: OutlineAxis, groups: OutlineGroup[]): void {
+    const collapsed = this.getOutlineGroups(axis).filter(group => group.collapsed);
+    for (const { start, end } of groups) {
+      for (let i = start; i <= end; i++) {
+        if (!collapsed.some(group => group.start <= i && i <= group.end)) this.setOutlineHidden(axis, i, false);
+      }
+    }
+  }
+
+  private setOutlineHidden(axis: OutlineAxis, index: number, hidden: boolean): void {
+    if (axis === 'row') {
+      if (hidden) this.hideRow(index);
+      else this.showRow(index);
+    } else if (hidden) {
+      this.hideCol(index);
+    } else {
+      this.showCol(index);
+    }
+  }
+
+  /** Run `change` and emit 'outline-changed' with the state on either side. */
+  private updateOutline(change: () => void): void {
+    const before = this.getOutlineState();
+    change();
+    this.events.emit({ type: 'outline-changed', before, after: this.getOutlineState() });
+  }
   /**
    * Delete a cell: clears all its data.
    *
@@ -1316,8 +2478,12 @@ export class Worksheet {
     
     // Phase 3: Notify change to mark dependents dirty (if any cells reference this one)
     this.recalcCoordinator.notifyChanged(resolved.row, resolved.col);
+    this.workbook?.propagateCrossSheetChange(this.name, resolved);
 
-    this.events.emit({ type: 'cell-changed', address: resolved, cell: { value: null } });
+    this.events.emit({
+      type: 'cell-changed', address: resolved, cell: { value: null }, previousValue: cell.value,
+      ...(cell.formula !== undefined && { formulaChange: { previousFormula: cell.formula, previousValue: cell.value } }),
+    });
   }
 
   private normalizeRange(r: Range): Range {
@@ -1493,6 +2659,68 @@ export class Worksheet {
     return result;
   }
 
+  // ==================== Hyperlink APIs ====================
+
+  /**
+   * Set or remove (`undefined`) the hyperlink of a cell.
+   *
+   * @throws Error if the target is empty or uses a script scheme
+   */
+  setHyperlink(addr: Address, hyperlink: CellHyperlink | undefined): void {
+    if (hyperlink) {
+      const error = validateHyperlinkTarget(hyperlink.target);
+      if (error) throw new Error(error);
+    }
+
+    const anchor = this.resolveAnchor(addr);
+    const before = this.cells.get(anchor.row, anchor.col)?.hyperlink;
+    if (!hyperlink && !before) return;
+
+    const c = this.ensureCell(anchor);
+    const after = hyperlink && { ...hyperlink };
+    c.hyperlink = after;
+    this.events.emit({ type: 'hyperlink-changed', address: anchor, before, after: after && { ...after } });
+  }
+
+  /**
+   * Get the hyperlink a click on the cell follows: the one set on the cell,
+   * or for a `=HYPERLINK(...)` formula the link location it evaluates to.
+   */
+  getHyperlink(addr: Address): CellHyperlink | undefined {
+    const cell = this.getCell(addr);
+    if (!cell) return undefined;
+    if (cell.hyperlink) return { ...cell.hyperlink };
+    if (!cell.formula || !this.formulaEngine) return undefined;
+
+    const call = findHyperlinkCall(cell.formula);
+    if (!call) return undefined;
+    const target = (this.formulaEngine as any).evaluate(call.location, {
+      worksheet: this as any,
+      currentCell: addr,
+      useCachedValues: true,
+    });
+    if (target === null || target instanceof Error || typeof target === 'object' || typeof target === 'function') {
+      return undefined;
+    }
+    const text = String(target);
+    return validateHyperlinkTarget(text) ? undefined : { target: text };
+  }
+
+  /**
+   * Get all cells with a hyperlink set on them (HYPERLINK() formulas are
+   * not included), sorted by row, then col
+   */
+  getAllHyperlinks(): Array<{ address: Address; hyperlink: CellHyperlink }> {
+    const result: Array<{ address: Address; hyperlink: CellHyperlink }> = [];
+
+    this.cells.forEach((row, col, cell) => {
+      if (cell.hyperlink) result.push({ address: { row, col }, hyperlink: { ...cell.hyperlink } });
+    });
+
+    result.sort((a, b) => a.address.row - b.address.row || a.address.col - b.address.col);
+    return result;
+  }
+
   // ==================== General Search API (Phase 1) ====================
 
   /**
@@ -1973,14 +3201,509 @@ export class Worksheet {
     return [...this.findIterator(options, range)];
   }
 
+  // ==================== Structural Row/Column APIs ====================
+
+  /**
+   * Insert `count` empty rows before row `index`, moving everything below down.
+   *
+   * Cells (with their styles, comments and icons), merges, data validation,
+   * conditional formatting ranges, hidden rows, row heights, the auto-filter
+   * header row and frozen rows follow their rows. Formulas on every sheet of
+   * the Workbook and defined names keep pointing at the same cells; ranges
+   * spanning the insertion point grow.
+   */
+  insertRows(index: number, count = 1): void {
+    this.assertMutating('insertRows');
+    if (count <= 0) return;
+
+    this.applyBandTransform('row', new InsertRowsTransform(index, count, this.name), { axis: 'row', index, count, sheet: this.name });
+    this.rowCount += count;
+    this._emitOrBuffer({ type: 'rows-inserted', index, count });
+  }
+
+  /**
+   * Delete `count` rows starting at row `index`, moving everything below up.
+   *
+   * References into the deleted rows become #REF! and overlapping ranges
+   * shrink. Returns what was removed or rewritten; pass it to restoreRows()
+   * to undo the delete.
+   */
+  deleteRows(index: number, count = 1): DeletedBand {
+    this.assertMutating('deleteRows');
+
+    const deleted = this.captureBand('row', index, count);
+    if (count <= 0) return deleted;
+
+    deleted.formulas = this.applyBandTransform(
+      'row',
+      new DeleteRowsTransform(index, count, this.name),
+      { axis: 'row', index, count: -count, sheet: this.name }
+    );
+    this.rowCount = Math.max(0, this.rowCount - count);
+    this._emitOrBuffer({ type: 'rows-deleted', index, count, deleted });
+    return deleted;
+  }
+
+  /**
+   * Undo deleteRows(): re-insert the rows, restore their cells and the
+   * sheet-level state captured before the delete, and put back every formula
+   * and defined name the delete rewrote.
+   */
+  restoreRows(deleted: DeletedBand): void {
+    this.assertMutating('restoreRows');
+    const { index, count } = deleted;
+    if (count <= 0) return;
+
+    this.applyBandTransform('row', new InsertRowsTransform(index, count, this.name), { axis: 'row', index, count, sheet: this.name });
+    this.rowCount += count;
+    this.restoreBand(deleted);
+    this._emitOrBuffer({ type: 'rows-inserted', index, count, restored: deleted });
+  }
+
+  /**
+   * Insert `count` empty columns before column `index`, moving everything to
+   * the right of it. Column widths, hidden columns, column filters, the
+   * auto-filter extent and frozen columns follow their columns; see
+   * insertRows() for cells, formulas and the rest.
+   */
+  insertCols(index: number, count = 1): void {
+    this.assertMutating('insertCols');
+    if (count <= 0) return;
+
+    this.applyBandTransform('col', new InsertColumnsTransform(index, count, this.name), { axis: 'col', index, count, sheet: this.name });
+    this.colCount += count;
+    this._emitOrBuffer({ type: 'cols-inserted', index, count });
+  }
+
+  /**
+   * Delete `count` columns starting at column `index`. Returns what was
+   * removed or rewritten; pass it to restoreCols() to undo the delete.
+   */
+  deleteCols(index: number, count = 1): DeletedBand {
+    this.assertMutating('deleteCols');
+
+    const deleted = this.captureBand('col', index, count);
+    if (count <= 0) return deleted;
+
+    deleted.formulas = this.applyBandTransform(
+      'col',
+      new DeleteColumnsTransform(index, count, this.name),
+      { axis: 'col', index, count: -count, sheet: this.name }
+    );
+    this.colCount = Math.max(0, this.colCount - count);
+    this._emitOrBuffer({ type: 'cols-deleted', index, count, deleted });
+    return deleted;
+  }
+
+  /** Undo deleteCols(); see restoreRows(). */
+  restoreCols(deleted: DeletedBand): void {
+    this.assertMutating('restoreCols');
+    const { index, count } = deleted;
+    if (count <= 0) return;
+
+    this.applyBandTransform('col', new InsertColumnsTransform(index, count, this.name), { axis: 'col', index, count, sheet: this.name });
+    this.colCount += count;
+    this.restoreBand(deleted);
+    this._emitOrBuffer({ type: 'cols-inserted', index, count, restored: deleted });
+  }
+
+  /** Snapshot sheet-level state and the cells of the band about to be deleted. */
+  private captureBand(axis: 'row' | 'col', index: number, count: number): DeletedBand {
+    const deleted: DeletedBand = {
+      axis,
+      index,
+      count,
+      cells: [],
+      formulas: [],
+      merges: this.mergeStore.getAll().map(region => ({ ...region })),
+      validations: Array.from(this.validationStore),
+      hidden: [...(axis === 'row' ? this.visibilityStore.getHiddenRows() : this.visibilityStore.getHiddenCols())],
+      sizes: Array.from(axis === 'row' ? this.rowHeights : this.colWidths),
+      conditionalRules: this.conditionalRules.map(rule => ({ ...rule })),
+      filters: Array.from(this.filters),
+      freezePanes: this.getFreezePanes(),
+      autoFilterRange: this.getAutoFilterRange(),
+      tables: this.tableStore.serialize(),
+      allowEditRanges: this.getAllowEditRanges(),
+      outline: toOutlineAxisState(this.outline[axis]),
+      names: this.workbook?.getNameManager().serialize().map(name => ({ ...name })) ?? null,
+    };
+    this.cells.forEach((row, col, cell) => {
+      const at = axis === 'row' ? row : col;
+      if (at >= index && at < index + count) deleted.cells.push({ row, col, cell });
+    });
+    return deleted;
+  }
+
+  /**
+   * Put back what captureBand() saved, after the band was re-inserted.
+   * Formulas on this sheet are restored in place, without per-cell events.
+   */
+  private restoreBand(deleted: DeletedBand): void {
+    this.tableStore.deserialize(deleted.tables);
+    for (const { row, col, cell } of deleted.cells) {
+      this.cells.set(row, col, { ...cell });
+      if (cell.formula) this.registerFormulaDependencies({ row, col }, cell.formula);
+    }
+
+    this.mergeStore = new MergeStoreV1();
+    for (const region of deleted.merges) this.mergeStore.add(region);
+    this.validationStore = new Map(deleted.validations);
+    if (deleted.axis === 'row') {
+      for (const row of [...this.visibilityStore.getHiddenRows()]) this.visibilityStore.showRow(row);
+      for (const row of deleted.hidden) this.visibilityStore.hideRow(row);
+      this.rowHeights = new Map(deleted.sizes);
+    } else {
+      for (const col of [...this.visibilityStore.getHiddenCols()]) this.visibilityStore.showCol(col);
+      for (const col of deleted.hidden) this.visibilityStore.hideCol(col);
+      this.colWidths = new Map(deleted.sizes);
+    }
+    this.conditionalRules = deleted.conditionalRules.map(rule => ({ ...rule }));
+    this.filters = new Map(deleted.filters);
+    this.freezeState = deleted.freezePanes;
+    this.autoFilterRange = deleted.autoFilterRange;
+    this.allowEditRanges = deleted.allowEditRanges.map(copyAllowEditRange);
+    this.outline[deleted.axis] = fromOutlineAxisState(deleted.outline);
+
+    if (deleted.names) this.workbook?.getNameManager().deserialize(deleted.names);
+    for (const { sheet, address, formula } of deleted.formulas) {
+      if (!isSameSheetName(sheet, this.name)) {
+        this.workbook?.findSheet(sheet)?.setCellFormula(address, formula);
+        continue;
+      }
+      const cell = this.cells.get(address.row, address.col);
+      if (!cell) continue;
+      cell.formula = formula;
+      this.workbook?.clearCrossSheetDependencies(this.name, address);
+      this.registerFormulaDependencies(address, formula);
+      this.recalcCoordinator.notifyChanged(address.row, address.col);
+    }
+    if (deleted.tables.length > 0) {
+      for (const sheet of this.sheetsInScope()) sheet.refreshTableUsers();
+    }
+  }
+
+  /**
+   * Move every row- or column-attached piece of state through `transform` and
+   * rewrite formulas on this sheet, on other sheets and in defined names.
+   *
+   * @returns The formulas that changed, at their pre-edit addresses
+   */
+  private applyBandTransform(
+    axis: 'row' | 'col',
+    transform: BandTransform,
+    change: StructuralChange
+  ): FormulaRewrite[] {
+    const rewritten: FormulaRewrite[] = [];
+    // Map a row (or column) index along the changed axis; null when deleted
+    const mapIndex = (index: number): number | null => {
+      const to = transform.map(axis === 'row' ? { row: index, col: 0 } : { row: 0, col: index });
+      return to ? (axis === 'row' ? to.row : to.col) : null;
+    };
+
+    // Tables first, so moved formulas resolve structured references against
+    // the new geometry
+    const tablesBefore = this.tableStore.serialize();
+    this.transformTables(axis, transform, mapIndex);
+
+    // Cells: every formula is detached from the DAG, moved, then re-registered
+    const entries: Array<{ row: number; col: number; cell: Cell }> = [];
+    this.cells.forEach((row, col, cell) => entries.push({ row, col, cell }));
+    const volatiles = this.recalcCoordinator.getVolatileAddresses();
+    for (const { row, col, cell } of entries) {
+      if (cell.formula) this.workbook?.clearCrossSheetDependencies(this.name, { row, col });
+    }
+    this.dag.clearAll();
+    this.cells = new CellStoreV1();
+
+    const moved: Array<{ from: Address; to: Address; cell: Cell }> = [];
+    for (const { row, col, cell } of entries) {
+      const to = transform.map({ row, col });
+      if (!to) continue;
+      if (cell.spilledFrom) cell.spilledFrom = transform.map(cell.spilledFrom) ?? undefined;
+      this.cells.set(to.row, to.col, cell);
+      moved.push({ from: { row, col }, to, cell });
+    }
+    for (const { from, to, cell } of moved) {
+      if (!cell.formula) continue;
+      const formula = transform.shiftFormula(cell.formula, from);
+      this.registerFormulaDependencies(to, formula);
+      if (formula !== cell.formula) {
+        rewritten.push({ sheet: this.name, address: from, formula: cell.formula });
+        cell.formula = formula;
+        this.recalcCoordinator.notifyChanged(to.row, to.col);
+      }
+    }
+    for (const addr of volatiles) {
+      const to = transform.map(addr);
+      if (to) this.dag.setVolatile(packKey(to.row, to.col), true);
+    }
+
+    // Merges: collapsed (single-cell) or fully deleted merges are dropped
+    const merges = this.mergeStore.getAll();
+    this.mergeStore = new MergeStoreV1();
+    for (const region of merges) {
+      const mapped = transform.mapRange({
+        start: { row: region.startRow, col: region.startCol },
+        end: { row: region.endRow, col: region.endCol },
+      });
+      if (!mapped || (mapped.start.row === mapped.end.row && mapped.start.col === mapped.end.col)) continue;
+      this.mergeStore.add({
+        startRow: mapped.start.row,
+        startCol: mapped.start.col,
+        endRow: mapped.end.row,
+        endCol: mapped.end.col,
+      });
+    }
+
+    // Data validation
+    const validations = this.validationStore;
+    this.validationStore = new Map();
+    for (const [key, rule] of validations) {
+      const [row, col] = key.split(':').map(Number);
+      const to = transform.map({ row, col });
+      if (to) this.validationStore.set(`${to.row}:${to.col}`, rule);
+    }
+
+    // Conditional formatting: rules lose deleted ranges, and are dropped once
+    // they have none left (a rule created without ranges applies everywhere)
+    this.conditionalRules = this.conditionalRules.flatMap(rule => {
+      if (!rule.ranges || rule.ranges.length === 0) return [rule];
+      const ranges = rule.ranges
+        .map(range => transform.mapRange(range))
+        .filter((range): range is Range => range !== null);
+      return ranges.length > 0 ? [{ ...rule, ranges }] : [];
+    });
+
+    // Allow-edit ranges follow their cells and are dropped once all are deleted
+    this.allowEditRanges = this.allowEditRanges.flatMap(editRange => {
+      const range = transform.mapRange(editRange.range);
+      return range ? [{ ...editRange, range }] : [];
+    });
+
+    // Outline levels follow their rows/columns, and rows inserted inside a
+    // group join it; collapsed groups keep their flag at their new start
+    const collapsedGroups = this.getOutlineGroups(axis).filter(group => group.collapsed);
+    const levels = remapKeys(this.outline[axis].levels, mapIndex);
+    if (change.count > 0) {
+      const inherited = Math.min(levels.get(change.index - 1) ?? 0, levels.get(change.index + change.count) ?? 0);
+      for (let i = change.index; inherited > 0 && i < change.index + change.count; i++) levels.set(i, inherited);
+    }
+    const collapsed = new Set<string>();
+    for (const { start, end, level } of collapsedGroups) {
+      const mapped = transform.mapRange(
+        axis === 'row' ? { start: { row: start, col: 0 }, end: { row: end, col: 0 } } : { start: { row: 0, col: start }, end: { row: 0, col: end } }
+      );
+      if (mapped) collapsed.add(outlineKey(axis === 'row' ? mapped.start.row : mapped.start.col, level));
+    }
+    this.outline[axis] = { levels, collapsed };
+
+    // Hidden rows/columns, row heights/column widths, column filters
+    if (axis === 'row') {
+      const hiddenRows = [...this.visibilityStore.getHiddenRows()];
+      for (const row of hiddenRows) this.visibilityStore.showRow(row);
+      for (const row of hiddenRows) {
+        const to = mapIndex(row);
+        if (to !== null) this.visibilityStore.hideRow(to);
+      }
+      this.rowHeights = remapKeys(this.rowHeights, mapIndex);
+    } else {
+      const hiddenCols = [...this.visibilityStore.getHiddenCols()];
+      for (const col of hiddenCols) this.visibilityStore.showCol(col);
+      for (const col of hiddenCols) {
+        const to = mapIndex(col);
+        if (to !== null) this.visibilityStore.hideCol(to);
+      }
+      this.colWidths = remapKeys(this.colWidths, mapIndex);
+      this.filters = remapKeys(this.filters, mapIndex);
+    }
+
+    // Auto-filter extent (cleared once its header row or every column is gone)
+    if (this.autoFilterRange) {
+      const { headerRow, startCol, endCol } = this.autoFilterRange;
+      const mapped = transform.mapRange({ start: { row: headerRow, col: startCol }, end: { row: headerRow, col: endCol } });
+      this.autoFilterRange = mapped
+        ? { ...this.autoFilterRange, headerRow: mapped.start.row, startCol: mapped.start.col, endCol: mapped.end.col }
+        : null;
+    }
+
+    // Frozen rows/columns grow or shrink with the band inside them
+    if (this.freezeState) {
+      const frozen = axis === 'row' ? this.freezeState.rows : this.freezeState.cols;
+      if (frozen > 0) {
+        const mapped = transform.mapRange({
+          start: { row: 0, col: 0 },
+          end: axis === 'row' ? { row: frozen - 1, col: 0 } : { row: 0, col: frozen - 1 },
+        });
+        const count = mapped ? (axis === 'row' ? mapped.end.row : mapped.end.col) + 1 : 0;
+        const rows = axis === 'row' ? count : this.freezeState.rows;
+        const cols = axis === 'col' ? count : this.freezeState.cols;
+        this.freezeState = rows === 0 && cols === 0 ? null : { rows, cols };
+      }
+    }
+
+    // Formulas on other sheets and defined names
+    if (this.workbook) rewritten.push(...this.workbook.adjustReferencesForStructuralChange(change));
+
+    // Columns inserted inside a table need header cells; formulas elsewhere
+    // that use a moved table need its new cells
+    if (tablesBefore.length > 0) {
+      this.runTableSync(() => {
+        for (const table of this.tableStore.getAll()) this.writeTableHeaders(table);
+      });
+      for (const sheet of this.sheetsInScope()) sheet.refreshTableUsers();
+    }
+
+    return rewritten;
+  }
+
+  /**
+   * Move tables through a row/column insert or delete. Tables grow and
+   * shrink with the band like ranges do; columns inserted inside a table are
+   * named `ColumnN`. A table is dropped with its header row or its last data
+   * row, and loses its totals row when that row is deleted.
+   */
+  private transformTables(
+    axis: 'row' | 'col',
+    transform: BandTransform,
+    mapIndex: (index: number) => number | null
+  ): void {
+    for (const table of this.tableStore.getAll()) {
+      const mapped = transform.mapRange(table.range);
+      const first = getTableDataRange(table).start;
+      if (!mapped || (axis === 'row' && table.headerRow && mapIndex(table.range.start.row) === null)) {
+        this.tableStore.delete(table.name);
+        continue;
+      }
+
+      if (axis === 'row') {
+        if (table.totalsRow && mapIndex(table.range.end.row) === null) table.totalsRow = false;
+        const headerRows = table.headerRow ? 1 : 0;
+        const totalsRows = table.totalsRow ? 1 : 0;
+        if (mapped.end.row - mapped.start.row + 1 < headerRows + totalsRows + 1) {
+          this.tableStore.delete(table.name);
+          continue;
+        }
+      } else {
+        const columns: Array<TableColumn | undefined> = new Array(mapped.end.col - mapped.start.col + 1).fill(undefined);
+        table.columns.forEach((column, index) => {
+          const to = mapIndex(table.range.start.col + index);
+          if (to !== null) columns[to - mapped.start.col] = column;
+        });
+        const named = columns.filter((column): column is TableColumn => column !== undefined);
+        table.columns = columns.map((column, index) => {
+          if (column) return column;
+          const added = { name: uniqueColumnName(named, `Column${index + 1}`) };
+          named.push(added);
+          return added;
+        });
+      }
+
+      table.columns.forEach((column, index) => {
+        const at = { row: first.row, col: first.col + index };
+        if (column.formula) column.formula = transform.shiftFormula(column.formula, at);
+        if (column.totalsFormula) column.totalsFormula = transform.shiftFormula(column.totalsFormula, at);
+      });
+      table.range = mapped;
+    }
+  }
+
+  // ==================== Sheet Tab API ====================
+  //
+  // Tab state is stored here but changed through the Workbook, which enforces
+  // the workbook-wide rules (at least one visible sheet) and emits the events.
+
+  getVisibility(): SheetVisibility {
+    return this.visibility;
+  }
+
+  setVisibility(visibility: SheetVisibility): void {
+    this.visibility = visibility;
+  }
+
+  getTabColor(): string | null {
+    return this.tabColor;
+  }
+
+  setTabColor(color: string | null): void {
+    this.tabColor = color;
+  }
+
+  /** Floating objects (pictures, shapes, charts, …) anchored on this sheet. */
+  getDrawingLayer(): DrawingLayer {
+    return this.drawingLayer;
+  }
+
+  /**
+   * Copy another sheet's cells and sheet-level state into this (empty) sheet.
+   * Formulas are copied verbatim and registered against this sheet, so
+   * unqualified references point at the copy and qualified ones keep
+   * pointing where they did. Visibility is not copied: copies start visible.
+   */
+  copyContentsFrom(source: Worksheet): void {
+    this.rowCount = source.rowCount;
+    this.colCount = source.colCount;
+    source.cells.forEach((row, col, cell) => {
+      this.cells.set(row, col, { ...cell, comments: cell.comments?.map(comment => ({ ...comment })) });
+    });
+    for (const region of source.mergeStore.getAll()) this.mergeStore.add({ ...region });
+    for (const row of source.visibilityStore.getHiddenRows()) this.visibilityStore.hideRow(row);
+    for (const col of source.visibilityStore.getHiddenCols()) this.visibilityStore.hideCol(col);
+    this.colWidths = new Map(source.colWidths);
+    this.rowHeights = new Map(source.rowHeights);
+    this.validationStore = new Map(source.validationStore);
+    this.sheetProtection = source.sheetProtection && { ...source.sheetProtection };
+    this.allowEditRanges = source.allowEditRanges.map(copyAllowEditRange);
+    const outline = source.getOutlineState();
+    this.outline = { row: fromOutlineAxisState(outline.rows), col: fromOutlineAxisState(outline.cols) };
+    this.outlineSettings = outline.settings;
+    this.freezeState = source.freezeState && { ...source.freezeState };
+    this.autoFilterRange = source.autoFilterRange && { ...source.autoFilterRange };
+    this.filters = new Map(source.filters);
+    this.conditionalRules = source.conditionalRules.map(rule => ({ ...rule }));
+    this.tabColor = source.tabColor;
+
+    // Table names are workbook-wide: the copies get fresh names and the
+    // copied formulas follow them
+    const renames: Array<[string, string]> = [];
+    for (const table of source.tableStore.serialize()) {
+      let name = table.name;
+      for (let n = 2; this.isTableNameTaken(name) || this.tableStore.get(name); n++) name = `${table.name}_${n}`;
+      if (name !== table.name) renames.push([table.name, name]);
+      this.tableStore.set({ ...table, name });
+    }
+    const renameAll = (formula: string) => renames.reduce((text, [from, to]) => renameTableInFormula(text, from, to), formula);
+    if (renames.length > 0) {
+      for (const table of this.tableStore.getAll()) {
+        for (const column of table.columns) {
+          if (column.formula) column.formula = renameAll(column.formula);
+          if (column.totalsFormula) column.totalsFormula = renameAll(column.totalsFormula);
+        }
+      }
+      this.cells.forEach((row, col, cell) => {
+        if (cell.formula) cell.formula = renameAll(cell.formula);
+      });
+    }
+
+    this.cells.forEach((row, col, cell) => {
+      if (!cell.formula) return;
+      this.registerFormulaDependencies({ row, col }, cell.formula);
+      this.recalcCoordinator.notifyChanged(row, col);
+    });
+    for (const { row, col } of source.recalcCoordinator.getVolatileAddresses()) {
+      this.dag.setVolatile(packKey(row, col), true);
+    }
+  }
+
   // ==================== Snapshot API (Phase 7) ====================
 
   /**
    * Extract all serialisable Worksheet state into a plain object.
    *
    * Captures: cells, merges, visibility (hidden rows/cols), DAG dependency edges,
-   * and volatile registrations.  Does NOT capture: column widths, row heights,
-   * column filters, conditional formatting rules, or formula engine reference.
+   * and volatile registrations.  Column widths, row heights, filters,
+   * conditional formatting and other sheet settings come from
+   * extractSheetState(); the formula engine reference is never captured.
    *
    * Typical usage:
    * ```ts
@@ -2014,9 +3737,9 @@ export class Worksheet {
    * Replace all Worksheet state with the contents of a snapshot.
    *
    * Clears the current cell store, merge store, visibility store, and DAG,
-   * then loads each section from the snapshot.  The formula engine reference,
-   * column widths, row heights, column filters, and conditional formatting
-   * rules are NOT touched — they survive the restore.
+   * then loads each section from the snapshot.  The formula engine reference
+   * and the state covered by applySheetState() are NOT touched — they
+   * survive the restore.
    *
    * @param snapshot  Plain WorksheetSnapshot produced by extractSnapshot() or
    *                  decoded by SnapshotCodec.decode().
@@ -2054,6 +3777,56 @@ export class Worksheet {
     }
   }
 
+  /**
+   * Extract the sheet-level state extractSnapshot() leaves out: conditional
+   * formatting, data validation, filters, protection, outline, freeze panes,
+   * visibility, tab colour, column/row sizes, drawing objects and tables.
+   */
+  extractSheetState(): SheetStateSnapshot {
+    return {
+      conditionalFormats: this.conditionalRules.map(rule => ({ ...rule })),
+      validations:        this.getValidationCells().map(({ row, col }) => ({
+        row, col, rule: { ...this.validationStore.get(`${row}:${col}`)! },
+      })),
+      autoFilter:         this.getAutoFilterRange(),
+      filters:            Array.from(this.filters, ([col, filter]) => ({ col, filter: { ...filter } })),
+      protection:         this.getSheetProtection(),
+      allowEditRanges:    this.getAllowEditRanges(),
+      outline:            this.getOutlineState(),
+      freezePanes:        this.getFreezePanes(),
+      visibility:         this.visibility,
+      tabColor:           this.tabColor,
+      columnWidths:       Array.from(this.colWidths),
+      rowHeights:         Array.from(this.rowHeights),
+      drawings:           this.drawingLayer.serialize(),
+      tables:             this.tableStore.serialize(),
+    };
+  }
+
+  /**
+   * Replace the sheet-level state with the contents of `state`.
+   * Cells are untouched; pair with applySnapshot() for a full restore.
+   */
+  applySheetState(state: SheetStateSnapshot): void {
+    this.conditionalRules = state.conditionalFormats.map(rule => ({ ...rule }));
+    this.validationStore = new Map(state.validations.map(({ row, col, rule }) => [`${row}:${col}`, { ...rule }]));
+    this.autoFilterRange = state.autoFilter && { ...state.autoFilter };
+    this.filters = new Map(state.filters.map(({ col, filter }) => [col, { ...filter }]));
+    this.sheetProtection = state.protection && { ...state.protection };
+    this.allowEditRanges = state.allowEditRanges.map(copyAllowEditRange);
+    this.unlockedEditRanges.clear();
+    this.outline = { row: fromOutlineAxisState(state.outline.rows), col: fromOutlineAxisState(state.outline.cols) };
+    this.outlineSettings = { ...state.outline.settings };
+    this.freezeState = state.freezePanes && { ...state.freezePanes };
+    this.visibility = state.visibility;
+    this.tabColor = state.tabColor;
+    this.colWidths = new Map(state.columnWidths);
+    this.rowHeights = new Map(state.rowHeights);
+    this.drawingLayer.deserialize(state.drawings);
+    this.tableStore.deserialize(state.tables);
+    this.events.emit({ type: 'sheet-mutated' });
+  }
+
   // ==================== Private Helpers ====================
 
   private generateCommentId(): string {
@@ -0,0 +1,164 @@
+/**
+ * CollaborationEngine Convergence
+ *
+ * Concurrent cell edits and row/column inserts and deletes must leave every
+ * client with the same sheet, whatever order the network delivers them in:
+ * 1. Edits follow their cell across concurrent structural changes
+ * 2. Concurrent inserts at one position order identically everywhere
+ * 3. Concurrent deletes of one row remove it once
+ * 4. Conflicting writes resolve to the same winner
+ * 5. Randomised multi-client sessions converge (seeded, reproducible)
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { SimulatedNetwork, SeededRandom } from './CollaborationHarness';
+
+describe('CollaborationEngine convergence', () => {
+  let net: SimulatedNetwork;
+
+  afterEach(() => net?.destroy());
+
+  const expectConverged = () => {
+    const [first, ...rest] = net.clients.map(c => net.snapshot(c));
+    for (const other of rest) expect(other).toEqual(first);
+    return first;
+  };
+
+  it('keeps a remote edit on its cell when a peer inserted a row above it', () => {
+    net = new SimulatedNetwork(['A', 'B']);
+    const a = net.client('A');
+    const b = net.client('B');
+
+    a.engine.applyOperation('insert-row', { address: { row: 3, col: 1 } });
+    b.engine.applyOperation('set', { address: { row: 5, col: 2 }, value: 'x' });
+    net.flush(new SeededRandom(1));
+
+    const state = expectConverged();
+    expect(a.sheet.getCellValue({ row: 6, col: 2 })).toBe('x');
+    expect(state.rows).toBe(11);
+  });
+
+  it('follows cells across concurrent column deletes and inserts', () => {
+    net = new SimulatedNetwork(['A', 'B', 'C']);
+    net.client('A').engine.applyOperation('set', { address: { row: 1, col: 4 }, value: 'd' });
+    net.flush(new SeededRandom(2));
+
+    net.client('A').engine.applyOperation('delete-col', { address: { row: 1, col: 1 }, data: { count: 2 } });
+    net.client('B').engine.applyOperation('insert-col', { address: { row: 1, col: 4 } });
+    net.client('C').engine.applyOperation('set', { address: { row: 2, col: 4 }, value: 'e' });
+    net.flush(new SeededRandom(3));
+
+    expectConverged();
+    const sheet = net.client('C').sheet;
+    expect(sheet.getCellValue({ row: 1, col: 3 })).toBe('d');
+    expect(sheet.getCellValue({ row: 2, col: 3 })).toBe('e');
+  });
+
+  it('orders concurrent inserts at the same position identically', () => {
+    net = new SimulatedNetwork(['A', 'B', 'C']);
+    for (const id of ['A', 'B', 'C']) {
+      const { engine } = net.client(id);
+      engine.applyOperation('insert-row', { address: { row: 2, col: 1 }, data: { count: 2 } });
+      engine.applyOperation('set', { address: { row: 2, col: 1 }, value: id });
+    }
+    net.flush(new SeededRandom(4));
+
+    const state = expectConverged();
+    expect(state.rows).toBe(16);
+    const labels = [2, 3, 4, 5, 6, 7].map(row => net.client('A').sheet.getCellValue({ row, col: 1 })).filter(Boolean);
+    expect(labels.sort()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('removes a row deleted by two clients only once', () => {
+    net = new SimulatedNetwork(['A', 'B']);
+    net.client('A').engine.applyOperation('set', { address: { row: 4, col: 1 }, value: 'keep' });
+    net.flush(new SeededRandom(5));
+
+    net.client('A').engine.applyOperation('delete-row', { address: { row: 3, col: 1 } });
+    net.client('B').engine.applyOperation('delete-row', { address: { row: 3, col: 1 } });
+    net.flush(new SeededRandom(6));
+
+    const state = expectConverged();
+    expect(state.rows).toBe(9);
+    expect(net.client('B').sheet.getCellValue({ row: 3, col: 1 })).toBe('keep');
+  });
+
+  it('drops edits to a row deleted concurrently', () => {
+    net = new SimulatedNetwork(['A', 'B']);
+    net.client('A').engine.applyOperation('delete-row', { address: { row: 5, col: 1 } });
+    net.client('B').engine.applyOperation('set', { address: { row: 5, col: 1 }, value: 'lost' });
+    net.client('B').engine.applyOperation('set', { address: { row: 6, col: 1 }, value: 'kept' });
+    net.flush(new SeededRandom(7));
+
+    const state = expectConverged();
+    expect(Object.values(state.cells)).toEqual(['kept']);
+    expect(net.client('A').sheet.getCellValue({ row: 5, col: 1 })).toBe('kept');
+  });
+
+  it('resolves conflicting writes and style properties the same way everywhere', () => {
+    net = new SimulatedNetwork(['A', 'B']);
+    const a = net.client('A');
+    const b = net.client('B');
+    a.engine.applyOperation('set', { address: { row: 1, col: 1 }, value: 'from A' });
+    b.engine.applyOperation('set', { address: { row: 1, col: 1 }, value: 'from B' });
+    a.engine.applyOperation('style', { address: { row: 1, col: 1 }, data: { bold: true } });
+    b.engine.applyOperation('style', { address: { row: 1, col: 1 }, data: { italic: true } });
+    net.flush(new SeededRandom(8));
+
+    expectConverged();
+    expect(a.sheet.getCellValue({ row: 1, col: 1 })).toBe(b.sheet.getCellValue({ row: 1, col: 1 }));
+    expect(a.sheet.getCellStyle({ row: 1, col: 1 })).toMatchObject({ bold: true, italic: true });
+    expect(b.sheet.getCellStyle({ row: 1, col: 1 })).toMatchObject({ bold: true, italic: true });
+  });
+
+  it('buffers operations that arrive before their causal predecessors', () => {
+    net = new SimulatedNetwork(['A', 'B']);
+    const a = net.client('A');
+    const b = net.client('B');
+    a.engine.applyOperation('insert-row', { address: { row: 1, col: 1 } });
+    a.engine.applyOperation('set', { address: { row: 1, col: 1 }, value: 'new top' });
+    const [insert, set] = a.engine.getOperations();
+
+    b.engine.receiveOperation(set);
+    expect(b.sheet.getCellValue({ row: 1, col: 1 })).toBeNull();
+
+    b.engine.receiveOperation(insert);
+    b.engine.receiveOperation(insert);
+    expect(b.sheet.getCellValue({ row: 1, col: 1 })).toBe('new top');
+    expect(b.sheet.rowCount).toBe(11);
+  });
+
+  it('converges across randomised sessions', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      net = new SimulatedNetwork(['A', 'B', 'C'], 8, 5, 0.1);
+      const rng = new SeededRandom(seed);
+
+      for (let step = 0; step < 40; step++) {
+        const { engine, sheet } = rng.pick(net.clients);
+        const address = { row: rng.int(1, sheet.rowCount), col: rng.int(1, sheet.colCount) };
+        const kind = rng.int(0, 9);
+
+        if (kind < 5) {
+          engine.applyOperation('set', { address, value: `${seed}.${step}` });
+        } else if (kind === 5) {
+          engine.applyOperation('style', { address, data: { bold: rng.next() < 0.5 } });
+        } else if (kind === 6) {
+          engine.applyOperation(rng.next() < 0.5 ? 'insert-row' : 'insert-col', { address, data: { count: rng.int(1, 2) } });
+        } else if (kind === 7 && sheet.rowCount > 2) {
+          engine.applyOperation('delete-row', { address });
+        } else if (kind === 8 && sheet.colCount > 2) {
+          engine.applyOperation('delete-col', { address });
+        } else {
+          engine.applyOperation('delete', { address });
+        }
+
+        // Let part of the traffic through between edits
+        for (let n = rng.int(0, 3); n > 0 && net.pendingCount > 0; n--) net.deliverOne(rng);
+      }
+
+      net.flush(rng);
+      expectConverged();
+      net.destroy();
+    }
+  });
+});
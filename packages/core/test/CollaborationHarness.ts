@@ -0,0 +1,101 @@
+/**
+ * In-memory harness for CollaborationEngine convergence tests.
+ *
+ * Runs several clients, each with its own Workbook, and routes their
+ * operations through a simulated network that delivers messages in an
+ * order chosen by a seeded random generator: reordered, interleaved with
+ * new local edits and optionally duplicated. Runs are reproducible from
+ * the seed.
+ */
+
+import { Workbook } from '../src/workbook';
+import type { Worksheet } from '../src/worksheet';
+import { CollaborationEngine, type Operation } from '../src/CollaborationEngine';
+
+export class SeededRandom {
+  constructor(private seed: number) {}
+
+  next(): number {
+    this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
+    return this.seed / 0x7fffffff;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+}
+
+export interface SimulatedClient {
+  id: string;
+  sheet: Worksheet;
+  engine: CollaborationEngine;
+}
+
+type Message = { to: SimulatedClient; op: Operation };
+
+export class SimulatedNetwork {
+  readonly clients: SimulatedClient[];
+  private inFlight: Message[] = [];
+
+  constructor(clientIds: string[], rows = 10, cols = 6, private duplicateRate = 0) {
+    this.clients = clientIds.map(id => {
+      const sheet = new Workbook().addSheet('Sheet1', rows, cols);
+      const engine = new CollaborationEngine(sheet, { clientId: id });
+      const client = { id, sheet, engine };
+      engine.onOperationReceived(op => {
+        if (op.clientId !== id) return;
+        for (const to of this.clients) {
+          if (to !== client) this.inFlight.push({ to, op: this.wire(op) });
+        }
+      });
+      return client;
+    });
+  }
+
+  client(id: string): SimulatedClient {
+    return this.clients.find(c => c.id === id)!;
+  }
+
+  get pendingCount(): number {
+    return this.inFlight.length;
+  }
+
+  /** Deliver one message chosen at random; it may also stay in flight as a duplicate */
+  deliverOne(rng: SeededRandom): void {
+    const index = rng.int(0, this.inFlight.length - 1);
+    const message = this.inFlight[index];
+    if (rng.next() >= this.duplicateRate) this.inFlight.splice(index, 1);
+    message.to.engine.receiveOperation(this.wire(message.op));
+  }
+
+  /** Deliver everything, in random order */
+  flush(rng: SeededRandom): void {
+    while (this.inFlight.length > 0) this.deliverOne(rng);
+  }
+
+  /** Non-empty cell values by A1-style key, plus the sheet dimensions */
+  snapshot(client: SimulatedClient): { rows: number; cols: number; cells: Record<string, unknown> } {
+    const { sheet } = client;
+    const cells: Record<string, unknown> = {};
+    for (let row = 1; row <= sheet.rowCount; row++) {
+      for (let col = 1; col <= sheet.colCount; col++) {
+        const value = sheet.getCellValue({ row, col });
+        if (value !== null && value !== undefined) cells[`${row},${col}`] = value;
+      }
+    }
+    return { rows: sheet.rowCount, cols: sheet.colCount, cells };
+  }
+
+  destroy(): void {
+    for (const client of this.clients) client.engine.destroy();
+  }
+
+  /** Copy an operation so receivers never share objects with the sender */
+  private wire(op: Operation): Operation {
+    return { ...op, vectorClock: new Map(op.vectorClock), data: op.data === undefined ? undefined : JSON.parse(JSON.stringify(op.data)) };
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * CollaborationEngine Transports & Relay
+ *
+ * Runs without a browser:
+ * 1. Engines connected to an in-process relay see each other's edits
+ * 2. Late joiners and restarted relays replay the persisted op log
+ * 3. Edits made while disconnected reach peers after reconnecting
+ * 4. Dropped connections reconnect with exponential backoff
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Workbook } from '../src/workbook';
+import { CollaborationEngine } from '../src/CollaborationEngine';
+import { CollaborationRelay, MemoryRelayStore } from '../src/collaboration/CollaborationRelay';
+import { InMemoryTransport } from '../src/collaboration/InMemoryTransport';
+import { WebSocketTransport, type WebSocketLike, type TransportState } from '../src/collaboration/CollaborationTransport';
+
+function createClient(id: string) {
+  const sheet = new Workbook().addSheet('Sheet1', 10, 5);
+  const engine = new CollaborationEngine(sheet, { clientId: id });
+  return { sheet, engine };
+}
+
+class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  sent: string[] = [];
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.onclose?.({});
+  }
+}
+
+describe('CollaborationEngine transports', () => {
+  const engines: CollaborationEngine[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    engines.splice(0).forEach(engine => engine.destroy());
+    jest.useRealTimers();
+  });
+
+  const client = (id: string) => {
+    const c = createClient(id);
+    engines.push(c.engine);
+    return c;
+  };
+
+  it('relays live edits and presence between connected clients', () => {
+    const relay = new CollaborationRelay();
+    const a = client('A');
+    const b = client('B');
+    a.engine.connect(new InMemoryTransport(relay));
+    b.engine.connect(new InMemoryTransport(relay));
+
+    a.engine.applyOperation('insert-row', { address: { row: 1, col: 1 } });
+    b.engine.applyOperation('set', { address: { row: 2, col: 2 }, value: 42 });
+
+    expect(a.sheet.getCellValue({ row: 2, col: 2 })).toBe(42);
+    expect(b.sheet.getCellValue({ row: 2, col: 2 })).toBe(42);
+    expect(b.sheet.rowCount).toBe(11);
+    expect(b.engine.getClient('A')?.clientId).toBe('A');
+    expect(relay.connectionCount).toBe(2);
+  });
+
+  it('replays the op log to late joiners and after a relay restart', () => {
+    const store = new MemoryRelayStore();
+    const a = client('A');
+    a.engine.connect(new InMemoryTransport(new CollaborationRelay(store)));
+    a.engine.applyOperation('set', { address: { row: 1, col: 1 }, value: 'first' });
+    a.engine.applyOperation('delete-col', { address: { row: 1, col: 1 } });
+
+    const late = client('Late');
+    late.engine.connect(new InMemoryTransport(new CollaborationRelay(store)));
+
+    expect(late.sheet.colCount).toBe(4);
+    expect(late.sheet.getCellValue({ row: 1, col: 1 })).toBeNull();
+    expect(late.engine.getOperations()).toHaveLength(2);
+  });
+
+  it('sends edits made while disconnected once the connection is back', () => {
+    const relay = new CollaborationRelay();
+    const a = client('A');
+    const b = client('B');
+    const transport = new InMemoryTransport(relay, { initialDelay: 100 });
+    const states: TransportState[] = [];
+    a.engine.onConnectionChanged(state => states.push(state));
+    a.engine.connect(transport);
+    b.engine.connect(new InMemoryTransport(relay));
+
+    transport.drop();
+    a.engine.applyOperation('set', { address: { row: 3, col: 3 }, value: 'offline' });
+    b.engine.applyOperation('set', { address: { row: 4, col: 4 }, value: 'while away' });
+    expect(b.sheet.getCellValue({ row: 3, col: 3 })).toBeNull();
+    expect(a.engine.getConnectionState()).toBe('reconnecting');
+
+    jest.advanceTimersByTime(100);
+
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+    expect(b.sheet.getCellValue({ row: 3, col: 3 })).toBe('offline');
+    expect(a.sheet.getCellValue({ row: 4, col: 4 })).toBe('while away');
+    expect(relay.getOperations()).toHaveLength(2);
+  });
+
+  it('reconnects a WebSocket transport with exponential backoff', () => {
+    const sockets: FakeSocket[] = [];
+    const transport = new WebSocketTransport('ws://relay.test', {
+      initialDelay: 100,
+      maxDelay: 350,
+      createSocket: () => {
+        const socket = new FakeSocket();
+        sockets.push(socket);
+        return socket;
+      },
+    });
+
+    transport.connect();
+    const fail = () => sockets[sockets.length - 1].close();
+
+    fail();
+    expect(transport.state).toBe('reconnecting');
+    jest.advanceTimersByTime(99);
+    expect(sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    fail();
+    jest.advanceTimersByTime(200);
+    expect(sockets).toHaveLength(3);
+
+    // Capped at maxDelay
+    fail();
+    jest.advanceTimersByTime(349);
+    expect(sockets).toHaveLength(3);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(4);
+
+    // A successful open resets the backoff
+    sockets[3].onopen?.({});
+    expect(transport.state).toBe('open');
+    transport.send({ type: 'sync-request', vectorClock: { A: 2 } });
+    expect(JSON.parse(sockets[3].sent[0])).toEqual({ type: 'sync-request', vectorClock: { A: 2 } });
+    fail();
+    jest.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(5);
+
+    // Closing stops reconnecting
+    transport.close();
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(5);
+    expect(transport.state).toBe('closed');
+  });
+});
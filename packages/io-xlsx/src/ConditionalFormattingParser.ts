@@ -0,0 +1,785 @@
+/**
+ * Excel Conditional Formatting Parser
+ *
+ * Maps between worksheet `<conditionalFormatting>` blocks (plus the Excel
+ * 2010 `<extLst>` extension for solid data bars and the newer icon sets)
+ * and ConditionalFormattingRule.
+ *
+ * Conditional formatting structure in XLSX:
+ * - xl/styles.xml <dxfs> - Differential formats referenced by cfRule dxfId
+ * - <conditionalFormatting sqref="A1:A10"><cfRule .../></conditionalFormatting>
+ * - <extLst><ext uri="{78C0D931-...}"><x14:conditionalFormattings> - 2010 rules
+ *
+ * Excel priorities run from 1 (evaluated first); ours are "higher runs
+ * first", so priorities are inverted in both directions.
+ */
+
+import type {
+  ConditionalFormattingRule,
+  ConditionalStyle,
+  ExcelIconSet,
+  IconThreshold,
+  ValueOperator,
+  Address,
+} from '@cyber-sheet/core';
+import { CF_COLOR_SCALES } from '@cyber-sheet/core';
+
+/** A rule or rule part that could not be mapped. */
+export interface RuleWarning {
+  /** sqref of the affected cells */
+  ref?: string;
+  message: string;
+}
+
+export interface ConditionalFormattingParseResult {
+  rules: ConditionalFormattingRule[];
+  warnings: RuleWarning[];
+}
+
+const X14_CF_EXT_URI = '{78C0D931-6437-407d-A8EE-F0AAD8539E65}';
+const X14_RULE_ID_EXT_URI = '{B025F937-C7B1-47D3-B67F-A62EFF666E3E}';
+const X14_NS = 'http://schemas.microsoft.com/office/spreadsheetml/2009/9/main';
+const XM_NS = 'http://schemas.microsoft.com/office/excel/2006/main';
+
+/** Our icon sets → Excel names. Sets marked x14 only exist in the 2010 extension. */
+const ICON_SETS: Record<ExcelIconSet, { name: string; x14?: boolean }> = {
+  '3-arrows': { name: '3Arrows' },
+  '3-arrows-gray': { name: '3ArrowsGray' },
+  '3-triangles': { name: '3Triangles', x14: true },
+  '3-traffic-lights': { name: '3TrafficLights1' },
+  '3-traffic-lights-rimmed': { name: '3TrafficLights2' },
+  '3-signs': { name: '3Signs' },
+  '3-symbols-circled': { name: '3Symbols' },
+  '3-symbols': { name: '3Symbols2' },
+  '3-flags': { name: '3Flags' },
+  '3-stars': { name: '3Stars', x14: true },
+  '4-arrows': { name: '4Arrows' },
+  '4-arrows-gray': { name: '4ArrowsGray' },
+  '4-traffic-lights': { name: '4TrafficLights' },
+  '4-ratings': { name: '4Rating' },
+  '5-arrows': { name: '5Arrows' },
+  '5-arrows-gray': { name: '5ArrowsGray' },
+  '5-quarters': { name: '5Quarters' },
+  '5-ratings': { name: '5Rating' },
+  '5-boxes': { name: '5Boxes', x14: true },
+};
+
+const CELL_IS_OPERATORS: Partial<Record<ValueOperator, string>> = {
+  '>': 'greaterThan',
+  '>=': 'greaterThanOrEqual',
+  '<': 'lessThan',
+  '<=': 'lessThanOrEqual',
+  '=': 'equal',
+  '!=': 'notEqual',
+  'between': 'between',
+  'notBetween': 'notBetween',
+};
+
+const TEXT_RULE_TYPES = {
+  'contains': 'containsText',
+  'not-contains': 'notContainsText',
+  'begins-with': 'beginsWith',
+  'ends-with': 'endsWith',
+} as const;
+
+const ERRORS_BLANK_TYPES = {
+  'errors': 'containsErrors',
+  'no-errors': 'notContainsErrors',
+  'blanks': 'containsBlanks',
+  'no-blanks': 'notContainsBlanks',
+} as const;
+
+const TIME_PERIODS = {
+  'today': 'today',
+  'yesterday': 'yesterday',
+  'tomorrow': 'tomorrow',
+  'last-7-days': 'last7Days',
+  'last-week': 'lastWeek',
+  'this-week': 'thisWeek',
+  'next-week': 'nextWeek',
+  'last-month': 'lastMonth',
+  'this-month': 'thisMonth',
+  'next-month': 'nextMonth',
+} as const;
+
+type TimePeriod = keyof typeof TIME_PERIODS;
+
+/** A parsed rule with its Excel priority, before priorities are inverted. */
+interface RankedRule {
+  rule: ConditionalFormattingRule;
+  excelPriority: number;
+  /** x14:id linking a base data bar to its extension */
+  extId?: string;
+}
+
+/**
+ * Parse and generate conditional formatting XML
+ */
+export class ConditionalFormattingParser {
+  /**
+   * Parse `<dxfs>` from styles.xml into conditional styles (by dxfId)
+   */
+  parseDxfs(stylesXml: string): ConditionalStyle[] {
+    const section = (stylesXml.match(/<dxfs[^>]*>([\s\S]*?)<\/dxfs>/) || [])[1] || '';
+    const dxfs: ConditionalStyle[] = [];
+
+    for (const match of section.matchAll(/<dxf>([\s\S]*?)<\/dxf>|<dxf\/>/g)) {
+      const dxf = match[1] || '';
+      const style: ConditionalStyle = {};
+
+      const font = (dxf.match(/<font>([\s\S]*?)<\/font>/) || [])[1];
+      if (font) {
+        if (/<b\b(?![^>]*val="0")/.test(font)) style.bold = true;
+        if (/<i\b(?![^>]*val="0")/.test(font)) style.italic = true;
+        if (/<u\b(?![^>]*val="none")/.test(font)) style.underline = true;
+        if (/<strike\b(?![^>]*val="0")/.test(font)) style.strikethrough = true;
+        const color = this.parseColor(font, 'color');
+        if (color) style.fontColor = color;
+      }
+
+      // Solid dxf fills carry their colour in bgColor
+      const fill = (dxf.match(/<fill>([\s\S]*?)<\/fill>/) || [])[1];
+      if (fill) {
+        const color = this.parseColor(fill, 'bgColor') ?? this.parseColor(fill, 'fgColor');
+        if (color) style.fillColor = color;
+      }
+
+      dxfs.push(style);
+    }
+
+    return dxfs;
+  }
+
+  /**
+   * Parse all conditional formatting in a worksheet, including the 2010
+   * extension. Rules that cannot be represented are skipped with a warning.
+   */
+  parseConditionalFormatting(sheetXml: string, dxfs: ConditionalStyle[]): ConditionalFormattingParseResult {
+    const ranked: RankedRule[] = [];
+    const warnings: RuleWarning[] = [];
+
+    // Unprefixed tags only: 2010 rules (<x14:conditionalFormatting>) are parsed below
+    for (const block of sheetXml.matchAll(/<conditionalFormatting\s+([^>]*)>([\s\S]*?)<\/conditionalFormatting>/g)) {
+      const sqref = this.parseAttributes(block[1]).sqref || '';
+      const ranges = this.parseSqref(sqref);
+
+      for (const ruleMatch of block[2].matchAll(/<cfRule\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/cfRule>)/g)) {
+        const attrs = this.parseAttributes(ruleMatch[1]);
+        const body = ruleMatch[2] || '';
+        const rule = this.parseRule(attrs, body, ranges, dxfs, sqref, warnings);
+        if (!rule) continue;
+
+        ranked.push({
+          rule,
+          excelPriority: parseInt(attrs.priority || '0'),
+          extId: (body.match(/<x14:id>([^<]*)<\/x14:id>/) || [])[1],
+        });
+      }
+    }
+
+    this.parseExtension(sheetXml, ranked, warnings);
+
+    // Excel priority 1 runs first → highest of ours
+    const maxPriority = ranked.reduce((max, r) => Math.max(max, r.excelPriority), 0);
+    const rules = ranked
+      .sort((a, b) => a.excelPriority - b.excelPriority)
+      .map(({ rule, excelPriority }) => ({ ...rule, priority: maxPriority + 1 - excelPriority }));
+
+    return { rules, warnings };
+  }
+
+  /**
+   * Generate `<conditionalFormatting>` blocks for a sheet's rules.
+   *
+   * Rule styles are appended to `dxfs` (shared across sheets, deduplicated);
+   * `extXml` holds the `<ext>` for solid data bars and 2010-only icon sets,
+   * to be placed in the worksheet `<extLst>`. Rules without ranges apply
+   * nowhere in Excel and are not written.
+   */
+  generateConditionalFormattingXml(
+    rules: ConditionalFormattingRule[],
+    dxfs: string[]
+  ): { xml: string; extXml: string } {
+    // Higher priority runs first → Excel priority 1
+    const ordered = rules
+      .filter(rule => rule.ranges && rule.ranges.length > 0)
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+      .map(({ rule }) => rule);
+
+    const blocks: string[] = [];
+    const extBlocks: string[] = [];
+
+    ordered.forEach((rule, idx) => {
+      const priority = idx + 1;
+      const sqref = rule.ranges!.map(r => this.rangeToRef(r)).join(' ');
+      const topLeft = this.addressToRef(rule.ranges![0].start);
+      const stop = rule.stopIfTrue ? ' stopIfTrue="1"' : '';
+
+      if (rule.type === 'icon-set' && ICON_SETS[rule.iconSet]?.x14) {
+        extBlocks.push(
+          `<x14:conditionalFormatting xmlns:xm="${XM_NS}"><x14:cfRule type="iconSet" priority="${priority}" id="${this.extRuleId(priority)}">` +
+          `${this.iconSetXml(rule, true)}</x14:cfRule><xm:sqref>${sqref}</xm:sqref></x14:conditionalFormatting>`
+        );
+        return;
+      }
+
+      if (rule.type === 'data-bar' && rule.gradient === false) {
+        const id = this.extRuleId(priority);
+        blocks.push(
+          `<conditionalFormatting sqref="${sqref}"><cfRule type="dataBar" priority="${priority}"${stop}>${this.dataBarXml(rule)}` +
+          `<extLst><ext uri="${X14_RULE_ID_EXT_URI}" xmlns:x14="${X14_NS}"><x14:id>${id}</x14:id></ext></extLst></cfRule></conditionalFormatting>`
+        );
+        extBlocks.push(
+          `<x14:conditionalFormatting xmlns:xm="${XM_NS}"><x14:cfRule type="dataBar" id="${id}">` +
+          `<x14:dataBar minLength="0" maxLength="100" gradient="0"><x14:cfvo type="autoMin"/><x14:cfvo type="autoMax"/></x14:dataBar>` +
+          `</x14:cfRule><xm:sqref>${sqref}</xm:sqref></x14:conditionalFormatting>`
+        );
+        return;
+      }
+
+      const ruleXml = this.ruleXml(rule, priority, stop, topLeft, dxfs);
+      blocks.push(`<conditionalFormatting sqref="${sqref}">${ruleXml}</conditionalFormatting>`);
+    });
+
+    const extXml = extBlocks.length > 0
+      ? `<ext uri="${X14_CF_EXT_URI}" xmlns:x14="${X14_NS}"><x14:conditionalFormattings>${extBlocks.join('')}</x14:conditionalFormattings></ext>`
+      : '';
+
+    return { xml: blocks.join(''), extXml };
+  }
+
+  /**
+   * Convert a conditional style to a `<dxf>` element
+   */
+  toDxfXml(style: ConditionalStyle): string {
+    const font: string[] = [];
+    if (style.bold) font.push('<b/>');
+    if (style.italic) font.push('<i/>');
+    if (style.strikethrough) font.push('<strike/>');
+    if (style.underline) font.push('<u/>');
+    const fontColor = style.fontColor ?? (typeof style.color === 'string' ? style.color : undefined);
+    if (fontColor) font.push(`<color rgb="${this.cssToArgb(fontColor)}"/>`);
+
+    const fillColor = style.fillColor ?? (typeof style.fill === 'string' ? style.fill : undefined);
+    const fill = fillColor
+      ? `<fill><patternFill><bgColor rgb="${this.cssToArgb(fillColor)}"/></patternFill></fill>`
+      : '';
+
+    return `<dxf>${font.length > 0 ? `<font>${font.join('')}</font>` : ''}${fill}</dxf>`;
+  }
+
+  // ==================== Import ====================
+
+  private parseRule(
+    attrs: Record<string, string>,
+    body: string,
+    ranges: Array<{ start: Address; end: Address }>,
+    dxfs: ConditionalStyle[],
+    sqref: string,
+    warnings: RuleWarning[]
+  ): ConditionalFormattingRule | undefined {
+    const base = {
+      ranges,
+      ...(attrs.stopIfTrue === '1' && { stopIfTrue: true }),
+    };
+    const style = attrs.dxfId !== undefined ? dxfs[parseInt(attrs.dxfId)] : undefined;
+    const styled = style ? { ...base, style } : base;
+    const formulas = Array.from(body.matchAll(/<formula>([\s\S]*?)<\/formula>/g)).map(m => this.decodeXml(m[1]));
+
+    switch (attrs.type) {
+      case 'colorScale':
+        return this.parseColorScale(body, base, sqref, warnings);
+      case 'dataBar':
+        return this.parseDataBar(body, base, sqref, warnings);
+      case 'iconSet':
+        return this.parseIconSet(body, attrs, base, '', sqref, warnings);
+      case 'expression':
+        return { ...styled, type: 'formula', expression: formulas[0] ?? '' };
+      case 'cellIs': {
+        const operator = (Object.keys(CELL_IS_OPERATORS) as ValueOperator[])
+          .find(op => CELL_IS_OPERATORS[op] === attrs.operator);
+        if (!operator || formulas.length === 0) break;
+        return {
+          ...styled,
+          type: 'value',
+          operator,
+          value: this.formulaToValue(formulas[0]),
+          ...(formulas[1] !== undefined && { value2: this.formulaToValue(formulas[1]) }),
+        };
+      }
+      case 'containsText':
+      case 'notContainsText':
+      case 'beginsWith':
+      case 'endsWith': {
+        const mode = (Object.keys(TEXT_RULE_TYPES) as Array<keyof typeof TEXT_RULE_TYPES>)
+          .find(m => TEXT_RULE_TYPES[m] === attrs.type)!;
+        return { ...styled, type: 'text', mode, text: this.decodeXml(attrs.text ?? '') };
+      }
+      case 'containsErrors':
+      case 'notContainsErrors':
+      case 'containsBlanks':
+      case 'notContainsBlanks': {
+        const mode = (Object.keys(ERRORS_BLANK_TYPES) as Array<keyof typeof ERRORS_BLANK_TYPES>)
+          .find(m => ERRORS_BLANK_TYPES[m] === attrs.type)!;
+        return { ...styled, type: 'errors-blank', mode };
+      }
+      case 'top10':
+        return {
+          ...styled,
+          type: 'top-bottom',
+          mode: attrs.bottom === '1' ? 'bottom' : 'top',
+          rankType: attrs.percent === '1' ? 'percent' : 'number',
+          rank: parseInt(attrs.rank || '10'),
+        };
+      case 'aboveAverage': {
+        const above = attrs.aboveAverage !== '0';
+        const equal = attrs.equalAverage === '1';
+        return {
+          ...styled,
+          type: 'above-average',
+          mode: above ? (equal ? 'equal-or-above' : 'above') : (equal ? 'equal-or-below' : 'below'),
+          ...(attrs.stdDev !== undefined && { standardDeviations: parseInt(attrs.stdDev) }),
+        };
+      }
+      case 'duplicateValues':
+      case 'uniqueValues':
+        return { ...styled, type: 'duplicate-unique', mode: attrs.type === 'duplicateValues' ? 'duplicate' : 'unique' };
+      case 'timePeriod': {
+        const timePeriod = (Object.keys(TIME_PERIODS) as TimePeriod[])
+          .find(p => TIME_PERIODS[p] === attrs.timePeriod);
+        if (!timePeriod) break;
+        return { ...styled, type: 'date-occurring', timePeriod };
+      }
+    }
+
+    warnings.push({ ref: sqref, message: `Unsupported conditional formatting rule type "${attrs.type}"${attrs.operator ? ` (${attrs.operator})` : ''}` });
+    return undefined;
+  }
+
+  private parseColorScale(
+    body: string,
+    base: { ranges: Array<{ start: Address; end: Address }> },
+    sqref: string,
+    warnings: RuleWarning[]
+  ): ConditionalFormattingRule {
+    const cfvos = this.parseCfvos(body, 'cfvo');
+    const colors = Array.from(body.matchAll(/<color\s+([^>]*?)\/>/g)).map(m => this.attrsToColor(this.parseAttributes(m[1])));
+    if (colors.some(c => c === undefined)) {
+      warnings.push({ ref: sqref, message: 'Color scale uses theme or indexed colours; those stops are left unset' });
+    }
+
+    const bound = (cfvo: { type: string; val?: string } | undefined, fallback: string): number | undefined => {
+      if (!cfvo || cfvo.type === fallback) return undefined;
+      if (cfvo.type === 'num' && cfvo.val !== undefined && !isNaN(Number(cfvo.val))) return Number(cfvo.val);
+      if (cfvo.type === 'percentile' && cfvo.val === '50' && fallback === 'percentile') return undefined;
+      warnings.push({ ref: sqref, message: `Color scale stop type "${cfvo.type}" is not supported; using the default` });
+      return undefined;
+    };
+
+    const three = cfvos.length === 3;
+    const minValue = bound(cfvos[0], 'min');
+    const midValue = three ? bound(cfvos[1], 'percentile') : undefined;
+    const maxValue = bound(cfvos[cfvos.length - 1], 'max');
+    const maxColor = colors[colors.length - 1];
+
+    return {
+      ...base,
+      type: 'color-scale',
+      ...(colors[0] && { minColor: colors[0] }),
+      ...(three && colors[1] && { midColor: colors[1] }),
+      ...(maxColor && { maxColor }),
+      ...(minValue !== undefined && { minValue }),
+      ...(midValue !== undefined && { midValue }),
+      ...(maxValue !== undefined && { maxValue }),
+    };
+  }
+
+  private parseDataBar(
+    body: string,
+    base: { ranges: Array<{ start: Address; end: Address }> },
+    sqref: string,
+    warnings: RuleWarning[]
+  ): ConditionalFormattingRule {
+    const barAttrs = this.parseAttributes((body.match(/<dataBar\b([^>]*)>/) || [])[1] || '');
+    const cfvos = this.parseCfvos(body, 'cfvo');
+    const colorMatch = body.match(/<color\s+([^>]*?)\/>/);
+    const color = colorMatch ? this.attrsToColor(this.parseAttributes(colorMatch[1])) : undefined;
+    if (!color) {
+      warnings.push({ ref: sqref, message: 'Data bar colour is not an RGB colour; using blue' });
+    }
+
+    const bound = (cfvo: { type: string; val?: string } | undefined): number | undefined => {
+      if (!cfvo || cfvo.type === 'min' || cfvo.type === 'max') return undefined;
+      if (cfvo.type === 'num' && cfvo.val !== undefined && !isNaN(Number(cfvo.val))) return Number(cfvo.val);
+      warnings.push({ ref: sqref, message: `Data bar bound type "${cfvo.type}" is not supported; using the data range` });
+      return undefined;
+    };
+    const minValue = bound(cfvos[0]);
+    const maxValue = bound(cfvos[1]);
+
+    return {
+      ...base,
+      type: 'data-bar',
+      color: color ?? '#638EC6',
+      ...(barAttrs.showValue === '0' && { showValue: false }),
+      ...(minValue !== undefined && { minValue }),
+      ...(maxValue !== undefined && { maxValue }),
+    };
+  }
+
+  private parseIconSet(
+    body: string,
+    ruleAttrs: Record<string, string>,
+    base: { ranges: Array<{ start: Address; end: Address }> },
+    prefix: '' | 'x14:',
+    sqref: string,
+    warnings: RuleWarning[]
+  ): ConditionalFormattingRule | undefined {
+    const setMatch = body.match(new RegExp(`<${prefix}iconSet\\b([^>]*)>`));
+    const setAttrs = this.parseAttributes((setMatch || [])[1] || '');
+    const excelName = setAttrs.iconSet || '3TrafficLights1';
+    const iconSet = (Object.keys(ICON_SETS) as ExcelIconSet[]).find(k => ICON_SETS[k].name === excelName);
+
+    if (!iconSet) {
+      warnings.push({ ref: sqref, message: `Unsupported icon set "${excelName}"` });
+      return undefined;
+    }
+    if (setAttrs.custom === '1' || body.includes('cfIcon')) {
+      warnings.push({ ref: sqref, message: 'Custom icon selections are not supported; using the standard icons' });
+    }
+
+    // Excel lists thresholds lowest first; ours are highest first
+    const cfvos = this.parseCfvos(body, `${prefix}cfvo`);
+    const thresholds: IconThreshold[] = cfvos
+      .map((cfvo, i): IconThreshold => {
+        const type = cfvo.type === 'num' ? 'number' : (cfvo.type as IconThreshold['type']);
+        const raw = cfvo.val ?? '0';
+        const value = type === 'formula' ? raw
+          : type === 'percentile' ? Number(raw) / 100
+          : Number(raw);
+        return { value, type, icon: `${iconSet}:${i}`, operator: cfvo.gte === '0' ? '>' : '>=' };
+      })
+      .reverse();
+
+    return {
+      ...base,
+      ...(ruleAttrs.stopIfTrue === '1' && { stopIfTrue: true }),
+      type: 'icon-set',
+      iconSet,
+      thresholds,
+      ...(setAttrs.reverse === '1' && { reverseOrder: true }),
+      ...(setAttrs.showValue === '0' && { showIconOnly: true }),
+    };
+  }
+
+  /**
+   * Parse the 2010 extension: link solid data bars to their base rule and
+   * add the icon sets that only exist there.
+   */
+  private parseExtension(sheetXml: string, ranked: RankedRule[], warnings: RuleWarning[]): void {
+    for (const block of sheetXml.matchAll(/<x14:conditionalFormatting\b[^>]*>([\s\S]*?)<\/x14:conditionalFormatting>/g)) {
+      const sqref = ((block[1].match(/<xm:sqref>([^<]*)<\/xm:sqref>/) || [])[1] || '').trim();
+      const ranges = this.parseSqref(sqref);
+
+      for (const ruleMatch of block[1].matchAll(/<x14:cfRule\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/x14:cfRule>)/g)) {
+        const attrs = this.parseAttributes(ruleMatch[1]);
+        const body = ruleMatch[2] || '';
+
+        if (attrs.type === 'dataBar') {
+          const target = ranked.find(r => r.extId === attrs.id);
+          const barAttrs = this.parseAttributes((body.match(/<x14:dataBar\b([^>]*)>/) || [])[1] || '');
+          if (target && target.rule.type === 'data-bar' && barAttrs.gradient === '0') {
+            target.rule = { ...target.rule, gradient: false };
+          }
+          continue;
+        }
+
+        if (attrs.type === 'iconSet') {
+          const rule = this.parseIconSet(body, attrs, { ranges }, 'x14:', sqref, warnings);
+          if (rule) ranked.push({ rule, excelPriority: parseInt(attrs.priority || '0') });
+          continue;
+        }
+
+        warnings.push({ ref: sqref, message: `Unsupported Excel 2010 conditional formatting rule type "${attrs.type}"` });
+      }
+    }
+  }
+
+  private parseCfvos(body: string, tag: string): Array<{ type: string; val?: string; gte?: string }> {
+    const cfvos: Array<{ type: string; val?: string; gte?: string }> = [];
+    const regex = new RegExp(`<${tag}\\s+([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g');
+    for (const match of body.matchAll(regex)) {
+      const attrs = this.parseAttributes(match[1]);
+      // 2010 rules put the value in <xm:f> instead of val=""
+      const val = attrs.val ?? (match[2]?.match(/<xm:f>([^<]*)<\/xm:f>/) || [])[1];
+      cfvos.push({ type: attrs.type, val: val !== undefined ? this.decodeXml(val) : undefined, gte: attrs.gte });
+    }
+    return cfvos;
+  }
+
+  /** cellIs operand: numbers stay numbers, quoted strings are unquoted, anything else is a formula. */
+  private formulaToValue(formula: string): number | string {
+    if (formula.trim() !== '' && !isNaN(Number(formula))) return Number(formula);
+    const quoted = formula.match(/^"((?:[^"]|"")*)"$/);
+    if (quoted) return quoted[1].replace(/""/g, '"');
+    return '=' + formula;
+  }
+
+  // ==================== Export ====================
+
+  private ruleXml(
+    rule: ConditionalFormattingRule,
+    priority: number,
+    stop: string,
+    topLeft: string,
+    dxfs: string[]
+  ): string {
+    const dxf = (style: ConditionalStyle | undefined): string => {
+      if (!style) return '';
+      const xml = this.toDxfXml(style);
+      let id = dxfs.indexOf(xml);
+      if (id === -1) id = dxfs.push(xml) - 1;
+      return ` dxfId="${id}"`;
+    };
+    const open = (type: string, extra = '', style?: ConditionalStyle) =>
+      `<cfRule type="${type}"${dxf(style)} priority="${priority}"${stop}${extra}`;
+    const formula = (f: string) => `<formula>${this.escapeXml(f)}</formula>`;
+
+    switch (rule.type) {
+      case 'color-scale':
+        return `${open('colorScale')}>${this.colorScaleXml(rule)}</cfRule>`;
+      case 'data-bar':
+        return `${open('dataBar')}>${this.dataBarXml(rule)}</cfRule>`;
+      case 'icon-set':
+        return `${open('iconSet')}>${this.iconSetXml(rule, false)}</cfRule>`;
+      case 'formula':
+        return `${open('expression', '', rule.style)}>${formula(rule.expression.replace(/^=/, ''))}</cfRule>`;
+      case 'value': {
+        const textMode = { contains: 'contains', notContains: 'not-contains', startsWith: 'begins-with', endsWith: 'ends-with' } as const;
+        if (rule.operator in textMode) {
+          const mode = textMode[rule.operator as keyof typeof textMode];
+          return this.textRuleXml(mode, String(rule.value), topLeft, open, formula, rule.style);
+        }
+        const operands = [rule.value, ...(rule.value2 !== undefined ? [rule.value2] : [])];
+        return `${open('cellIs', ` operator="${CELL_IS_OPERATORS[rule.operator]}"`, rule.style)}>` +
+          `${operands.map(v => formula(this.valueToFormula(v))).join('')}</cfRule>`;
+      }
+      case 'text':
+        return this.textRuleXml(rule.mode, rule.text, topLeft, open, formula, rule.style);
+      case 'errors-blank': {
+        const test = {
+          'errors': `ISERROR(${topLeft})`,
+          'no-errors': `NOT(ISERROR(${topLeft}))`,
+          'blanks': `LEN(TRIM(${topLeft}))=0`,
+          'no-blanks': `LEN(TRIM(${topLeft}))>0`,
+        }[rule.mode];
+        return `${open(ERRORS_BLANK_TYPES[rule.mode], '', rule.style)}>${formula(test)}</cfRule>`;
+      }
+      case 'top-bottom': {
+        const extra = ` rank="${rule.rank}"${rule.rankType === 'percent' ? ' percent="1"' : ''}${rule.mode === 'bottom' ? ' bottom="1"' : ''}`;
+        return `${open('top10', extra, rule.style)}/>`;
+      }
+      case 'above-average': {
+        const below = rule.mode === 'below' || rule.mode === 'equal-or-below';
+        const equal = rule.mode === 'equal-or-above' || rule.mode === 'equal-or-below';
+        const extra = `${below ? ' aboveAverage="0"' : ''}${equal ? ' equalAverage="1"' : ''}` +
+          `${rule.standardDeviations ? ` stdDev="${rule.standardDeviations}"` : ''}`;
+        return `${open('aboveAverage', extra, rule.style)}/>`;
+      }
+      case 'duplicate-unique':
+        return `${open(rule.mode === 'duplicate' ? 'duplicateValues' : 'uniqueValues', '', rule.style)}/>`;
+      case 'date-occurring':
+        return `${open('timePeriod', ` timePeriod="${TIME_PERIODS[rule.timePeriod]}"`, rule.style)}>` +
+          `${formula(this.timePeriodFormula(rule.timePeriod, topLeft))}</cfRule>`;
+    }
+  }
+
+  /** Text rules carry both the text and the equivalent formula Excel evaluates. */
+  private textRuleXml(
+    mode: keyof typeof TEXT_RULE_TYPES,
+    text: string,
+    topLeft: string,
+    open: (type: string, extra?: string, style?: ConditionalStyle) => string,
+    formula: (f: string) => string,
+    style?: ConditionalStyle
+  ): string {
+    const literal = `"${text.replace(/"/g, '""')}"`;
+    const test = {
+      'contains': `NOT(ISERROR(SEARCH(${literal},${topLeft})))`,
+      'not-contains': `ISERROR(SEARCH(${literal},${topLeft}))`,
+      'begins-with': `LEFT(${topLeft},LEN(${literal}))=${literal}`,
+      'ends-with': `RIGHT(${topLeft},LEN(${literal}))=${literal}`,
+    }[mode];
+    const operator = { 'contains': 'containsText', 'not-contains': 'notContains', 'begins-with': 'beginsWith', 'ends-with': 'endsWith' }[mode];
+    return `${open(TEXT_RULE_TYPES[mode], ` operator="${operator}" text="${this.escapeXml(text)}"`, style)}>${formula(test)}</cfRule>`;
+  }
+
+  private colorScaleXml(rule: Extract<ConditionalFormattingRule, { type: 'color-scale' }>): string {
+    const preset: { min: string; mid?: string; max: string } | undefined = rule.preset ? CF_COLOR_SCALES[rule.preset] : undefined;
+    const minColor = rule.minColor ?? preset?.min ?? '#F8696B';
+    const midColor = rule.midColor ?? preset?.mid;
+    const maxColor = rule.maxColor ?? preset?.max ?? '#63BE7B';
+
+    const cfvo = (value: number | undefined, fallback: string) =>
+      value !== undefined ? `<cfvo type="num" val="${value}"/>` : fallback;
+    const cfvos = [
+      cfvo(rule.minValue, '<cfvo type="min"/>'),
+      ...(midColor ? [cfvo(rule.midValue, '<cfvo type="percentile" val="50"/>')] : []),
+      cfvo(rule.maxValue, '<cfvo type="max"/>'),
+    ];
+    const colors = [minColor, ...(midColor ? [midColor] : []), maxColor]
+      .map(c => `<color rgb="${this.cssToArgb(c)}"/>`);
+
+    return `<colorScale>${cfvos.join('')}${colors.join('')}</colorScale>`;
+  }
+
+  private dataBarXml(rule: Extract<ConditionalFormattingRule, { type: 'data-bar' }>): string {
+    const min = rule.minValue !== undefined ? `<cfvo type="num" val="${rule.minValue}"/>` : '<cfvo type="min"/>';
+    const max = rule.maxValue !== undefined ? `<cfvo type="num" val="${rule.maxValue}"/>` : '<cfvo type="max"/>';
+    const showValue = rule.showValue === false ? ' showValue="0"' : '';
+    return `<dataBar${showValue}>${min}${max}<color rgb="${this.cssToArgb(rule.color)}"/></dataBar>`;
+  }
+
+  private iconSetXml(rule: Extract<ConditionalFormattingRule, { type: 'icon-set' }>, x14: boolean): string {
+    const p = x14 ? 'x14:' : '';
+    const attrs = ` iconSet="${ICON_SETS[rule.iconSet].name}"` +
+      `${rule.reverseOrder ? ' reverse="1"' : ''}${rule.showIconOnly ? ' showValue="0"' : ''}`;
+
+    // Ours are highest first; Excel lists the lowest threshold first
+    const cfvos = [...rule.thresholds].reverse().map(t => {
+      const type = t.type === 'number' ? 'num' : t.type;
+      const val = t.type === 'percentile' ? Number(t.value) * 100 : t.value;
+      const gte = t.operator === '>' ? ' gte="0"' : '';
+      return x14
+        ? `<x14:cfvo type="${type}"${gte}><xm:f>${this.escapeXml(String(val))}</xm:f></x14:cfvo>`
+        : `<cfvo type="${type}" val="${this.escapeXml(String(val))}"${gte}/>`;
+    });
+
+    return `<${p}iconSet${attrs}>${cfvos.join('')}</${p}iconSet>`;
+  }
+
+  /** The formulas Excel itself writes for "A date occurring" rules. */
+  private timePeriodFormula(period: TimePeriod, cell: string): string {
+    const day = `FLOOR(${cell},1)`;
+    const rounded = `ROUNDDOWN(${cell},0)`;
+    switch (period) {
+      case 'today': return `${day}=TODAY()`;
+      case 'yesterday': return `${day}=TODAY()-1`;
+      case 'tomorrow': return `${day}=TODAY()+1`;
+      case 'last-7-days': return `AND(TODAY()-${day}<=6,${day}<=TODAY())`;
+      case 'last-week': return `AND(TODAY()-${rounded}>=(WEEKDAY(TODAY())),TODAY()-${rounded}<(WEEKDAY(TODAY())+7))`;
+      case 'this-week': return `AND(TODAY()-${rounded}<=WEEKDAY(TODAY())-1,${rounded}-TODAY()<=7-WEEKDAY(TODAY()))`;
+      case 'next-week': return `AND(${rounded}-TODAY()>(7-WEEKDAY(TODAY())),${rounded}-TODAY()<(15-WEEKDAY(TODAY())))`;
+      case 'last-month': return `AND(MONTH(${cell})=MONTH(EDATE(TODAY(),0-1)),YEAR(${cell})=YEAR(EDATE(TODAY(),0-1)))`;
+      case 'this-month': return `AND(MONTH(${cell})=MONTH(TODAY()),YEAR(${cell})=YEAR(TODAY()))`;
+      case 'next-month': return `AND(MONTH(${cell})=MONTH(EDATE(TODAY(),0+1)),YEAR(${cell})=YEAR(EDATE(TODAY(),0+1)))`;
+    }
+  }
+
+  private valueToFormula(value: number | string): string {
+    if (typeof value === 'number') return String(value);
+    if (value.startsWith('=')) return value.slice(1);
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  private extRuleId(n: number): string {
+    return `{00000000-0000-0000-0000-${n.toString(16).toUpperCase().padStart(12, '0')}}`;
+  }
+
+  // ==================== Helpers ====================
+
+  private parseAttributes(attrString: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const matches = attrString.matchAll(/([\w:]+)="([^"]*)"/g);
+
+    for (const match of matches) {
+      attrs[match[1]] = match[2];
+    }
+
+    return attrs;
+  }
+
+  private parseColor(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}\\s+([^>]*?)\\/>`));
+    return match ? this.attrsToColor(this.parseAttributes(match[1])) : undefined;
+  }
+
+  private attrsToColor(attrs: Record<string, string>): string | undefined {
+    const rgb = attrs.rgb;
+    if (!rgb || !/^[0-9A-Fa-f]{8}$/.test(rgb)) return undefined;
+    return `#${rgb.slice(2).toUpperCase()}`;
+  }
+
+  private cssToArgb(css: string): string {
+    const hex = css.match(/^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$/);
+    if (hex) {
+      const h = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+      return 'FF' + h.toUpperCase();
+    }
+
+    const rgba = css.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
+    if (rgba) {
+      const byte = (n: number) => n.toString(16).padStart(2, '0');
+      const a = rgba[4] ? Math.round(parseFloat(rgba[4]) * 255) : 255;
+      return (byte(a) + byte(+rgba[1]) + byte(+rgba[2]) + byte(+rgba[3])).toUpperCase();
+    }
+
+    return 'FF000000';
+  }
+
+  private parseSqref(sqref: string): Array<{ start: Address; end: Address }> {
+    return sqref.split(/\s+/).filter(Boolean).map(part => {
+      const [start, end] = part.replace(/\$/g, '').split(':');
+      const s = this.refToAddress(start);
+      return { start: s, end: end ? this.refToAddress(end) : { ...s } };
+    });
+  }
+
+  private refToAddress(ref: string): Address {
+    const match = ref.match(/^([A-Z]+)(\d+)$/);
+    if (!match) return { row: 1, col: 1 };
+    let col = 0;
+    for (let i = 0; i < match[1].length; i++) {
+      col = col * 26 + (match[1].charCodeAt(i) - 64);
+    }
+    return { row: parseInt(match[2]), col };
+  }
+
+  private rangeToRef(range: { start: Address; end: Address }): string {
+    const start = this.addressToRef(range.start);
+    const end = this.addressToRef(range.end);
+    return start === end ? start : `${start}:${end}`;
+  }
+
+  private addressToRef(addr: Address): string {
+    let col = '';
+    let num = addr.col;
+    while (num > 0) {
+      const rem = (num - 1) % 26;
+      col = String.fromCharCode(65 + rem) + col;
+      num = Math.floor((num - 1) / 26);
+    }
+    return col + addr.row;
+  }
+
+  private decodeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+export default ConditionalFormattingParser;
@@ -0,0 +1,245 @@
+/**
+ * Excel Data Validation Parser
+ *
+ * Maps between worksheet `<dataValidations>` and DataValidationRule.
+ *
+ * Excel stores one `<dataValidation>` per rule with the cells it covers in
+ * `sqref`; we store a rule per cell, so import fans a rule out over its
+ * ranges and export groups identical rules back into row runs.
+ *
+ * Formula conventions differ slightly:
+ * - list literals are quoted in Excel (`"a,b,c"`), bare in our rules (`a,b,c`)
+ * - references and formulas have no leading `=` in Excel, one in our rules
+ * - `showDropDown="1"` *hides* the in-cell dropdown
+ */
+
+import type { Address, DataValidationRule, DataValidationType, DataValidationOperator } from '@cyber-sheet/core';
+import type { RuleWarning } from './ConditionalFormattingParser';
+
+export interface ParsedDataValidation {
+  ranges: Array<{ start: Address; end: Address }>;
+  rule: DataValidationRule;
+}
+
+export interface DataValidationParseResult {
+  validations: ParsedDataValidation[];
+  warnings: RuleWarning[];
+}
+
+const VALIDATION_TYPES: DataValidationType[] = ['whole', 'decimal', 'list', 'date', 'time', 'textLength', 'custom'];
+
+/** Our operator names → Excel's. */
+const OPERATOR_NAMES: Record<DataValidationOperator, string> = {
+  between: 'between',
+  notBetween: 'notBetween',
+  greaterThan: 'greaterThan',
+  lessThan: 'lessThan',
+  equalTo: 'equal',
+  notEqualTo: 'notEqual',
+  greaterThanOrEqualTo: 'greaterThanOrEqual',
+  lessThanOrEqualTo: 'lessThanOrEqual',
+};
+
+/**
+ * Parse and generate data validation XML
+ */
+export class DataValidationParser {
+  /**
+   * Parse `<dataValidations>` from worksheet XML
+   */
+  parseDataValidations(sheetXml: string): DataValidationParseResult {
+    const validations: ParsedDataValidation[] = [];
+    const warnings: RuleWarning[] = [];
+
+    for (const match of sheetXml.matchAll(/<dataValidation\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/dataValidation>)/g)) {
+      const attrs = this.parseAttributes(match[1]);
+      const body = match[2] || '';
+      const sqref = attrs.sqref || '';
+      const type = attrs.type || 'none';
+
+      if (type !== 'none' && !VALIDATION_TYPES.includes(type as DataValidationType)) {
+        warnings.push({ ref: sqref, message: `Unsupported data validation type "${type}"` });
+        continue;
+      }
+
+      const formula1 = (body.match(/<formula1>([\s\S]*?)<\/formula1>/) || [])[1];
+      const formula2 = (body.match(/<formula2>([\s\S]*?)<\/formula2>/) || [])[1];
+      const operator = this.toOperator(attrs.operator);
+
+      const rule: DataValidationRule = {
+        type: type === 'none' ? 'any' : (type as DataValidationType),
+        ...(operator && type !== 'list' && type !== 'custom' && type !== 'none' && { operator }),
+        ...(formula1 !== undefined && { formula1: this.fromExcelFormula(this.decodeXml(formula1), type === 'list') }),
+        ...(formula2 !== undefined && { formula2: this.fromExcelFormula(this.decodeXml(formula2), false) }),
+        allowBlank: attrs.allowBlank === '1',
+        ...(type === 'list' && { showDropdown: attrs.showDropDown !== '1' }),
+        ...(attrs.showInputMessage === '1' && { showInputMessage: true }),
+        ...(attrs.promptTitle !== undefined && { inputTitle: this.decodeXml(attrs.promptTitle) }),
+        ...(attrs.prompt !== undefined && { inputMessage: this.decodeXml(attrs.prompt) }),
+        ...(attrs.showErrorMessage === '1' && { showErrorAlert: true }),
+        ...(attrs.errorStyle !== undefined && { errorStyle: attrs.errorStyle as DataValidationRule['errorStyle'] }),
+        ...(attrs.errorTitle !== undefined && { errorTitle: this.decodeXml(attrs.errorTitle) }),
+        ...(attrs.error !== undefined && { errorMessage: this.decodeXml(attrs.error) }),
+      };
+
+      validations.push({ ranges: this.parseSqref(sqref), rule });
+    }
+
+    return { validations, warnings };
+  }
+
+  /**
+   * Generate `<dataValidations>` from per-cell rules. Cells whose rules are
+   * structurally equal share one element; adjacent cells in a row merge
+   * into a single range.
+   */
+  generateDataValidationsXml(cells: Array<{ address: Address; rule: DataValidationRule }>): string {
+    if (cells.length === 0) return '';
+
+    const groups = new Map<string, { rule: DataValidationRule; addresses: Address[] }>();
+    for (const { address, rule } of cells) {
+      const key = JSON.stringify(rule);
+      const group = groups.get(key);
+      if (group) group.addresses.push(address);
+      else groups.set(key, { rule, addresses: [address] });
+    }
+
+    const elements = Array.from(groups.values()).map(({ rule, addresses }) => {
+      const sqref = this.toSqref(addresses);
+      return this.validationXml(rule, sqref);
+    });
+
+    return `<dataValidations count="${elements.length}">${elements.join('')}</dataValidations>`;
+  }
+
+  // ==================== Helpers ====================
+
+  private validationXml(rule: DataValidationRule, sqref: string): string {
+    const attrs: string[] = [];
+    if (rule.type !== 'any') attrs.push(`type="${rule.type}"`);
+    if (rule.errorStyle && rule.errorStyle !== 'stop') attrs.push(`errorStyle="${rule.errorStyle}"`);
+    if (rule.operator && rule.operator !== 'between') {
+      attrs.push(`operator="${OPERATOR_NAMES[rule.operator]}"`);
+    }
+    if (rule.allowBlank !== false) attrs.push('allowBlank="1"');
+    if (rule.type === 'list' && rule.showDropdown === false) attrs.push('showDropDown="1"');
+    if (rule.showInputMessage) attrs.push('showInputMessage="1"');
+    if (rule.showErrorAlert) attrs.push('showErrorMessage="1"');
+    if (rule.errorTitle) attrs.push(`errorTitle="${this.escapeXml(rule.errorTitle)}"`);
+    if (rule.errorMessage) attrs.push(`error="${this.escapeXml(rule.errorMessage)}"`);
+    if (rule.inputTitle) attrs.push(`promptTitle="${this.escapeXml(rule.inputTitle)}"`);
+    if (rule.inputMessage) attrs.push(`prompt="${this.escapeXml(rule.inputMessage)}"`);
+    attrs.push(`sqref="${sqref}"`);
+
+    const formula1 = rule.formula1 !== undefined
+      ? `<formula1>${this.escapeXml(this.toExcelFormula(rule.formula1, rule.type === 'list'))}</formula1>`
+      : '';
+    const formula2 = rule.formula2 !== undefined
+      ? `<formula2>${this.escapeXml(this.toExcelFormula(rule.formula2, false))}</formula2>`
+      : '';
+
+    return formula1 || formula2
+      ? `<dataValidation ${attrs.join(' ')}>${formula1}${formula2}</dataValidation>`
+      : `<dataValidation ${attrs.join(' ')}/>`;
+  }
+
+  private toExcelFormula(formula: string, isList: boolean): string {
+    if (formula.startsWith('=')) return formula.slice(1);
+    if (isList) return `"${formula.replace(/"/g, '""')}"`;
+    return formula;
+  }
+
+  private fromExcelFormula(formula: string, isList: boolean): string {
+    const quoted = formula.match(/^"((?:[^"]|"")*)"$/);
+    if (isList && quoted) return quoted[1].replace(/""/g, '"');
+    if (formula.trim() !== '' && !isNaN(Number(formula))) return formula;
+    return '=' + formula;
+  }
+
+  private toOperator(name: string | undefined): DataValidationOperator | undefined {
+    if (!name) return 'between';
+    return (Object.keys(OPERATOR_NAMES) as DataValidationOperator[]).find(op => OPERATOR_NAMES[op] === name);
+  }
+
+  /** Merge addresses into row runs: A1:C1 rather than A1 B1 C1. */
+  private toSqref(addresses: Address[]): string {
+    const sorted = [...addresses].sort((a, b) => a.row - b.row || a.col - b.col);
+    const parts: string[] = [];
+    let start = sorted[0];
+    let prev = sorted[0];
+
+    for (let i = 1; i <= sorted.length; i++) {
+      const addr = sorted[i];
+      if (addr && addr.row === prev.row && addr.col === prev.col + 1) {
+        prev = addr;
+        continue;
+      }
+      const from = this.addressToRef(start);
+      const to = this.addressToRef(prev);
+      parts.push(from === to ? from : `${from}:${to}`);
+      start = prev = addr;
+    }
+
+    return parts.join(' ');
+  }
+
+  private parseSqref(sqref: string): Array<{ start: Address; end: Address }> {
+    return sqref.split(/\s+/).filter(Boolean).map(part => {
+      const [start, end] = part.replace(/\$/g, '').split(':');
+      const s = this.refToAddress(start);
+      return { start: s, end: end ? this.refToAddress(end) : { ...s } };
+    });
+  }
+
+  private refToAddress(ref: string): Address {
+    const match = ref.match(/^([A-Z]+)(\d+)$/);
+    if (!match) return { row: 1, col: 1 };
+    let col = 0;
+    for (let i = 0; i < match[1].length; i++) {
+      col = col * 26 + (match[1].charCodeAt(i) - 64);
+    }
+    return { row: parseInt(match[2]), col };
+  }
+
+  private addressToRef(addr: Address): string {
+    let col = '';
+    let num = addr.col;
+    while (num > 0) {
+      const rem = (num - 1) % 26;
+      col = String.fromCharCode(65 + rem) + col;
+      num = Math.floor((num - 1) / 26);
+    }
+    return col + addr.row;
+  }
+
+  private parseAttributes(attrString: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const matches = attrString.matchAll(/(\w+)="([^"]*)"/g);
+
+    for (const match of matches) {
+      attrs[match[1]] = match[2];
+    }
+
+    return attrs;
+  }
+
+  private decodeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+export default DataValidationParser;
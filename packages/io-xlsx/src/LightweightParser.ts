@@ -17,9 +17,23 @@ import type {
   CellValue, 
   CellStyle,
   CellComment,
-  ExcelColorSpec 
+  CellHyperlink,
+  ExcelColorSpec,
+  Address,
+  ConditionalFormattingRule,
+  ConditionalStyle,
+  TableOptions,
+  TableTotalsFunction,
+  PasswordHash,
+  SheetProtectionOptions,
+  AllowEditRange,
+  OutlineSettings,
+  WorkbookProtectionOptions
 } from '@cyber-sheet/core';
+import { FormulaShiftingService, MAX_OUTLINE_LEVEL } from '@cyber-sheet/core';
 import { CommentParser, type ExcelComment } from './CommentParser';
+import { ConditionalFormattingParser } from './ConditionalFormattingParser';
+import { DataValidationParser, type ParsedDataValidation } from './DataValidationParser';
 
 /**
  * XLSX file structure (ZIP-based Office Open XML)
@@ -29,6 +43,7 @@ import { CommentParser, type ExcelComment } from './CommentParser';
  * - xl/worksheets/sheet*.xml - Cell data (lazy)
  * - xl/styles.xml - Cell styles and number formats
  * - xl/sharedStrings.xml - String pool (streamed)
+ * - xl/tables/table*.xml - Table definitions (via the sheet's rels)
  */
 
 export interface XLSXParseOptions {
@@ -80,6 +95,86 @@ export interface XLSXMetadata {
   
   /** File size */
   fileSize: number;
+  
+  /** Defined names from workbook.xml (built-in `_xlnm.*` names excluded) */
+  definedNames: XLSXDefinedName[];
+  
+  /** `<workbookProtection>`, or null when the workbook is not protected */
+  workbookProtection: WorkbookProtectionOptions | null;
+}
+
+export interface XLSXDefinedName {
+  name: string;
+  /** Formula text with a leading `=`, e.g. `=Sheet1!$A$1:$B$4` */
+  refersTo: string;
+  /** Owning sheet name for sheet-scoped names; undefined for workbook scope */
+  sheet?: string;
+  comment?: string;
+}
+
+/**
+ * Sheet layout outside `<sheetData>`: merges, column and row sizes, hidden
+ * rows/columns, outline levels and frozen panes. Sizes are converted to
+ * pixels. `collapsed` marks the summary row/column of a collapsed group.
+ */
+export interface XLSXSheetLayout {
+  merges: Array<{ start: Address; end: Address }>;
+  columns: Map<number, XLSXBandLayout & { width?: number }>;
+  rows: Map<number, XLSXBandLayout & { height?: number }>;
+  freeze: { rows: number; cols: number } | null;
+  outline: OutlineSettings;
+}
+
+/** What `<row>` and `<col>` carry besides their size. */
+export interface XLSXBandLayout {
+  hidden?: boolean;
+  outlineLevel?: number;
+  collapsed?: boolean;
+}
+
+/**
+ * Conditional formatting and data validation for a sheet. Rules that could
+ * not be mapped are left out and described in `warnings`.
+ */
+export interface XLSXSheetRules {
+  conditionalFormats: ConditionalFormattingRule[];
+  dataValidations: ParsedDataValidation[];
+  warnings: XLSXImportWarning[];
+}
+
+/**
+ * A table part (`xl/tables/tableN.xml`) attached to a sheet, ready for
+ * Worksheet.addTable().
+ */
+export interface XLSXTable {
+  range: { start: Address; end: Address };
+  options: TableOptions;
+}
+
+/**
+ * A `<hyperlink>` of a sheet. External targets are resolved through the
+ * sheet's relationships; workbook locations come back as `#Sheet2!A1`.
+ */
+export interface XLSXHyperlink {
+  range: { start: Address; end: Address };
+  hyperlink: CellHyperlink;
+}
+
+/**
+ * A sheet's `<sheetProtection>` (null when the sheet is not protected) and
+ * its `<protectedRanges>`, which become allow-edit ranges.
+ */
+export interface XLSXSheetProtection {
+  protection: SheetProtectionOptions | null;
+  allowEditRanges: AllowEditRange[];
+}
+
+/** Something in the file that was dropped or approximated on import. */
+export interface XLSXImportWarning {
+  sheet: string;
+  /** Affected cells (sqref), when known */
+  ref?: string;
+  message: string;
 }
 
 export interface ParsedCell {
@@ -243,6 +338,13 @@ class StreamingXMLParser {
       const start = xml.indexOf(openTag, pos);
       if (start === -1) break;
       
+      // Skip longer tag names sharing the prefix (<col> vs <cols>, <c> vs <cols>)
+      const next = xml.charAt(start + openTag.length);
+      if (next !== '>' && next !== '/' && !/\s/.test(next)) {
+        pos = start + openTag.length;
+        continue;
+      }
+      
       // Find end of tag
       let end = xml.indexOf('>', start);
       if (end === -1) break;
@@ -325,7 +427,7 @@ class SharedStringTable {
     for (const attrs of parser.parseElements(data, 'si')) {
       // String is in nested <t> tag, but we already captured text
       const text = attrs.get('_text') || '';
-      this.strings.push(this.decodeXMLEntities(text));
+      this.strings.push(decodeXMLEntities(text.replace(/<[^>]*>/g, '')));
     }
     
     this.loaded = true;
@@ -341,15 +443,54 @@ class SharedStringTable {
   get count(): number {
     return this.strings.length;
   }
-  
-  private decodeXMLEntities(text: string): string {
-    return text
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&apos;/g, "'");
-  }
+}
+
+/** The boolean `allow*` options of sheet protection. */
+type SheetProtectionAllowOption = Extract<keyof SheetProtectionOptions, `allow${string}`>;
+
+/** `<sheetProtection>` attribute (true = locked) for each inverted `allow*` option. */
+const SHEET_PROTECTION_ATTRS: Array<[SheetProtectionAllowOption, string]> = [
+  ['allowFormatCells', 'formatCells'],
+  ['allowFormatColumns', 'formatColumns'],
+  ['allowFormatRows', 'formatRows'],
+  ['allowInsertColumns', 'insertColumns'],
+  ['allowInsertRows', 'insertRows'],
+  ['allowInsertHyperlinks', 'insertHyperlinks'],
+  ['allowDeleteColumns', 'deleteColumns'],
+  ['allowDeleteRows', 'deleteRows'],
+  ['allowSort', 'sort'],
+  ['allowFilter', 'autoFilter'],
+  ['allowPivotTables', 'pivotTables'],
+];
+
+function isXmlTrue(value: string | undefined): boolean {
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Read `algorithmName`/`hashValue`/`saltValue`/`spinCount` (with a prefix,
+ * e.g. `workbookHashValue`). Undefined unless the hash and salt are there.
+ */
+function parsePasswordHash(attrs: Map<string, string>, prefix = ''): PasswordHash | undefined {
+  const get = (attr: string) => attrs.get(prefix ? prefix + attr[0].toUpperCase() + attr.slice(1) : attr);
+  const hashValue = get('hashValue');
+  const saltValue = get('saltValue');
+  if (!hashValue || !saltValue) return undefined;
+  return {
+    algorithmName: get('algorithmName') || 'SHA-512',
+    hashValue,
+    saltValue,
+    spinCount: parseInt(get('spinCount') || '0'),
+  };
+}
+
+function decodeXMLEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
 }
 
 /**
@@ -432,6 +573,15 @@ class StyleParser {
       }
     }
     
+    // <protection> child; cells are locked and visible unless it says otherwise
+    const inner = xf.get('_text') || '';
+    const protectionStart = inner.indexOf('<protection');
+    if (protectionStart !== -1) {
+      const protection = inner.substring(protectionStart, inner.indexOf('>', protectionStart));
+      if (/\slocked="(0|false)"/.test(protection)) style.locked = false;
+      if (/\shidden="(1|true)"/.test(protection)) style.hidden = true;
+    }
+    
     return Object.keys(style).length > 0 ? style : undefined;
   }
   
@@ -480,6 +630,9 @@ export class LightweightXLSXParser {
   private styles: StyleParser | null = null;
   private metadata: XLSXMetadata | null = null;
   private commentParser: CommentParser = new CommentParser();
+  private conditionalFormattingParser: ConditionalFormattingParser = new ConditionalFormattingParser();
+  private dataValidationParser: DataValidationParser = new DataValidationParser();
+  private dxfs: ConditionalStyle[] | null = null;
   
   /**
    * Parse XLSX file metadata without loading cells
@@ -520,12 +673,39 @@ export class LightweightXLSXParser {
       }
     }
     
+    // Defined names (localSheetId indexes into the sheet list)
+    const definedNames: XLSXDefinedName[] = [];
+    for (const attrs of parser.parseElements(workbookData, 'definedName')) {
+      const name = attrs.get('name');
+      const text = attrs.get('_text');
+      if (!name || !text || name.startsWith('_xlnm.')) continue;
+      
+      const localSheetId = attrs.get('localSheetId');
+      const comment = attrs.get('comment');
+      definedNames.push({
+        name,
+        refersTo: '=' + decodeXMLEntities(text),
+        ...(localSheetId !== undefined && { sheet: sheetNames[parseInt(localSheetId)] }),
+        ...(comment !== undefined && { comment: decodeXMLEntities(comment) }),
+      });
+    }
+    
+    const protection = parser.parseSingleElement(workbookData, 'workbookProtection');
+    const workbookPassword = protection ? parsePasswordHash(protection, 'workbook') : undefined;
+    const workbookProtection: WorkbookProtectionOptions | null = protection && {
+      lockStructure: isXmlTrue(protection.get('lockStructure')),
+      ...(isXmlTrue(protection.get('lockWindows')) && { lockWindows: true }),
+      ...(workbookPassword && { password: workbookPassword }),
+    };
+    
     this.metadata = {
       sheetNames,
       sheetDimensions,
       styleCount: 0,
       sharedStringCount: 0,
-      fileSize: buffer.byteLength
+      fileSize: buffer.byteLength,
+      definedNames,
+      workbookProtection
     };
     
     return this.metadata;
@@ -542,16 +722,7 @@ export class LightweightXLSXParser {
       throw new Error('Call parseMetadata() first');
     }
     
-    // Resolve sheet index
-    let sheetIndex: number;
-    if (typeof sheetNameOrIndex === 'number') {
-      sheetIndex = sheetNameOrIndex;
-    } else {
-      sheetIndex = this.metadata!.sheetNames.indexOf(sheetNameOrIndex);
-      if (sheetIndex === -1) {
-        throw new Error(`Sheet not found: ${sheetNameOrIndex}`);
-      }
-    }
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
     
     // Load shared strings if needed (lazy)
     if (!this.sharedStrings) {
@@ -589,6 +760,316 @@ export class LightweightXLSXParser {
     return cells;
   }
   
+  /**
+   * Parse a sheet's layout: merges, `<cols>`, row heights/visibility and
+   * frozen panes. Reads no cell data.
+   */
+  async parseSheetLayout(sheetNameOrIndex: string | number): Promise<XLSXSheetLayout> {
+    if (!this.zip) {
+      throw new Error('Call parseMetadata() first');
+    }
+    
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
+    const sheetPath = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const data = await this.zip.extractFile(sheetPath);
+    if (!data) {
+      throw new Error(`Sheet data not found: ${sheetPath}`);
+    }
+    
+    const parser = new StreamingXMLParser();
+    const outlinePr = parser.parseSingleElement(data, 'outlinePr');
+    const layout: XLSXSheetLayout = {
+      merges: [],
+      columns: new Map(),
+      rows: new Map(),
+      freeze: null,
+      outline: {
+        summaryRowsBelow: outlinePr?.get('summaryBelow') !== '0',
+        summaryColumnsRight: outlinePr?.get('summaryRight') !== '0',
+      },
+    };
+    
+    for (const attrs of parser.parseElements(data, 'mergeCell')) {
+      const [start, end] = (attrs.get('ref') || '').split(':');
+      if (!start) continue;
+      layout.merges.push({ start: this.parseRef(start), end: this.parseRef(end || start) });
+    }
+    
+    // <col> spans min..max; widths are in characters of the default font
+    for (const attrs of parser.parseElements(data, 'col')) {
+      const min = parseInt(attrs.get('min') || '0');
+      const max = parseInt(attrs.get('max') || String(min));
+      const width = attrs.get('customWidth') === '1' && attrs.has('width')
+        ? Math.round(parseFloat(attrs.get('width')!) * 7 + 5)
+        : undefined;
+      const band = this.parseBandLayout(attrs);
+      if (width === undefined && !band) continue;
+      for (let col = min; col <= max; col++) {
+        layout.columns.set(col, { width, ...band });
+      }
+    }
+    
+    // Row heights are in points
+    for (const attrs of parser.parseElements(data, 'row')) {
+      const row = parseInt(attrs.get('r') || '0');
+      const height = attrs.get('customHeight') === '1' && attrs.has('ht')
+        ? Math.round(parseFloat(attrs.get('ht')!) / 0.75)
+        : undefined;
+      const band = this.parseBandLayout(attrs);
+      if (row > 0 && (height !== undefined || band)) {
+        layout.rows.set(row, { height, ...band });
+      }
+    }
+    
+    const pane = parser.parseSingleElement(data, 'pane');
+    if (pane && (pane.get('state') === 'frozen' || pane.get('state') === 'frozenSplit')) {
+      const rows = parseInt(pane.get('ySplit') || '0');
+      const cols = parseInt(pane.get('xSplit') || '0');
+      if (rows > 0 || cols > 0) layout.freeze = { rows, cols };
+    }
+    
+    return layout;
+  }
+  
+  /** Hidden, outline level and collapsed flags of a `<row>`/`<col>`, or null if it has none. */
+  private parseBandLayout(attrs: Map<string, string>): XLSXBandLayout | null {
+    const band: XLSXBandLayout = {};
+    if (attrs.get('hidden') === '1') band.hidden = true;
+    const level = parseInt(attrs.get('outlineLevel') || '0');
+    if (level > 0) band.outlineLevel = Math.min(level, MAX_OUTLINE_LEVEL);
+    if (attrs.get('collapsed') === '1') band.collapsed = true;
+    return Object.keys(band).length > 0 ? band : null;
+  }
+  
+  /**
+   * Parse a sheet's conditional formatting (including the Excel 2010
+   * extension) and data validation rules.
+   */
+  async parseSheetRules(sheetNameOrIndex: string | number): Promise<XLSXSheetRules> {
+    if (!this.zip) {
+      throw new Error('Call parseMetadata() first');
+    }
+    
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
+    const sheetPath = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const data = await this.zip.extractFile(sheetPath);
+    if (!data) {
+      throw new Error(`Sheet data not found: ${sheetPath}`);
+    }
+    
+    // Differential formats live in styles.xml and are shared by all sheets
+    if (!this.dxfs) {
+      const styleData = await this.zip.extractFile('xl/styles.xml');
+      this.dxfs = styleData
+        ? this.conditionalFormattingParser.parseDxfs(new TextDecoder().decode(styleData))
+        : [];
+    }
+    
+    const xml = new TextDecoder().decode(data);
+    const sheet = this.metadata!.sheetNames[sheetIndex];
+    const cf = this.conditionalFormattingParser.parseConditionalFormatting(xml, this.dxfs);
+    const dv = this.dataValidationParser.parseDataValidations(xml);
+    
+    return {
+      conditionalFormats: cf.rules,
+      dataValidations: dv.validations,
+      warnings: [...cf.warnings, ...dv.warnings].map(w => ({ sheet, ...w })),
+    };
+  }
+  
+  /**
+   * Parse the tables of a sheet: each `<tablePart>` is resolved through
+   * the sheet's relationships to its `tableN.xml` part.
+   */
+  async parseSheetTables(sheetNameOrIndex: string | number): Promise<XLSXTable[]> {
+    if (!this.zip) {
+      throw new Error('Call parseMetadata() first');
+    }
+    
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
+    const sheetPath = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const data = await this.zip.extractFile(sheetPath);
+    if (!data) {
+      throw new Error(`Sheet data not found: ${sheetPath}`);
+    }
+    
+    const parser = new StreamingXMLParser();
+    const partIds = Array.from(parser.parseElements(data, 'tablePart'), attrs => attrs.get('id'));
+    if (partIds.length === 0) return [];
+    
+    const targets = await this.loadSheetRels(sheetIndex);
+    const tables: XLSXTable[] = [];
+    for (const id of partIds) {
+      const target = id && targets.get(id);
+      if (!target) continue;
+      // Targets are relative to xl/worksheets/ unless absolute
+      const path = target.startsWith('/') ? target.slice(1) : 'xl/' + target.replace(/^\.\.\//, '');
+      const tableData = await this.zip.extractFile(path);
+      const table = tableData && this.parseTable(tableData);
+      if (table) tables.push(table);
+    }
+    
+    return tables;
+  }
+  
+  /**
+   * Parse the `<hyperlinks>` of a sheet. A link's `location` is a place in
+   * the workbook, or the fragment of its external target.
+   */
+  async parseSheetHyperlinks(sheetNameOrIndex: string | number): Promise<XLSXHyperlink[]> {
+    if (!this.zip) {
+      throw new Error('Call parseMetadata() first');
+    }
+    
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
+    const sheetPath = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const data = await this.zip.extractFile(sheetPath);
+    if (!data) {
+      throw new Error(`Sheet data not found: ${sheetPath}`);
+    }
+    
+    const parser = new StreamingXMLParser();
+    const elements = Array.from(parser.parseElements(data, 'hyperlink'));
+    if (elements.length === 0) return [];
+    
+    const targets = elements.some(attrs => attrs.has('id')) ? await this.loadSheetRels(sheetIndex) : new Map<string, string>();
+    const links: XLSXHyperlink[] = [];
+    for (const attrs of elements) {
+      const [start, end] = (attrs.get('ref') || '').split(':');
+      const id = attrs.get('id');
+      const external = id ? targets.get(id) : undefined;
+      const location = attrs.has('location') ? decodeXMLEntities(attrs.get('location')!) : undefined;
+      const target = external !== undefined
+        ? decodeXMLEntities(external) + (location ? '#' + location : '')
+        : location && '#' + location;
+      if (!start || !target) continue;
+      
+      const tooltip = attrs.get('tooltip');
+      links.push({
+        range: { start: this.parseRef(start), end: this.parseRef(end || start) },
+        hyperlink: tooltip !== undefined ? { target, tooltip: decodeXMLEntities(tooltip) } : { target },
+      });
+    }
+    
+    return links;
+  }
+  
+  /**
+   * Parse a sheet's `<sheetProtection>` and `<protectedRanges>`. The file
+   * names what is locked, so each attribute maps to the inverted `allow*`
+   * option; password hashes are kept as they are.
+   */
+  async parseSheetProtection(sheetNameOrIndex: string | number): Promise<XLSXSheetProtection> {
+    if (!this.zip) {
+      throw new Error('Call parseMetadata() first');
+    }
+    
+    const sheetIndex = this.resolveSheetIndex(sheetNameOrIndex);
+    const sheetPath = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const data = await this.zip.extractFile(sheetPath);
+    if (!data) {
+      throw new Error(`Sheet data not found: ${sheetPath}`);
+    }
+    
+    const parser = new StreamingXMLParser();
+    const attrs = parser.parseSingleElement(data, 'sheetProtection');
+    let protection: SheetProtectionOptions | null = null;
+    if (attrs && isXmlTrue(attrs.get('sheet'))) {
+      protection = {};
+      for (const [option, attr] of SHEET_PROTECTION_ATTRS) {
+        if (attrs.has(attr) && !isXmlTrue(attrs.get(attr))) protection[option] = true;
+      }
+      if (isXmlTrue(attrs.get('selectLockedCells'))) protection.selectLockedCells = false;
+      if (isXmlTrue(attrs.get('selectUnlockedCells'))) protection.selectUnlockedCells = false;
+      if (attrs.has('password')) protection.password = attrs.get('password');
+      const passwordHash = parsePasswordHash(attrs);
+      if (passwordHash) protection.passwordHash = passwordHash;
+    }
+    
+    const allowEditRanges: AllowEditRange[] = [];
+    for (const range of parser.parseElements(data, 'protectedRange')) {
+      const name = range.get('name');
+      // sqref may list several areas; only the first is kept
+      const [start, end] = (range.get('sqref') || '').split(/\s+/)[0].split(':');
+      if (!name || !start) continue;
+      const password = parsePasswordHash(range);
+      allowEditRanges.push({
+        name: decodeXMLEntities(name),
+        range: { start: this.parseRef(start), end: this.parseRef(end || start) },
+        ...(password && { password }),
+      });
+    }
+    
+    return { protection, allowEditRanges };
+  }
+  
+  /** Relationship id → target for a sheet's `_rels` part (empty when there is none). */
+  private async loadSheetRels(sheetIndex: number): Promise<Map<string, string>> {
+    const targets = new Map<string, string>();
+    const relsData = await this.zip!.extractFile(`xl/worksheets/_rels/sheet${sheetIndex + 1}.xml.rels`);
+    if (!relsData) return targets;
+    
+    for (const attrs of new StreamingXMLParser().parseElements(relsData, 'Relationship')) {
+      const id = attrs.get('Id');
+      const target = attrs.get('Target');
+      if (id && target) targets.set(id, target);
+    }
+    return targets;
+  }
+  
+  private parseTable(data: Uint8Array): XLSXTable | null {
+    const parser = new StreamingXMLParser();
+    const table = parser.parseSingleElement(data, 'table');
+    const [start, end] = (table?.get('ref') || '').split(':');
+    if (!table || !start) return null;
+    
+    const columns = Array.from(parser.parseElements(data, 'tableColumn'), attrs => {
+      const inner = attrs.get('_text') || '';
+      const formula = inner.match(/<calculatedColumnFormula[^>]*>([\s\S]*?)<\/calculatedColumnFormula>/);
+      const totalsFormula = inner.match(/<totalsRowFormula[^>]*>([\s\S]*?)<\/totalsRowFormula>/);
+      const totalsFunction = attrs.get('totalsRowFunction') as TableTotalsFunction | undefined;
+      const totalsLabel = attrs.get('totalsRowLabel');
+      return {
+        name: decodeXMLEntities(attrs.get('name') || ''),
+        ...(formula && { formula: '=' + decodeXMLEntities(formula[1]) }),
+        ...(totalsFunction && { totalsFunction }),
+        ...(totalsFormula && { totalsFormula: '=' + decodeXMLEntities(totalsFormula[1]) }),
+        ...(totalsLabel !== undefined && { totalsLabel: decodeXMLEntities(totalsLabel) }),
+      };
+    });
+    
+    const name = table.get('displayName') || table.get('name');
+    const styleInfo = parser.parseSingleElement(data, 'tableStyleInfo');
+    const flag = (attr: string) => styleInfo?.get(attr) === '1';
+    
+    return {
+      range: { start: this.parseRef(start), end: this.parseRef(end || start) },
+      options: {
+        ...(name && { name: decodeXMLEntities(name) }),
+        headerRow: table.get('headerRowCount') !== '0',
+        totalsRow: parseInt(table.get('totalsRowCount') || '0') > 0,
+        columns,
+        style: {
+          name: styleInfo?.get('name') ?? 'None',
+          showRowStripes: flag('showRowStripes'),
+          showColumnStripes: flag('showColumnStripes'),
+          showFirstColumn: flag('showFirstColumn'),
+          showLastColumn: flag('showLastColumn'),
+        },
+      },
+    };
+  }
+  
+  private resolveSheetIndex(sheetNameOrIndex: string | number): number {
+    if (typeof sheetNameOrIndex === 'number') return sheetNameOrIndex;
+    
+    const sheetIndex = this.metadata!.sheetNames.indexOf(sheetNameOrIndex);
+    if (sheetIndex === -1) {
+      throw new Error(`Sheet not found: ${sheetNameOrIndex}`);
+    }
+    return sheetIndex;
+  }
+  
   /**
    * Load comments for a sheet and merge into cells
    */
@@ -713,11 +1194,20 @@ export class LightweightXLSXParser {
       }
     }
     
+    // Shared formula masters by si, kept even when outside the viewport
+    const sharedFormulas = new Map<string, { formula: string; row: number; col: number }>();
+    
     // Parse <c> (cell) elements
     for (const cellAttrs of parser.parseElements(data, 'c')) {
       const ref = cellAttrs.get('r') || '';
       const { row, col } = this.parseRef(ref);
       
+      // Inner XML: <f>, <v> and/or <is> children
+      const inner = cellAttrs.get('_text') || '';
+      const formula = options.includeFormulas !== false
+        ? this.parseFormula(inner, row, col, sharedFormulas)
+        : undefined;
+      
       // Viewport filtering
       if (viewport) {
         if (row < viewport.startRow || row > viewport.endRow ||
@@ -734,13 +1224,15 @@ export class LightweightXLSXParser {
       const cell: ParsedCell = {
         value: null
       };
+      if (formula) cell.formula = formula;
       
       // Cell type
       const type = cellAttrs.get('t') || '';
       const styleIndex = parseInt(cellAttrs.get('s') || '0');
       
       // Value
-      const valueText = cellAttrs.get('_text') || '';
+      const vMatch = inner.match(/<v>([\s\S]*?)<\/v>/);
+      const valueText = vMatch ? decodeXMLEntities(vMatch[1]) : '';
       
       if (type === 's') {
         // Shared string
@@ -750,11 +1242,14 @@ export class LightweightXLSXParser {
         // Boolean
         cell.value = valueText === '1';
       } else if (type === 'n' || !type) {
-        // Number
+        // Number (an uncached formula has no <v>)
         const num = parseFloat(valueText);
         cell.value = isNaN(num) ? null : num;
+      } else if (type === 'inlineStr') {
+        const tMatch = inner.match(/<t[^>]*>([\s\S]*?)<\/t>/);
+        cell.value = tMatch ? decodeXMLEntities(tMatch[1]) : '';
       } else {
-        // Inline string or other
+        // Formula string result or error
         cell.value = valueText;
       }
       
@@ -770,6 +1265,39 @@ export class LightweightXLSXParser {
     return cells;
   }
   
+  /**
+   * Read a cell's `<f>` element, returning the formula with a leading `=`.
+   * 
+   * Shared formulas are stored once on their master cell (`<f t="shared"
+   * si="n" ref="...">text</f>`); the other cells carry only `si`, so their
+   * text is the master's with references shifted by the cell offset.
+   */
+  private parseFormula(
+    inner: string,
+    row: number,
+    col: number,
+    sharedFormulas: Map<string, { formula: string; row: number; col: number }>
+  ): string | undefined {
+    const fMatch = inner.match(/<f(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/f>)/);
+    if (!fMatch) return undefined;
+    
+    const attrs = fMatch[1] || '';
+    const text = fMatch[2] ? '=' + decodeXMLEntities(fMatch[2]) : undefined;
+    if (!/\bt="shared"/.test(attrs)) return text;
+    
+    const si = (attrs.match(/\bsi="(\d+)"/) || [])[1];
+    if (si === undefined) return text;
+    
+    if (text) {
+      sharedFormulas.set(si, { formula: text, row, col });
+      return text;
+    }
+    
+    const master = sharedFormulas.get(si);
+    if (!master) return undefined;
+    return FormulaShiftingService.shift(master.formula, master, { row, col });
+  }
+  
   /**
    * Parse cell reference (e.g., "A1" -> {row: 1, col: 1})
    */
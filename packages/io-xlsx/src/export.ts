@@ -7,12 +7,58 @@
  * 3. No de-interning - styles are read-only projections
  * 4. Export semantic values (indent levels, not pixels)
  * 5. Preserve mutual exclusivity (superscript/subscript)
+ *
+ * Besides values and styles, each sheet carries its formulas (`<f>`, with
+ * spill sources written as array formulas), merges, column widths, row
+ * heights, hidden rows/columns, outline groups, frozen panes, conditional formatting,
+ * data validation, hyperlinks and tables (`xl/tables/tableN.xml`), so the file reopens
+ * in Excel as a live workbook rather than a dump of computed values.
+ *
+ * Protection travels too: `<sheetProtection>` and `<protectedRanges>` per
+ * sheet, `<workbookProtection>` in workbook.xml and the cell locked/hidden
+ * flags in `<protection>`. Passwords are written as the stored salted hashes.
+ *
+ * Addresses follow the 1-based `Address` contract: row 1, col 1 is A1, and
+ * row/col 0 lies outside the file grid. Formula text is written as stored;
+ * FormulaEngine resolves its references on that same grid, so a formula
+ * names the same cells in the workbook, in the file and after importXLSX.
  */
 
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
 import { zipSync, strToU8 } from 'fflate';
-import { Workbook, Worksheet, CellStyle } from '@cyber-sheet/core';
+import {
+  Workbook,
+  Worksheet,
+  CellStyle,
+  Cell,
+  CellHyperlink,
+  OutlineAxis,
+  PasswordHash,
+  SheetProtectionOptions,
+  TableDefinition,
+  escapeColumnName,
+  replaceStructuredReferences,
+} from '@cyber-sheet/core';
+import { ConditionalFormattingParser } from './ConditionalFormattingParser';
+import { DataValidationParser } from './DataValidationParser';
+
+const conditionalFormattingParser = new ConditionalFormattingParser();
+const dataValidationParser = new DataValidationParser();
+
+/** Number formats Excel knows by id; anything else goes into `<numFmts>`. */
+const BUILTIN_NUM_FMTS = new Map<string, number>([
+  ['General', 0], ['0', 1], ['0.00', 2], ['#,##0', 3], ['#,##0.00', 4],
+  ['0%', 9], ['0.00%', 10], ['0.00E+00', 11], ['# ?/?', 12], ['# ??/??', 13],
+  ['m/d/yy', 14], ['d-mmm-yy', 15], ['d-mmm', 16], ['mmm-yy', 17],
+  ['h:mm AM/PM', 18], ['h:mm:ss AM/PM', 19], ['h:mm', 20], ['h:mm:ss', 21],
+  ['m/d/yy h:mm', 22], ['@', 49],
+]);
+const FIRST_CUSTOM_NUM_FMT_ID = 164;
+
+const EXCEL_ERRORS = new Set([
+  '#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#SPILL!', '#CALC!',
+]);
 
 /**
  * Export workbook to XLSX ArrayBuffer.
@@ -23,7 +69,8 @@ import { Workbook, Worksheet, CellStyle } from '@cyber-sheet/core';
 export async function exportXLSX(workbook: Workbook): Promise<ArrayBuffer> {
   // Collect all unique canonical styles (reference-based deduplication)
   const styleMap = new Map<CellStyle, number>(); // canonical reference → xf index
-  const styles: CellStyle[] = [];
+  // xf 0 is the workbook's default format, so cell styles are numbered from 1
+  const styles: CellStyle[] = [{}];
   
   // Scan all sheets for styles
   for (const sheetName of workbook.getSheetNames()) {
@@ -57,7 +104,7 @@ export async function exportXLSX(workbook: Workbook): Promise<ArrayBuffer> {
   <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
 </Relationships>`);
   
-  files['[Content_Types].xml'] = strToU8(generateContentTypesXML(workbook));
+  files['[Content_Types].xml'] = strToU8(generateContentTypesXML(workbook, Object.keys(xmlParts)));
   
   // Zip into XLSX
   const zipped = zipSync(files, { level: 6 });
@@ -76,8 +123,9 @@ export async function exportXLSX(workbook: Workbook): Promise<ArrayBuffer> {
 interface XLSXParts {
   'xl/workbook.xml': string;
   'xl/styles.xml': string;
+  'xl/sharedStrings.xml': string;
   'xl/_rels/workbook.xml.rels': string;
-  [sheetPath: string]: string; // xl/worksheets/sheet1.xml, etc.
+  [partPath: string]: string; // xl/worksheets/sheet1.xml, xl/tables/table1.xml, etc.
 }
 
 function generateXLSXParts(
@@ -85,22 +133,36 @@ function generateXLSXParts(
   styles: CellStyle[],
   styleMap: Map<CellStyle, number>
 ): XLSXParts {
-  const parts: XLSXParts = {
-    'xl/workbook.xml': generateWorkbookXML(workbook),
-    'xl/styles.xml': generateStylesXML(styles),
-    'xl/_rels/workbook.xml.rels': generateWorkbookRels(workbook),
-  };
+  const sst: SharedStringTable = { index: new Map(), strings: [], count: 0 };
+  const dxfs: string[] = []; // conditional formatting styles, shared by all sheets
+  const sheetParts: Record<string, string> = {};
+  let tableCount = 0; // table ids and part numbers run across the workbook
   
-  // Generate sheet XMLs
+  // Generate sheet XMLs (fills the shared string and dxf tables as a side effect)
   const sheetNames = workbook.getSheetNames();
   sheetNames.forEach((name, idx) => {
     const sheet = workbook.getSheet(name);
     if (sheet) {
-      parts[`xl/worksheets/sheet${idx + 1}.xml`] = generateSheetXML(sheet, styleMap);
+      const tables = sheet.getTables().map(table => ({ table, id: ++tableCount }));
+      const hyperlinks = collectHyperlinks(sheet, tables.length);
+      sheetParts[`xl/worksheets/sheet${idx + 1}.xml`] = generateSheetXML(sheet, styleMap, sst, dxfs, tables.length, hyperlinks);
+      const externalTargets = hyperlinks.filter(link => link.rId).map(link => link.hyperlink.target);
+      if (tables.length > 0 || externalTargets.length > 0) {
+        sheetParts[`xl/worksheets/_rels/sheet${idx + 1}.xml.rels`] = generateSheetRels(tables.map(({ id }) => id), externalTargets);
+        for (const { table, id } of tables) {
+          sheetParts[`xl/tables/table${id}.xml`] = generateTableXML(table, id);
+        }
+      }
     }
   });
   
-  return parts;
+  return {
+    'xl/workbook.xml': generateWorkbookXML(workbook),
+    'xl/styles.xml': generateStylesXML(styles, dxfs),
+    'xl/sharedStrings.xml': generateSharedStringsXML(sst),
+    'xl/_rels/workbook.xml.rels': generateWorkbookRels(workbook),
+    ...sheetParts,
+  };
 }
 
 function generateWorkbookXML(workbook: Workbook): string {
@@ -114,7 +176,7 @@ function generateWorkbookXML(workbook: Workbook): string {
   
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
-  <sheets>${sheetsXml}</sheets>
+  ${generateWorkbookProtectionXML(workbook)}<sheets>${sheetsXml}</sheets>
 </workbook>`;
 }
 
@@ -127,9 +189,13 @@ function generateWorkbookRels(workbook: Workbook): string {
     })
     .join('');
   
+  // Workbook-level parts follow the sheet relationships
+  const n = sheetNames.length;
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
   ${relsXml}
+  <Relationship Id="rId${n + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rId${n + 2}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/>
 </Relationships>`;
 }
 
@@ -139,7 +205,7 @@ function generateWorkbookRels(workbook: Workbook): string {
  * Pure projection - no style reconstruction or cloning.
  * Exports semantic values (indent levels, not pixels).
  */
-function generateStylesXML(styles: CellStyle[]): string {
+function generateStylesXML(styles: CellStyle[], dxfs: string[]): string {
   // Collect unique fonts, fills, borders (by structural equality, not reference)
   const fonts: string[] = ['<font><sz val="11"/><name val="Calibri"/></font>']; // Excel default
   const fills: string[] = ['<fill><patternFill patternType="none"/></fill>']; // Excel default
@@ -149,6 +215,9 @@ function generateStylesXML(styles: CellStyle[]): string {
   const fillMap = new Map<string, number>();
   const borderMap = new Map<string, number>();
   
+  // Custom number formats are numbered from 164; built-in codes keep their ids
+  const numFmtMap = new Map<string, number>();
+  
   // Build font/fill/border collections
   styles.forEach(style => {
     const fontXml = styleToFontXML(style);
@@ -168,29 +237,43 @@ function generateStylesXML(styles: CellStyle[]): string {
       borderMap.set(borderXml, borders.length);
       borders.push(borderXml);
     }
+    
+    const code = style.numberFormat;
+    if (code && !BUILTIN_NUM_FMTS.has(code) && !numFmtMap.has(code)) {
+      numFmtMap.set(code, FIRST_CUSTOM_NUM_FMT_ID + numFmtMap.size);
+    }
   });
   
+  const numFmtsXml = Array.from(numFmtMap)
+    .map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+    .join('');
+  
   // Generate cellXfs (style entries)
   const xfsXml = styles
     .map(style => {
       const fontId = fontMap.get(styleToFontXML(style) || '') ?? 0;
       const fillId = fillMap.get(styleToFillXML(style) || '') ?? 0;
       const borderId = borderMap.get(styleToBorderXML(style) || '') ?? 0;
+      const code = style.numberFormat;
+      const numFmtId = code ? (BUILTIN_NUM_FMTS.get(code) ?? numFmtMap.get(code)!) : 0;
       
       const applyFont = fontId > 0 ? ' applyFont="1"' : '';
       const applyFill = fillId > 0 ? ' applyFill="1"' : '';
       const applyBorder = borderId > 0 ? ' applyBorder="1"' : '';
+      const applyNumberFormat = numFmtId > 0 ? ' applyNumberFormat="1"' : '';
       const applyAlignment = (style.align || style.wrap || style.rotation || style.indent) ? ' applyAlignment="1"' : '';
       
       const alignmentXml = styleToAlignmentXML(style);
+      const protectionXml = styleToProtectionXML(style);
+      const applyProtection = protectionXml ? ' applyProtection="1"' : '';
       
-      return `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}"${applyFont}${applyFill}${applyBorder}${applyAlignment}>${alignmentXml}</xf>`;
+      return `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}"${applyNumberFormat}${applyFont}${applyFill}${applyBorder}${applyAlignment}${applyProtection}>${alignmentXml}${protectionXml}</xf>`;
     })
     .join('');
   
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
-  <numFmts count="0"/>
+  <numFmts count="${numFmtMap.size}">${numFmtsXml}</numFmts>
   <fonts count="${fonts.length}">
     ${fonts.join('')}
   </fonts>
@@ -203,6 +286,7 @@ function generateStylesXML(styles: CellStyle[]): string {
   <cellXfs count="${styles.length}">
     ${xfsXml}
   </cellXfs>
+  <dxfs count="${dxfs.length}">${dxfs.join('')}</dxfs>
 </styleSheet>`;
 }
 
@@ -288,26 +372,51 @@ function styleToAlignmentXML(style: CellStyle): string {
   return attrs.length > 0 ? `<alignment ${attrs.join(' ')}/>` : '';
 }
 
-function generateSheetXML(sheet: Worksheet, styleMap: Map<CellStyle, number>): string {
+/**
+ * Project the protection flags; only departures from Excel's defaults
+ * (locked, not hidden) are written.
+ */
+function styleToProtectionXML(style: CellStyle): string {
+  const attrs: string[] = [];
+  if (style.locked === false) attrs.push('locked="0"');
+  if (style.hidden) attrs.push('hidden="1"');
+  return attrs.length > 0 ? `<protection ${attrs.join(' ')}/>` : '';
+}
+
+function generateSheetXML(
+  sheet: Worksheet,
+  styleMap: Map<CellStyle, number>,
+  sst: SharedStringTable,
+  dxfs: string[],
+  tableCount: number,
+  hyperlinks: ExportedHyperlink[]
+): string {
   const rows: string[] = [];
+  const hiddenRows = sheet.getHiddenRows();
+  const rowHeights = sheet.getRowHeights();
+  const collapsedRows = collapsedSummaries(sheet, 'row');
   
   for (let row = 1; row <= sheet.rowCount; row++) {
     const cells: string[] = [];
     
     for (let col = 1; col <= sheet.colCount; col++) {
       const addr = { row, col };
+      const cell = sheet.getCell(addr);
       const value = sheet.getCellValue(addr);
       
       // Discipline: Read via getCellStyle() only
       const style = sheet.getCellStyle(addr);
       const styleIdx = style ? styleMap.get(style) : undefined;
       
-      if (value !== null || styleIdx !== undefined) {
-        const cellRef = colToA1(col) + row;
-        const styleAttr = styleIdx !== undefined ? ` s="${styleIdx}"` : '';
-        
+      const cellRef = colToA1(col) + row;
+      const styleAttr = styleIdx !== undefined ? ` s="${styleIdx}"` : '';
+      
+      if (cell?.formula) {
+        const formula = toFileFormula(cell.formula, sheet.getTableAt(addr)?.name);
+        cells.push(formulaCellXML(formula, cell.spillSource, cellRef, styleAttr, value));
+      } else if (value !== null || styleIdx !== undefined) {
         if (typeof value === 'string') {
-          cells.push(`<c r="${cellRef}"${styleAttr} t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`);
+          cells.push(`<c r="${cellRef}"${styleAttr} t="s"><v>${sharedStringIndex(sst, value)}</v></c>`);
         } else if (typeof value === 'number') {
           cells.push(`<c r="${cellRef}"${styleAttr}><v>${value}</v></c>`);
         } else if (typeof value === 'boolean') {
@@ -319,17 +428,419 @@ function generateSheetXML(sheet: Worksheet, styleMap: Map<CellStyle, number>): s
       }
     }
     
+    const height = rowHeights.get(row);
+    const heightAttr = height !== undefined ? ` ht="${pxToPoints(height)}" customHeight="1"` : '';
+    const hiddenAttr = hiddenRows.has(row) ? ' hidden="1"' : '';
+    const outlineAttr = outlineAttrs(sheet.getOutlineLevel('row', row), collapsedRows.has(row));
+    
     if (cells.length > 0) {
-      rows.push(`<row r="${row}">${cells.join('')}</row>`);
+      rows.push(`<row r="${row}"${heightAttr}${hiddenAttr}${outlineAttr}>${cells.join('')}</row>`);
+    } else if (heightAttr || hiddenAttr || outlineAttr) {
+      rows.push(`<row r="${row}"${heightAttr}${hiddenAttr}${outlineAttr}/>`);
     }
   }
   
+  const cf = conditionalFormattingParser.generateConditionalFormattingXml(sheet.getConditionalFormattingRules(), dxfs);
+  const validations = dataValidationParser.generateDataValidationsXml(
+    sheet.getValidationCells().map(address => ({ address, rule: sheet.getDataValidation(address)! }))
+  );
+  const tableParts = generateTablePartsXML(tableCount);
+  const extLst = cf.extXml ? `<extLst>${cf.extXml}</extLst>` : '';
+  
+  // Element order is fixed by the schema
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
-  <sheetData>${rows.join('')}</sheetData>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  ${generateSheetPrXML(sheet)}${generateSheetViewsXML(sheet)}${generateSheetFormatPrXML(sheet)}${generateColsXML(sheet)}<sheetData>${rows.join('')}</sheetData>${generateSheetProtectionXML(sheet)}${generateProtectedRangesXML(sheet)}${generateMergeCellsXML(sheet)}${cf.xml}${validations}${generateHyperlinksXML(hyperlinks)}${tableParts}${extLst}
 </worksheet>`;
 }
 
+/**
+ * Project a formula cell to `<c>` with `<f>` and its cached result.
+ * 
+ * A spill source is written as an array formula over its spill range; the
+ * spilled cells themselves carry only their cached values, as in Excel.
+ */
+function formulaCellXML(
+  cellFormula: string,
+  spill: Cell['spillSource'],
+  cellRef: string,
+  styleAttr: string,
+  value: Cell['value']
+): string {
+  const formula = escapeXml(cellFormula.replace(/^=/, ''));
+  const fXml = spill
+    ? `<f t="array" ref="${cellRef}:${colToA1(spill.endAddress.col)}${spill.endAddress.row}">${formula}</f>`
+    : `<f>${formula}</f>`;
+  
+  if (typeof value === 'string') {
+    const type = EXCEL_ERRORS.has(value) ? 'e' : 'str';
+    return `<c r="${cellRef}"${styleAttr} t="${type}">${fXml}<v>${escapeXml(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return `<c r="${cellRef}"${styleAttr}>${fXml}<v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${cellRef}"${styleAttr} t="b">${fXml}<v>${value ? '1' : '0'}</v></c>`;
+  }
+  // Not yet calculated: Excel computes it on open
+  return `<c r="${cellRef}"${styleAttr}>${fXml}</c>`;
+}
+
+/**
+ * Summary placement as `<sheetPr><outlinePr>`, written only when it differs
+ * from Excel's default of summaries below and to the right.
+ */
+function generateSheetPrXML(sheet: Worksheet): string {
+  const { summaryRowsBelow, summaryColumnsRight } = sheet.getOutlineSettings();
+  if (summaryRowsBelow && summaryColumnsRight) return '';
+  
+  const attrs = [
+    summaryRowsBelow ? '' : 'summaryBelow="0"',
+    summaryColumnsRight ? '' : 'summaryRight="0"',
+  ].filter(Boolean).join(' ');
+  return `<sheetPr><outlinePr ${attrs}/></sheetPr>`;
+}
+
+/**
+ * The deepest outline levels as `<sheetFormatPr>`, which Excel reads to size
+ * the outline bar and its level buttons.
+ */
+function generateSheetFormatPrXML(sheet: Worksheet): string {
+  const rowLevels = sheet.getMaxOutlineLevel('row');
+  const colLevels = sheet.getMaxOutlineLevel('col');
+  if (rowLevels === 0 && colLevels === 0) return '';
+  
+  const attrs = [
+    'defaultRowHeight="15"', // required; the default 20px row
+    rowLevels > 0 ? `outlineLevelRow="${rowLevels}"` : '',
+    colLevels > 0 ? `outlineLevelCol="${colLevels}"` : '',
+  ].filter(Boolean).join(' ');
+  return `<sheetFormatPr ${attrs}/>`;
+}
+
+/**
+ * Excel flags a collapsed group on its summary row (or column) rather than
+ * on the group: the index after it, or before it when summaries come first.
+ */
+function collapsedSummaries(sheet: Worksheet, axis: OutlineAxis): Set<number> {
+  const { summaryRowsBelow, summaryColumnsRight } = sheet.getOutlineSettings();
+  const after = axis === 'row' ? summaryRowsBelow : summaryColumnsRight;
+  const summaries = new Set<number>();
+  for (const { start, end, collapsed } of sheet.getOutlineGroups(axis)) {
+    if (collapsed) summaries.add(after ? end + 1 : start - 1);
+  }
+  return summaries;
+}
+
+function outlineAttrs(level: number, collapsed: boolean): string {
+  return (level > 0 ? ` outlineLevel="${level}"` : '') + (collapsed ? ' collapsed="1"' : '');
+}
+
+/**
+ * Frozen panes as `<sheetViews>`; Excel splits at the first unfrozen cell.
+ */
+function generateSheetViewsXML(sheet: Worksheet): string {
+  const freeze = sheet.getFreezePanes();
+  if (!freeze) return '';
+  
+  const { rows, cols } = freeze;
+  const activePane = rows > 0 && cols > 0 ? 'bottomRight' : rows > 0 ? 'bottomLeft' : 'topRight';
+  const attrs = [
+    cols > 0 ? `xSplit="${cols}"` : '',
+    rows > 0 ? `ySplit="${rows}"` : '',
+    `topLeftCell="${colToA1(cols + 1)}${rows + 1}"`,
+    `activePane="${activePane}"`,
+    'state="frozen"',
+  ].filter(Boolean).join(' ');
+  
+  return `<sheetViews><sheetView workbookViewId="0"><pane ${attrs}/></sheetView></sheetViews>`;
+}
+
+/**
+ * Column widths, hidden columns and outline levels as `<cols>`, one `<col>`
+ * per column.
+ */
+function generateColsXML(sheet: Worksheet): string {
+  const widths = sheet.getColumnWidths();
+  const hidden = sheet.getHiddenCols();
+  const collapsed = collapsedSummaries(sheet, 'col');
+  const grouped = sheet.getOutlineState().cols.levels.map(([col]) => col);
+  const cols = Array.from(new Set([...widths.keys(), ...hidden, ...grouped, ...collapsed]))
+    .filter(col => col >= 1)
+    .sort((a, b) => a - b);
+  if (cols.length === 0) return '';
+  
+  const colsXml = cols
+    .map(col => {
+      const width = widths.get(col);
+      const widthAttr = width !== undefined
+        ? ` width="${pxToColumnWidth(width)}" customWidth="1"`
+        : ` width="${pxToColumnWidth(sheet.getColumnWidth(col))}"`;
+      const hiddenAttr = hidden.has(col) ? ' hidden="1"' : '';
+      const outlineAttr = outlineAttrs(sheet.getOutlineLevel('col', col), collapsed.has(col));
+      return `<col min="${col}" max="${col}"${widthAttr}${hiddenAttr}${outlineAttr}/>`;
+    })
+    .join('');
+  
+  return `<cols>${colsXml}</cols>`;
+}
+
+function generateMergeCellsXML(sheet: Worksheet): string {
+  const merges = sheet.getMergedRanges();
+  if (merges.length === 0) return '';
+  
+  const mergesXml = merges
+    .map(({ start, end }) => `<mergeCell ref="${colToA1(start.col)}${start.row}:${colToA1(end.col)}${end.row}"/>`)
+    .join('');
+  
+  return `<mergeCells count="${merges.length}">${mergesXml}</mergeCells>`;
+}
+
+// ==================== Protection ====================
+
+/** The boolean `allow*` options of sheet protection. */
+type SheetProtectionAllowOption = Extract<keyof SheetProtectionOptions, `allow${string}`>;
+
+/**
+ * Excel's `<sheetProtection>` attributes name what is locked, so each
+ * `allow*` option is written inverted, and only when it departs from the
+ * file default (everything locked, all cells selectable).
+ */
+const SHEET_PROTECTION_ATTRS: Array<[SheetProtectionAllowOption, string]> = [
+  ['allowFormatCells', 'formatCells'],
+  ['allowFormatColumns', 'formatColumns'],
+  ['allowFormatRows', 'formatRows'],
+  ['allowInsertColumns', 'insertColumns'],
+  ['allowInsertRows', 'insertRows'],
+  ['allowInsertHyperlinks', 'insertHyperlinks'],
+  ['allowDeleteColumns', 'deleteColumns'],
+  ['allowDeleteRows', 'deleteRows'],
+  ['allowSort', 'sort'],
+  ['allowFilter', 'autoFilter'],
+  ['allowPivotTables', 'pivotTables'],
+];
+
+function generateSheetProtectionXML(sheet: Worksheet): string {
+  const options = sheet.getSheetProtection();
+  if (!options) return '';
+
+  const attrs = [
+    options.password ? `password="${escapeXml(options.password)}"` : '',
+    options.passwordHash ? passwordHashAttrs(options.passwordHash) : '',
+    'sheet="1"',
+    ...SHEET_PROTECTION_ATTRS.map(([option, attr]) => options[option] ? `${attr}="0"` : ''),
+    options.selectLockedCells === false ? 'selectLockedCells="1"' : '',
+    options.selectUnlockedCells === false ? 'selectUnlockedCells="1"' : '',
+  ].filter(Boolean).join(' ');
+
+  return `<sheetProtection ${attrs}/>`;
+}
+
+/** Allow-edit ranges as `<protectedRanges>`. */
+function generateProtectedRangesXML(sheet: Worksheet): string {
+  const ranges = sheet.getAllowEditRanges();
+  if (ranges.length === 0) return '';
+
+  const rangesXml = ranges
+    .map(({ name, range: { start, end }, password }) => {
+      const sqref = `${colToA1(start.col)}${start.row}:${colToA1(end.col)}${end.row}`;
+      const hash = password ? ` ${passwordHashAttrs(password)}` : '';
+      return `<protectedRange name="${escapeXml(name)}" sqref="${sqref}"${hash}/>`;
+    })
+    .join('');
+
+  return `<protectedRanges>${rangesXml}</protectedRanges>`;
+}
+
+/** `<workbookProtection>`; its hash attributes carry a `workbook` prefix. */
+function generateWorkbookProtectionXML(workbook: Workbook): string {
+  const protection = workbook.getWorkbookProtection();
+  if (!protection) return '';
+
+  const attrs = [
+    protection.password ? passwordHashAttrs(protection.password, 'workbook') : '',
+    protection.lockStructure !== false ? 'lockStructure="1"' : '',
+    protection.lockWindows ? 'lockWindows="1"' : '',
+  ].filter(Boolean).join(' ');
+
+  return `<workbookProtection${attrs ? ` ${attrs}` : ''}/>`;
+}
+
+function passwordHashAttrs(hash: PasswordHash, prefix = ''): string {
+  const name = (attr: string) => prefix ? prefix + attr[0].toUpperCase() + attr.slice(1) : attr;
+  return [
+    `${name('algorithmName')}="${escapeXml(hash.algorithmName)}"`,
+    `${name('hashValue')}="${escapeXml(hash.hashValue)}"`,
+    `${name('saltValue')}="${escapeXml(hash.saltValue)}"`,
+    `${name('spinCount')}="${hash.spinCount}"`,
+  ].join(' ');
+}
+
+// ==================== Hyperlinks ====================
+
+/** A stored cell link; external targets also get a sheet relationship. */
+interface ExportedHyperlink {
+  ref: string;
+  hyperlink: CellHyperlink;
+  rId?: string;
+}
+
+/**
+ * Relationship ids for external targets continue after the sheet's table
+ * parts. Links produced by HYPERLINK() formulas travel as the formula.
+ */
+function collectHyperlinks(sheet: Worksheet, tableCount: number): ExportedHyperlink[] {
+  let nextRel = tableCount;
+  return sheet.getAllHyperlinks().map(({ address, hyperlink }) => ({
+    ref: colToA1(address.col) + address.row,
+    hyperlink,
+    rId: hyperlink.target.startsWith('#') ? undefined : `rId${++nextRel}`,
+  }));
+}
+
+/** `<hyperlinks>`: workbook locations go in `location` without the `#`. */
+function generateHyperlinksXML(hyperlinks: ExportedHyperlink[]): string {
+  if (hyperlinks.length === 0) return '';
+
+  const linksXml = hyperlinks
+    .map(({ ref, hyperlink, rId }) => {
+      const target = rId ? ` r:id="${rId}"` : ` location="${escapeXml(hyperlink.target.slice(1))}"`;
+      const tooltip = hyperlink.tooltip !== undefined ? ` tooltip="${escapeXml(hyperlink.tooltip)}"` : '';
+      return `<hyperlink ref="${ref}"${target}${tooltip}/>`;
+    })
+    .join('');
+
+  return `<hyperlinks>${linksXml}</hyperlinks>`;
+}
+
+// ==================== Tables ====================
+
+/** One `<tablePart>` per table; relationship ids follow the table order. */
+function generateTablePartsXML(count: number): string {
+  if (count === 0) return '';
+  
+  const partsXml = Array.from({ length: count }, (_, idx) => `<tablePart r:id="rId${idx + 1}"/>`).join('');
+  return `<tableParts count="${count}">${partsXml}</tableParts>`;
+}
+
+/** Table parts first (rId1..n), then external hyperlink targets. */
+function generateSheetRels(tableIds: number[], hyperlinkTargets: string[]): string {
+  const tablesXml = tableIds
+    .map((id, idx) => `<Relationship Id="rId${idx + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table${id}.xml"/>`)
+    .join('');
+  const linksXml = hyperlinkTargets
+    .map((target, idx) => `<Relationship Id="rId${tableIds.length + idx + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(target)}" TargetMode="External"/>`)
+    .join('');
+  const relsXml = tablesXml + linksXml;
+  
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relsXml}</Relationships>`;
+}
+
+/**
+ * Project a table to its `tableN.xml` part: geometry, columns with their
+ * calculated and totals row settings, and the style. Tables with a header
+ * row carry an `<autoFilter>` over header and data rows, as Excel writes.
+ */
+function generateTableXML(table: TableDefinition, id: number): string {
+  const { start, end } = table.range;
+  const ref = `${colToA1(start.col)}${start.row}:${colToA1(end.col)}${end.row}`;
+  const dataEnd = table.totalsRow ? end.row - 1 : end.row;
+  
+  const attrs = [
+    `id="${id}"`,
+    `name="${escapeXml(table.name)}"`,
+    `displayName="${escapeXml(table.name)}"`,
+    `ref="${ref}"`,
+    table.headerRow ? '' : 'headerRowCount="0"',
+    table.totalsRow ? 'totalsRowCount="1"' : 'totalsRowShown="0"',
+  ].filter(Boolean).join(' ');
+  
+  const autoFilter = table.headerRow
+    ? `<autoFilter ref="${colToA1(start.col)}${start.row}:${colToA1(end.col)}${dataEnd}"/>`
+    : '';
+  
+  const columnsXml = table.columns
+    .map((column, idx) => {
+      const fn = column.totalsFunction && column.totalsFunction !== 'none'
+        ? ` totalsRowFunction="${column.totalsFunction}"`
+        : '';
+      const label = column.totalsLabel !== undefined ? ` totalsRowLabel="${escapeXml(column.totalsLabel)}"` : '';
+      const formulas = [
+        column.formula ? `<calculatedColumnFormula>${escapeXml(toFileFormula(column.formula, table.name).replace(/^=/, ''))}</calculatedColumnFormula>` : '',
+        column.totalsFunction === 'custom' && column.totalsFormula
+          ? `<totalsRowFormula>${escapeXml(toFileFormula(column.totalsFormula, table.name).replace(/^=/, ''))}</totalsRowFormula>`
+          : '',
+      ].join('');
+      const open = `<tableColumn id="${idx + 1}" name="${escapeXml(column.name)}"${fn}${label}`;
+      return formulas ? `${open}>${formulas}</tableColumn>` : `${open}/>`;
+    })
+    .join('');
+  
+  const { style } = table;
+  const flag = (on: boolean) => (on ? '1' : '0');
+  const styleXml = `<tableStyleInfo name="${escapeXml(style.name)}" showFirstColumn="${flag(style.showFirstColumn)}" showLastColumn="${flag(style.showLastColumn)}" showRowStripes="${flag(style.showRowStripes)}" showColumnStripes="${flag(style.showColumnStripes)}"/>`;
+  
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ${attrs}>${autoFilter}<tableColumns count="${table.columns.length}">${columnsXml}</tableColumns>${styleXml}</table>`;
+}
+
+/**
+ * Structured references the way the file format stores them: qualified
+ * with the table name, and `[@Col]` spelled out as `[[#This Row],[Col]]`.
+ * `table` is the table holding the formula, if any.
+ */
+function toFileFormula(formula: string, table: string | undefined): string {
+  if (!formula.includes('[')) return formula;
+  
+  return replaceStructuredReferences(formula, ref => {
+    const name = ref.table ?? table;
+    if (name === undefined) return null;
+    if (ref.items.length !== 1 || ref.items[0] !== '#This Row') {
+      return ref.table === undefined ? name + ref.text : null;
+    }
+    if (!ref.columns) return `${name}[#This Row]`;
+    const { first, last } = ref.columns;
+    const span = first === last
+      ? `[${escapeColumnName(first)}]`
+      : `[${escapeColumnName(first)}]:[${escapeColumnName(last)}]`;
+    return `${name}[[#This Row],${span}]`;
+  });
+}
+
+// ==================== Shared Strings ====================
+
+interface SharedStringTable {
+  index: Map<string, number>;
+  strings: string[];
+  /** Total references, including repeats (the `count` attribute). */
+  count: number;
+}
+
+function sharedStringIndex(sst: SharedStringTable, s: string): number {
+  sst.count++;
+  let idx = sst.index.get(s);
+  if (idx === undefined) {
+    idx = sst.strings.length;
+    sst.index.set(s, idx);
+    sst.strings.push(s);
+  }
+  return idx;
+}
+
+function generateSharedStringsXML(sst: SharedStringTable): string {
+  const items = sst.strings
+    .map(s => {
+      // Leading/trailing whitespace is dropped unless explicitly preserved
+      const space = /^\s|\s$/.test(s) ? ' xml:space="preserve"' : '';
+      return `<si><t${space}>${escapeXml(s)}</t></si>`;
+    })
+    .join('');
+  
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="${sst.count}" uniqueCount="${sst.strings.length}">${items}</sst>`;
+}
+
 // ==================== Utilities ====================
 
 function escapeXml(s: string): string {
@@ -360,6 +871,19 @@ function cssToArgb(css: string): string {
   return 'FF000000'; // Default black
 }
 
+/** Row height: pixels (96 dpi) → points. */
+function pxToPoints(px: number): number {
+  return Math.round(px * 0.75 * 100) / 100;
+}
+
+/**
+ * Column width: pixels → Excel character units, using the Calibri 11
+ * maximum digit width (7px) and 5px of cell padding.
+ */
+function pxToColumnWidth(px: number): number {
+  return Math.max(0, Math.trunc(((px - 5) / 7) * 100 + 0.5) / 100);
+}
+
 function colToA1(col: number): string {
   let s = '';
   while (col > 0) {
@@ -370,11 +894,13 @@ function colToA1(col: number): string {
   return s;
 }
 
-function generateContentTypesXML(workbook: Workbook): string {
+function generateContentTypesXML(workbook: Workbook, parts: string[]): string {
   const sheetNames = workbook.getSheetNames();
-  const overrides = sheetNames
-    .map((_, idx) => `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
-    .join('');
+  const tableParts = parts.filter(path => path.startsWith('xl/tables/'));
+  const overrides = [
+    ...sheetNames.map((_, idx) => `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+    ...tableParts.map(path => `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>`),
+  ].join('');
   
   return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
 <Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
@@ -382,6 +908,7 @@ function generateContentTypesXML(workbook: Workbook): string {
   <Default Extension="xml" ContentType="application/xml"/>
   <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
   <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+  <Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>
   ${overrides}
 </Types>`;
 }
@@ -8,8 +8,20 @@
  * - Minimal memory footprint
  */
 
-import { Workbook, Worksheet } from '@cyber-sheet/core';
-import { LightweightXLSXParser, XLSXParseOptions, XLSXMetadata } from './LightweightParser';
+import { Workbook, Worksheet, buildOutlineGroups, type OutlineAxisState } from '@cyber-sheet/core';
+import {
+  LightweightXLSXParser,
+  XLSXParseOptions,
+  XLSXMetadata,
+  XLSXSheetLayout,
+  XLSXBandLayout,
+  XLSXSheetRules,
+  XLSXTable,
+  XLSXHyperlink,
+  XLSXSheetProtection,
+  XLSXImportWarning,
+  ParsedCell
+} from './LightweightParser';
 
 export interface ImportOptions extends XLSXParseOptions {
   /** Create Workbook instance automatically */
@@ -37,6 +49,12 @@ export interface ImportResult {
   /** Metadata from file */
   metadata: XLSXMetadata;
   
+  /**
+   * Conditional formatting, data validation, tables and hyperlinks that
+   * could not be mapped. Lazy sheets add theirs when first loaded.
+   */
+  warnings: XLSXImportWarning[];
+  
   /** Lazy sheet loader */
   loadSheet: (nameOrIndex: string | number, options?: XLSXParseOptions) => Promise<Worksheet>;
   
@@ -54,6 +72,7 @@ export interface ImportResult {
 class LazyWorksheet extends Worksheet {
   private parser: LightweightXLSXParser;
   private sheetIndex: number;
+  private warnings: XLSXImportWarning[];
   private loadedViewport: { startRow: number; endRow: number; startCol: number; endCol: number } | null = null;
   
   constructor(
@@ -61,11 +80,13 @@ class LazyWorksheet extends Worksheet {
     rows: number,
     cols: number,
     parser: LightweightXLSXParser,
-    sheetIndex: number
+    sheetIndex: number,
+    warnings: XLSXImportWarning[]
   ) {
     super(name, rows, cols);
     this.parser = parser;
     this.sheetIndex = sheetIndex;
+    this.warnings = warnings;
   }
   
   /**
@@ -83,36 +104,21 @@ class LazyWorksheet extends Worksheet {
       includeFormulas: true
     });
     
-    // Apply cells to worksheet
-    for (const [ref, cell] of cells) {
-      const match = ref.match(/^([A-Z]+)(\d+)$/);
-      if (!match) continue;
-      
-      const colStr = match[1];
-      const row = parseInt(match[2]);
-      
-      let col = 0;
-      for (let i = 0; i < colStr.length; i++) {
-        col = col * 26 + (colStr.charCodeAt(i) - 64);
-      }
-      
-      const addr = { row, col };
-      
-      if (cell.value !== null && cell.value !== undefined) {
-        this.setCellValue(addr, cell.value);
-      }
-      
-      if (cell.formula) {
-        // Store formula in cell
-        const k = `${addr.row}:${addr.col}`;
-        const existingCell = (this as any).cells.get(k) || { value: null };
-        existingCell.formula = cell.formula;
-        (this as any).cells.set(k, existingCell);
-      }
-      
-      if (cell.style) {
-        this.setCellStyle(addr, cell.style);
-      }
+    // Layout and rules are sheet-wide, so they are applied with the first viewport only
+    if (!this.loadedViewport) {
+      applySheetLayout(this, await this.parser.parseSheetLayout(this.sheetIndex), true);
+      const rules = await this.parser.parseSheetRules(this.sheetIndex);
+      applySheetRules(this, rules);
+      this.warnings.push(...rules.warnings);
+    }
+    
+    applyParsedCells(this, cells);
+    
+    // Tables take their column names from the header cells, so they follow the cells
+    if (!this.loadedViewport) {
+      this.warnings.push(...applySheetTables(this, await this.parser.parseSheetTables(this.sheetIndex)));
+      this.warnings.push(...applySheetHyperlinks(this, await this.parser.parseSheetHyperlinks(this.sheetIndex)));
+      applySheetProtection(this, await this.parser.parseSheetProtection(this.sheetIndex));
     }
     
     this.loadedViewport = viewport;
@@ -162,6 +168,166 @@ class LazyWorksheet extends Worksheet {
   }
 }
 
+/**
+ * Apply parsed cells (keyed by A1 reference) to a worksheet
+ */
+function applyParsedCells(sheet: Worksheet, cells: Map<string, ParsedCell>): void {
+  for (const [ref, cell] of cells) {
+    const match = ref.match(/^([A-Z]+)(\d+)$/);
+    if (!match) continue;
+    
+    const colStr = match[1];
+    const row = parseInt(match[2]);
+    
+    let col = 0;
+    for (let i = 0; i < colStr.length; i++) {
+      col = col * 26 + (colStr.charCodeAt(i) - 64);
+    }
+    
+    const addr = { row, col };
+    
+    if (cell.formula) {
+      // The saved result shows until the next recalculation
+      sheet.setCellFormula(addr, cell.formula, cell.value ?? undefined);
+    } else if (cell.value !== null && cell.value !== undefined) {
+      sheet.setCellValue(addr, cell.value);
+    }
+    
+    if (cell.style) {
+      sheet.setCellStyle(addr, cell.style);
+    }
+  }
+}
+
+/**
+ * Apply merges, sizes, hidden rows/cols, outline groups and frozen panes to a worksheet
+ */
+function applySheetLayout(sheet: Worksheet, layout: XLSXSheetLayout, includeMerges: boolean): void {
+  for (const [col, { width, hidden }] of layout.columns) {
+    if (width !== undefined) sheet.setColumnWidth(col, width);
+    if (hidden) sheet.hideCol(col);
+  }
+  
+  for (const [row, { height, hidden }] of layout.rows) {
+    if (height !== undefined) sheet.setRowHeight(row, height);
+    if (hidden) sheet.hideRow(row);
+  }
+  
+  if (includeMerges) {
+    for (const range of layout.merges) {
+      sheet.mergeCells(range);
+    }
+  }
+  
+  if (layout.freeze) {
+    sheet.setFreezePanes(layout.freeze.rows, layout.freeze.cols);
+  }
+  
+  const rows = readOutlineAxis(layout.rows, layout.outline.summaryRowsBelow);
+  const cols = readOutlineAxis(layout.columns, layout.outline.summaryColumnsRight);
+  const { summaryRowsBelow, summaryColumnsRight } = layout.outline;
+  if (rows.levels.length > 0 || cols.levels.length > 0 || !summaryRowsBelow || !summaryColumnsRight) {
+    // Rows and columns of collapsed groups arrive hidden already
+    sheet.setOutlineState({ rows, cols, settings: layout.outline });
+  }
+}
+
+/**
+ * Outline levels of one axis. Excel flags a collapsed group on its summary
+ * row/column; the group is the one a level deeper right before it (after
+ * it, when summaries come first).
+ */
+function readOutlineAxis(bands: Map<number, XLSXBandLayout>, summaryAfter: boolean): OutlineAxisState {
+  const levels = new Map<number, number>();
+  for (const [index, { outlineLevel }] of bands) {
+    if (outlineLevel) levels.set(index, outlineLevel);
+  }
+  
+  const groups = buildOutlineGroups(levels, () => false);
+  const collapsed: Array<[number, number]> = [];
+  for (const [index, { collapsed: isSummary }] of bands) {
+    if (!isSummary) continue;
+    const level = (levels.get(index) ?? 0) + 1;
+    const group = groups.find(g => g.level === level && (summaryAfter ? g.end === index - 1 : g.start === index + 1));
+    if (group) collapsed.push([group.start, group.level]);
+  }
+  return { levels: Array.from(levels), collapsed };
+}
+
+/**
+ * Apply conditional formatting and data validation to a worksheet.
+ * Validation ranges are clipped to the sheet (Excel allows whole columns).
+ */
+function applySheetRules(sheet: Worksheet, rules: XLSXSheetRules): void {
+  for (const rule of rules.conditionalFormats) {
+    sheet.addConditionalFormattingRule(rule);
+  }
+  
+  for (const { ranges, rule } of rules.dataValidations) {
+    for (const { start, end } of ranges) {
+      const lastRow = Math.min(end.row, sheet.rowCount);
+      const lastCol = Math.min(end.col, sheet.colCount);
+      for (let row = start.row; row <= lastRow; row++) {
+        for (let col = start.col; col <= lastCol; col++) {
+          sheet.setDataValidation({ row, col }, rule);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Add a sheet's tables once its cells are in place. A table that cannot be
+ * added (its name clashes, it overlaps a merge) is reported and left out;
+ * its cells stay as a plain range.
+ */
+function applySheetTables(sheet: Worksheet, tables: XLSXTable[]): XLSXImportWarning[] {
+  const warnings: XLSXImportWarning[] = [];
+  for (const { range, options } of tables) {
+    try {
+      sheet.addTable(range, options);
+    } catch (error) {
+      warnings.push({
+        sheet: sheet.name,
+        message: `Table '${options.name ?? ''}' was imported as a plain range: ${(error as Error).message}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Set a sheet's hyperlinks on every cell of their ranges (clipped to the
+ * sheet). Targets the worksheet refuses, such as script URLs, are reported
+ * and dropped.
+ */
+function applySheetHyperlinks(sheet: Worksheet, links: XLSXHyperlink[]): XLSXImportWarning[] {
+  const warnings: XLSXImportWarning[] = [];
+  for (const { range: { start, end }, hyperlink } of links) {
+    try {
+      const lastRow = Math.min(end.row, sheet.rowCount);
+      const lastCol = Math.min(end.col, sheet.colCount);
+      for (let row = start.row; row <= lastRow; row++) {
+        for (let col = start.col; col <= lastCol; col++) {
+          sheet.setHyperlink({ row, col }, hyperlink);
+        }
+      }
+    } catch (error) {
+      warnings.push({ sheet: sheet.name, message: `Hyperlink was not imported: ${(error as Error).message}` });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Protect a sheet as the file had it, with its allow-edit ranges. Applied
+ * after everything else the sheet loads.
+ */
+function applySheetProtection(sheet: Worksheet, { protection, allowEditRanges }: XLSXSheetProtection): void {
+  if (allowEditRanges.length > 0) sheet.setAllowEditRanges(allowEditRanges);
+  if (protection) sheet.protectSheet(protection);
+}
+
 /**
  * Import Excel file with high-fidelity parsing and lazy loading
  */
@@ -177,6 +343,16 @@ export async function importXLSX(
   // Step 2: Create workbook
   const workbook = new Workbook();
   const lazySheets = new Map<string, LazyWorksheet>();
+  const warnings: XLSXImportWarning[] = [];
+  
+  // Names go in before any sheets; tables share their namespace
+  const names = workbook.getNameManager();
+  for (const dn of metadata.definedNames) {
+    const scope = dn.sheet ?? 'workbook';
+    if (names.validateName(dn.name, scope).valid) {
+      names.addName(dn.name, dn.refersTo, scope, dn.comment);
+    }
+  }
   
   // Step 3: Create worksheets (lazy or eager)
   for (let i = 0; i < metadata.sheetNames.length; i++) {
@@ -190,7 +366,8 @@ export async function importXLSX(
         dims.rows,
         dims.cols,
         parser,
-        i
+        i,
+        warnings
       );
       
       // Add sheet to workbook by creating it first, then replacing
@@ -214,40 +391,23 @@ export async function importXLSX(
         onProgress: options.onProgress
       });
       
-      // Apply cells
-      for (const [ref, cell] of cells) {
-        const match = ref.match(/^([A-Z]+)(\d+)$/);
-        if (!match) continue;
-        
-        const colStr = match[1];
-        const row = parseInt(match[2]);
-        
-        let col = 0;
-        for (let i = 0; i < colStr.length; i++) {
-          col = col * 26 + (colStr.charCodeAt(i) - 64);
-        }
-        
-        const addr = { row, col };
-        
-        if (cell.value !== null && cell.value !== undefined) {
-          sheet.setCellValue(addr, cell.value);
-        }
-        
-        if (cell.formula) {
-          // Store formula in cell
-          const k = `${addr.row}:${addr.col}`;
-          const existingCell = (sheet as any).cells.get(k) || { value: null };
-          existingCell.formula = cell.formula;
-          (sheet as any).cells.set(k, existingCell);
-        }
-        
-        if (cell.style) {
-          sheet.setCellStyle(addr, cell.style);
-        }
-      }
+      applyParsedCells(sheet, cells);
+      applySheetLayout(sheet, await parser.parseSheetLayout(i), options.includeMerges !== false);
+      
+      const rules = await parser.parseSheetRules(i);
+      applySheetRules(sheet, rules);
+      warnings.push(...rules.warnings);
+      warnings.push(...applySheetTables(sheet, await parser.parseSheetTables(i)));
+      warnings.push(...applySheetHyperlinks(sheet, await parser.parseSheetHyperlinks(i)));
+      applySheetProtection(sheet, await parser.parseSheetProtection(i));
     }
   }
   
+  // Structure protection goes on last, once every sheet is in
+  if (metadata.workbookProtection) {
+    workbook.protectWorkbook(metadata.workbookProtection);
+  }
+  
   // Helper functions
   const loadSheet = async (
     nameOrIndex: string | number,
@@ -293,6 +453,7 @@ export async function importXLSX(
   return {
     workbook,
     metadata,
+    warnings,
     loadSheet,
     expandViewport
   };
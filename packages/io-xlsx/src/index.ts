@@ -8,6 +8,8 @@ import { Workbook, Worksheet, CellStyle } from '@cyber-sheet/core';
 export * from './import';
 export * from './LightweightParser';
 export * from './CommentParser';
+export * from './ConditionalFormattingParser';
+export * from './DataValidationParser';
 export * from './export';
 
 type FetchLike = (input: RequestInfo, init?: RequestInit) => Promise<Response>;
@@ -0,0 +1,179 @@
+/**
+ * XLSX Conditional Formatting & Data Validation
+ *
+ * Validates:
+ * 1. Export of cfRules (with dxf styles), color scales, data bars and
+ *    icon sets, including the Excel 2010 extension for solid bars
+ * 2. Export of <dataValidations> with ranges grouped per rule
+ * 3. Import of the same structures into Worksheet rules
+ * 4. Warnings in ImportResult for rules that cannot be mapped
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook } from '@cyber-sheet/core';
+import { importXLSX } from '../src/import';
+import { exportXLSX } from '../src/export';
+import { buildXlsx as zipParts, exportParts } from './xlsx-parts';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+function buildXlsx(sheetXml: string, stylesXml?: string): ArrayBuffer {
+  const parts: Record<string, string> = {
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets><sheet name="Rules" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    'xl/worksheets/sheet1.xml': sheetXml,
+  };
+  if (stylesXml) parts['xl/styles.xml'] = stylesXml;
+  return zipParts(parts);
+}
+
+const range = (r1: number, c1: number, r2: number, c2: number) => ({
+  start: { row: r1, col: c1 },
+  end: { row: r2, col: c2 },
+});
+
+describe('XLSX conditional formatting and data validation', () => {
+  it('exports cell rules with dxf styles and priorities', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('CF');
+    sheet.addConditionalFormattingRule({
+      type: 'value', operator: '>', value: 10, priority: 2, ranges: [range(1, 1, 10, 1)],
+      style: { fillColor: '#FFC7CE', fontColor: '#9C0006' },
+    });
+    sheet.addConditionalFormattingRule({
+      type: 'color-scale', minColor: '#F8696B', maxColor: '#63BE7B', priority: 1, ranges: [range(1, 2, 10, 2)],
+    });
+
+    const parts = await exportParts(wb);
+    const xml = parts['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toContain('<conditionalFormatting sqref="A1:A10"><cfRule type="cellIs" dxfId="0" priority="1" operator="greaterThan"><formula>10</formula></cfRule></conditionalFormatting>');
+    expect(xml).toContain('<cfRule type="colorScale" priority="2"><colorScale><cfvo type="min"/><cfvo type="max"/><color rgb="FFF8696B"/><color rgb="FF63BE7B"/></colorScale></cfRule>');
+    expect(parts['xl/styles.xml']).toContain('<dxfs count="1"><dxf><font><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf></dxfs>');
+    // Schema order: conditional formatting after sheetData
+    expect(xml.indexOf('<conditionalFormatting')).toBeGreaterThan(xml.indexOf('</sheetData>'));
+  });
+
+  it('writes solid data bars and 2010 icon sets to the extension list', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Ext');
+    sheet.addConditionalFormattingRule({ type: 'data-bar', color: '#638EC6', gradient: false, ranges: [range(1, 1, 5, 1)] });
+    sheet.addConditionalFormattingRule({
+      type: 'icon-set', iconSet: '3-stars', ranges: [range(1, 2, 5, 2)],
+      thresholds: [
+        { value: 67, type: 'percent', icon: '3-stars:2', operator: '>=' },
+        { value: 33, type: 'percent', icon: '3-stars:1', operator: '>=' },
+        { value: 0, type: 'percent', icon: '3-stars:0', operator: '>=' },
+      ],
+    });
+
+    const xml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toMatch(/<cfRule type="dataBar"[^>]*><dataBar><cfvo type="min"\/><cfvo type="max"\/><color rgb="FF638EC6"\/><\/dataBar><extLst>/);
+    expect(xml).toContain('<x14:dataBar');
+    expect(xml).toContain('gradient="0"');
+    expect(xml).toContain('<x14:iconSet iconSet="3Stars">');
+    expect(xml).toContain('<xm:sqref>B1:B5</xm:sqref>');
+    expect(xml.lastIndexOf('<extLst>')).toBeGreaterThan(xml.indexOf('</conditionalFormatting>'));
+  });
+
+  it('exports data validations grouped by rule', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('DV');
+    const list = { type: 'list' as const, formula1: 'Yes,No', allowBlank: true, showDropdown: true };
+    sheet.setDataValidation({ row: 1, col: 1 }, list);
+    sheet.setDataValidation({ row: 1, col: 2 }, list);
+    sheet.setDataValidation({ row: 3, col: 1 }, {
+      type: 'whole', operator: 'greaterThanOrEqualTo', formula1: '0', allowBlank: false,
+      showErrorAlert: true, errorTitle: 'Invalid', errorMessage: 'Must be >= 0',
+    });
+
+    const xml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toContain('<dataValidations count="2">');
+    expect(xml).toContain('<dataValidation type="list" allowBlank="1" sqref="A1:B1"><formula1>&quot;Yes,No&quot;</formula1></dataValidation>');
+    expect(xml).toContain('<dataValidation type="whole" operator="greaterThanOrEqual" showErrorMessage="1" errorTitle="Invalid" error="Must be &gt;= 0" sqref="A3"><formula1>0</formula1></dataValidation>');
+  });
+
+  it('imports rules, dxf styles and validations', async () => {
+    const styles = `<?xml version="1.0" encoding="UTF-8"?>
+<styleSheet xmlns="${MAIN_NS}"><dxfs count="1"><dxf><font><b/><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf></dxfs></styleSheet>`;
+    const sheetXml = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="${MAIN_NS}">
+  <sheetData><row r="1"><c r="A1"><v>5</v></c></row></sheetData>
+  <conditionalFormatting sqref="A1:A10">
+    <cfRule type="cellIs" dxfId="0" priority="1" operator="between"><formula>1</formula><formula>9</formula></cfRule>
+    <cfRule type="containsText" dxfId="0" priority="2" operator="containsText" text="x"><formula>NOT(ISERROR(SEARCH("x",A1)))</formula></cfRule>
+  </conditionalFormatting>
+  <conditionalFormatting sqref="B1:B10">
+    <cfRule type="colorScale" priority="3"><colorScale><cfvo type="min"/><cfvo type="max"/><color rgb="FFFFFFFF"/><color rgb="FF63BE7B"/></colorScale></cfRule>
+  </conditionalFormatting>
+  <dataValidations count="2">
+    <dataValidation type="list" allowBlank="1" showDropDown="1" sqref="C1:C2 E1"><formula1>"Low,High"</formula1></dataValidation>
+    <dataValidation type="decimal" operator="lessThan" sqref="D1"><formula1>$F$1</formula1></dataValidation>
+  </dataValidations>
+</worksheet>`;
+
+    const { workbook, warnings } = await importXLSX(buildXlsx(sheetXml, styles));
+    const sheet = workbook.getSheet('Rules')!;
+    const rules = sheet.getConditionalFormattingRules();
+
+    expect(warnings).toEqual([]);
+    expect(rules).toHaveLength(3);
+    expect(rules.find(r => r.type === 'value')).toMatchObject({
+      operator: 'between', value: 1, value2: 9, priority: 3, ranges: [range(1, 1, 10, 1)],
+      style: { bold: true, fontColor: '#9C0006', fillColor: '#FFC7CE' },
+    });
+    expect(rules.find(r => r.type === 'text')).toMatchObject({ mode: 'contains', text: 'x', priority: 2 });
+    expect(rules.find(r => r.type === 'color-scale')).toMatchObject({ minColor: '#FFFFFF', maxColor: '#63BE7B', priority: 1 });
+
+    expect(sheet.getDataValidation({ row: 2, col: 3 })).toMatchObject({ type: 'list', formula1: 'Low,High', showDropdown: false });
+    expect(sheet.getDataValidation({ row: 1, col: 5 })?.type).toBe('list');
+    expect(sheet.getDataValidation({ row: 1, col: 4 })).toMatchObject({ type: 'decimal', operator: 'lessThan', formula1: '=$F$1' });
+    expect(sheet.getDataValidation({ row: 3, col: 3 })).toBeUndefined();
+  });
+
+  it('reports rules it cannot map as warnings', async () => {
+    const sheetXml = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="${MAIN_NS}">
+  <sheetData/>
+  <conditionalFormatting sqref="A1:A5"><cfRule type="expression" priority="1"><formula>A1&gt;0</formula></cfRule></conditionalFormatting>
+  <conditionalFormatting sqref="B1:B5"><cfRule type="iconSet" priority="2"><iconSet iconSet="3Unknown"><cfvo type="percent" val="0"/><cfvo type="percent" val="33"/><cfvo type="percent" val="67"/></iconSet></cfRule></conditionalFormatting>
+  <dataValidations count="1"><dataValidation type="bogus" sqref="C1"/></dataValidations>
+</worksheet>`;
+
+    const { workbook, warnings } = await importXLSX(buildXlsx(sheetXml));
+
+    expect(workbook.getSheet('Rules')!.getConditionalFormattingRules().map(r => r.type)).toEqual(['formula']);
+    expect(warnings).toEqual([
+      { sheet: 'Rules', ref: 'B1:B5', message: 'Unsupported icon set "3Unknown"' },
+      { sheet: 'Rules', ref: 'C1', message: 'Unsupported data validation type "bogus"' },
+    ]);
+  });
+
+  it('round-trips rules written by exportXLSX', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Round');
+    sheet.addConditionalFormattingRule({ type: 'top-bottom', mode: 'top', rankType: 'percent', rank: 10, ranges: [range(1, 1, 20, 1)], style: { fillColor: '#C6EFCE' } });
+    sheet.addConditionalFormattingRule({ type: 'data-bar', color: '#638EC6', gradient: false, ranges: [range(1, 2, 20, 2)] });
+    const thresholds = [
+      { value: 67, type: 'percent' as const, icon: '3-triangles:2', operator: '>=' as const },
+      { value: 33, type: 'percent' as const, icon: '3-triangles:1', operator: '>=' as const },
+      { value: 0, type: 'percent' as const, icon: '3-triangles:0', operator: '>=' as const },
+    ];
+    sheet.addConditionalFormattingRule({ type: 'icon-set', iconSet: '3-triangles', thresholds, ranges: [range(1, 3, 20, 3)] });
+    sheet.setDataValidation({ row: 1, col: 4 }, { type: 'textLength', operator: 'lessThanOrEqualTo', formula1: '10', allowBlank: true });
+
+    const { workbook, warnings } = await importXLSX(await exportXLSX(wb));
+    const sheet2 = workbook.getSheet('Round')!;
+    const rules = sheet2.getConditionalFormattingRules();
+
+    expect(warnings).toEqual([]);
+    expect(rules.find(r => r.type === 'top-bottom')).toMatchObject({ mode: 'top', rankType: 'percent', rank: 10, style: { fillColor: '#C6EFCE' } });
+    expect(rules.find(r => r.type === 'data-bar')).toMatchObject({ color: '#638EC6', gradient: false, ranges: [range(1, 2, 20, 2)] });
+    expect(rules.find(r => r.type === 'icon-set')).toMatchObject({ iconSet: '3-triangles', thresholds });
+    expect(sheet2.getDataValidation({ row: 1, col: 4 })).toMatchObject({ type: 'textLength', operator: 'lessThanOrEqualTo', formula1: '10' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * XLSX Export Fidelity
+ *
+ * Validates that exportXLSX writes more than computed values:
+ * 1. Formulas (<f>), including spill sources as array formulas, with
+ *    references on the same 1-based grid as the cells
+ * 2. Shared string table
+ * 3. Number formats (<numFmts>)
+ * 4. Merges, column widths, row heights, hidden rows/cols
+ * 5. Frozen panes (<sheetViews>)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook, FormulaEngine } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+import { importXLSX } from '../src/import';
+import { loadXlsxFromArrayBuffer } from '../src/index';
+import { exportParts, readParts } from './xlsx-parts';
+
+describe('XLSX Export Fidelity', () => {
+  it('writes formulas with their cached results', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Calc');
+    sheet.setCellValue({ row: 1, col: 1 }, 2);
+    sheet.setCellFormula({ row: 1, col: 2 }, '=A1*3', 6);
+    sheet.setCellFormula({ row: 2, col: 2 }, '=IF(A1>1,"big","small")', 'big');
+    sheet.setCellFormula({ row: 3, col: 2 }, '=1/0', '#DIV/0!');
+
+    const xml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toContain('<c r="B1"><f>A1*3</f><v>6</v></c>');
+    expect(xml).toContain('<c r="B2" t="str"><f>IF(A1&gt;1,&quot;big&quot;,&quot;small&quot;)</f><v>big</v></c>');
+    expect(xml).toContain('<c r="B3" t="e"><f>1/0</f><v>#DIV/0!</v></c>');
+  });
+
+  it('keeps formula references pointing at the neighbouring cell across export and import', async () => {
+    const wb = new Workbook();
+    wb.setFormulaEngine(new FormulaEngine() as any);
+    const sheet = wb.addSheet('Calc');
+    sheet.setCellValue({ row: 1, col: 1 }, 4);
+    sheet.setCellFormula({ row: 2, col: 1 }, '=A1*3');
+    wb.recalculate();
+
+    const buffer = await exportXLSX(wb);
+    const xml = readParts(buffer)['xl/worksheets/sheet1.xml'];
+    expect(xml).toContain('<c r="A1"><v>4</v></c>');
+    expect(xml).toContain('<c r="A2"><f>A1*3</f><v>12</v></c>');
+
+    const imported = (await importXLSX(buffer)).workbook;
+    imported.setFormulaEngine(new FormulaEngine() as any);
+    const sheet2 = imported.getSheet('Calc')!;
+    expect(sheet2.getCell({ row: 2, col: 1 })?.formula).toBe('=A1*3');
+    expect(sheet2.getCellValue({ row: 2, col: 1 })).toBe(12);
+
+    // A1, the cell the formula names, drives the recalculated result
+    sheet2.setCellValue({ row: 1, col: 1 }, 5);
+    imported.recalculate();
+    expect(sheet2.getCellValue({ row: 2, col: 1 })).toBe(15);
+  });
+
+  it('writes spill sources as array formulas over the spill range', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Spill');
+    sheet.setCellFormula({ row: 1, col: 1 }, '=SEQUENCE(3)', 1);
+    sheet.setSpillSource({ row: 1, col: 1 }, { dimensions: [3, 1], endAddress: { row: 3, col: 1 } });
+    sheet.setCellValue({ row: 2, col: 1 }, 2);
+    sheet.setSpilledFrom({ row: 2, col: 1 }, { row: 1, col: 1 });
+
+    const xml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toContain('<c r="A1"><f t="array" ref="A1:A3">SEQUENCE(3)</f><v>1</v></c>');
+    expect(xml).toContain('<c r="A2"><v>2</v></c>');
+  });
+
+  it('stores strings once in a shared string table', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Text');
+    sheet.setCellValue({ row: 1, col: 1 }, 'North');
+    sheet.setCellValue({ row: 2, col: 1 }, 'North');
+    sheet.setCellValue({ row: 3, col: 1 }, ' padded <b>');
+
+    const parts = await exportParts(wb);
+    const sst = parts['xl/sharedStrings.xml'];
+
+    expect(sst).toContain('count="3" uniqueCount="2"');
+    expect(sst).toContain('<si><t xml:space="preserve"> padded &lt;b&gt;</t></si>');
+    expect(parts['xl/worksheets/sheet1.xml']).toContain('<c r="A2" t="s"><v>0</v></c>');
+    expect(parts['xl/_rels/workbook.xml.rels']).toContain('Target="sharedStrings.xml"');
+    expect(parts['[Content_Types].xml']).toContain('/xl/sharedStrings.xml');
+
+    const sheet2 = loadXlsxFromArrayBuffer(new Uint8Array(await exportXLSX(wb))).getSheet('Text')!;
+    expect(sheet2.getCellValue({ row: 2, col: 1 })).toBe('North');
+  });
+
+  it('writes built-in and custom number formats', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Fmt');
+    sheet.setCellValue({ row: 1, col: 1 }, 0.25);
+    sheet.setCellStyle({ row: 1, col: 1 }, { numberFormat: '0.00%' });
+    sheet.setCellValue({ row: 2, col: 1 }, 1234.5);
+    sheet.setCellStyle({ row: 2, col: 1 }, { numberFormat: '"$"#,##0.00' });
+
+    const styles = (await exportParts(wb))['xl/styles.xml'];
+
+    expect(styles).toContain('<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>');
+    expect(styles).toContain('<xf numFmtId="10" fontId="0" fillId="0" borderId="0" applyNumberFormat="1">');
+    expect(styles).toContain('<xf numFmtId="164"');
+
+    const sheet2 = loadXlsxFromArrayBuffer(new Uint8Array(await exportXLSX(wb))).getSheet('Fmt')!;
+    expect(sheet2.getCellStyle({ row: 1, col: 1 })?.numberFormat).toBe('0.00%');
+  });
+
+  it('writes merges, sizes and hidden rows/cols', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Layout');
+    sheet.setCellValue({ row: 1, col: 1 }, 'Title');
+    sheet.mergeCells({ start: { row: 1, col: 1 }, end: { row: 1, col: 3 } });
+    sheet.setColumnWidth(2, 124);
+    sheet.hideCol(4);
+    sheet.setRowHeight(5, 40);
+    sheet.hideRow(6);
+
+    const xml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(xml).toContain('<mergeCells count="1"><mergeCell ref="A1:C1"/></mergeCells>');
+    expect(xml).toContain('<col min="2" max="2" width="17" customWidth="1"/>');
+    expect(xml).toMatch(/<col min="4" max="4" width="[\d.]+" hidden="1"\/>/);
+    expect(xml).toContain('<row r="5" ht="30" customHeight="1"/>');
+    expect(xml).toContain('<row r="6" hidden="1"/>');
+    // Schema order: cols before sheetData, mergeCells after it
+    expect(xml.indexOf('<cols>')).toBeLessThan(xml.indexOf('<sheetData>'));
+    expect(xml.indexOf('<mergeCells')).toBeGreaterThan(xml.indexOf('</sheetData>'));
+  });
+
+  it('writes frozen panes as a sheet view', async () => {
+    const wb = new Workbook();
+    wb.addSheet('Both').setFreezePanes(1, 2);
+    wb.addSheet('Rows').setFreezePanes(3, 0);
+    wb.addSheet('None');
+
+    const parts = await exportParts(wb);
+
+    expect(parts['xl/worksheets/sheet1.xml']).toContain(
+      '<pane xSplit="2" ySplit="1" topLeftCell="C2" activePane="bottomRight" state="frozen"/>'
+    );
+    expect(parts['xl/worksheets/sheet2.xml']).toContain(
+      '<pane ySplit="3" topLeftCell="A4" activePane="bottomLeft" state="frozen"/>'
+    );
+    expect(parts['xl/worksheets/sheet3.xml']).not.toContain('<sheetViews>');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * XLSX Hyperlinks
+ *
+ * Validates that cell hyperlinks travel through `<hyperlinks>`:
+ * 1. External targets become TargetMode="External" sheet relationships,
+ *    numbered after the sheet's table parts
+ * 2. Workbook locations are written as `location` without the `#`
+ * 3. Export → import keeps targets and tooltips; HYPERLINK() stays a formula
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+import { importXLSX } from '../src/import';
+import { buildXlsx, exportParts } from './xlsx-parts';
+
+/** Line items linking to invoices, a mailbox and the source sheet. */
+function buildWorkbook(): Workbook {
+  const wb = new Workbook();
+  const sheet = wb.addSheet('Report');
+  wb.addSheet('Source Docs');
+  sheet.setCellValue({ row: 1, col: 1 }, 'Item');
+  sheet.setCellValue({ row: 2, col: 1 }, 'Invoice 17');
+  sheet.setCellValue({ row: 3, col: 1 }, 'Billing');
+  sheet.setCellValue({ row: 4, col: 1 }, 'Ledger');
+  sheet.addTable({ start: { row: 1, col: 1 }, end: { row: 4, col: 1 } }, { name: 'Items' });
+  sheet.setHyperlink({ row: 2, col: 1 }, { target: 'https://example.com/invoice?id=17&v=2', tooltip: 'Open "invoice"' });
+  sheet.setHyperlink({ row: 3, col: 1 }, { target: 'mailto:billing@example.com' });
+  sheet.setHyperlink({ row: 4, col: 1 }, { target: "#'Source Docs'!B4" });
+  sheet.setCellFormula({ row: 5, col: 1 }, '=HYPERLINK("https://example.com", "Home")', 'Home');
+  return wb;
+}
+
+describe('XLSX Hyperlinks', () => {
+  it('writes external targets as relationships and locations inline', async () => {
+    const parts = await exportParts(buildWorkbook());
+    const sheetXml = parts['xl/worksheets/sheet1.xml'];
+    const rels = parts['xl/worksheets/_rels/sheet1.xml.rels'];
+
+    expect(sheetXml).toContain(
+      '<hyperlinks><hyperlink ref="A2" r:id="rId2" tooltip="Open &quot;invoice&quot;"/>' +
+      '<hyperlink ref="A3" r:id="rId3"/>' +
+      '<hyperlink ref="A4" location="\'Source Docs\'!B4"/></hyperlinks><tableParts'
+    );
+    expect(sheetXml).toContain('<f>HYPERLINK(&quot;https://example.com&quot;, &quot;Home&quot;)</f>');
+    expect(rels).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/table" Target="../tables/table1.xml"/>');
+    expect(rels).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/invoice?id=17&amp;v=2" TargetMode="External"/>');
+    expect(rels).toContain('Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="mailto:billing@example.com"');
+    expect(parts['xl/worksheets/_rels/sheet2.xml.rels']).toBeUndefined();
+  });
+
+  it('reads hyperlinks back with their tooltips', async () => {
+    const original = buildWorkbook();
+    const { workbook, warnings } = await importXLSX(await exportXLSX(original));
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(warnings).toEqual([]);
+    expect(sheet.getAllHyperlinks()).toEqual(original.getSheet('Report')!.getAllHyperlinks());
+    expect(sheet.getCellValue({ row: 2, col: 1 })).toBe('Invoice 17');
+    expect(sheet.getCell({ row: 5, col: 1 })?.formula).toBe('=HYPERLINK("https://example.com", "Home")');
+  });
+
+  it('joins fragments, expands ranges and reports refused targets', async () => {
+    const parts = await exportParts(buildWorkbook());
+    parts['xl/worksheets/sheet1.xml'] = parts['xl/worksheets/sheet1.xml'].replace(
+      /<hyperlinks>.*<\/hyperlinks>/,
+      '<hyperlinks><hyperlink ref="B1:B2" r:id="rId2" location="totals"/><hyperlink ref="C1" r:id="rId3"/></hyperlinks>'
+    );
+    parts['xl/worksheets/_rels/sheet1.xml.rels'] = parts['xl/worksheets/_rels/sheet1.xml.rels']
+      .replace('Target="mailto:billing@example.com"', 'Target="javascript:alert(1)"');
+
+    const { workbook, warnings } = await importXLSX(buildXlsx(parts));
+
+    const sheet = workbook.getSheet('Report')!;
+    expect(sheet.getAllHyperlinks()).toEqual([
+      { address: { row: 1, col: 2 }, hyperlink: { target: 'https://example.com/invoice?id=17&v=2#totals' } },
+      { address: { row: 2, col: 2 }, hyperlink: { target: 'https://example.com/invoice?id=17&v=2#totals' } },
+    ]);
+    expect(warnings).toEqual([{ sheet: 'Report', message: expect.stringContaining('Hyperlink was not imported') }]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * XLSX Import: Layout, Defined Names and Shared Formulas
+ *
+ * Validates that importXLSX applies to the created Worksheet/NameManager:
+ * 1. Merges, column widths, row heights, hidden rows/cols, frozen panes
+ * 2. Workbook- and sheet-scoped defined names (built-in _xlnm.* skipped)
+ * 3. Formulas, with shared formulas expanded per cell, cached results shown
+ *    until they recalculate
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook, FormulaEngine } from '@cyber-sheet/core';
+import { importXLSX } from '../src/import';
+import { exportXLSX } from '../src/export';
+import { buildXlsx as zipParts } from './xlsx-parts';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+function buildXlsx(workbookXml: string, sheets: string[]): ArrayBuffer {
+  const parts: Record<string, string> = { 'xl/workbook.xml': workbookXml };
+  sheets.forEach((xml, idx) => {
+    parts[`xl/worksheets/sheet${idx + 1}.xml`] = xml;
+  });
+  return zipParts(parts);
+}
+
+describe('XLSX Import: layout, names and formulas', () => {
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>
+    <sheet name="Report" sheetId="1" r:id="rId1"/>
+    <sheet name="Inputs" sheetId="2" r:id="rId2"/>
+  </sheets>
+  <definedNames>
+    <definedName name="_xlnm.Print_Area" localSheetId="0">Report!$A$1:$C$4</definedName>
+    <definedName name="Rate">Inputs!$A$1</definedName>
+    <definedName name="Local" localSheetId="1" comment="Q&amp;A">Inputs!$B$1:$B$3</definedName>
+  </definedNames>
+</workbook>`;
+
+  const reportXml = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="${MAIN_NS}">
+  <sheetViews><sheetView workbookViewId="0"><pane xSplit="1" ySplit="2" topLeftCell="B3" activePane="bottomRight" state="frozen"/></sheetView></sheetViews>
+  <cols><col min="1" max="1" width="17" customWidth="1"/><col min="3" max="4" width="9" hidden="1"/></cols>
+  <sheetData>
+    <row r="1" ht="30" customHeight="1"><c r="A1" t="inlineStr"><is><t>Title</t></is></c></row>
+    <row r="2"><c r="A2"><v>1</v></c><c r="B2"><f t="shared" ref="B2:B4" si="0">A2*Rate</f><v>2</v></c></row>
+    <row r="3"><c r="A3"><v>2</v></c><c r="B3"><f t="shared" si="0"/><v>4</v></c></row>
+    <row r="4" hidden="1"><c r="A4"><v>3</v></c><c r="B4"><f t="shared" si="0"/><v>6</v></c><c r="C4" t="str"><f>IF(A4&gt;2,"hi","lo")</f><v>hi</v></c></row>
+  </sheetData>
+  <mergeCells count="1"><mergeCell ref="A1:C1"/></mergeCells>
+</worksheet>`;
+
+  const inputsXml = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="${MAIN_NS}"><sheetData><row r="1"><c r="A1"><v>2</v></c></row></sheetData></worksheet>`;
+
+  it('applies merges, sizes, hidden rows/cols and frozen panes', async () => {
+    const { workbook } = await importXLSX(buildXlsx(workbookXml, [reportXml, inputsXml]));
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(sheet.getMergedRanges()).toEqual([{ start: { row: 1, col: 1 }, end: { row: 1, col: 3 } }]);
+    expect(sheet.getColumnWidth(1)).toBe(124);
+    expect(sheet.isColHidden(3)).toBe(true);
+    expect(sheet.isColHidden(4)).toBe(true);
+    expect(sheet.getRowHeight(1)).toBe(40);
+    expect(sheet.isRowHidden(4)).toBe(true);
+    expect(sheet.getFreezePanes()).toEqual({ rows: 2, cols: 1 });
+  });
+
+  it('skips merges when includeMerges is false', async () => {
+    const { workbook } = await importXLSX(buildXlsx(workbookXml, [reportXml, inputsXml]), { includeMerges: false });
+    expect(workbook.getSheet('Report')!.getMergedRanges()).toEqual([]);
+  });
+
+  it('imports defined names with their scope', async () => {
+    const { workbook, metadata } = await importXLSX(buildXlsx(workbookXml, [reportXml, inputsXml]));
+    const names = workbook.getNameManager();
+
+    expect(metadata.definedNames.map(n => n.name)).toEqual(['Rate', 'Local']);
+    expect(names.getName('Rate')?.refersTo).toBe('=Inputs!$A$1');
+    expect(names.getName('Local', 'Inputs')?.refersTo).toBe('=Inputs!$B$1:$B$3');
+    expect(names.getName('Local', 'Inputs')?.comment).toBe('Q&A');
+    expect(names.getName('Local')).toBeUndefined();
+  });
+
+  it('expands shared formulas with relative offsets and keeps cached values', async () => {
+    const { workbook } = await importXLSX(buildXlsx(workbookXml, [reportXml, inputsXml]));
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(sheet.getCell({ row: 2, col: 2 })?.formula).toBe('=A2*Rate');
+    expect(sheet.getCell({ row: 3, col: 2 })?.formula).toBe('=A3*Rate');
+    expect(sheet.getCell({ row: 4, col: 2 })?.formula).toBe('=A4*Rate');
+    expect(sheet.getCellValue({ row: 4, col: 2 })).toBe(6);
+    expect(sheet.getCell({ row: 4, col: 3 })?.formula).toBe('=IF(A4>2,"hi","lo")');
+    expect(sheet.getCellValue({ row: 4, col: 3 })).toBe('hi');
+    expect(sheet.getCellValue({ row: 1, col: 1 })).toBe('Title');
+  });
+
+  it('expands shared formulas whose master lies outside the viewport', async () => {
+    const { workbook } = await importXLSX(buildXlsx(workbookXml, [reportXml, inputsXml]), {
+      initialViewport: { startRow: 3, endRow: 4, startCol: 1, endCol: 4 },
+    });
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(sheet.getCell({ row: 2, col: 2 })).toBeUndefined();
+    expect(sheet.getCell({ row: 3, col: 2 })?.formula).toBe('=A3*Rate');
+  });
+
+  it('shows cached formula results and recalculates them live', async () => {
+    const sheetXml = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="${MAIN_NS}"><sheetData>
+  <row r="1"><c r="A1"><v>10</v></c><c r="B1"><f>A1*2</f><v>20</v></c></row>
+  <row r="2"><c r="A2"><v>7</v></c><c r="B2"><f>SUM(A1:A2)</f><v>17</v></c></row>
+</sheetData></worksheet>`;
+    const { workbook } = await importXLSX(buildXlsx(workbookXml, [sheetXml, inputsXml]));
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(sheet.getCell({ row: 1, col: 2 })?.formula).toBe('=A1*2');
+    expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(20);
+    expect(sheet.getCellValue({ row: 2, col: 2 })).toBe(17);
+
+    workbook.setFormulaEngine(new FormulaEngine() as any);
+    sheet.setCellValue({ row: 1, col: 1 }, 4);
+    workbook.recalculate();
+
+    expect(sheet.getCellValue({ row: 1, col: 2 })).toBe(8);
+    expect(sheet.getCellValue({ row: 2, col: 2 })).toBe(11);
+  });
+
+  it('round-trips layout written by exportXLSX', async () => {
+    const wb = new Workbook();
+    const sheet = wb.addSheet('Layout');
+    sheet.setCellValue({ row: 1, col: 1 }, 'Header');
+    sheet.setCellFormula({ row: 2, col: 1 }, '=LEN(A1)', 6);
+    sheet.mergeCells({ start: { row: 1, col: 1 }, end: { row: 1, col: 2 } });
+    sheet.setColumnWidth(2, 124);
+    sheet.hideRow(3);
+    sheet.setFreezePanes(1, 0);
+
+    const { workbook } = await importXLSX(await exportXLSX(wb));
+    const sheet2 = workbook.getSheet('Layout')!;
+
+    expect(sheet2.getCellValue({ row: 1, col: 1 })).toBe('Header');
+    expect(sheet2.getCell({ row: 2, col: 1 })?.formula).toBe('=LEN(A1)');
+    expect(sheet2.getCellValue({ row: 2, col: 1 })).toBe(6);
+    expect(sheet2.getMergedRanges()).toEqual([{ start: { row: 1, col: 1 }, end: { row: 1, col: 2 } }]);
+    expect(sheet2.getColumnWidth(2)).toBe(124);
+    expect(sheet2.isRowHidden(3)).toBe(true);
+    expect(sheet2.getFreezePanes()).toEqual({ rows: 1, cols: 0 });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * XLSX Outline
+ *
+ * Validates that row/column groups survive the file format:
+ * 1. Grouped rows and columns carry `outlineLevel`; the summary row/column
+ *    of a collapsed group carries `collapsed="1"`
+ * 2. `<sheetFormatPr>` records the deepest levels, `<sheetPr><outlinePr>`
+ *    the summary placement when it is not Excel's default
+ * 3. Export → import keeps levels, collapsed groups and hidden rows
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+import { importXLSX } from '../src/import';
+import { exportParts } from './xlsx-parts';
+
+/** A quarterly report: months 2–4 and 6–8 under subtotals 5 and 9, a grand total in 10. */
+function buildWorkbook(): Workbook {
+  const wb = new Workbook();
+  const sheet = wb.addSheet('Report');
+  sheet.setCellValue({ row: 1, col: 1 }, 'Month');
+  for (const row of [2, 3, 4, 6, 7, 8]) sheet.setCellValue({ row, col: 2 }, row * 100);
+  sheet.setCellFormula({ row: 5, col: 2 }, '=SUBTOTAL(9,B2:B4)', 900);
+  sheet.setCellFormula({ row: 9, col: 2 }, '=SUBTOTAL(9,B6:B8)', 2100);
+  sheet.setCellFormula({ row: 10, col: 2 }, '=SUBTOTAL(9,B2:B9)', 3000);
+  sheet.autoOutline();
+  sheet.collapseOutlineGroup('row', 7);
+  sheet.groupCols(3, 4);
+  return wb;
+}
+
+describe('XLSX Outline', () => {
+  it('writes outline levels and collapsed summaries', async () => {
+    const sheetXml = (await exportParts(buildWorkbook()))['xl/worksheets/sheet1.xml'];
+
+    expect(sheetXml).toContain('<sheetFormatPr defaultRowHeight="15" outlineLevelRow="2" outlineLevelCol="1"/><cols>');
+    expect(sheetXml).not.toContain('<sheetPr>');
+    expect(sheetXml).toMatch(/<row r="2" outlineLevel="2">/);
+    expect(sheetXml).toMatch(/<row r="5" outlineLevel="1">/);
+    expect(sheetXml).toMatch(/<row r="7" hidden="1" outlineLevel="2">/);
+    expect(sheetXml).toMatch(/<row r="9" outlineLevel="1" collapsed="1">/);
+    expect(sheetXml).toMatch(/<col min="3" max="3" width="[\d.]+" outlineLevel="1"\/>/);
+  });
+
+  it('writes summary placement as outlinePr', async () => {
+    const wb = buildWorkbook();
+    wb.getSheet('Report')!.setOutlineSettings({ summaryRowsBelow: false });
+    const sheetXml = (await exportParts(wb))['xl/worksheets/sheet1.xml'];
+
+    expect(sheetXml).toMatch(/<worksheet [^>]+>\s*<sheetPr><outlinePr summaryBelow="0"\/><\/sheetPr>/);
+    // The summary of rows 6–8 now sits above them, on row 5
+    expect(sheetXml).toMatch(/<row r="5" outlineLevel="1" collapsed="1">/);
+  });
+
+  it('reads the outline back', async () => {
+    const wb = buildWorkbook();
+    const original = wb.getSheet('Report')!;
+    const { workbook, warnings } = await importXLSX(await exportXLSX(wb));
+    const sheet = workbook.getSheet('Report')!;
+
+    expect(warnings).toEqual([]);
+    expect(sheet.getOutlineState()).toEqual(original.getOutlineState());
+    expect([...sheet.getHiddenRows()].sort()).toEqual([6, 7, 8]);
+
+    sheet.expandOutlineGroup('row', 7);
+    expect(sheet.getHiddenRows().size).toBe(0);
+  });
+
+  it('reads collapsed groups with summaries above', async () => {
+    const wb = buildWorkbook();
+    const original = wb.getSheet('Report')!;
+    original.setOutlineSettings({ summaryRowsBelow: false, summaryColumnsRight: false });
+    original.collapseOutlineGroup('col', 3);
+    const { workbook } = await importXLSX(await exportXLSX(wb));
+
+    expect(workbook.getSheet('Report')!.getOutlineState()).toEqual(original.getOutlineState());
+  });
+});
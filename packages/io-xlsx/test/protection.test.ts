@@ -0,0 +1,85 @@
+/**
+ * XLSX Protection
+ *
+ * Validates that protection survives the file format:
+ * 1. `<sheetProtection>` writes each allow* option as its inverted lock
+ *    attribute, with the stored password hash
+ * 2. Allow-edit ranges become `<protectedRanges>`; workbook structure
+ *    protection becomes `<workbookProtection>` ahead of `<sheets>`
+ * 3. Unlocked and hidden cells carry `<protection>` in their cell format
+ * 4. Export → import keeps all of it, and the passwords still verify
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook, createPasswordHash, verifyPassword } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+import { importXLSX } from '../src/import';
+import { exportParts } from './xlsx-parts';
+
+/** A quote template: locked sheet, one input range, a manager-only discount cell. */
+function buildWorkbook(): Workbook {
+  const wb = new Workbook();
+  const sheet = wb.addSheet('Quote');
+  wb.addSheet('Rates');
+  sheet.setCellValue({ row: 1, col: 1 }, 'Qty');
+  sheet.setCellValue({ row: 2, col: 1 }, 3);
+  sheet.setCellStyle({ row: 2, col: 1 }, { locked: false });
+  sheet.setCellFormula({ row: 3, col: 1 }, '=A2*10', 30);
+  sheet.setCellStyle({ row: 3, col: 1 }, { hidden: true });
+  sheet.addAllowEditRange({ name: 'Inputs', range: { start: { row: 2, col: 2 }, end: { row: 5, col: 3 } } });
+  sheet.addAllowEditRange({ name: 'Discount', range: { start: { row: 7, col: 2 }, end: { row: 7, col: 2 } }, password: createPasswordHash('manager', 1000) });
+  sheet.protectSheet({ allowFormatCells: true, allowSort: true, selectLockedCells: false, passwordHash: createPasswordHash('sheet', 1000) });
+  wb.protectWorkbook({ password: createPasswordHash('book', 1000) });
+  return wb;
+}
+
+describe('XLSX Protection', () => {
+  it('writes sheet, range, workbook and cell protection', async () => {
+    const parts = await exportParts(buildWorkbook());
+    const sheetXml = parts['xl/worksheets/sheet1.xml'];
+
+    expect(sheetXml).toMatch(
+      /<\/sheetData><sheetProtection algorithmName="SHA-512" hashValue="[^"]+" saltValue="[^"]+" spinCount="1000" sheet="1" formatCells="0" sort="0" selectLockedCells="1"\/>/
+    );
+    expect(sheetXml).toMatch(
+      /<protectedRanges><protectedRange name="Inputs" sqref="B2:C5"\/><protectedRange name="Discount" sqref="B7:B7" algorithmName="SHA-512" hashValue="[^"]+" saltValue="[^"]+" spinCount="1000"\/><\/protectedRanges>/
+    );
+    expect(parts['xl/worksheets/sheet2.xml']).not.toContain('sheetProtection');
+    expect(parts['xl/workbook.xml']).toMatch(
+      /<workbookProtection workbookAlgorithmName="SHA-512" workbookHashValue="[^"]+" workbookSaltValue="[^"]+" workbookSpinCount="1000" lockStructure="1"\/><sheets>/
+    );
+    expect(parts['xl/styles.xml']).toContain('applyProtection="1"><protection locked="0"/></xf>');
+    expect(parts['xl/styles.xml']).toContain('applyProtection="1"><protection hidden="1"/></xf>');
+  });
+
+  it('reads protection back', async () => {
+    const original = buildWorkbook();
+    const { workbook, warnings } = await importXLSX(await exportXLSX(original));
+    const sheet = workbook.getSheet('Quote')!;
+
+    expect(warnings).toEqual([]);
+    expect(sheet.getSheetProtection()).toEqual(original.getSheet('Quote')!.getSheetProtection());
+    expect(sheet.getAllowEditRanges()).toEqual(original.getSheet('Quote')!.getAllowEditRanges());
+    expect(workbook.getSheet('Rates')!.isSheetProtected()).toBe(false);
+    expect(sheet.getCellStyle({ row: 2, col: 1 })?.locked).toBe(false);
+    expect(sheet.getCellStyle({ row: 3, col: 1 })?.hidden).toBe(true);
+
+    expect(workbook.isStructureLocked()).toBe(true);
+    expect(() => workbook.addSheet('Notes')).toThrow(/workbook structure protection/);
+    expect(sheet.unlockAllowEditRange('Discount', 'manager')).toBe(true);
+    expect(verifyPassword('sheet', sheet.getSheetProtection()!.passwordHash!)).toBe(true);
+    expect(workbook.unprotectWorkbook('book')).toBe(true);
+  });
+
+  it('imports lazily loaded sheets protected', async () => {
+    const { workbook, loadSheet } = await importXLSX(await exportXLSX(buildWorkbook()), {
+      lazySheets: true,
+      initialViewport: { startRow: 1, endRow: 10, startCol: 1, endCol: 5 },
+    });
+    const sheet = await loadSheet('Quote');
+
+    expect(workbook.isStructureLocked()).toBe(true);
+    expect(sheet.isSheetProtected()).toBe(true);
+    expect(sheet.getAllowEditRanges().map(r => r.name)).toEqual(['Inputs', 'Discount']);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * XLSX Tables
+ *
+ * Validates that tables travel as `xl/tables/tableN.xml` parts:
+ * 1. Export writes the table part, the sheet relationship, `<tableParts>`
+ *    and the content type, with structured references in file form
+ * 2. Import resolves `<tablePart>` through the sheet rels and adds the table
+ * 3. Export → import keeps geometry, columns, totals and style
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Workbook } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+import { importXLSX } from '../src/import';
+import { buildXlsx, exportParts } from './xlsx-parts';
+
+/** Sales table at B2:D6 (header, three data rows, totals row). */
+function buildWorkbook(): Workbook {
+  const wb = new Workbook();
+  const sheet = wb.addSheet('Data');
+  wb.addSheet('Empty');
+  const rows: Array<[string, number, number]> = [['Pen', 2, 1.5], ['Pad', 3, 4], ['Ink', 1, 10]];
+  sheet.setCellValue({ row: 2, col: 2 }, 'Item');
+  sheet.setCellValue({ row: 2, col: 3 }, 'Qty');
+  sheet.setCellValue({ row: 2, col: 4 }, 'Unit Price');
+  rows.forEach(([item, qty, price], i) => {
+    sheet.setCellValue({ row: 3 + i, col: 2 }, item);
+    sheet.setCellValue({ row: 3 + i, col: 3 }, qty);
+    sheet.setCellValue({ row: 3 + i, col: 4 }, price);
+  });
+  sheet.addTable({ start: { row: 2, col: 2 }, end: { row: 5, col: 4 } }, {
+    name: 'Sales',
+    style: { name: 'TableStyleLight9', showColumnStripes: true },
+  });
+  sheet.setTableTotalsRow('Sales', true);
+  sheet.setTableColumnTotal('Sales', 'Item', 'none', 'Total');
+  sheet.setTableColumnTotal('Sales', 'Qty', 'sum');
+  sheet.setTableColumnFormula('Sales', 'Unit Price', '=[@Qty]*2');
+  return wb;
+}
+
+describe('XLSX Tables', () => {
+  it('writes a table part linked from its sheet', async () => {
+    const parts = await exportParts(buildWorkbook());
+    const table = parts['xl/tables/table1.xml'];
+
+    expect(table).toContain('id="1" name="Sales" displayName="Sales" ref="B2:D6" totalsRowCount="1"');
+    expect(table).toContain('<autoFilter ref="B2:D5"/>');
+    expect(table).toContain('<tableColumn id="1" name="Item" totalsRowLabel="Total"/>');
+    expect(table).toContain('<tableColumn id="2" name="Qty" totalsRowFunction="sum"/>');
+    expect(table).toContain('<calculatedColumnFormula>Sales[[#This Row],[Qty]]*2</calculatedColumnFormula>');
+    expect(table).toContain('<tableStyleInfo name="TableStyleLight9" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="1"/>');
+
+    expect(parts['xl/worksheets/sheet1.xml']).toContain('<tableParts count="1"><tablePart r:id="rId1"/></tableParts>');
+    expect(parts['xl/worksheets/sheet1.xml']).toContain('<f>SUBTOTAL(109,Sales[Qty])</f>');
+    expect(parts['xl/worksheets/_rels/sheet1.xml.rels']).toContain('Target="../tables/table1.xml"');
+    expect(parts['xl/worksheets/sheet2.xml']).not.toContain('tableParts');
+    expect(parts['xl/worksheets/_rels/sheet2.xml.rels']).toBeUndefined();
+    expect(parts['[Content_Types].xml']).toContain('<Override PartName="/xl/tables/table1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>');
+  });
+
+  it('reads tables back with their columns, totals and style', async () => {
+    const original = buildWorkbook();
+    const { workbook, warnings } = await importXLSX(await exportXLSX(original));
+
+    expect(warnings).toEqual([]);
+    const table = workbook.getSheet('Data')!.getTable('Sales');
+    expect(table).toEqual({
+      ...original.getSheet('Data')!.getTable('Sales'),
+      columns: [
+        { name: 'Item', totalsLabel: 'Total' },
+        { name: 'Qty', totalsFunction: 'sum' },
+        { name: 'Unit Price', formula: '=Sales[[#This Row],[Qty]]*2' },
+      ],
+    });
+    expect(workbook.getSheet('Empty')!.hasTables()).toBe(false);
+  });
+
+  it('reports tables that cannot be added and keeps their cells', async () => {
+    const parts = await exportParts(buildWorkbook());
+    // Tables share one namespace with defined names, which are imported first
+    parts['xl/workbook.xml'] = parts['xl/workbook.xml']
+      .replace('</sheets>', '</sheets><definedNames><definedName name="Sales">Data!$A$1</definedName></definedNames>');
+
+    const { workbook, warnings } = await importXLSX(buildXlsx(parts));
+
+    const sheet = workbook.getSheet('Data')!;
+    expect(sheet.hasTables()).toBe(false);
+    expect(sheet.getCellValue({ row: 2, col: 4 })).toBe('Unit Price');
+    expect(warnings).toEqual([{ sheet: 'Data', message: expect.stringContaining("Table 'Sales' was imported as a plain range") }]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Test helpers for reading and writing XLSX packages as plain XML parts
+ */
+
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import type { Workbook } from '@cyber-sheet/core';
+import { exportXLSX } from '../src/export';
+
+/** Package parts keyed by path, e.g. `xl/worksheets/sheet1.xml` */
+export type XlsxParts = Record<string, string>;
+
+/**
+ * Unzip an XLSX package into its parts
+ */
+export function readParts(buffer: ArrayBuffer | Uint8Array): XlsxParts {
+  const files = unzipSync(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+  const parts: XlsxParts = {};
+  for (const [path, data] of Object.entries(files)) parts[path] = strFromU8(data);
+  return parts;
+}
+
+/**
+ * Export a workbook and unzip the result
+ */
+export async function exportParts(wb: Workbook): Promise<XlsxParts> {
+  return readParts(await exportXLSX(wb));
+}
+
+/**
+ * Zip parts into an XLSX package
+ */
+export function buildXlsx(parts: XlsxParts): ArrayBuffer {
+  const files: Record<string, Uint8Array> = {};
+  for (const [path, xml] of Object.entries(parts)) files[path] = strToU8(xml);
+  const zipped = zipSync(files, { level: 6 });
+  return zipped.buffer.slice(zipped.byteOffset, zipped.byteOffset + zipped.byteLength) as ArrayBuffer;
+}
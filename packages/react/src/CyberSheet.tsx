@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Workbook, Worksheet, autoFill } from '@cyber-sheet/core';
+import { Workbook, Worksheet, applyAutoFill, formatValue } from '@cyber-sheet/core';
 // Import locally to ensure dev picks up latest CanvasRenderer implementation
 import { CanvasRenderer, CanvasRendererOptions } from '../../renderer-canvas/src';
 
@@ -346,11 +346,7 @@ export const CyberSheet = ({ workbook, sheetName, rendererOptions, style, physic
           // Only fill if we extended beyond source
           if (targetR2 > src.r2 || targetC2 > src.c2) {
             const targetRange = { r1: src.r2 + 1, c1: src.c1, r2: targetR2, c2: targetC2 };
-            const fillResult = autoFill(src, targetRange, (addr) => sheet.getCellValue(addr));
-            fillResult.forEach((value, key) => {
-              const [row, col] = key.split(':').map(Number);
-              sheet.setCellValue({ row, col }, value);
-            });
+            applyAutoFill(sheet, src, targetRange);
             // Reset selection to filled range
             const filled = { start: { row: src.r1, col: src.c1 }, end: { row: targetR2, col: targetC2 } };
             r.setSelections([filled]);
@@ -437,7 +433,8 @@ export const CyberSheet = ({ workbook, sheetName, rendererOptions, style, physic
                 const htmlTds: string[] = [];
                 for (let cIdx = boundC1; cIdx <= boundC2; cIdx++) {
                   const v = sheet.getCellValue({ row: rIdx, col: cIdx });
-                  const str = v == null ? '' : String(v);
+                  const fmt = sheet.getCellStyle({ row: rIdx, col: cIdx })?.numberFormat;
+                  const str = v == null ? '' : fmt && (typeof v === 'number' || typeof v === 'string') ? formatValue(v, fmt) : String(v);
                   cols.push(str);
                   htmlTds.push(`<td style="border:1px solid #D9D9D9;padding:2px 4px;white-space:pre;">${escapeHtml(str)}</td>`);
                 }
@@ -3,11 +3,16 @@
  * 
  * Formula bar component for editing and displaying cell formulas.
  * Provides a controlled interface for formula input with validation.
+ *
+ * Formulas are shown and typed in the syntax of `locale` (e.g. `=SUMME(A1;B1)`
+ * in de-DE); `cellFormula`, `onValueChange` and `onFormulaSubmit` always use
+ * the canonical en-US form.
  */
 
 import React, { useState, useEffect, useRef } from 'react';
 import type { Address, CellValue } from '@cyber-sheet/core';
-import type { FunctionRegistry } from '@cyber-sheet/core';
+import type { FunctionRegistry, FormulaLocale } from '@cyber-sheet/core';
+import { localizeFormula, delocalizeFormula } from '@cyber-sheet/core';
 import { FormulaAutocompletePanel } from './components/FormulaAutocompletePanel';
 
 export interface FormulaBarProps {
@@ -37,6 +42,8 @@ export interface FormulaBarProps {
   namedRanges?: Array<{ name: string; address: Address | string }>;
   /** Function registry for autocomplete */
   functionRegistry: FunctionRegistry;
+  /** Locale formulas are displayed and typed in (default: en-US) */
+  locale?: FormulaLocale;
   /** Custom class name */
   className?: string;
   /** Custom styles */
@@ -60,6 +67,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
   onInsertFunction,
   namedRanges = [],
   functionRegistry,
+  locale = 'en-US',
   className = '',
   style = {},
 }) => {
@@ -73,15 +81,18 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
   const nameBoxRef = useRef(null as HTMLInputElement | null);
   const containerRef = useRef(null as HTMLDivElement | null);
 
+  // Formulas are edited in the locale's syntax and stored canonically
+  const toDisplay = (text: string) => text.startsWith('=') ? localizeFormula(text, locale) : text;
+  const toCanonical = (text: string) => text.startsWith('=') ? delocalizeFormula(text, locale) : text;
+  const storedText = () => toDisplay(cellFormula || String(cellValue ?? ''));
+
   // Update input when cell selection changes or formula updates
   useEffect(() => {
-    const newValue = cellFormula || String(cellValue ?? '');
-    
     if (!isEditing) {
-      setInputValue(newValue);
-    } else if (isEditing && cellFormula && cellFormula !== inputValue) {
+      setInputValue(storedText());
+    } else if (isEditing && cellFormula && cellFormula !== toCanonical(inputValue)) {
       // Update during editing if formula changed externally (cell reference picking)
-      setInputValue(cellFormula);
+      setInputValue(toDisplay(cellFormula));
       // Move cursor to end
       if (inputRef.current) {
         setTimeout(() => {
@@ -95,7 +106,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
     }
     // Update name box with current cell reference
     setNameBoxValue(formatCellReference(selectedCell));
-  }, [cellFormula, cellValue, isEditing, selectedCell]);
+  }, [cellFormula, cellValue, isEditing, selectedCell, locale]);
 
   // Focus input when entering edit mode
   useEffect(() => {
@@ -108,7 +119,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setInputValue(value);
-    onValueChange?.(value);
+    onValueChange?.(toCanonical(value));
     
     // Update cursor position
     setCursorPosition(e.target.selectionStart || 0);
@@ -138,7 +149,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
     
     // Find the start of the current token
     let start = cursorPos - 1;
-    while (start >= 0 && /[A-Za-z0-9_.]/.test(currentValue[start])) {
+    while (start >= 0 && /[A-Za-z0-9_.\u00C0-\u024F\u0400-\u04FF]/.test(currentValue[start])) {
       start--;
     }
     start++;
@@ -150,7 +161,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
       currentValue.substring(cursorPos);
     
     setInputValue(newValue);
-    onValueChange?.(newValue);
+    onValueChange?.(toCanonical(newValue));
     setShowSuggestions(false);
     
     // Set cursor position after the opening paren
@@ -165,7 +176,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
 
   const handleSubmit = () => {
     if (inputValue.trim()) {
-      onFormulaSubmit(inputValue);
+      onFormulaSubmit(toCanonical(inputValue));
     }
     onEditModeChange(false);
   };
@@ -179,7 +190,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
         handleSubmit();
       } else if (e.key === 'Escape') {
         e.preventDefault();
-        setInputValue(cellFormula || String(cellValue ?? ''));
+        setInputValue(storedText());
         onEditModeChange(false);
       }
     } else if (e.key === 'Escape') {
@@ -220,7 +231,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
     
     // Small delay to allow clicks on suggestions to register
     setTimeout(() => {
-      if (isEditing && inputValue !== (cellFormula || String(cellValue ?? ''))) {
+      if (isEditing && inputValue !== storedText()) {
         handleSubmit();
       } else {
         onEditModeChange(false);
@@ -306,7 +317,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
   // === Cancel/Confirm Handlers ===
   
   const handleCancel = () => {
-    setInputValue(cellFormula || String(cellValue ?? ''));
+    setInputValue(storedText());
     onEditModeChange(false);
     setShowSuggestions(false);
   };
@@ -567,6 +578,7 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
           input={inputValue}
           cursorPosition={cursorPosition}
           functionRegistry={functionRegistry}
+          locale={locale}
           x={panelPosition.x}
           y={panelPosition.y}
           isVisible={showSuggestions}
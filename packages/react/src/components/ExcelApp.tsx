@@ -187,8 +187,8 @@ export const ExcelApp: React.FC<ExcelAppProps> = ({
   // Create formula engine for autocomplete
   const formulaEngine = useMemo(() => new FormulaEngine(), []);
 
-  // Create drawing layer instance
-  const drawingLayer = useMemo(() => new DrawingLayer(), []);
+  // Drawing layer of the active sheet, so drawn objects are saved with it
+  const drawingLayer = useMemo(() => workbook.activeSheet?.getDrawingLayer() ?? new DrawingLayer(), [workbook, activeSheet]);
   
   // Create clipboard service instance
   const clipboardService = useMemo(() => new ClipboardService(), []);
@@ -13,7 +13,7 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { FormulaAutocomplete, AutocompleteSuggestion } from '@cyber-sheet/core';
-import type { FunctionRegistry } from '@cyber-sheet/core';
+import type { FunctionRegistry, FormulaLocale } from '@cyber-sheet/core';
 
 export interface FormulaAutocompletePanelProps {
   /** Formula input value */
@@ -22,6 +22,8 @@ export interface FormulaAutocompletePanelProps {
   cursorPosition: number;
   /** Function registry for autocomplete */
   functionRegistry: FunctionRegistry;
+  /** Locale for function names and separators (default: en-US) */
+  locale?: FormulaLocale;
   /** X position (relative to formula bar) */
   x?: number;
   /** Y position (below formula bar) */
@@ -41,7 +43,7 @@ export interface FormulaAutocompletePanelProps {
  */
 function getCurrentToken(input: string, cursorPosition: number): string {
   let start = cursorPosition - 1;
-  while (start >= 0 && /[A-Za-z0-9_.]/.test(input[start])) {
+  while (start >= 0 && /[A-Za-z0-9_.\u00C0-\u024F\u0400-\u04FF]/.test(input[start])) {
     start--;
   }
   start++;
@@ -78,6 +80,7 @@ export const FormulaAutocompletePanel: React.FC<FormulaAutocompletePanelProps> =
   input,
   cursorPosition,
   functionRegistry,
+  locale = 'en-US',
   x = 0,
   y = 0,
   isVisible,
@@ -88,8 +91,8 @@ export const FormulaAutocompletePanel: React.FC<FormulaAutocompletePanelProps> =
   const [selectedIndex, setSelectedIndex] = useState<number>(0);
   const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
   const autocompleteEngine = useMemo(
-    () => new FormulaAutocomplete(functionRegistry),
-    [functionRegistry]
+    () => new FormulaAutocomplete(functionRegistry, locale),
+    [functionRegistry, locale]
   );
   const panelRef = useRef(null as HTMLDivElement | null);
   const selectedItemRef = useRef(null as HTMLDivElement | null);
@@ -25,6 +25,8 @@ import {
   TextToColumnsCommand,
   GroupOutlineCommand,
   UngroupOutlineCommand,
+  AutoOutlineCommand,
+  ClearOutlineCommand,
   FreezePanesCommand,
   SplitWindowCommand,
   SetZoomCommand,
@@ -48,6 +50,7 @@ import type {
   Address,
   Worksheet,
   SelectionStyleSummary,
+  CalculationMode,
 } from '@cyber-sheet/core';
 
 import { ClipboardGroup } from './ClipboardGroup';
@@ -141,7 +144,7 @@ export const ExcelRibbon: React.FC<ExcelRibbonProps> = ({
   const [activeTab, setActiveTab] = useState<RibbonTab>('home');
 
   // Drawing layer for Insert tab
-  const drawingLayer = useMemo(() => new DrawingLayer(), []);
+  const drawingLayer = useMemo(() => worksheet?.getDrawingLayer() ?? new DrawingLayer(), [worksheet]);
 
   // Page layout controller for Page Layout tab
   const pageLayoutController = useMemo(() => new PageLayoutController(), []);
@@ -149,8 +152,13 @@ export const ExcelRibbon: React.FC<ExcelRibbonProps> = ({
   // Name manager for Formulas tab
   const nameManager = useMemo(() => new NameManager(), []);
 
-  // Calculation controller for Formulas tab
-  const calculationController = useMemo(() => new CalculationController(), []);
+  // Calculation controller for Formulas tab (the workbook's own, so the
+  // buttons drive real recalculation)
+  const calculationController: CalculationController = useMemo(
+    () => workbook?.getCalculationController?.() ?? new CalculationController(),
+    [workbook]
+  );
+  const [calculationMode, setCalculationMode] = useState<CalculationMode>(calculationController.getMode());
 
   // Show formulas state
   const [showFormulas, setShowFormulas] = useState(false);
@@ -525,17 +533,15 @@ export const ExcelRibbon: React.FC<ExcelRibbonProps> = ({
           // Calculation
           onCalculationModeChange={(mode) => {
             calculationController.setMode(mode);
-            console.log('Calculation mode:', mode);
+            setCalculationMode(mode);
           }}
           onCalculateNow={() => {
             calculationController.calculateNow();
-            console.log('Calculate Now (F9)');
           }}
           onCalculateSheet={() => {
             calculationController.calculateSheet();
-            console.log('Calculate Sheet (Shift+F9)');
           }}
-          calculationMode={calculationController.getMode()}
+          calculationMode={calculationMode}
         />
       ) : activeTab === 'data' ? (
         <DataTab
@@ -592,17 +598,27 @@ export const ExcelRibbon: React.FC<ExcelRibbonProps> = ({
                   break;
                 
                 case 'group':
+                case 'groupOutline':
                   commandManager.execute(
                     new GroupOutlineCommand(sheet, command.range, command.axis)
                   );
                   break;
                 
                 case 'ungroup':
+                case 'ungroupOutline':
                   commandManager.execute(
                     new UngroupOutlineCommand(sheet, command.range, command.axis)
                   );
                   break;
                 
+                case 'autoOutline':
+                  commandManager.execute(new AutoOutlineCommand(sheet));
+                  break;
+                
+                case 'clearOutline':
+                  commandManager.execute(new ClearOutlineCommand(sheet));
+                  break;
+                
                 default:
                   console.warn('Unknown Data command:', command.type);
               }
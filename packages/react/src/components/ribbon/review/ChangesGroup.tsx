@@ -48,7 +48,7 @@ export const ChangesGroup: React.FC<ChangesGroupProps> = ({ workbook, selectedCe
 
   const handleToggleTrackChanges = () => {
     setShowTrackChangesDropdown(false);
-    const trackingEnabled = (workbook as any).trackChangesEnabled || false;
+    const trackingEnabled = workbook.getChangeTracker().isEnabled;
     onCommand?.({ type: 'trackChanges', enabled: !trackingEnabled });
     console.log('Track Changes:', !trackingEnabled ? 'enabled' : 'disabled');
   };
@@ -0,0 +1,32 @@
+/**
+ * format-cache.test.ts
+ * Cell display text for number format codes from imported workbooks
+ */
+
+import { FormatCache } from '../src/FormatCache';
+
+describe('FormatCache', () => {
+  const cache = new FormatCache('en-US');
+
+  it('formats custom date codes from serials', () => {
+    expect(cache.formatValue(44927, 'dddd, mmmm d, yyyy').text).toBe('Sunday, January 1, 2023');
+    expect(cache.formatValue(44927.5, 'yyyy-mm-dd h:mm AM/PM').text).toBe('2023-01-01 12:00 PM');
+  });
+
+  it('returns the color of the section used', () => {
+    expect(cache.formatValue(-5, '[Blue]0;[Red]0')).toEqual({ text: '5', color: '#FF0000' });
+    expect(cache.formatValue(5, '[Blue]0;[Red]0')).toEqual({ text: '5', color: '#0000FF' });
+  });
+
+  it('formats fractions and elapsed time', () => {
+    expect(cache.formatValue(1.75, '# ?/?').text).toBe('1 3/4');
+    expect(cache.formatValue(1.5, '[h]:mm').text).toBe('36:00');
+  });
+
+  it('uses General without a format and the text section for strings', () => {
+    expect(cache.formatValue(1234.5).text).toBe('1234.5');
+    expect(cache.formatValue('abc', '0;-0;0;"<"@">"').text).toBe('<abc>');
+    expect(cache.formatValue('abc').text).toBe('abc');
+    expect(cache.formatValue(null, '0.00').text).toBe('');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Frozen panes: the renderer splits into a frozen corner, frozen rows,
+ * frozen columns and the scrolling body. Geometry is checked through the
+ * public hit-testing and navigation API (default 80x20 cells, 48x24 headers).
+ */
+
+import { mockCanvas } from '@cyber-sheet/test-utils';
+import { Workbook } from '@cyber-sheet/core';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+
+function createRenderer(freezeRows: number, freezeCols: number, sheet = new Workbook().addSheet('Sheet1')): CanvasRenderer {
+  const container = document.createElement('div');
+  // 5 columns x 10 rows of cells besides the headers
+  Object.defineProperty(container, 'clientWidth', { value: 448 });
+  Object.defineProperty(container, 'clientHeight', { value: 224 });
+  sheet.setFreezePanes(freezeRows, freezeCols);
+  return new CanvasRenderer(container, sheet, { debug: false });
+}
+
+describe('CanvasRenderer frozen panes', () => {
+  beforeAll(() => {
+    mockCanvas();
+  });
+
+  describe('with 2 rows and 1 column frozen, scrolled by (160, 100)', () => {
+    let renderer: CanvasRenderer;
+
+    beforeEach(() => {
+      renderer = createRenderer(2, 1);
+      renderer.setScroll(160, 100);
+    });
+
+    it('hits cells in every pane', () => {
+      expect(renderer.cellAt(60, 30)).toEqual({ row: 1, col: 1 });
+      expect(renderer.cellAt(130, 30)).toEqual({ row: 1, col: 4 });
+      expect(renderer.cellAt(60, 70)).toEqual({ row: 8, col: 1 });
+      expect(renderer.cellAt(130, 70)).toEqual({ row: 8, col: 4 });
+    });
+
+    it('hits headers on both sides of the split', () => {
+      expect(renderer.hitTest(60, 10)).toEqual({ type: 'header-col', col: 1 });
+      expect(renderer.hitTest(126, 10)).toEqual({ type: 'col-resize', col: 1 });
+      expect(renderer.hitTest(150, 10)).toEqual({ type: 'header-col', col: 4 });
+      expect(renderer.hitTest(10, 30)).toEqual({ type: 'header-row', row: 1 });
+      expect(renderer.hitTest(10, 70)).toEqual({ type: 'header-row', row: 8 });
+    });
+
+    it('places editing overlays in the pane holding the cell', () => {
+      expect(renderer.getCellBounds({ row: 1, col: 1 })).toEqual({ x: 48, y: 24, width: 80, height: 20 });
+      expect(renderer.getCellBounds({ row: 1, col: 4 })).toEqual({ x: 128, y: 24, width: 80, height: 20 });
+      expect(renderer.getCellBounds({ row: 8, col: 4 })).toEqual({ x: 128, y: 64, width: 80, height: 20 });
+      // Scrolled under the frozen rows
+      expect(renderer.getCellBounds({ row: 5, col: 2 })).toBeNull();
+    });
+
+    it('reports the first body cell as the start of the visible range', () => {
+      expect(renderer.getVisibleRange().start).toEqual({ row: 8, col: 4 });
+    });
+  });
+
+  it('scrolls only the body, past the frozen panes', () => {
+    const renderer = createRenderer(2, 1);
+
+    renderer.scrollToCell({ row: 1, col: 10 });
+    expect(renderer.getScroll()).toEqual({ x: 400, y: 0 });
+
+    renderer.scrollToCell({ row: 3, col: 1 }, 'start');
+    expect(renderer.getScroll()).toEqual({ x: 400, y: 0 });
+
+    renderer.scrollToCell({ row: 20, col: 1 }, 'start');
+    expect(renderer.getScroll()).toEqual({ x: 400, y: 340 });
+  });
+
+  it('ignores the split once panes are unfrozen', () => {
+    const sheet = new Workbook().addSheet('Sheet1');
+    const renderer = createRenderer(2, 1, sheet);
+    renderer.setScroll(160, 100);
+    sheet.setFreezePanes(0, 0);
+
+    expect(renderer.cellAt(60, 30)).toEqual({ row: 6, col: 3 });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Outline gutters: row groups add a gutter left of the row headers, column
+ * groups one above the column headers, each a 16px lane per level plus one.
+ * Bars, +/- toggles and level buttons are checked through hit testing
+ * (default 80x20 cells, 48x24 headers).
+ */
+
+import { mockCanvas } from '@cyber-sheet/test-utils';
+import { Workbook, Worksheet } from '@cyber-sheet/core';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+
+function createRenderer(sheet: Worksheet): CanvasRenderer {
+  const container = document.createElement('div');
+  Object.defineProperty(container, 'clientWidth', { value: 448 });
+  Object.defineProperty(container, 'clientHeight', { value: 224 });
+  return new CanvasRenderer(container, sheet, { debug: false });
+}
+
+function click(renderer: CanvasRenderer, x: number, y: number) {
+  const canvas = (renderer as any).canvas as HTMLCanvasElement;
+  canvas.dispatchEvent(new MouseEvent('mousedown', { clientX: x, clientY: y, bubbles: true }));
+  canvas.dispatchEvent(new MouseEvent('mouseup', { clientX: x, clientY: y, bubbles: true }));
+}
+
+describe('CanvasRenderer outline', () => {
+  beforeAll(() => {
+    mockCanvas();
+  });
+
+  describe('with rows 2–4 grouped above a summary in row 5', () => {
+    let sheet: Worksheet;
+    let renderer: CanvasRenderer;
+
+    beforeEach(() => {
+      sheet = new Workbook().addSheet('Sheet1');
+      sheet.groupRows(2, 4);
+      renderer = createRenderer(sheet);
+    });
+
+    it('widens the row headers by the gutter', () => {
+      expect(renderer.optionsReadonly.headerWidth).toBe(80);
+      expect(renderer.cellAt(90, 30)).toEqual({ row: 1, col: 1 });
+      expect(renderer.getCellBounds({ row: 1, col: 1 })).toEqual({ x: 80, y: 24, width: 80, height: 20 });
+      expect(renderer.hitTest(60, 30)).toEqual({ type: 'header-row', row: 1 });
+      expect(renderer.hitTest(20, 30)).toBeNull();
+    });
+
+    it('hits level buttons and the toggle on the summary row', () => {
+      expect(renderer.hitTest(8, 12)).toEqual({ type: 'outline-level', axis: 'row', level: 1 });
+      expect(renderer.hitTest(24, 12)).toEqual({ type: 'outline-level', axis: 'row', level: 2 });
+      expect(renderer.hitTest(8, 114)).toEqual({
+        type: 'outline-toggle', axis: 'row', group: { start: 2, end: 4, level: 1, collapsed: false },
+      });
+    });
+
+    it('collapses the group from its toggle and skips the hidden rows', () => {
+      click(renderer, 8, 114);
+
+      expect(sheet.getOutlineGroups('row')[0].collapsed).toBe(true);
+      expect(renderer.cellAt(90, 50)).toEqual({ row: 5, col: 1 });
+      expect(renderer.hitTest(8, 54)).toEqual({
+        type: 'outline-toggle', axis: 'row', group: { start: 2, end: 4, level: 1, collapsed: true },
+      });
+
+      click(renderer, 8, 54);
+      expect(sheet.getHiddenRows().size).toBe(0);
+    });
+
+    it('shows a level from the level buttons', () => {
+      click(renderer, 8, 12);
+      expect([...sheet.getHiddenRows()].sort()).toEqual([2, 3, 4]);
+
+      click(renderer, 24, 12);
+      expect(sheet.getHiddenRows().size).toBe(0);
+    });
+
+    it('drops the gutter once the outline is cleared', () => {
+      sheet.clearOutline();
+
+      expect(renderer.optionsReadonly.headerWidth).toBe(48);
+      expect(renderer.cellAt(60, 30)).toEqual({ row: 1, col: 1 });
+    });
+  });
+
+  it('puts column groups above the column headers and skips hidden columns', () => {
+    const sheet = new Workbook().addSheet('Sheet1');
+    sheet.groupCols(2, 3);
+    const renderer = createRenderer(sheet);
+
+    expect(renderer.optionsReadonly.headerHeight).toBe(56);
+    expect(renderer.hitTest(24, 8)).toEqual({ type: 'outline-level', axis: 'col', level: 1 });
+    // Summary column D, right of the group
+    expect(renderer.hitTest(48 + 3 * 80 + 40, 8)).toEqual({
+      type: 'outline-toggle', axis: 'col', group: { start: 2, end: 3, level: 1, collapsed: false },
+    });
+
+    sheet.collapseOutlineGroup('col', 2);
+    expect(renderer.cellAt(48 + 80 + 10, 60)).toEqual({ row: 1, col: 4 });
+  });
+});
@@ -1,10 +1,11 @@
-import { Worksheet, Address, CellStyle, CellEvent, SheetEvents, resolveExcelColor, ExcelColorSpec, Emitter, assertInternedStyle, computeVerticalOffset } from '@cyber-sheet/core';
+import { Worksheet, Address, CellStyle, BorderEdge, FillSpec, CellEvent, CellHyperlink, SheetEvents, OutlineAxis, OutlineGroup, resolveExcelColor, ExcelColorSpec, Emitter, assertInternedStyle, computeVerticalOffset, findHyperlinkCall, parseHyperlinkLocation } from '@cyber-sheet/core';
 import { TextMeasureCache } from './TextMeasureCache';
 import { Theme, ExcelLightTheme, mergeTheme, ThemePresetName, resolveThemePreset } from './Theme';
 import { FormatCache } from './FormatCache';
 import { RenderPlugin } from './plugins';
 
 export type CanvasRendererOptions = {
+  // The rendered headers grow by an outline gutter while the sheet has row/column groups
   headerHeight?: number; // px
   headerWidth?: number; // px
   // Theme tokens
@@ -24,6 +25,9 @@ export type CanvasRendererOptions = {
   };
   onRequestColumnFilterMenu?: (info: { col: number; anchor: { x: number; y: number };
     values: Array<{ value: string; count: number }>; apply: (selected: string[]) => void; clear: () => void; }) => void;
+  // Open URLs and jump to same-sheet locations when a linked cell is clicked (default true).
+  // 'hyperlink-click' is emitted on the sheet either way.
+  followHyperlinks?: boolean;
 };
 
 export type RenderStage = 'background' | 'grid' | 'headers' | 'cells' | 'selection' | 'overlays' | 'after';
@@ -38,10 +42,45 @@ export type RenderLayer = {
   }) => void;
 };
 
+/**
+ * One side of the frozen-pane split along an axis, in viewport pixels.
+ * Column bands index columns by number; row bands index the visible-row list.
+ */
+type PaneBand = {
+  start: number; // clip edge where the band begins
+  end: number; // clip edge where the band ends
+  offset: number; // leading edge of the first item (before `start` when partly scrolled out)
+  first: number;
+  last: number;
+};
+
+/** Width of one lane in the outline gutters: a lane per level plus one for the deepest level button. */
+const OUTLINE_LANE = 16;
+/** Side of the +/- and level buttons, in px. */
+const OUTLINE_BUTTON = 11;
+
+/**
+ * Where one group's outline marks go along its axis: the bar beside its
+ * members (expanded groups only) and the +/- toggle on its summary row/column.
+ * Both are null while off-screen.
+ */
+type OutlineMark = {
+  group: OutlineGroup;
+  lane: number; // center of the group's lane across the gutter
+  bar: { from: number; to: number; cap: number } | null; // `cap` is the end away from the summary
+  toggle: number | null; // center of the toggle along the axis
+};
+
+type OutlineHit =
+  | { type: 'outline-level'; axis: OutlineAxis; level: number }
+  | { type: 'outline-toggle'; axis: OutlineAxis; group: OutlineGroup };
+
 export class CanvasRenderer {
   private container: HTMLElement;
   private sheet: Worksheet;
   private options: Required<CanvasRendererOptions>;
+  // Header sizes as configured; `options.headerWidth/headerHeight` also include the outline gutters
+  private baseHeaderSize: { width: number; height: number };
   private theme: Theme = ExcelLightTheme;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -140,7 +179,10 @@ export class CanvasRenderer {
       debug: options.debug ?? false,
       onRender: options.onRender,
       locale: options.locale ?? undefined,
+      followHyperlinks: options.followHyperlinks ?? true,
     } as Required<CanvasRendererOptions>;
+    this.baseHeaderSize = { width: this.options.headerWidth, height: this.options.headerHeight };
+    this.layoutOutlineGutters();
     this.theme = mergeTheme(ExcelLightTheme, this.options.theme);
     this.canvas = document.createElement('canvas');
     const ctx = this.canvas.getContext('2d');
@@ -163,11 +205,22 @@ export class CanvasRenderer {
       const t = (ev as any).type;
       if (t === 'cell-changed') this.clearValueCacheForColumn((ev as any).address.col);
       else if (t === 'sheet-mutated' || t === 'filter-changed') this.clearValueCacheForColumn();
-      // Invalidate cell region for style/comment/icon changes so visual updates (color, borders, indicators) appear
+      if (t === 'table-changed') {
+        const { before, after } = ev as Extract<SheetEvents, { type: 'table-changed' }>;
+        for (const table of [before, after]) {
+          if (table) this.invalidateRange(table.range.start.row, table.range.start.col, table.range.end.row, table.range.end.col);
+        }
+      }
+      // Invalidate cell region for style/comment/icon/link changes so visual updates (color, borders, indicators) appear
       if (t === 'style-changed') {
         const a = (ev as any).address; this.invalidateRange(a.row, a.col, a.row, a.col);
-      } else if (t === 'comment-added' || t === 'comment-updated' || t === 'comment-deleted' || t === 'icon-changed') {
+      } else if (t === 'comment-added' || t === 'comment-updated' || t === 'comment-deleted' || t === 'icon-changed' || t === 'hyperlink-changed') {
         const a = (ev as any).address; this.invalidateRange(a.row, a.col, a.row, a.col);
+      } else if (t === 'freeze-panes-changed' || t === 'outline-changed' || t === 'row-hidden' || t === 'row-shown' || t === 'col-hidden' || t === 'col-shown') {
+        // Pane split, outline gutters or hidden bands changed: every band and gridline shifts
+        if (t === 'outline-changed') this.layoutOutlineGutters();
+        this.gridLinesNeedRedraw = true;
+        this.invalidateRect(0, 0, this.canvas.width / this.dpr, this.canvas.height / this.dpr);
       }
     });
     this.redraw();
@@ -282,15 +335,21 @@ export class CanvasRenderer {
     const height = this.canvas.height / this.dpr;
     return { width: Math.max(0, width - this.options.headerWidth), height: Math.max(0, height - this.options.headerHeight) };
   }
-  // Visible rows considering filters (fallback to all rows)
+  // Visible rows considering filters and hidden rows (fallback to all rows)
   private getVisibleRows(): number[] {
     const anySheet: any = this.sheet as any;
-    if (typeof anySheet.getVisibleRowIndices === 'function') return anySheet.getVisibleRowIndices();
-    return Array.from({ length: this.sheet.rowCount }, (_, i) => i + 1);
+    const rows: number[] = typeof anySheet.getVisibleRowIndices === 'function'
+      ? anySheet.getVisibleRowIndices()
+      : Array.from({ length: this.sheet.rowCount }, (_, i) => i + 1);
+    return this.sheet.getHiddenRows().size ? rows.filter(r => !this.sheet.isRowHidden(r)) : rows;
+  }
+  // Column width before zoom; hidden columns (e.g. in a collapsed outline group) take no space
+  private columnWidth(col: number): number {
+    return this.sheet.isColHidden(col) ? 0 : this.sheet.getColumnWidth(col);
   }
   // The full content size based on row/column sizes (excluding headers), in CSS pixels.
   getContentSize(): { width: number; height: number } {
-    let w = 0; for (let c = 1; c <= this.sheet.colCount; c++) w += this.sheet.getColumnWidth(c) * this.zoom;
+    let w = 0; for (let c = 1; c <= this.sheet.colCount; c++) w += this.columnWidth(c) * this.zoom;
     let h = 0; 
     const visRows = this.getVisibleRows();
     for (const r of visRows) h += this.sheet.getRowHeight(r) * this.zoom;
@@ -402,10 +461,28 @@ export class CanvasRenderer {
    * Resolve Excel color specification to CSS color string
    * Handles theme colors, indexed colors, RGB, and direct CSS strings
    */
-  private resolveColor(color: string | ExcelColorSpec | undefined | null, defaultColor: string = '#000000'): string {
+  private resolveColor(color: FillSpec | BorderEdge | undefined | null, defaultColor: string = '#000000'): string {
     if (!color) return defaultColor;
     if (typeof color === 'string') return color;
-    return resolveExcelColor(color, { defaultColor });
+    // Pattern fills paint with their foreground, gradients with their first stop, border edges with their color
+    if ('type' in color) return this.resolveColor(color.type === 'pattern' ? color.fgColor : color.stops[0]?.color, defaultColor);
+    if ('color' in color || 'style' in color) return this.resolveColor((color as BorderEdge).color, defaultColor);
+    return resolveExcelColor(color as ExcelColorSpec, { defaultColor });
+  }
+
+  private isHyperlinkCell(addr: Address): boolean {
+    const cell = this.sheet.getCell(addr);
+    return !!cell?.hyperlink || (!!cell?.formula && findHyperlinkCall(cell.formula) !== null);
+  }
+
+  private drawUnderline(ctx: CanvasRenderingContext2D, x: number, baseline: number, width: number, fontSize: number, color: string) {
+    const offset = Math.max(1, fontSize * 0.12);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(1, fontSize * 0.07);
+    ctx.beginPath();
+    ctx.moveTo(x, baseline + offset);
+    ctx.lineTo(x + width, baseline + offset);
+    ctx.stroke();
   }
   
   /**
@@ -473,36 +550,44 @@ export class CanvasRenderer {
     ctx.strokeStyle = gridColor;
     ctx.lineWidth = 1;
     
-    const { firstRow, firstCol, xOffset, yOffset } = this.visibleRange();
-    
-    // Vertical gridlines (columns)
-    let x = xOffset;
-    let col = firstCol;
-    while (x < width && col <= this.sheet.colCount) {
-      const cw = this.sheet.getColumnWidth(col) * this.zoom;
-      const px = Math.round(x + cw) + 0.5;
-      ctx.beginPath();
-      ctx.moveTo(px, headerHeight);
-      ctx.lineTo(px, height);
-      ctx.stroke();
-      x += cw;
-      col++;
+    const panes = this.paneBands(width, height);
+    
+    // Vertical gridlines (columns), frozen band first
+    for (const band of panes.cols) {
+      let x = band.offset;
+      let col = band.first;
+      while (x < band.end && col <= band.last) {
+        const cw = this.columnWidth(col) * this.zoom;
+        const px = Math.round(x + cw) + 0.5;
+        if (px >= band.start) {
+          ctx.beginPath();
+          ctx.moveTo(px, headerHeight);
+          ctx.lineTo(px, height);
+          ctx.stroke();
+        }
+        x += cw;
+        col++;
+      }
     }
     
     // Horizontal gridlines (rows - respect filters)
     const visRows = this.getVisibleRows();
-    let y = yOffset;
-    let rowIndex = (this.visibleRange().firstRowIndex ?? 0);
-    while (y < height && rowIndex < visRows.length) {
-      const row = visRows[rowIndex];
-      const rh = this.sheet.getRowHeight(row) * this.zoom;
-      const py = Math.round(y + rh) + 0.5;
-      ctx.beginPath();
-      ctx.moveTo(headerWidth, py);
-      ctx.lineTo(width, py);
-      ctx.stroke();
-      y += rh;
-      rowIndex++;
+    for (const band of panes.rows) {
+      let y = band.offset;
+      let rowIndex = band.first;
+      while (y < band.end && rowIndex <= band.last) {
+        const row = visRows[rowIndex];
+        const rh = this.sheet.getRowHeight(row) * this.zoom;
+        const py = Math.round(y + rh) + 0.5;
+        if (py >= band.start) {
+          ctx.beginPath();
+          ctx.moveTo(headerWidth, py);
+          ctx.lineTo(width, py);
+          ctx.stroke();
+        }
+        y += rh;
+        rowIndex++;
+      }
     }
     
     ctx.restore();
@@ -587,28 +672,63 @@ export class CanvasRenderer {
     }
   }
 
+  // First row/col of the scrolling body (after any frozen panes) and where it starts in the viewport
   private visibleRange(): { firstRow: number; firstCol: number; xOffset: number; yOffset: number; firstRowIndex?: number } {
-    let x = this.options.headerWidth;
-    let y = this.options.headerHeight;
-    let col = 1;
     const rows = this.getVisibleRows();
-    let rowIndex = 0;
+    const frozen = this.freezeLayout(rows);
+    let x = this.options.headerWidth + frozen.width;
+    let y = this.options.headerHeight + frozen.height;
+    let col = frozen.cols + 1;
+    let rowIndex = frozen.rowCount;
     let sx = this.scrollX;
     let sy = this.scrollY;
     while (sx > 0 && col <= this.sheet.colCount) {
-      const w = this.sheet.getColumnWidth(col) * this.zoom;
+      const w = this.columnWidth(col) * this.zoom;
       if (sx < w) { x -= sx; break; }
-      sx -= w; col++; x = this.options.headerWidth;
+      sx -= w; col++;
     }
     while (sy > 0 && rowIndex < rows.length) {
       const rh = this.sheet.getRowHeight(rows[rowIndex]) * this.zoom;
       if (sy < rh) { y -= sy; break; }
-      sy -= rh; rowIndex++; y = this.options.headerHeight;
+      sy -= rh; rowIndex++;
     }
     const firstRow = rows[rowIndex] ?? 1;
     return { firstRow, firstCol: col, xOffset: x, yOffset: y, firstRowIndex: rowIndex };
   }
 
+  // Frozen rows/cols from the sheet and the space they take. Filtered-out frozen rows take none;
+  // `rowCount` is how many entries of the visible-row list are frozen.
+  private freezeLayout(visRows: number[] = this.getVisibleRows()): { rows: number; cols: number; rowCount: number; width: number; height: number } {
+    const freeze = this.sheet.getFreezePanes();
+    const rows = freeze?.rows ?? 0;
+    const cols = Math.min(freeze?.cols ?? 0, this.sheet.colCount);
+    let width = 0;
+    for (let c = 1; c <= cols; c++) width += this.columnWidth(c) * this.zoom;
+    let rowCount = 0; let height = 0;
+    while (rowCount < visRows.length && visRows[rowCount] <= rows) {
+      height += this.sheet.getRowHeight(visRows[rowCount]) * this.zoom;
+      rowCount++;
+    }
+    return { rows, cols, rowCount, width, height };
+  }
+
+  // Column and row bands to draw: the frozen pane (if any) that ignores scrolling, then the scrolling body
+  private paneBands(width: number, height: number): { cols: PaneBand[]; rows: PaneBand[] } {
+    const { headerWidth, headerHeight } = this.options;
+    const visRows = this.getVisibleRows();
+    const frozen = this.freezeLayout(visRows);
+    const body = this.visibleRange();
+    const bodyLeft = headerWidth + frozen.width;
+    const bodyTop = headerHeight + frozen.height;
+    const cols: PaneBand[] = [];
+    const rows: PaneBand[] = [];
+    if (frozen.cols > 0) cols.push({ start: headerWidth, end: Math.min(bodyLeft, width), offset: headerWidth, first: 1, last: frozen.cols });
+    if (bodyLeft < width) cols.push({ start: bodyLeft, end: width, offset: body.xOffset, first: body.firstCol, last: this.sheet.colCount });
+    if (frozen.rowCount > 0) rows.push({ start: headerHeight, end: Math.min(bodyTop, height), offset: headerHeight, first: 0, last: frozen.rowCount - 1 });
+    if (bodyTop < height) rows.push({ start: bodyTop, end: height, offset: body.yOffset, first: body.firstRowIndex ?? frozen.rowCount, last: visRows.length - 1 });
+    return { cols, rows };
+  }
+
   redraw() {
     console.log('🎨 [CanvasRenderer] redraw() called, dirty rect:', this.dirty, 'dirtyCells:', this.dirtyCells.size);
     const t0 = performance.now();
@@ -695,18 +815,20 @@ export class CanvasRenderer {
       ctx.fillRect(0, 0, width, headerHeight);
       ctx.fillRect(0, 0, headerWidth, height);
       
-      // Draw select-all button (top-left corner) with triangle icon
+      // Draw select-all button (top-left corner, inside any outline gutters) with triangle icon
+      const cornerX = headerWidth - this.baseHeaderSize.width;
+      const cornerY = headerHeight - this.baseHeaderSize.height;
       ctx.fillStyle = headerBg;
       ctx.fillRect(0, 0, headerWidth, headerHeight);
       ctx.strokeStyle = gridColor;
-      ctx.strokeRect(0, 0, headerWidth, headerHeight);
+      ctx.strokeRect(cornerX, cornerY, this.baseHeaderSize.width, this.baseHeaderSize.height);
       
       // Draw triangle icon (like Excel's select-all)
       ctx.fillStyle = '#666666';
       ctx.beginPath();
       const triSize = 6;
-      const triX = headerWidth / 2;
-      const triY = headerHeight / 2;
+      const triX = cornerX + this.baseHeaderSize.width / 2;
+      const triY = cornerY + this.baseHeaderSize.height / 2;
       ctx.moveTo(triX - triSize / 2, triY + triSize / 3);
       ctx.lineTo(triX + triSize / 2, triY + triSize / 3);
       ctx.lineTo(triX + triSize / 2, triY - triSize / 3);
@@ -722,379 +844,408 @@ export class CanvasRenderer {
       // grid lines and headers
   ctx.strokeStyle = gridColor;
       ctx.lineWidth = 1;
-      const { firstRow, firstCol, xOffset, yOffset } = this.visibleRange();
+      const panes = this.paneBands(width, height);
       this.drawLayers('grid', ctx, width, height);
 
-      // Column headers
-      let x = xOffset; let col = firstCol;
+      // Column headers, band by band so frozen columns stay put (their gridlines run the full height)
+      let x = 0; let col = 1;
   ctx.fillStyle = headerFg;
-      if (clip) { while (x + this.sheet.getColumnWidth(col) * this.zoom < clip.x && col <= this.sheet.colCount) { x += this.sheet.getColumnWidth(col) * this.zoom; col++; } }
-      while (x < width && col <= this.sheet.colCount) {
-        const cw = this.sheet.getColumnWidth(col) * this.zoom;
-        if (clip && x > (clip.x + clip.w)) break;
-  ctx.fillText(this.colLabel(col), x + cw / 2 - ctx.measureText(this.colLabel(col)).width / 2, headerHeight / 2 + this.theme.fontSize / 2 - 2);
-        const px = Math.round(x + cw) + 0.5; ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, height); ctx.stroke();
-        x += cw; col++;
+      for (const band of panes.cols) {
+        ctx.save(); ctx.beginPath(); ctx.rect(band.start, 0, band.end - band.start, height); ctx.clip();
+        x = band.offset; col = band.first;
+        if (clip) { while (x + this.columnWidth(col) * this.zoom < clip.x && col <= band.last) { x += this.columnWidth(col) * this.zoom; col++; } }
+        while (x < band.end && col <= band.last) {
+          const cw = this.columnWidth(col) * this.zoom;
+          if (clip && x > (clip.x + clip.w)) break;
+          if (cw === 0) { col++; continue; }
+          ctx.fillText(this.colLabel(col), x + cw / 2 - ctx.measureText(this.colLabel(col)).width / 2, headerHeight - this.baseHeaderSize.height / 2 + this.theme.fontSize / 2 - 2);
+          const px = Math.round(x + cw) + 0.5; ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, height); ctx.stroke();
+          x += cw; col++;
+        }
+        ctx.restore();
       }
 
       // Row headers (respect filters)
       const visRows = this.getVisibleRows();
-      let y = yOffset; let rowIndex = (this.visibleRange().firstRowIndex ?? 0);
-      if (clip) { while (rowIndex < visRows.length && y + this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom < clip.y) { y += this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom; rowIndex++; } }
-      while (y < height && rowIndex < visRows.length) {
-        const row = visRows[rowIndex];
-        const rh = this.sheet.getRowHeight(row) * this.zoom;
-        if (clip && y > (clip.y + clip.h)) break;
-        const label = String(row);
-  ctx.fillText(label, headerWidth - 4 - ctx.measureText(label).width, y + rh / 2 + this.theme.fontSize / 2 - 2);
-        const py = Math.round(y + rh) + 0.5; ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(width, py); ctx.stroke();
-        y += rh; rowIndex++;
+      let y = 0; let rowIndex = 0;
+      for (const band of panes.rows) {
+        ctx.save(); ctx.beginPath(); ctx.rect(0, band.start, width, band.end - band.start); ctx.clip();
+        y = band.offset; rowIndex = band.first;
+        if (clip) { while (rowIndex <= band.last && y + this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom < clip.y) { y += this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom; rowIndex++; } }
+        while (y < band.end && rowIndex <= band.last) {
+          const row = visRows[rowIndex];
+          const rh = this.sheet.getRowHeight(row) * this.zoom;
+          if (clip && y > (clip.y + clip.h)) break;
+          const label = String(row);
+          ctx.fillText(label, headerWidth - 4 - ctx.measureText(label).width, y + rh / 2 + this.theme.fontSize / 2 - 2);
+          const py = Math.round(y + rh) + 0.5; ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(width, py); ctx.stroke();
+          y += rh; rowIndex++;
+        }
+        ctx.restore();
       }
+      this.drawOutline(ctx, width, height);
       this.drawLayers('headers', ctx, width, height);
 
-      // Cells (respect filters)
-      y = yOffset; rowIndex = (this.visibleRange().firstRowIndex ?? 0);
-  if (clip) { while (rowIndex < visRows.length && y + this.sheet.getRowHeight(visRows[rowIndex]) * this.getZoom() < clip.y) { y += this.sheet.getRowHeight(visRows[rowIndex]) * this.getZoom(); rowIndex++; } }
-      while (y < height && rowIndex < visRows.length) {
-        const row = visRows[rowIndex];
-        x = xOffset; col = firstCol;
-        if (clip) { while (x + this.sheet.getColumnWidth(col) * this.zoom < clip.x && col <= this.sheet.colCount) { x += this.sheet.getColumnWidth(col) * this.zoom; col++; } }
-        const rh = this.sheet.getRowHeight(row) * this.zoom;
-        while (x < width && col <= this.sheet.colCount) {
-          if (clip && y > (clip.y + clip.h)) break;
-          const cw = this.sheet.getColumnWidth(col) * this.zoom;
-          if (clip && x > (clip.x + clip.w)) break;
-          const addr = { row, col };
-          const merged = (this.sheet as any).getMergedRangeForCell?.(addr);
-          let spanW = cw, spanH = rh, isAnchor = true;
-          if (merged) {
-            isAnchor = addr.row === merged.start.row && addr.col === merged.start.col;
-            if (isAnchor) {
-              spanW = 0; for (let c = merged.start.col; c <= merged.end.col; c++) spanW += this.sheet.getColumnWidth(c) * this.zoom;
-              spanH = 0; for (let r2 = merged.start.row; r2 <= merged.end.row; r2++) spanH += this.sheet.getRowHeight(r2) * this.zoom;
-            }
-          }
-          const v = this.sheet.getCellValue(addr);
-          const style: CellStyle | undefined = this.sheet.getCellStyle(addr);
-
-          // Phase 1 UI: Validate style is interned (dev mode only)
-          // Prevents ecosystem integration drift (React, XLSX, toolbar mutations)
-          assertInternedStyle(style, 'CanvasRenderer.renderCells');
-
-          // Apply plugin-based heatmap background
-          let pluginBg: string | undefined;
-          for (const plugin of this.plugins) {
-            if (plugin.getCellBackground) {
-              const bg = plugin.getCellBackground({ 
-                addr, 
-                value: v, 
-                style, 
-                min: this.heatmapRange?.min, 
-                max: this.heatmapRange?.max 
-              });
-              if (bg) { pluginBg = bg; break; }
-            }
-          }
-          
-          if (isAnchor && pluginBg) {
-            ctx.fillStyle = pluginBg;
-            ctx.fillRect(x + 1, y + 1, (merged ? spanW : cw) - 2, (merged ? spanH : rh) - 2);
-          } else if (isAnchor && style?.fill) {
-            // Resolve Excel color to CSS string
-            let fillColor = this.resolveColor(style.fill, '#FFFFFF');
-            // Apply color transform plugins
-            for (const plugin of this.plugins) {
-              if (plugin.transformColor) {
-                fillColor = plugin.transformColor(fillColor, { addr, value: v, style });
+      // Cells (respect filters), one pane at a time: frozen corner, frozen rows, frozen columns, body
+      for (const rowBand of panes.rows) for (const colBand of panes.cols) {
+        ctx.save(); ctx.beginPath(); ctx.rect(colBand.start, rowBand.start, colBand.end - colBand.start, rowBand.end - rowBand.start); ctx.clip();
+        y = rowBand.offset; rowIndex = rowBand.first;
+        if (clip) { while (rowIndex <= rowBand.last && y + this.sheet.getRowHeight(visRows[rowIndex]) * this.getZoom() < clip.y) { y += this.sheet.getRowHeight(visRows[rowIndex]) * this.getZoom(); rowIndex++; } }
+        while (y < rowBand.end && rowIndex <= rowBand.last) {
+          const row = visRows[rowIndex];
+          x = colBand.offset; col = colBand.first;
+          if (clip) { while (x + this.columnWidth(col) * this.zoom < clip.x && col <= colBand.last) { x += this.columnWidth(col) * this.zoom; col++; } }
+          const rh = this.sheet.getRowHeight(row) * this.zoom;
+          while (x < colBand.end && col <= colBand.last) {
+            if (clip && y > (clip.y + clip.h)) break;
+            const cw = this.columnWidth(col) * this.zoom;
+            if (clip && x > (clip.x + clip.w)) break;
+            if (cw === 0) { col++; continue; }
+            const addr = { row, col };
+            const merged = (this.sheet as any).getMergedRangeForCell?.(addr);
+            let spanW = cw, spanH = rh, isAnchor = true;
+            if (merged) {
+              isAnchor = addr.row === merged.start.row && addr.col === merged.start.col;
+              if (isAnchor) {
+                spanW = 0; for (let c = merged.start.col; c <= merged.end.col; c++) spanW += this.columnWidth(c) * this.zoom;
+                spanH = 0; for (let r2 = merged.start.row; r2 <= merged.end.row; r2++) spanH += this.sheet.getRowHeight(r2) * this.zoom;
               }
             }
-            ctx.fillStyle = fillColor;
-            ctx.fillRect(x + 1, y + 1, (merged ? spanW : cw) - 2, (merged ? spanH : rh) - 2);
-          }
-          if (style?.border) {
-            ctx.lineWidth = 1; const bw = merged ? spanW : cw; const bh = merged ? spanH : rh;
-            if (!merged || isAnchor) {
-              // Apply color transform to borders
-              const transformBorder = (color?: string | ExcelColorSpec) => {
-                if (!color) return null;
-                // Resolve Excel color first
-                let resolved = this.resolveColor(color, '#000000');
-                // Apply plugin transforms
-                for (const plugin of this.plugins) {
-                  if (plugin.transformColor) {
-                    resolved = plugin.transformColor(resolved, { addr, value: v, style });
-                  }
-                }
-                return resolved;
-              };
-              if (style.border.top) { ctx.strokeStyle = transformBorder(style.border.top)!; ctx.beginPath(); ctx.moveTo(x, y + 0.5); ctx.lineTo(x + bw, y + 0.5); ctx.stroke(); }
-              if (style.border.bottom) { ctx.strokeStyle = transformBorder(style.border.bottom)!; ctx.beginPath(); ctx.moveTo(x, y + bh + 0.5); ctx.lineTo(x + bw, y + bh + 0.5); ctx.stroke(); }
-              if (style.border.left) { ctx.strokeStyle = transformBorder(style.border.left)!; ctx.beginPath(); ctx.moveTo(x + 0.5, y); ctx.lineTo(x + 0.5, y + bh); ctx.stroke(); }
-              if (style.border.right) { ctx.strokeStyle = transformBorder(style.border.right)!; ctx.beginPath(); ctx.moveTo(x + bw + 0.5, y); ctx.lineTo(x + bw + 0.5, y + bh); ctx.stroke(); }
-              if (style.border.diagonalDown) { ctx.strokeStyle = transformBorder(style.border.diagonalDown)!; ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + bw, y + bh); ctx.stroke(); }
-              if (style.border.diagonalUp) { ctx.strokeStyle = transformBorder(style.border.diagonalUp)!; ctx.beginPath(); ctx.moveTo(x, y + bh); ctx.lineTo(x + bw, y); ctx.stroke(); }
-            }
-          }
+            const v = this.sheet.getCellValue(addr);
+            const ownStyle: CellStyle | undefined = this.sheet.getCellStyle(addr);
 
-          if (isAnchor && v !== null && v !== undefined && v !== '') {
-            const fontSize = style?.fontSize ?? this.theme.fontSize;
-            const fontFamily = style?.fontFamily ?? this.theme.fontFamily;
-            let font = `${style?.italic ? 'italic ' : ''}${style?.bold ? 'bold ' : ''}${fontSize}px ${fontFamily}`;
-            
-            // Apply custom font transform
+            // Phase 1 UI: Validate style is interned (dev mode only)
+            // Prevents ecosystem integration drift (React, XLSX, toolbar mutations)
+            assertInternedStyle(ownStyle, 'CanvasRenderer.renderCells');
+
+            // Table banding sits underneath the cell's own formatting
+            const tableStyle = this.sheet.getTableCellStyle(addr);
+            const style: CellStyle | undefined = tableStyle ? { ...tableStyle, ...ownStyle } : ownStyle;
+
+            // Apply plugin-based heatmap background
+            let pluginBg: string | undefined;
             for (const plugin of this.plugins) {
-              if (plugin.transformFont) {
-                font = plugin.transformFont(font, { addr, value: v, style });
+              if (plugin.getCellBackground) {
+                const bg = plugin.getCellBackground({ 
+                  addr, 
+                  value: v, 
+                  style, 
+                  min: this.heatmapRange?.min, 
+                  max: this.heatmapRange?.max 
+                });
+                if (bg) { pluginBg = bg; break; }
               }
             }
-            
-            ctx.font = font;
-            // Per-cell formatted string cache: address + fmt + primitive identity
-            const key = `${addr.row}:${addr.col}|${style?.numberFormat ?? ''}|${typeof v === 'number' ? v : String(v)}`;
-            let cached = this.valueFmtCache.get(key);
-            let fmtResult: { text: string; color?: string };
-            if (cached) {
-              fmtResult = JSON.parse(cached);
-            } else {
-              fmtResult = this.formatCache.formatValue(v, style?.numberFormat);
-              this.valueFmtCache.set(key, JSON.stringify(fmtResult));
-            }
-            const text = fmtResult.text;
-            // Apply color from format if present, else use cell style color, then resolve Excel colors and apply plugins
-            let textColor = this.resolveColor(fmtResult.color ?? style?.color, '#000000');
-            for (const plugin of this.plugins) {
-              if (plugin.transformColor) {
-                textColor = plugin.transformColor(textColor, { addr, value: v, style });
+          
+            if (isAnchor && pluginBg) {
+              ctx.fillStyle = pluginBg;
+              ctx.fillRect(x + 1, y + 1, (merged ? spanW : cw) - 2, (merged ? spanH : rh) - 2);
+            } else if (isAnchor && style?.fill) {
+              // Resolve Excel color to CSS string
+              let fillColor = this.resolveColor(style.fill, '#FFFFFF');
+              // Apply color transform plugins
+              for (const plugin of this.plugins) {
+                if (plugin.transformColor) {
+                  fillColor = plugin.transformColor(fillColor, { addr, value: v, style });
+                }
               }
+              ctx.fillStyle = fillColor;
+              ctx.fillRect(x + 1, y + 1, (merged ? spanW : cw) - 2, (merged ? spanH : rh) - 2);
             }
-            ctx.fillStyle = textColor;
-            const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh; const maxWidth = Math.max(0, drawW - 8);
-            let tx = x + 4;
-            // Compute vertical offset using layout function (pure layout concern)
-            let ty = y + computeVerticalOffset(style?.valign, drawH, fontSize, fontSize, 2, 4) - fontSize / 2 + 2;
-            const align = style?.align ?? this.formatCache.preferredAlign(v, style?.numberFormat);
-            let textWidth = this.textCache.get(font, text); if (textWidth === undefined) { textWidth = ctx.measureText(text).width; this.textCache.set(font, text, textWidth); }
-            // Shrink-to-fit scaling if specified (tolerate style flag if present)
-            const shrinkFlag = (style as any)?.shrinkToFit;
-            const shrink = shrinkFlag ? this.formatCache.getTextScale(font, text, maxWidth, textWidth as number) : 1;
-            if (shrink !== 1) {
-              ctx.save();
-              const cx = x + (drawW / 2);
-              const cy = y + (drawH / 2);
-              ctx.translate(cx, cy);
-              ctx.scale(shrink, shrink);
-              // After scaling, recompute tx relative to scaled center
-              let localTx = -drawW / 2 + 4;
-              if (align === 'right') localTx = drawW / 2 - 4 - (textWidth as number);
-              else if (align === 'center') localTx = -(textWidth as number) / 2;
-              // Compute vertical offset using layout function (scaled context)
-              const valignOffset = computeVerticalOffset(style?.valign, drawH, fontSize, fontSize, 2, 4);
-              let localTy = valignOffset - drawH / 2 - fontSize / 2 + 2;
-              ctx.beginPath(); ctx.rect(-drawW / 2 + 1, -drawH / 2 + 1, drawW - 2, drawH - 2); ctx.clip();
-              ctx.fillText(text, localTx, localTy, maxWidth);
-              ctx.restore();
-              x += this.sheet.getColumnWidth(col); col++;
-              continue;
-            }
-            // Phase 1 UI: Apply indent (left-align only)
-            let indentOffset = 0;
-            if (style?.indent && align === 'left') {
-              indentOffset = (style.indent) * 8; // ~8px per indent level
+            if (style?.border) {
+              ctx.lineWidth = 1; const bw = merged ? spanW : cw; const bh = merged ? spanH : rh;
+              if (!merged || isAnchor) {
+                // Apply color transform to borders
+                const transformBorder = (color?: BorderEdge | string | ExcelColorSpec) => {
+                  if (!color) return null;
+                  // Resolve Excel color first
+                  let resolved = this.resolveColor(color, '#000000');
+                  // Apply plugin transforms
+                  for (const plugin of this.plugins) {
+                    if (plugin.transformColor) {
+                      resolved = plugin.transformColor(resolved, { addr, value: v, style });
+                    }
+                  }
+                  return resolved;
+                };
+                if (style.border.top) { ctx.strokeStyle = transformBorder(style.border.top)!; ctx.beginPath(); ctx.moveTo(x, y + 0.5); ctx.lineTo(x + bw, y + 0.5); ctx.stroke(); }
+                if (style.border.bottom) { ctx.strokeStyle = transformBorder(style.border.bottom)!; ctx.beginPath(); ctx.moveTo(x, y + bh + 0.5); ctx.lineTo(x + bw, y + bh + 0.5); ctx.stroke(); }
+                if (style.border.left) { ctx.strokeStyle = transformBorder(style.border.left)!; ctx.beginPath(); ctx.moveTo(x + 0.5, y); ctx.lineTo(x + 0.5, y + bh); ctx.stroke(); }
+                if (style.border.right) { ctx.strokeStyle = transformBorder(style.border.right)!; ctx.beginPath(); ctx.moveTo(x + bw + 0.5, y); ctx.lineTo(x + bw + 0.5, y + bh); ctx.stroke(); }
+                if (style.border.diagonalDown) { ctx.strokeStyle = transformBorder(style.border.diagonalDown)!; ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + bw, y + bh); ctx.stroke(); }
+                if (style.border.diagonalUp) { ctx.strokeStyle = transformBorder(style.border.diagonalUp)!; ctx.beginPath(); ctx.moveTo(x, y + bh); ctx.lineTo(x + bw, y); ctx.stroke(); }
+              }
             }
+
+            if (isAnchor && v !== null && v !== undefined && v !== '') {
+              const fontSize = style?.fontSize ?? this.theme.fontSize;
+              const fontFamily = style?.fontFamily ?? this.theme.fontFamily;
+              let font = `${style?.italic ? 'italic ' : ''}${style?.bold ? 'bold ' : ''}${fontSize}px ${fontFamily}`;
             
-            if (align === 'right') tx = x + drawW - 4 - (textWidth as number) + indentOffset; else if (align === 'center') tx = x + drawW / 2 - (textWidth as number) / 2; else if (indentOffset > 0) tx += indentOffset;
-            const wrap = !!style?.wrap; const overflow = style?.textOverflow ?? 'clip';
-            ctx.save(); ctx.beginPath(); ctx.rect(x + 1, y + 1, drawW - 2, drawH - 2); ctx.clip();
-            
-            // Phase 1 UI: Superscript/Subscript font scaling (fast path: check before computing)
-            const hasScript = style?.superscript || style?.subscript;
-            let scriptScale = 1;
-            let scriptOffsetY = 0;
-            if (hasScript) {
-              scriptScale = 0.7; // 70% of normal font size
-              const metrics = ctx.measureText(text);
-              const ascent = metrics.actualBoundingBoxAscent || fontSize * 0.8;
-              scriptOffsetY = style.superscript ? -ascent * 0.4 : ascent * 0.2;
-            }
+              // Apply custom font transform
+              for (const plugin of this.plugins) {
+                if (plugin.transformFont) {
+                  font = plugin.transformFont(font, { addr, value: v, style });
+                }
+              }
             
-            if (style?.rotation && style.rotation !== 0) {
-              const angle = (style.rotation * Math.PI) / 180; const cx = x + (drawW / 2); const cy = y + (drawH / 2);
-              ctx.save(); ctx.translate(cx, cy); ctx.rotate(angle); 
-              if (hasScript) {
-                ctx.save();
-                ctx.scale(scriptScale, scriptScale);
-                const rx = -(textWidth as number) / 2 / scriptScale; 
-                const ry = fontSize / 2 / scriptScale + scriptOffsetY / scriptScale;
-                ctx.fillText(text, rx, ry);
-                ctx.restore();
+              ctx.font = font;
+              // Per-cell formatted string cache: address + fmt + primitive identity
+              const key = `${addr.row}:${addr.col}|${style?.numberFormat ?? ''}|${typeof v === 'number' ? v : String(v)}`;
+              let cached = this.valueFmtCache.get(key);
+              let fmtResult: { text: string; color?: string };
+              if (cached) {
+                fmtResult = JSON.parse(cached);
               } else {
-                const rx = -(textWidth as number) / 2; const ry = fontSize / 2; 
-                ctx.fillText(text, rx, ry); 
+                fmtResult = this.formatCache.formatValue(v, style?.numberFormat);
+                this.valueFmtCache.set(key, JSON.stringify(fmtResult));
               }
-              ctx.restore();
-            } else if (!wrap) {
-              let toDraw = text;
-              if (overflow === 'ellipsis' && (textWidth as number) > maxWidth) {
-                let lo = 0, hi = text.length;
-                while (lo < hi) { const mid = Math.floor((lo + hi) / 2); const s = text.slice(0, mid) + '…'; const w2 = this.textCache.get(font, s) ?? ctx.measureText(s).width; if (w2 <= maxWidth) { lo = mid + 1; this.textCache.set(font, s, w2); } else { hi = mid; } }
-                toDraw = text.slice(0, Math.max(0, lo - 1)) + '…';
+              const text = fmtResult.text;
+              // Linked cells take the hyperlink color unless the format or style sets one
+              const isLink = this.isHyperlinkCell(addr);
+              // Apply color from format if present, else use cell style color, then resolve Excel colors and apply plugins
+              let textColor = this.resolveColor(fmtResult.color ?? style?.color, isLink ? this.theme.hyperlinkColor : '#000000');
+              for (const plugin of this.plugins) {
+                if (plugin.transformColor) {
+                  textColor = plugin.transformColor(textColor, { addr, value: v, style });
+                }
               }
-              
-              // Apply superscript/subscript if present
-              if (hasScript) {
+              ctx.fillStyle = textColor;
+              const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh; const maxWidth = Math.max(0, drawW - 8);
+              let tx = x + 4;
+              // Compute vertical offset using layout function (pure layout concern)
+              let ty = y + computeVerticalOffset(style?.valign, drawH, fontSize, fontSize, 2, 4) - fontSize / 2 + 2;
+              const align = style?.align ?? this.formatCache.preferredAlign(v, style?.numberFormat);
+              let textWidth = this.textCache.get(font, text); if (textWidth === undefined) { textWidth = ctx.measureText(text).width; this.textCache.set(font, text, textWidth); }
+              // Shrink-to-fit scaling if specified (tolerate style flag if present)
+              const shrinkFlag = (style as any)?.shrinkToFit;
+              const shrink = shrinkFlag ? this.formatCache.getTextScale(font, text, maxWidth, textWidth as number) : 1;
+              if (shrink !== 1) {
                 ctx.save();
-                ctx.scale(scriptScale, scriptScale);
-                ctx.fillText(toDraw, tx / scriptScale, (ty + scriptOffsetY) / scriptScale, maxWidth / scriptScale);
+                const cx = x + (drawW / 2);
+                const cy = y + (drawH / 2);
+                ctx.translate(cx, cy);
+                ctx.scale(shrink, shrink);
+                // After scaling, recompute tx relative to scaled center
+                let localTx = -drawW / 2 + 4;
+                if (align === 'right') localTx = drawW / 2 - 4 - (textWidth as number);
+                else if (align === 'center') localTx = -(textWidth as number) / 2;
+                // Compute vertical offset using layout function (scaled context)
+                const valignOffset = computeVerticalOffset(style?.valign, drawH, fontSize, fontSize, 2, 4);
+                let localTy = valignOffset - drawH / 2 - fontSize / 2 + 2;
+                ctx.beginPath(); ctx.rect(-drawW / 2 + 1, -drawH / 2 + 1, drawW - 2, drawH - 2); ctx.clip();
+                ctx.fillText(text, localTx, localTy, maxWidth);
                 ctx.restore();
-              } else {
-                ctx.fillText(toDraw, tx, ty, maxWidth);
+                x += this.columnWidth(col); col++;
+                continue;
               }
-              
-              // Phase 1 UI: Strikethrough rendering (fast path: only if property is true)
-              if (style?.strikethrough) {
-                const metrics = ctx.measureText(toDraw);
-                const strikeY = ty - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3;
-                const strikeWidth = (typeof metrics.width === 'number') ? metrics.width : (textWidth as number);
-                ctx.strokeStyle = textColor;
-                ctx.lineWidth = Math.max(1, fontSize * 0.08); // ~8% of font size
-                ctx.beginPath();
-                ctx.moveTo(tx, strikeY);
-                ctx.lineTo(tx + strikeWidth * scriptScale, strikeY);
-                ctx.stroke();
+              // Phase 1 UI: Apply indent (left-align only)
+              let indentOffset = 0;
+              if (style?.indent && align === 'left') {
+                indentOffset = (style.indent) * 8; // ~8px per indent level
               }
-            } else {
-              const raw = String(text); const paragraphs = raw.split(/\n/); const words = paragraphs.flatMap((p, i) => (i > 0 ? ['\n', ...p.split(/\s+/)] : p.split(/\s+/)));
-              const lines: string[] = []; let line = '';
-              for (const wtoken of words) { if (wtoken === '\n') { if (line) { lines.push(line); line = ''; } continue; } const candidate = line ? line + ' ' + wtoken : wtoken; const cw = this.textCache.get(font, candidate) ?? ctx.measureText(candidate).width; if (cw <= maxWidth || !line) { line = candidate; this.textCache.set(font, candidate, cw); } else { lines.push(line); line = wtoken; } }
-              if (line) lines.push(line);
-              // Compute vertical offset using layout function (multi-line case)
-              const totalH = lines.length * (fontSize + 2);
-              let lineY = y + computeVerticalOffset(style?.valign, drawH, totalH, fontSize, 2, 4) - fontSize;
-              const startX = align === 'center' ? (x + drawW / 2) : (align === 'right' ? (x + drawW - 4) : (x + 4 + indentOffset));
-              
-              // Phase 1 UI: Apply superscript/subscript to wrapped text (fast path: only if needed)
+            
+              if (align === 'right') tx = x + drawW - 4 - (textWidth as number) + indentOffset; else if (align === 'center') tx = x + drawW / 2 - (textWidth as number) / 2; else if (indentOffset > 0) tx += indentOffset;
+              const wrap = !!style?.wrap; const overflow = style?.textOverflow ?? 'clip';
+              ctx.save(); ctx.beginPath(); ctx.rect(x + 1, y + 1, drawW - 2, drawH - 2); ctx.clip();
+            
+              // Phase 1 UI: Superscript/Subscript font scaling (fast path: check before computing)
+              const hasScript = style?.superscript || style?.subscript;
+              let scriptScale = 1;
+              let scriptOffsetY = 0;
               if (hasScript) {
-                ctx.save();
-                ctx.scale(scriptScale, scriptScale);
+                scriptScale = 0.7; // 70% of normal font size
+                const metrics = ctx.measureText(text);
+                const ascent = metrics.actualBoundingBoxAscent || fontSize * 0.8;
+                scriptOffsetY = style.superscript ? -ascent * 0.4 : ascent * 0.2;
               }
+            
+              if (style?.rotation && style.rotation !== 0) {
+                const angle = (style.rotation * Math.PI) / 180; const cx = x + (drawW / 2); const cy = y + (drawH / 2);
+                ctx.save(); ctx.translate(cx, cy); ctx.rotate(angle); 
+                if (hasScript) {
+                  ctx.save();
+                  ctx.scale(scriptScale, scriptScale);
+                  const rx = -(textWidth as number) / 2 / scriptScale; 
+                  const ry = fontSize / 2 / scriptScale + scriptOffsetY / scriptScale;
+                  ctx.fillText(text, rx, ry);
+                  ctx.restore();
+                } else {
+                  const rx = -(textWidth as number) / 2; const ry = fontSize / 2; 
+                  ctx.fillText(text, rx, ry); 
+                }
+                ctx.restore();
+              } else if (!wrap) {
+                let toDraw = text;
+                if (overflow === 'ellipsis' && (textWidth as number) > maxWidth) {
+                  let lo = 0, hi = text.length;
+                  while (lo < hi) { const mid = Math.floor((lo + hi) / 2); const s = text.slice(0, mid) + '…'; const w2 = this.textCache.get(font, s) ?? ctx.measureText(s).width; if (w2 <= maxWidth) { lo = mid + 1; this.textCache.set(font, s, w2); } else { hi = mid; } }
+                  toDraw = text.slice(0, Math.max(0, lo - 1)) + '…';
+                }
               
-              for (const ln of lines) { 
-                let lx = startX; 
-                const lw = this.textCache.get(font, ln) ?? ctx.measureText(ln).width; 
-                if (align === 'center') lx -= (lw as number) / 2; 
-                else if (align === 'right') lx -= (lw as number); 
-                
-                const finalLx = hasScript ? lx / scriptScale : lx;
-                const finalLineY = hasScript ? (lineY + scriptOffsetY) / scriptScale : lineY;
-                const finalMaxWidth = hasScript ? maxWidth / scriptScale : maxWidth;
-                
-                ctx.fillText(ln, finalLx, finalLineY, finalMaxWidth); 
-                
-                // Phase 1 UI: Strikethrough for wrapped lines (fast path: only if property is true)
+                // Apply superscript/subscript if present
+                if (hasScript) {
+                  ctx.save();
+                  ctx.scale(scriptScale, scriptScale);
+                  ctx.fillText(toDraw, tx / scriptScale, (ty + scriptOffsetY) / scriptScale, maxWidth / scriptScale);
+                  ctx.restore();
+                } else {
+                  ctx.fillText(toDraw, tx, ty, maxWidth);
+                }
+
+                if (isLink) {
+                  const linkWidth = this.textCache.get(font, toDraw) ?? ctx.measureText(toDraw).width;
+                  this.drawUnderline(ctx, tx, ty, Math.min(linkWidth * scriptScale, maxWidth), fontSize, textColor);
+                }
+              
+                // Phase 1 UI: Strikethrough rendering (fast path: only if property is true)
                 if (style?.strikethrough) {
-                  const metrics = ctx.measureText(ln);
-                  const strikeY = hasScript 
-                    ? (lineY + scriptOffsetY - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3) / scriptScale
-                    : lineY - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3;
-                  const strikeWidth = (typeof metrics.width === 'number') ? metrics.width : (lw as number);
+                  const metrics = ctx.measureText(toDraw);
+                  const strikeY = ty - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3;
+                  const strikeWidth = (typeof metrics.width === 'number') ? metrics.width : (textWidth as number);
                   ctx.strokeStyle = textColor;
-                  ctx.lineWidth = Math.max(1, fontSize * 0.08) / (hasScript ? scriptScale : 1);
+                  ctx.lineWidth = Math.max(1, fontSize * 0.08); // ~8% of font size
                   ctx.beginPath();
-                  ctx.moveTo(finalLx, strikeY);
-                  ctx.lineTo(finalLx + strikeWidth, strikeY);
+                  ctx.moveTo(tx, strikeY);
+                  ctx.lineTo(tx + strikeWidth * scriptScale, strikeY);
                   ctx.stroke();
                 }
+              } else {
+                const raw = String(text); const paragraphs = raw.split(/\n/); const words = paragraphs.flatMap((p, i) => (i > 0 ? ['\n', ...p.split(/\s+/)] : p.split(/\s+/)));
+                const lines: string[] = []; let line = '';
+                for (const wtoken of words) { if (wtoken === '\n') { if (line) { lines.push(line); line = ''; } continue; } const candidate = line ? line + ' ' + wtoken : wtoken; const cw = this.textCache.get(font, candidate) ?? ctx.measureText(candidate).width; if (cw <= maxWidth || !line) { line = candidate; this.textCache.set(font, candidate, cw); } else { lines.push(line); line = wtoken; } }
+                if (line) lines.push(line);
+                // Compute vertical offset using layout function (multi-line case)
+                const totalH = lines.length * (fontSize + 2);
+                let lineY = y + computeVerticalOffset(style?.valign, drawH, totalH, fontSize, 2, 4) - fontSize;
+                const startX = align === 'center' ? (x + drawW / 2) : (align === 'right' ? (x + drawW - 4) : (x + 4 + indentOffset));
+              
+                // Phase 1 UI: Apply superscript/subscript to wrapped text (fast path: only if needed)
+                if (hasScript) {
+                  ctx.save();
+                  ctx.scale(scriptScale, scriptScale);
+                }
+              
+                for (const ln of lines) { 
+                  let lx = startX; 
+                  const lw = this.textCache.get(font, ln) ?? ctx.measureText(ln).width; 
+                  if (align === 'center') lx -= (lw as number) / 2; 
+                  else if (align === 'right') lx -= (lw as number); 
                 
-                lineY += fontSize + 2; 
-                if (lineY > y + drawH) break; 
-              }
+                  const finalLx = hasScript ? lx / scriptScale : lx;
+                  const finalLineY = hasScript ? (lineY + scriptOffsetY) / scriptScale : lineY;
+                  const finalMaxWidth = hasScript ? maxWidth / scriptScale : maxWidth;
+                
+                  ctx.fillText(ln, finalLx, finalLineY, finalMaxWidth); 
+                  if (isLink) this.drawUnderline(ctx, finalLx, finalLineY, Math.min(lw as number, finalMaxWidth), fontSize, textColor);
+                
+                  // Phase 1 UI: Strikethrough for wrapped lines (fast path: only if property is true)
+                  if (style?.strikethrough) {
+                    const metrics = ctx.measureText(ln);
+                    const strikeY = hasScript 
+                      ? (lineY + scriptOffsetY - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3) / scriptScale
+                      : lineY - (metrics.actualBoundingBoxAscent || fontSize * 0.8) * 0.3;
+                    const strikeWidth = (typeof metrics.width === 'number') ? metrics.width : (lw as number);
+                    ctx.strokeStyle = textColor;
+                    ctx.lineWidth = Math.max(1, fontSize * 0.08) / (hasScript ? scriptScale : 1);
+                    ctx.beginPath();
+                    ctx.moveTo(finalLx, strikeY);
+                    ctx.lineTo(finalLx + strikeWidth, strikeY);
+                    ctx.stroke();
+                  }
+                
+                  lineY += fontSize + 2; 
+                  if (lineY > y + drawH) break; 
+                }
               
-              if (hasScript) {
-                ctx.restore();
+                if (hasScript) {
+                  ctx.restore();
+                }
               }
-            }
-            ctx.restore();
+              ctx.restore();
             
-            // Plugin after-render hook
-            for (const plugin of this.plugins) {
-              if (plugin.afterCellRender) {
-                plugin.afterCellRender(ctx, { x, y, w: drawW, h: drawH }, { addr, value: v, style });
+              // Plugin after-render hook
+              for (const plugin of this.plugins) {
+                if (plugin.afterCellRender) {
+                  plugin.afterCellRender(ctx, { x, y, w: drawW, h: drawH }, { addr, value: v, style });
+                }
               }
             }
-          }
 
-          // Comment indicator (small red triangle top-right) if comments exist
-          const cellObj = (this.sheet as any).getCell?.(addr);
-          if (cellObj?.comments?.length) {
-            const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh;
-            ctx.save();
-            ctx.beginPath();
-            const triSize = Math.min(8 * this.zoom, Math.max(6, 6 * this.zoom));
-            ctx.moveTo(x + drawW - triSize, y + 1);
-            ctx.lineTo(x + drawW - 1, y + 1);
-            ctx.lineTo(x + drawW - 1, y + triSize);
-            ctx.closePath();
-            ctx.fillStyle = '#d40000';
-            ctx.fill();
-            ctx.restore();
-          }
-
-          // Icon overlay rendering
-          if (cellObj?.icon) {
-            const icon = cellObj.icon; const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh;
-            const size = (icon.size ?? 16) * this.zoom;
-            const pad = 2 * this.zoom;
-            let ix = x + pad, iy = y + pad;
-            switch (icon.position) {
-              case 'top-right': ix = x + drawW - size - pad; iy = y + pad; break;
-              case 'bottom-left': ix = x + pad; iy = y + drawH - size - pad; break;
-              case 'bottom-right': ix = x + drawW - size - pad; iy = y + drawH - size - pad; break;
-              case 'center': ix = x + (drawW - size) / 2; iy = y + (drawH - size) / 2; break;
-              case 'top-left': default: ix = x + pad; iy = y + pad; break;
-            }
-            ctx.save();
-            if (icon.type === 'emoji') {
-              ctx.font = `${size}px ${this.theme.fontFamily}`;
-              ctx.fillText(icon.source, ix, iy + size - 4);
-            } else if (icon.type === 'builtin') {
-              // Simple builtin shapes: e.g., 'warning', 'info'
+            // Comment indicator (small red triangle top-right) if comments exist
+            const cellObj = (this.sheet as any).getCell?.(addr);
+            if (cellObj?.comments?.length) {
+              const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh;
+              ctx.save();
               ctx.beginPath();
-              if (icon.source === 'warning') {
-                ctx.fillStyle = '#ffcc00';
-                ctx.moveTo(ix + size / 2, iy);
-                ctx.lineTo(ix + size, iy + size);
-                ctx.lineTo(ix, iy + size);
-                ctx.closePath();
-                ctx.fill();
-              } else if (icon.source === 'info') {
-                ctx.fillStyle = '#0078d4';
-                ctx.arc(ix + size / 2, iy + size / 2, size / 2, 0, Math.PI * 2);
-                ctx.fill();
-                ctx.fillStyle = '#ffffff';
-                ctx.font = `${Math.floor(size * 0.6)}px ${this.theme.fontFamily}`;
-                ctx.fillText('i', ix + size * 0.35, iy + size * 0.7);
-              }
-            } else if (icon.type === 'url') {
-              // Defer image loading; cache per URL
-              const cacheKey = `img:${icon.source}`;
-              let img = (this as any)._imageCache?.get(cacheKey);
-              if (!img) {
-                img = new Image();
-                img.crossOrigin = 'anonymous';
-                img.src = icon.source;
-                (this as any)._imageCache = (this as any)._imageCache || new Map();
-                (this as any)._imageCache.set(cacheKey, img);
-                img.onload = () => { this.invalidateRect(x, y, drawW, drawH); };
+              const triSize = Math.min(8 * this.zoom, Math.max(6, 6 * this.zoom));
+              ctx.moveTo(x + drawW - triSize, y + 1);
+              ctx.lineTo(x + drawW - 1, y + 1);
+              ctx.lineTo(x + drawW - 1, y + triSize);
+              ctx.closePath();
+              ctx.fillStyle = '#d40000';
+              ctx.fill();
+              ctx.restore();
+            }
+
+            // Icon overlay rendering
+            if (cellObj?.icon) {
+              const icon = cellObj.icon; const drawW = merged ? spanW : cw; const drawH = merged ? spanH : rh;
+              const size = (icon.size ?? 16) * this.zoom;
+              const pad = 2 * this.zoom;
+              let ix = x + pad, iy = y + pad;
+              switch (icon.position) {
+                case 'top-right': ix = x + drawW - size - pad; iy = y + pad; break;
+                case 'bottom-left': ix = x + pad; iy = y + drawH - size - pad; break;
+                case 'bottom-right': ix = x + drawW - size - pad; iy = y + drawH - size - pad; break;
+                case 'center': ix = x + (drawW - size) / 2; iy = y + (drawH - size) / 2; break;
+                case 'top-left': default: ix = x + pad; iy = y + pad; break;
               }
-              if (img.complete && img.naturalWidth) {
-                ctx.drawImage(img, ix, iy, size, size);
+              ctx.save();
+              if (icon.type === 'emoji') {
+                ctx.font = `${size}px ${this.theme.fontFamily}`;
+                ctx.fillText(icon.source, ix, iy + size - 4);
+              } else if (icon.type === 'builtin') {
+                // Simple builtin shapes: e.g., 'warning', 'info'
+                ctx.beginPath();
+                if (icon.source === 'warning') {
+                  ctx.fillStyle = '#ffcc00';
+                  ctx.moveTo(ix + size / 2, iy);
+                  ctx.lineTo(ix + size, iy + size);
+                  ctx.lineTo(ix, iy + size);
+                  ctx.closePath();
+                  ctx.fill();
+                } else if (icon.source === 'info') {
+                  ctx.fillStyle = '#0078d4';
+                  ctx.arc(ix + size / 2, iy + size / 2, size / 2, 0, Math.PI * 2);
+                  ctx.fill();
+                  ctx.fillStyle = '#ffffff';
+                  ctx.font = `${Math.floor(size * 0.6)}px ${this.theme.fontFamily}`;
+                  ctx.fillText('i', ix + size * 0.35, iy + size * 0.7);
+                }
+              } else if (icon.type === 'url') {
+                // Defer image loading; cache per URL
+                const cacheKey = `img:${icon.source}`;
+                let img = (this as any)._imageCache?.get(cacheKey);
+                if (!img) {
+                  img = new Image();
+                  img.crossOrigin = 'anonymous';
+                  img.src = icon.source;
+                  (this as any)._imageCache = (this as any)._imageCache || new Map();
+                  (this as any)._imageCache.set(cacheKey, img);
+                  img.onload = () => { this.invalidateRect(x, y, drawW, drawH); };
+                }
+                if (img.complete && img.naturalWidth) {
+                  ctx.drawImage(img, ix, iy, size, size);
+                }
               }
+              ctx.restore();
             }
-            ctx.restore();
+            x += this.columnWidth(col) * this.zoom; col++;
           }
-          x += this.sheet.getColumnWidth(col) * this.zoom; col++;
+          y += this.sheet.getRowHeight(row) * this.zoom; rowIndex++;
         }
-        y += this.sheet.getRowHeight(row) * this.zoom; rowIndex++;
+        ctx.restore();
       }
 
       this.drawLayers('cells', ctx, width, height);
@@ -1129,6 +1280,23 @@ export class CanvasRenderer {
         }
       }
 
+      // Split lines between the frozen panes and the scrolling body
+      const split = this.freezeLayout(visRows);
+      if (split.cols > 0 || split.rowCount > 0) {
+        ctx.strokeStyle = this.theme.freezeLineColor;
+        ctx.lineWidth = this.theme.freezeLineWidth;
+        ctx.beginPath();
+        if (split.cols > 0) {
+          const sx = Math.round(headerWidth + split.width) + 0.5;
+          ctx.moveTo(sx, headerHeight); ctx.lineTo(sx, height);
+        }
+        if (split.rowCount > 0) {
+          const sy = Math.round(headerHeight + split.height) + 0.5;
+          ctx.moveTo(headerWidth, sy); ctx.lineTo(width, sy);
+        }
+        ctx.stroke();
+      }
+
       this.drawLayers('selection', ctx, width, height);
       this.drawLayers('overlays', ctx, width, height);
       ctx.restore();
@@ -1156,17 +1324,19 @@ export class CanvasRenderer {
 
   private rectForRange(r1: number, c1: number, r2: number, c2: number): { x: number; y: number; w: number; h: number } | null {
     const { headerHeight, headerWidth } = this.options;
-    let x = headerWidth - this.scrollX; // starting x of col 1 relative to viewport
-    for (let c = 1; c < c1; c++) x += this.sheet.getColumnWidth(c) * this.zoom;
-    // Y based on visible rows only
+    // Content-space extents first (frozen panes included), Y based on visible rows only
+    let x = 0; for (let c = 1; c < c1; c++) x += this.columnWidth(c) * this.zoom;
     const vis = this.getVisibleRows();
-    let y = headerHeight - this.scrollY;
+    let y = 0;
     for (const r of vis) { if (r >= r1) break; y += this.sheet.getRowHeight(r) * this.zoom; }
-    let w = 0; for (let c = c1; c <= c2; c++) w += this.sheet.getColumnWidth(c) * this.zoom;
+    let w = 0; for (let c = c1; c <= c2; c++) w += this.columnWidth(c) * this.zoom;
     let h = 0; for (const r of vis) { if (r < r1) continue; if (r > r2) break; h += this.sheet.getRowHeight(r) * this.zoom; }
-    const vx = x; const vy = y;
-    if (vx + w < headerWidth || vy + h < headerHeight) return null; // off-screen
-    return { x: vx, y: vy, w, h };
+    // Then into the viewport through the pane each edge lies in
+    const frozen = this.freezeLayout(vis);
+    const [vx, right] = paneSpan(x, x + w, c1 <= frozen.cols, c2 <= frozen.cols, this.scrollX, headerWidth, frozen.width);
+    const [vy, bottom] = paneSpan(y, y + h, r1 <= frozen.rows, r2 <= frozen.rows, this.scrollY, headerHeight, frozen.height);
+    if (right <= vx || bottom <= vy) return null; // off-screen or under a frozen pane
+    return { x: vx, y: vy, w: right - vx, h: bottom - vy };
   }
 
   // Excel-like column label (1 -> A, 26 -> Z, 27 -> AA)
@@ -1188,44 +1358,28 @@ export class CanvasRenderer {
     const { headerHeight, headerWidth } = this.options;
     if (x < headerWidth || y < headerHeight) return null;
     
-    // Calculate starting positions accounting for scroll offset
-    let col = 1;
-    let scrollRemainX = this.scrollX;
-    // Skip columns that are scrolled out of view
-    while (scrollRemainX > 0 && col <= this.sheet.colCount) {
-      const w = this.sheet.getColumnWidth(col) * this.zoom;
-      if (scrollRemainX < w) break;
-      scrollRemainX -= w;
-      col++;
-    }
-    
+    // Points over a frozen pane ignore the scroll on that axis
     const visRows = this.getVisibleRows();
-    let rowIndex = 0;
-    let scrollRemainY = this.scrollY;
-    // Skip rows that are scrolled out of view
-    while (scrollRemainY > 0 && rowIndex < visRows.length) {
-      const h = this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom;
-      if (scrollRemainY < h) break;
-      scrollRemainY -= h;
-      rowIndex++;
-    }
-    
-    // Now walk from the first visible cell, starting with partial offsets
-    let cx = headerWidth - scrollRemainX;
-    let cy = headerHeight - scrollRemainY;
+    const frozen = this.freezeLayout(visRows);
+    const contentX = x - headerWidth + (x - headerWidth < frozen.width ? 0 : this.scrollX);
+    const contentY = y - headerHeight + (y - headerHeight < frozen.height ? 0 : this.scrollY);
     
     // Find column
-    while (cx <= x && col <= this.sheet.colCount) {
-      const w = this.sheet.getColumnWidth(col) * this.zoom;
-      if (x < cx + w) break;
+    let col = 1;
+    let cx = 0;
+    while (col <= this.sheet.colCount) {
+      const w = this.columnWidth(col) * this.zoom;
+      if (contentX < cx + w) break;
       cx += w;
       col++;
     }
     
     // Find row
-    while (cy <= y && rowIndex < visRows.length) {
+    let rowIndex = 0;
+    let cy = 0;
+    while (rowIndex < visRows.length) {
       const h = this.sheet.getRowHeight(visRows[rowIndex]) * this.zoom;
-      if (y < cy + h) break;
+      if (contentY < cy + h) break;
       cy += h;
       rowIndex++;
     }
@@ -1239,11 +1393,12 @@ export class CanvasRenderer {
   hitTest(clientX: number, clientY: number):
     | { type: 'col-resize'; col: number }
     | { type: 'row-resize'; row: number }
-    | { type: 'cell'; addr: Address }
+    | { type: 'cell'; addr: Address; hyperlink?: CellHyperlink }
     | { type: 'header-col'; col: number }
     | { type: 'header-row'; row: number }
     | { type: 'fill-handle'; rangeIndex: number }
     | { type: 'select-all' }
+    | OutlineHit
     | null {
     const rect = this.canvas.getBoundingClientRect();
     const x = clientX - rect.left;
@@ -1251,6 +1406,11 @@ export class CanvasRenderer {
     const { headerHeight, headerWidth } = this.options;
     const threshold = 4; // px proximity to border
     
+    // Outline gutters: only their buttons react
+    if (x < headerWidth - this.baseHeaderSize.width || y < headerHeight - this.baseHeaderSize.height) {
+      return this.outlineHitTest(x, y);
+    }
+    
     // Check select-all button (top-left corner)
     if (x <= headerWidth && y <= headerHeight) {
       return { type: 'select-all' };
@@ -1276,32 +1436,205 @@ export class CanvasRenderer {
     }
     
     if (y <= headerHeight && x >= headerWidth) {
-      // Column header area - check resize handles first
-      let cx = headerWidth - this.scrollX; let col = 1;
-      while (cx < this.canvas.width / this.dpr && col <= this.sheet.colCount) {
-        const w = this.sheet.getColumnWidth(col) * this.zoom;
-        const edge = cx + w;
-        if (Math.abs(x - edge) <= threshold) return { type: 'col-resize', col };
-        if (x >= cx && x < cx + w) return { type: 'header-col', col };
-        cx += w; col++;
+      // Column header area - check resize handles first, per pane
+      const bands = this.paneBands(this.canvas.width / this.dpr, this.canvas.height / this.dpr).cols;
+      for (const band of bands) {
+        if (x < band.start || x > band.end + threshold) continue;
+        let cx = band.offset; let col = band.first;
+        while (cx < band.end && col <= band.last) {
+          const w = this.columnWidth(col) * this.zoom;
+          const edge = cx + w;
+          if (edge >= band.start && Math.abs(x - edge) <= threshold) return { type: 'col-resize', col };
+          if (x >= Math.max(cx, band.start) && x < edge) return { type: 'header-col', col };
+          cx += w; col++;
+        }
       }
       return null;
     }
     if (x <= headerWidth && y >= headerHeight) {
-      // Row header area - check resize handles first
-      let cy = headerHeight - this.scrollY; const vis = this.getVisibleRows(); let idx = 0;
-      while (cy < this.canvas.height / this.dpr && idx < vis.length) {
-        const row = vis[idx];
-        const h = this.sheet.getRowHeight(row) * this.zoom;
-        const edge = cy + h;
-        if (Math.abs(y - edge) <= threshold) return { type: 'row-resize', row };
-        if (y >= cy && y < cy + h) return { type: 'header-row', row };
-        cy += h; idx++;
+      // Row header area - check resize handles first, per pane
+      const bands = this.paneBands(this.canvas.width / this.dpr, this.canvas.height / this.dpr).rows;
+      const vis = this.getVisibleRows();
+      for (const band of bands) {
+        if (y < band.start || y > band.end + threshold) continue;
+        let cy = band.offset; let idx = band.first;
+        while (cy < band.end && idx <= band.last) {
+          const row = vis[idx];
+          const h = this.sheet.getRowHeight(row) * this.zoom;
+          const edge = cy + h;
+          if (edge >= band.start && Math.abs(y - edge) <= threshold) return { type: 'row-resize', row };
+          if (y >= Math.max(cy, band.start) && y < edge) return { type: 'header-row', row };
+          cy += h; idx++;
+        }
       }
       return null;
     }
     const addr = this.cellAt(clientX, clientY);
-    return addr ? { type: 'cell', addr } : null;
+    if (!addr) return null;
+    const hyperlink = this.sheet.getHyperlink(addr);
+    return hyperlink ? { type: 'cell', addr, hyperlink } : { type: 'cell', addr };
+  }
+
+  // ==================== Outline ====================
+
+  // Grow the headers by a gutter per axis with outline groups: a lane per level, one more for the last level button
+  private layoutOutlineGutters(): void {
+    const gutter = (axis: OutlineAxis) => {
+      const levels = this.sheet.getMaxOutlineLevel(axis);
+      return levels > 0 ? (levels + 1) * OUTLINE_LANE : 0;
+    };
+    this.options.headerWidth = this.baseHeaderSize.width + gutter('row');
+    this.options.headerHeight = this.baseHeaderSize.height + gutter('col');
+  }
+
+  // Viewport position and size of each row/column on screen, by index
+  private screenSpans(axis: OutlineAxis, width: number, height: number): Map<number, { at: number; size: number }> {
+    const panes = this.paneBands(width, height);
+    const spans = new Map<number, { at: number; size: number }>();
+    if (axis === 'row') {
+      const vis = this.getVisibleRows();
+      for (const band of panes.rows) {
+        let y = band.offset;
+        for (let i = band.first; i <= band.last && y < band.end; i++) {
+          const h = this.sheet.getRowHeight(vis[i]) * this.zoom;
+          if (y + h > band.start) spans.set(vis[i], { at: y, size: h });
+          y += h;
+        }
+      }
+    } else {
+      for (const band of panes.cols) {
+        let x = band.offset;
+        for (let col = band.first; col <= band.last && x < band.end; col++) {
+          const w = this.columnWidth(col) * this.zoom;
+          if (w > 0 && x + w > band.start) spans.set(col, { at: x, size: w });
+          x += w;
+        }
+      }
+    }
+    return spans;
+  }
+
+  // Bars and toggles of every group on one axis
+  private outlineMarks(axis: OutlineAxis, width: number, height: number): OutlineMark[] {
+    const spans = this.screenSpans(axis, width, height);
+    const settings = this.sheet.getOutlineSettings();
+    const summaryAfter = axis === 'row' ? settings.summaryRowsBelow : settings.summaryColumnsRight;
+    return this.sheet.getOutlineGroups(axis).map(group => {
+      const lane = (group.level - 1) * OUTLINE_LANE + OUTLINE_LANE / 2;
+      const summary = spans.get(summaryAfter ? group.end + 1 : group.start - 1);
+      const toggle = summary ? summary.at + summary.size / 2 : null;
+      if (group.collapsed) return { group, lane, bar: null, toggle };
+      let from = Infinity; let to = -Infinity;
+      for (const [index, span] of spans) {
+        if (index < group.start || index > group.end) continue;
+        from = Math.min(from, span.at); to = Math.max(to, span.at + span.size);
+      }
+      if (from >= to) return { group, lane, bar: null, toggle };
+      // The bar runs into the toggle when the summary is on screen
+      from += 2; to -= 2;
+      const cap = summaryAfter ? from : to;
+      if (toggle != null && summaryAfter) to = toggle - OUTLINE_BUTTON / 2;
+      else if (toggle != null) from = toggle + OUTLINE_BUTTON / 2;
+      return { group, lane, bar: { from, to, cap }, toggle };
+    });
+  }
+
+  // Level buttons 1..max+1: across the row gutter beside the column headers, down the column gutter above the row headers
+  private outlineLevelButtons(axis: OutlineAxis): Array<{ level: number; x: number; y: number }> {
+    const max = this.sheet.getMaxOutlineLevel(axis);
+    const buttons: Array<{ level: number; x: number; y: number }> = [];
+    for (let level = 1; max > 0 && level <= max + 1; level++) {
+      const lane = (level - 1) * OUTLINE_LANE + OUTLINE_LANE / 2;
+      buttons.push(axis === 'row'
+        ? { level, x: lane, y: this.options.headerHeight - this.baseHeaderSize.height / 2 }
+        : { level, x: this.options.headerWidth - this.baseHeaderSize.width / 2, y: lane });
+    }
+    return buttons;
+  }
+
+  private drawOutline(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    const { headerWidth, headerHeight } = this.options;
+    const gutterX = headerWidth - this.baseHeaderSize.width;
+    const gutterY = headerHeight - this.baseHeaderSize.height;
+    if (gutterX === 0 && gutterY === 0) return;
+    ctx.save();
+    // Cover the header gridlines that run through the gutters
+    ctx.fillStyle = this.theme.headerBg;
+    ctx.fillRect(0, 0, gutterX, height);
+    ctx.fillRect(0, 0, width, gutterY);
+    ctx.strokeStyle = this.theme.gridColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    if (gutterX) { ctx.moveTo(gutterX - 0.5, 0); ctx.lineTo(gutterX - 0.5, height); }
+    if (gutterY) { ctx.moveTo(0, gutterY - 0.5); ctx.lineTo(width, gutterY - 0.5); }
+    ctx.stroke();
+    ctx.font = `9px ${this.theme.fontFamily}`;
+
+    for (const axis of ['row', 'col'] as const) {
+      const isRow = axis === 'row';
+      if ((isRow ? gutterX : gutterY) === 0) continue;
+      // Bars and toggles stay beside the grid, clear of the level buttons
+      ctx.save(); ctx.beginPath();
+      if (isRow) ctx.rect(0, headerHeight, gutterX, height - headerHeight); else ctx.rect(headerWidth, 0, width - headerWidth, gutterY);
+      ctx.clip();
+      for (const mark of this.outlineMarks(axis, width, height)) {
+        if (mark.bar) {
+          const { from, to, cap } = mark.bar;
+          const lane = Math.round(mark.lane) + 0.5;
+          ctx.strokeStyle = this.theme.outlineColor;
+          ctx.beginPath();
+          if (isRow) { ctx.moveTo(lane, from); ctx.lineTo(lane, to); ctx.moveTo(lane, cap); ctx.lineTo(lane + 4, cap); }
+          else { ctx.moveTo(from, lane); ctx.lineTo(to, lane); ctx.moveTo(cap, lane); ctx.lineTo(cap, lane + 4); }
+          ctx.stroke();
+        }
+        if (mark.toggle != null) {
+          this.drawOutlineButton(ctx, isRow ? mark.lane : mark.toggle, isRow ? mark.toggle : mark.lane, mark.group.collapsed ? '+' : '-');
+        }
+      }
+      ctx.restore();
+      for (const button of this.outlineLevelButtons(axis)) this.drawOutlineButton(ctx, button.x, button.y, String(button.level));
+    }
+    ctx.restore();
+  }
+
+  // A square button centered on (cx, cy) showing '+', '-' or a level number
+  private drawOutlineButton(ctx: CanvasRenderingContext2D, cx: number, cy: number, label: string) {
+    const left = Math.round(cx - OUTLINE_BUTTON / 2) + 0.5;
+    const top = Math.round(cy - OUTLINE_BUTTON / 2) + 0.5;
+    ctx.fillStyle = this.theme.sheetBg;
+    ctx.fillRect(left, top, OUTLINE_BUTTON, OUTLINE_BUTTON);
+    ctx.strokeStyle = this.theme.outlineColor;
+    ctx.strokeRect(left, top, OUTLINE_BUTTON, OUTLINE_BUTTON);
+    if (label === '+' || label === '-') {
+      const mx = left + Math.floor(OUTLINE_BUTTON / 2);
+      const my = top + Math.floor(OUTLINE_BUTTON / 2);
+      ctx.strokeStyle = this.theme.headerFg;
+      ctx.beginPath();
+      ctx.moveTo(left + 3, my); ctx.lineTo(left + OUTLINE_BUTTON - 3, my);
+      if (label === '+') { ctx.moveTo(mx, top + 3); ctx.lineTo(mx, top + OUTLINE_BUTTON - 3); }
+      ctx.stroke();
+    } else {
+      ctx.fillStyle = this.theme.headerFg;
+      ctx.fillText(label, cx - ctx.measureText(label).width / 2, cy + 3);
+    }
+  }
+
+  // Level button or group toggle under a point in the outline gutters
+  private outlineHitTest(x: number, y: number): OutlineHit | null {
+    const width = this.canvas.width / this.dpr;
+    const height = this.canvas.height / this.dpr;
+    const reach = OUTLINE_BUTTON / 2 + 1;
+    const over = (cx: number, cy: number) => Math.abs(x - cx) <= reach && Math.abs(y - cy) <= reach;
+    for (const axis of ['row', 'col'] as const) {
+      for (const button of this.outlineLevelButtons(axis)) {
+        if (over(button.x, button.y)) return { type: 'outline-level', axis, level: button.level };
+      }
+      for (const mark of this.outlineMarks(axis, width, height)) {
+        if (mark.toggle == null) continue;
+        if (axis === 'row' ? over(mark.lane, mark.toggle) : over(mark.toggle, mark.lane)) return { type: 'outline-toggle', axis, group: mark.group };
+      }
+    }
+    return null;
   }
 
   private drawLayers(stage: RenderStage, ctx: CanvasRenderingContext2D, width: number, height: number) {
@@ -1319,6 +1652,18 @@ export class CanvasRenderer {
     const hit = this.hitTest(e.clientX, e.clientY);
     if (!hit) return;
     
+    // Outline buttons: show a level, or collapse/expand one group
+    if (hit.type === 'outline-level') {
+      this.sheet.showOutlineLevel(hit.axis, hit.level);
+      return;
+    }
+    if (hit.type === 'outline-toggle') {
+      const { axis, group } = hit;
+      if (group.collapsed) this.sheet.expandOutlineGroup(axis, group.start, group.level);
+      else this.sheet.collapseOutlineGroup(axis, group.start, group.level);
+      return;
+    }
+    
     // Handle select-all button (top-left corner)
     if (hit.type === 'select-all') {
       this.setSelections([{ 
@@ -1501,7 +1846,7 @@ export class CanvasRenderer {
         this.canvas.style.cursor = 'col-resize';
       } else if (hit.type === 'row-resize') {
         this.canvas.style.cursor = 'row-resize';
-      } else if (hit.type === 'select-all') {
+      } else if (hit.type === 'select-all' || (hit.type === 'cell' && hit.hyperlink)) {
         this.canvas.style.cursor = 'pointer';
       } else {
         this.canvas.style.cursor = 'default';
@@ -1691,7 +2036,22 @@ export class CanvasRenderer {
 
   private handleClick = (e: MouseEvent) => {
     // Click is now mostly handled by mousedown/mouseup
-    // Keep this for compatibility but most logic moved to handleMouseDown
+    // Only linked cells act on click: once, and not at the end of a drag-select
+    if (e.detail > 1) return;
+    const hit = this.hitTest(e.clientX, e.clientY);
+    if (!hit || hit.type !== 'cell' || !hit.hyperlink) return;
+    const start = this.dragStartCell;
+    if (start && (start.row !== hit.addr.row || start.col !== hit.addr.col)) return;
+
+    const bounds = this.getCellBounds(hit.addr);
+    if (bounds) {
+      this.sheet['events'].emit({
+        type: 'hyperlink-click',
+        event: { address: hit.addr, bounds, originalEvent: e },
+        hyperlink: hit.hyperlink,
+      });
+    }
+    if (this.options.followHyperlinks) this.followHyperlink(hit.hyperlink);
   };
 
   private handleContextMenu = (e: MouseEvent) => {
@@ -1768,26 +2128,32 @@ export class CanvasRenderer {
    * Get cell bounds in viewport coordinates
    */
   getCellBounds(addr: Address): { x: number; y: number; width: number; height: number } | null {
-    const { firstRow, firstCol, xOffset, yOffset } = this.visibleRange();
-    
-    // Check if cell is in visible range
-    if (addr.row < firstRow || addr.col < firstCol) return null;
-    
-    let x = xOffset;
-    let y = yOffset;
-    
-    // Calculate X position
-    for (let c = firstCol; c < addr.col; c++) {
-      x += this.sheet.getColumnWidth(c);
+    const { headerHeight, headerWidth } = this.options;
+    const vis = this.getVisibleRows();
+    const rowIndex = vis.indexOf(addr.row);
+    if (rowIndex < 0) return null; // filtered out
+    const frozen = this.freezeLayout(vis);
+    
+    // Calculate X position; frozen columns ignore horizontal scroll
+    let x = headerWidth - (addr.col <= frozen.cols ? 0 : this.scrollX);
+    for (let c = 1; c < addr.col; c++) {
+      x += this.columnWidth(c) * this.zoom;
     }
     
-    // Calculate Y position
-    for (let r = firstRow; r < addr.row; r++) {
-      y += this.sheet.getRowHeight(r);
+    // Calculate Y position over visible rows; frozen rows ignore vertical scroll
+    let y = headerHeight - (addr.row <= frozen.rows ? 0 : this.scrollY);
+    for (let i = 0; i < rowIndex; i++) {
+      y += this.sheet.getRowHeight(vis[i]) * this.zoom;
     }
     
-    const width = this.sheet.getColumnWidth(addr.col);
-    const height = this.sheet.getRowHeight(addr.row);
+    const width = this.columnWidth(addr.col) * this.zoom;
+    const height = this.sheet.getRowHeight(addr.row) * this.zoom;
+    
+    // Scrolled entirely under the frozen panes
+    if ((addr.col > frozen.cols && x + width <= headerWidth + frozen.width) ||
+        (addr.row > frozen.rows && y + height <= headerHeight + frozen.height)) {
+      return null;
+    }
     
     // Check if fully visible
     const viewport = this.getViewportSize();
@@ -1799,26 +2165,50 @@ export class CanvasRenderer {
     return { x, y, width, height };
   }
 
+  /**
+   * Follow a cell hyperlink: URLs open in a new browsing context, `#` locations
+   * on this sheet are selected and scrolled into view. Returns false for
+   * locations the renderer cannot reach (other sheets, defined names), which
+   * the host handles from 'hyperlink-click'.
+   */
+  followHyperlink(hyperlink: CellHyperlink): boolean {
+    const location = parseHyperlinkLocation(hyperlink.target);
+    if (!location) {
+      window.open(hyperlink.target, '_blank', 'noopener');
+      return true;
+    }
+    if (!location.range) return false;
+    if (location.sheet !== undefined && location.sheet.toLowerCase() !== this.sheet.name.toLowerCase()) return false;
+    this.setSelections([{ start: location.range.start, end: location.range.end }]);
+    this.scrollToCell(location.range.start);
+    return true;
+  }
+
   /**
    * Scroll to make a cell visible
    */
   scrollToCell(addr: Address, align: 'start' | 'center' | 'end' | 'nearest' = 'nearest'): void {
-    // Calculate cell position in content space
-    let cellX = 0;
-    for (let c = 1; c < addr.col; c++) cellX += this.sheet.getColumnWidth(c) * this.zoom;
+    // Calculate cell position in the scrolling body, past any frozen panes
+    const vis = this.getVisibleRows();
+    const frozen = this.freezeLayout(vis);
+    let cellX = -frozen.width;
+    for (let c = 1; c < addr.col; c++) cellX += this.columnWidth(c) * this.zoom;
     
-    let cellY = 0;
-    for (let r = 1; r < addr.row; r++) cellY += this.sheet.getRowHeight(r) * this.zoom;
+    let cellY = -frozen.height;
+    for (const r of vis) { if (r >= addr.row) break; cellY += this.sheet.getRowHeight(r) * this.zoom; }
     
-    const cellWidth = this.sheet.getColumnWidth(addr.col) * this.zoom;
+    const cellWidth = this.columnWidth(addr.col) * this.zoom;
     const cellHeight = this.sheet.getRowHeight(addr.row) * this.zoom;
-    const viewport = this.getViewportSize();
+    const size = this.getViewportSize();
+    const viewport = { width: Math.max(0, size.width - frozen.width), height: Math.max(0, size.height - frozen.height) };
     
     let newScrollX = this.scrollX;
     let newScrollY = this.scrollY;
     
-    // Horizontal scrolling
-    if (align === 'start') {
+    // Horizontal scrolling (frozen columns are always in view)
+    if (addr.col <= frozen.cols) {
+      // keep scrollX
+    } else if (align === 'start') {
       newScrollX = cellX;
     } else if (align === 'center') {
       newScrollX = cellX - viewport.width / 2 + cellWidth / 2;
@@ -1833,8 +2223,10 @@ export class CanvasRenderer {
       }
     }
     
-    // Vertical scrolling
-    if (align === 'start') {
+    // Vertical scrolling (frozen rows are always in view)
+    if (addr.row <= frozen.rows) {
+      // keep scrollY
+    } else if (align === 'start') {
       newScrollY = cellY;
     } else if (align === 'center') {
       newScrollY = cellY - viewport.height / 2 + cellHeight / 2;
@@ -1859,17 +2251,18 @@ export class CanvasRenderer {
     const { firstRow, firstCol, firstRowIndex } = this.visibleRange();
     const viewport = this.getViewportSize();
     const vis = this.getVisibleRows();
+    const frozen = this.freezeLayout(vis);
     let idx = firstRowIndex ?? 0;
-    let y = this.options.headerHeight;
+    let y = this.options.headerHeight + frozen.height;
     while (y < viewport.height + this.options.headerHeight && idx < vis.length) {
       y += this.sheet.getRowHeight(vis[idx]) * this.zoom; idx++;
     }
     const lastRow = vis[Math.min(idx, vis.length - 1)] ?? firstRow;
     
     let lastCol = firstCol;
-    let x = this.options.headerWidth;
+    let x = this.options.headerWidth + frozen.width;
     while (x < viewport.width + this.options.headerWidth && lastCol <= this.sheet.colCount) {
-      x += this.sheet.getColumnWidth(lastCol) * this.zoom;
+      x += this.columnWidth(lastCol) * this.zoom;
       lastCol++;
     }
     
@@ -1885,6 +2278,18 @@ function stageOrder(s: RenderStage): number {
   return order.indexOf(s);
 }
 
+/**
+ * Map a content-space span [from, to) onto the viewport along one axis.
+ * Edges in the frozen pane stay put; edges in the body move with the scroll
+ * and are clipped to the body's leading edge when scrolled under the pane.
+ */
+function paneSpan(from: number, to: number, startFrozen: boolean, endFrozen: boolean, scroll: number, origin: number, frozenSize: number): [number, number] {
+  const bodyStart = origin + frozenSize;
+  const start = startFrozen ? origin + from : Math.max(bodyStart, origin + from - scroll);
+  const end = endFrozen ? origin + to : Math.max(bodyStart, origin + to - scroll);
+  return [start, end];
+}
+
 function unionRect(a: { x: number; y: number; w: number; h: number }, b: { x: number; y: number; w: number; h: number }) {
   const x = Math.min(a.x, b.x);
   const y = Math.min(a.y, b.y);
@@ -6,6 +6,7 @@
  */
 
 import type { Worksheet, CellValue, CellRange, SeriesDirection } from '@cyber-sheet/core';
+import { toDisplayValue } from '@cyber-sheet/core';
 import type { ChartData } from './ChartEngine';
 
 /**
@@ -64,7 +65,7 @@ export class ChartDataAdapter {
     for (let row = startRow; row <= endRow; row++) {
       const rowData: CellValue[] = [];
       for (let col = startCol; col <= endCol; col++) {
-        const value = worksheet.getCell({ row, col })?.value ?? null;
+        const value = toDisplayValue(worksheet.getCell({ row, col })?.value ?? null);
         rowData.push(value);
       }
       data.push(rowData);
@@ -100,7 +100,8 @@ export class ChartEngine {
 
   constructor(canvas: HTMLCanvasElement | OffscreenCanvas) {
     this.canvas = canvas;
-    this.ctx = canvas.getContext('2d')!;
+    // The union overloads widen to RenderingContext; a 2d request yields a 2d context
+    this.ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
   }
 
   /**
@@ -42,7 +42,7 @@ export class ChartEngineIntegrated extends ChartEngine {
 
   constructor(canvas: HTMLCanvasElement | OffscreenCanvas) {
     super(canvas);
-    const ctx = canvas.getContext('2d')!;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
     this.advancedRenderer = new AdvancedChartRenderer(ctx);
   }
 
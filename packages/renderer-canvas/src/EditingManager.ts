@@ -6,6 +6,7 @@
 
 import type { Address, CellValue, Cell } from '@cyber-sheet/core';
 import type { Worksheet } from '@cyber-sheet/core';
+import { formatValue } from '@cyber-sheet/core';
 
 export interface ClipboardData {
   cells: Cell[][];
@@ -209,12 +210,23 @@ export class EditingManager {
     return cells;
   }
 
+  /**
+   * Cell text as displayed, so copied numbers keep their number format
+   */
+  private displayText(cell: Cell): string {
+    if (cell.value == null) return '';
+    const fmt = cell.style?.numberFormat;
+    return fmt && (typeof cell.value === 'number' || typeof cell.value === 'string')
+      ? formatValue(cell.value, fmt)
+      : String(cell.value);
+  }
+
   /**
    * Convert cells to plain text
    */
   private convertToPlainText(cells: Cell[][]): string {
     return cells.map(row => 
-      row.map(cell => String(cell.value ?? '')).join('\t')
+      row.map(cell => this.displayText(cell)).join('\t')
     ).join('\n');
   }
 
@@ -227,7 +239,7 @@ export class EditingManager {
     for (const row of cells) {
       html += '<tr>';
       for (const cell of row) {
-        html += `<td>${cell.value ?? ''}</td>`;
+        html += `<td>${this.displayText(cell)}</td>`;
       }
       html += '</tr>';
     }
@@ -242,7 +254,7 @@ export class EditingManager {
   private convertToCSV(cells: Cell[][]): string {
     return cells.map(row =>
       row.map(cell => {
-        const value = String(cell.value ?? '');
+        const value = this.displayText(cell);
         return value.includes(',') || value.includes('"') || value.includes('\n')
           ? `"${value.replace(/"/g, '""')}"`
           : value;
@@ -5,6 +5,13 @@ export type Theme = {
   headerFg: string;
   sheetBg: string;
   selectionColor: string;
+  // Text of cells carrying a hyperlink
+  hyperlinkColor: string;
+  // Line between frozen panes and the scrolling body
+  freezeLineColor: string;
+  freezeLineWidth: number; // px
+  // Outline group bars and their +/- and level buttons
+  outlineColor: string;
   // Typography
   fontFamily: string;
   fontSize: number; // px
@@ -22,6 +29,13 @@ export const ExcelLightTheme: Theme = {
   sheetBg: '#FFFFFF',
   // Selection outline (Excel-esque blue)
   selectionColor: '#5B9BD5',
+  // Excel's built-in Hyperlink cell style
+  hyperlinkColor: '#0563C1',
+  // Frozen panes are split by a thin dark gray line
+  freezeLineColor: '#8C8C8C',
+  freezeLineWidth: 1,
+  // Group bars and buttons in the outline gutters are mid gray
+  outlineColor: '#7F7F7F',
   // Typography
   fontFamily: 'Segoe UI, Arial, sans-serif',
   fontSize: 11,
@@ -34,6 +48,10 @@ export const ExcelDarkTheme: Theme = {
   headerFg: '#E6E6E6',
   sheetBg: '#1E1E1E',
   selectionColor: '#5B9BD5',
+  hyperlinkColor: '#6CA9F0',
+  freezeLineColor: '#6E6E6E',
+  freezeLineWidth: 1,
+  outlineColor: '#8A8A8A',
   fontFamily: 'Segoe UI, Arial, sans-serif',
   fontSize: 11,
 };
@@ -135,6 +135,7 @@ export const COMMON_FUNCTIONS = [
   'AND', 'OR', 'NOT', 'XOR', 'TRUE', 'FALSE', 'IFERROR', 'IFNA', 'ISERROR',
   'ISBLANK', 'ISTEXT', 'ISNUMBER', 'ISLOGICAL',
   'FILTER', 'SORT', 'SORTBY', 'UNIQUE', 'SEQUENCE', 'RANDARRAY',
+  'GROUPBY', 'PIVOTBY', 'PERCENTOF',
   'ABS', 'SQRT', 'POWER', 'EXP', 'LN', 'LOG', 'LOG10',
   'SIN', 'COS', 'TAN', 'ASIN', 'ACOS', 'ATAN', 'ATAN2',
   'PI', 'RADIANS', 'DEGREES', 'MOD', 'QUOTIENT', 'GCD', 'LCM',
@@ -142,6 +143,7 @@ export const COMMON_FUNCTIONS = [
   'STDEV', 'STDEVP', 'VAR', 'VARP', 'MEDIAN', 'MODE', 'CORREL',
   'CHOOSE', 'SWITCH', 'IFS', 'MAXIFS', 'MINIFS',
   'TEXTJOIN', 'TEXTSPLIT', 'TRANSPOSE', 'MMULT',
+  'REGEXTEST', 'REGEXEXTRACT', 'REGEXREPLACE', 'HYPERLINK',
 ] as const;
 
 /**
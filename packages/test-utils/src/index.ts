@@ -26,7 +26,12 @@ export function mockCanvas() {
         beginPath: () => {},
         moveTo: () => {},
         lineTo: () => {},
+        closePath: () => {},
+        arc: () => {},
         rect: () => {},
+        clip: () => {},
+        fill: () => {},
+        stroke: () => {},
         fillText: () => {},
         strokeText: () => {},
         measureText: (t: string) => ({ width: t.length * 7 }),
@@ -0,0 +1,169 @@
+/**
+ * Reference relay server for CollaborationEngine.
+ *
+ * Serves CollaborationRelay over WebSocket with no dependencies beyond
+ * Node itself, and persists the operation log as JSON lines so clients
+ * joining after a restart still receive the full history.
+ *
+ * Usage: ts-node scripts/collab-relay-server.ts [port] [log-file]
+ *   port      defaults to $PORT or 8787
+ *   log-file  defaults to ./collab-ops.jsonl
+ *
+ * Clients connect with `engine.connect('ws://host:port')`.
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { CollaborationRelay, type RelayStore } from '../packages/core/src/collaboration/CollaborationRelay';
+import type { WireOperation } from '../packages/core/src/collaboration/CollaborationTransport';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Operation log as one JSON operation per line */
+class FileRelayStore implements RelayStore {
+  constructor(private path: string) {}
+
+  load(): WireOperation[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line));
+  }
+
+  append(operation: WireOperation): void {
+    appendFileSync(this.path, JSON.stringify(operation) + '\n');
+  }
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Split complete frames off the front of `buffer`. Returns the frames and
+ * whatever is left over for the next chunk.
+ */
+function decodeFrames(buffer: Buffer): { frames: Array<{ fin: boolean; opcode: number; payload: Buffer }>; rest: Buffer } {
+  const frames: Array<{ fin: boolean; opcode: number; payload: Buffer }> = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let pos = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      length = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < pos + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(pos + maskLength, pos + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(pos, pos + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ fin, opcode, payload });
+    offset = pos + maskLength + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+export function startRelayServer(port: number, logFile: string) {
+  const relay = new CollaborationRelay(new FileRelayStore(logFile));
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket connections only\n');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const session = relay.accept({
+      send: (message) => socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message)))),
+    });
+
+    let pending: Buffer = Buffer.alloc(0);
+    let fragments: Buffer[] = [];
+
+    socket.on('data', (chunk: Buffer) => {
+      const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+
+      for (const { fin, opcode, payload } of frames) {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+          return;
+        }
+        if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload));
+          continue;
+        }
+        if (opcode !== 0x0 && opcode !== 0x1) continue;
+
+        fragments.push(payload);
+        if (!fin) continue;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+
+        try {
+          session.receive(JSON.parse(text));
+        } catch (error) {
+          console.error('[Relay] Bad message:', error);
+        }
+      }
+    });
+
+    socket.on('close', () => session.close());
+    socket.on('error', () => socket.destroy());
+  });
+
+  server.listen(port, () => {
+    console.log(`[Relay] Listening on ws://localhost:${port} (log: ${logFile}, ${relay.getOperations().length} ops)`);
+  });
+
+  return server;
+}
+
+if (require.main === module) {
+  const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+  const logFile = process.argv[3] ?? './collab-ops.jsonl';
+  startRelayServer(port, logFile);
+}